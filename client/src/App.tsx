@@ -18,6 +18,7 @@ import AIAnalysis from "@/pages/AIAnalysis";
 import CapitalCalls from "@/pages/CapitalCalls";
 import CapitalCallsByAllocation from "@/pages/CapitalCallsByAllocation";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
 import ErrorBoundary from "@/components/common/ErrorBoundary";
 import { ProtectedRoute } from "@/components/common/ProtectedRoute";
 import { DatabaseStatusAlert } from "@/components/system/DatabaseStatusAlert";
@@ -43,6 +44,12 @@ function Router() {
   );
 }
 
+// Subscribes to server push once per session instead of once per page
+function RealtimeEvents() {
+  useRealtimeEvents();
+  return null;
+}
+
 function App() {
   return (
     <ErrorBoundary>
@@ -51,6 +58,7 @@ function App() {
           <TooltipProvider>
             <Toaster />
             <DatabaseStatusAlert />
+            <RealtimeEvents />
             <Router />
           </TooltipProvider>
         </AuthProvider>
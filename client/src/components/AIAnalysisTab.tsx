@@ -5,10 +5,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Bot, Send, FileText, Database, TrendingUp, Loader2, Brain, MessageSquare, FileSpreadsheet, Eye } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bot, Send, FileText, Database, TrendingUp, Loader2, Brain, MessageSquare, FileSpreadsheet, Eye, Square, Plus, Pencil, Share2, Lock, GitBranch, Pin } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import FormattedText from "@/components/common/FormattedText";
-import { useAIAnalysis, AnalysisMessage } from "@/hooks/useAIAnalysis";
+import UniversalDocumentViewer from "@/components/documents/UniversalDocumentViewer";
+import { useAuth } from "@/hooks/use-auth";
+import { useAIAnalysis, AnalysisMessage, AnalysisCitation } from "@/hooks/useAIAnalysis";
 
 interface AIAnalysisTabProps {
   dealId: number;
@@ -24,8 +29,24 @@ interface Document {
   description?: string;
 }
 
+// Where a citation points in its document, e.g. "p. 4" or "Summary, rows 12-18"
+function citationLocation(citation: AnalysisCitation): string {
+  const parts: string[] = [];
+  if (citation.page) parts.push(`p. ${citation.page}`);
+  if (citation.sheet) parts.push(citation.sheet);
+  if (citation.rowStart) {
+    parts.push(citation.rowEnd && citation.rowEnd !== citation.rowStart
+      ? `rows ${citation.rowStart}-${citation.rowEnd}`
+      : `row ${citation.rowStart}`);
+  }
+  return parts.join(', ');
+}
+
 export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps) {
   const [loadingDocumentId, setLoadingDocumentId] = useState<number | null>(null);
+  const [openCitation, setOpenCitation] = useState<AnalysisCitation | null>(null);
+  const [renameTitle, setRenameTitle] = useState<string | null>(null);
+  const { data: currentUser } = useAuth();
 
   // Use the shared AI Analysis hook
   const {
@@ -34,11 +55,21 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
     setInputValue,
     sendMessage,
     generateAnalysis,
+    cancelAnalysis,
     clearMessages,
     messagesEndRef,
     isGeneratingAnalysis,
     contextData,
-    contextLoading
+    contextLoading,
+    threads,
+    activeThread,
+    openThread,
+    renameThread,
+    shareThread,
+    forkThread,
+    pinAnalysis,
+    isForking,
+    isPinning
   } = useAIAnalysis({
     dealId,
     dealName,
@@ -51,16 +82,21 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
     enabled: !!dealId
   });
 
+  // Colleagues' shared threads can be read, forked and pinned from, but only their author adds to them
+  const readOnly = !!activeThread && activeThread.createdBy !== currentUser?.id;
+
   const handleSendMessage = () => {
-    if (!inputValue.trim() || isGeneratingAnalysis) return;
+    if (!inputValue.trim() || isGeneratingAnalysis || readOnly) return;
     sendMessage();
   };
 
   const handleGenerateAnalysis = () => {
+    if (readOnly) return;
     generateAnalysis();
   };
 
   const handleDocumentAnalysis = async (document: Document) => {
+    if (readOnly) return;
     setLoadingDocumentId(document.id);
     
     // Set the input value and trigger analysis through the hook
@@ -76,6 +112,13 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
     }
   };
 
+  const handleRename = () => {
+    if (activeThread && renameTitle?.trim()) {
+      renameThread(activeThread.id, renameTitle.trim());
+    }
+    setRenameTitle(null);
+  };
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -88,7 +131,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
         <div className="flex gap-2">
           <Button 
             onClick={handleGenerateAnalysis}
-            disabled={isGeneratingAnalysis}
+            disabled={isGeneratingAnalysis || readOnly}
             variant="outline"
             size="sm"
           >
@@ -106,7 +149,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
           </Button>
           <Button 
             onClick={() => sendMessage("Provide a comprehensive investment thesis for this deal including market opportunity, competitive advantages, risks, and recommendation.")}
-            disabled={isGeneratingAnalysis}
+            disabled={isGeneratingAnalysis || readOnly}
             variant="outline"
             size="sm"
           >
@@ -116,6 +159,65 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
         </div>
       </div>
 
+      {/* Saved threads */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b">
+        <MessageSquare className="h-4 w-4 text-gray-500" />
+        <Select
+          value={activeThread ? String(activeThread.id) : ''}
+          onValueChange={(value) => openThread(Number(value))}
+          disabled={isGeneratingAnalysis || threads.length === 0}
+        >
+          <SelectTrigger className="h-8 w-[260px]">
+            <SelectValue placeholder={threads.length > 0 ? 'Open a saved thread' : 'No saved threads yet'} />
+          </SelectTrigger>
+          <SelectContent>
+            {threads.map(thread => (
+              <SelectItem key={thread.id} value={String(thread.id)}>
+                <span className="truncate">{thread.title}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {thread.createdBy === currentUser?.id ? 'You' : thread.authorName || 'Colleague'}
+                  {thread.shared && ' · shared'}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={clearMessages} disabled={isGeneratingAnalysis} title="Start a new thread">
+          <Plus className="h-4 w-4 mr-1" />
+          New
+        </Button>
+        {activeThread && !readOnly && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setRenameTitle(activeThread.title)} title="Rename the thread">
+              <Pencil className="h-4 w-4 mr-1" />
+              Rename
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => shareThread(activeThread.id, !activeThread.shared)}
+              title={activeThread.shared ? 'Make the thread private' : 'Let colleagues read the thread'}
+            >
+              {activeThread.shared ? <Lock className="h-4 w-4 mr-1" /> : <Share2 className="h-4 w-4 mr-1" />}
+              {activeThread.shared ? 'Unshare' : 'Share'}
+            </Button>
+          </>
+        )}
+        {activeThread && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => forkThread(activeThread.id)}
+            disabled={isGeneratingAnalysis || isForking}
+            title="Copy the thread to continue it separately"
+          >
+            <GitBranch className="h-4 w-4 mr-1" />
+            Fork
+          </Button>
+        )}
+        {activeThread?.shared && <Badge variant="outline" className="text-xs">Shared</Badge>}
+      </div>
+
       {/* Context Panel */}
       {contextData && (
         <div className="p-4 bg-gray-50 border-b">
@@ -141,7 +243,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
             variant="outline"
             size="sm"
             onClick={() => sendMessage("Analyze the financial metrics and projections for this deal.")}
-            disabled={isGeneratingAnalysis}
+            disabled={isGeneratingAnalysis || readOnly}
             className="flex items-center gap-2"
           >
             <TrendingUp className="h-3 w-3" />
@@ -151,7 +253,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
             variant="outline"
             size="sm"
             onClick={() => sendMessage("What are the key risks and mitigation strategies for this investment?")}
-            disabled={isGeneratingAnalysis}
+            disabled={isGeneratingAnalysis || readOnly}
             className="flex items-center gap-2"
           >
             <Eye className="h-3 w-3" />
@@ -161,7 +263,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
             variant="outline"
             size="sm"
             onClick={() => sendMessage("Analyze the market opportunity and competitive landscape.")}
-            disabled={isGeneratingAnalysis}
+            disabled={isGeneratingAnalysis || readOnly}
             className="flex items-center gap-2"
           >
             <Database className="h-3 w-3" />
@@ -171,7 +273,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
             variant="outline"
             size="sm"
             onClick={() => sendMessage("Summarize all legal documents and highlight key terms.")}
-            disabled={isGeneratingAnalysis}
+            disabled={isGeneratingAnalysis || readOnly}
             className="flex items-center gap-2"
           >
             <FileText className="h-3 w-3" />
@@ -191,7 +293,7 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
                 variant="outline"
                 size="sm"
                 onClick={() => handleDocumentAnalysis(document)}
-                disabled={isGeneratingAnalysis || loadingDocumentId === document.id}
+                disabled={isGeneratingAnalysis || readOnly || loadingDocumentId === document.id}
                 className="flex items-center gap-2"
                 title={document.fileName}
               >
@@ -233,6 +335,50 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
                   ) : (
                     <FormattedText content={message.content} />
                   )}
+                  {message.status === 'streaming' && (
+                    <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Writing...
+                    </div>
+                  )}
+                  {message.status === 'cancelled' && (
+                    <p className="mt-1 text-xs italic text-gray-500">Stopped. This is a partial answer.</p>
+                  )}
+                  {message.status === 'failed' && (
+                    <p className="mt-1 text-xs italic text-red-600">The answer stopped before it was complete.</p>
+                  )}
+                  {message.citations && message.citations.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-gray-200/20 space-y-1">
+                      <p className="text-xs font-medium opacity-75">Cited documents</p>
+                      {message.citations.map(citation => (
+                        <a
+                          key={citation.index}
+                          href={`/api/documents/${citation.documentId}/download${citation.page ? `#page=${citation.page}` : ''}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          title={citation.excerpt}
+                          onClick={(e) => {
+                            // Plain clicks open the in-app viewer at the cited page or rows
+                            if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+                            e.preventDefault();
+                            setOpenCitation(citation);
+                          }}
+                          className="flex items-center gap-1 text-xs text-blue-700 hover:underline"
+                        >
+                          <span className="font-mono">[{citation.index}]</span>
+                          {citation.sheet || citation.rowStart ? (
+                            <FileSpreadsheet className="h-3 w-3 flex-shrink-0" />
+                          ) : (
+                            <FileText className="h-3 w-3 flex-shrink-0" />
+                          )}
+                          <span className="truncate">{citation.fileName}</span>
+                          {citationLocation(citation) && (
+                            <span className="opacity-75 whitespace-nowrap">· {citationLocation(citation)}</span>
+                          )}
+                        </a>
+                      ))}
+                    </div>
+                  )}
                   {message.context && (
                     <div className="mt-2 pt-2 border-t border-gray-200/20">
                       <p className="text-xs opacity-75">
@@ -240,12 +386,39 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
                       </p>
                     </div>
                   )}
+                  {message.type !== 'user' && message.analysisId && message.status !== 'streaming' && (
+                    <div className="flex gap-1 mt-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => pinAnalysis(message.analysisId!)}
+                        disabled={!!message.pinnedEventId || isPinning || !message.content.trim()}
+                      >
+                        <Pin className="h-3 w-3 mr-1" />
+                        {message.pinnedEventId ? 'Pinned' : 'Pin to timeline'}
+                      </Button>
+                      {activeThread && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => forkThread(activeThread.id, message.analysisId)}
+                          disabled={isGeneratingAnalysis || isForking}
+                        >
+                          <GitBranch className="h-3 w-3 mr-1" />
+                          Fork from here
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ))
           )}
           
-          {isGeneratingAnalysis && (
+          {/* Until the first words of the answer arrive */}
+          {isGeneratingAnalysis && !messages.some(message => message.status === 'streaming') && (
             <div className="flex justify-start">
               <div className="bg-gray-100 p-3 rounded-lg">
                 <div className="flex items-center gap-2">
@@ -261,11 +434,17 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
 
       {/* Input Area */}
       <div className="border-t p-4">
+        {readOnly && (
+          <p className="mb-2 text-xs text-gray-500">
+            This thread was shared by {activeThread?.authorName || 'a colleague'}. Fork it to ask follow-up questions.
+          </p>
+        )}
         <div className="flex gap-2">
           <Textarea
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             placeholder={`Ask a question about ${dealName}...`}
+            disabled={readOnly}
             className="flex-1 min-h-[44px] max-h-32"
             onKeyDown={(e) => {
               if (e.key === 'Enter' && !e.shiftKey) {
@@ -274,15 +453,72 @@ export default function AIAnalysisTab({ dealId, dealName }: AIAnalysisTabProps)
               }
             }}
           />
-          <Button 
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isGeneratingAnalysis}
-            size="lg"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isGeneratingAnalysis ? (
+            <Button onClick={cancelAnalysis} variant="outline" size="lg" title="Stop the answer">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim() || readOnly}
+              size="lg"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
+
+      {/* Rename the open thread */}
+      <Dialog open={renameTitle !== null} onOpenChange={(open) => !open && setRenameTitle(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename thread</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameTitle ?? ''}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            maxLength={200}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+            }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenameTitle(null)}>Cancel</Button>
+            <Button onClick={handleRename} disabled={!renameTitle?.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cited document, opened at the cited page or rows */}
+      <Dialog open={!!openCitation} onOpenChange={(open) => !open && setOpenCitation(null)}>
+        <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+          {openCitation && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {openCitation.fileName}
+                  {citationLocation(openCitation) && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">{citationLocation(openCitation)}</span>
+                  )}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="flex-1 min-h-0 overflow-hidden">
+                <UniversalDocumentViewer
+                  key={`${openCitation.documentId}-${openCitation.index}`}
+                  documentId={openCitation.documentId}
+                  documentName={openCitation.fileName}
+                  initialPage={openCitation.page ?? undefined}
+                  initialSheet={openCitation.sheet ?? undefined}
+                  highlightRows={openCitation.rowStart
+                    ? { start: openCitation.rowStart, end: openCitation.rowEnd ?? openCitation.rowStart }
+                    : undefined}
+                />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
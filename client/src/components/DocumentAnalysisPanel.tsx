@@ -6,6 +6,7 @@ import { FileText, FileSpreadsheet, TrendingUp, Brain, Loader2, Eye } from 'luci
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useToast } from "@/hooks/use-toast";
 import FormattedText from "@/components/common/FormattedText";
+import { readEventStream } from "@/lib/event-stream";
 
 interface Document {
   id: number;
@@ -32,29 +33,44 @@ export function DocumentAnalysisPanel({ dealId, dealName }: DocumentAnalysisPane
     enabled: !!dealId
   });
 
-  // AI analysis mutation for specific documents
+  // AI analysis of one document; the answer streams in as the model writes it
   const analyzeDocumentMutation = useMutation({
-    mutationFn: async (documentId: number) => {
-      const response = await fetch(`/api/v1/ai-analysis/deals/${dealId}/analyze`, {
+    mutationFn: async (document: Document) => {
+      setAnalysisResult(null);
+      const response = await fetch(`/api/v1/ai-analysis/documents/${document.id}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
+        credentials: 'include',
         body: JSON.stringify({ 
-          query: `Please analyze the document "${selectedDocument?.fileName}" in detail.`,
-          documentId 
+          query: `Please analyze the document "${document.fileName}" in detail.`
         })
       });
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Failed to analyze document');
+        throw new Error(errorData.error || errorData.message || 'Failed to analyze document');
       }
-      
-      return response.json();
+
+      let result: any = null;
+      await readEventStream(response, (event, data) => {
+        if (event === 'delta') {
+          setAnalysisResult(previous => (previous ?? '') + data.text);
+        } else if (event === 'done') {
+          result = data;
+        } else if (event === 'error') {
+          throw new Error(data.message || 'Failed to analyze document');
+        }
+      });
+
+      if (!result) {
+        throw new Error('The analysis ended before the answer was complete');
+      }
+      return result;
     },
     onSuccess: (data) => {
-      setAnalysisResult(data.response || data.analysis);
+      setAnalysisResult(data.response);
       toast({
         title: "Document Analysis Complete",
         description: `Generated analysis for ${selectedDocument?.fileName}`,
@@ -102,7 +118,7 @@ export function DocumentAnalysisPanel({ dealId, dealName }: DocumentAnalysisPane
   const handleDocumentClick = (document: Document) => {
     setSelectedDocument(document);
     setAnalysisResult(null);
-    analyzeDocumentMutation.mutate(document.id);
+    analyzeDocumentMutation.mutate(document);
   };
 
   if (documentsLoading) {
@@ -201,7 +217,7 @@ export function DocumentAnalysisPanel({ dealId, dealName }: DocumentAnalysisPane
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {analyzeDocumentMutation.isPending ? (
+            {analyzeDocumentMutation.isPending && !analysisResult ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="h-6 w-6 animate-spin" />
                 <span className="ml-2">Analyzing document...</span>
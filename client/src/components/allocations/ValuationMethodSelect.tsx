@@ -0,0 +1,29 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VALUATION_METHOD_LABELS } from '@/lib/constants/allocation-constants';
+import type { ValuationMethod } from '@shared/schema';
+
+interface ValuationMethodSelectProps {
+  id: string;
+  value?: ValuationMethod;
+  onChange: (method: ValuationMethod) => void;
+}
+
+/**
+ * Method picker for a changed market value; the API requires it to record the valuation mark
+ */
+export const ValuationMethodSelect: React.FC<ValuationMethodSelectProps> = ({ id, value, onChange }) => (
+  <div className="space-y-2">
+    <label htmlFor={id} className="text-sm font-medium">Valuation Method</label>
+    <Select value={value} onValueChange={method => onChange(method as ValuationMethod)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="How was the new value determined?" />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(VALUATION_METHOD_LABELS).map(([method, label]) => (
+          <SelectItem key={method} value={method}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
@@ -1,2 +1,3 @@
 export { InvestmentAllocationsTable } from './InvestmentAllocationsTable';
-export { CapitalCallColumn } from './CapitalCallColumn';
\ No newline at end of file
+export { CapitalCallColumn } from './CapitalCallColumn';
+export { ValuationMethodSelect } from './ValuationMethodSelect';
\ No newline at end of file
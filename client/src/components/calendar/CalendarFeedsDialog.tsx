@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, Rss, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+type FeedScope = 'all' | 'my_deals' | 'fund';
+
+interface CalendarFeed {
+  id: number;
+  scope: FeedScope;
+  fundId: number | null;
+  name: string;
+  url: string;
+  webcalUrl: string;
+  lastAccessedAt: string | null;
+}
+
+interface FundOption {
+  id: number;
+  name: string;
+}
+
+const FEEDS_KEY = ['/api/calendar/feeds'];
+
+/**
+ * Create and revoke iCalendar subscription URLs for Outlook, Google Calendar or Apple Calendar
+ */
+export default function CalendarFeedsDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<FeedScope>('my_deals');
+  const [fundId, setFundId] = useState<string>('');
+
+  const { data: feeds = [] } = useQuery<CalendarFeed[]>({
+    queryKey: FEEDS_KEY,
+    enabled: open,
+  });
+
+  const { data: funds = [] } = useQuery<FundOption[]>({
+    queryKey: ['/api/funds'],
+    enabled: open && scope === 'fund',
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/calendar/feeds', {
+        scope,
+        ...(scope === 'fund' ? { fundId: Number(fundId) } : {}),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FEEDS_KEY });
+      toast({ title: 'Calendar feed created', description: 'Copy the URL into your calendar app to subscribe.' });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to create calendar feed', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/calendar/feeds/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FEEDS_KEY });
+      toast({ title: 'Calendar feed revoked', description: 'Subscriptions using this URL will stop updating.' });
+    },
+  });
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: 'Copied', description: 'Feed URL copied to clipboard' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Rss className="h-4 w-4 mr-1" />
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Calendar Subscriptions</DialogTitle>
+          <DialogDescription>
+            Meetings, capital call due dates and closing dates in Outlook or Google Calendar.
+            Anyone with a feed URL can read it, so keep it private and revoke it if it leaks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {feeds.length === 0 && (
+            <p className="text-sm text-muted-foreground">No feeds yet.</p>
+          )}
+          {feeds.map(feed => (
+            <div key={feed.id} className="space-y-1">
+              <Label>{feed.name}</Label>
+              <div className="flex gap-2">
+                <Input readOnly value={feed.url} className="font-mono text-xs" onFocus={e => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={() => copy(feed.url)} aria-label="Copy feed URL">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(feed.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Revoke feed"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {feed.lastAccessedAt ? `Last fetched ${new Date(feed.lastAccessedAt).toLocaleString()}` : 'Not fetched yet'}
+                {' · '}
+                <a href={feed.webcalUrl} className="text-primary hover:underline">Open in calendar app</a>
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-end gap-2 border-t pt-4">
+          <div className="space-y-1">
+            <Label>New feed</Label>
+            <Select value={scope} onValueChange={value => setScope(value as FeedScope)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="my_deals">My assigned deals</SelectItem>
+                <SelectItem value="all">All events</SelectItem>
+                <SelectItem value="fund">One fund</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {scope === 'fund' && (
+            <Select value={fundId} onValueChange={setFundId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select fund" />
+              </SelectTrigger>
+              <SelectContent>
+                {funds.map(fund => (
+                  <SelectItem key={fund.id} value={String(fund.id)}>{fund.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || (scope === 'fund' && !fundId)}
+          >
+            Create Feed
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
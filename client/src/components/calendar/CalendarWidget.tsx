@@ -41,8 +41,12 @@ interface CalendarEvent {
   status: string;
   dealId?: number;
   metadata?: any;
+  /** Set on occurrences of recurring meetings and capital call schedules */
+  occurrenceDate?: string;
 }
 
+const eventKey = (event: CalendarEvent) => `${event.eventType}-${event.id}-${event.occurrenceDate ?? ''}`;
+
 export default function CalendarWidget({
   mode = 'compact',
   height = '400px',
@@ -216,7 +220,7 @@ export default function CalendarWidget({
                 <div className="space-y-1">
                   {selectedDateEvents.map((event) => (
                     <div
-                      key={event.id}
+                      key={eventKey(event)}
                       onClick={() => onEventClick?.(event)}
                       className={`p-2 rounded-md border text-xs cursor-pointer hover:opacity-80 transition-opacity ${getEventColor(event)}`}
                     >
@@ -244,7 +248,7 @@ export default function CalendarWidget({
                 <div className="space-y-1">
                   {upcomingEvents.map((event) => (
                     <div
-                      key={event.id}
+                      key={eventKey(event)}
                       onClick={() => onEventClick?.(event)}
                       className="flex items-center justify-between p-1.5 rounded hover:bg-gray-50 cursor-pointer text-xs"
                     >
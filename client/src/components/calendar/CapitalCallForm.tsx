@@ -47,10 +47,20 @@ const capitalCallFormSchema = z.object({
   dueDate: z.string().min(1, 'Due date is required'),
   notes: z.string().optional(),
   createdBy: z.number().optional(),
+  // Recurring calls become a capital call schedule on one allocation
+  repeat: z.enum(['none', 'monthly', 'quarterly', 'biannual', 'annual']).default('none'),
+  allocationId: z.coerce.number().optional(),
 });
 
 type CapitalCallFormValues = z.infer<typeof capitalCallFormSchema>;
 
+const REPEAT_RULES: Record<Exclude<CapitalCallFormValues['repeat'], 'none'>, string> = {
+  monthly: 'FREQ=MONTHLY',
+  quarterly: 'FREQ=MONTHLY;INTERVAL=3',
+  biannual: 'FREQ=MONTHLY;INTERVAL=6',
+  annual: 'FREQ=YEARLY',
+};
+
 interface CapitalCallFormProps {
   isOpen: boolean;
   onClose: () => void;
@@ -71,7 +81,7 @@ const CapitalCallForm: React.FC<CapitalCallFormProps> = ({ isOpen, onClose, sele
   
   // Fetch allocations for the selected deal
   const { data: allocations = [], isLoading: isLoadingAllocations } = useQuery<FundAllocation[]>({
-    queryKey: ['/api/allocations/deal', selectedDealId],
+    queryKey: [`/api/allocations/deal/${selectedDealId}`],
     enabled: !!selectedDealId,
   });
   
@@ -87,7 +97,8 @@ const CapitalCallForm: React.FC<CapitalCallFormProps> = ({ isOpen, onClose, sele
       amountType: 'percentage',
       dealId: undefined as unknown as number,
       notes: '',
-      createdBy: user?.id
+      createdBy: user?.id,
+      repeat: 'none',
     } as unknown as CapitalCallFormValues
   });
   
@@ -124,6 +135,40 @@ const CapitalCallForm: React.FC<CapitalCallFormProps> = ({ isOpen, onClose, sele
     }
   });
   
+  const createSchedule = useMutation({
+    mutationFn: async (data: CapitalCallFormValues) => {
+      const response = await apiRequest('POST', '/api/capital-call-schedules', {
+        allocationId: data.allocationId,
+        callAmount: data.percentage,
+        amountType: data.amountType,
+        startDate: data.dueDate,
+        recurrenceRule: data.repeat !== 'none' ? REPEAT_RULES[data.repeat] : undefined,
+        notes: data.notes || undefined,
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create capital call schedule');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
+      toast({
+        title: 'Success',
+        description: 'Recurring capital calls scheduled. Each call is issued ahead of its call date.',
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      setErrorMessage(error.message);
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+  
   const onSubmit = (data: CapitalCallFormValues) => {
     // Check if the selected deal has allocations
     if (selectedDealId && !dealHasAllocations) {
@@ -136,6 +181,16 @@ const CapitalCallForm: React.FC<CapitalCallFormProps> = ({ isOpen, onClose, sele
       return;
     }
     
+    if (data.repeat !== 'none') {
+      const allocationId = data.allocationId || (allocations.length === 1 ? allocations[0].id : undefined);
+      if (!allocationId) {
+        setErrorMessage('Select the fund allocation the recurring calls are made on');
+        return;
+      }
+      createSchedule.mutate({ ...data, allocationId });
+      return;
+    }
+    
     // Make sure the user ID is included and ensure date has no time portion
     const formData = {
       ...data,
@@ -284,13 +339,66 @@ const CapitalCallForm: React.FC<CapitalCallFormProps> = ({ isOpen, onClose, sele
               )}}
             />
             
+            {/* Recurrence */}
+            <FormField
+              control={form.control}
+              name="repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeats</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="quarterly">Quarterly</SelectItem>
+                      <SelectItem value="biannual">Every 6 months</SelectItem>
+                      <SelectItem value="annual">Annually</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {form.watch('repeat') !== 'none' && allocations.length > 1 && (
+              <FormField
+                control={form.control}
+                name="allocationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fund Allocation</FormLabel>
+                    <Select onValueChange={value => field.onChange(parseInt(value))} value={field.value?.toString()}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select allocation" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {allocations.map(allocation => (
+                          <SelectItem key={allocation.id} value={allocation.id.toString()}>
+                            {allocation.fundName || `Fund #${allocation.fundId}`} ({allocation.amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             {/* Due date input */}
             <FormField
               control={form.control}
               name="dueDate"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Due Date</FormLabel>
+                  <FormLabel>{form.watch('repeat') !== 'none' ? 'First Call Date' : 'Due Date'}</FormLabel>
                   <FormControl>
                     <Input 
                       type="date" 
@@ -333,18 +441,18 @@ const CapitalCallForm: React.FC<CapitalCallFormProps> = ({ isOpen, onClose, sele
                 type="button" 
                 variant="outline" 
                 onClick={onClose}
-                disabled={createCapitalCall.isPending}
+                disabled={createCapitalCall.isPending || createSchedule.isPending}
               >
                 Cancel
               </Button>
               <Button 
                 type="submit" 
-                disabled={createCapitalCall.isPending || Boolean(selectedDealId && !isLoadingAllocations && !dealHasAllocations)}
+                disabled={createCapitalCall.isPending || createSchedule.isPending || Boolean(selectedDealId && !isLoadingAllocations && !dealHasAllocations)}
               >
-                {createCapitalCall.isPending && (
+                {(createCapitalCall.isPending || createSchedule.isPending) && (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 )}
-                Create Capital Call
+                {form.watch('repeat') !== 'none' ? 'Schedule Capital Calls' : 'Create Capital Call'}
               </Button>
             </DialogFooter>
           </form>
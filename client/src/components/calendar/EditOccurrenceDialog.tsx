@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { CalendarEvent } from '@/hooks/use-calendar-events';
+
+type OccurrenceScope = 'this' | 'following';
+
+interface EditOccurrenceDialogProps {
+  dealId: number;
+  /** A recurring meeting occurrence or a projected capital call */
+  event: CalendarEvent | null;
+  onClose: () => void;
+}
+
+/** Base URL of the occurrence in the meeting or capital call schedule API */
+export function occurrenceUrl(event: CalendarEvent): string {
+  const base = event.type === 'meeting' ? '/api/meetings' : '/api/capital-call-schedules';
+  return `${base}/${event.id}/occurrences/${encodeURIComponent(event.occurrenceDate!)}`;
+}
+
+export function invalidateOccurrenceQueries(dealId: number) {
+  queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
+  queryClient.invalidateQueries({ queryKey: [`/api/meetings/deal/${dealId}`] });
+  queryClient.invalidateQueries({ queryKey: ['/api/meetings'] });
+  queryClient.invalidateQueries({ queryKey: [`/api/capital-calls/deal/${dealId}`] });
+}
+
+/**
+ * Change one occurrence of a recurring meeting or capital call schedule, or it and all later ones
+ */
+export default function EditOccurrenceDialog({ dealId, event, onClose }: EditOccurrenceDialogProps) {
+  const { toast } = useToast();
+  const isMeeting = event?.type === 'meeting';
+  const [scope, setScope] = useState<OccurrenceScope>('this');
+  const [title, setTitle] = useState('');
+  const [date, setDate] = useState('');
+  const [amount, setAmount] = useState('');
+
+  useEffect(() => {
+    if (!event) return;
+    setScope('this');
+    setTitle(event.title);
+    setDate(format(new Date(event.date), isMeeting ? "yyyy-MM-dd'T'HH:mm" : 'yyyy-MM-dd'));
+    setAmount(event.amountValue !== undefined ? String(event.amountValue) : '');
+  }, [event, isMeeting]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const changes = isMeeting
+        ? { title, date: new Date(date).toISOString() }
+        : { dueDate: new Date(date).toISOString(), callAmount: Number(amount) };
+      const res = await apiRequest('PUT', occurrenceUrl(event!), { scope, ...changes });
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || 'Failed to update occurrence');
+      }
+      return body;
+    },
+    onSuccess: () => {
+      invalidateOccurrenceQueries(dealId);
+      toast({
+        title: scope === 'this' ? 'Occurrence updated' : 'Series updated',
+        description: scope === 'this' ? 'Only this occurrence was changed.' : 'This and all following occurrences were changed.',
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Update failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={!!event} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{isMeeting ? 'Edit Recurring Meeting' : 'Edit Scheduled Capital Call'}</DialogTitle>
+          <DialogDescription>
+            {event && `Occurrence on ${format(new Date(event.date), 'MMMM d, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isMeeting && (
+            <div className="space-y-1">
+              <Label htmlFor="occurrence-title">Title</Label>
+              <Input id="occurrence-title" value={title} onChange={e => setTitle(e.target.value)} />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="occurrence-date">{isMeeting ? 'Date & Time' : 'Due Date'}</Label>
+            <Input
+              id="occurrence-date"
+              type={isMeeting ? 'datetime-local' : 'date'}
+              value={date}
+              onChange={e => setDate(e.target.value)}
+            />
+          </div>
+          {!isMeeting && (
+            <div className="space-y-1">
+              <Label htmlFor="occurrence-amount">
+                Call Amount {event?.amountType === 'percentage' ? '(%)' : '($)'}
+              </Label>
+              <Input id="occurrence-amount" type="number" min="0" value={amount} onChange={e => setAmount(e.target.value)} />
+            </div>
+          )}
+          <RadioGroup value={scope} onValueChange={value => setScope(value as OccurrenceScope)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="this" id="scope-this" />
+              <Label htmlFor="scope-this" className="font-normal">This occurrence</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="following" id="scope-following" />
+              <Label htmlFor="scope-following" className="font-normal">This and following occurrences</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => updateMutation.mutate()}
+            disabled={!date || (isMeeting ? !title.trim() : !(Number(amount) > 0)) || updateMutation.isPending}
+          >
+            {updateMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,21 @@
 import React from 'react';
+import { useMutation } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import {
   Card,
   CardContent
 } from '@/components/ui/card';
-import { Calendar, DollarSign, Clock, Users, Calendar as CalendarIcon, FileText, Percent } from 'lucide-react';
+import { Calendar, DollarSign, Clock, Users, Calendar as CalendarIcon, FileText, Percent, Repeat } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useCalendarEvents, CalendarEvent } from '@/hooks/use-calendar-events';
 import { Skeleton } from '@/components/ui/skeleton';
+import ImportMeetingsDialog from '@/components/meetings/ImportMeetingsDialog';
+import EditOccurrenceDialog, { invalidateOccurrenceQueries, occurrenceUrl } from '@/components/calendar/EditOccurrenceDialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
 
 interface UnifiedCalendarViewProps {
   dealId: number;
@@ -28,6 +33,29 @@ export default function UnifiedCalendarView({
     counts, 
     isLoading 
   } = useCalendarEvents(dealId);
+  const { toast } = useToast();
+  const [editingOccurrence, setEditingOccurrence] = React.useState<CalendarEvent | null>(null);
+
+  // Skip one occurrence of a recurring meeting or capital call schedule, or end the series there
+  const deleteOccurrenceMutation = useMutation({
+    mutationFn: async ({ event, scope }: { event: CalendarEvent; scope: 'this' | 'following' }) => {
+      const res = await apiRequest('DELETE', `${occurrenceUrl(event)}?scope=${scope}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to update the series');
+      }
+    },
+    onSuccess: (_, { scope }) => {
+      invalidateOccurrenceQueries(dealId);
+      toast({
+        title: scope === 'this' ? 'Occurrence skipped' : 'Series ended',
+        description: scope === 'this' ? 'The other occurrences are unchanged.' : 'This and all following occurrences were removed.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
   
   // Group events by month for better visualization
   const eventsByMonth = React.useMemo(() => {
@@ -102,6 +130,7 @@ export default function UnifiedCalendarView({
                   Schedule Meeting
                 </Button>
               )}
+              {onCreateMeeting && <ImportMeetingsDialog dealId={dealId} />}
             </div>
           </div>
           
@@ -118,7 +147,7 @@ export default function UnifiedCalendarView({
                   <div className="space-y-4">
                     {events.map(event => (
                       <Card 
-                        key={`${event.type}-${event.id}`} 
+                        key={`${event.type}-${event.id}-${event.occurrenceDate ?? ''}`} 
                         className={`overflow-hidden border-l-4 ${event.color} hover:shadow-md transition-shadow`}
                       >
                         <CardContent className="p-4">
@@ -129,9 +158,12 @@ export default function UnifiedCalendarView({
                                   {event.icon}
                                 </div>
                                 <div>
-                                  <div className="font-medium text-base">{event.title}</div>
+                                  <div className="font-medium text-base flex items-center gap-1.5">
+                                    {event.title}
+                                    {event.occurrenceDate && <Repeat className="h-3.5 w-3.5 text-muted-foreground" aria-label="Recurring" />}
+                                  </div>
                                   <div className="text-xs text-muted-foreground">
-                                    {format(new Date(event.date), 'EEEE, MMMM d, yyyy')}
+                                    {format(new Date(event.date), event.type === 'meeting' ? 'EEEE, MMMM d, yyyy h:mm a' : 'EEEE, MMMM d, yyyy')}
                                   </div>
                                 </div>
                               </div>
@@ -140,7 +172,7 @@ export default function UnifiedCalendarView({
                                   <Badge variant={
                                     event.status === 'completed' ? 'default' : 
                                     event.status === 'scheduled' ? 'secondary' : 
-                                    event.status === 'delayed' ? 'outline' : 'destructive'
+                                    event.status === 'delayed' || event.status === 'projected' ? 'outline' : 'destructive'
                                   } className="text-xs">
                                     {event.status.charAt(0).toUpperCase() + event.status.slice(1)}
                                   </Badge>
@@ -174,6 +206,31 @@ export default function UnifiedCalendarView({
                                 ))}
                               </div>
                             )}
+
+                            {event.occurrenceDate && (
+                              <div className="flex flex-wrap gap-2">
+                                <Button size="sm" variant="ghost" onClick={() => setEditingOccurrence(event)}>
+                                  Edit
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={deleteOccurrenceMutation.isPending}
+                                  onClick={() => deleteOccurrenceMutation.mutate({ event, scope: 'this' })}
+                                >
+                                  Skip this occurrence
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-destructive"
+                                  disabled={deleteOccurrenceMutation.isPending}
+                                  onClick={() => deleteOccurrenceMutation.mutate({ event, scope: 'following' })}
+                                >
+                                  Cancel this and following
+                                </Button>
+                              </div>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -207,6 +264,8 @@ export default function UnifiedCalendarView({
           </div>
         </>
       )}
+
+      <EditOccurrenceDialog dealId={dealId} event={editingOccurrence} onClose={() => setEditingOccurrence(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -10,7 +10,9 @@ import {
   Star,
   FileText,
   Plus,
-  CirclePlus
+  CirclePlus,
+  Mail,
+  CalendarClock
 } from "lucide-react";
 import { ICON_SIZES } from "@/lib/constants/ui-constants";
 import { UserAvatar } from "@/components/common/UserAvatar";
@@ -18,7 +20,7 @@ import { UserAvatar } from "@/components/common/UserAvatar";
 interface ActivityItem {
   id: number;
   dealId: number;
-  eventType: 'stage_change' | 'memo_added' | 'note' | 'star_added' | 'document_upload' | 'fund_allocation' | 'ai_analysis' | 'deal_creation' | 'capital_call' | 'capital_call_update';
+  eventType: 'stage_change' | 'memo_added' | 'note' | 'star_added' | 'document_upload' | 'fund_allocation' | 'ai_analysis' | 'deal_creation' | 'capital_call' | 'capital_call_update' | 'email_received' | 'meeting_scheduled';
   content: string;
   createdAt: string;
   metadata?: {
@@ -107,6 +109,18 @@ export default function ActivityFeed() {
             <CirclePlus className={iconClass} />
           </div>
         );
+      case 'email_received':
+        return (
+          <div className={`${containerClass} bg-secondary`}>
+            <Mail className={iconClass} />
+          </div>
+        );
+      case 'meeting_scheduled':
+        return (
+          <div className={`${containerClass} bg-primary-light`}>
+            <CalendarClock className={iconClass} />
+          </div>
+        );
       default:
         return (
           <div className={`${containerClass} bg-info`}>
@@ -202,6 +216,10 @@ function getActivityTitle(activity: ActivityItem) {
       return 'was analyzed by AI';
     case 'deal_creation':
       return 'was created';
+    case 'email_received':
+      return 'received an email';
+    case 'meeting_scheduled':
+      return 'had a meeting scheduled';
     default:
       return 'was updated';
   }
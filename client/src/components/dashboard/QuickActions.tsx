@@ -44,22 +44,10 @@ export default function QuickActions() {
         break;
       
       case "bulk-import":
-        // For now, show a toast until we implement BulkImportModal
-        toast({
-          title: "Bulk Import",
-          description: "Bulk import functionality is coming soon!",
-          variant: "default"
-        });
         setIsBulkImportOpen(true);
         break;
       
       case "generate-report":
-        // For now, show a toast until we implement ReportModal
-        toast({
-          title: "Reports",
-          description: "Report generation is coming soon!",
-          variant: "default"
-        });
         setIsReportModalOpen(true);
         break;
       
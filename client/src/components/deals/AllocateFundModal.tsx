@@ -164,7 +164,7 @@ export default function AllocateFundModal({ isOpen, onClose, dealId, dealName }:
       
       const result = await response.json();
       
-      // Extract allocation from response (API returns {success: true, data: allocation, auditId: ...})
+      // Extract allocation from response (API returns {success: true, data: allocation})
       const allocation = result.data;
       
       if (!allocation || !allocation.id) {
@@ -1,3 +1,5 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -7,16 +9,182 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
 
 interface BulkImportModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type ColumnMapping = Record<string, string>;
+
+interface UploadedImport {
+  id: number;
+  fileName: string;
+  columns: string[];
+  totalRows: number;
+  sampleRows: Array<Record<string, unknown>>;
+  suggestedMapping: ColumnMapping;
+  fields: string[];
+}
+
+interface ImportPreview {
+  totalRows: number;
+  validCount: number;
+  invalidCount: number;
+  rows: Array<{ rowNumber: number; valid: boolean; errors: string[]; warnings: string[] }>;
+}
+
+interface DealImportStatus {
+  id: number;
+  status: "uploaded" | "queued" | "processing" | "completed" | "failed";
+  importedCount: number;
+  skippedCount: number;
+  errorMessage: string | null;
+  rowErrors: Array<{ rowNumber: number; errors: string[] }> | null;
+}
+
+const UNMAPPED = "__unmapped";
+const STATUS_POLL_MS = 1500;
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Deal Name",
+  description: "Description",
+  sector: "Sector",
+  stage: "Stage",
+  tags: "Tags",
+  round: "Round",
+  targetRaise: "Target Raise",
+  valuation: "Valuation",
+  leadInvestor: "Lead Investor",
+  companyStage: "Company Stage",
+  targetReturn: "Target Return",
+  projectedIrr: "Projected IRR",
+  projectedMultiple: "Projected Multiple",
+  score: "Score",
+  contactEmail: "Contact Email",
+  notes: "Notes"
+};
+
+async function readJson(res: Response, fallback: string) {
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.message || body.error || fallback);
+  }
+  return body;
+}
+
 export default function BulkImportModal({ isOpen, onClose }: BulkImportModalProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [upload, setUpload] = useState<UploadedImport | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [committed, setCommitted] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setUpload(null);
+    setMapping({});
+    setPreview(null);
+    setSkipInvalid(false);
+    setCommitted(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Import failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const uploadFile = useMutation({
+    mutationFn: async (selected: File) => {
+      const formData = new FormData();
+      formData.append("file", selected);
+      const res = await apiRequest("POST", "/api/deals/import/upload", formData, true);
+      return readJson(res, "Failed to upload file") as Promise<UploadedImport>;
+    },
+    onSuccess: (data) => {
+      setUpload(data);
+      setMapping(data.suggestedMapping);
+      setPreview(null);
+    },
+    onError: showError,
+  });
+
+  const runPreview = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/deals/import/${upload!.id}/preview`, { mapping });
+      return readJson(res, "Failed to preview import") as Promise<ImportPreview>;
+    },
+    onSuccess: setPreview,
+    onError: showError,
+  });
+
+  const commitImport = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/deals/import/${upload!.id}/commit`, { mapping, skipInvalid });
+      return readJson(res, "Failed to start import");
+    },
+    onSuccess: () => setCommitted(true),
+    onError: showError,
+  });
+
+  const { data: importStatus } = useQuery<DealImportStatus>({
+    queryKey: [`/api/deals/import/${upload?.id}`],
+    enabled: committed && !!upload,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : STATUS_POLL_MS;
+    },
+  });
+
+  const isFinished = importStatus?.status === "completed" || importStatus?.status === "failed";
+
+  useEffect(() => {
+    if (importStatus?.status === "completed") {
+      queryClient.invalidateQueries({ queryKey: ['/api/deals'] });
+    }
+  }, [importStatus?.status]);
+
+  const updateMapping = (column: string, field: string) => {
+    setPreview(null);
+    setMapping(prev => {
+      const next = { ...prev };
+      // A field maps from a single column; reassigning it clears the previous column
+      for (const [key, value] of Object.entries(next)) {
+        if (value === field) delete next[key];
+      }
+      if (field === UNMAPPED) {
+        delete next[column];
+      } else {
+        next[column] = field;
+      }
+      return next;
+    });
+  };
+
+  const hasNameColumn = Object.values(mapping).includes("name");
+  const canCommit = !!preview && preview.validCount > 0 && (preview.invalidCount === 0 || skipInvalid);
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[625px]">
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[760px]">
         <DialogHeader>
           <DialogTitle>Bulk Import Deals</DialogTitle>
           <DialogDescription>
@@ -24,15 +192,135 @@ export default function BulkImportModal({ isOpen, onClose }: BulkImportModalProp
           </DialogDescription>
         </DialogHeader>
 
-        <div className="py-6 text-center text-neutral-600">
-          <p>Bulk import functionality is coming soon.</p>
-          <p className="mt-2 text-sm">You'll be able to import deals from CSV, Excel, and other formats.</p>
+        <div className="py-2 space-y-4 max-h-[65vh] overflow-y-auto">
+          {!committed && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setUpload(null);
+                  setPreview(null);
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={() => file && uploadFile.mutate(file)}
+                disabled={!file || uploadFile.isPending}
+              >
+                {uploadFile.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Upload
+              </Button>
+            </div>
+          )}
+
+          {upload && !committed && (
+            <div>
+              <h4 className="font-medium mb-2">
+                Map columns <span className="text-sm font-normal text-neutral-500">({upload.totalRows} rows)</span>
+              </h4>
+              <div className="space-y-2">
+                {upload.columns.map(column => (
+                  <div key={column} className="flex items-center gap-3">
+                    <div className="w-1/2 min-w-0">
+                      <p className="text-sm font-medium truncate">{column}</p>
+                      <p className="text-xs text-neutral-500 truncate">
+                        {upload.sampleRows.map(row => row[column]).filter(value => value !== null && value !== "").slice(0, 2).join(", ")}
+                      </p>
+                    </div>
+                    <Select value={mapping[column] ?? UNMAPPED} onValueChange={(value) => updateMapping(column, value)}>
+                      <SelectTrigger className="w-1/2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                        {upload.fields.map(field => (
+                          <SelectItem key={field} value={field}>{FIELD_LABELS[field] ?? field}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {!hasNameColumn && (
+                <p className="text-sm text-red-600 mt-2">Map a column to Deal Name to continue.</p>
+              )}
+            </div>
+          )}
+
+          {preview && !committed && (
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <h4 className="font-medium">Preview</h4>
+                <Badge variant="secondary">{preview.validCount} valid</Badge>
+                {preview.invalidCount > 0 && <Badge variant="destructive">{preview.invalidCount} with errors</Badge>}
+              </div>
+              <div className="space-y-1 max-h-[200px] overflow-y-auto">
+                {preview.rows
+                  .filter(row => row.errors.length > 0 || row.warnings.length > 0)
+                  .map(row => (
+                    <div key={row.rowNumber} className="text-sm border rounded-md p-2">
+                      <span className="font-medium">Row {row.rowNumber}: </span>
+                      {row.errors.map(error => (
+                        <span key={error} className="text-red-600 mr-2">{error}</span>
+                      ))}
+                      {row.warnings.map(warning => (
+                        <span key={warning} className="text-amber-600 mr-2">{warning}</span>
+                      ))}
+                    </div>
+                  ))}
+              </div>
+              {preview.invalidCount > 0 && (
+                <div className="flex items-center gap-2 mt-3">
+                  <Checkbox
+                    id="skip-invalid"
+                    checked={skipInvalid}
+                    onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                  />
+                  <Label htmlFor="skip-invalid">Skip rows with errors and import the rest</Label>
+                </div>
+              )}
+            </div>
+          )}
+
+          {committed && (
+            <div className="text-center py-4">
+              {!isFinished && (
+                <p className="flex items-center justify-center text-neutral-600">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Importing deals...
+                </p>
+              )}
+              {importStatus?.status === "completed" && (
+                <p className="text-neutral-700">
+                  Imported {importStatus.importedCount} deals
+                  {importStatus.skippedCount > 0 && `, skipped ${importStatus.skippedCount} rows with errors`}.
+                </p>
+              )}
+              {importStatus?.status === "failed" && (
+                <p className="text-red-600">{importStatus.errorMessage || "Import failed"}. No deals were imported.</p>
+              )}
+            </div>
+          )}
         </div>
 
         <DialogFooter>
-          <Button variant="outline" onClick={onClose}>
-            Close
+          <Button variant="outline" onClick={handleClose}>
+            {isFinished ? "Done" : "Cancel"}
           </Button>
+          {upload && !committed && (
+            preview ? (
+              <Button onClick={() => commitImport.mutate()} disabled={!canCommit || commitImport.isPending}>
+                Import {skipInvalid ? preview.validCount : preview.totalRows} deals
+              </Button>
+            ) : (
+              <Button onClick={() => runPreview.mutate()} disabled={!hasNameColumn || runPreview.isPending}>
+                {runPreview.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            )
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
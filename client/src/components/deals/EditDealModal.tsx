@@ -34,9 +34,8 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { generateDealNotification } from "@/lib/utils/notification-utils";
 import { DEAL_SECTORS } from "@/lib/constants/sectors";
-import { DEAL_STAGES, DealStage, DealStageLabels } from "@/lib/constants/deal-stages";
+import { usePipelines } from "@/hooks/use-pipelines";
 import { COMPANY_STAGES, CompanyStage } from "@/lib/constants/company-stages";
 
 // Form schema with validation rules
@@ -49,7 +48,8 @@ const dealFormSchema = z.object({
   targetReturn: z.string().optional().or(z.literal("")),
   // Removed projectedIrr - using targetReturn instead
   projectedMultiple: z.string().optional().or(z.literal("")),
-  stage: z.enum(DEAL_STAGES),
+  pipelineId: z.number().nullable(),
+  stage: z.string().min(1, "Stage is required"),
   companyStage: z.string().optional().refine(
     (val) => !val || Object.keys(COMPANY_STAGES).includes(val),
     { message: "Invalid company stage selected" }
@@ -95,6 +95,7 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
       notes: "",
       targetReturn: "",
       projectedMultiple: "",
+      pipelineId: null,
       stage: "initial_review",
       companyStage: undefined,
       tags: []
@@ -107,6 +108,7 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
       notes: deal.notes || "",
       targetReturn: deal.targetReturn || "",
       projectedMultiple: deal.projectedMultiple || "",
+      pipelineId: deal.pipelineId ?? null,
       stage: deal.stage,
       companyStage: deal.companyStage as CompanyStage | undefined,
       tags: deal.tags || []
@@ -124,15 +126,30 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
         notes: deal.notes || "",
         targetReturn: deal.targetReturn || "",
         projectedMultiple: deal.projectedMultiple || "",
+        pipelineId: deal.pipelineId ?? null,
         stage: deal.stage,
         tags: deal.tags || []
       });
     }
   }, [deal, form]);
 
+  // Stages come from the selected pipeline; deals without one follow the default pipeline
+  const { data: pipelines = [] } = usePipelines();
+  const selectedPipelineId = form.watch("pipelineId");
+  const stages = pipelines.find(pipeline =>
+    selectedPipelineId ? pipeline.id === selectedPipelineId : pipeline.isDefault
+  )?.stages ?? [];
+
   const updateDealMutation = useMutation({
     mutationFn: async (values: DealFormValues) => {
-      return apiRequest("PATCH", `/api/deals/${dealId}`, values);
+      const res = await apiRequest("PATCH", `/api/deals/${dealId}`, values);
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        // Failed stage gates come back as one message listing what is missing
+        throw new Error(body.message || "Failed to update deal. Please try again.");
+      }
+      return body;
     },
     onSuccess: async (data: any) => {
       // Show success toast
@@ -141,26 +158,6 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
         description: "Deal has been successfully updated."
       });
       
-      // Create notification for deal update
-      try {
-        // Check if stage was changed
-        const stageChanged = deal?.stage !== form.getValues().stage;
-        
-        // Generate notification for all users (using admin user ID 1 for now)
-        if (stageChanged) {
-          // Pass the new stage to the notification function
-          await generateDealNotification(1, data.name, 'moved', dealId, form.getValues().stage);
-        } else {
-          await generateDealNotification(1, data.name, 'updated', dealId);
-        }
-        
-        // Refresh notifications in the UI
-        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
-        queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
-      } catch (err) {
-        console.error('Failed to create notification:', err);
-      }
-      
       // Refresh deals data
       queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}`] });
       queryClient.invalidateQueries({ queryKey: ['/api/deals'] });
@@ -168,10 +165,10 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
       // Close modal
       onClose();
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update deal. Please try again.",
+        description: error.message,
         variant: "destructive"
       });
     }
@@ -335,6 +332,43 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
                 )}
               />
 
+              {pipelines.length > 1 && (
+                <FormField
+                  control={form.control}
+                  name="pipelineId"
+                  render={({ field }) => (
+                    <FormItem className="space-y-1">
+                      <FormLabel>Pipeline</FormLabel>
+                      <Select
+                        value={String(field.value ?? pipelines.find(pipeline => pipeline.isDefault)?.id ?? "")}
+                        onValueChange={(value) => {
+                          const pipeline = pipelines.find(candidate => candidate.id === Number(value));
+                          field.onChange(Number(value));
+                          // Keep the stage when the new pipeline has it, otherwise start at its first stage
+                          if (pipeline && !pipeline.stages.some(stage => stage.key === form.getValues().stage)) {
+                            form.setValue("stage", pipeline.stages[0]?.key ?? "");
+                          }
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select pipeline" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {pipelines.map((pipeline) => (
+                            <SelectItem key={pipeline.id} value={String(pipeline.id)}>
+                              {pipeline.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="stage"
@@ -354,10 +388,10 @@ export default function EditDealModal({ isOpen, onClose, dealId }: EditDealModal
                         value={field.value}
                         className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-4"
                       >
-                        {Object.entries(DealStageLabels).map(([value, label]) => (
-                          <div key={value} className="flex items-center space-x-2">
-                            <RadioGroupItem value={value} id={`stage-${value}`} />
-                            <Label htmlFor={`stage-${value}`}>{label}</Label>
+                        {stages.map((stage) => (
+                          <div key={stage.key} className="flex items-center space-x-2">
+                            <RadioGroupItem value={stage.key} id={`stage-${stage.key}`} />
+                            <Label htmlFor={`stage-${stage.key}`}>{stage.label}</Label>
                           </div>
                         ))}
                       </RadioGroup>
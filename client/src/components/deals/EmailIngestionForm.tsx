@@ -1,8 +1,8 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -16,7 +16,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Mail, Upload, FileDown } from "lucide-react";
+import { Mail, Upload, FileDown, RefreshCw } from "lucide-react";
 
 // Form schema for email ingestion
 const emailFormSchema = z.object({
@@ -32,9 +32,38 @@ interface EmailIngestionFormProps {
   onClose: () => void;
 }
 
+interface EmailIngestResult {
+  deal: { id: number; name: string };
+  created: boolean;
+  matchedBy: 'name' | 'domain' | null;
+  documents: Array<{ id: number; fileName: string }>;
+  skippedAttachments: Array<{ fileName: string; reason: string }>;
+}
+
 export default function EmailIngestionForm({ onClose }: EmailIngestionFormProps) {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<'manual' | 'forward'>('manual');
+  const emailFileRef = useRef<HTMLInputElement>(null);
+
+  // Personal forwarding address; null when the server has no SMTP ingest configured
+  const { data: ingestAddress } = useQuery<{ address: string | null }>({
+    queryKey: ["/api/email/ingest-address"],
+    enabled: activeTab === 'forward'
+  });
+
+  const rotateAddressMutation = useMutation({
+    mutationFn: async (): Promise<{ address: string | null }> => {
+      const res = await apiRequest("POST", "/api/email/ingest-address/rotate");
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/email/ingest-address"], result);
+      toast({
+        title: "Forwarding address replaced",
+        description: "Emails sent to your previous address will be rejected."
+      });
+    }
+  });
 
   // Initialize form with default values
   const form = useForm<EmailFormValues>({
@@ -47,24 +76,44 @@ export default function EmailIngestionForm({ onClose }: EmailIngestionFormProps)
     }
   });
 
+  // Accepts the manual form values or a raw .eml file
   const ingestEmailMutation = useMutation({
-    mutationFn: async (values: EmailFormValues) => {
-      return apiRequest("POST", "/api/email/ingest", values);
+    mutationFn: async (input: EmailFormValues | File): Promise<EmailIngestResult> => {
+      let res: Response;
+      if (input instanceof File) {
+        const formData = new FormData();
+        formData.append("file", input);
+        res = await apiRequest("POST", "/api/email/ingest", formData, true);
+      } else {
+        res = await apiRequest("POST", "/api/email/ingest", input);
+      }
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || body.error || "Failed to process email");
+      }
+      return body;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      const skipped = result.skippedAttachments.length > 0
+        ? ` ${result.skippedAttachments.length} attachment(s) were skipped.`
+        : "";
       toast({
         title: "Email processed",
-        description: "Deal has been created from email successfully.",
+        description: result.created
+          ? `Deal "${result.deal.name}" has been created from email.${skipped}`
+          : `Email added to existing deal "${result.deal.name}".${skipped}`,
         variant: "success"
       });
       form.reset(); // Reset form
       queryClient.invalidateQueries({ queryKey: ['/api/deals'] }); // Refresh deals data
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${result.deal.id}/timeline`] });
       onClose(); // Close modal
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to process email. Please try again.",
+        description: error.message || "Failed to process email. Please try again.",
         variant: "destructive"
       });
     }
@@ -153,9 +202,26 @@ export default function EmailIngestionForm({ onClose }: EmailIngestionFormProps)
             <div className="border-2 border-dashed border-neutral-300 rounded-md p-6 text-center">
               <div className="flex flex-col items-center justify-center">
                 <Upload className="h-10 w-10 text-neutral-400 mb-2" />
-                <p className="text-sm text-neutral-600 mb-1">Drag and drop email (.eml) file here, or click to select</p>
-                <p className="text-xs text-neutral-500 mb-2">(Will be parsed into the form above)</p>
-                <Button variant="outline" size="sm">
+                <p className="text-sm text-neutral-600 mb-1">Upload a saved email (.eml) file</p>
+                <p className="text-xs text-neutral-500 mb-2">(Sender, subject, body and attachments are imported directly)</p>
+                <input
+                  ref={emailFileRef}
+                  type="file"
+                  accept=".eml,message/rfc822"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) ingestEmailMutation.mutate(file);
+                    e.target.value = "";
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  type="button"
+                  disabled={ingestEmailMutation.isPending}
+                  onClick={() => emailFileRef.current?.click()}
+                >
                   <FileDown className="h-4 w-4 mr-2" />
                   Select Email File
                 </Button>
@@ -188,7 +254,28 @@ export default function EmailIngestionForm({ onClose }: EmailIngestionFormProps)
           
           <div className="bg-neutral-50 p-3 rounded-md mb-4">
             <p className="font-medium mb-1">Forward emails to:</p>
-            <p className="text-primary font-mono text-sm">deals@doliver.com</p>
+            {ingestAddress?.address ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-primary font-mono text-sm break-all">{ingestAddress.address}</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  type="button"
+                  disabled={rotateAddressMutation.isPending}
+                  onClick={() => rotateAddressMutation.mutate()}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  New address
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-500">
+                {ingestAddress ? "Email forwarding is not configured on this server." : "Loading..."}
+              </p>
+            )}
+            <p className="text-xs text-neutral-500 mt-2">
+              This address is personal: deals created from emails sent to it are credited to you. Keep it private.
+            </p>
           </div>
           
           <div className="space-y-3 text-sm text-neutral-600">
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle2, MinusCircle, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type IcVoteChoice = "approve" | "reject" | "abstain";
+
+interface IcVote {
+  id: number;
+  userId: number;
+  userName: string | null;
+  vote: IcVoteChoice;
+  comment: string | null;
+  updatedAt: string;
+}
+
+interface IcVotesResponse {
+  votes: IcVote[];
+  tally: Record<IcVoteChoice, number>;
+  passed: boolean;
+}
+
+interface IcVotePanelProps {
+  dealId: number;
+}
+
+const VOTE_OPTIONS: Array<{ value: IcVoteChoice; label: string; icon: typeof CheckCircle2 }> = [
+  { value: "approve", label: "Approve", icon: CheckCircle2 },
+  { value: "reject", label: "Reject", icon: XCircle },
+  { value: "abstain", label: "Abstain", icon: MinusCircle },
+];
+
+/**
+ * Investment committee votes on a deal; partners and admins can vote, everyone can see the tally
+ */
+export default function IcVotePanel({ dealId }: IcVotePanelProps) {
+  const { toast } = useToast();
+  const { data: currentUser } = useAuth();
+  const [comment, setComment] = useState("");
+
+  const { data, isLoading } = useQuery<IcVotesResponse>({
+    queryKey: [`/api/deals/${dealId}/ic-votes`],
+  });
+
+  const canVote = currentUser?.role === "admin" || currentUser?.role === "partner";
+  const myVote = data?.votes.find(vote => vote.userId === currentUser?.id);
+
+  const voteMutation = useMutation({
+    mutationFn: async (vote: IcVoteChoice) => {
+      const res = await apiRequest("PUT", `/api/deals/${dealId}/ic-votes`, { vote, comment: comment || null });
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || body.message || "Failed to record vote");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/ic-votes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/stage-gates`] });
+      setComment("");
+      toast({ title: "Vote recorded", description: "Your IC vote has been saved." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Vote failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base sm:text-xl">IC Vote</CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Investment committee decision on this deal
+            </CardDescription>
+          </div>
+          {data && data.votes.length > 0 && (
+            <Badge variant={data.passed ? "default" : "secondary"}>
+              {data.passed ? "Passed" : "Not passed"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading votes...</p>
+        ) : (
+          <>
+            <div className="flex gap-4 text-sm">
+              <span>{data?.tally.approve ?? 0} approve</span>
+              <span>{data?.tally.reject ?? 0} reject</span>
+              <span>{data?.tally.abstain ?? 0} abstain</span>
+            </div>
+
+            {data?.votes.length ? (
+              <ul className="space-y-2">
+                {data.votes.map(vote => (
+                  <li key={vote.id} className="text-sm">
+                    <span className="font-medium">{vote.userName || `User ${vote.userId}`}</span>
+                    <span className="text-muted-foreground"> voted {vote.vote}</span>
+                    {vote.comment && <p className="text-muted-foreground text-xs mt-0.5">{vote.comment}</p>}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No votes have been cast yet.</p>
+            )}
+
+            {canVote && (
+              <div className="space-y-2 border-t pt-4">
+                <Textarea
+                  placeholder="Comment (optional)"
+                  value={comment}
+                  onChange={e => setComment(e.target.value)}
+                  rows={2}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {VOTE_OPTIONS.map(({ value, label, icon: Icon }) => (
+                    <Button
+                      key={value}
+                      size="sm"
+                      variant={myVote?.vote === value ? "default" : "outline"}
+                      disabled={voteMutation.isPending}
+                      onClick={() => voteMutation.mutate(value)}
+                    >
+                      <Icon className="h-3.5 w-3.5 mr-1.5" />
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
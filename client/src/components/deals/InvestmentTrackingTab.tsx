@@ -31,6 +31,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { ValuationMethodSelect } from "@/components/allocations";
+import type { ValuationMethod } from "@shared/schema";
 import { 
   FilePenLine, 
   DollarSign, 
@@ -64,6 +66,7 @@ export default function InvestmentTrackingTab({ dealId }: InvestmentTrackingTabP
   const { toast } = useToast();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingAllocation, setEditingAllocation] = useState<FundAllocation | null>(null);
+  const [valuationMethod, setValuationMethod] = useState<ValuationMethod | undefined>();
 
   // Fetch allocations for this deal
   const { data: allocations, isLoading } = useQuery<FundAllocation[]>({
@@ -78,7 +81,7 @@ export default function InvestmentTrackingTab({ dealId }: InvestmentTrackingTabP
         throw new Error("No allocation selected for editing.");
       }
       
-      const res = await apiRequest("PUT", `/api/allocations/${editingAllocation.id}`, editingAllocation);
+      const res = await apiRequest("PUT", `/api/allocations/${editingAllocation.id}`, { ...editingAllocation, valuationMethod });
       return await res.json();
     },
     onSuccess: () => {
@@ -103,9 +106,14 @@ export default function InvestmentTrackingTab({ dealId }: InvestmentTrackingTabP
 
   const handleEditAllocation = (allocation: FundAllocation) => {
     setEditingAllocation({ ...allocation });
+    setValuationMethod(undefined);
     setIsEditDialogOpen(true);
   };
 
+  // A changed market value is recorded as a valuation mark, which needs its method
+  const originalMarketValue = allocations?.find(a => a.id === editingAllocation?.id)?.marketValue || 0;
+  const marketValueChanged = !!editingAllocation && (editingAllocation.marketValue || 0) !== originalMarketValue;
+
   const handleSaveAllocation = () => {
     updateAllocation.mutate();
   };
@@ -310,6 +318,14 @@ export default function InvestmentTrackingTab({ dealId }: InvestmentTrackingTabP
                   />
                 </div>
               </div>
+
+              {marketValueChanged && (
+                <ValuationMethodSelect
+                  id="edit-valuation-method"
+                  value={valuationMethod}
+                  onChange={setValuationMethod}
+                />
+              )}
               
               <div className="space-y-2">
                 <label htmlFor="edit-irr" className="text-sm font-medium">
@@ -368,7 +384,7 @@ export default function InvestmentTrackingTab({ dealId }: InvestmentTrackingTabP
             </Button>
             <Button 
               onClick={handleSaveAllocation}
-              disabled={updateAllocation.isPending}
+              disabled={updateAllocation.isPending || (marketValueChanged && !valuationMethod)}
             >
               {updateAllocation.isPending ? "Saving..." : "Save Changes"}
             </Button>
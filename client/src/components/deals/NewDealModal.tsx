@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -34,11 +34,10 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { generateDealNotification } from "@/lib/utils/notification-utils";
 import { FileUp, File, Plus, X } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { DEAL_SECTORS } from "@/lib/constants/sectors";
-import { DEAL_STAGES, DealStage, DealStageLabels } from "@/lib/constants/deal-stages";
+import { usePipelines } from "@/hooks/use-pipelines";
 import { COMPANY_STAGES, CompanyStage } from "@/lib/constants/company-stages";
 import { Badge } from "@/components/ui/badge";
 
@@ -52,7 +51,8 @@ const dealFormSchema = z.object({
   targetReturn: z.string().optional().or(z.literal("")),
   // Removed projectedIrr - using targetReturn instead
   projectedMultiple: z.string().optional().or(z.literal("")),
-  stage: z.enum(DEAL_STAGES),
+  pipelineId: z.number().nullable(),
+  stage: z.string().min(1, "Stage is required"),
   companyStage: z.string().optional().refine(
     (val) => !val || Object.keys(COMPANY_STAGES).includes(val),
     { message: "Invalid company stage selected" }
@@ -103,12 +103,30 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
       notes: "",
       targetReturn: "",
       projectedMultiple: "",
+      pipelineId: null,
       stage: "initial_review",
       companyStage: "",
       tags: []
     }
   });
   
+  // New deals can start in the opening stages of their pipeline, up to the first gated one
+  const { data: pipelines = [] } = usePipelines();
+  const selectedPipelineId = form.watch("pipelineId");
+  const pipelineStages = pipelines.find(pipeline =>
+    selectedPipelineId ? pipeline.id === selectedPipelineId : pipeline.isDefault
+  )?.stages ?? [];
+  const firstGated = pipelineStages.findIndex(stage => stage.category !== "active" || stage.gateRules.length > 0);
+  const initialStages = firstGated === -1 ? pipelineStages : pipelineStages.slice(0, Math.max(firstGated, 1));
+
+  // The default pipeline may not start at "initial_review"
+  const selectedStage = form.watch("stage");
+  useEffect(() => {
+    if (initialStages.length > 0 && !initialStages.some(stage => stage.key === selectedStage)) {
+      form.setValue("stage", initialStages[0].key);
+    }
+  }, [initialStages, selectedStage, form]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       // Add the new document to the list
@@ -186,7 +204,8 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
     mutationFn: async (values: DealFormValues) => {
       const response = await apiRequest("POST", "/api/deals", values);
       if (!response.ok) {
-        throw new Error(`Failed to create deal: ${response.status} ${response.statusText}`);
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `Failed to create deal: ${response.status} ${response.statusText}`);
       }
       
       // Parse the response JSON to get the deal data with ID
@@ -202,7 +221,6 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
     onSuccess: async (dealData: any) => {
       // Extract the created deal data from the response
       const dealId = dealData?.id;
-      const dealName = form.getValues('name'); // Get the deal name from the form
       
       if (!dealId) {
         console.error('Created deal has no ID!', dealData);
@@ -282,15 +300,6 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
         });
       }
       
-      try {
-        // Create notification for new deal
-        await generateDealNotification(1, dealName, 'created', dealId);
-        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
-        queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
-      } catch (err) {
-        console.error('Failed to create notification:', err);
-      }
-      
       // Reset all form state
       form.reset();
       setDocumentUploads([]);
@@ -310,7 +319,7 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create deal. Please try again.",
+        description: error.message || "Failed to create deal. Please try again.",
         variant: "destructive"
       });
     }
@@ -464,6 +473,38 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
               )}
             />
 
+            {pipelines.length > 1 && (
+              <FormField
+                control={form.control}
+                name="pipelineId"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel>Pipeline</FormLabel>
+                    <Select
+                      value={String(field.value ?? pipelines.find(pipeline => pipeline.isDefault)?.id ?? "")}
+                      onValueChange={(value) => {
+                        const pipeline = pipelines.find(candidate => candidate.id === Number(value));
+                        field.onChange(Number(value));
+                        form.setValue("stage", pipeline?.stages[0]?.key ?? "");
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select pipeline" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {pipelines.map((pipeline) => (
+                          <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="stage"
@@ -474,13 +515,14 @@ export default function NewDealModal({ isOpen, onClose }: NewDealModalProps) {
                     <RadioGroup
                       onValueChange={field.onChange}
                       defaultValue={field.value}
+                      value={field.value}
                       className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-4"
                     >
                       {/* Only show initial stages for new deals */}
-                      {['initial_review', 'screening'].map((value) => (
-                        <div key={value} className="flex items-center space-x-2">
-                          <RadioGroupItem value={value} id={`stage-${value}`} />
-                          <Label htmlFor={`stage-${value}`}>{DealStageLabels[value as DealStage]}</Label>
+                      {initialStages.map((stage) => (
+                        <div key={stage.key} className="flex items-center space-x-2">
+                          <RadioGroupItem value={stage.key} id={`stage-${stage.key}`} />
+                          <Label htmlFor={`stage-${stage.key}`}>{stage.label}</Label>
                         </div>
                       ))}
                     </RadioGroup>
@@ -1,24 +1,13 @@
 import { useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { generateDealNotification } from "@/lib/utils/notification-utils";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { DealStageLabels } from "@shared/schema";
+import { useDealPipeline, useStageGates } from "@/hooks/use-pipelines";
 import { DealRejectionDialog } from "./DealRejectionDialog";
 import { type RejectionCategory, type RejectionReason } from "@/lib/constants/rejection-reasons";
 
-// Define the stage order for progression
-const stageOrder = [
-  "initial_review",
-  "screening", 
-  "diligence",
-  "ic_review",
-  "closing",
-  "closed",
-];
-
-// The "passed" and "rejected" stages are special and not part of the normal progression
+// Only active stages of the deal's pipeline are part of the normal progression
 
 interface StageProgressionProps {
   deal: any;
@@ -35,14 +24,25 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
   
+  const { stages, stageLabel } = useDealPipeline(deal);
+  const { data: stageGates } = useStageGates(deal.id);
+  const stageOrder = stages.filter(stage => stage.category === "active").map(stage => stage.key);
+  const rejectedStage = stages.find(stage => stage.category === "rejected")?.key;
+  const hasPassedStage = stages.some(stage => stage.key === "passed");
+
   // Calculate the current stage index
   const currentStageIndex = stageOrder.indexOf(deal.stage);
-  const isRejected = deal.stage === "rejected";
+  const isRejected = deal.stage === rejectedStage;
   const isPassed = deal.stage === "passed";
   
   // Determine if we can move forward or backward
   const canMoveForward = currentStageIndex < stageOrder.length - 1 && !isRejected && !isPassed;
   const canMoveBackward = currentStageIndex > 0 && !isRejected && !isPassed;
+
+  // Gates the next stage still requires
+  const nextStageGate = canMoveForward
+    ? stageGates?.find(status => status.stage === stageOrder[currentStageIndex + 1])
+    : undefined;
   
   // Update deal mutation
   const updateDealMutation = useMutation({
@@ -52,39 +52,35 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
       rejectionCategory?: string;
       rejectionData?: any;
     }) => {
-      return apiRequest("PATCH", `/api/deals/${deal.id}`, stageData);
+      const res = await apiRequest("PATCH", `/api/deals/${deal.id}`, stageData);
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to update the deal stage. Please try again.");
+      }
+      return body;
     },
     onSuccess: async (data: any) => {
       // Refresh deal data
       queryClient.invalidateQueries({ queryKey: [`/api/deals/${deal.id}`] });
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${deal.id}/stage-gates`] });
       
       // Show success toast
       toast({
         title: "Stage Updated",
-        description: `${deal.name} moved to ${DealStageLabels[data.stage as keyof typeof DealStageLabels]}`
+        description: `${deal.name} moved to ${stageLabel(data.stage)}`
       });
       
-      // Create notification with specific stage info
-      try {
-        await generateDealNotification(1, deal.name, 'moved', deal.id, data.stage);
-        
-        // Refresh notifications in the UI
-        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
-      } catch (err) {
-        console.error('Failed to create notification:', err);
-      }
-      
       // Call onStageUpdated callback if provided
       if (onStageUpdated) {
         onStageUpdated();
       }
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Update Failed",
-        description: "Failed to update the deal stage. Please try again.",
+        description: error.message,
         variant: "destructive"
       });
     }
@@ -135,7 +131,7 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
       : rejectionData.reason;
 
     updateDealMutation.mutate({ 
-      stage: "rejected", 
+      stage: rejectedStage ?? "rejected", 
       rejectionReason: displayReason,
       rejectionCategory: rejectionData.category,
       rejectionData: fullRejectionData
@@ -151,8 +147,8 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
   
   // Handle returning a rejected or passed deal to the pipeline
   const returnToPipeline = () => {
-    // Return to initial review by default
-    updateDealMutation.mutate({ stage: "initial_review" });
+    // Return to the first stage of the pipeline by default
+    updateDealMutation.mutate({ stage: stageOrder[0] });
   };
   
   return (
@@ -166,7 +162,7 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
             ) : isPassed ? (
               <span className="text-amber-500 font-medium">Passed</span>
             ) : (
-              <span>{DealStageLabels[deal.stage as keyof typeof DealStageLabels]}</span>
+              <span>{stageLabel(deal.stage)}</span>
             )}
           </p>
         </div>
@@ -194,6 +190,9 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
                 variant="default" 
                 onClick={moveToNextStage}
                 disabled={!canMoveForward || updateDealMutation.isPending}
+                title={nextStageGate && !nextStageGate.passed
+                  ? nextStageGate.failures.map(failure => failure.message).join("; ")
+                  : undefined}
               >
                 Next Stage
               </Button>
@@ -213,13 +212,15 @@ export default function StageProgression({ deal, onStageUpdated }: StageProgress
             Reject Deal
           </Button>
           
-          <Button 
-            variant="outline" 
-            onClick={passDeal}
-            disabled={updateDealMutation.isPending}
-          >
-            Pass on Deal
-          </Button>
+          {hasPassedStage && (
+            <Button 
+              variant="outline" 
+              onClick={passDeal}
+              disabled={updateDealMutation.isPending}
+            >
+              Pass on Deal
+            </Button>
+          )}
         </div>
       )}
 
@@ -0,0 +1,464 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, FileText, Loader2, ScanText } from "lucide-react";
+import type { TermSheetChange, TermSheetExtraction, TermSheetTermKey, TermSheetTerms } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import UniversalDocumentViewer from "@/components/documents/UniversalDocumentViewer";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type Extraction = Omit<TermSheetExtraction, "createdAt" | "completedAt" | "reviewedAt"> & {
+  fileName: string;
+  createdAt: string;
+  completedAt: string | null;
+  reviewedAt: string | null;
+};
+
+interface ExtractionDetail {
+  extraction: Extraction;
+  changes: TermSheetChange[];
+}
+
+interface DealDocument {
+  id: number;
+  fileName: string;
+  documentType: string;
+}
+
+type TermSource = NonNullable<TermSheetTerms[TermSheetTermKey]["source"]>;
+
+interface TermSheetReviewPanelProps {
+  dealId: number;
+}
+
+const STATUS_POLL_MS = 2000;
+// Changes at or above this confidence start out selected
+const PRESELECT_CONFIDENCE = 0.7;
+
+const TERM_LABELS: Record<TermSheetTermKey, string> = {
+  preMoneyValuation: "Pre-money valuation",
+  postMoneyValuation: "Post-money valuation",
+  raiseAmount: "Raise",
+  currency: "Currency",
+  round: "Round",
+  leadInvestor: "Lead investor",
+  securityType: "Security type",
+  liquidationPreference: "Liquidation preference",
+  proRataRights: "Pro-rata rights",
+  boardSeats: "Board seats",
+  vesting: "Vesting",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  valuation: "Valuation",
+  targetRaise: "Target raise",
+  round: "Round",
+  leadInvestor: "Lead investor",
+  securityType: "Security type",
+  notes: "Notes",
+};
+
+const STATUS_VARIANTS: Record<Extraction["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  processing: "outline",
+  extracted: "default",
+  accepted: "secondary",
+  rejected: "secondary",
+  failed: "destructive",
+};
+
+async function readJson(res: Response, fallback: string) {
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || body.message || fallback);
+  }
+  return body;
+}
+
+function formatTermValue(key: TermSheetTermKey, terms: TermSheetTerms): string {
+  const currency = terms.currency.value || "USD";
+  switch (key) {
+    case "preMoneyValuation":
+    case "postMoneyValuation":
+    case "raiseAmount": {
+      const amount = terms[key].value;
+      return amount === null ? "—" : new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+    }
+    case "liquidationPreference": {
+      const preference = terms.liquidationPreference.value;
+      if (!preference) return "—";
+      return `${preference.multiple}x ${preference.participating ? `participating${preference.cap ? `, capped at ${preference.cap}x` : ""}` : "non-participating"}`;
+    }
+    case "proRataRights":
+      return terms.proRataRights.value === null ? "—" : terms.proRataRights.value ? "Yes" : "No";
+    case "vesting": {
+      const vesting = terms.vesting.value;
+      if (!vesting) return "—";
+      return [
+        `${vesting.months} months`,
+        vesting.cliffMonths ? `${vesting.cliffMonths}-month cliff` : null,
+        vesting.acceleration ? `${vesting.acceleration} acceleration` : null,
+      ].filter(Boolean).join(", ");
+    }
+    default: {
+      const value = terms[key].value;
+      return value === null ? "—" : String(value).replace(/_/g, " ");
+    }
+  }
+}
+
+function ConfidenceBadge({ confidence }: { confidence: number }) {
+  const percent = Math.round(confidence * 100);
+  const className = confidence >= 0.8
+    ? "text-green-700 border-green-300 bg-green-50"
+    : confidence >= 0.5
+      ? "text-amber-700 border-amber-300 bg-amber-50"
+      : "text-red-700 border-red-300 bg-red-50";
+  return <Badge variant="outline" className={className}>{percent}%</Badge>;
+}
+
+/**
+ * Terms read from the deal's term sheets, and the deal and allocation changes they propose;
+ * nothing is applied until the analyst accepts the selected changes
+ */
+export default function TermSheetReviewPanel({ dealId }: TermSheetReviewPanelProps) {
+  const { toast } = useToast();
+  const [selectedExtractionId, setSelectedExtractionId] = useState<number | null>(null);
+  const [allocationId, setAllocationId] = useState<string>("none");
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set());
+  const [openSource, setOpenSource] = useState<{ documentId: number; fileName: string; source: TermSource } | null>(null);
+
+  const listKey = [`/api/deals/${dealId}/term-sheets`];
+
+  const { data: documents = [] } = useQuery<DealDocument[]>({
+    queryKey: [`/api/documents/deal/${dealId}`],
+  });
+  const termSheets = documents.filter(document => document.documentType === "term_sheet");
+
+  const { data: extractions = [] } = useQuery<Extraction[]>({
+    queryKey: listKey,
+    refetchInterval: (query) => {
+      const pending = query.state.data?.some(extraction => extraction.status === "queued" || extraction.status === "processing");
+      return pending ? STATUS_POLL_MS : false;
+    },
+  });
+
+  const { data: allocations = [] } = useQuery<any[]>({
+    queryKey: [`/api/allocations/deal/${dealId}`],
+  });
+
+  // Review the newest extraction awaiting review unless another one was picked
+  const activeId = selectedExtractionId ?? extractions.find(extraction => extraction.status === "extracted")?.id ?? null;
+  const activeStatus = extractions.find(extraction => extraction.id === activeId)?.status;
+  const allocationQuery = allocationId !== "none" ? `?allocationId=${allocationId}` : "";
+
+  // Keyed by status too, so the detail reloads when a queued extraction finishes
+  const { data: detail, isLoading: detailLoading } = useQuery<ExtractionDetail>({
+    queryKey: [`/api/deals/${dealId}/term-sheets/${activeId}${allocationQuery}`, activeStatus],
+    enabled: activeId !== null,
+  });
+
+  const changeKey = (change: Pick<TermSheetChange, "target" | "field">) => `${change.target}.${change.field}`;
+
+  useEffect(() => {
+    if (detail?.extraction.status === "extracted") {
+      setSelectedChanges(new Set(
+        detail.changes.filter(change => change.confidence >= PRESELECT_CONFIDENCE).map(changeKey)
+      ));
+    }
+  }, [detail]);
+
+  // Uploading a term sheet queues its extraction on the server
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: listKey });
+  }, [termSheets.length]);
+
+  const latestByDocument = useMemo(() => {
+    const latest = new Map<number, Extraction>();
+    for (const extraction of extractions) {
+      if (!latest.has(extraction.documentId)) latest.set(extraction.documentId, extraction);
+    }
+    return latest;
+  }, [extractions]);
+
+  const refreshExtractions = () => {
+    queryClient.invalidateQueries({ queryKey: listKey });
+    if (activeId !== null) {
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/term-sheets/${activeId}${allocationQuery}`] });
+    }
+  };
+
+  const extractMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      return readJson(await apiRequest("POST", `/api/deals/${dealId}/term-sheets`, { documentId }), "Failed to start extraction");
+    },
+    onSuccess: (extraction: Extraction) => {
+      setSelectedExtractionId(extraction.id);
+      refreshExtractions();
+      toast({ title: "Extraction started", description: "The terms will be ready for review shortly." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Extraction failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const changes = detail!.changes
+        .filter(change => selectedChanges.has(changeKey(change)))
+        .map(({ target, field }) => ({ target, field }));
+      return readJson(await apiRequest("POST", `/api/deals/${dealId}/term-sheets/${activeId}/accept`, {
+        changes,
+        allocationId: allocationId !== "none" ? Number(allocationId) : undefined,
+      }), "Failed to apply the changes");
+    },
+    onSuccess: (result: { applied: TermSheetChange[] }) => {
+      refreshExtractions();
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/allocations/deal/${dealId}`] });
+      toast({ title: "Term sheet applied", description: `${result.applied.length} field${result.applied.length === 1 ? "" : "s"} updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not apply changes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      return readJson(await apiRequest("POST", `/api/deals/${dealId}/term-sheets/${activeId}/reject`), "Failed to reject the extraction");
+    },
+    onSuccess: () => {
+      refreshExtractions();
+      toast({ title: "Extraction rejected", description: "The deal was left unchanged." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reject", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (termSheets.length === 0 && extractions.length === 0) {
+    return null;
+  }
+
+  const toggleChange = (key: string, checked: boolean) => {
+    setSelectedChanges(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const extraction = detail?.extraction;
+  const reviewable = extraction?.status === "extracted";
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <CardTitle className="text-base sm:text-xl">Term Sheets</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Terms read from uploaded term sheets. Review the proposed changes before they update the deal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Term sheet documents and their latest extraction */}
+        <div className="space-y-2">
+          {termSheets.map(document => {
+            const latest = latestByDocument.get(document.id);
+            const pending = latest?.status === "queued" || latest?.status === "processing";
+            return (
+              <div key={document.id} className="flex items-center gap-2 text-sm">
+                <FileText className="h-4 w-4 flex-shrink-0 text-neutral-500" />
+                <button
+                  type="button"
+                  className={`truncate text-left hover:underline ${latest?.id === activeId ? "font-medium" : ""}`}
+                  onClick={() => latest && setSelectedExtractionId(latest.id)}
+                  disabled={!latest}
+                >
+                  {document.fileName}
+                </button>
+                {latest && <Badge variant={STATUS_VARIANTS[latest.status]}>{latest.status}</Badge>}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto h-7"
+                  onClick={() => extractMutation.mutate(document.id)}
+                  disabled={pending || extractMutation.isPending}
+                >
+                  {pending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <ScanText className="h-3 w-3 mr-1" />}
+                  {latest ? "Extract again" : "Extract terms"}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        {activeId !== null && detailLoading && (
+          <div className="flex items-center gap-2 text-sm text-neutral-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading terms...
+          </div>
+        )}
+
+        {extraction?.status === "failed" && (
+          <p className="text-sm text-red-600">Extraction failed: {extraction.errorMessage}</p>
+        )}
+
+        {extraction?.terms && (
+          <>
+            {/* Extracted terms with confidence and where they were read */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Confidence</TableHead>
+                  <TableHead>Source</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(Object.keys(TERM_LABELS) as TermSheetTermKey[]).map(key => {
+                  const term = extraction.terms![key];
+                  return (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{TERM_LABELS[key]}</TableCell>
+                      <TableCell>{formatTermValue(key, extraction.terms!)}</TableCell>
+                      <TableCell>{term.value !== null && <ConfidenceBadge confidence={term.confidence} />}</TableCell>
+                      <TableCell className="max-w-xs text-xs text-neutral-600">
+                        {term.source && (
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            title={term.source.verified ? "Open the term sheet here" : "This quote was not found in the document"}
+                            onClick={() => setOpenSource({ documentId: extraction.documentId, fileName: extraction.fileName, source: term.source! })}
+                          >
+                            {!term.source.verified && <AlertTriangle className="inline h-3 w-3 mr-1 text-amber-600" />}
+                            "{term.source.quote}"
+                            {term.source.page && <span className="ml-1 text-neutral-400">p. {term.source.page}</span>}
+                          </button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {/* Proposed changes, or those applied when already reviewed */}
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="text-sm font-medium">
+                  {reviewable ? "Proposed changes" : extraction.status === "accepted" ? "Applied changes" : "No changes applied"}
+                </h4>
+                {reviewable && (
+                  <Select value={allocationId} onValueChange={setAllocationId}>
+                    <SelectTrigger className="h-8 w-[240px]">
+                      <SelectValue placeholder="Also update an allocation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Deal fields only</SelectItem>
+                      {allocations.map((allocation: any) => (
+                        <SelectItem key={allocation.id} value={allocation.id.toString()}>
+                          {allocation.fundName || `Allocation ${allocation.id}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {detail!.changes.length === 0 ? (
+                <p className="text-sm text-neutral-500">
+                  {reviewable ? "The deal already matches the term sheet." : "Nothing was changed."}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {reviewable && <TableHead className="w-8" />}
+                      <TableHead>Field</TableHead>
+                      <TableHead>Current</TableHead>
+                      <TableHead>Proposed</TableHead>
+                      <TableHead>Confidence</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail!.changes.map(change => (
+                      <TableRow key={changeKey(change)}>
+                        {reviewable && (
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedChanges.has(changeKey(change))}
+                              onCheckedChange={(checked) => toggleChange(changeKey(change), checked === true)}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="font-medium">
+                          {FIELD_LABELS[change.field] || change.field}
+                          {change.target === "allocation" && <span className="ml-1 text-xs text-neutral-500">(allocation)</span>}
+                        </TableCell>
+                        <TableCell className="text-neutral-500 line-through whitespace-pre-line">{change.current || "—"}</TableCell>
+                        <TableCell className="whitespace-pre-line">{change.proposed}</TableCell>
+                        <TableCell><ConfidenceBadge confidence={change.confidence} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {reviewable && (
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => rejectMutation.mutate()} disabled={rejectMutation.isPending}>
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => acceptMutation.mutate()}
+                    disabled={selectedChanges.size === 0 || acceptMutation.isPending}
+                  >
+                    {acceptMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Accept {selectedChanges.size} change{selectedChanges.size === 1 ? "" : "s"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {/* The term sheet, opened where a term was read */}
+      <Dialog open={!!openSource} onOpenChange={(open) => !open && setOpenSource(null)}>
+        <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+          {openSource && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {openSource.fileName}
+                  {openSource.source.page && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">p. {openSource.source.page}</span>
+                  )}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="flex-1 min-h-0 overflow-hidden">
+                <UniversalDocumentViewer
+                  documentId={openSource.documentId}
+                  documentName={openSource.fileName}
+                  initialPage={openSource.source.page ?? undefined}
+                  initialSheet={openSource.source.sheet ?? undefined}
+                  highlightRows={openSource.source.rowStart
+                    ? { start: openSource.source.rowStart, end: openSource.source.rowEnd ?? openSource.source.rowStart }
+                    : undefined}
+                />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -24,7 +24,9 @@ import {
   SlidersHorizontal,
   ChevronDown,
   ChevronUp,
-  AlertCircle
+  AlertCircle,
+  Mail,
+  CalendarClock
 } from "lucide-react";
 import { ICON_SIZES } from "@/lib/constants/ui-constants";
 import {
@@ -64,7 +66,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
 
 // Types for timeline events and filtering
-type EventType = 'note' | 'stage_change' | 'document_upload' | 'memo_added' | 'star_added' | 'ai_analysis' | 'fund_allocation';
+type EventType = 'note' | 'stage_change' | 'document_upload' | 'memo_added' | 'star_added' | 'ai_analysis' | 'fund_allocation' | 'email_received' | 'meeting_scheduled';
 
 interface TimelineEvent {
   id: number;
@@ -105,7 +107,7 @@ export default function Timeline({ dealId }: TimelineProps) {
   const [activeTab, setActiveTab] = useState<'all' | 'notes' | 'documents' | 'stages'>('all');
   const [expandedFilters, setExpandedFilters] = useState(false);
   const [filters, setFilters] = useState<FilterOptions>({
-    eventTypes: ['note', 'stage_change', 'document_upload', 'memo_added', 'star_added', 'ai_analysis', 'fund_allocation'],
+    eventTypes: ['note', 'stage_change', 'document_upload', 'memo_added', 'star_added', 'ai_analysis', 'fund_allocation', 'email_received', 'meeting_scheduled'],
     dateRange: 'all',
     userFilter: null
   });
@@ -397,6 +399,18 @@ export default function Timeline({ dealId }: TimelineProps) {
             <RocketIcon className={iconClass} />
           </div>
         );
+      case 'email_received':
+        return (
+          <div className={`${containerClass} bg-secondary`}>
+            <Mail className={iconClass} />
+          </div>
+        );
+      case 'meeting_scheduled':
+        return (
+          <div className={`${containerClass} bg-primary-light`}>
+            <CalendarClock className={iconClass} />
+          </div>
+        );
       default:
         return (
           <div className={`${containerClass} bg-info`}>
@@ -515,7 +529,9 @@ export default function Timeline({ dealId }: TimelineProps) {
                       { id: 'memo_added', label: 'Memos', color: 'bg-accent' },
                       { id: 'star_added', label: 'Stars', color: 'bg-accent' },
                       { id: 'fund_allocation', label: 'Fund Allocations', color: 'bg-success' },
-                      { id: 'ai_analysis', label: 'AI Analysis', color: 'bg-info' }
+                      { id: 'ai_analysis', label: 'AI Analysis', color: 'bg-info' },
+                      { id: 'email_received', label: 'Emails', color: 'bg-secondary' },
+                      { id: 'meeting_scheduled', label: 'Meetings', color: 'bg-primary-light' }
                     ] as const).map(type => (
                       <div key={type.id} className="flex items-center">
                         <Checkbox 
@@ -721,6 +737,11 @@ export default function Timeline({ dealId }: TimelineProps) {
                     event.eventType === 'note' && event.metadata?.noteType === 'concern' ? 'bg-red-50' :
                     'bg-gray-50'
                   }`}>
+                    {event.eventType === 'ai_analysis' && event.metadata?.query && (
+                      <p className="mb-1 text-xs font-medium text-neutral-500">
+                        Q: {event.metadata.query}{event.metadata.partial ? ' (partial answer)' : ''}
+                      </p>
+                    )}
                     {event.eventType === 'note' && event.metadata?.noteType === 'question' && event.content
                       ? event.content.split(/\n|(?:\d+[\.\)]?\s*)/g)
                           .map((line, index) => line.trim())
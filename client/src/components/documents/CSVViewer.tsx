@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Download, FileSpreadsheet, AlertTriangle } from 'lucide-react';
@@ -8,6 +8,8 @@ interface CSVViewerProps {
   documentId: number;
   documentName: string;
   fileType?: string;
+  /** File rows (1-based, the header being row 1) to highlight and scroll to */
+  highlightRows?: { start: number; end: number };
 }
 
 interface CSVData {
@@ -15,11 +17,12 @@ interface CSVData {
   rows: string[][];
 }
 
-const CSVViewer = ({ documentId, documentName, fileType }: CSVViewerProps) => {
+const CSVViewer = ({ documentId, documentName, fileType, highlightRows }: CSVViewerProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [csvData, setCsvData] = useState<CSVData | null>(null);
+  const highlightedRowRef = useRef<HTMLTableRowElement>(null);
 
   useEffect(() => {
     const loadCSVFile = async () => {
@@ -87,6 +90,15 @@ const CSVViewer = ({ documentId, documentName, fileType }: CSVViewerProps) => {
     loadCSVFile();
   }, [documentId]);
 
+  // Bring highlighted rows into view once the table is rendered
+  useEffect(() => {
+    highlightedRowRef.current?.scrollIntoView({ block: 'center' });
+  }, [csvData, highlightRows?.start]);
+
+  // Data rows start on the second line of the file
+  const isHighlighted = (rowIndex: number) =>
+    !!highlightRows && rowIndex + 2 >= highlightRows.start && rowIndex + 2 <= highlightRows.end;
+
   const handleDownload = async () => {
     try {
       const response = await fetch(`/api/documents/${documentId}/download`, {
@@ -190,7 +202,11 @@ const CSVViewer = ({ documentId, documentName, fileType }: CSVViewerProps) => {
             </thead>
             <tbody>
               {csvData.rows.map((row, rowIndex) => (
-                <tr key={rowIndex} className="hover:bg-muted/50">
+                <tr
+                  key={rowIndex}
+                  ref={highlightRows && rowIndex + 2 === Math.max(highlightRows.start, 2) ? highlightedRowRef : undefined}
+                  className={isHighlighted(rowIndex) ? "bg-yellow-50 hover:bg-yellow-100" : "hover:bg-muted/50"}
+                >
                   {csvData.headers.map((_, colIndex) => (
                     <td
                       key={colIndex}
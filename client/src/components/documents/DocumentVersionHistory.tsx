@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { Download, FileUp, RotateCcw } from 'lucide-react';
+
+interface DocumentVersion {
+  version: number;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  uploaderName: string | null;
+  uploadedAt: string;
+  changeNote: string | null;
+  restoredFromVersion: number | null;
+  isCurrent: boolean;
+  downloadUrl: string;
+}
+
+interface DocumentVersionHistoryProps {
+  documentId: number;
+  documentName: string;
+  dealId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+async function readResponse(response: Response, fallback: string) {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || data?.message || fallback);
+  }
+  return data;
+}
+
+export const DocumentVersionHistory = ({ documentId, documentName, dealId, open, onOpenChange }: DocumentVersionHistoryProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [changeNote, setChangeNote] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const versionsKey = [`/api/documents/${documentId}/versions`];
+
+  const { data: versions = [], isLoading } = useQuery<DocumentVersion[]>({
+    queryKey: versionsKey,
+    enabled: open,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: versionsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/deal/${dealId}`] });
+  };
+
+  const uploadVersionMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (changeNote.trim()) {
+        formData.append('changeNote', changeNote.trim());
+      }
+      const response = await fetch(`/api/documents/${documentId}/versions`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      return readResponse(response, 'Failed to upload new version');
+    },
+    onSuccess: (data) => {
+      setChangeNote('');
+      refresh();
+      toast({
+        title: 'New version uploaded',
+        description: `${data.fileName} is now version ${data.version}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Upload failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await fetch(`/api/documents/${documentId}/versions/${version}/restore`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      return readResponse(response, 'Failed to restore version');
+    },
+    onSuccess: (data) => {
+      refresh();
+      toast({
+        title: 'Version restored',
+        description: data.message
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Restore failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadVersionMutation.mutate(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription className="truncate">{documentName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="What changed? (optional)"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+          />
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.jpg,.jpeg,.png"
+            className="hidden"
+          />
+          <Button
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadVersionMutation.isPending}
+          >
+            <FileUp className="h-4 w-4 mr-1" />
+            {uploadVersionMutation.isPending ? 'Uploading...' : 'New Version'}
+          </Button>
+        </div>
+
+        <div className="max-h-[360px] overflow-y-auto space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading versions...</p>
+          ) : (
+            versions.map((version) => (
+              <div key={version.version} className="flex items-center gap-3 p-2 border rounded-md">
+                <Badge variant={version.isCurrent ? 'default' : 'secondary'}>v{version.version}</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{version.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {version.uploaderName || 'Unknown'} · {format(new Date(version.uploadedAt), 'MMM d, yyyy h:mm a')} · {formatFileSize(version.fileSize)}
+                  </p>
+                  {version.changeNote && (
+                    <p className="text-xs text-neutral-600 truncate">{version.changeNote}</p>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+                  <a href={version.downloadUrl} aria-label={`Download version ${version.version}`}>
+                    <Download className="h-3.5 w-3.5" />
+                  </a>
+                </Button>
+                {version.isCurrent ? (
+                  <span className="text-xs text-muted-foreground w-16 text-center">Current</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 w-16"
+                    onClick={() => restoreMutation.mutate(version.version)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
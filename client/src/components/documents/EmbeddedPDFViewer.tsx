@@ -12,9 +12,11 @@ interface EmbeddedPDFViewerProps {
   documentId: number;
   documentName: string;
   fileType?: string;
+  /** Page to open on load, e.g. the page an AI citation points at */
+  initialPage?: number;
 }
 
-const EmbeddedPDFViewer = ({ documentId, documentName, fileType }: EmbeddedPDFViewerProps) => {
+const EmbeddedPDFViewer = ({ documentId, documentName, fileType, initialPage }: EmbeddedPDFViewerProps) => {
   const { toast } = useToast();
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState<number>(1);
@@ -88,10 +90,10 @@ const EmbeddedPDFViewer = ({ documentId, documentName, fileType }: EmbeddedPDFVi
   const onDocumentLoadSuccess = useCallback(({ numPages }: { numPages: number }) => {
     console.log('✅ PDF loaded successfully:', { numPages, documentName });
     setNumPages(numPages);
-    setPageNumber(1);
+    setPageNumber(Math.min(Math.max(initialPage ?? 1, 1), numPages));
     setLoading(false);
     setError(null);
-  }, [documentName]);
+  }, [documentName, initialPage]);
 
   const onDocumentLoadError = useCallback((error: Error) => {
     console.error('❌ PDF load error:', error);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Download, FileSpreadsheet, AlertTriangle, TableIcon } from 'lucide-react';
@@ -10,20 +10,27 @@ interface ExcelViewerProps {
   documentId: number;
   documentName: string;
   fileType?: string;
+  /** Sheet to open on load, e.g. the sheet an AI citation points at */
+  initialSheet?: string;
+  /** Spreadsheet rows (1-based, as numbered in Excel) to highlight and scroll to */
+  highlightRows?: { start: number; end: number };
 }
 
 interface SheetData {
   name: string;
   data: any[][];
   headers: string[];
+  /** Spreadsheet row number of each data row; blank rows are skipped, so these can have gaps */
+  rowNumbers: number[];
 }
 
-const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) => {
+const ExcelViewer = ({ documentId, documentName, fileType, initialSheet, highlightRows }: ExcelViewerProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sheets, setSheets] = useState<SheetData[]>([]);
   const [activeSheet, setActiveSheet] = useState(0);
+  const highlightedRowRef = useRef<HTMLTableRowElement>(null);
 
   useEffect(() => {
     const loadExcelFile = async () => {
@@ -48,12 +55,17 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
           const worksheet = workbook.Sheets[sheetName];
           
           // Parse with different options to ensure we get all data
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
+          const allRows = XLSX.utils.sheet_to_json(worksheet, { 
             header: 1,
             defval: '', // Default value for empty cells
             raw: false, // Get formatted strings instead of raw values
-            blankrows: false // Skip blank rows
+            blankrows: true // Keep blank rows so row positions give spreadsheet row numbers
           }) as any[][];
+          const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r : 0;
+          const nonBlank = allRows
+            .map((row, index) => ({ row, number: firstRow + index + 1 }))
+            .filter(({ row }) => Array.isArray(row) && row.some(cell => String(cell).trim() !== ''));
+          const jsonData = nonBlank.map(({ row }) => row);
           
           console.log(`Sheet ${sheetName}: Found ${jsonData.length} rows`);
           
@@ -86,6 +98,7 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
             
             // Get data rows (skip header row if found)
             const dataStartIndex = headerRowIndex >= 0 ? headerRowIndex + 1 : 0;
+            const rowNumbers = nonBlank.slice(dataStartIndex).map(({ number }) => number);
             const data = jsonData.slice(dataStartIndex).map(row => {
               // Ensure each row has the same number of columns as headers
               if (!Array.isArray(row)) return Array(headers.length).fill('');
@@ -99,12 +112,14 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
             sheetsData.push({
               name: sheetName,
               headers,
-              data
+              data,
+              rowNumbers
             });
           }
         });
         
         setSheets(sheetsData);
+        setActiveSheet(Math.max(0, sheetsData.findIndex(sheet => sheet.name === initialSheet)));
         setError(null);
       } catch (err) {
         console.error('Error loading Excel file:', err);
@@ -115,7 +130,12 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
     };
     
     loadExcelFile();
-  }, [documentId]);
+  }, [documentId, initialSheet]);
+
+  // Bring highlighted rows into view once the sheet is rendered
+  useEffect(() => {
+    highlightedRowRef.current?.scrollIntoView({ block: 'center' });
+  }, [sheets, activeSheet, highlightRows?.start]);
 
   const handleDownload = async () => {
     try {
@@ -192,6 +212,12 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
   }
 
   const currentSheet = sheets[activeSheet];
+  const isHighlighted = (rowIndex: number) => {
+    const rowNumber = currentSheet.rowNumbers[rowIndex];
+    return !!highlightRows && (!initialSheet || currentSheet.name === initialSheet)
+      && rowNumber >= highlightRows.start && rowNumber <= highlightRows.end;
+  };
+  const firstHighlightedRow = currentSheet.data.findIndex((_, rowIndex) => isHighlighted(rowIndex));
 
   return (
     <Card className="w-full h-full flex flex-col">
@@ -270,9 +296,16 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
               </thead>
               <tbody>
                 {currentSheet.data.map((row, rowIndex) => (
-                  <tr key={rowIndex} className="group">
-                    <td className="sticky left-0 z-10 bg-gray-100 dark:bg-gray-800 text-center text-xs font-medium text-gray-500 border-r-2 border-b">
-                      <div className="p-2">{rowIndex + 1}</div>
+                  <tr
+                    key={rowIndex}
+                    ref={rowIndex === firstHighlightedRow ? highlightedRowRef : undefined}
+                    className="group"
+                  >
+                    <td className={cn(
+                      "sticky left-0 z-10 bg-gray-100 dark:bg-gray-800 text-center text-xs font-medium text-gray-500 border-r-2 border-b",
+                      isHighlighted(rowIndex) && "!bg-yellow-200 dark:!bg-yellow-800 text-gray-900"
+                    )}>
+                      <div className="p-2">{currentSheet.rowNumbers[rowIndex]}</div>
                     </td>
                     {currentSheet.headers.map((_, colIndex) => {
                       const cellValue = row[colIndex]?.toString() || '';
@@ -285,7 +318,9 @@ const ExcelViewer = ({ documentId, documentName, fileType }: ExcelViewerProps) =
                           key={colIndex}
                           className={cn(
                             "relative border-r border-b transition-colors",
-                            "bg-white dark:bg-gray-950 group-hover:bg-gray-50 dark:group-hover:bg-gray-900/50",
+                            isHighlighted(rowIndex)
+                              ? "bg-yellow-50 dark:bg-yellow-900/30"
+                              : "bg-white dark:bg-gray-950 group-hover:bg-gray-50 dark:group-hover:bg-gray-900/50",
                             "hover:!bg-blue-50 dark:hover:!bg-blue-900/30",
                             isNumber && !isPercentage && !isCurrency && "text-right",
                             isCurrency && "text-right text-green-700 dark:text-green-400",
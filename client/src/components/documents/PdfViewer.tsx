@@ -24,6 +24,7 @@ export const PdfViewer = () => {
   return (
     <div className="h-full overflow-hidden">
       <UniversalDocumentViewer 
+        key={`${current.id}-${current.version ?? 1}`}
         documentId={current.id} 
         documentName={current.fileName}
         fileType={current.fileType}
@@ -3,7 +3,8 @@ import { Button } from '@/components/ui/button';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useDocs, DocMeta } from '@/context/DocumentsContext';
-import { FileUp, Trash2, FileText, Edit2, Check } from 'lucide-react';
+import { FileUp, Trash2, FileText, Edit2, Check, History } from 'lucide-react';
+import { DocumentVersionHistory } from './DocumentVersionHistory';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -37,6 +38,7 @@ const documentTypeOptions = [
 export const Sidebar = ({ dealId }: { dealId: number }) => {
   const { docs, setDocs, current, setCurrent } = useDocs();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [historyDoc, setHistoryDoc] = useState<DocMeta | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -339,10 +341,23 @@ export const Sidebar = ({ dealId }: { dealId: number }) => {
                     <span className="truncate text-sm block">{doc.name}</span>
                     <span className="text-xs text-muted-foreground">
                       {getDocumentTypeLabel(doc.documentType || 'other')}
+                      {doc.version && doc.version > 1 ? ` · v${doc.version}` : ''}
                     </span>
                   </div>
                 </div>
                 <div className="flex space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    aria-label={`Version history: ${doc.name}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setHistoryDoc(doc);
+                    }}
+                  >
+                    <History className="h-3.5 w-3.5 text-neutral-500" />
+                  </Button>
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <Button
@@ -412,6 +427,16 @@ export const Sidebar = ({ dealId }: { dealId: number }) => {
           </div>
         )}
       </div>
+
+      {historyDoc && (
+        <DocumentVersionHistory
+          documentId={historyDoc.id}
+          documentName={historyDoc.name}
+          dealId={dealId}
+          open={!!historyDoc}
+          onOpenChange={(open) => !open && setHistoryDoc(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
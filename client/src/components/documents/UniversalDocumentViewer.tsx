@@ -12,6 +12,10 @@ interface UniversalDocumentViewerProps {
   documentId: number;
   documentName: string;
   fileType?: string;
+  /** Where to open the document: a PDF page, or a sheet and rows of a spreadsheet */
+  initialPage?: number;
+  initialSheet?: string;
+  highlightRows?: { start: number; end: number };
 }
 
 // Document type detection and configuration
@@ -89,7 +93,14 @@ const getDocumentConfig = (fileName: string, fileType?: string) => {
   return { type: 'document', ...configs.document };
 };
 
-export default function UniversalDocumentViewer({ documentId, documentName, fileType }: UniversalDocumentViewerProps) {
+export default function UniversalDocumentViewer({
+  documentId,
+  documentName,
+  fileType,
+  initialPage,
+  initialSheet,
+  highlightRows
+}: UniversalDocumentViewerProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [previewData, setPreviewData] = useState<any>(null);
   const { toast } = useToast();
@@ -102,11 +113,19 @@ export default function UniversalDocumentViewer({ documentId, documentName, file
   if (docConfig.canPreview) {
     switch (docConfig.viewerType) {
       case 'pdf':
-        return <EmbeddedPDFViewer documentId={documentId} documentName={documentName} fileType={fileType} />;
+        return <EmbeddedPDFViewer documentId={documentId} documentName={documentName} fileType={fileType} initialPage={initialPage} />;
       case 'excel':
-        return <ExcelViewer documentId={documentId} documentName={documentName} fileType={fileType} />;
+        return (
+          <ExcelViewer
+            documentId={documentId}
+            documentName={documentName}
+            fileType={fileType}
+            initialSheet={initialSheet}
+            highlightRows={highlightRows}
+          />
+        );
       case 'csv':
-        return <CSVViewer documentId={documentId} documentName={documentName} fileType={fileType} />;
+        return <CSVViewer documentId={documentId} documentName={documentName} fileType={fileType} highlightRows={highlightRows} />;
       // Add more viewer types as needed
     }
   }
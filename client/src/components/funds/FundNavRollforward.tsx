@@ -0,0 +1,88 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { formatCurrency } from "@/lib/utils/formatters";
+import { useFundNavRollforward } from '@/hooks/useFundOverview';
+import { EmptyCapitalData } from './CalledCapitalRatio';
+
+interface FundNavRollforwardProps {
+  fundId: number;
+}
+
+// Quarter label such as "Q3 2025"
+const quarterLabel = (periodStart: string) => format(parseISO(periodStart), "QQQ yyyy");
+
+const FundNavRollforward: React.FC<FundNavRollforwardProps> = ({ fundId }) => {
+  const { data, isLoading } = useFundNavRollforward(fundId);
+
+  const chartData = React.useMemo(() => (data?.quarters || []).map(quarter => ({
+    quarter: quarterLabel(quarter.periodStart),
+    contributions: quarter.contributions,
+    distributions: -quarter.distributions,
+    unrealizedChange: quarter.unrealizedChange,
+    closingNav: quarter.closingNav
+  })), [data]);
+
+  const latest = data?.quarters[data.quarters.length - 1];
+
+  return (
+    <Card className="h-full w-full flex flex-col">
+      <CardHeader className="pb-2">
+        <CardTitle className="mb-1">NAV Roll-forward</CardTitle>
+        <CardDescription>
+          Opening NAV + contributions − distributions ± unrealized change = closing NAV
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex-1 flex flex-col justify-center py-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-neutral-500">Loading NAV history...</div>
+        ) : chartData.length > 0 ? (
+          <>
+            <ResponsiveContainer width="100%" height={260}>
+              <ComposedChart data={chartData} margin={{ top: 15, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="quarter" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} tick={{ fontSize: 12 }} width={80} />
+                <Tooltip formatter={(value: number) => formatCurrency(Math.abs(value))} />
+                <Legend />
+                <Bar dataKey="contributions" name="Contributions" fill="#4f46e5" stackId="flows" />
+                <Bar dataKey="distributions" name="Distributions" fill="#a5b4fc" stackId="flows" />
+                <Bar dataKey="unrealizedChange" name="Unrealized Change" fill="#10b981" />
+                <Line type="monotone" dataKey="closingNav" name="Closing NAV" stroke="#111827" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+            {latest && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4 text-sm">
+                <div>
+                  <p className="text-neutral-500">Opening NAV</p>
+                  <p className="font-semibold">{formatCurrency(latest.openingNav)}</p>
+                </div>
+                <div>
+                  <p className="text-neutral-500">Contributions</p>
+                  <p className="font-semibold">{formatCurrency(latest.contributions)}</p>
+                </div>
+                <div>
+                  <p className="text-neutral-500">Distributions</p>
+                  <p className="font-semibold">{formatCurrency(latest.distributions)}</p>
+                </div>
+                <div>
+                  <p className="text-neutral-500">Unrealized Change</p>
+                  <p className="font-semibold">{formatCurrency(latest.unrealizedChange)}</p>
+                </div>
+                <div>
+                  <p className="text-neutral-500">Closing NAV</p>
+                  <p className="font-semibold">{formatCurrency(latest.closingNav)}</p>
+                </div>
+              </div>
+            )}
+          </>
+        ) : (
+          <EmptyCapitalData message="No contributions or valuation marks recorded for this fund yet." />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FundNavRollforward;
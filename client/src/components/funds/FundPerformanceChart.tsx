@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Upload } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useBenchmarks, useFundPerformance } from '@/hooks/useFundPerformance';
+import { EmptyCapitalData } from './CalledCapitalRatio';
+
+interface FundPerformanceChartProps {
+  fundId: number;
+}
+
+const NO_BENCHMARK = 'none';
+
+const formatMultiple = (value: number | null | undefined) =>
+  value === null || value === undefined ? 'N/A' : `${value.toFixed(2)}x`;
+
+const FundPerformanceChart: React.FC<FundPerformanceChartProps> = ({ fundId }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [benchmarkId, setBenchmarkId] = useState<number | null>(null);
+  const [benchmarkName, setBenchmarkName] = useState('');
+
+  const { data: benchmarks } = useBenchmarks();
+  const { data: performance, isLoading } = useFundPerformance(fundId, benchmarkId);
+
+  // Import a benchmark index series from CSV (date, index level)
+  const importBenchmark = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('name', benchmarkName.trim() || file.name.replace(/\.csv$/i, ''));
+      const res = await apiRequest('POST', '/api/fund-performance/benchmarks', formData, true);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || error.error || 'Failed to import benchmark');
+      }
+      return res.json();
+    },
+    onSuccess: (benchmark) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/fund-performance/benchmarks'] });
+      setBenchmarkId(benchmark.id);
+      setBenchmarkName('');
+      toast({
+        title: 'Benchmark imported',
+        description: `${benchmark.name}: ${benchmark.valueCount} index values`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Import failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const chartData = React.useMemo(() => (performance?.history || []).map(point => ({
+    date: format(parseISO(point.date), 'MMM yyyy'),
+    tvpi: point.tvpi,
+    dpi: point.dpi,
+    rvpi: point.rvpi,
+    pme: point.pme
+  })), [performance]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importBenchmark.mutate(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <Card className="h-full w-full flex flex-col">
+      <CardHeader className="pb-2">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+          <div>
+            <CardTitle className="mb-1">Fund Performance</CardTitle>
+            <CardDescription>TVPI, DPI and RVPI by quarter, with Kaplan-Schoar PME against a benchmark</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={benchmarkId ? String(benchmarkId) : NO_BENCHMARK}
+              onValueChange={(value) => setBenchmarkId(value === NO_BENCHMARK ? null : Number(value))}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Benchmark" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_BENCHMARK}>No benchmark</SelectItem>
+                {benchmarks?.map(benchmark => (
+                  <SelectItem key={benchmark.id} value={String(benchmark.id)}>{benchmark.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-[160px]"
+              placeholder="New benchmark name"
+              value={benchmarkName}
+              onChange={(e) => setBenchmarkName(e.target.value)}
+            />
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importBenchmark.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importBenchmark.isPending ? 'Importing...' : 'Import CSV'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1 flex flex-col justify-center py-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-neutral-500">Loading performance...</div>
+        ) : performance && performance.paidIn > 0 ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              <div className="bg-primary/5 p-3 rounded-lg">
+                <p className="text-xs sm:text-sm text-neutral-600 mb-1">TVPI</p>
+                <p className="text-lg font-semibold">{formatMultiple(performance.tvpi)}</p>
+              </div>
+              <div className="bg-primary/5 p-3 rounded-lg">
+                <p className="text-xs sm:text-sm text-neutral-600 mb-1">DPI</p>
+                <p className="text-lg font-semibold">{formatMultiple(performance.dpi)}</p>
+              </div>
+              <div className="bg-primary/5 p-3 rounded-lg">
+                <p className="text-xs sm:text-sm text-neutral-600 mb-1">RVPI</p>
+                <p className="text-lg font-semibold">{formatMultiple(performance.rvpi)}</p>
+              </div>
+              <div className="bg-primary/5 p-3 rounded-lg">
+                <p className="text-xs sm:text-sm text-neutral-600 mb-1">
+                  KS-PME{performance.benchmark ? ` vs ${performance.benchmark.name}` : ''}
+                </p>
+                <p className="text-lg font-semibold">{formatMultiple(performance.pme)}</p>
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(value) => `${value}x`} tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(value: number) => formatMultiple(value)} />
+                <Legend />
+                <ReferenceLine y={1} stroke="#9ca3af" strokeDasharray="4 4" />
+                <Line type="monotone" dataKey="tvpi" name="TVPI" stroke="#4f46e5" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="dpi" name="DPI" stroke="#10b981" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="rvpi" name="RVPI" stroke="#a5b4fc" strokeWidth={2} dot={false} connectNulls />
+                {performance.benchmark && (
+                  <Line type="monotone" dataKey="pme" name="KS-PME" stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </>
+        ) : (
+          <EmptyCapitalData message="No paid-in capital recorded for this fund yet." />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FundPerformanceChart;
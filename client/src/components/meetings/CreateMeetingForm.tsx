@@ -1,7 +1,7 @@
 import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
@@ -9,6 +9,8 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Form,
   FormControl,
@@ -38,6 +40,9 @@ const meetingFormSchema = z.object({
   dealId: z.number(),
   title: z.string().min(3, 'Title must be at least 3 characters'),
   date: z.string(), // Keep as string for form handling
+  location: z.string().optional(),
+  repeat: z.enum(['none', 'weekly', 'biweekly', 'monthly', 'quarterly']),
+  userIds: z.array(z.number()),
   attendees: z.string().optional(),
   notes: z.string().optional(),
   createdBy: z.number(),
@@ -45,6 +50,29 @@ const meetingFormSchema = z.object({
 
 type MeetingFormValues = z.infer<typeof meetingFormSchema>;
 
+const REPEAT_RULES: Record<Exclude<MeetingFormValues['repeat'], 'none'>, string> = {
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+  quarterly: 'FREQ=MONTHLY;INTERVAL=3',
+};
+
+interface TeamMember {
+  id: number;
+  fullName: string;
+}
+
+// "Jane Doe <jane@acme.com>, bob@acme.com, Alice" -> attendee entries for the API
+const parseExternalAttendees = (text: string | undefined) =>
+  (text || '').split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const match = entry.match(/^(.*?)\s*<([^>]+)>$/);
+      if (match) return { name: match[1] || undefined, email: match[2] };
+      return entry.includes('@') ? { email: entry } : { name: entry };
+    });
+
 export function CreateMeetingForm({ dealId, isOpen, onClose }: CreateMeetingFormProps) {
   const { toast } = useToast();
   const today = new Date();
@@ -52,6 +80,11 @@ export function CreateMeetingForm({ dealId, isOpen, onClose }: CreateMeetingForm
   
   // Get current user ID from auth context or session
   const userId = 4; // Hardcoded for now, should come from auth context
+
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/users'],
+    enabled: isOpen,
+  });
   
   // Form setup with default values
   const form = useForm<MeetingFormValues>({
@@ -60,6 +93,9 @@ export function CreateMeetingForm({ dealId, isOpen, onClose }: CreateMeetingForm
       dealId,
       title: '',
       date: defaultDateTime,
+      location: '',
+      repeat: 'none',
+      userIds: [],
       attendees: '',
       notes: '',
       createdBy: userId,
@@ -69,10 +105,20 @@ export function CreateMeetingForm({ dealId, isOpen, onClose }: CreateMeetingForm
   // Create meeting mutation
   const createMeetingMutation = useMutation({
     mutationFn: async (data: MeetingFormValues) => {
-      // Transform date to the format the API expects
+      // Team members are referenced by id, everyone else by name and/or email
+      const { userIds, attendees, repeat, ...meeting } = data;
       const transformedData = {
-        ...data,
-        // We keep the date as a string throughout the form
+        ...meeting,
+        // The picker gives local time; recurring meetings repeat at that local time in the user's zone
+        date: new Date(meeting.date).toISOString(),
+        ...(repeat !== 'none' ? {
+          recurrenceRule: REPEAT_RULES[repeat],
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        } : {}),
+        attendeeList: [
+          ...userIds.map(id => ({ userId: id })),
+          ...parseExternalAttendees(attendees),
+        ],
       };
       return apiRequest('POST', `/api/meetings`, transformedData);
     },
@@ -80,6 +126,8 @@ export function CreateMeetingForm({ dealId, isOpen, onClose }: CreateMeetingForm
       // Update queries that depend on meetings data
       queryClient.invalidateQueries({ queryKey: [`/api/meetings/deal/${dealId}`] });
       queryClient.invalidateQueries({ queryKey: ['/api/meetings'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/timeline`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
       
       toast({
         title: 'Meeting created',
@@ -141,17 +189,80 @@ export function CreateMeetingForm({ dealId, isOpen, onClose }: CreateMeetingForm
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeats</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="quarterly">Quarterly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Conference room or video link" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="userIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Team Members</FormLabel>
+                  <div className="max-h-32 overflow-y-auto grid grid-cols-2 gap-2 rounded-md border p-2">
+                    {teamMembers.map(member => (
+                      <label key={member.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(member.id)}
+                          onCheckedChange={checked => field.onChange(
+                            checked ? [...field.value, member.id] : field.value.filter(id => id !== member.id)
+                          )}
+                        />
+                        {member.fullName}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <FormField
               control={form.control}
               name="attendees"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Attendees</FormLabel>
+                  <FormLabel>External Attendees</FormLabel>
                   <FormControl>
-                    <Input placeholder="e.g., John Smith, Jane Doe (comma separated)" {...field} />
+                    <Input placeholder="e.g., Jane Doe <jane@acme.com>, bob@acme.com" {...field} />
                   </FormControl>
                   <FormDescription>
-                    Enter attendee names separated by commas
+                    Names and/or email addresses, separated by commas
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
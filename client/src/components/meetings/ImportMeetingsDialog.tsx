@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { FileUp } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface ImportMeetingsDialogProps {
+  /** Deal to import into; when omitted the user picks one */
+  dealId?: number;
+}
+
+interface MeetingImportResult {
+  created: number;
+  updated: number;
+  cancelled: number;
+}
+
+interface DealOption {
+  id: number;
+  name: string;
+}
+
+/**
+ * Import an .ics invite (single event or recurring series) from Outlook or Google Calendar as deal meetings
+ */
+export default function ImportMeetingsDialog({ dealId }: ImportMeetingsDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [selectedDealId, setSelectedDealId] = useState<string>(dealId ? String(dealId) : '');
+
+  const { data: deals = [] } = useQuery<DealOption[]>({
+    queryKey: ['/api/deals'],
+    enabled: open && !dealId,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<MeetingImportResult> => {
+      const formData = new FormData();
+      formData.append('dealId', selectedDealId);
+      formData.append('file', file!);
+      const res = await apiRequest('POST', '/api/meetings/import', formData, true);
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || 'Failed to import calendar invite');
+      }
+      return body;
+    },
+    onSuccess: (result) => {
+      const parts = [
+        result.created && `${result.created} created`,
+        result.updated && `${result.updated} updated`,
+        result.cancelled && `${result.cancelled} cancelled`,
+      ].filter(Boolean);
+      toast({
+        title: 'Calendar invite imported',
+        description: `Meetings: ${parts.join(', ') || 'no changes'}.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: [`/api/meetings/deal/${selectedDealId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meetings'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${selectedDealId}/timeline`] });
+      setFile(null);
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Import failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <FileUp className="h-3.5 w-3.5 mr-1.5" />
+          Import .ics
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import Calendar Invite</DialogTitle>
+          <DialogDescription>
+            Add meetings from an Outlook or Google Calendar invite (.ics). Recurring series become one meeting
+            per occurrence; importing an updated invite again changes the existing meetings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!dealId && (
+            <div className="space-y-1">
+              <Label>Deal</Label>
+              <Select value={selectedDealId} onValueChange={setSelectedDealId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select deal" />
+                </SelectTrigger>
+                <SelectContent>
+                  {deals.map(deal => (
+                    <SelectItem key={deal.id} value={String(deal.id)}>{deal.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="ics-file">Invite file</Label>
+            <Input
+              id="ics-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={e => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!file || !selectedDealId || importMutation.isPending}
+          >
+            {importMutation.isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,9 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { describeRecurrence, type MeetingAttendee, type RsvpStatus } from '@/hooks/use-calendar-events';
+import ImportMeetingsDialog from './ImportMeetingsDialog';
 import {
   Calendar,
   Users,
@@ -21,6 +24,10 @@ import {
   Edit,
   MoreHorizontal,
   PlusCircle,
+  Check,
+  X,
+  HelpCircle,
+  Repeat,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -55,13 +62,24 @@ interface Meeting {
   title: string;
   date: string;
   attendees: string | null;
+  attendeeList: MeetingAttendee[];
+  location: string | null;
   notes: string | null;
+  /** Set on a recurring series; `date` is then its first occurrence */
+  recurrenceRule: string | null;
   createdBy: number;
   createdAt: string;
   updatedAt: string;
   dealName: string;
 }
 
+const RSVP_BADGES: Record<RsvpStatus, string> = {
+  accepted: 'border-green-600 text-green-700',
+  tentative: 'border-amber-500 text-amber-700',
+  declined: 'border-red-500 text-red-600 line-through',
+  needs_action: '',
+};
+
 interface MeetingsListProps {
   dealId: number;
   onCreateMeeting?: () => void;
@@ -69,6 +87,7 @@ interface MeetingsListProps {
 
 export default function MeetingsList({ dealId, onCreateMeeting }: MeetingsListProps) {
   const { toast } = useToast();
+  const { data: user } = useAuth();
   const [meetingToDelete, setMeetingToDelete] = useState<number | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   
@@ -100,6 +119,23 @@ export default function MeetingsList({ dealId, onCreateMeeting }: MeetingsListPr
     }
   });
   
+  // The current user's response to a meeting they are invited to
+  const rsvpMutation = useMutation({
+    mutationFn: async ({ meetingId, attendeeId, rsvpStatus }: { meetingId: number; attendeeId: number; rsvpStatus: RsvpStatus }) => {
+      return apiRequest('PATCH', `/api/meetings/${meetingId}/attendees/${attendeeId}`, { rsvpStatus });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/meetings/deal/${dealId}`] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update your response',
+        variant: 'destructive',
+      });
+    }
+  });
+  
   const handleDelete = (meetingId: number) => {
     setMeetingToDelete(meetingId);
     setIsDeleteDialogOpen(true);
@@ -126,12 +162,15 @@ export default function MeetingsList({ dealId, onCreateMeeting }: MeetingsListPr
         <Calendar className="h-12 w-12 text-neutral-300 mx-auto mb-3" />
         <h3 className="text-lg font-medium text-neutral-600 mb-1">No meetings scheduled</h3>
         <p className="text-neutral-500 text-sm mb-4">Schedule meetings with the team or external parties</p>
-        {onCreateMeeting && (
-          <Button onClick={onCreateMeeting} className="mt-2">
-            <PlusCircle className="h-4 w-4 mr-2" />
-            Schedule Meeting
-          </Button>
-        )}
+        <div className="flex justify-center gap-2 mt-2">
+          {onCreateMeeting && (
+            <Button onClick={onCreateMeeting}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Schedule Meeting
+            </Button>
+          )}
+          <ImportMeetingsDialog dealId={dealId} />
+        </div>
       </div>
     );
   }
@@ -140,12 +179,15 @@ export default function MeetingsList({ dealId, onCreateMeeting }: MeetingsListPr
     <div>
       <div className="mb-4 flex justify-between items-center">
         <h3 className="text-lg font-medium">Scheduled Meetings</h3>
-        {onCreateMeeting && (
-          <Button onClick={onCreateMeeting} size="sm">
-            <PlusCircle className="h-4 w-4 mr-2" />
-            New Meeting
-          </Button>
-        )}
+        <div className="flex gap-2">
+          <ImportMeetingsDialog dealId={dealId} />
+          {onCreateMeeting && (
+            <Button onClick={onCreateMeeting} size="sm">
+              <PlusCircle className="h-4 w-4 mr-2" />
+              New Meeting
+            </Button>
+          )}
+        </div>
       </div>
       
       <Table>
@@ -158,43 +200,86 @@ export default function MeetingsList({ dealId, onCreateMeeting }: MeetingsListPr
           </TableRow>
         </TableHeader>
         <TableBody>
-          {meetings.map((meeting) => (
-            <TableRow key={meeting.id}>
-              <TableCell className="font-medium">
-                {format(new Date(meeting.date), 'MMM d, yyyy h:mm a')}
-              </TableCell>
-              <TableCell>{meeting.title}</TableCell>
-              <TableCell>
-                {meeting.attendees ? 
-                  meeting.attendees.split(',').map((attendee, idx) => (
-                    <Badge key={idx} variant="outline" className="mr-1 mb-1">
-                      {attendee.trim()}
-                    </Badge>
-                  )) 
-                  : 'No attendees specified'}
-              </TableCell>
-              <TableCell className="text-right">
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                    <DropdownMenuItem onClick={() => {}}>
-                      <Edit className="h-4 w-4 mr-2" />
-                      Edit Meeting
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => handleDelete(meeting.id)}>
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </TableCell>
-            </TableRow>
-          ))}
+          {meetings.map((meeting) => {
+            const ownAttendee = meeting.attendeeList?.find(attendee => user && attendee.userId === user.id);
+            return (
+              <TableRow key={meeting.id}>
+                <TableCell className="font-medium">
+                  {format(new Date(meeting.date), 'MMM d, yyyy h:mm a')}
+                  {meeting.recurrenceRule && (
+                    <div className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                      <Repeat className="h-3 w-3" />
+                      {describeRecurrence(meeting.recurrenceRule)}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {meeting.title}
+                  {meeting.location && (
+                    <div className="text-xs text-muted-foreground">{meeting.location}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {meeting.attendeeList?.length ? (
+                    meeting.attendeeList.map(attendee => (
+                      <Badge
+                        key={attendee.id}
+                        variant="outline"
+                        className={`mr-1 mb-1 ${RSVP_BADGES[attendee.rsvpStatus]}`}
+                        title={attendee.email || undefined}
+                      >
+                        {attendee.name || attendee.email}
+                        {attendee.role === 'organizer' && ' (organizer)'}
+                      </Badge>
+                    ))
+                  ) : meeting.attendees ? 
+                    meeting.attendees.split(',').map((attendee, idx) => (
+                      <Badge key={idx} variant="outline" className="mr-1 mb-1">
+                        {attendee.trim()}
+                      </Badge>
+                    )) 
+                    : 'No attendees specified'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                      {ownAttendee && (
+                        <>
+                          <DropdownMenuItem onClick={() => rsvpMutation.mutate({ meetingId: meeting.id, attendeeId: ownAttendee.id, rsvpStatus: 'accepted' })}>
+                            <Check className="h-4 w-4 mr-2" />
+                            Accept
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => rsvpMutation.mutate({ meetingId: meeting.id, attendeeId: ownAttendee.id, rsvpStatus: 'tentative' })}>
+                            <HelpCircle className="h-4 w-4 mr-2" />
+                            Tentative
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => rsvpMutation.mutate({ meetingId: meeting.id, attendeeId: ownAttendee.id, rsvpStatus: 'declined' })}>
+                            <X className="h-4 w-4 mr-2" />
+                            Decline
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                        </>
+                      )}
+                      <DropdownMenuItem onClick={() => {}}>
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit Meeting
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleDelete(meeting.id)}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              </TableRow>
+            );
+          })}
         </TableBody>
       </Table>
       
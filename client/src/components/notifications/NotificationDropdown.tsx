@@ -18,6 +18,7 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { formatDistanceToNow } from 'date-fns';
+import { useLocation } from 'wouter';
 import { Badge } from '@/components/ui/badge';
 
 // Define notification type for frontend use
@@ -26,12 +27,22 @@ interface Notification {
   userId: number;
   title: string;
   message: string;
-  type: 'deal' | 'memo' | 'assignment' | 'system';
+  type: 'deal' | 'memo' | 'assignment' | 'system' | 'stage_change' | 'capital_call' | 'closing';
   relatedId?: number;
   isRead: boolean;
   createdAt: string;
 }
 
+const TYPE_LABELS: Record<Notification['type'], string> = {
+  deal: 'Deal',
+  memo: 'Memo',
+  assignment: 'Assignment',
+  system: 'System',
+  stage_change: 'Stage',
+  capital_call: 'Capital Call',
+  closing: 'Closing',
+};
+
 // Define unread count response type
 interface UnreadCountResponse {
   count: number;
@@ -39,6 +50,7 @@ interface UnreadCountResponse {
 
 export default function NotificationDropdown() {
   const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -106,12 +118,26 @@ export default function NotificationDropdown() {
         return 'bg-green-100 text-green-800';
       case 'assignment':
         return 'bg-purple-100 text-purple-800';
+      case 'stage_change':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'capital_call':
+        return 'bg-amber-100 text-amber-800';
+      case 'closing':
+        return 'bg-teal-100 text-teal-800';
       case 'system':
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
+  // Everything except system notifications points at a deal
+  const openNotification = (notification: Notification) => {
+    if (notification.type === 'system' || !notification.relatedId) return;
+    markAsReadMutation.mutate(notification.id);
+    setOpen(false);
+    navigate(`/deals/${notification.relatedId}`);
+  };
+
   return (
     <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
@@ -162,12 +188,15 @@ export default function NotificationDropdown() {
                     className={`p-4 hover:bg-neutral-50 ${!notification.isRead ? 'bg-blue-50/30' : ''}`}
                   >
                     <div className="flex justify-between gap-2">
-                      <div className="min-w-0 flex-grow">
+                      <div
+                        className={`min-w-0 flex-grow ${notification.type !== 'system' && notification.relatedId ? 'cursor-pointer' : ''}`}
+                        onClick={() => openNotification(notification)}
+                      >
                         <div className="font-medium text-xs xs:text-sm truncate">{notification.title}</div>
                         <p className="text-xs xs:text-sm text-gray-500 mt-1 line-clamp-2">{notification.message}</p>
                         <div className="flex flex-wrap items-center gap-1 sm:gap-2 mt-2">
                           <Badge variant="outline" className={`${getTypeColor(notification.type)} border-0 text-[10px] px-1.5 py-0.5 leading-none`}>
-                            {notification.type.charAt(0).toUpperCase() + notification.type.slice(1)}
+                            {TYPE_LABELS[notification.type] ?? notification.type}
                           </Badge>
                           <span className="text-[10px] text-gray-400">
                             {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
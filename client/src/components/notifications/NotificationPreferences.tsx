@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+type Channel = 'inApp' | 'email' | 'digest';
+
+interface NotificationPreference {
+  category: string;
+  label: string;
+  description: string;
+  inApp: boolean;
+  email: boolean;
+  digest: boolean;
+  isDefault: boolean;
+}
+
+type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+interface DigestSubscription {
+  frequency: DigestFrequency;
+  isDefault: boolean;
+  lastSentAt: string | null;
+  nextSendAt: string | null;
+}
+
+const DIGEST_FREQUENCIES: Array<{ value: DigestFrequency; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly (Monday morning)' },
+];
+
+const CHANNELS: Array<{ key: Channel; label: string }> = [
+  { key: 'inApp', label: 'In-App' },
+  { key: 'email', label: 'Email' },
+  { key: 'digest', label: 'Digest' },
+];
+
+const PREFERENCES_KEY = ['/api/notifications/preferences'];
+const DIGEST_KEY = ['/api/notifications/digest'];
+
+export default function NotificationPreferences() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<NotificationPreference[]>([]);
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreference[]>({
+    queryKey: PREFERENCES_KEY,
+  });
+
+  const { data: digest } = useQuery<DigestSubscription>({
+    queryKey: DIGEST_KEY,
+  });
+
+  useEffect(() => {
+    if (preferences) setDraft(preferences);
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PUT', '/api/notifications/preferences', {
+        preferences: draft.map(({ category, inApp, email, digest }) => ({ category, inApp, email, digest })),
+      });
+      return res.json();
+    },
+    onSuccess: (saved: NotificationPreference[]) => {
+      queryClient.setQueryData(PREFERENCES_KEY, saved);
+      toast({
+        title: 'Notification settings updated',
+        description: 'Your notification preferences have been saved.',
+        variant: 'success'
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save notification preferences',
+        variant: 'destructive'
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', '/api/notifications/preferences');
+      return res.json();
+    },
+    onSuccess: (defaults: NotificationPreference[]) => {
+      queryClient.setQueryData(PREFERENCES_KEY, defaults);
+      toast({
+        title: 'Notification settings reset',
+        description: 'The defaults for your role now apply.'
+      });
+    },
+  });
+
+  const digestMutation = useMutation({
+    mutationFn: async (frequency: DigestFrequency) => {
+      const res = await apiRequest('PUT', '/api/notifications/digest', { frequency });
+      return res.json();
+    },
+    onSuccess: (saved: DigestSubscription) => {
+      queryClient.setQueryData(DIGEST_KEY, saved);
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update digest frequency',
+        variant: 'destructive'
+      });
+    },
+  });
+
+  const toggle = (category: string, channel: Channel, checked: boolean) => {
+    setDraft(current => current.map(pref =>
+      pref.category === category ? { ...pref, [channel]: checked } : pref
+    ));
+  };
+
+  const isDirty = preferences !== undefined &&
+    draft.some((pref, i) => CHANNELS.some(({ key }) => pref[key] !== preferences[i]?.[key]));
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] items-center gap-y-3 text-sm">
+        <div />
+        {CHANNELS.map(({ key, label }) => (
+          <div key={key} className="text-center font-medium text-muted-foreground">{label}</div>
+        ))}
+
+        {draft.map(pref => (
+          <div key={pref.category} className="contents">
+            <div>
+              <Label className="font-medium">{pref.label}</Label>
+              <p className="text-sm text-muted-foreground">{pref.description}</p>
+            </div>
+            {CHANNELS.map(({ key, label }) => (
+              <div key={key} className="flex justify-center">
+                <Switch
+                  checked={pref[key]}
+                  onCheckedChange={(checked) => toggle(pref.category, key, checked)}
+                  aria-label={`${pref.label} ${label}`}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Digest items are collected into your periodic summary email instead of arriving one by one.
+      </p>
+
+      {digest && (
+        <div className="flex items-center justify-between gap-4 border-t pt-4">
+          <div>
+            <Label className="font-medium">Digest Email</Label>
+            <p className="text-sm text-muted-foreground">
+              Pipeline movement, new documents, overdue capital calls and open concerns on your assigned deals.
+              {digest.nextSendAt && ` Next digest: ${new Date(digest.nextSendAt).toLocaleString()}.`}
+            </p>
+            {digest.frequency !== 'off' && (
+              <a
+                href={`/api/notifications/digest/preview?frequency=${digest.frequency}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm text-primary hover:underline"
+              >
+                Preview
+              </a>
+            )}
+          </div>
+          <Select
+            value={digest.frequency}
+            onValueChange={(value) => digestMutation.mutate(value as DigestFrequency)}
+            disabled={digestMutation.isPending}
+          >
+            <SelectTrigger className="w-56" aria-label="Digest frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_FREQUENCIES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => resetMutation.mutate()}
+          disabled={resetMutation.isPending || draft.every(pref => pref.isDefault)}
+        >
+          Reset to Defaults
+        </Button>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!isDirty || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
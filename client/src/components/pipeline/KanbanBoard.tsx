@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DealCard from "@/components/deals/DealCard";
+import { DealRejectionDialog } from "@/components/deals/DealRejectionDialog";
+import { usePipelines, type GateFailure } from "@/hooks/use-pipelines";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getDealStageBadgeClass } from "@/lib/utils/format";
+import { Deal } from "@/lib/types";
+import type { PipelineStage, PipelineWithStages } from "@shared/schema";
+
+interface KanbanBoardProps {
+  deals: Deal[] | undefined;
+  isLoading: boolean;
+  onEdit: (dealId: number) => void;
+  onAllocate: (dealId: number, dealName: string) => void;
+}
+
+interface DropTarget {
+  stage: string;
+  // Drop above this deal; null drops at the bottom of the column
+  beforeDealId: number | null;
+}
+
+interface StageTransition extends DropTarget {
+  deal: Deal;
+  rejection?: { category: string; reason: string; additionalNotes?: string };
+}
+
+interface GateError {
+  stage: string;
+  message: string;
+  failures: GateFailure[];
+}
+
+class StageTransitionError extends Error {
+  constructor(message: string, public failedGates: GateFailure[] = []) {
+    super(message);
+  }
+}
+
+// Placed deals follow their board position; unplaced deals come first, newest first
+function compareBoardOrder(a: Deal, b: Deal) {
+  const aPlaced = a.boardPosition != null;
+  const bPlaced = b.boardPosition != null;
+  if (aPlaced !== bPlaced) return aPlaced ? 1 : -1;
+  if (aPlaced && bPlaced && a.boardPosition !== b.boardPosition) return a.boardPosition! - b.boardPosition!;
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || a.id - b.id;
+}
+
+function followsPipeline(deal: Deal, pipeline: PipelineWithStages) {
+  return deal.pipelineId ? deal.pipelineId === pipeline.id : pipeline.isDefault;
+}
+
+/**
+ * Moves a deal within the cached deal list the way the server will, so a drop shows immediately
+ */
+function applyTransition(deals: Deal[], pipeline: PipelineWithStages, stage: PipelineStage, transition: StageTransition) {
+  const column = deals
+    .filter(deal => deal.id !== transition.deal.id && deal.stage === stage.key && followsPipeline(deal, pipeline))
+    .sort(compareBoardOrder)
+    .map(deal => deal.id);
+  const beforeIndex = transition.beforeDealId ? column.indexOf(transition.beforeDealId) : -1;
+  column.splice(beforeIndex === -1 ? column.length : beforeIndex, 0, transition.deal.id);
+
+  return deals.map(deal => {
+    const position = column.indexOf(deal.id);
+    if (position === -1) return deal;
+    return deal.id === transition.deal.id
+      ? { ...deal, stage: stage.key, stageLabel: stage.label, boardPosition: position }
+      : { ...deal, boardPosition: position };
+  });
+}
+
+/**
+ * Kanban view of one pipeline: a column per stage with deals that can be dragged between and
+ * within columns. Every drop goes through the stage transition endpoint, so stage gates apply.
+ */
+export default function KanbanBoard({ deals, isLoading, onEdit, onAllocate }: KanbanBoardProps) {
+  const { toast } = useToast();
+  const { canEdit } = usePermissions();
+  const { data: pipelines = [] } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useState<number | null>(null);
+  const [draggedDeal, setDraggedDeal] = useState<Deal | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [gateError, setGateError] = useState<GateError | null>(null);
+  const [pendingRejection, setPendingRejection] = useState<StageTransition | null>(null);
+
+  const pipeline = pipelines.find(candidate =>
+    selectedPipelineId ? candidate.id === selectedPipelineId : candidate.isDefault
+  );
+  const canMove = canEdit('deal');
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ deal, stage, beforeDealId, rejection }: StageTransition) => {
+      const res = await apiRequest("POST", `/api/deals/${deal.id}/transition`, { stage, beforeDealId, rejection });
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new StageTransitionError(body.message || "Failed to move deal", body.failedGates);
+      }
+      return body;
+    },
+    onMutate: async (transition: StageTransition) => {
+      setGateError(null);
+      await queryClient.cancelQueries({ queryKey: ["/api/deals"] });
+      const previousDeals = queryClient.getQueryData<Deal[]>(["/api/deals"]);
+      const stage = pipeline?.stages.find(candidate => candidate.key === transition.stage);
+      if (previousDeals && pipeline && stage) {
+        queryClient.setQueryData<Deal[]>(["/api/deals"], applyTransition(previousDeals, pipeline, stage, transition));
+      }
+      return { previousDeals };
+    },
+    onError: (error: Error, transition, context) => {
+      if (context?.previousDeals) {
+        queryClient.setQueryData(["/api/deals"], context.previousDeals);
+      }
+      if (error instanceof StageTransitionError && error.failedGates.length > 0) {
+        setGateError({ stage: transition.stage, message: error.message, failures: error.failedGates });
+      } else {
+        toast({ title: "Could not move deal", description: error.message, variant: "destructive" });
+      }
+    },
+    onSettled: (_data, _error, transition) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${transition.deal.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${transition.deal.id}/timeline`] });
+    },
+  });
+
+  if (isLoading || !pipeline) {
+    return <div className="py-12 text-center text-neutral-500">Loading board...</div>;
+  }
+
+  const columns = pipeline.stages.map(stage => ({
+    stage,
+    deals: (deals ?? [])
+      .filter(deal => deal.stage === stage.key && followsPipeline(deal, pipeline))
+      .sort(compareBoardOrder)
+  }));
+
+  const updateDropTarget = (target: DropTarget) => {
+    if (dropTarget?.stage !== target.stage || dropTarget.beforeDealId !== target.beforeDealId) {
+      setDropTarget(target);
+    }
+  };
+
+  const endDrag = () => {
+    setDraggedDeal(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    const deal = draggedDeal;
+    const target = dropTarget;
+    endDrag();
+    if (!deal || !target) return;
+
+    // Dropping a deal back where it was is not a move
+    if (target.stage === deal.stage) {
+      const column = columns.find(column => column.stage.key === target.stage)!.deals;
+      const index = column.findIndex(candidate => candidate.id === deal.id);
+      const nextId = column[index + 1]?.id ?? null;
+      if (target.beforeDealId === deal.id || target.beforeDealId === nextId) return;
+    }
+
+    const stage = pipeline.stages.find(candidate => candidate.key === target.stage);
+    if (stage?.category === 'rejected' && deal.stage !== stage.key) {
+      setPendingRejection({ deal, ...target });
+      return;
+    }
+    moveMutation.mutate({ deal, ...target });
+  };
+
+  return (
+    <div className="space-y-3">
+      {pipelines.length > 1 && (
+        <Select value={String(pipeline.id)} onValueChange={value => setSelectedPipelineId(Number(value))}>
+          <SelectTrigger className="w-full sm:w-[220px] h-8 sm:h-9 bg-white border-neutral-300 text-xs sm:text-sm">
+            <SelectValue placeholder="Pipeline" />
+          </SelectTrigger>
+          <SelectContent>
+            {pipelines.map(candidate => (
+              <SelectItem key={candidate.id} value={String(candidate.id)}>{candidate.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="flex gap-3 overflow-x-auto pb-4">
+        {columns.map(({ stage, deals: columnDeals }) => {
+          const isTarget = !!draggedDeal && dropTarget?.stage === stage.key;
+          const dropIndicator = <div className="h-1 rounded bg-primary my-1" />;
+
+          return (
+            <div
+              key={stage.key}
+              className={`w-72 flex-shrink-0 rounded-lg border bg-neutral-50 flex flex-col ${isTarget ? 'border-primary' : 'border-neutral-200'}`}
+              onDragOver={event => {
+                if (!draggedDeal) return;
+                event.preventDefault();
+                updateDropTarget({ stage: stage.key, beforeDealId: null });
+              }}
+              onDrop={handleDrop}
+            >
+              <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-200">
+                <span className={`deal-stage-badge text-xs px-2 py-1 ${getDealStageBadgeClass(stage.key, stage.color)}`}>
+                  {stage.label}
+                </span>
+                <span className="text-xs bg-white border border-neutral-200 px-2 py-0.5 rounded-full">
+                  {columnDeals.length}
+                </span>
+              </div>
+
+              {gateError?.stage === stage.key && (
+                <Alert variant="destructive" className="m-2 w-auto p-3">
+                  <AlertTriangle className="h-4 w-4" />
+                  <button
+                    className="absolute right-2 top-2 text-red-400 hover:text-red-600"
+                    onClick={() => setGateError(null)}
+                    title="Dismiss"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                  <AlertTitle className="text-xs">Stage gate not met</AlertTitle>
+                  <AlertDescription className="text-xs">
+                    <ul className="list-disc pl-4">
+                      {gateError.failures.map((failure, index) => (
+                        <li key={index}>{failure.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex-1 p-2 space-y-2 min-h-[120px]">
+                {columnDeals.map((deal, index) => (
+                  <div key={deal.id}>
+                    {isTarget && dropTarget?.beforeDealId === deal.id && dropIndicator}
+                    <div
+                      draggable={canMove}
+                      className={draggedDeal?.id === deal.id ? 'opacity-50' : undefined}
+                      onDragStart={event => {
+                        event.dataTransfer.effectAllowed = 'move';
+                        event.dataTransfer.setData('text/plain', String(deal.id));
+                        setDraggedDeal(deal);
+                      }}
+                      onDragEnd={endDrag}
+                      onDragOver={event => {
+                        if (!draggedDeal) return;
+                        event.preventDefault();
+                        event.stopPropagation();
+                        const rect = event.currentTarget.getBoundingClientRect();
+                        const below = event.clientY > rect.top + rect.height / 2;
+                        updateDropTarget({
+                          stage: stage.key,
+                          beforeDealId: below ? columnDeals[index + 1]?.id ?? null : deal.id
+                        });
+                      }}
+                    >
+                      <DealCard
+                        deal={deal}
+                        compact
+                        onEdit={() => onEdit(deal.id)}
+                        onAllocate={() => onAllocate(deal.id, deal.name)}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {isTarget && dropTarget?.beforeDealId === null && dropIndicator}
+                {columnDeals.length === 0 && !isTarget && (
+                  <p className="text-xs text-neutral-400 text-center py-6">No deals</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {pendingRejection && (
+        <DealRejectionDialog
+          isOpen
+          onClose={() => setPendingRejection(null)}
+          onConfirm={rejection => {
+            moveMutation.mutate({ ...pendingRejection, rejection });
+            setPendingRejection(null);
+          }}
+          dealName={pendingRejection.deal.name}
+        />
+      )}
+    </div>
+  );
+}
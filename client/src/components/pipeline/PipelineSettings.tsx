@@ -0,0 +1,369 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { PipelineStage, PipelineWithStages, StageGateRule } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/use-pipelines';
+import { apiRequest } from '@/lib/queryClient';
+
+interface StageDraft {
+  key: string;
+  label: string;
+  color: string;
+  category: PipelineStage['category'];
+  gateRules: StageGateRule[];
+  isNew: boolean;
+}
+
+interface PipelineDraft {
+  id: number | null;
+  name: string;
+  description: string;
+  isDefault: boolean;
+  stages: StageDraft[];
+}
+
+const STAGE_COLORS = ['neutral', 'primary', 'info', 'success', 'warning', 'danger'];
+
+const STAGE_CATEGORIES: Array<{ value: PipelineStage['category']; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'invested', label: 'Invested' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const PIPELINES_KEY = ['/api/pipelines'];
+const NEW_PIPELINE = 'new';
+
+const emptyDraft = (): PipelineDraft => ({
+  id: null,
+  name: '',
+  description: '',
+  isDefault: false,
+  stages: [{ key: 'sourcing', label: 'Sourcing', color: 'neutral', category: 'active', gateRules: [], isNew: true }],
+});
+
+const toDraft = (pipeline: PipelineWithStages): PipelineDraft => ({
+  id: pipeline.id,
+  name: pipeline.name,
+  description: pipeline.description ?? '',
+  isDefault: pipeline.isDefault,
+  stages: pipeline.stages.map(stage => ({
+    key: stage.key,
+    label: stage.label,
+    color: stage.color,
+    category: stage.category,
+    gateRules: stage.gateRules,
+    isNew: false,
+  })),
+});
+
+// "Due Diligence" -> "due_diligence"
+const toStageKey = (label: string) => label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const findRule = <T extends StageGateRule['type']>(stage: StageDraft, type: T) =>
+  stage.gateRules.find(rule => rule.type === type) as Extract<StageGateRule, { type: T }> | undefined;
+
+/**
+ * Admin editor for deal pipelines: ordered stages with labels, colors and stage gate rules
+ */
+export default function PipelineSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: pipelines, isLoading } = usePipelines();
+  const [selected, setSelected] = useState<string>('');
+  const [draft, setDraft] = useState<PipelineDraft | null>(null);
+
+  useEffect(() => {
+    if (!pipelines || selected) return;
+    const initial = pipelines.find(pipeline => pipeline.isDefault) ?? pipelines[0];
+    if (initial) {
+      setSelected(String(initial.id));
+      setDraft(toDraft(initial));
+    }
+  }, [pipelines, selected]);
+
+  const selectPipeline = (value: string) => {
+    setSelected(value);
+    const pipeline = pipelines?.find(candidate => String(candidate.id) === value);
+    setDraft(pipeline ? toDraft(pipeline) : emptyDraft());
+  };
+
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      stages: prev.stages.map((stage, i) => i === index ? { ...stage, ...changes } : stage),
+    });
+  };
+
+  const setRule = (index: number, type: StageGateRule['type'], rule: StageGateRule | null) => {
+    const stage = draft!.stages[index];
+    const others = stage.gateRules.filter(existing => existing.type !== type);
+    updateStage(index, { gateRules: rule ? [...others, rule] : others });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const stages = [...prev.stages];
+      const [stage] = stages.splice(index, 1);
+      stages.splice(index + offset, 0, stage);
+      return { ...prev, stages };
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (pipeline: PipelineDraft) => {
+      const payload = {
+        name: pipeline.name,
+        description: pipeline.description || null,
+        isDefault: pipeline.isDefault,
+        stages: pipeline.stages.map(({ isNew, ...stage }) => stage),
+      };
+      const res = pipeline.id
+        ? await apiRequest('PUT', `/api/pipelines/${pipeline.id}`, payload)
+        : await apiRequest('POST', '/api/pipelines', payload);
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || 'Failed to save pipeline');
+      }
+      return body as PipelineWithStages;
+    },
+    onSuccess: (pipeline) => {
+      queryClient.invalidateQueries({ queryKey: PIPELINES_KEY });
+      setSelected(String(pipeline.id));
+      setDraft(toDraft(pipeline));
+      toast({ title: 'Pipeline saved', description: `${pipeline.name} has been updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/pipelines/${id}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to delete pipeline');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PIPELINES_KEY });
+      setSelected('');
+      setDraft(null);
+      toast({ title: 'Pipeline deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Pipeline</Label>
+          <Select value={selected} onValueChange={selectPipeline}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select pipeline" />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines?.map(pipeline => (
+                <SelectItem key={pipeline.id} value={String(pipeline.id)}>
+                  {pipeline.name}{pipeline.isDefault ? ' (default)' : ''}
+                </SelectItem>
+              ))}
+              <SelectItem value={NEW_PIPELINE}>New pipeline…</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="pipeline-name">Name</Label>
+          <Input
+            id="pipeline-name"
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g. Credit"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="pipeline-description">Description</Label>
+          <Input
+            id="pipeline-description"
+            value={draft.description}
+            onChange={e => setDraft({ ...draft, description: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="pipeline-default"
+          checked={draft.isDefault}
+          disabled={draft.id !== null && !!pipelines?.find(pipeline => pipeline.id === draft.id)?.isDefault}
+          onCheckedChange={checked => setDraft({ ...draft, isDefault: checked })}
+        />
+        <Label htmlFor="pipeline-default">Default pipeline for new deals</Label>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Stages</h4>
+        <p className="text-xs text-muted-foreground">
+          Deals start in the first stage. Gate rules must pass before a deal can enter the stage.
+        </p>
+
+        {draft.stages.map((stage, index) => {
+          const memoRule = findRule(stage, 'min_mini_memos');
+          const voteRule = findRule(stage, 'ic_vote_passed');
+          const diligenceRule = findRule(stage, 'due_diligence_complete');
+
+          return (
+            <div key={index} className="rounded-md border p-3 space-y-3">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1 flex-1 min-w-[140px]">
+                  <Label className="text-xs">Label</Label>
+                  <Input
+                    value={stage.label}
+                    onChange={e => updateStage(index, {
+                      label: e.target.value,
+                      ...(stage.isNew && { key: toStageKey(e.target.value) }),
+                    })}
+                  />
+                </div>
+                <div className="space-y-1 w-36">
+                  <Label className="text-xs">Key</Label>
+                  <Input value={stage.key} disabled={!stage.isNew} onChange={e => updateStage(index, { key: e.target.value })} />
+                </div>
+                <div className="space-y-1 w-32">
+                  <Label className="text-xs">Color</Label>
+                  <Select value={stage.color} onValueChange={color => updateStage(index, { color })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {STAGE_COLORS.map(color => (
+                        <SelectItem key={color} value={color}>{color}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 w-32">
+                  <Label className="text-xs">Category</Label>
+                  <Select
+                    value={stage.category}
+                    onValueChange={category => updateStage(index, { category: category as PipelineStage['category'] })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {STAGE_CATEGORIES.map(category => (
+                        <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStage(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" disabled={index === draft.stages.length - 1} onClick={() => moveStage(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={draft.stages.length === 1}
+                    onClick={() => setDraft({ ...draft, stages: draft.stages.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`gate-memos-${index}`}
+                    checked={!!memoRule}
+                    onCheckedChange={checked => setRule(index, 'min_mini_memos', checked ? { type: 'min_mini_memos', count: 1 } : null)}
+                  />
+                  <Label htmlFor={`gate-memos-${index}`} className="font-normal">Requires at least</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="h-8 w-16"
+                    disabled={!memoRule}
+                    value={memoRule?.count ?? 1}
+                    onChange={e => setRule(index, 'min_mini_memos', { type: 'min_mini_memos', count: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                  <span>mini memo(s)</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`gate-diligence-${index}`}
+                    checked={!!diligenceRule}
+                    onCheckedChange={checked => setRule(index, 'due_diligence_complete', checked ? { type: 'due_diligence_complete' } : null)}
+                  />
+                  <Label htmlFor={`gate-diligence-${index}`} className="font-normal">Due diligence checklist complete</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`gate-vote-${index}`}
+                    checked={!!voteRule}
+                    onCheckedChange={checked => setRule(index, 'ic_vote_passed', checked ? { type: 'ic_vote_passed' } : null)}
+                  />
+                  <Label htmlFor={`gate-vote-${index}`} className="font-normal">IC vote passed</Label>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft({
+            ...draft,
+            stages: [...draft.stages, { key: '', label: '', color: 'neutral', category: 'active', gateRules: [], isNew: true }],
+          })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Stage
+        </Button>
+      </div>
+
+      <div className="flex justify-between">
+        {draft.id !== null && !draft.isDefault ? (
+          <Button variant="outline" className="text-destructive" disabled={isSaving} onClick={() => deleteMutation.mutate(draft.id!)}>
+            Delete Pipeline
+          </Button>
+        ) : <span />}
+        <Button
+          disabled={isSaving || !draft.name.trim() || draft.stages.some(stage => !stage.key || !stage.label.trim())}
+          onClick={() => saveMutation.mutate(draft)}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Pipeline'}
+        </Button>
+      </div>
+    </div>
+  );
+}
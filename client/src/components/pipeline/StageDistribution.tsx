@@ -37,7 +37,7 @@ export default function StageDistribution({ deals, stage }: StageDistributionPro
     if (deal.timelineEvents && deal.timelineEvents.length > 0) {
       // Find the earliest timeline event with the current stage
       const stageEvent = deal.timelineEvents
-        .filter((event: TimelineEvent) => event.eventType === 'stage_change' && event.metadata?.newStage === deal.stage)
+        .filter((event: TimelineEvent) => event.eventType === 'stage_change' && ([] as unknown[]).concat(event.metadata?.newStage).includes(deal.stage))
         .sort((a: TimelineEvent, b: TimelineEvent) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
       
       if (stageEvent) {
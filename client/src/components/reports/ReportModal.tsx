@@ -1,3 +1,6 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -7,32 +10,108 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { FileText, BarChart2, FileSpreadsheet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, BarChart2, FileSpreadsheet, Download } from "lucide-react";
 
 interface ReportModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type ReportType = "portfolio_overview" | "performance_analysis" | "sector_distribution";
+type ReportFormat = "pdf" | "xlsx";
+
+interface GeneratedReport {
+  id: number;
+  reportType: ReportType;
+  format: ReportFormat;
+  status: "queued" | "processing" | "completed" | "failed";
+  progress: number;
+  fileName: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const ALL_FUNDS = "all";
+const HISTORY_POLL_MS = 1500;
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  portfolio_overview: "Portfolio Overview",
+  performance_analysis: "Performance Analysis",
+  sector_distribution: "Sector Distribution"
+};
+
+const isActive = (report: GeneratedReport) => report.status === "queued" || report.status === "processing";
+
 export default function ReportModal({ isOpen, onClose }: ReportModalProps) {
-  const reportTypes = [
+  const { toast } = useToast();
+  const [formats, setFormats] = useState<Record<ReportType, ReportFormat>>({
+    portfolio_overview: "pdf",
+    performance_analysis: "pdf",
+    sector_distribution: "pdf"
+  });
+  const [fundScope, setFundScope] = useState<string>(ALL_FUNDS);
+
+  const reportTypes: Array<{ type: ReportType; description: string; icon: JSX.Element }> = [
     {
-      title: "Portfolio Overview",
+      type: "portfolio_overview",
       description: "Complete summary of all investments",
       icon: <FileText className="h-6 w-6 text-primary" />
     },
     {
-      title: "Performance Analysis",
+      type: "performance_analysis",
       description: "Detailed performance metrics and trends",
       icon: <BarChart2 className="h-6 w-6 text-primary" />
     },
     {
-      title: "Sector Distribution",
+      type: "sector_distribution",
       description: "Investment breakdown by sector and industry",
       icon: <FileSpreadsheet className="h-6 w-6 text-primary" />
     }
   ];
 
+  const { data: funds = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/funds'],
+    enabled: isOpen,
+  });
+
+  // Report history doubles as progress polling while any report is still running
+  const { data: reports = [] } = useQuery<GeneratedReport[]>({
+    queryKey: ['/api/reports'],
+    enabled: isOpen,
+    refetchInterval: (query) => (query.state.data || []).some(isActive) ? HISTORY_POLL_MS : false,
+  });
+
+  const generateReport = useMutation({
+    mutationFn: async (reportType: ReportType) => {
+      const res = await apiRequest("POST", "/api/reports", {
+        reportType,
+        format: formats[reportType],
+        ...(fundScope !== ALL_FUNDS ? { fundId: Number(fundScope) } : {})
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || error.error || "Failed to queue report");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Report failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[625px]">
@@ -44,24 +123,93 @@ export default function ReportModal({ isOpen, onClose }: ReportModalProps) {
         </DialogHeader>
 
         <div className="py-4">
-          <p className="text-center mb-4 text-neutral-600">Report generation functionality is coming soon.</p>
-          
+          <div className="flex items-center justify-between mb-4">
+            <span className="text-sm text-neutral-600">Scope</span>
+            <Select value={fundScope} onValueChange={setFundScope}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="All funds" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FUNDS}>All funds</SelectItem>
+                {funds.map(fund => (
+                  <SelectItem key={fund.id} value={String(fund.id)}>{fund.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-3">
-            {reportTypes.map((report, index) => (
-              <div key={index} className="p-3 border rounded-lg flex items-center">
+            {reportTypes.map((report) => (
+              <div key={report.type} className="p-3 border rounded-lg flex items-center">
                 <div className="mr-3">
                   {report.icon}
                 </div>
                 <div>
-                  <h4 className="font-medium">{report.title}</h4>
+                  <h4 className="font-medium">{REPORT_TITLES[report.type]}</h4>
                   <p className="text-sm text-neutral-500">{report.description}</p>
                 </div>
-                <Button className="ml-auto" variant="outline" disabled>
-                  Generate
-                </Button>
+                <div className="ml-auto flex items-center gap-2">
+                  <Select
+                    value={formats[report.type]}
+                    onValueChange={(value) => setFormats(prev => ({ ...prev, [report.type]: value as ReportFormat }))}
+                  >
+                    <SelectTrigger className="w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pdf">PDF</SelectItem>
+                      <SelectItem value="xlsx">Excel</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => generateReport.mutate(report.type)}
+                    disabled={generateReport.isPending}
+                  >
+                    Generate
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
+
+          <div className="mt-6">
+            <h4 className="font-medium mb-2">Recent Reports</h4>
+            {reports.length === 0 ? (
+              <p className="text-sm text-neutral-500">No reports generated yet.</p>
+            ) : (
+              <div className="space-y-2 max-h-[220px] overflow-y-auto">
+                {reports.map((report) => (
+                  <div key={report.id} className="p-2 border rounded-md flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {REPORT_TITLES[report.reportType]} ({report.format.toUpperCase()})
+                      </p>
+                      <p className="text-xs text-neutral-500">
+                        {format(new Date(report.createdAt), "MMM d, yyyy h:mm a")}
+                      </p>
+                      {isActive(report) && <Progress value={report.progress} className="h-1.5 mt-1" />}
+                      {report.status === "failed" && report.errorMessage && (
+                        <p className="text-xs text-red-600 truncate">{report.errorMessage}</p>
+                      )}
+                    </div>
+                    {report.status === "completed" ? (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/reports/${report.id}/download`} download={report.fileName ?? undefined}>
+                          <Download className="h-4 w-4 mr-1" />
+                          Download
+                        </a>
+                      </Button>
+                    ) : (
+                      <Badge variant={report.status === "failed" ? "destructive" : "secondary"}>
+                        {report.status === "failed" ? "Failed" : `${report.progress}%`}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
@@ -7,6 +7,7 @@ export interface DocMeta {
   fileType: string;
   downloadUrl: string;
   documentType?: string;
+  version?: number;
 }
 
 interface DocsCtx {
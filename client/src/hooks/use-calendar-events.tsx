@@ -4,6 +4,48 @@ import React from 'react';
 
 export type CalendarEventType = 'capital-call' | 'meeting' | 'closing';
 
+export type RsvpStatus = 'needs_action' | 'accepted' | 'declined' | 'tentative';
+
+export interface MeetingAttendee {
+  id: number;
+  userId: number | null;
+  email: string | null;
+  name: string | null;
+  role: 'organizer' | 'required' | 'optional';
+  rsvpStatus: RsvpStatus;
+}
+
+const RSVP_LABELS: Record<RsvpStatus, string> = {
+  needs_action: 'no response',
+  accepted: 'accepted',
+  declined: 'declined',
+  tentative: 'tentative'
+};
+
+/** "Jane Smith (organizer), Bob Lee (accepted)" */
+export function formatAttendees(attendees: MeetingAttendee[]): string {
+  return attendees
+    .map(attendee => `${attendee.name || attendee.email} (${attendee.role === 'organizer' ? 'organizer' : RSVP_LABELS[attendee.rsvpStatus]})`)
+    .join(', ');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RULE_LABELS: Record<string, string> = {
+  'FREQ=DAILY': 'Daily',
+  'FREQ=WEEKLY': 'Weekly',
+  'FREQ=WEEKLY;INTERVAL=2': 'Every 2 weeks',
+  'FREQ=MONTHLY': 'Monthly',
+  'FREQ=MONTHLY;INTERVAL=3': 'Quarterly',
+  'FREQ=MONTHLY;INTERVAL=6': 'Every 6 months',
+  'FREQ=YEARLY': 'Yearly'
+};
+
+/** "Weekly", "Quarterly"; COUNT/UNTIL and less common rules are shown as written */
+export function describeRecurrence(rule: string): string {
+  return RULE_LABELS[rule] ?? RULE_LABELS[rule.replace(/;(COUNT|UNTIL)=[^;]+/g, '')] ?? rule;
+}
+
 export interface CalendarEvent {
   id: number;
   title: string;
@@ -15,10 +57,16 @@ export interface CalendarEvent {
   amountType?: 'percentage' | 'currency';
   notes?: string;
   attendees?: string;
+  attendeeList?: MeetingAttendee[];
   dealName?: string;
   icon: React.ReactNode;
   color: string;
   detailItems?: {label: string; value: string}[];
+  /** Occurrences of recurring meetings and capital call schedules; `id` is the series' */
+  occurrenceDate?: string;
+  recurrenceRule?: string;
+  /** A scheduled capital call that has not been issued yet */
+  projected?: boolean;
 }
 
 /**
@@ -54,6 +102,29 @@ export function useCalendarEvents(dealId: number | undefined) {
     enabled: !!dealId
   });
   
+  // Occurrences of recurring meetings and projected capital calls, expanded by the server
+  const { 
+    data: recurringData, 
+    isLoading: isLoadingRecurring 
+  } = useQuery<{ events: any[] }>({
+    queryKey: ['/api/calendar/events', dealId, 'recurring'],
+    queryFn: async () => {
+      const now = Date.now();
+      const params = new URLSearchParams({
+        dealId: String(dealId),
+        startDate: new Date(now - 90 * DAY_MS).toISOString(),
+        endDate: new Date(now + 365 * DAY_MS).toISOString(),
+      });
+      params.append('eventTypes', 'meeting');
+      params.append('eventTypes', 'capital_call');
+
+      const response = await fetch(`/api/calendar/events?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch calendar events');
+      return response.json();
+    },
+    enabled: !!dealId
+  });
+  
   // Transform all data into a unified calendar event format
   const allEvents: CalendarEvent[] = React.useMemo(() => {
     const events: CalendarEvent[] = [];
@@ -79,19 +150,73 @@ export function useCalendarEvents(dealId: number | undefined) {
       });
     });
     
-    // Add meetings
-    (meetings as any[]).forEach((meeting) => {
+    // Add projected capital calls from schedules
+    const occurrences = (recurringData?.events || []).filter(event => event.occurrenceDate);
+    occurrences.filter(event => event.eventType === 'capital_call').forEach((event) => {
+      const metadata = event.metadata || {};
+      const isPercentage = metadata.amountType === 'percentage';
+      events.push({
+        id: event.id,
+        title: `Capital Call (${metadata.fundName})`,
+        date: event.startDate,
+        type: 'capital-call',
+        allocation: metadata.fundName,
+        amountValue: metadata.callAmount,
+        amountType: isPercentage ? 'percentage' : 'currency',
+        status: 'projected',
+        notes: event.description ?? undefined,
+        occurrenceDate: event.occurrenceDate,
+        projected: true,
+        icon: <DollarSign className="h-4 w-4" />,
+        color: 'bg-green-50 border-green-300 border-dashed',
+        detailItems: [
+          { label: 'Fund', value: metadata.fundName || 'N/A' },
+          { label: 'Amount', value: isPercentage ? `${metadata.callAmount}%` : `$${Number(metadata.callAmount || 0).toLocaleString()}` },
+          { label: 'Call date', value: new Date(metadata.callDate).toLocaleDateString() }
+        ]
+      });
+    });
+    
+    // Add meetings; a recurring meeting is listed once per occurrence instead of as its series row
+    const meetingsById = new Map((meetings as any[]).map(meeting => [meeting.id, meeting]));
+    occurrences.filter(event => event.eventType === 'meeting').forEach((event) => {
+      const series = meetingsById.get(event.id);
+      const attendeeList: MeetingAttendee[] = series?.attendeeList || [];
+      events.push({
+        id: event.id,
+        title: event.title,
+        date: event.startDate,
+        type: 'meeting',
+        attendees: event.metadata?.attendees,
+        attendeeList,
+        notes: event.description ?? undefined,
+        occurrenceDate: event.occurrenceDate,
+        recurrenceRule: event.metadata?.recurrenceRule,
+        icon: <Users className="h-4 w-4" />,
+        color: 'bg-blue-100 border-blue-600',
+        detailItems: [
+          { label: 'Repeats', value: describeRecurrence(event.metadata?.recurrenceRule || '') },
+          ...(event.metadata?.location ? [{ label: 'Location', value: event.metadata.location }] : []),
+          { label: 'Attendees', value: attendeeList.length ? formatAttendees(attendeeList) : event.metadata?.attendees || 'None specified' },
+          { label: 'Notes', value: event.description || 'No notes recorded' }
+        ]
+      });
+    });
+    (meetings as any[]).filter(meeting => !meeting.recurrenceRule).forEach((meeting) => {
+      const attendeeList: MeetingAttendee[] = meeting.attendeeList || [];
       events.push({
         id: meeting.id,
         title: meeting.title,
         date: meeting.date,
         type: 'meeting',
         attendees: meeting.attendees,
+        attendeeList,
         notes: meeting.notes,
         icon: <Users className="h-4 w-4" />,
         color: 'bg-blue-100 border-blue-600',
         detailItems: [
-          { label: 'Attendees', value: meeting.attendees || 'None specified' },
+          ...(meeting.location ? [{ label: 'Location', value: meeting.location }] : []),
+          { label: 'Attendees', value: attendeeList.length ? formatAttendees(attendeeList) : meeting.attendees || 'None specified' },
           { label: 'Notes', value: meeting.notes || 'No notes recorded' }
         ]
       });
@@ -124,7 +249,7 @@ export function useCalendarEvents(dealId: number | undefined) {
     
     // Sort by date (earliest first)
     return events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [capitalCalls, meetings, closingEvents]);
+  }, [capitalCalls, meetings, closingEvents, recurringData]);
   
   // Calculate event counts
   const counts = React.useMemo(() => ({
@@ -134,7 +259,7 @@ export function useCalendarEvents(dealId: number | undefined) {
     total: allEvents.length
   }), [allEvents]);
 
-  const isLoading = isLoadingCapitalCalls || isLoadingMeetings || isLoadingClosingEvents;
+  const isLoading = isLoadingCapitalCalls || isLoadingMeetings || isLoadingClosingEvents || isLoadingRecurring;
   
   return {
     capitalCalls,
@@ -0,0 +1,54 @@
+/**
+ * Pipeline hooks - Admin-defined deal pipelines and their ordered stages
+ * Stage pickers read stages from here instead of the hard-coded default list
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { PipelineStage, PipelineWithStages, StageGateRule } from '@shared/schema';
+
+export interface GateFailure {
+  rule: StageGateRule;
+  message: string;
+}
+
+export interface StageGateStatus {
+  stage: string;
+  label: string;
+  passed: boolean;
+  failures: GateFailure[];
+}
+
+export function usePipelines() {
+  return useQuery<PipelineWithStages[]>({
+    queryKey: ['/api/pipelines'],
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * The pipeline a deal follows (the default pipeline when it has none) and its stages
+ */
+export function useDealPipeline(deal?: { pipelineId?: number | null }) {
+  const { data: pipelines = [], isLoading } = usePipelines();
+  const pipeline = pipelines.find(candidate =>
+    deal?.pipelineId ? candidate.id === deal.pipelineId : candidate.isDefault
+  );
+  const stages: PipelineStage[] = pipeline?.stages ?? [];
+
+  return {
+    pipeline,
+    stages,
+    isLoading,
+    stageLabel: (key: string) => stages.find(stage => stage.key === key)?.label ?? key,
+  };
+}
+
+/**
+ * Gate results for each stage of a deal's pipeline
+ */
+export function useStageGates(dealId: number) {
+  return useQuery<StageGateStatus[]>({
+    queryKey: [`/api/deals/${dealId}/stage-gates`],
+    enabled: !!dealId,
+  });
+}
@@ -0,0 +1,62 @@
+import { useEffect } from 'react';
+import { useQueryClient, type Query } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+
+interface ActivityEvent {
+  dealIds: number[];
+  eventIds: number[];
+}
+
+const startsWithAny = (query: Query, prefixes: string[]) => {
+  const key = query.queryKey[0];
+  return typeof key === 'string' && prefixes.some(prefix => key.startsWith(prefix));
+};
+
+/**
+ * Keeps notifications, activity and capital call queries fresh from the server's
+ * `/api/events/stream` push channel. Mount once, inside AuthProvider.
+ */
+export function useRealtimeEvents() {
+  const { data: user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource('/api/events/stream', { withCredentials: true });
+    let connectedBefore = false;
+
+    const refreshNotifications = () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
+    };
+
+    source.addEventListener('ready', () => {
+      // After a dropped connection, catch up on anything pushed while we were away
+      if (connectedBefore) {
+        refreshNotifications();
+        queryClient.invalidateQueries({ queryKey: ['/api/activity'] });
+      }
+      connectedBefore = true;
+    });
+
+    source.addEventListener('notification', refreshNotifications);
+
+    source.addEventListener('activity', (event) => {
+      const { dealIds } = JSON.parse((event as MessageEvent).data) as ActivityEvent;
+      queryClient.invalidateQueries({ queryKey: ['/api/activity'] });
+      dealIds.forEach(dealId => {
+        queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/timeline`] });
+      });
+    });
+
+    source.addEventListener('capital_call', () => {
+      queryClient.invalidateQueries({
+        predicate: query => startsWithAny(query, ['/api/capital-calls', '/api/capital-call-management', '/api/allocations'])
+      });
+    });
+
+    return () => source.close();
+  }, [userId, queryClient]);
+}
@@ -1,6 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { readEventStream } from '@/lib/event-stream';
 
 // Shared types for AI Analysis
 export interface Deal {
@@ -20,6 +22,87 @@ export interface AnalysisMessage {
   timestamp: Date;
   role: 'user' | 'assistant'; // Added for OpenAI compatibility
   context?: AnalysisContext;
+  citations?: AnalysisCitation[];
+  /** Saved analysis this answer belongs to */
+  analysisId?: number;
+  /** Answers stream in; a cancelled answer keeps the text received before it was stopped */
+  status?: 'streaming' | 'completed' | 'cancelled' | 'failed';
+  /** Timeline event the answer was pinned to */
+  pinnedEventId?: number | null;
+  authorName?: string | null;
+}
+
+/** A saved conversation about a deal; private to its author until shared */
+export interface AnalysisThread {
+  id: number;
+  dealId: number;
+  title: string;
+  createdBy: number;
+  shared: boolean;
+  forkedFromThreadId: number | null;
+  createdAt: string;
+  updatedAt: string;
+  authorName: string | null;
+  messageCount: number;
+  lastMessageAt: string | null;
+}
+
+/** A saved question and answer of a thread */
+interface SavedAnalysis {
+  id: number;
+  threadId: number;
+  query: string | null;
+  response: string;
+  status: 'streaming' | 'completed' | 'cancelled' | 'failed';
+  citations: AnalysisCitation[] | null;
+  dataSourcesUsed: string[] | null;
+  pinnedEventId: number | null;
+  authorName: string | null;
+  createdAt: string;
+}
+
+// Turn a saved thread back into the messages of the conversation
+function threadMessages(analyses: SavedAnalysis[], dealName: string): AnalysisMessage[] {
+  return analyses.flatMap(analysis => {
+    const timestamp = new Date(analysis.createdAt);
+    const answer: AnalysisMessage = {
+      id: `ai-${analysis.id}`,
+      type: analysis.query ? 'ai' : 'analysis',
+      content: analysis.response,
+      timestamp,
+      role: 'assistant',
+      context: { dataSourcesUsed: analysis.dataSourcesUsed ?? [], dealName },
+      citations: analysis.citations ?? undefined,
+      analysisId: analysis.id,
+      status: analysis.status,
+      pinnedEventId: analysis.pinnedEventId,
+      authorName: analysis.authorName
+    };
+    // A full analysis is asked for with a button rather than a question
+    return analysis.query
+      ? [{ id: `user-${analysis.id}`, type: 'user' as const, content: analysis.query, timestamp, role: 'user' as const, authorName: analysis.authorName }, answer]
+      : [answer];
+  });
+}
+
+async function responseBody(res: Response, fallback: string) {
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || body.message || fallback);
+  }
+  return body;
+}
+
+/** A document excerpt an answer cites with an [n] marker */
+export interface AnalysisCitation {
+  index: number;
+  documentId: number;
+  fileName: string;
+  page: number | null;
+  sheet: string | null;
+  rowStart: number | null;
+  rowEnd: number | null;
+  excerpt: string;
 }
 
 export interface AnalysisContext {
@@ -43,7 +126,10 @@ export function useAIAnalysis(options: AIAnalysisHookOptions = {}) {
   const [messages, setMessages] = useState<AnalysisMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isGeneratingAnalysis, setIsGeneratingAnalysis] = useState(false);
+  // The saved thread the conversation belongs to; null until the first answer starts one
+  const [threadId, setThreadId] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -53,42 +139,109 @@ export function useAIAnalysis(options: AIAnalysisHookOptions = {}) {
     enabled: !!dealId
   });
 
-  // AI Analysis mutation
+  const threadsKey = [`/api/v1/ai-analysis/deals/${dealId}/threads`];
+  const { data: threads = [], isLoading: threadsLoading } = useQuery<AnalysisThread[]>({
+    queryKey: threadsKey,
+    enabled: !!dealId
+  });
+  const activeThread = threads.find(thread => thread.id === threadId) ?? null;
+
+  const updateMessage = (id: string, update: (message: AnalysisMessage) => Partial<AnalysisMessage>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...update(message) } : message));
+  };
+
+  // AI Analysis mutation; the answer streams into its message as the model writes it
   const aiAnalysisMutation = useMutation({
     mutationFn: async ({ query, targetDealId }: { query?: string; targetDealId?: number }) => {
       const activeDealId = targetDealId || dealId;
       if (!activeDealId) {
         throw new Error('Please select a deal first');
       }
-      
-      const response = await fetch(`/api/v1/ai-analysis/deals/${activeDealId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        credentials: 'include',
-        body: JSON.stringify({ query })
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Failed to analyze deal');
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const messageId = `ai-${Date.now()}`;
+      let result: any = null;
+
+      try {
+        const response = await fetch(`/api/v1/ai-analysis/deals/${activeDealId}/stream`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          credentials: 'include',
+          // A follow-up in the same thread is answered with the earlier answers in mind
+          body: JSON.stringify({ query, threadId: activeDealId === dealId ? threadId ?? undefined : undefined }),
+          signal: controller.signal
+        });
+        
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.message || 'Failed to analyze deal');
+        }
+
+        await readEventStream(response, (event, data) => {
+          if (event === 'start') {
+            setThreadId(data.threadId);
+            setMessages(prev => [...prev, {
+              id: messageId,
+              type: query ? 'ai' : 'analysis',
+              content: '',
+              timestamp: new Date(),
+              role: 'assistant',
+              context: data.context,
+              analysisId: data.analysisId,
+              status: 'streaming'
+            }]);
+          } else if (event === 'delta') {
+            updateMessage(messageId, message => ({ content: message.content + data.text }));
+          } else if (event === 'done') {
+            result = data;
+            updateMessage(messageId, () => ({
+              content: data.response,
+              citations: data.citations,
+              context: data.context,
+              status: data.status
+            }));
+          } else if (event === 'error') {
+            throw new Error(data.message || 'Failed to analyze deal');
+          }
+        });
+      } catch (error) {
+        // Stopped by the user: the server keeps the partial answer, and so does the conversation
+        if (controller.signal.aborted) {
+          updateMessage(messageId, () => ({ status: 'cancelled' }));
+          return { status: 'cancelled', query };
+        }
+        throw error;
+      } finally {
+        abortControllerRef.current = null;
+        queryClient.invalidateQueries({ queryKey: [`/api/v1/ai-analysis/deals/${activeDealId}/threads`] });
       }
-      
-      return response.json();
+
+      if (!result) {
+        throw new Error('The analysis ended before the answer was complete');
+      }
+      return result;
     },
     onSuccess: (data: any) => {
-      const aiMessage: AnalysisMessage = {
-        id: `ai-${Date.now()}`,
-        type: data.query ? 'ai' : 'analysis',
-        content: data.analysis || data.response || data.content,
-        timestamp: new Date(),
-        role: 'assistant',
-        context: data.context
-      };
-      
-      setMessages(prev => [...prev, aiMessage]);
       setIsGeneratingAnalysis(false);
+
+      if (data.status === 'cancelled') {
+        toast({
+          title: "Analysis Stopped",
+          description: "The partial answer was kept.",
+        });
+        return;
+      }
+      if (data.status === 'failed') {
+        toast({
+          title: "Analysis Incomplete",
+          description: data.error || "The answer stopped before it was complete",
+          variant: "destructive"
+        });
+        return;
+      }
       
       if (onAnalysisComplete) {
         onAnalysisComplete(data);
@@ -119,13 +272,80 @@ export function useAIAnalysis(options: AIAnalysisHookOptions = {}) {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Clear messages when deal changes
+  // Clear messages when deal changes; threads belong to one deal
   useEffect(() => {
+    setThreadId(null);
     if (dealId && !options.persistMessages) {
       setMessages([]);
     }
   }, [dealId, options.persistMessages]);
 
+  // Continue a saved thread
+  const openThread = async (id: number) => {
+    try {
+      const res = await fetch(`/api/v1/ai-analysis/threads/${id}`, { credentials: 'include' });
+      const thread = await responseBody(res, 'Failed to open the thread');
+      setThreadId(thread.id);
+      setMessages(threadMessages(thread.analyses, dealName || ''));
+    } catch (error: any) {
+      toast({
+        title: "Thread Unavailable",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateThreadMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: number; title?: string; shared?: boolean }) => {
+      return responseBody(await apiRequest('PATCH', `/api/v1/ai-analysis/threads/${id}`, changes), 'Failed to update the thread');
+    },
+    onSuccess: (thread: AnalysisThread, changes) => {
+      queryClient.invalidateQueries({ queryKey: threadsKey });
+      if (changes.shared !== undefined) {
+        toast({
+          title: thread.shared ? "Thread Shared" : "Thread Private",
+          description: thread.shared ? "Colleagues can now read this thread." : "Only you can see this thread now.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Copy the thread, up to an answer when given, into a new thread of the user and continue there
+  const forkThreadMutation = useMutation({
+    mutationFn: async ({ id, upToAnalysisId }: { id: number; upToAnalysisId?: number }) => {
+      return responseBody(
+        await apiRequest('POST', `/api/v1/ai-analysis/threads/${id}/fork`, { upToAnalysisId }),
+        'Failed to fork the thread'
+      );
+    },
+    onSuccess: async (thread: AnalysisThread) => {
+      queryClient.invalidateQueries({ queryKey: threadsKey });
+      await openThread(thread.id);
+      toast({ title: "Thread Forked", description: `Continuing in "${thread.title}".` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fork Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const pinAnalysisMutation = useMutation({
+    mutationFn: async (analysisId: number) => {
+      return responseBody(await apiRequest('POST', `/api/v1/ai-analysis/analyses/${analysisId}/pin`), 'Failed to pin the answer');
+    },
+    onSuccess: (event: { id: number }, analysisId) => {
+      setMessages(prev => prev.map(message => message.analysisId === analysisId ? { ...message, pinnedEventId: event.id } : message));
+      queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/timeline`] });
+      toast({ title: "Pinned to Timeline", description: "The answer was added to the deal timeline." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Pin Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
   // Send message function
   const sendMessage = async (messageText?: string, targetDealId?: number) => {
     const text = messageText || inputValue.trim();
@@ -166,9 +386,18 @@ export function useAIAnalysis(options: AIAnalysisHookOptions = {}) {
     await aiAnalysisMutation.mutateAsync({ targetDealId: targetDealId || dealId });
   };
 
-  // Clear conversation
+  // Stop the answer being generated
+  const cancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Stop a streaming answer when the component using the hook goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Clear conversation; the next question starts a new thread
   const clearMessages = () => {
     setMessages([]);
+    setThreadId(null);
   };
 
   return {
@@ -178,6 +407,9 @@ export function useAIAnalysis(options: AIAnalysisHookOptions = {}) {
     isGeneratingAnalysis,
     contextData,
     contextLoading,
+    threads,
+    threadsLoading,
+    activeThread,
     
     // Refs
     messagesEndRef,
@@ -186,10 +418,18 @@ export function useAIAnalysis(options: AIAnalysisHookOptions = {}) {
     setInputValue,
     sendMessage,
     generateAnalysis,
+    cancelAnalysis,
     clearMessages,
+    openThread,
+    renameThread: (id: number, title: string) => updateThreadMutation.mutate({ id, title }),
+    shareThread: (id: number, shared: boolean) => updateThreadMutation.mutate({ id, shared }),
+    forkThread: (id: number, upToAnalysisId?: number) => forkThreadMutation.mutate({ id, upToAnalysisId }),
+    pinAnalysis: (analysisId: number) => pinAnalysisMutation.mutate(analysisId),
     
     // Mutation state
     isAnalyzing: aiAnalysisMutation.isPending,
+    isForking: forkThreadMutation.isPending,
+    isPinning: pinAnalysisMutation.isPending,
     analysisError: aiAnalysisMutation.error
   };
 }
\ No newline at end of file
@@ -9,6 +9,7 @@ interface Document {
   fileSize: number;
   documentType: string;
   uploadedAt: string;
+  version: number;
 }
 
 /**
@@ -62,6 +63,7 @@ export function useDealDocuments(dealId: number | undefined) {
         fileType: doc.fileType,
         downloadUrl: `/api/documents/${doc.id}/download`,
         documentType: doc.documentType,
+        version: doc.version,
       }));
       
       // Update docs state
@@ -69,9 +71,12 @@ export function useDealDocuments(dealId: number | undefined) {
       
       // Preserve current selection if it's still valid, otherwise auto-select first
       if (docMetas.length > 0) {
-        const currentStillValid = current && docMetas.some(doc => doc.id === current.id);
-        if (!current || !currentStillValid) {
+        const refreshed = current && docMetas.find(doc => doc.id === current.id);
+        if (!current || !refreshed) {
           setCurrent(docMetas[0]);
+        } else if (refreshed.version !== current.version || refreshed.fileName !== current.fileName) {
+          // A new version was uploaded or restored; point the viewer at the current file
+          setCurrent(refreshed);
         }
       } else {
         setCurrent(null);
@@ -19,8 +19,26 @@ export interface FundOverviewData {
   totalPaid: number;
   totalMarketValue: number;
   portfolioMoic: number;
+  irr: number | null; // Fund XIRR as a percentage, null until enough cash-flow history exists
   totalInterestPaid: number;
   totalDistributionPaid: number;
+  feesCharged: number; // Net management fees accrued to date
+}
+
+export interface NavQuarterData {
+  periodStart: string;
+  periodEnd: string;
+  openingNav: number;
+  contributions: number;
+  distributions: number;
+  unrealizedChange: number;
+  closingNav: number;
+}
+
+export interface NavRollforwardData {
+  fundId: number;
+  asOfDate: string;
+  quarters: NavQuarterData[];
 }
 
 /**
@@ -44,6 +62,16 @@ export function useAllFundsOverview() {
   });
 }
 
+/**
+ * Fetch the quarterly NAV roll-forward for a fund
+ */
+export function useFundNavRollforward(fundId: number | string) {
+  return useQuery<NavRollforwardData>({
+    queryKey: [`/api/fund-overview/${fundId}/nav`],
+    enabled: !!fundId,
+  });
+}
+
 /**
  * Format numbers for display
  */
@@ -0,0 +1,54 @@
+/**
+ * Hooks for fund performance multiples and benchmark indices
+ */
+
+import { useQuery } from '@tanstack/react-query';
+
+export interface PerformancePointData {
+  date: string;
+  paidIn: number;
+  distributed: number;
+  nav: number;
+  tvpi: number | null;
+  dpi: number | null;
+  rvpi: number | null;
+  pme: number | null; // Kaplan-Schoar PME, null without a benchmark or when the index doesn't cover the cash flows
+}
+
+export interface FundPerformanceData extends PerformancePointData {
+  fundId: number;
+  benchmark: { id: number; name: string } | null;
+  history: PerformancePointData[];
+}
+
+export interface BenchmarkIndex {
+  id: number;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fetch TVPI, DPI, RVPI and optionally KS-PME for a fund
+ */
+export function useFundPerformance(fundId: number | string, benchmarkId?: number | null, asOf?: string) {
+  const params = new URLSearchParams();
+  if (benchmarkId) params.set('benchmarkId', String(benchmarkId));
+  if (asOf) params.set('asOf', asOf);
+  const query = params.toString();
+
+  return useQuery<FundPerformanceData>({
+    queryKey: [`/api/fund-performance/${fundId}${query ? `?${query}` : ''}`],
+    enabled: !!fundId,
+  });
+}
+
+/**
+ * Fetch imported benchmark indices
+ */
+export function useBenchmarks() {
+  return useQuery<BenchmarkIndex[]>({
+    queryKey: ['/api/fund-performance/benchmarks'],
+  });
+}
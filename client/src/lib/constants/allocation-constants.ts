@@ -63,3 +63,11 @@ export const ALLOCATION_DEFAULTS = {
   INITIAL_IRR: 0, // Internal Rate of Return starts at 0%
   PAID_AMOUNT: 0 // Initially no amount paid
 };
+
+// How a market value was determined; recorded with the valuation mark when an allocation's market value changes
+export const VALUATION_METHOD_LABELS = {
+  cost: 'Cost',
+  last_round: 'Last Round',
+  dcf: 'Discounted Cash Flow',
+  comparables: 'Comparables'
+} as const;
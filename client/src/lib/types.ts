@@ -23,7 +23,9 @@ export interface Deal {
   name: string;
   description: string;
   sector: string;
-  stage: "initial_review" | "screening" | "diligence" | "ic_review" | "closing" | "closed" | "invested" | "rejected";
+  pipelineId?: number | null; // Null means the default pipeline
+  stage: string; // Key of a stage in the deal's pipeline
+  boardPosition?: number | null; // Order within its kanban column
   stageLabel?: string; // Frontend computed property
   round: string | null;
   targetRaise?: string | null;
@@ -67,7 +69,7 @@ export interface Deal {
 export interface TimelineEvent {
   id: number;
   dealId: number;
-  eventType: "note" | "stage_change" | "document_upload" | "memo_added" | "star_added" | "ai_analysis" | "deal_creation" | "closing_scheduled";
+  eventType: "note" | "stage_change" | "document_upload" | "memo_added" | "star_added" | "ai_analysis" | "deal_creation" | "closing_scheduled" | "email_received" | "meeting_scheduled";
   content: string;
   createdBy: number;
   createdAt: string;
@@ -151,6 +153,7 @@ export interface FundAllocation {
   deal?: Deal; // Related deal object
   dealName?: string; // Deal name for display
   dealSector?: string; // Deal sector for display
+  fundName?: string; // Fund name for display
   weight?: number; // Legacy field for compatibility - same as portfolioWeight
 }
 
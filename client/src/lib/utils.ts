@@ -16,7 +16,8 @@ export function cn(...inputs: ClassValue[]) {
 export function enrichDealWithComputedProps(deal: Deal): Deal {
   return {
     ...deal,
-    stageLabel: DealStageLabels[deal.stage as keyof typeof DealStageLabels] || deal.stage,
+    // The server labels stages from the deal's own pipeline
+    stageLabel: deal.stageLabel || DealStageLabels[deal.stage as keyof typeof DealStageLabels] || deal.stage,
   }
 }
 
@@ -39,8 +39,9 @@ export function formatBytes(bytes: number, decimals: number = 2): string {
 }
 
 // Get the badge class for a deal stage
-export function getDealStageBadgeClass(stage: string): string {
-  const stageColor = DealStageColors[stage as keyof typeof DealStageColors] || 'neutral';
+export function getDealStageBadgeClass(stage: string, color?: string): string {
+  // Pipelines give each stage a color; the default stage colors cover deals without one
+  const stageColor = color || DealStageColors[stage] || 'neutral';
   
   switch (stageColor) {
     case 'neutral':
@@ -5,7 +5,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Bot, Send, FileText, Database, TrendingUp, Loader2, Brain, Search, Sparkles, BarChart3, MessageSquare, DollarSign, Trash2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { Bot, Send, FileText, Database, TrendingUp, Loader2, Brain, Search, Sparkles, BarChart3, MessageSquare, DollarSign, Trash2, AlertTriangle, RefreshCw, Square } from 'lucide-react';
 import { Input } from "@/components/ui/input";
 import { useQuery } from '@tanstack/react-query';
 import FormattedText from "@/components/common/FormattedText";
@@ -36,6 +36,7 @@ export default function AIAnalysis() {
     setInputValue,
     sendMessage,
     generateAnalysis,
+    cancelAnalysis,
     clearMessages,
     messagesEndRef,
     isGeneratingAnalysis,
@@ -315,17 +316,19 @@ export default function AIAnalysis() {
                     disabled={isGeneratingAnalysis}
                     className="flex-1"
                   />
-                  <Button 
-                    type="submit" 
-                    disabled={!inputValue.trim() || isGeneratingAnalysis}
-                    size="sm"
-                  >
-                    {isGeneratingAnalysis ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
+                  {isGeneratingAnalysis ? (
+                    <Button type="button" onClick={cancelAnalysis} variant="outline" size="sm" title="Stop the answer">
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button 
+                      type="submit" 
+                      disabled={!inputValue.trim()}
+                      size="sm"
+                    >
                       <Send className="h-4 w-4" />
-                    )}
-                  </Button>
+                    </Button>
+                  )}
                 </form>
               </div>
             </Card>
@@ -30,6 +30,8 @@ import { Button } from '@/components/ui/button';
 import { Loader2, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import AppLayout from '@/components/layout/AppLayout';
 import UnifiedEventForm from '@/components/calendar/UnifiedEventForm';
+import CalendarFeedsDialog from '@/components/calendar/CalendarFeedsDialog';
+import ImportMeetingsDialog from '@/components/meetings/ImportMeetingsDialog';
 import { useAuth } from '@/hooks/use-auth';
 
 interface CapitalCall {
@@ -59,6 +61,8 @@ interface Meeting {
   createdAt: string;
   updatedAt: string;
   dealName: string; // Added through API join
+  recurrenceRule?: string | null; // Set on a recurring series
+  occurrenceDate?: string; // Set on an occurrence expanded from a series
 }
 
 interface ClosingScheduleEvent {
@@ -105,10 +109,41 @@ const CalendarPage = () => {
   });
   
   // Fetch deal meetings
-  const { data: meetings = [], isLoading: isLoadingMeetings } = useQuery<Meeting[]>({
+  const { data: meetingRows = [], isLoading: isLoadingMeetings } = useQuery<Meeting[]>({
     queryKey: ['/api/meetings'],
   });
   
+  // Occurrences of recurring meetings, expanded by the server for the year around today
+  const { data: meetingOccurrences } = useQuery<{ events: any[] }>({
+    queryKey: ['/api/calendar/events', 'meeting-occurrences'],
+    queryFn: async () => {
+      const now = Date.now();
+      const params = new URLSearchParams({
+        eventTypes: 'meeting',
+        startDate: new Date(now - 180 * 24 * 60 * 60 * 1000).toISOString(),
+        endDate: new Date(now + 365 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      const response = await fetch(`/api/calendar/events?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch meeting occurrences');
+      return response.json();
+    },
+  });
+  
+  // Single meetings plus one entry per occurrence in place of each series row
+  const meetings = React.useMemo<Meeting[]>(() => {
+    const seriesById = new Map(meetingRows.map(meeting => [meeting.id, meeting]));
+    const occurrences = (meetingOccurrences?.events || [])
+      .filter(event => event.occurrenceDate && seriesById.has(event.id))
+      .map(event => ({
+        ...seriesById.get(event.id)!,
+        title: event.title,
+        date: new Date(event.startDate).toISOString(),
+        notes: event.description,
+        occurrenceDate: event.occurrenceDate,
+      }));
+    return [...meetingRows.filter(meeting => !meeting.recurrenceRule), ...occurrences];
+  }, [meetingRows, meetingOccurrences]);
+  
   const isLoading = isLoadingCalls || isLoadingEvents || isLoadingMeetings;
   
   // Debug authentication state
@@ -335,6 +370,10 @@ const CalendarPage = () => {
               <Plus className="h-4 w-4 mr-1" />
               Add Event
             </Button>
+
+            <ImportMeetingsDialog />
+
+            <CalendarFeedsDialog />
             
             <Select value={activeTab} onValueChange={setActiveTab}>
               <SelectTrigger className="w-[180px]">
@@ -645,7 +684,7 @@ const CalendarPage = () => {
                           </h3>
                           <div className="space-y-2">
                             {filteredMeetings.map(meeting => (
-                              <Card key={meeting.id} className="overflow-hidden border-l-4 border-l-pink-500">
+                              <Card key={`${meeting.id}-${meeting.occurrenceDate ?? ''}`} className="overflow-hidden border-l-4 border-l-pink-500">
                                 <CardContent className="p-3">
                                   <div className="flex items-center justify-between mb-2">
                                     <div className="font-medium">{meeting.title}</div>
@@ -8,6 +8,8 @@ import EditDealModal from "@/components/deals/EditDealModal";
 import AssignUserModal from "@/components/deals/AssignUserModal";
 import AllocateFundModal from "@/components/deals/AllocateFundModal";
 import StageProgression from "@/components/deals/StageProgression";
+import IcVotePanel from "@/components/deals/IcVotePanel";
+import TermSheetReviewPanel from "@/components/deals/TermSheetReviewPanel";
 import { DocumentsTab } from "@/components/documents/DocumentsTab";
 import { MiniMemoForm } from "@/components/memos/MiniMemoForm";
 import { MiniMemoDisplay } from "@/components/memos/MiniMemoDisplay";
@@ -65,6 +67,7 @@ import {
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useDealPipeline, useStageGates } from "@/hooks/use-pipelines";
 import { 
   ChevronLeft, 
   ChevronDown,
@@ -80,7 +83,8 @@ import {
   Calendar, 
   Mail,
   BarChart4,
-  Trash2
+  Trash2,
+  Lock
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { getDealStageBadgeClass } from "@/lib/utils/format";
@@ -140,6 +144,10 @@ export default function DealDetail() {
   
   // Apply computed properties to deal data
   const deal = rawDeal;
+
+  // Stages of the deal's pipeline, with which gates the deal does not pass yet
+  const { stages } = useDealPipeline(deal);
+  const { data: stageGates } = useStageGates(Number(dealId));
   
   // Get the stars for this deal to check if current user has starred it
   const { data: stars = [] } = useQuery({
@@ -217,7 +225,14 @@ export default function DealDetail() {
   
   const updateDealMutation = useMutation({
     mutationFn: async (dealUpdate: { id: number, [key: string]: any }) => {
-      return apiRequest("PATCH", `/api/deals/${dealUpdate.id}`, dealUpdate);
+      const res = await apiRequest("PATCH", `/api/deals/${dealUpdate.id}`, dealUpdate);
+
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        // Failed stage gates come back as one message listing what is missing
+        throw new Error(body.message || "Failed to update deal. Please try again.");
+      }
+      return body;
     },
     onSuccess: async () => {
       toast({
@@ -230,11 +245,12 @@ export default function DealDetail() {
       await queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
       await queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/timeline`] });
       await queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      await queryClient.invalidateQueries({ queryKey: [`/api/deals/${dealId}/stage-gates`] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update deal. Please try again.",
+        description: error.message,
         variant: "destructive"
       });
     }
@@ -287,7 +303,7 @@ export default function DealDetail() {
 
     updateDealMutation.mutate({ 
       id: Number(dealId),
-      stage: "rejected", 
+      stage: stages.find(stage => stage.category === "rejected")?.key ?? "rejected", 
       rejectionReason: displayReason,
       rejectionCategory: rejectionData.category,
       rejectionData: fullRejectionData
@@ -455,7 +471,7 @@ export default function DealDetail() {
             <div className="flex flex-col sm:flex-row justify-between items-start gap-4 sm:gap-0">
               <div>
                 <div className="flex items-center gap-2 mb-2">
-                  <Badge className={`${getDealStageBadgeClass(deal?.stage || '')} text-xs sm:text-sm px-2 py-0.5`}>
+                  <Badge className={`${getDealStageBadgeClass(deal?.stage || '', stages.find(stage => stage.key === deal?.stage)?.color)} text-xs sm:text-sm px-2 py-0.5`}>
                     {deal?.stageLabel}
                   </Badge>
                   {canEdit('deal') && (
@@ -468,32 +484,36 @@ export default function DealDetail() {
                       <DropdownMenuContent align="start" className="w-56">
                         <DropdownMenuLabel className="text-xs">Change stage to:</DropdownMenuLabel>
                         <DropdownMenuSeparator />
-                        {Object.entries(DEAL_STAGES).map(([key, value]) => (
-                          <DropdownMenuItem 
-                            key={key}
-                            disabled={deal?.stage === value}
-                            onClick={() => {
-                              if (dealId && deal?.stage !== value) {
-                                if (value === "rejected") {
-                                  setShowRejectionDialog(true);
-                                } else {
-                                  updateDealMutation.mutate({ 
-                                    id: Number(dealId), 
-                                    stage: value 
-                                  });
+                        {stages.map((stage) => {
+                          const gate = stageGates?.find(status => status.stage === stage.key);
+                          return (
+                            <DropdownMenuItem 
+                              key={stage.key}
+                              disabled={deal?.stage === stage.key}
+                              onClick={() => {
+                                if (dealId && deal?.stage !== stage.key) {
+                                  if (stage.category === "rejected") {
+                                    setShowRejectionDialog(true);
+                                  } else {
+                                    updateDealMutation.mutate({ 
+                                      id: Number(dealId), 
+                                      stage: stage.key 
+                                    });
+                                  }
                                 }
-                              }
-                            }}
-                            className="text-xs flex items-center justify-between px-3 py-1.5"
-                          >
-                            <div className="flex items-center gap-2 flex-1 min-w-0">
-                              <Badge className={`${getDealStageBadgeClass(value)} text-xs px-1.5 py-0 whitespace-nowrap`}>
-                                {key.replace(/_/g, ' ')}
-                              </Badge>
-                              <span className="truncate">{key.replace(/_/g, ' ')}</span>
-                            </div>
-                          </DropdownMenuItem>
-                        ))}
+                              }}
+                              title={gate && !gate.passed ? gate.failures.map(failure => failure.message).join("; ") : undefined}
+                              className="text-xs flex items-center justify-between px-3 py-1.5"
+                            >
+                              <div className="flex items-center gap-2 flex-1 min-w-0">
+                                <Badge className={`${getDealStageBadgeClass(stage.key, stage.color)} text-xs px-1.5 py-0 whitespace-nowrap`}>
+                                  {stage.label}
+                                </Badge>
+                              </div>
+                              {gate && !gate.passed && <Lock className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+                            </DropdownMenuItem>
+                          );
+                        })}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   )}
@@ -752,11 +772,21 @@ export default function DealDetail() {
               </CardContent>
             </Card>
             </div>
+            {deal && (
+              <div className="mt-4">
+                <IcVotePanel dealId={deal.id} />
+              </div>
+            )}
           </TabsContent>
           
           <TabsContent value="documents">
             <div className="mt-4">
               {deal && <DocumentsTab dealId={deal.id} />}
+              {deal && (
+                <div className="mt-4">
+                  <TermSheetReviewPanel dealId={deal.id} />
+                </div>
+              )}
             </div>
           </TabsContent>
           
@@ -72,6 +72,8 @@ import { format } from "date-fns";
 import { formatCurrency } from "@/lib/services/formatters";
 import FundSectorDistribution from "@/components/funds/FundSectorDistribution";
 import CalledCapitalRatio from "@/components/funds/CalledCapitalRatio";
+import FundNavRollforward from "@/components/funds/FundNavRollforward";
+import FundPerformanceChart from "@/components/funds/FundPerformanceChart";
 import ModularTable from "@/components/ui/ModularTable";
 import { 
   calculateAllocationCapitalMetrics, 
@@ -94,8 +96,11 @@ import { TABLE_CONFIGS } from "@/lib/services/tableConfig";
 import { DistributionsManagementHub } from '@/components/distributions/DistributionsManagementHub';
 import { AddCapitalCallForm } from '@/components/capitalcalls/AddCapitalCallForm';
 import { CapitalCallsPopup } from '@/components/capitalcalls/CapitalCallsPopup';
+import { ValuationMethodSelect } from '@/components/allocations';
 // Import local types instead of schema types to ensure consistency
 import { Fund, FundAllocation, Deal } from "@/lib/types";
+import type { FundOverviewData } from "@/hooks/useFundOverview";
+import type { ValuationMethod } from "@shared/schema";
 
 export default function FundDetail() {
   const [, params] = useRoute("/funds/:id");
@@ -122,6 +127,7 @@ export default function FundDetail() {
   
   // State for allocation being edited
   const [editingAllocation, setEditingAllocation] = useState<EditingAllocation | null>(null);
+  const [valuationMethod, setValuationMethod] = useState<ValuationMethod | undefined>();
   
   // State for capital metrics toggle
   const [capitalView, setCapitalView] = useState<'total' | 'called' | 'uncalled'>('total');
@@ -174,6 +180,12 @@ export default function FundDetail() {
     enabled: !!fundId,
   });
 
+  // Fetch fund overview for metrics solved server-side (fund XIRR)
+  const { data: fundOverview } = useQuery<FundOverviewData>({
+    queryKey: [`/api/fund-overview/${fundId}`],
+    enabled: !!fundId,
+  });
+
   // Fetch all allocations for this fund
   const { data: allocations, isLoading: isAllocationsLoading } = useQuery<FundAllocation[]>({
     queryKey: [`/api/production/allocations/fund/${fundId}`],
@@ -314,7 +326,7 @@ export default function FundDetail() {
         throw new Error("No allocation selected for editing.");
       }
       
-      const res = await apiRequest("PUT", `/api/production/allocations/${editingAllocation.id}`, editingAllocation);
+      const res = await apiRequest("PUT", `/api/production/allocations/${editingAllocation.id}`, { ...editingAllocation, valuationMethod });
       return await res.json();
     },
     onSuccess: () => {
@@ -351,10 +363,15 @@ export default function FundDetail() {
         ...allocation,
         dealName: deal?.name || 'Unknown Deal'
       });
+      setValuationMethod(undefined);
       setIsEditAllocationDialogOpen(true);
     }
   };
 
+  // A changed market value is recorded as a valuation mark, which needs its method
+  const originalMarketValue = allocations?.find(a => a.id === editingAllocation?.id)?.marketValue || 0;
+  const marketValueChanged = !!editingAllocation && (editingAllocation.marketValue || 0) !== originalMarketValue;
+
   // Handler for saving edited allocation
   const handleSaveAllocation = () => {
     updateAllocation.mutate();
@@ -886,6 +903,14 @@ export default function FundDetail() {
                         />
                       </div>
                     </div>
+
+                    {marketValueChanged && (
+                      <ValuationMethodSelect
+                        id="edit-valuationMethod"
+                        value={valuationMethod}
+                        onChange={setValuationMethod}
+                      />
+                    )}
                     
                     <div className="space-y-2">
                       <label htmlFor="edit-irr" className="text-sm font-medium">IRR (%)</label>
@@ -926,7 +951,7 @@ export default function FundDetail() {
                   </Button>
                   <Button 
                     onClick={handleSaveAllocation}
-                    disabled={updateAllocation.isPending}
+                    disabled={updateAllocation.isPending || (marketValueChanged && !valuationMethod)}
                   >
                     {updateAllocation.isPending ? "Saving..." : "Save Changes"}
                   </Button>
@@ -1108,6 +1133,20 @@ export default function FundDetail() {
                         )}
                       </div>
                     </div>
+
+                    <div className="bg-primary/5 p-3 sm:p-4 rounded-lg">
+                      <p className="text-xs sm:text-sm text-neutral-600 mb-1">Called Capital</p>
+                      <p className="text-lg sm:text-xl font-semibold">
+                        {formatCurrency(fundOverview?.called)}
+                      </p>
+                    </div>
+
+                    <div className="bg-primary/5 p-3 sm:p-4 rounded-lg">
+                      <p className="text-xs sm:text-sm text-neutral-600 mb-1">Management Fees Charged</p>
+                      <p className="text-lg sm:text-xl font-semibold">
+                        {formatCurrency(fundOverview?.feesCharged)}
+                      </p>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -1131,6 +1170,14 @@ export default function FundDetail() {
                 capitalView={capitalView}
               />
             </div>
+
+            {/* Fund Performance and NAV Roll-forward */}
+            {fundId && (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mb-8">
+                <FundPerformanceChart fundId={fundId} />
+                <FundNavRollforward fundId={fundId} />
+              </div>
+            )}
             
             {/* Actions Section removed - buttons moved to the top of the page */}
             
@@ -1398,6 +1445,8 @@ export default function FundDetail() {
                             return sum + ((allocation.irr || 0) * (allocation.amount || 0));
                           }, 0);
                           const weightedAvgIrr = fundMetrics.committedAmount > 0 ? totalIrr / fundMetrics.committedAmount : 0;
+                          // Prefer the fund-level XIRR over the commitment-weighted average when available
+                          const fundIrr = fundOverview?.irr ?? weightedAvgIrr;
                           
                           return (
                             <TableRow className="bg-gray-50 border-t-2 border-gray-200 font-semibold">
@@ -1423,7 +1472,7 @@ export default function FundDetail() {
                                 {weightedAvgMoic.toFixed(2)}x
                               </TableCell>
                               <TableCell className="py-3 px-2 sm:px-4 text-right font-bold text-gray-800">
-                                {weightedAvgIrr.toFixed(2)}%
+                                {Number(fundIrr).toFixed(2)}%
                               </TableCell>
                               <TableCell className="py-3 px-2 sm:px-4"></TableCell>
                             </TableRow>
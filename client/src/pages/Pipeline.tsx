@@ -1,6 +1,5 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { generateDealNotification } from "@/lib/utils/notification-utils";
 import AppLayout from "@/components/layout/AppLayout";
 import DealCard from "@/components/deals/DealCard";
 import DealsTable from "@/components/deals/DealsTable";
@@ -11,6 +10,7 @@ import PipelineStats from "@/components/pipeline/PipelineStats";
 import StageDistribution from "@/components/pipeline/StageDistribution";
 import RejectedStageDistribution from "@/components/pipeline/RejectedStageDistribution";
 import SectorDistribution from "@/components/pipeline/SectorDistribution";
+import KanbanBoard from "@/components/pipeline/KanbanBoard";
 import { Button } from "@/components/ui/button";
 import { Select, SelectItem, SelectTrigger, SelectValue, SelectContent } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
@@ -109,18 +109,6 @@ export default function Pipeline() {
         variant: "success"
       });
       
-      // Create notification for stage change
-      try {
-        // Pass the new stage to the notification function
-        await generateDealNotification(1, data.name, 'moved', data.id, data.stage);
-        
-        // Refresh notifications in the UI
-        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
-      } catch (err) {
-        // Silent fail for notifications - non-critical
-      }
-      
       // Refresh deals data
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
     },
@@ -163,15 +151,6 @@ export default function Pipeline() {
         variant: "success"
       });
       
-      // Create notification for rejection
-      try {
-        await generateDealNotification(1, data.name, 'moved', data.id, 'rejected');
-        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
-      } catch (err) {
-        console.error('Failed to create notification:', err);
-      }
-      
       // Refresh deals data
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
     },
@@ -364,6 +343,7 @@ export default function Pipeline() {
           <div className="overflow-x-auto pb-2">
             <TabsList className="flex-wrap">
               <TabsTrigger value="all" className="text-xs sm:text-sm py-1.5 px-2.5 sm:px-3">All Deals</TabsTrigger>
+              <TabsTrigger value="board" className="text-xs sm:text-sm py-1.5 px-2.5 sm:px-3">Board</TabsTrigger>
               {Object.entries(DealStageLabels).map(([stage, label]) => (
                 <TabsTrigger key={stage} value={stage} className="text-xs sm:text-sm py-1.5 px-2.5 sm:px-3">
                   <span className="hidden xs:inline">{label}</span>
@@ -433,6 +413,23 @@ export default function Pipeline() {
             )}
           </TabsContent>
           
+          {/* Kanban Board Tab */}
+          <TabsContent value="board" className="space-y-4">
+            <KanbanBoard
+              deals={filteredDeals}
+              isLoading={isLoading}
+              onEdit={(dealId) => {
+                setSelectedDealId(dealId);
+                setIsEditDealModalOpen(true);
+              }}
+              onAllocate={(dealId, dealName) => {
+                setSelectedDealId(dealId);
+                setSelectedDealName(dealName);
+                setIsAllocateFundModalOpen(true);
+              }}
+            />
+          </TabsContent>
+          
           {/* Stage Specific Tabs */}
           {Object.entries(DealStageLabels).map(([stage, label]) => (
             <TabsContent key={stage} value={stage} className="space-y-4">
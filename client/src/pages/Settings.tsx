@@ -2,7 +2,7 @@ import { useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings, Database, Bell, Building } from "lucide-react";
+import { Settings, Database, Bell, Building, GitBranch } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -12,10 +12,15 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { PADDING, MARGIN, GAP } from "@/lib/constants/spacing-constants";
+import NotificationPreferences from "@/components/notifications/NotificationPreferences";
+import PipelineSettings from "@/components/pipeline/PipelineSettings";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function SettingsPage() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("general");
+  const { data: currentUser } = useAuth();
+  const isAdmin = currentUser?.role === "admin";
 
   return (
     <AppLayout>
@@ -26,7 +31,7 @@ export default function SettingsPage() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4 max-w-md mb-2">
+          <TabsList className={`grid w-full ${isAdmin ? "grid-cols-5 max-w-xl" : "grid-cols-4 max-w-md"} mb-2`}>
             <TabsTrigger value="general" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
               <span className="hidden sm:inline">General</span>
@@ -43,6 +48,12 @@ export default function SettingsPage() {
               <Building className="h-4 w-4" />
               <span className="hidden sm:inline">Company</span>
             </TabsTrigger>
+            {isAdmin && (
+              <TabsTrigger value="pipelines" className="flex items-center gap-2">
+                <GitBranch className="h-4 w-4" />
+                <span className="hidden sm:inline">Pipelines</span>
+              </TabsTrigger>
+            )}
           </TabsList>
         
           <TabsContent value="general">
@@ -218,107 +229,11 @@ export default function SettingsPage() {
               <CardHeader>
                 <CardTitle>Notification Settings</CardTitle>
                 <CardDescription>
-                  Configure how and when you receive notifications.
+                  Choose how you hear about each kind of event. Defaults depend on your role until you save changes.
                 </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-6">
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Email Notifications</h3>
-                  <div className="flex flex-col space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="new-deal" className="font-medium">
-                          New Deal Added
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Receive an email when a new deal is added.
-                        </p>
-                      </div>
-                      <Switch id="new-deal" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="deal-update" className="font-medium">
-                          Deal Updates
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Receive an email when a deal is updated.
-                        </p>
-                      </div>
-                      <Switch id="deal-update" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="capital-call" className="font-medium">
-                          Capital Calls
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Receive an email when a capital call is issued.
-                        </p>
-                      </div>
-                      <Switch id="capital-call" defaultChecked />
-                    </div>
-                  </div>
-                </div>
-                
-                <Separator />
-                
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">In-App Notifications</h3>
-                  <div className="flex flex-col space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="app-new-deal" className="font-medium">
-                          New Deal Added
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Show a notification in the app when a new deal is added.
-                        </p>
-                      </div>
-                      <Switch id="app-new-deal" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="app-deal-update" className="font-medium">
-                          Deal Updates
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Show a notification in the app when a deal is updated.
-                        </p>
-                      </div>
-                      <Switch id="app-deal-update" defaultChecked />
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="app-mentions" className="font-medium">
-                          Mentions
-                        </Label>
-                        <p className="text-sm text-muted-foreground">
-                          Show a notification in the app when you are mentioned in a comment.
-                        </p>
-                      </div>
-                      <Switch id="app-mentions" defaultChecked />
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="flex justify-end">
-                  <Button
-                    onClick={() => {
-                      toast({
-                        title: "Notification settings updated",
-                        description: "Your notification preferences have been saved.",
-                        variant: "success"
-                      });
-                    }}
-                  >
-                    Save Changes
-                  </Button>
-                </div>
+              <CardContent>
+                <NotificationPreferences />
               </CardContent>
             </Card>
           </TabsContent>
@@ -428,6 +343,22 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="pipelines">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Deal Pipelines</CardTitle>
+                  <CardDescription>
+                    Define the stages deals move through for each strategy and the gate rules each stage requires.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PipelineSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </AppLayout>
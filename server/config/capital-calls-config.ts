@@ -10,7 +10,7 @@ export interface CapitalCallsConfig {
     defaultDueDays: number;
     paymentGraceDays: number;
     reminderDaysBeforePayment: number;
-    defaultCallFrequency: string;
+    defaultCallFrequency: 'monthly' | 'quarterly' | 'biannual' | 'annual';
   };
   payments: {
     initialPaidAmount: number;
@@ -82,6 +82,14 @@ export const defaultCapitalCallsConfig: CapitalCallsConfig = {
   }
 };
 
+// Recurrence rule for each call frequency, used when a capital call schedule doesn't give its own
+const CALL_FREQUENCY_RULES: Record<CapitalCallsConfig['timing']['defaultCallFrequency'], string> = {
+  monthly: 'FREQ=MONTHLY',
+  quarterly: 'FREQ=MONTHLY;INTERVAL=3',
+  biannual: 'FREQ=MONTHLY;INTERVAL=6',
+  annual: 'FREQ=YEARLY'
+};
+
 /**
  * Capital Calls Configuration Manager
  * Provides runtime configuration with environment variable overrides
@@ -113,6 +121,10 @@ export class CapitalCallsConfigManager {
       config.timing.paymentGraceDays = parseInt(process.env.CAPITAL_CALL_GRACE_DAYS);
     }
 
+    if (process.env.CAPITAL_CALL_DEFAULT_FREQUENCY && process.env.CAPITAL_CALL_DEFAULT_FREQUENCY in CALL_FREQUENCY_RULES) {
+      config.timing.defaultCallFrequency = process.env.CAPITAL_CALL_DEFAULT_FREQUENCY as CapitalCallsConfig['timing']['defaultCallFrequency'];
+    }
+
     if (process.env.CAPITAL_CALL_DEFAULT_PAYMENT_TYPE) {
       config.payments.defaultPaymentType = process.env.CAPITAL_CALL_DEFAULT_PAYMENT_TYPE as any;
     }
@@ -145,6 +157,10 @@ export class CapitalCallsConfigManager {
     return this.config.timing.defaultDueDays;
   }
 
+  public getDefaultCallRule(): string {
+    return CALL_FREQUENCY_RULES[this.config.timing.defaultCallFrequency];
+  }
+
   public getDefaultPaymentType(): string {
     return this.config.payments.defaultPaymentType;
   }
@@ -25,6 +25,14 @@ export const FUND_CONFIG = {
   IRR_CALCULATION_PRECISION: parseInt(process.env.IRR_CALCULATION_PRECISION || '4', 10),
   MOIC_CALCULATION_PRECISION: parseInt(process.env.MOIC_CALCULATION_PRECISION || '2', 10),
   
+  // Distribution waterfall defaults, used when a fund has no waterfall config of its own
+  WATERFALL_DEFAULTS: {
+    waterfallType: (process.env.WATERFALL_TYPE === 'american' ? 'american' : 'european') as 'european' | 'american',
+    preferredReturnRate: parseFloat(process.env.WATERFALL_PREFERRED_RETURN || '0.08'), // 8% hurdle
+    catchUpPercentage: parseFloat(process.env.WATERFALL_CATCH_UP || '1.0'), // 100% GP catch-up
+    carriedInterestRate: parseFloat(process.env.WATERFALL_CARRY || '0.2'), // 20% carry
+  },
+  
   // Status workflow configuration
   ALLOWED_STATUS_TRANSITIONS: {
     committed: ['funded', 'unfunded', 'partially_paid', 'written_off'] as const,
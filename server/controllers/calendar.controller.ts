@@ -1,6 +1,31 @@
 import { Request, Response } from 'express';
-import { calendarService } from '../services/calendar.service';
-import { asyncHandler } from '../utils/error-handler';
+import { z } from 'zod';
+import { calendarService, type CalendarEventFilters } from '../services/calendar.service';
+import { calendarFeedService, type CalendarFeedView } from '../services/calendar-feed.service';
+import { asyncHandler, sendServiceError } from '../utils/error-handler';
+
+const createFeedSchema = z.object({
+  scope: z.enum(['all', 'my_deals', 'fund']),
+  fundId: z.number().int().positive().optional()
+});
+
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const parseId = (value: unknown): number | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  const id = parseInt(String(value));
+  return isNaN(id) ? null : id;
+};
+
+/** Feed URLs as calendar apps need them, based on the host the request came in on */
+const withUrls = (req: Request, feed: CalendarFeedView) => {
+  const url = `${req.protocol}://${req.get('host')}/api/calendar/feeds/${feed.token}.ics`;
+  return { ...feed, url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
 
 /**
  * Calendar controller for unified calendar event handling
@@ -8,22 +33,29 @@ import { asyncHandler } from '../utils/error-handler';
 export class CalendarController {
   /**
    * Get all calendar events aggregated from multiple sources
-   * Supports optional date range filtering
+   * Supports optional date range, deal, fund and event type filtering
    */
   getAllEvents = asyncHandler(async (req: Request, res: Response) => {
-    // Extract date range from query parameters if provided
-    const { startDate, endDate } = req.query;
-    
-    // Get events from service with optional date filtering
-    const dateRange = startDate || endDate 
-      ? { 
-          startDate: startDate as string | undefined, 
-          endDate: endDate as string | undefined 
-        } 
-      : undefined;
-    
-    const events = await calendarService.getAllEvents(dateRange);
-    
+    const startDate = parseDate(req.query.startDate);
+    const endDate = parseDate(req.query.endDate);
+    const dealId = parseId(req.query.dealId);
+    const fundId = parseId(req.query.fundId);
+    if (startDate === null || endDate === null) {
+      return res.status(400).json({ error: 'startDate and endDate must be valid dates' });
+    }
+    if (dealId === null || fundId === null) {
+      return res.status(400).json({ error: 'dealId and fundId must be numbers' });
+    }
+
+    // eventTypes may be repeated (?eventTypes=meeting&eventTypes=capital_call) or comma-separated
+    const eventTypes = ([] as unknown[]).concat(req.query.eventTypes ?? [])
+      .flatMap(value => String(value).split(','))
+      .map(type => type.trim())
+      .filter(type => type && type !== 'all');
+
+    const filters: CalendarEventFilters = { startDate, endDate, dealId, fundId, eventTypes };
+    const events = await calendarService.getAllEvents(filters);
+
     res.status(200).json(events);
   });
 
@@ -34,6 +66,77 @@ export class CalendarController {
     const counts = await calendarService.getEventCounts();
     res.status(200).json(counts);
   });
+
+  /**
+   * List the current user's ICS feeds with their subscription URLs
+   */
+  getFeeds = async (req: Request, res: Response) => {
+    try {
+      const feeds = await calendarFeedService.listFeeds((req as any).user.id);
+      res.json(feeds.map(feed => withUrls(req, feed)));
+    } catch (error) {
+      sendServiceError(res, error, 'Failed to fetch calendar feeds');
+    }
+  };
+
+  /**
+   * Create an ICS feed for all events, the user's assigned deals, or one fund
+   */
+  createFeed = async (req: Request, res: Response) => {
+    try {
+      const validationResult = createFeedSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.errors
+        });
+      }
+
+      const { scope, fundId } = validationResult.data;
+      const feed = await calendarFeedService.createFeed((req as any).user.id, scope, fundId);
+      res.status(201).json(withUrls(req, feed));
+    } catch (error) {
+      sendServiceError(res, error, 'Failed to create calendar feed');
+    }
+  };
+
+  /**
+   * Revoke one of the current user's feeds
+   */
+  deleteFeed = async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === undefined || id === null) {
+        return res.status(400).json({ error: 'Invalid feed ID' });
+      }
+
+      await calendarFeedService.deleteFeed((req as any).user.id, id);
+      res.status(204).end();
+    } catch (error) {
+      sendServiceError(res, error, 'Failed to delete calendar feed');
+    }
+  };
+
+  /**
+   * Serve a feed as text/calendar. No session: the token in the URL authenticates.
+   */
+  getFeedIcs = async (req: Request, res: Response) => {
+    try {
+      const ics = await calendarFeedService.renderFeed(req.params.token, `${req.protocol}://${req.get('host')}`);
+      if (ics === null) {
+        return res.status(404).json({ error: 'Calendar feed not found' });
+      }
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300'
+      });
+      res.send(ics);
+    } catch (error) {
+      sendServiceError(res, error, 'Failed to render calendar feed');
+    }
+  };
 }
 
-export const calendarController = new CalendarController();
\ No newline at end of file
+export const calendarController = new CalendarController();
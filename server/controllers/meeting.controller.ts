@@ -1,10 +1,48 @@
 import { Request, Response } from 'express';
+import fs from 'fs/promises';
 import { db } from '../db';
 import { meetings, insertMeetingSchema, deals } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { requireAuth } from '../utils/auth';
+import { sendServiceError } from '../utils/error-handler';
+import { uploadLimiter } from '../middleware/upload-limits';
+import { meetingService } from '../services/meeting.service';
 import { z } from 'zod';
 
+const rsvpStatusSchema = z.enum(['needs_action', 'accepted', 'declined', 'tentative']);
+
+const attendeeInputSchema = z.object({
+  userId: z.number().int().positive().optional(),
+  email: z.string().trim().email().optional(),
+  name: z.string().trim().min(1).optional(),
+  role: z.enum(['organizer', 'required', 'optional']).optional(),
+  rsvpStatus: rsvpStatusSchema.optional(),
+}).refine(attendee => attendee.userId || attendee.email || attendee.name, {
+  message: 'Each attendee needs a userId, email or name',
+});
+
+// `attendeeList` replaces the free-text `attendees`; the text is still accepted from older clients
+const meetingRequestSchema = insertMeetingSchema.extend({
+  attendeeList: z.array(attendeeInputSchema).optional(),
+});
+
+const occurrenceScopeSchema = z.enum(['this', 'following']).default('this');
+
+const updateOccurrenceSchema = z.object({
+  scope: occurrenceScopeSchema,
+  title: z.string().trim().min(1).optional(),
+  date: z.string().datetime().transform(val => new Date(val)).optional(),
+  endDate: z.string().datetime().transform(val => new Date(val)).nullish(),
+  location: z.string().nullish(),
+  notes: z.string().nullish(),
+  recurrenceRule: z.string().optional(),
+});
+
+const importMeetingsSchema = z.object({
+  dealId: z.coerce.number().int().positive(),
+  ics: z.string().optional(),
+});
+
 // GET /api/meetings
 export const getMeetings = [
   requireAuth,
@@ -30,7 +68,7 @@ export const getMeetings = [
         })
       );
 
-      return res.status(200).json(meetingsWithDeals);
+      return res.status(200).json(await meetingService.withAttendees(meetingsWithDeals));
     } catch (error) {
       console.error('Error fetching meetings:', error);
       return res.status(500).json({ error: 'Failed to fetch meetings' });
@@ -44,10 +82,22 @@ export const createMeeting = [
   async (req: Request, res: Response) => {
     try {
       // Validate the request body against the schema
-      const validatedData = insertMeetingSchema.parse(req.body);
+      const { attendeeList, ...validatedData } = meetingRequestSchema.parse(req.body);
+      const userId = (req as any).user?.id ?? validatedData.createdBy;
+      meetingService.validateSeries(validatedData.recurrenceRule, validatedData.timeZone);
       
       // Insert the new meeting
-      const [newMeeting] = await db.insert(meetings).values(validatedData).returning();
+      const [newMeeting] = await db.insert(meetings).values({ ...validatedData, createdBy: userId }).returning();
+      const attendees = await meetingService.setAttendees(
+        newMeeting.id,
+        attendeeList ?? meetingService.parseAttendeeText(validatedData.attendees)
+      );
+      await meetingService.recordScheduled(
+        newMeeting,
+        userId,
+        `Scheduled ${newMeeting.recurrenceRule ? 'recurring ' : ''}meeting "${newMeeting.title}"`,
+        { source: 'manual', recurrenceRule: newMeeting.recurrenceRule }
+      );
       
       // Get the deal name for the response
       const [deal] = await db.query.deals.findMany({
@@ -60,14 +110,15 @@ export const createMeeting = [
       // Return the new meeting with the deal name
       return res.status(201).json({
         ...newMeeting,
+        attendees: attendees.map(attendee => attendee.name || attendee.email).join(', ') || null,
+        attendeeList: attendees,
         dealName: deal?.name || 'Unknown Deal',
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: 'Validation error', details: error.errors });
       }
-      console.error('Error creating meeting:', error);
-      return res.status(500).json({ error: 'Failed to create meeting' });
+      return sendServiceError(res, error, 'Failed to create meeting');
     }
   }
 ];
@@ -98,8 +149,9 @@ export const getMeetingById = [
         }
       });
       
+      const [withAttendees] = await meetingService.withAttendees([meeting]);
       return res.status(200).json({
-        ...meeting,
+        ...withAttendees,
         dealName: deal?.name || 'Unknown Deal',
       });
     } catch (error) {
@@ -120,7 +172,7 @@ export const updateMeeting = [
       }
       
       // Validate the request body
-      const validatedData = insertMeetingSchema.parse(req.body);
+      const { attendeeList, ...validatedData } = meetingRequestSchema.parse(req.body);
       
       // Check if meeting exists
       const [existingMeeting] = await db.query.meetings.findMany({
@@ -130,16 +182,35 @@ export const updateMeeting = [
       if (!existingMeeting) {
         return res.status(404).json({ error: 'Meeting not found' });
       }
+      meetingService.validateSeries(validatedData.recurrenceRule, validatedData.timeZone);
       
       // Update the meeting
       const [updatedMeeting] = await db
         .update(meetings)
         .set({
           ...validatedData,
+          createdBy: existingMeeting.createdBy,
           updatedAt: new Date(),
         })
         .where(eq(meetings.id, id))
         .returning();
+
+      // Occurrence overrides are keyed by the old dates, so they go when the series is re-timed
+      if (existingMeeting.recurrenceRule && (
+        updatedMeeting.recurrenceRule !== existingMeeting.recurrenceRule
+        || updatedMeeting.timeZone !== existingMeeting.timeZone
+        || updatedMeeting.date.getTime() !== existingMeeting.date.getTime()
+      )) {
+        await meetingService.clearOverrides(id);
+      }
+
+      // The attendee text is the summary of the structured list, so only re-read it when it was edited
+      if (attendeeList) {
+        await meetingService.setAttendees(id, attendeeList);
+      } else if ((validatedData.attendees ?? null) !== existingMeeting.attendees) {
+        await meetingService.setAttendees(id, meetingService.parseAttendeeText(validatedData.attendees));
+      }
+      const [withAttendees] = await meetingService.withAttendees([updatedMeeting]);
       
       // Get the deal name
       const [deal] = await db.query.deals.findMany({
@@ -150,15 +221,15 @@ export const updateMeeting = [
       });
       
       return res.status(200).json({
-        ...updatedMeeting,
+        ...withAttendees,
+        attendees: withAttendees.attendeeList.map(attendee => attendee.name || attendee.email).join(', ') || null,
         dealName: deal?.name || 'Unknown Deal',
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: 'Validation error', details: error.errors });
       }
-      console.error('Error updating meeting:', error);
-      return res.status(500).json({ error: 'Failed to update meeting' });
+      return sendServiceError(res, error, 'Failed to update meeting');
     }
   }
 ];
@@ -216,16 +287,120 @@ export const getMeetingsByDeal = [
         }
       });
       
-      // Add deal name to each meeting
+      // Add deal name and attendees to each meeting
       const meetingsWithDealName = dealMeetings.map(meeting => ({
         ...meeting,
         dealName: deal?.name || 'Unknown Deal',
       }));
       
-      return res.status(200).json(meetingsWithDealName);
+      return res.status(200).json(await meetingService.withAttendees(meetingsWithDealName));
     } catch (error) {
       console.error(`Error fetching meetings for deal ${req.params.dealId}:`, error);
       return res.status(500).json({ error: 'Failed to fetch meetings for this deal' });
     }
   }
-];
\ No newline at end of file
+];
+
+// POST /api/meetings/import - Create or update meetings on a deal from an .ics invite
+export const importMeetings = [
+  requireAuth,
+  uploadLimiter.single('file'),
+  async (req: Request, res: Response) => {
+    const file = req.file;
+    try {
+      const validationResult = importMeetingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Validation error', details: validationResult.error.errors });
+      }
+
+      const { dealId, ics } = validationResult.data;
+      const text = file ? await fs.readFile(file.path, 'utf8') : ics;
+      if (!text) {
+        return res.status(400).json({ error: 'An .ics file or ics text is required' });
+      }
+
+      const result = await meetingService.importIcs(text, dealId, (req as any).user.id);
+      return res.status(result.created > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      return sendServiceError(res, error, 'Failed to import calendar invite');
+    } finally {
+      if (file) {
+        await fs.unlink(file.path).catch(() => undefined);
+      }
+    }
+  }
+];
+
+// PATCH /api/meetings/:id/attendees/:attendeeId - Record an attendee's RSVP
+export const updateAttendeeRsvp = [
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attendeeId = parseInt(req.params.attendeeId);
+      if (isNaN(id) || isNaN(attendeeId)) {
+        return res.status(400).json({ error: 'Invalid meeting or attendee ID' });
+      }
+
+      const validationResult = z.object({ rsvpStatus: rsvpStatusSchema }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Validation error', details: validationResult.error.errors });
+      }
+
+      const user = (req as any).user;
+      const attendee = await meetingService.updateRsvp(id, attendeeId, validationResult.data.rsvpStatus, { id: user.id, role: user.role });
+      return res.status(200).json(attendee);
+    } catch (error) {
+      return sendServiceError(res, error, 'Failed to update RSVP');
+    }
+  }
+];
+
+// PUT /api/meetings/:id/occurrences/:occurrenceDate - Change one occurrence of a recurring meeting, or it and the following ones
+export const updateMeetingOccurrence = [
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const occurrenceDate = new Date(req.params.occurrenceDate);
+      if (isNaN(id) || isNaN(occurrenceDate.getTime())) {
+        return res.status(400).json({ error: 'Invalid meeting ID or occurrence date' });
+      }
+
+      const validationResult = updateOccurrenceSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Validation error', details: validationResult.error.errors });
+      }
+
+      const { scope, ...changes } = validationResult.data;
+      const meeting = await meetingService.updateOccurrence(id, occurrenceDate, scope, changes);
+      return res.status(200).json(meeting);
+    } catch (error) {
+      return sendServiceError(res, error, 'Failed to update meeting occurrence');
+    }
+  }
+];
+
+// DELETE /api/meetings/:id/occurrences/:occurrenceDate?scope=this|following - Cancel an occurrence, or end the series there
+export const deleteMeetingOccurrence = [
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const occurrenceDate = new Date(req.params.occurrenceDate);
+      if (isNaN(id) || isNaN(occurrenceDate.getTime())) {
+        return res.status(400).json({ error: 'Invalid meeting ID or occurrence date' });
+      }
+
+      const scope = occurrenceScopeSchema.safeParse(req.query.scope);
+      if (!scope.success) {
+        return res.status(400).json({ error: 'Validation error', details: scope.error.errors });
+      }
+
+      await meetingService.deleteOccurrence(id, occurrenceDate, scope.data);
+      return res.status(200).json({ message: 'Meeting occurrence deleted successfully' });
+    } catch (error) {
+      return sendServiceError(res, error, 'Failed to delete meeting occurrence');
+    }
+  }
+];
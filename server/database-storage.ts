@@ -1,8 +1,10 @@
 import { db } from './db';
 import { IStorage } from './storage';
 import { StorageFactory } from './storage-factory';
-import { eq, and, sql, inArray, asc, gte, lte } from 'drizzle-orm';
+import { eq, and, sql, inArray, asc, desc, gte, lte } from 'drizzle-orm';
 import { FundService } from './services/fund.service';
+import { domainEvents } from './services/events/domain-events';
+import { currentVersionOfDocument, documentWithContentColumns } from './services/database-document-storage';
 import {
   User, InsertUser,
   Deal, InsertDeal,
@@ -18,7 +20,7 @@ import {
   CapitalCallPayment, InsertCapitalCallPayment,
   MemoComment, InsertMemoComment,
   ClosingScheduleEvent, InsertClosingScheduleEvent,
-  users, deals, timelineEvents, dealStars, miniMemos, documents,
+  users, deals, timelineEvents, dealStars, miniMemos, documents, documentVersions,
   funds, fundAllocations, dealAssignments, notifications, capitalCalls, capitalCallPayments, memoComments, closingScheduleEvents, distributions
 } from '@shared/schema';
 
@@ -196,6 +198,7 @@ export class DatabaseStorage implements IStorage {
       if (dealUpdate.notes !== undefined) validUpdateData.notes = dealUpdate.notes;
       if (dealUpdate.sector !== undefined) validUpdateData.sector = dealUpdate.sector;
       if (dealUpdate.stage !== undefined) validUpdateData.stage = dealUpdate.stage;
+      if (dealUpdate.pipelineId !== undefined) validUpdateData.pipelineId = dealUpdate.pipelineId;
       if (dealUpdate.contactEmail !== undefined) validUpdateData.contactEmail = dealUpdate.contactEmail;
       if (dealUpdate.targetReturn !== undefined) validUpdateData.targetReturn = dealUpdate.targetReturn;
       if (dealUpdate.projectedIrr !== undefined) validUpdateData.projectedIrr = dealUpdate.projectedIrr;
@@ -249,6 +252,7 @@ export class DatabaseStorage implements IStorage {
         createdBy: event.createdBy,
         metadata: event.metadata || {}
       }).returning();
+      domainEvents.emit('timeline.created', { eventId: newEvent.id, dealId: newEvent.dealId, eventType: newEvent.eventType });
       return newEvent;
     } catch (error) {
       console.error('Error creating timeline event:', error);
@@ -263,6 +267,14 @@ export class DatabaseStorage implements IStorage {
       .where(eq(timelineEvents.dealId, dealId));
   }
 
+  async getRecentTimelineEvents(limit: number): Promise<TimelineEvent[]> {
+    return await db
+      .select()
+      .from(timelineEvents)
+      .orderBy(desc(timelineEvents.createdAt), desc(timelineEvents.id))
+      .limit(limit);
+  }
+
   async updateTimelineEvent(id: number, update: Partial<InsertTimelineEvent>): Promise<TimelineEvent | undefined> {
     if (!db) {
       throw new Error('Database not initialized');
@@ -405,7 +417,11 @@ export class DatabaseStorage implements IStorage {
   
   async getDocument(id: number): Promise<Document | undefined> {
     try {
-      const [document] = await db.select().from(documents).where(eq(documents.id, id));
+      const [document] = await db
+        .select(documentWithContentColumns)
+        .from(documents)
+        .leftJoin(documentVersions, currentVersionOfDocument)
+        .where(eq(documents.id, id));
       return document || undefined;
     } catch (error) {
       this.handleDbError(error as Error, 'getDocument');
@@ -436,8 +452,9 @@ export class DatabaseStorage implements IStorage {
   
   async getDocumentsByType(dealId: number, documentType: string): Promise<Document[]> {
     return await db
-      .select()
+      .select(documentWithContentColumns)
       .from(documents)
+      .leftJoin(documentVersions, currentVersionOfDocument)
       .where(
         and(
           eq(documents.dealId, dealId),
@@ -515,6 +532,12 @@ export class DatabaseStorage implements IStorage {
     // This centralizes our AUM calculation logic
     const fundService = new FundService();
     await fundService.updateFundAUM(allocation.fundId);
+
+    domainEvents.emit('allocation.created', {
+      allocationId: newAllocation.id,
+      fundId: newAllocation.fundId,
+      dealId: newAllocation.dealId
+    });
       
     return newAllocation;
   }
@@ -872,7 +895,10 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(notifications)
-      .where(eq(notifications.userId, userId));
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.inApp, true)
+      ));
   }
   
   async getUnreadNotificationsCount(userId: number): Promise<number> {
@@ -882,7 +908,8 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(notifications.userId, userId),
-          eq(notifications.isRead, false)
+          eq(notifications.isRead, false),
+          eq(notifications.inApp, true)
         )
       );
     return unreadNotifications.length;
@@ -1008,6 +1035,13 @@ export class DatabaseStorage implements IStorage {
       }
       
       console.log(`Successfully updated allocation ${id}:`, updatedAllocation);
+
+      domainEvents.emit('allocation.updated', {
+        allocationId: updatedAllocation.id,
+        fundId: updatedAllocation.fundId,
+        dealId: updatedAllocation.dealId,
+        changes: Object.keys(allocationUpdate)
+      });
       
       // Note: AUM recalculation is handled separately to avoid circular dependencies
       console.log(`Allocation update completed for fund ${originalAllocation.fundId}`)
@@ -1066,6 +1100,14 @@ export class DatabaseStorage implements IStorage {
       .set(updateData)
       .where(eq(capitalCalls.id, id))
       .returning();
+
+    if (updatedCapitalCall) {
+      domainEvents.emit('capital_call.status_changed', {
+        capitalCallId: updatedCapitalCall.id,
+        allocationId: updatedCapitalCall.allocationId,
+        status: updatedCapitalCall.status
+      });
+    }
       
     return updatedCapitalCall || undefined;
   }
@@ -1106,6 +1148,14 @@ export class DatabaseStorage implements IStorage {
       .set(updateData)
       .where(eq(capitalCalls.id, id))
       .returning();
+
+    if (updatedCapitalCall && updates.status) {
+      domainEvents.emit('capital_call.status_changed', {
+        capitalCallId: updatedCapitalCall.id,
+        allocationId: updatedCapitalCall.allocationId,
+        status: updatedCapitalCall.status
+      });
+    }
       
     return updatedCapitalCall || undefined;
   }
@@ -1136,6 +1186,12 @@ export class DatabaseStorage implements IStorage {
       .insert(capitalCallPayments)
       .values(payment)
       .returning();
+
+    domainEvents.emit('capital_call.payment_recorded', {
+      capitalCallId: newPayment.capitalCallId,
+      paymentId: newPayment.id,
+      amount: newPayment.paymentAmount
+    });
       
     return newPayment;
   }
@@ -1298,6 +1354,11 @@ export class DatabaseStorage implements IStorage {
       .insert(distributions)
       .values(distribution)
       .returning();
+
+    domainEvents.emit('distribution.created', {
+      distributionId: newDistribution.id,
+      allocationId: newDistribution.allocationId
+    });
       
     return newDistribution;
   }
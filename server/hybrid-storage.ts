@@ -339,6 +339,14 @@ export class HybridStorage implements IStorage {
     );
   }
 
+  async getRecentTimelineEvents(limit: number): Promise<any[]> {
+    return this.withFailover(
+      'getRecentTimelineEvents',
+      () => this.dbStorage.getRecentTimelineEvents(limit),
+      () => this.memStorage.getRecentTimelineEvents(limit)
+    );
+  }
+
   async updateTimelineEvent(id: number, update: any): Promise<any | undefined> {
     return this.withFailover(
       'updateTimelineEvent',
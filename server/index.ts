@@ -37,6 +37,12 @@ import {
   initializePerformanceMetrics 
 } from "./middleware/performance-monitor";
 import { jobQueue } from "./services/queue-processor.service";
+import { emailIngestService } from "./services/email-ingest.service";
+import { notificationEngine } from "./services/notification-engine.service";
+import { realtimeService } from "./services/realtime.service";
+import { digestService } from "./services/digest.service";
+import { webhookService } from "./services/webhook.service";
+import { capitalCallScheduleService } from "./services/capital-call-schedule.service";
 
 // Main async function to allow using await
 async function initialize() {
@@ -240,6 +246,40 @@ async function initialize() {
   } catch (error) {
     console.error('Failed to initialize background jobs:', error);
   }
+
+  // Generate notifications from deal, memo, capital call and closing events
+  try {
+    notificationEngine.start();
+  } catch (error) {
+    console.error('Failed to start notification engine:', error);
+  }
+
+  // Daily/weekly digest emails
+  try {
+    digestService.start();
+  } catch (error) {
+    console.error('Failed to start digest scheduler:', error);
+  }
+
+  // Issue capital calls from recurring schedules ahead of their call dates
+  try {
+    capitalCallScheduleService.start();
+  } catch (error) {
+    console.error('Failed to start capital call schedules:', error);
+  }
+
+  // Deliver deal, allocation, capital call and distribution events to webhook subscribers
+  webhookService.start();
+
+  // Push notifications and activity to connected browsers over /api/events/stream
+  realtimeService.start();
+
+  // Optional SMTP listener so pitch emails can be forwarded straight into the pipeline
+  try {
+    await emailIngestService.startSmtpServer();
+  } catch (error) {
+    console.error('Failed to start SMTP ingest server:', error);
+  }
   
   // Auto-allocation sync system disabled due to data corruption issues
   // TODO: Fix status logic before re-enabling
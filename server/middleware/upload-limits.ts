@@ -40,7 +40,9 @@ export const uploadLimiter = multer({
       'image/jpeg',
       'image/png',
       'image/gif',
-      'application/zip'
+      'application/zip',
+      'message/rfc822',
+      'text/calendar'
     ];
 
     if (allowedTypes.includes(file.mimetype)) {
@@ -1,9 +1,5 @@
-import OpenAI from 'openai';
 import { StorageFactory } from '../../storage-factory';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llmService } from '../../services/llm.service';
 
 export interface AnalysisRequest {
   dealId: number;
@@ -140,23 +136,18 @@ export class DocumentAnalyzer {
     analysisPrompt += `\nCRITICAL REQUIREMENT: Base your analysis EXCLUSIVELY on content explicitly written in the uploaded documents. Never generate, assume, or infer information not directly stated. If information is missing from the documents, state "Not provided in the documents" rather than making assumptions.`;
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert investment analyst. CRITICAL: You must analyze ONLY the authentic content from uploaded documents. Never generate, assume, or create any information not explicitly stated in the provided document text. If specific information is not found in the documents, clearly state 'Not specified in the provided documents' rather than making assumptions or generating content."
-          },
-          {
-            role: "user",
-            content: analysisPrompt
-          }
-        ],
-        max_tokens: 3000,
-        temperature: 0.1
-      });
+      const completion = await llmService.chat([
+        {
+          role: "system",
+          content: "You are an expert investment analyst. CRITICAL: You must analyze ONLY the authentic content from uploaded documents. Never generate, assume, or create any information not explicitly stated in the provided document text. If specific information is not found in the documents, clearly state 'Not specified in the provided documents' rather than making assumptions or generating content."
+        },
+        {
+          role: "user",
+          content: analysisPrompt
+        }
+      ], { purpose: 'document_analysis' });
 
-      return completion.choices[0]?.message?.content || 'No analysis generated';
+      return completion.content || 'No analysis generated';
     } catch (error) {
       console.error('Error performing AI analysis:', error);
       throw new Error('Failed to perform AI analysis');
@@ -1,14 +1,10 @@
-import OpenAI from 'openai';
 import { StorageFactory } from '../../storage-factory';
+import { llmService } from '../../services/llm.service';
 import * as path from 'path';
 import * as fs from 'fs';
 import { Document } from '@shared/schema';
 import { DataExtractor } from '../../services/data-extractor';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 export interface AnalysisRequest {
   dealId: number;
   query?: string;
@@ -170,23 +166,18 @@ export class DocumentAnalyzer {
     analysisPrompt += `\nCRITICAL REQUIREMENT: Base your analysis EXCLUSIVELY on content explicitly written in the uploaded documents. Never generate, assume, or infer information not directly stated. If information is missing from the documents, state "Not provided in the documents" rather than making assumptions.`;
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert investment analyst. CRITICAL: You must analyze ONLY the authentic content from uploaded documents. Never generate, assume, or create any information not explicitly stated in the provided document text. If specific information is not found in the documents, clearly state 'Not specified in the provided documents' rather than making assumptions or generating content."
-          },
-          {
-            role: "user",
-            content: analysisPrompt
-          }
-        ],
-        max_tokens: 3000,
-        temperature: 0.3
-      });
-
-      const analysis = completion.choices[0]?.message?.content || 'No analysis generated';
+      const completion = await llmService.chat([
+        {
+          role: "system",
+          content: "You are an expert investment analyst. CRITICAL: You must analyze ONLY the authentic content from uploaded documents. Never generate, assume, or create any information not explicitly stated in the provided document text. If specific information is not found in the documents, clearly state 'Not specified in the provided documents' rather than making assumptions or generating content."
+        },
+        {
+          role: "user",
+          content: analysisPrompt
+        }
+      ], { purpose: 'deal_document_analysis' });
+
+      const analysis = completion.content || 'No analysis generated';
       
       return {
         analysis,
@@ -1,5 +1,6 @@
 import { db } from '../../db';
-import { documents } from '../../../shared/schema';
+import { documents, documentVersions } from '../../../shared/schema';
+import { currentVersionOfDocument, documentWithContentColumns } from '../../services/database-document-storage';
 import { eq, and } from 'drizzle-orm';
 
 /**
@@ -17,8 +18,9 @@ export class DocumentService {
       console.log(`🔍 DocumentService: Fetching documents for deal ${dealId}`);
       
       const result = await db
-        .select()
+        .select(documentWithContentColumns)
         .from(documents)
+        .leftJoin(documentVersions, currentVersionOfDocument)
         .where(eq(documents.dealId, dealId))
         .orderBy(documents.uploadedAt);
       
@@ -43,8 +45,9 @@ export class DocumentService {
       console.log(`🔍 DocumentService: Fetching document ${documentId}`);
       
       const result = await db
-        .select()
+        .select(documentWithContentColumns)
         .from(documents)
+        .leftJoin(documentVersions, currentVersionOfDocument)
         .where(eq(documents.id, documentId))
         .limit(1);
       
@@ -267,8 +270,9 @@ export class DocumentService {
       console.log(`🔍 DocumentService: Fetching ${documentType} documents for deal ${dealId}`);
       
       const result = await db
-        .select()
+        .select(documentWithContentColumns)
         .from(documents)
+        .leftJoin(documentVersions, currentVersionOfDocument)
         .where(and(
           eq(documents.dealId, dealId),
           eq(documents.documentType, documentType)
@@ -16,8 +16,19 @@ import distributionsRoutes from './routes/distributions';
 import productionAllocationsRouter from './routes/production-allocations';
 import capitalCallsRoutes from './routes/capital-calls';
 import capitalCallManagementRoutes from './routes/capital-call-management';
+import capitalCallSchedulesRoutes from './routes/capital-call-schedules';
 import closingSchedulesRoutes from './routes/closing-schedules';
 import meetingsRoutes from './routes/meetings';
+import limitedPartnersRoutes from './routes/limited-partners';
+import managementFeesRoutes from './routes/management-fees';
+import valuationsRoutes from './routes/valuations';
+import fundPerformanceRoutes from './routes/fund-performance';
+import reportsRoutes from './routes/reports';
+import emailRoutes from './routes/email';
+import eventsRoutes from './routes/events';
+import webhookRoutes from './routes/webhooks';
+import calendarRoutes from './routes/calendar';
+import pipelinesRoutes from './routes/pipelines';
 
 import { systemRouter } from './routes/system';
 import v1Router from './routes/v1/index'; // V1 API routes including AI analysis
@@ -54,9 +65,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Authentication middleware for all API routes except auth endpoints and system endpoints
   app.use('/api', (req: Request, res: Response, next: NextFunction) => {
-    // Skip auth check for auth/system endpoints and OPTIONS requests
+    // Skip auth check for auth/system endpoints, tokenized calendar feeds and OPTIONS requests
     if (req.path.startsWith('/auth') || 
         req.path.startsWith('/system') || 
+        (req.path.startsWith('/calendar/feeds/') && req.path.endsWith('.ics')) ||
         req.method === 'OPTIONS') {
       return next();
     }
@@ -76,8 +88,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/allocations', productionAllocationsRouter); // Updated to use production allocations after cleanup
   app.use('/api/capital-calls', capitalCallsRoutes);
   app.use('/api/capital-call-management', capitalCallManagementRoutes);
+  app.use('/api/capital-call-schedules', capitalCallSchedulesRoutes);
   app.use('/api/closing-schedules', closingSchedulesRoutes);
   app.use('/api/meetings', meetingsRoutes);
+  app.use('/api/limited-partners', limitedPartnersRoutes);
+  app.use('/api/management-fees', managementFeesRoutes);
+  app.use('/api/valuations', valuationsRoutes);
+  app.use('/api/fund-performance', fundPerformanceRoutes);
+  app.use('/api/reports', reportsRoutes);
+  app.use('/api/email', emailRoutes);
+  app.use('/api/events', eventsRoutes);
+  app.use('/api/webhooks', webhookRoutes);
+  app.use('/api/calendar', calendarRoutes);
+  app.use('/api/pipelines', pipelinesRoutes);
 
   app.use('/api/dashboard', dashboardRoutes);
   app.use('/api/leaderboard', leaderboardRoutes);
@@ -1,13 +1,13 @@
 import { Router, Request, Response } from "express";
 import { StorageFactory } from "../storage-factory";
 import { requireAuth } from "../utils/auth";
+import { pipelineService } from "../services/pipeline.service";
 
 const router = Router();
 
 // Get activity feed with improved error handling and performance
 router.get('/', requireAuth, async (req: Request, res: Response) => {
   try {
-    console.log('Activity feed request received');
     const storage = StorageFactory.getStorage();
     
     // Use a timeout to prevent long-running queries
@@ -15,69 +15,37 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
       setTimeout(() => reject(new Error('Activity feed query timed out')), 8000)
     );
     
-    // First check if we can get deals to avoid long processing if database is unavailable
-    const deals = await Promise.race([
-      storage.getDeals(),
+    // Latest 20 timeline events across all deals, newest first
+    const recentEvents = await Promise.race([
+      storage.getRecentTimelineEvents(20),
       timeoutPromise
     ]) as any[];
     
-    if (!deals || !Array.isArray(deals)) {
-      console.error('Failed to retrieve deals for activity feed');
-      return res.status(404).json({ message: 'No deals available' });
-    }
-    
-    console.log(`Retrieved ${deals.length} deals for activity feed`);
-    
-    // Get only the most recent events for better performance
-    // Limit to 100 deals or less to avoid excessive queries
-    const dealsToProcess = deals.slice(0, 100);
-    const allEvents: Array<any> = [];
+    // Attach deal info to each event
+    const dealIds = Array.from(new Set(recentEvents.map(e => e.dealId)));
+    const dealResults = await Promise.allSettled(dealIds.map(id => storage.getDeal(id)));
+    const deals = dealResults
+      .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
+      .map(result => result.value)
+      .filter(Boolean);
+    const stageLabel = await pipelineService.getStageLabeler();
     
-    // Process deals in batches to avoid memory issues
-    const BATCH_SIZE = 10;
-    for (let i = 0; i < dealsToProcess.length; i += BATCH_SIZE) {
-      const batch = dealsToProcess.slice(i, i + BATCH_SIZE);
-      const batchEvents = await Promise.all(
-        batch.map(async (deal) => {
-          try {
-            // Only get the 5 most recent events per deal for better performance
-            const events = await storage.getTimelineEventsByDeal(deal.id);
-            const recentEvents = events.sort((a, b) => 
-              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-            ).slice(0, 5);
-            
-            // Add deal info to each event
-            return recentEvents.map(event => ({
-              ...event,
-              deal: {
-                id: deal.id,
-                name: deal.name,
-                stageLabel: deal.stageLabel || deal.stage
-              }
-            }));
-          } catch (err) {
-            console.error(`Error fetching events for deal ${deal.id}:`, err);
-            return []; // Return empty array for this deal instead of failing
+    const sortedEvents = recentEvents
+      .map(event => {
+        const deal = deals.find(d => d.id === event.dealId);
+        return deal ? {
+          ...event,
+          deal: {
+            id: deal.id,
+            name: deal.name,
+            stageLabel: stageLabel(deal)
           }
-        })
-      );
-      
-      // Flatten the batch events and add to all events
-      for (const events of batchEvents) {
-        allEvents.push(...events);
-      }
-    }
-    
-    console.log(`Retrieved ${allEvents.length} events for activity feed`);
-    
-    // Sort by date (descending) and limit to latest 20
-    const sortedEvents = allEvents.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    ).slice(0, 20);
+        } : null;
+      })
+      .filter(Boolean) as any[];
     
     // Get user info for each event
     const userIds = Array.from(new Set(sortedEvents.map(e => e.createdBy)));
-    console.log(`Fetching information for ${userIds.length} users`);
     
     // Use Promise.allSettled to handle potential failures in user fetching
     const userPromises = userIds.map(id => storage.getUser(id));
@@ -103,7 +71,6 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
       };
     });
     
-    console.log('Activity feed successfully generated');
     res.json(eventsWithUserInfo);
   } catch (error) {
     console.error('Error generating activity feed:', error);
@@ -0,0 +1,44 @@
+/**
+ * Calendar Routes
+ *
+ * Unified calendar of meetings, capital call due dates and closing events, plus
+ * tokenized iCalendar feeds for subscribing from Outlook or Google Calendar
+ */
+
+import { Router } from 'express';
+import { requireAuth } from '../utils/auth';
+import { calendarController } from '../controllers/calendar.controller';
+
+const router = Router();
+
+/**
+ * GET /api/calendar/events - Events from all sources, filtered by startDate, endDate, dealId, fundId, eventTypes
+ */
+router.get('/events', requireAuth, calendarController.getAllEvents);
+
+/**
+ * GET /api/calendar/counts - Upcoming event counts by type
+ */
+router.get('/counts', requireAuth, calendarController.getEventCounts);
+
+/**
+ * GET /api/calendar/feeds - The current user's ICS feeds with subscription URLs
+ */
+router.get('/feeds', requireAuth, calendarController.getFeeds);
+
+/**
+ * POST /api/calendar/feeds - Create an ICS feed (scope all, my_deals or fund)
+ */
+router.post('/feeds', requireAuth, calendarController.createFeed);
+
+/**
+ * DELETE /api/calendar/feeds/:id - Revoke an ICS feed
+ */
+router.delete('/feeds/:id', requireAuth, calendarController.deleteFeed);
+
+/**
+ * GET /api/calendar/feeds/:token.ics - The feed itself; public, the token is the credential
+ */
+router.get('/feeds/:token.ics', calendarController.getFeedIcs);
+
+export default router;
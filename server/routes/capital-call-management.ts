@@ -14,10 +14,12 @@ import { z, ZodError } from 'zod';
 import { requireAuth } from '../utils/auth';
 import { DatabaseStorage } from '../database-storage';
 import { AllocationService } from '../services/allocation.service';
+import { CapitalCallLifecycleService } from '../services/capital-call-lifecycle.service';
 
 const router = Router();
 const storage = new DatabaseStorage();
 const allocationService = new AllocationService();
+const capitalCallLifecycleService = new CapitalCallLifecycleService();
 
 // Validation schemas
 const createCapitalCallSchema = z.object({
@@ -54,71 +56,27 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    const { allocationId, callAmount, amountType, dueDate, notes } = validationResult.data;
+    // The lifecycle service checks the commitment, splits the call across LPs and emits capital_call.created
+    const result = await capitalCallLifecycleService.createCapitalCall({
+      ...validationResult.data,
+      callDate: new Date()
+    }, userId);
 
-    // Get allocation details
-    const allocation = await storage.getFundAllocation(allocationId);
-    if (!allocation) {
-      return res.status(404).json({ error: 'Allocation not found' });
-    }
-
-    // Convert percentage to dollar amount if needed
-    let callAmountInDollars = callAmount;
-    if (amountType === 'percentage') {
-      if (callAmount < 0 || callAmount > 100) {
-        return res.status(400).json({ error: 'Percentage must be between 0 and 100' });
+    if (!result.success) {
+      if (result.error === 'Allocation not found') {
+        return res.status(404).json({ error: result.error });
       }
-      callAmountInDollars = (allocation.amount * callAmount) / 100;
-    }
-
-    // Validate against committed amount
-    const existingCalls = await storage.getCapitalCallsByAllocation(allocationId);
-    const totalCalled = existingCalls.reduce((sum, call) => sum + call.callAmount, 0);
-    
-    if (totalCalled + callAmountInDollars > allocation.amount) {
-      const remaining = allocation.amount - totalCalled;
-      return res.status(400).json({ 
-        error: `Capital call would exceed committed amount. Maximum remaining: ${remaining.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}` 
-      });
-    }
-
-    // Create capital call
-    const capitalCall = await storage.createCapitalCall({
-      allocationId,
-      callAmount: callAmountInDollars,
-      amountType,
-      dueDate,
-      callDate: new Date(),
-      paidAmount: 0,
-      outstanding_amount: callAmountInDollars.toString(),
-      status: 'called',
-      notes,
-      callPct: amountType === 'percentage' ? callAmount : null
-    });
-
-    // Update allocation status
-    await allocationService.updateAllocationStatus(allocationId);
-
-    // Create timeline event
-    await storage.createTimelineEvent({
-      dealId: allocation.dealId,
-      eventType: 'capital_call',
-      content: `Capital call created for ${callAmountInDollars.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`,
-      createdBy: userId,
-      metadata: {
-        allocationId,
-        capitalCallId: capitalCall.id,
-        amount: callAmountInDollars,
-        amountType,
-        fundId: allocation.fundId,
-        dueDate: dueDate.toISOString(),
-        callDate: capitalCall.callDate.toISOString()
+      if (result.validationErrors) {
+        return res.status(400).json({ error: result.validationErrors.join('; ') });
       }
-    });
+      return res.status(500).json({ error: result.error });
+    }
 
+    const callAmountInDollars: number = result.capitalCall!.callAmount;
     res.status(201).json({
       success: true,
-      capitalCall,
+      capitalCall: result.capitalCall,
+      lpAllocations: result.lpAllocations || [],
       message: `Capital call of ${callAmountInDollars.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} created successfully`
     });
 
@@ -0,0 +1,206 @@
+/**
+ * Capital Call Schedule Routes
+ *
+ * Recurring capital calls on an allocation (e.g. quarterly), with per-occurrence overrides and
+ * "this and following" edits. Occurrences are issued as capital calls ahead of their call date.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { insertCapitalCallScheduleSchema } from '@shared/schema';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { sendServiceError } from '../utils/error-handler';
+import { capitalCallScheduleService } from '../services/capital-call-schedule.service';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schemas
+const dateSchema = z.string().datetime({ offset: true }).or(z.string().date()).transform(val => new Date(val));
+const scopeSchema = z.enum(['this', 'following']).default('this');
+
+const updateScheduleSchema = z.object({
+  recurrenceRule: z.string().min(1).optional(),
+  startDate: dateSchema.optional(),
+  callAmount: z.number().positive().optional(),
+  amountType: z.enum(['percentage', 'dollar']).optional(),
+  dueDays: z.number().int().min(0).optional(),
+  notes: z.string().nullish()
+});
+
+const updateOccurrenceSchema = z.object({
+  scope: scopeSchema,
+  callDate: dateSchema.optional(),
+  dueDate: dateSchema.nullish(),
+  callAmount: z.number().positive().optional(),
+  notes: z.string().nullish(),
+  recurrenceRule: z.string().min(1).optional()
+});
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+const parseOccurrence = (req: Request) => {
+  const id = parseId(req.params.id);
+  const occurrenceDate = new Date(req.params.occurrenceDate);
+  return id === null || isNaN(occurrenceDate.getTime()) ? null : { id, occurrenceDate };
+};
+
+/**
+ * GET /api/capital-call-schedules - List schedules, optionally for one allocation
+ */
+router.get('/', requireAuth, requirePermission('view', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const allocationId = req.query.allocationId ? parseId(String(req.query.allocationId)) : undefined;
+    if (allocationId === null) {
+      return res.status(400).json({ error: 'Invalid allocation ID' });
+    }
+    res.json(await capitalCallScheduleService.list(allocationId));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch capital call schedules');
+  }
+});
+
+/**
+ * POST /api/capital-call-schedules - Create a schedule; the rule defaults to the configured call frequency
+ */
+router.post('/', requireAuth, requirePermission('create', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const validationResult = insertCapitalCallScheduleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const schedule = await capitalCallScheduleService.create(validationResult.data, (req as any).user.id);
+    res.status(201).json(schedule);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create capital call schedule');
+  }
+});
+
+/**
+ * GET /api/capital-call-schedules/:id - A schedule with its overrides
+ */
+router.get('/:id', requireAuth, requirePermission('view', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid schedule ID' });
+    }
+    res.json(await capitalCallScheduleService.get(id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch capital call schedule');
+  }
+});
+
+/**
+ * GET /api/capital-call-schedules/:id/occurrences - Occurrences due between startDate and endDate (default: the next year)
+ */
+router.get('/:id/occurrences', requireAuth, requirePermission('view', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    const from = req.query.startDate ? new Date(String(req.query.startDate)) : new Date();
+    const to = req.query.endDate ? new Date(String(req.query.endDate)) : new Date(from.getTime() + 365 * DAY_MS);
+    if (id === null || isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'Invalid schedule ID or date range' });
+    }
+
+    const schedule = await capitalCallScheduleService.get(id);
+    const occurrences = await capitalCallScheduleService.getOccurrences({ from, to }, [schedule.allocationId]);
+    res.json(occurrences.filter(occurrence => occurrence.scheduleId === id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch capital call schedule occurrences');
+  }
+});
+
+/**
+ * PUT /api/capital-call-schedules/:id - Edit the whole schedule
+ */
+router.put('/:id', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid schedule ID' });
+    }
+
+    const validationResult = updateScheduleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    res.json(await capitalCallScheduleService.update(id, validationResult.data));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update capital call schedule');
+  }
+});
+
+/**
+ * DELETE /api/capital-call-schedules/:id - Delete a schedule; capital calls already issued are kept
+ */
+router.delete('/:id', requireAuth, requirePermission('delete', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid schedule ID' });
+    }
+    await capitalCallScheduleService.delete(id);
+    res.status(204).send();
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete capital call schedule');
+  }
+});
+
+/**
+ * PUT /api/capital-call-schedules/:id/occurrences/:occurrenceDate - Change one occurrence, or it and the following ones
+ */
+router.put('/:id/occurrences/:occurrenceDate', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const params = parseOccurrence(req);
+    if (!params) {
+      return res.status(400).json({ error: 'Invalid schedule ID or occurrence date' });
+    }
+
+    const validationResult = updateOccurrenceSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { scope, ...changes } = validationResult.data;
+    res.json(await capitalCallScheduleService.updateOccurrence(params.id, params.occurrenceDate, scope, changes));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update capital call occurrence');
+  }
+});
+
+/**
+ * DELETE /api/capital-call-schedules/:id/occurrences/:occurrenceDate?scope=this|following - Skip one occurrence, or end the schedule there
+ */
+router.delete('/:id/occurrences/:occurrenceDate', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const params = parseOccurrence(req);
+    const scope = scopeSchema.safeParse(req.query.scope);
+    if (!params || !scope.success) {
+      return res.status(400).json({ error: 'Invalid schedule ID, occurrence date or scope' });
+    }
+
+    await capitalCallScheduleService.deleteOccurrence(params.id, params.occurrenceDate, scope.data);
+    res.status(204).send();
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete capital call occurrence');
+  }
+});
+
+export default router;
@@ -82,7 +82,8 @@ router.post('/', requireAuth, requirePermission('create', 'capital_call'), async
 
     res.status(201).json({
       success: true,
-      capitalCall: result.capitalCall
+      capitalCall: result.capitalCall,
+      lpAllocations: result.lpAllocations || []
     });
 
   } catch (error) {
@@ -5,6 +5,7 @@ import { CLOSING_EVENT_STATUS } from '../constants/status-constants';
 import { requireAuth } from '../utils/auth';
 import { requirePermission } from '../utils/permissions';
 import { AppError } from '../utils/error-handler';
+import { domainEvents } from '../services/events/domain-events';
 
 const router = Router();
 const storage = StorageFactory.getStorage();
@@ -112,6 +113,14 @@ router.post('/', requireAuth, requirePermission('create', 'closingEvent'), async
         closingEventType: [closingEvent.eventType]
       }
     });
+
+    domainEvents.emit('closing.scheduled', {
+      closingEventId: closingEvent.id,
+      dealId: closingEvent.dealId,
+      eventName: closingEvent.eventName,
+      scheduledDate: closingEvent.scheduledDate,
+      actorId: req.user?.id ?? closingEvent.createdBy
+    });
     
     res.status(201).json(closingEvent);
   } catch (error) {
@@ -158,6 +167,14 @@ router.patch('/:id/status', requireAuth, requirePermission('edit', 'closingEvent
         }
       });
     }
+
+    domainEvents.emit('closing.status_changed', {
+      closingEventId: updatedEvent.id,
+      dealId: updatedEvent.dealId,
+      eventName: updatedEvent.eventName,
+      status,
+      actorId: req.user?.id ?? updatedEvent.createdBy
+    });
     
     res.json(updatedEvent);
   } catch (error) {
@@ -219,6 +236,14 @@ router.patch('/:id/date', requireAuth, requirePermission('edit', 'closingEvent')
         closingEventType: [updatedEvent.eventType]
       }
     });
+
+    domainEvents.emit('closing.rescheduled', {
+      closingEventId: updatedEvent.id,
+      dealId: updatedEvent.dealId,
+      eventName: updatedEvent.eventName,
+      scheduledDate: parsedDate,
+      actorId: userId
+    });
     
     res.json(updatedEvent);
   } catch (error) {
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { requireAuth } from "../../utils/auth";
 import { requirePermission } from "../../utils/permissions";
 import { StorageFactory } from "../../storage-factory";
+import { domainEvents } from "../../services/events/domain-events";
 
 const router = Router();
 
@@ -56,6 +57,12 @@ router.post('/:id/assign', requirePermission('edit', 'deal'), async (req: Reques
       createdBy: currentUser?.id || 1,
       metadata: { assignedUserId: userId }
     });
+
+    domainEvents.emit('deal.assigned', {
+      dealId,
+      assigneeId: user.id,
+      actorId: currentUser?.id || 1
+    });
     
     res.json({ message: 'User assigned successfully' });
   } catch (error) {
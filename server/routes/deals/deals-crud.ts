@@ -1,15 +1,16 @@
 import { Router, Request, Response } from "express";
-import { 
-  insertDealSchema, 
-  DealStageLabels
-} from "@shared/schema";
-import type { DealAssignment, DealStar, MiniMemo } from "@shared/schema";
+import { insertDealSchema } from "@shared/schema";
+import type { DealAssignment, DealStar, MiniMemo, PipelineStage } from "@shared/schema";
 import { z } from "zod";
 import { IStorage } from "../../storage";
 import { requireAuth } from "../../utils/auth";
 import { requirePermission } from "../../utils/permissions";
 import { dealService } from "../../services";
+import { pipelineService } from "../../services/pipeline.service";
+import { dealBoardService } from "../../services/deal-board.service";
+import { ApplicationError } from "../../services/type-definitions";
 import { StorageFactory } from "../../storage-factory";
+import { domainEvents } from "../../services/events/domain-events";
 
 const router = Router();
 
@@ -18,6 +19,21 @@ function getStorage(): IStorage {
   return StorageFactory.getStorage();
 }
 
+// Unknown pipelines or stages and failed stage gates; failed gates are listed for the UI
+function sendStageError(res: Response, error: ApplicationError) {
+  return res.status(error.statusCode).json({ message: error.message, code: error.code, ...error.context });
+}
+
+const stageTransitionSchema = z.object({
+  stage: z.string().min(1),
+  beforeDealId: z.number().int().nullish(),
+  rejection: z.object({
+    category: z.string().min(1),
+    reason: z.string().min(1),
+    additionalNotes: z.string().optional()
+  }).optional()
+});
+
 // Get all deals or filter by stage
 router.get('/', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -25,8 +41,8 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
     let deals;
     
     if (req.query.stage) {
-      // Validate stage parameter
-      const validStages = ["initial_review", "screening", "diligence", "ic_review", "closing", "closed", "invested", "rejected"];
+      // Validate stage parameter against the stages of every pipeline
+      const validStages = await pipelineService.getStageKeys();
       const stage = req.query.stage as string;
       if (!validStages.includes(stage)) {
         return res.status(400).json({ error: `Invalid stage. Must be one of: ${validStages.join(', ')}` });
@@ -38,10 +54,11 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
     
     // Optimize: Get all supplementary data in 3 batch queries instead of N+1 queries
     const dealIds = deals.map(d => d.id);
-    const [allAssignments, allStars, allMiniMemos] = await Promise.all([
+    const [allAssignments, allStars, allMiniMemos, stageLabel] = await Promise.all([
       Promise.all(dealIds.map(id => storage.getDealAssignments(id))).then(results => results.flat()),
       storage.getDealStarsBatch(dealIds),
-      storage.getMiniMemosBatch(dealIds)
+      storage.getMiniMemosBatch(dealIds),
+      pipelineService.getStageLabeler()
     ]);
     
     // Group data by dealId for efficient lookup
@@ -84,7 +101,7 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
       
       return {
         ...deal,
-        stageLabel: DealStageLabels[deal.stage as keyof typeof DealStageLabels] || deal.stage,
+        stageLabel: stageLabel(deal),
         assignedUsers: assignments.map((a: DealAssignment) => a.userId),
         starCount: stars.length,
         score
@@ -128,6 +145,7 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
     const timelineEvents = await storage.getTimelineEventsByDeal(deal.id);
     const miniMemos = await storage.getMiniMemosByDeal(deal.id);
     const allocations = await storage.getAllocationsByDeal(deal.id);
+    const pipeline = await pipelineService.getForDeal(deal);
     
     // Get assigned users with details
     const assignedUserIds = assignments.map(a => a.userId);
@@ -149,7 +167,8 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
     
     res.json({
       ...deal,
-      stageLabel: DealStageLabels[deal.stage],
+      stageLabel: pipeline.stages.find(stage => stage.key === deal.stage)?.label ?? deal.stage,
+      pipelineName: pipeline.name,
       assignedUsers,
       starCount: stars.length,
       timelineEvents,
@@ -176,6 +195,10 @@ router.post('/', requirePermission('create', 'deal'), async (req: Request, res:
       ...req.body,
       createdBy: user.id
     });
+
+    // New deals start in the first stage of their pipeline unless a stage is given
+    const { stage } = await pipelineService.validateStageChange(null, dealData);
+    dealData.stage = stage.key;
     
     const storage = getStorage();
     const newDeal = await storage.createDeal(dealData);
@@ -194,12 +217,17 @@ router.post('/', requirePermission('create', 'deal'), async (req: Request, res:
       createdBy: user.id,
       metadata: {}
     });
+
+    domainEvents.emit('deal.created', { dealId: newDeal.id, actorId: user.id });
     
     res.status(201).json(newDeal);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: 'Invalid deal data', errors: error.errors });
     }
+    if (error instanceof ApplicationError) {
+      return sendStageError(res, error);
+    }
     res.status(500).json({ message: 'Failed to create deal', error: String(error) });
   }
 });
@@ -222,6 +250,14 @@ router.patch('/:id', requirePermission('edit', 'deal'), async (req: Request, res
       ...req.body,
       ...(req.body.stage && { createdBy: user.id })
     });
+
+    // Moving stage or pipeline must land on a stage of the deal's pipeline whose gates pass
+    let targetStage: PipelineStage | undefined;
+    if (dealUpdate.stage !== undefined || dealUpdate.pipelineId !== undefined) {
+      const { stage } = await pipelineService.validateStageChange(deal, dealUpdate);
+      dealUpdate = { ...dealUpdate, stage: stage.key };
+      targetStage = stage;
+    }
     
     const updatedDeal = await storage.updateDeal(dealId, dealUpdate);
     
@@ -230,16 +266,24 @@ router.patch('/:id', requirePermission('edit', 'deal'), async (req: Request, res
     }
     
     // Create timeline event for significant changes
-    if (req.body.stage && req.body.stage !== deal.stage) {
+    if (targetStage && targetStage.key !== deal.stage) {
       await storage.createTimelineEvent({
         dealId: dealId,
         eventType: 'stage_change',
-        content: `${user.fullName || 'System'} moved deal to ${DealStageLabels[req.body.stage as keyof typeof DealStageLabels] || req.body.stage}`,
+        content: `${user.fullName || 'System'} moved deal to ${targetStage.label}`,
         createdBy: user.id,
         metadata: {
           oldStage: deal.stage,
-          newStage: req.body.stage
-        }
+          newStage: targetStage.key
+        } as Record<string, any>
+      });
+
+      domainEvents.emit('deal.stage_changed', {
+        dealId,
+        fromStage: deal.stage,
+        toStage: targetStage.key,
+        toCategory: targetStage.category,
+        actorId: user.id
       });
     }
     
@@ -248,10 +292,36 @@ router.patch('/:id', requirePermission('edit', 'deal'), async (req: Request, res
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: 'Invalid update data', errors: error.errors });
     }
+    if (error instanceof ApplicationError) {
+      return sendStageError(res, error);
+    }
     res.status(500).json({ message: 'Failed to update deal' });
   }
 });
 
+// Move a deal to a stage and position on the pipeline board
+router.post('/:id/transition', requirePermission('edit', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const dealId = Number(req.params.id);
+    if (isNaN(dealId)) {
+      return res.status(400).json({ message: 'Invalid deal ID' });
+    }
+
+    const validationResult = stageTransitionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: 'Invalid stage transition', errors: validationResult.error.errors });
+    }
+
+    const user = (req as any).user;
+    res.json(await dealBoardService.moveDeal(dealId, validationResult.data, user));
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return sendStageError(res, error);
+    }
+    res.status(500).json({ message: 'Failed to move deal' });
+  }
+});
+
 // Delete a deal
 router.delete('/:id', requirePermission('delete', 'deal'), async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,141 @@
+/**
+ * Deal Import Routes
+ *
+ * Bulk deal import from CSV/Excel: upload, map columns, dry-run preview, then commit through the job queue
+ */
+
+import { Router, Request, Response } from 'express';
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { requireAuth } from '../../utils/auth';
+import { requirePermission } from '../../utils/permissions';
+import { sendServiceError } from '../../utils/error-handler';
+import { uploadLimiter } from '../../middleware/upload-limits';
+import { dealImportService, DEAL_IMPORT_FIELDS } from '../../services/deal-import.service';
+
+const router = Router();
+
+// Validation schemas
+const mappingSchema = z.record(z.string(), z.enum(DEAL_IMPORT_FIELDS));
+
+const previewImportSchema = z.object({
+  mapping: mappingSchema
+});
+
+const commitImportSchema = z.object({
+  mapping: mappingSchema,
+  skipInvalid: z.boolean().default(false)
+});
+
+function parseImportId(req: Request): number | null {
+  const id = parseInt(req.params.id);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * POST /api/deals/import/upload - Upload a CSV/Excel file and get its columns and a suggested mapping
+ * Multipart form: `file`, optional `sheetName` for Excel workbooks
+ */
+router.post('/import/upload', requireAuth, requirePermission('create', 'deal'), uploadLimiter.single('file'), async (req: Request, res: Response) => {
+  const file = req.file;
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!file) {
+      return res.status(400).json({ error: 'CSV or Excel file is required' });
+    }
+
+    const sheetName = typeof req.body.sheetName === 'string' && req.body.sheetName ? req.body.sheetName : undefined;
+    const result = await dealImportService.createImport(file, userId, sheetName);
+    res.status(201).json({
+      ...result.import,
+      sampleRows: result.sampleRows,
+      suggestedMapping: result.suggestedMapping,
+      fields: result.fields
+    });
+  } catch (error) {
+    // The service moves the file into the import directory on success
+    if (file) {
+      await fs.unlink(file.path).catch(() => undefined);
+    }
+    sendServiceError(res, error, 'Failed to upload import file');
+  }
+});
+
+/**
+ * POST /api/deals/import/:id/preview - Dry run: validate every row with the given column mapping
+ */
+router.post('/import/:id/preview', requireAuth, requirePermission('create', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const id = parseImportId(req);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid import ID' });
+    }
+
+    const validationResult = previewImportSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const preview = await dealImportService.previewImport(id, validationResult.data.mapping, userId);
+    res.json(preview);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to preview import');
+  }
+});
+
+/**
+ * POST /api/deals/import/:id/commit - Queue the import; all deals are created in one transaction
+ */
+router.post('/import/:id/commit', requireAuth, requirePermission('create', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const id = parseImportId(req);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid import ID' });
+    }
+
+    const validationResult = commitImportSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { mapping, skipInvalid } = validationResult.data;
+    const queued = await dealImportService.queueImport(id, mapping, skipInvalid);
+    res.status(202).json(queued);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to queue import');
+  }
+});
+
+/**
+ * GET /api/deals/import/:id - Import status, counts and per-row errors
+ */
+router.get('/import/:id', requireAuth, requirePermission('create', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const id = parseImportId(req);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid import ID' });
+    }
+
+    const record = await dealImportService.getImport(id);
+    res.json(record);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch import');
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import { insertMiniMemoSchema, insertMemoCommentSchema } from "@shared/schema";
 import { requireAuth } from "../../utils/auth";
 import { requirePermission } from "../../utils/permissions";
 import { StorageFactory } from "../../storage-factory";
+import { domainEvents } from "../../services/events/domain-events";
 
 const router = Router();
 
@@ -41,6 +42,12 @@ router.post('/:id/memos', requirePermission('create', 'deal'), async (req: Reque
     
     const storage = getStorage();
     const newMemo = await storage.createMiniMemo(memoData);
+
+    domainEvents.emit('memo.created', {
+      dealId,
+      memoId: newMemo.id,
+      actorId: user.id
+    });
     
     res.status(201).json(newMemo);
   } catch (error) {
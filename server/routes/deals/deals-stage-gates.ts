@@ -0,0 +1,85 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { requireAuth, requireRole } from "../../utils/auth";
+import { sendServiceError } from "../../utils/error-handler";
+import { StorageFactory } from "../../storage-factory";
+import { pipelineService } from "../../services/pipeline.service";
+import { icVoteService } from "../../services/ic-vote.service";
+
+const router = Router();
+
+function getStorage() {
+  return StorageFactory.getStorage();
+}
+
+const icVoteSchema = z.object({
+  vote: z.enum(["approve", "reject", "abstain"]),
+  comment: z.string().nullish()
+});
+
+// Gate results for each stage of the deal's pipeline
+router.get('/:id/stage-gates', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const dealId = Number(req.params.id);
+    const deal = isNaN(dealId) ? undefined : await getStorage().getDeal(dealId);
+    if (!deal) {
+      return res.status(404).json({ message: 'Deal not found' });
+    }
+
+    res.json(await pipelineService.getGateStatus(deal));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch stage gates');
+  }
+});
+
+// Get IC votes for a deal with the tally
+router.get('/:id/ic-votes', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const dealId = Number(req.params.id);
+    if (isNaN(dealId)) {
+      return res.status(400).json({ message: 'Invalid deal ID' });
+    }
+
+    const [votes, tally] = await Promise.all([icVoteService.list(dealId), icVoteService.tally(dealId)]);
+    res.json({ votes, tally, passed: icVoteService.hasPassed(tally) });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch IC votes');
+  }
+});
+
+// Cast or change the current user's IC vote
+router.put('/:id/ic-votes', requireRole(['admin', 'partner']), async (req: Request, res: Response) => {
+  try {
+    const dealId = Number(req.params.id);
+    if (isNaN(dealId)) {
+      return res.status(400).json({ message: 'Invalid deal ID' });
+    }
+
+    const validationResult = icVoteSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: 'Invalid vote', errors: validationResult.error.errors });
+    }
+
+    const { vote, comment } = validationResult.data;
+    res.json(await icVoteService.cast(dealId, req.session.userId!, vote, comment));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to record IC vote');
+  }
+});
+
+// Withdraw the current user's IC vote
+router.delete('/:id/ic-votes', requireRole(['admin', 'partner']), async (req: Request, res: Response) => {
+  try {
+    const dealId = Number(req.params.id);
+    if (isNaN(dealId)) {
+      return res.status(400).json({ message: 'Invalid deal ID' });
+    }
+
+    await icVoteService.withdraw(dealId, req.session.userId!);
+    res.status(204).send();
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to withdraw IC vote');
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+/**
+ * Deal Term Sheet Routes
+ *
+ * Extract terms from a deal's term sheets through the job queue, review the deal and allocation
+ * fields they would change, then accept the selected changes or reject the extraction
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../../utils/auth';
+import { requirePermission } from '../../utils/permissions';
+import { sendServiceError } from '../../utils/error-handler';
+import { termSheetService } from '../../services/term-sheet.service';
+import { NotFoundError } from '../../services/type-definitions';
+
+const router = Router();
+
+// Validation schemas
+const queueExtractionSchema = z.object({
+  documentId: z.number().int().positive()
+});
+
+const acceptChangesSchema = z.object({
+  changes: z.array(z.object({
+    target: z.enum(['deal', 'allocation']),
+    field: z.string().min(1)
+  })).min(1),
+  allocationId: z.number().int().positive().optional()
+});
+
+// The extraction, if it belongs to the deal in the URL
+async function getDealExtraction(req: Request) {
+  const dealId = parseInt(req.params.id);
+  const extractionId = parseInt(req.params.extractionId);
+  const extraction = await termSheetService.getExtraction(extractionId);
+  if (extraction.dealId !== dealId) {
+    throw new NotFoundError('Term sheet extraction', extractionId);
+  }
+  return extraction;
+}
+
+/**
+ * GET /api/deals/:id/term-sheets - Term sheet extractions of the deal, newest first
+ */
+router.get('/:id/term-sheets', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const dealId = parseInt(req.params.id);
+    if (isNaN(dealId)) {
+      return res.status(400).json({ error: 'Invalid deal ID' });
+    }
+
+    res.json(await termSheetService.listForDeal(dealId));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch term sheet extractions');
+  }
+});
+
+/**
+ * POST /api/deals/:id/term-sheets - Queue extraction of one of the deal's term sheet documents
+ */
+router.post('/:id/term-sheets', requireAuth, requirePermission('edit', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const dealId = parseInt(req.params.id);
+    if (isNaN(dealId)) {
+      return res.status(400).json({ error: 'Invalid deal ID' });
+    }
+
+    const validationResult = queueExtractionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const queued = await termSheetService.queueExtraction(dealId, validationResult.data.documentId, req.session.userId!);
+    res.status(202).json(queued);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to queue term sheet extraction');
+  }
+});
+
+/**
+ * GET /api/deals/:id/term-sheets/:extractionId - An extraction with the changes it proposes
+ * Query: `allocationId` to include changes to one of the deal's allocations
+ */
+router.get('/:id/term-sheets/:extractionId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const extraction = await getDealExtraction(req);
+    const allocationId = req.query.allocationId ? parseInt(req.query.allocationId as string) : undefined;
+    if (allocationId !== undefined && isNaN(allocationId)) {
+      return res.status(400).json({ error: 'Invalid allocation ID' });
+    }
+
+    const changes = extraction.status === 'extracted'
+      ? await termSheetService.proposeChanges(extraction, allocationId)
+      : extraction.appliedChanges;
+    res.json({ extraction, changes });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch term sheet extraction');
+  }
+});
+
+/**
+ * POST /api/deals/:id/term-sheets/:extractionId/accept - Apply the selected proposed changes
+ */
+router.post('/:id/term-sheets/:extractionId/accept', requireAuth, requirePermission('edit', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const extraction = await getDealExtraction(req);
+
+    const validationResult = acceptChangesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { changes, allocationId } = validationResult.data;
+    res.json(await termSheetService.acceptChanges(extraction.id, req.session.userId!, changes, allocationId));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to apply term sheet changes');
+  }
+});
+
+/**
+ * POST /api/deals/:id/term-sheets/:extractionId/reject - Close the extraction without changing the deal
+ */
+router.post('/:id/term-sheets/:extractionId/reject', requireAuth, requirePermission('edit', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const extraction = await getDealExtraction(req);
+    res.json(await termSheetService.rejectExtraction(extraction.id, req.session.userId!));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to reject term sheet extraction');
+  }
+});
+
+export default router;
@@ -4,14 +4,21 @@ import dealsAssignmentsRoutes from './deals-assignments';
 import dealsTimelineRoutes from './deals-timeline';
 import dealsStarsRoutes from './deals-stars';
 import dealsMemosRoutes from './deals-memos';
+import dealsImportRoutes from './deals-import';
+import dealsStageGatesRoutes from './deals-stage-gates';
+import dealsTermSheetsRoutes from './deals-term-sheets';
 
 const router = Router();
 
 // Mount all deal-related route modules
+// Import routes first so /import/* is not captured by /:id
+router.use('/', dealsImportRoutes);
 router.use('/', dealsCrudRoutes);
 router.use('/', dealsAssignmentsRoutes);
 router.use('/', dealsTimelineRoutes);
 router.use('/', dealsStarsRoutes);
 router.use('/', dealsMemosRoutes);
+router.use('/', dealsStageGatesRoutes);
+router.use('/', dealsTermSheetsRoutes);
 
 export default router; 
\ No newline at end of file
@@ -5,11 +5,33 @@ import { distributions, fundAllocations, funds, deals } from '../../shared/schem
 import { z } from 'zod';
 import { eq } from 'drizzle-orm';
 import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
 import { DatabaseStorage } from '../database-storage';
+import { waterfallService } from '../services/waterfall.service';
+import { ApplicationError } from '../services/type-definitions';
 
 const router = Router();
 const storage = new DatabaseStorage();
 
+// Waterfall config validation schema
+const waterfallConfigSchema = z.object({
+  waterfallType: z.enum(['european', 'american']),
+  preferredReturnRate: z.number().min(0),
+  catchUpPercentage: z.number().min(0).max(1),
+  carriedInterestRate: z.number().min(0).max(1)
+});
+
+/**
+ * Recalculate waterfall tranches for the allocation's fund without failing the request
+ */
+async function recalculateWaterfall(allocationId: number) {
+  try {
+    await waterfallService.recalculateForAllocation(allocationId);
+  } catch (error) {
+    console.error(`Error recalculating waterfall for allocation ${allocationId}:`, error);
+  }
+}
+
 // Distribution validation schema
 const insertDistributionSchema = createInsertSchema(distributions).omit({
   id: true,
@@ -76,7 +98,11 @@ router.post('/', requireAuth, async (req, res) => {
     // Recalculate allocation metrics to update distributionPaid field
     await storage.recalculateAllocationMetrics(validatedData.allocationId);
     
-    res.status(201).json(distribution);
+    // Break the distribution down into LP and GP tranches
+    await recalculateWaterfall(validatedData.allocationId);
+    const waterfall = await waterfallService.getDistributionWaterfall(distribution.id);
+    
+    res.status(201).json({ ...distribution, waterfall });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ 
@@ -104,6 +130,7 @@ router.put('/:id', requireAuth, async (req, res) => {
     
     // Recalculate allocation metrics after update
     await storage.recalculateAllocationMetrics(updatedDistribution.allocationId);
+    await recalculateWaterfall(updatedDistribution.allocationId);
     
     res.json(updatedDistribution);
   } catch (error) {
@@ -133,6 +160,7 @@ router.delete('/:id', requireAuth, async (req, res) => {
     
     // Recalculate allocation metrics after deletion
     await storage.recalculateAllocationMetrics(distribution.allocationId);
+    await recalculateWaterfall(distribution.allocationId);
     
     res.json({ message: 'Distribution deleted successfully' });
   } catch (error) {
@@ -205,4 +233,66 @@ router.get('/summary/deal/:dealId', requireAuth, async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Get LP/GP waterfall breakdown for a distribution
+router.get('/:id/waterfall', requireAuth, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const waterfall = await waterfallService.getDistributionWaterfall(id);
+    if (!waterfall) {
+      return res.status(404).json({ message: 'Waterfall not found for distribution' });
+    }
+    res.json(waterfall);
+  } catch (error) {
+    console.error('Error fetching distribution waterfall:', error);
+    res.status(500).json({ message: 'Failed to fetch distribution waterfall' });
+  }
+});
+
+// Get waterfall totals and carry accrued for a fund
+router.get('/waterfall/fund/:fundId', requireAuth, async (req, res) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    const summary = await waterfallService.getFundSummary(fundId);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error fetching fund waterfall summary:', error);
+    res.status(500).json({ message: 'Failed to fetch fund waterfall summary' });
+  }
+});
+
+// Get waterfall terms for a fund
+router.get('/waterfall/config/:fundId', requireAuth, async (req, res) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    const terms = await waterfallService.getTerms(fundId);
+    res.json(terms);
+  } catch (error) {
+    console.error('Error fetching waterfall config:', error);
+    res.status(500).json({ message: 'Failed to fetch waterfall config' });
+  }
+});
+
+// Set waterfall terms for a fund and recalculate its distributions
+router.put('/waterfall/config/:fundId', requireAuth, requirePermission('edit', 'fund'), async (req, res) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    const validatedData = waterfallConfigSchema.parse(req.body);
+    const config = await waterfallService.upsertConfig(fundId, validatedData);
+    res.json(config);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Invalid waterfall config', 
+        errors: error.errors 
+      });
+    }
+    if (error instanceof ApplicationError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    
+    console.error('Error updating waterfall config:', error);
+    res.status(500).json({ message: 'Failed to update waterfall config' });
+  }
+});
+
+export default router;
@@ -1,8 +1,11 @@
 import express from 'express';
 import multer from 'multer';
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { databaseDocumentStorage } from '../services/database-document-storage.js';
+import { ValidationError } from '../services/type-definitions.js';
+import { llmService } from '../services/llm.service.js';
+import { termSheetService } from '../services/term-sheet.service.js';
 import { requireAuth } from '../utils/auth.js';
 import { apiRateLimiter } from '../middleware/rateLimit.js';
 import DOMPurify from 'isomorphic-dompurify';
@@ -151,6 +154,13 @@ router.post('/upload', requireAuth, handleUpload, async (req, res) => {
     }
 
     console.log(`✓ Document uploaded successfully: ID ${newDocument.id}, stored in database`);
+
+    // Term sheets are read in the background; the deal changes wait for review
+    if (newDocument.documentType === 'term_sheet' && llmService.isConfigured()) {
+      await termSheetService.queueExtraction(newDocument.dealId, newDocument.id, userId).catch(error => {
+        console.error(`Failed to queue term sheet extraction for document ${newDocument.id}:`, error);
+      });
+    }
     
     const responseData = {
       id: newDocument.id,
@@ -427,6 +437,7 @@ router.get('/:id', requireAuth, async (req, res) => {
       uploadedAt: document.uploadedAt,
       uploadedBy: document.uploadedBy,
       dealId: document.dealId,
+      version: document.version,
       hasFileData: !!document.fileData,
       downloadUrl: `/api/documents/${document.id}/download`,
       viewUrl: `/api/documents/${document.id}/view`
@@ -459,6 +470,7 @@ router.get('/deal/:dealId', requireAuth, async (req, res) => {
       description: doc.description,
       uploadedAt: doc.uploadedAt,
       uploadedBy: doc.uploadedBy,
+      version: doc.version,
       hasFileData: !!doc.fileData, // Indicate if file has data in database
       // Add download/view URLs
       downloadUrl: `/api/documents/${doc.id}/download`,
@@ -474,6 +486,7 @@ router.get('/deal/:dealId', requireAuth, async (req, res) => {
 });
 
 // Update document metadata (shared handler for both PATCH and PUT)
+// A new file is stored as the next version; earlier versions stay available in the history
 const updateDocumentHandler = async (req: any, res: any) => {
   try {
     const documentId = parseInt(req.params.id);
@@ -482,10 +495,10 @@ const updateDocumentHandler = async (req: any, res: any) => {
       return res.status(400).json({ error: 'Invalid document ID' });
     }
 
-    const { fileName, description, documentType } = req.body;
+    const { fileName, description, documentType, changeNote } = req.body;
 
     // Build update object only with provided fields to avoid overwriting with undefined
-    const updateData: any = { uploadedAt: new Date() };
+    const updateData: any = {};
     
     if (fileName !== undefined && fileName !== '') {
       updateData.fileName = DOMPurify.sanitize(fileName);
@@ -497,9 +510,16 @@ const updateDocumentHandler = async (req: any, res: any) => {
       updateData.documentType = documentType;
     }
 
+    let updatedDocument;
+
     // Handle file replacement if a new file is uploaded
     if (req.file) {
-      console.log(`📝 Replacing file for document ${documentId}: ${req.file.originalname} (${req.file.size} bytes)`);
+      const userId = req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      console.log(`📝 New version for document ${documentId}: ${req.file.originalname} (${req.file.size} bytes)`);
       
       // Validate the new file
       const validation = await databaseDocumentStorage.validateFile(
@@ -512,19 +532,19 @@ const updateDocumentHandler = async (req: any, res: any) => {
         return res.status(400).json({ error: validation.reason });
       }
 
-      // Add file data to update
-      updateData.fileData = req.file.buffer.toString('base64');
-      updateData.fileType = req.file.mimetype;
-      updateData.fileSize = req.file.size;
-      updateData.filePath = null; // Clear old filesystem path since we're using database storage
-      
-      // Use the new filename if not provided separately
-      if (!updateData.fileName) {
-        updateData.fileName = DOMPurify.sanitize(req.file.originalname);
-      }
+      updatedDocument = await databaseDocumentStorage.addDocumentVersion(documentId, {
+        fileName: DOMPurify.sanitize(req.file.originalname),
+        fileType: req.file.mimetype,
+        fileSize: req.file.size,
+        fileBuffer: await fs.readFile(req.file.path),
+        uploadedBy: userId,
+        changeNote
+      });
     }
 
-    const updatedDocument = await databaseDocumentStorage.updateDocument(documentId, updateData);
+    if (Object.keys(updateData).length > 0 || !req.file) {
+      updatedDocument = await databaseDocumentStorage.updateDocument(documentId, updateData);
+    }
 
     if (!updatedDocument) {
       return res.status(404).json({ error: 'Document not found' });
@@ -539,12 +559,17 @@ const updateDocumentHandler = async (req: any, res: any) => {
       documentType: updatedDocument.documentType,
       description: updatedDocument.description,
       uploadedAt: updatedDocument.uploadedAt,
+      version: updatedDocument.version,
       message: 'Document updated successfully'
     });
 
   } catch (error) {
     console.error('Error updating document:', error);
     res.status(500).json({ error: 'Internal server error during update' });
+  } finally {
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(() => undefined);
+    }
   }
 };
 
@@ -554,6 +579,177 @@ router.patch('/:id', requireAuth, upload.single('file'), updateDocumentHandler);
 // Update document metadata (PUT) - same functionality as PATCH
 router.put('/:id', requireAuth, upload.single('file'), updateDocumentHandler);
 
+// Get version history for a document
+router.get('/:id/versions', requireAuth, async (req, res) => {
+  try {
+    const documentId = parseInt(req.params.id);
+
+    if (isNaN(documentId)) {
+      return res.status(400).json({ error: 'Invalid document ID' });
+    }
+
+    const versions = await databaseDocumentStorage.getDocumentVersions(documentId);
+
+    if (!versions) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json(versions.map(version => ({
+      ...version,
+      downloadUrl: `/api/documents/${documentId}/versions/${version.version}/download`
+    })));
+
+  } catch (error) {
+    console.error('Error getting document versions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download a specific version of a document
+router.get('/:id/versions/:version/download', requireAuth, async (req, res) => {
+  try {
+    const documentId = parseInt(req.params.id);
+    const version = parseInt(req.params.version);
+
+    if (isNaN(documentId) || isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid document ID or version' });
+    }
+
+    const content = await databaseDocumentStorage.getVersionContent(documentId, version);
+
+    if (!content) {
+      return res.status(404).json({ error: 'Document version not found' });
+    }
+
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
+    res.setHeader('Content-Type', content.fileType);
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(content.fileName)}"`);
+
+    if (content.fileData) {
+      const fileBuffer = Buffer.from(content.fileData, 'base64');
+      res.setHeader('Content-Length', fileBuffer.length.toString());
+      return res.send(fileBuffer);
+    }
+
+    // Versions recorded from legacy filesystem documents
+    if (content.filePath && !content.filePath.startsWith('database://')) {
+      const fullPath = resolve(content.filePath);
+      const fileBuffer = await fs.readFile(fullPath).catch(() => null);
+      if (fileBuffer) {
+        return res.send(fileBuffer);
+      }
+    }
+
+    res.removeHeader('Content-Disposition');
+    return res.status(410).json({ error: 'Document version content not available' });
+
+  } catch (error) {
+    console.error('Error downloading document version:', error);
+    res.status(500).json({ error: 'Internal server error during download' });
+  }
+});
+
+// Upload a new version of a document
+router.post('/:id/versions', requireAuth, handleUpload, async (req, res) => {
+  try {
+    const documentId = parseInt(req.params.id);
+
+    if (isNaN(documentId)) {
+      return res.status(400).json({ error: 'Invalid document ID' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validation = await databaseDocumentStorage.validateFile(
+      req.file.originalname,
+      req.file.mimetype,
+      req.file.size
+    );
+
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.reason });
+    }
+
+    const updatedDocument = await databaseDocumentStorage.addDocumentVersion(documentId, {
+      fileName: DOMPurify.sanitize(req.file.originalname),
+      fileType: req.file.mimetype,
+      fileSize: req.file.size,
+      fileBuffer: await fs.readFile(req.file.path),
+      uploadedBy: userId,
+      changeNote: typeof req.body.changeNote === 'string' ? req.body.changeNote : undefined
+    });
+
+    if (!updatedDocument) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.status(201).json({
+      id: updatedDocument.id,
+      fileName: updatedDocument.fileName,
+      fileType: updatedDocument.fileType,
+      fileSize: updatedDocument.fileSize,
+      version: updatedDocument.version,
+      uploadedAt: updatedDocument.uploadedAt,
+      message: 'New version uploaded successfully'
+    });
+
+  } catch (error) {
+    console.error('Error uploading document version:', error);
+    res.status(500).json({ error: 'Internal server error during upload' });
+  } finally {
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(() => undefined);
+    }
+  }
+});
+
+// Restore an older version as the current one (recorded as a new version)
+router.post('/:id/versions/:version/restore', requireAuth, async (req, res) => {
+  try {
+    const documentId = parseInt(req.params.id);
+    const version = parseInt(req.params.version);
+
+    if (isNaN(documentId) || isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid document ID or version' });
+    }
+
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const updatedDocument = await databaseDocumentStorage.restoreDocumentVersion(documentId, version, userId);
+
+    if (!updatedDocument) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json({
+      id: updatedDocument.id,
+      fileName: updatedDocument.fileName,
+      fileType: updatedDocument.fileType,
+      fileSize: updatedDocument.fileSize,
+      version: updatedDocument.version,
+      uploadedAt: updatedDocument.uploadedAt,
+      message: `Version ${version} restored`
+    });
+
+  } catch (error) {
+    console.error('Error restoring document version:', error);
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error during restore' });
+  }
+});
+
 // Delete document
 router.delete('/:id', requireAuth, async (req, res) => {
   try {
@@ -0,0 +1,111 @@
+/**
+ * Email Routes
+ *
+ * Ingest pitch emails as deals, from structured fields or a raw .eml upload, and manage
+ * each user's personal SMTP ingest address
+ */
+
+import { Router, Request, Response } from 'express';
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { sendServiceError } from '../utils/error-handler';
+import { uploadLimiter } from '../middleware/upload-limits';
+import { emailIngestService } from '../services/email-ingest.service';
+
+const router = Router();
+
+// Validation schemas
+const ingestEmailSchema = z.object({
+  subject: z.string().trim().min(1, 'Subject is required'),
+  sender: z.string().email('Valid sender email is required'),
+  senderName: z.string().optional(),
+  body: z.string().optional(),
+  date: z.coerce.date().optional(),
+  messageId: z.string().optional()
+});
+
+const emailUpload = uploadLimiter.fields([
+  { name: 'file', maxCount: 1 },
+  { name: 'attachments', maxCount: 4 }
+]);
+
+/**
+ * POST /api/email/ingest - Create or update a deal from an email
+ * JSON body with `subject`, `sender`, optional `senderName`, `body`, `date`, `messageId`;
+ * or multipart with a raw `file` (.eml), or the same fields plus `attachments` files
+ */
+router.post('/ingest', requireAuth, requirePermission('create', 'deal'), emailUpload, async (req: Request, res: Response) => {
+  const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+  const uploaded = Object.values(files).flat();
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const rawFile = files.file?.[0];
+    if (rawFile) {
+      const raw = await fs.readFile(rawFile.path);
+      const result = await emailIngestService.ingestRawEmail(raw, userId);
+      return res.status(result.created ? 201 : 200).json(result);
+    }
+
+    const validationResult = ingestEmailSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const attachments = await Promise.all((files.attachments || []).map(async file => ({
+      fileName: file.originalname,
+      contentType: file.mimetype,
+      content: await fs.readFile(file.path)
+    })));
+
+    const result = await emailIngestService.ingestEmail({ ...validationResult.data, attachments }, userId);
+    res.status(result.created ? 201 : 200).json(result);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to ingest email');
+  } finally {
+    await Promise.all(uploaded.map(file => fs.unlink(file.path).catch(() => undefined)));
+  }
+});
+
+/**
+ * GET /api/email/ingest-address - The current user's personal forwarding address
+ * `address` is null when SMTP ingest is not configured
+ */
+router.get('/ingest-address', requireAuth, requirePermission('create', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json({ address: await emailIngestService.getIngestAddress(userId) });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch ingest address');
+  }
+});
+
+/**
+ * POST /api/email/ingest-address/rotate - Issue a new forwarding address; the old one stops accepting mail
+ */
+router.post('/ingest-address/rotate', requireAuth, requirePermission('create', 'deal'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json({ address: await emailIngestService.rotateIngestAddress(userId) });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to rotate ingest address');
+  }
+});
+
+export default router;
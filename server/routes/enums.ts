@@ -4,6 +4,8 @@
  */
 
 import { Router } from 'express';
+import { pipelineService } from '../services/pipeline.service';
+import { sendServiceError } from '../utils/error-handler';
 
 const router = Router();
 
@@ -34,20 +36,14 @@ router.get('/capital_call_status', (req, res) => {
   res.json(statuses);
 });
 
-// Deal stages
-router.get('/deal_stages', (req, res) => {
-  const stages = [
-    { value: 'sourcing', label: 'Sourcing' },
-    { value: 'ic_review', label: 'IC Review' },
-    { value: 'due_diligence', label: 'Due Diligence' },
-    { value: 'negotiation', label: 'Negotiation' },
-    { value: 'closing', label: 'Closing' },
-    { value: 'invested', label: 'Invested' },
-    { value: 'rejected', label: 'Rejected' },
-    { value: 'passed', label: 'Passed' }
-  ];
-  
-  res.json(stages);
+// Deal stages of the default pipeline; /api/pipelines has the stages of every pipeline
+router.get('/deal_stages', async (req, res) => {
+  try {
+    const pipeline = await pipelineService.getDefault();
+    res.json(pipeline.stages.map(stage => ({ value: stage.key, label: stage.label })));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch deal stages');
+  }
 });
 
 // Security types
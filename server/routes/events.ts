@@ -0,0 +1,26 @@
+/**
+ * Events Routes
+ *
+ * Server-Sent Events stream of notifications, activity and capital call changes
+ * for the logged-in user; authenticated by the normal session cookie
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../utils/auth';
+import { realtimeService } from '../services/realtime.service';
+
+const router = Router();
+
+/**
+ * GET /api/events/stream - Open the push channel (text/event-stream)
+ */
+router.get('/stream', requireAuth, (req: Request, res: Response) => {
+  const userId = (req as any).user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  realtimeService.connect(req, res, userId);
+});
+
+export default router;
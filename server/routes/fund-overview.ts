@@ -7,6 +7,9 @@ import { Router, Request, Response } from 'express';
 import { requireAuth } from '../utils/auth';
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
+import { irrCalculator } from '../services/irr-calculator.service';
+import { managementFeeService } from '../services/management-fee.service';
+import { valuationService } from '../services/valuation.service';
 
 const router = Router();
 
@@ -46,7 +49,11 @@ router.get('/:fundId', requireAuth, async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Fund not found' });
     }
 
-    res.json(result.rows[0]);
+    // IRR is solved from dated cash flows rather than read from the view
+    const { irr } = await irrCalculator.calculateFundIrr(fundId);
+    const { feesCharged } = await managementFeeService.getFundFeeSummary(fundId);
+
+    res.json({ ...result.rows[0], irr, feesCharged });
 
   } catch (error) {
     console.error('Error getting fund overview:', error);
@@ -57,6 +64,60 @@ router.get('/:fundId', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/fund-overview/:fundId/irr - Get fund IRR with the underlying cash-flow series
+ */
+router.get('/:fundId/irr', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const asOfDate = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+    if (isNaN(asOfDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid as-of date' });
+    }
+
+    const result = await irrCalculator.calculateFundIrr(fundId, asOfDate);
+    res.json(result);
+
+  } catch (error) {
+    console.error('Error calculating fund IRR:', error);
+    res.status(500).json({
+      error: 'Failed to calculate fund IRR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/fund-overview/:fundId/nav - Quarterly NAV roll-forward built from valuation marks
+ */
+router.get('/:fundId/nav', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const asOfDate = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+    if (isNaN(asOfDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid as-of date' });
+    }
+
+    const result = await valuationService.getFundNavRollforward(fundId, asOfDate);
+    res.json(result);
+
+  } catch (error) {
+    console.error('Error building NAV roll-forward:', error);
+    res.status(500).json({
+      error: 'Failed to build NAV roll-forward',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/fund-overview - Get all funds overview
  * Returns metrics for all funds
@@ -84,7 +145,18 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
       ORDER BY fund_name
     `);
 
-    res.json(result.rows);
+    // Cash flows and fees for every fund are loaded together rather than one fund at a time
+    const fundIds = result.rows.map((row: any) => Number(row.fundId));
+    const irrs = await irrCalculator.calculateFundIrrs(fundIds);
+    const feeSummaries = await managementFeeService.getFundFeeSummaries(fundIds);
+
+    const rows = result.rows.map((row: any) => ({
+      ...row,
+      irr: irrs.get(Number(row.fundId))?.irr ?? null,
+      feesCharged: feeSummaries.get(Number(row.fundId))?.feesCharged ?? 0
+    }));
+
+    res.json(rows);
 
   } catch (error) {
     console.error('Error getting funds overview:', error);
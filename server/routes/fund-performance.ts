@@ -0,0 +1,135 @@
+/**
+ * Fund Performance Routes
+ *
+ * LP multiples (TVPI, DPI, RVPI) as of any date and KS-PME against imported benchmark indices
+ */
+
+import { Router, Request, Response } from 'express';
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { sendServiceError } from '../utils/error-handler';
+import { uploadLimiter } from '../middleware/upload-limits';
+import { DataExtractor } from '../services/data-extractor';
+import { fundPerformanceService } from '../services/fund-performance.service';
+
+const router = Router();
+
+// Validation schemas
+const importBenchmarkSchema = z.object({
+  name: z.string().trim().min(1, 'Benchmark name is required'),
+  description: z.string().optional()
+});
+
+/**
+ * GET /api/fund-performance/benchmarks - List imported benchmark indices
+ */
+router.get('/benchmarks', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const benchmarks = await fundPerformanceService.getBenchmarks();
+    res.json(benchmarks);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch benchmarks');
+  }
+});
+
+/**
+ * POST /api/fund-performance/benchmarks - Import a benchmark index series from a CSV file
+ * Multipart form: `file` (CSV with a date column and an index level column), `name`, optional `description`
+ */
+router.post('/benchmarks', requireAuth, requirePermission('edit', 'fund'), uploadLimiter.single('file'), async (req: Request, res: Response) => {
+  const file = req.file;
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!file) {
+      return res.status(400).json({ error: 'CSV file is required' });
+    }
+
+    const validationResult = importBenchmarkSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const extracted = await DataExtractor.extractCSVData(file.path, file.originalname);
+    const { name, description } = validationResult.data;
+    const benchmark = await fundPerformanceService.importBenchmark(name, extracted.data || [], userId, description);
+    res.status(201).json(benchmark);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to import benchmark');
+  } finally {
+    if (file) {
+      await fs.unlink(file.path).catch(() => undefined);
+    }
+  }
+});
+
+/**
+ * GET /api/fund-performance/benchmarks/:id/values - Get a benchmark's index series
+ */
+router.get('/benchmarks/:id/values', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid benchmark ID' });
+    }
+
+    const values = await fundPerformanceService.getBenchmarkValues(id);
+    res.json(values);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch benchmark values');
+  }
+});
+
+/**
+ * DELETE /api/fund-performance/benchmarks/:id - Delete a benchmark index
+ */
+router.delete('/benchmarks/:id', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid benchmark ID' });
+    }
+
+    await fundPerformanceService.deleteBenchmark(id);
+    res.json({ success: true });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete benchmark');
+  }
+});
+
+/**
+ * GET /api/fund-performance/:fundId?asOf=&benchmarkId= - TVPI, DPI, RVPI and KS-PME with quarterly history
+ */
+router.get('/:fundId', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const asOfDate = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+    if (isNaN(asOfDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid as-of date' });
+    }
+
+    const benchmarkId = req.query.benchmarkId ? parseInt(String(req.query.benchmarkId)) : undefined;
+    if (benchmarkId !== undefined && isNaN(benchmarkId)) {
+      return res.status(400).json({ error: 'Invalid benchmark ID' });
+    }
+
+    const performance = await fundPerformanceService.getFundPerformance(fundId, asOfDate, benchmarkId);
+    res.json(performance);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to calculate fund performance');
+  }
+});
+
+export default router;
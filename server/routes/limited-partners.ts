@@ -0,0 +1,285 @@
+/**
+ * Limited Partner Routes
+ *
+ * LP registry, per-fund commitments, and the per-LP side of capital calls
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { limitedPartnerService } from '../services/limited-partner.service';
+import { sendServiceError } from '../utils/error-handler';
+import { insertLimitedPartnerSchema } from '@shared/schema';
+
+const router = Router();
+
+// Validation schemas
+const createCommitmentSchema = z.object({
+  limitedPartnerId: z.number().positive('Limited partner ID is required'),
+  commitmentAmount: z.number().positive('Commitment amount must be positive'),
+  commitmentDate: z.string().optional().transform(val => val ? new Date(val) : new Date()),
+  status: z.enum(['active', 'transferred', 'defaulted']).optional().default('active'),
+  notes: z.string().optional()
+});
+
+const updateCommitmentSchema = z.object({
+  commitmentAmount: z.number().positive('Commitment amount must be positive').optional(),
+  commitmentDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
+  status: z.enum(['active', 'transferred', 'defaulted']).optional(),
+  notes: z.string().optional()
+});
+
+const recordLpPaymentSchema = z.object({
+  paymentAmount: z.number().positive('Payment amount must be positive'),
+  paymentDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
+  paymentType: z.enum(['wire', 'check', 'ach', 'other']).optional(),
+  notes: z.string().optional()
+});
+
+/**
+ * GET /api/limited-partners - List all limited partners
+ */
+router.get('/', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const lps = await limitedPartnerService.getLimitedPartners();
+    res.json(lps);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch limited partners');
+  }
+});
+
+/**
+ * POST /api/limited-partners - Create a limited partner
+ */
+router.post('/', requireAuth, requirePermission('create', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const validationResult = insertLimitedPartnerSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const lp = await limitedPartnerService.createLimitedPartner(validationResult.data);
+    res.status(201).json(lp);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create limited partner');
+  }
+});
+
+/**
+ * GET /api/limited-partners/:id - Get a limited partner with their commitments
+ */
+router.get('/:id', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid limited partner ID' });
+    }
+
+    const lp = await limitedPartnerService.getLimitedPartner(id);
+    if (!lp) {
+      return res.status(404).json({ error: 'Limited partner not found' });
+    }
+
+    const commitments = await limitedPartnerService.getLimitedPartnerCommitments(id);
+    res.json({ ...lp, commitments });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch limited partner');
+  }
+});
+
+/**
+ * PATCH /api/limited-partners/:id - Update a limited partner
+ */
+router.patch('/:id', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid limited partner ID' });
+    }
+
+    const validationResult = insertLimitedPartnerSchema.partial().safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const lp = await limitedPartnerService.updateLimitedPartner(id, validationResult.data);
+    res.json(lp);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update limited partner');
+  }
+});
+
+/**
+ * GET /api/limited-partners/funds/:fundId/commitments - List LP commitments for a fund
+ */
+router.get('/funds/:fundId/commitments', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const commitments = await limitedPartnerService.getFundCommitments(fundId);
+    res.json(commitments);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch fund commitments');
+  }
+});
+
+/**
+ * POST /api/limited-partners/funds/:fundId/commitments - Add an LP commitment to a fund
+ */
+router.post('/funds/:fundId/commitments', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const validationResult = createCommitmentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const commitment = await limitedPartnerService.createCommitment({ ...validationResult.data, fundId });
+    res.status(201).json(commitment);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create commitment');
+  }
+});
+
+/**
+ * GET /api/limited-partners/funds/:fundId/summary - Called, paid and unfunded capital per LP
+ */
+router.get('/funds/:fundId/summary', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const summary = await limitedPartnerService.getFundLpSummary(fundId);
+    res.json(summary);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch fund LP summary');
+  }
+});
+
+/**
+ * PATCH /api/limited-partners/commitments/:id - Update an LP commitment
+ */
+router.patch('/commitments/:id', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid commitment ID' });
+    }
+
+    const validationResult = updateCommitmentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const commitment = await limitedPartnerService.updateCommitment(id, validationResult.data);
+    res.json(commitment);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update commitment');
+  }
+});
+
+/**
+ * GET /api/limited-partners/capital-calls/:capitalCallId - Per-LP breakdown of a capital call
+ */
+router.get('/capital-calls/:capitalCallId', requireAuth, requirePermission('view', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const capitalCallId = parseInt(req.params.capitalCallId);
+    if (isNaN(capitalCallId)) {
+      return res.status(400).json({ error: 'Invalid capital call ID' });
+    }
+
+    const allocations = await limitedPartnerService.getCapitalCallLpAllocations(capitalCallId);
+    res.json(allocations);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch LP capital call allocations');
+  }
+});
+
+/**
+ * POST /api/limited-partners/capital-calls/:capitalCallId/allocate - Re-run the pro-rata LP split
+ */
+router.post('/capital-calls/:capitalCallId/allocate', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const capitalCallId = parseInt(req.params.capitalCallId);
+    if (isNaN(capitalCallId)) {
+      return res.status(400).json({ error: 'Invalid capital call ID' });
+    }
+
+    const allocations = await limitedPartnerService.allocateCapitalCall(capitalCallId);
+    res.json({ success: true, data: allocations });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to allocate capital call to LPs');
+  }
+});
+
+/**
+ * POST /api/limited-partners/call-allocations/:id/payments - Record an LP payment
+ */
+router.post('/call-allocations/:id/payments', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid LP call allocation ID' });
+    }
+
+    const validationResult = recordLpPaymentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { paymentAmount, ...options } = validationResult.data;
+    const result = await limitedPartnerService.recordLpPayment(id, paymentAmount, userId, options);
+    res.status(201).json({ success: true, data: result });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to record LP payment');
+  }
+});
+
+/**
+ * POST /api/limited-partners/call-allocations/:id/default - Mark an LP's call share as defaulted
+ */
+router.post('/call-allocations/:id/default', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid LP call allocation ID' });
+    }
+
+    const allocation = await limitedPartnerService.markLpDefaulted(id);
+    res.json({ success: true, data: allocation });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to mark LP as defaulted');
+  }
+});
+
+export default router;
@@ -0,0 +1,271 @@
+/**
+ * Management Fee Routes
+ *
+ * Fee schedules, fee offsets, quarterly accruals and fee calls per fund
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { sendServiceError } from '../utils/error-handler';
+import { managementFeeService } from '../services/management-fee.service';
+
+const router = Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+// Validation schemas
+const feeScheduleSchema = z.object({
+  feeStartDate: isoDate,
+  investmentPeriodEndDate: isoDate,
+  investmentPeriodRate: z.number().min(0).max(1),
+  postInvestmentRate: z.number().min(0).max(1),
+  stepDowns: z.array(z.object({
+    effectiveDate: isoDate,
+    rate: z.number().min(0).max(1)
+  })).optional().default([]),
+  offsetPercentage: z.number().min(0).max(1).optional().default(1)
+});
+
+const feeOffsetSchema = z.object({
+  offsetDate: isoDate,
+  amount: z.number().positive('Offset amount must be positive'),
+  description: z.string().optional()
+});
+
+const accrualIdsSchema = z.object({
+  accrualIds: z.array(z.number().positive()).min(1, 'At least one fee accrual is required')
+});
+
+/**
+ * Parse the optional ?asOf= query parameter
+ */
+function parseAsOf(req: Request): Date | null {
+  const asOfDate = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+  return isNaN(asOfDate.getTime()) ? null : asOfDate;
+}
+
+/**
+ * GET /api/management-fees/funds/:fundId/schedule - Get a fund's fee schedule
+ */
+router.get('/funds/:fundId/schedule', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const schedule = await managementFeeService.getSchedule(fundId);
+    if (!schedule) {
+      return res.status(404).json({ error: 'Fee schedule not found' });
+    }
+
+    res.json(schedule);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch fee schedule');
+  }
+});
+
+/**
+ * PUT /api/management-fees/funds/:fundId/schedule - Create or update a fund's fee schedule
+ */
+router.put('/funds/:fundId/schedule', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const validationResult = feeScheduleSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const schedule = await managementFeeService.upsertSchedule(fundId, validationResult.data);
+    res.json(schedule);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to save fee schedule');
+  }
+});
+
+/**
+ * GET /api/management-fees/funds/:fundId/offsets - List fee offsets for a fund
+ */
+router.get('/funds/:fundId/offsets', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const offsets = await managementFeeService.getOffsets(fundId);
+    res.json(offsets);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch fee offsets');
+  }
+});
+
+/**
+ * POST /api/management-fees/funds/:fundId/offsets - Record fee income credited against fees
+ */
+router.post('/funds/:fundId/offsets', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const validationResult = feeOffsetSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { amount, ...rest } = validationResult.data;
+    const offset = await managementFeeService.addOffset({
+      ...rest,
+      amount: String(amount),
+      fundId,
+      createdBy: userId
+    });
+    res.status(201).json(offset);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to record fee offset');
+  }
+});
+
+/**
+ * GET /api/management-fees/funds/:fundId/calculate - Preview quarterly fees through ?asOf=
+ */
+router.get('/funds/:fundId/calculate', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const asOfDate = parseAsOf(req);
+    if (!asOfDate) {
+      return res.status(400).json({ error: 'Invalid as-of date' });
+    }
+
+    const fees = await managementFeeService.calculateFees(fundId, asOfDate);
+    res.json(fees);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to calculate management fees');
+  }
+});
+
+/**
+ * POST /api/management-fees/funds/:fundId/accrue - Persist quarterly fee accruals through ?asOf=
+ */
+router.post('/funds/:fundId/accrue', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const asOfDate = parseAsOf(req);
+    if (!asOfDate) {
+      return res.status(400).json({ error: 'Invalid as-of date' });
+    }
+
+    const history = await managementFeeService.accrueFees(fundId, asOfDate);
+    res.json(history);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to accrue management fees');
+  }
+});
+
+/**
+ * GET /api/management-fees/funds/:fundId/history - Stored quarterly fee history
+ */
+router.get('/funds/:fundId/history', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const history = await managementFeeService.getFeeHistory(fundId);
+    res.json(history);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch fee history');
+  }
+});
+
+/**
+ * GET /api/management-fees/funds/:fundId/summary - Fees charged, called and paid
+ */
+router.get('/funds/:fundId/summary', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const summary = await managementFeeService.getFundFeeSummary(fundId);
+    res.json(summary);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch fee summary');
+  }
+});
+
+/**
+ * POST /api/management-fees/capital-calls/:capitalCallId/attach - Call accrued fees with a capital call
+ */
+router.post('/capital-calls/:capitalCallId/attach', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const capitalCallId = parseInt(req.params.capitalCallId);
+    if (isNaN(capitalCallId)) {
+      return res.status(400).json({ error: 'Invalid capital call ID' });
+    }
+
+    const validationResult = accrualIdsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const accruals = await managementFeeService.attachToCapitalCall(validationResult.data.accrualIds, capitalCallId);
+    res.json({ success: true, data: accruals });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to attach fees to capital call');
+  }
+});
+
+/**
+ * POST /api/management-fees/accruals/mark-paid - Mark called fees as paid
+ */
+router.post('/accruals/mark-paid', requireAuth, requirePermission('edit', 'capital-call'), async (req: Request, res: Response) => {
+  try {
+    const validationResult = accrualIdsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const accruals = await managementFeeService.markPaid(validationResult.data.accrualIds);
+    res.json({ success: true, data: accruals });
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to mark fees as paid');
+  }
+});
+
+export default router;
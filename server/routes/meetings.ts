@@ -5,7 +5,11 @@ import {
   getMeetingById,
   updateMeeting,
   deleteMeeting,
-  getMeetingsByDeal
+  getMeetingsByDeal,
+  importMeetings,
+  updateAttendeeRsvp,
+  updateMeetingOccurrence,
+  deleteMeetingOccurrence
 } from '../controllers/meeting.controller';
 import { requireAuth } from '../utils/auth';
 
@@ -17,6 +21,9 @@ router.get('/', requireAuth, getMeetings);
 // POST /api/meetings - Create a new meeting
 router.post('/', requireAuth, createMeeting);
 
+// POST /api/meetings/import - Import meetings from an .ics file (multipart `file` or JSON `ics`) into a deal
+router.post('/import', requireAuth, importMeetings);
+
 // GET /api/meetings/deal/:dealId - Get meetings for a specific deal
 router.get('/deal/:dealId', requireAuth, getMeetingsByDeal);
 
@@ -26,6 +33,15 @@ router.get('/:id', requireAuth, getMeetingById);
 // PUT /api/meetings/:id - Update a meeting
 router.put('/:id', requireAuth, updateMeeting);
 
+// PATCH /api/meetings/:id/attendees/:attendeeId - Update an attendee's RSVP
+router.patch('/:id/attendees/:attendeeId', requireAuth, updateAttendeeRsvp);
+
+// PUT /api/meetings/:id/occurrences/:occurrenceDate - Edit one occurrence of a recurring meeting, or it and the following ones
+router.put('/:id/occurrences/:occurrenceDate', requireAuth, updateMeetingOccurrence);
+
+// DELETE /api/meetings/:id/occurrences/:occurrenceDate - Cancel one occurrence, or end the series from it
+router.delete('/:id/occurrences/:occurrenceDate', requireAuth, deleteMeetingOccurrence);
+
 // DELETE /api/meetings/:id - Delete a meeting
 router.delete('/:id', requireAuth, deleteMeeting);
 
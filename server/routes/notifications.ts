@@ -3,9 +3,34 @@ import { StorageFactory } from '../storage-factory';
 import { insertNotificationSchema } from '@shared/schema';
 import { z } from 'zod';
 import { requireAuth } from '../utils/auth';
+import { sendServiceError } from '../utils/error-handler';
+import { notificationPreferencesService } from '../services/notification-preferences.service';
+import { digestService } from '../services/digest.service';
 
 const router = Router();
 
+// Custom type for the request with user property
+interface AuthRequest extends Request {
+  user?: {
+    id: number;
+    [key: string]: any;
+  };
+}
+
+const updatePreferencesSchema = z.object({
+  preferences: z.array(z.object({
+    category: z.enum(['deal', 'memo', 'assignment', 'stage_change', 'capital_call', 'closing']),
+    inApp: z.boolean().optional(),
+    email: z.boolean().optional(),
+    digest: z.boolean().optional()
+  })).min(1, 'At least one preference is required')
+});
+
+const updateDigestSchema = z.object({
+  // null goes back to the role default
+  frequency: z.enum(['off', 'daily', 'weekly']).nullable()
+});
+
 // Get all notifications for the current user
 router.get('/', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -42,6 +67,120 @@ router.get('/unread-count', requireAuth, async (req: Request, res: Response) =>
   }
 });
 
+// Get the current user's notification preferences (saved values over role defaults)
+router.get('/preferences', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Authentication required' });
+    }
+    
+    const preferences = await notificationPreferencesService.getPreferences(user.id);
+    return res.json(preferences);
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to fetch notification preferences');
+  }
+});
+
+// Update channels for one or more notification categories
+router.put('/preferences', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Authentication required' });
+    }
+
+    const validationResult = updatePreferencesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Invalid notification preferences',
+        errors: validationResult.error.errors
+      });
+    }
+    
+    const preferences = await notificationPreferencesService.updatePreferences(user.id, validationResult.data.preferences);
+    return res.json(preferences);
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to update notification preferences');
+  }
+});
+
+// Reset notification preferences to the defaults for the user's role
+router.delete('/preferences', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Authentication required' });
+    }
+    
+    const preferences = await notificationPreferencesService.resetPreferences(user.id);
+    return res.json(preferences);
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to reset notification preferences');
+  }
+});
+
+// Get the current user's digest email frequency and schedule
+router.get('/digest', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Authentication required' });
+    }
+    
+    const subscription = await digestService.getSubscription(user.id);
+    return res.json(subscription);
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to fetch digest settings');
+  }
+});
+
+// Set the digest frequency (off, daily or weekly on Monday)
+router.put('/digest', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Authentication required' });
+    }
+
+    const validationResult = updateDigestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Invalid digest settings',
+        errors: validationResult.error.errors
+      });
+    }
+    
+    const subscription = await digestService.updateFrequency(user.id, validationResult.data.frequency);
+    return res.json(subscription);
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to update digest settings');
+  }
+});
+
+// Render the current user's digest for the period ending now, as HTML
+router.get('/digest/preview', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Authentication required' });
+    }
+
+    const frequency = req.query.frequency === 'daily' ? 'daily' : 'weekly';
+    const periodEnd = new Date();
+    const summary = await digestService.buildDigest(user.id, frequency, digestService.getPeriodStart(frequency, periodEnd), periodEnd);
+    return res.type('html').send(digestService.renderDigest(summary));
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to render digest preview');
+  }
+});
+
 // Mark notification as read
 router.patch('/:id/read', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,139 @@
+/**
+ * Pipeline Routes
+ *
+ * Deal pipelines with ordered stages and stage gate rules. Everyone can read them to render stage
+ * pickers; only admins can change them.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { STAGE_GATE_RULE_TYPES } from '@shared/schema';
+import { requireAuth, requireRole } from '../utils/auth';
+import { sendServiceError } from '../utils/error-handler';
+import { pipelineService } from '../services/pipeline.service';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const gateRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('min_mini_memos'), count: z.number().int().min(1) }),
+  z.object({ type: z.literal('due_diligence_complete'), items: z.array(z.string().min(1)).optional() }),
+  z.object({ type: z.literal('ic_vote_passed'), minVotes: z.number().int().min(1).optional() })
+]);
+
+const stageSchema = z.object({
+  key: z.string().trim().min(1, 'Stage key is required'),
+  label: z.string().trim().min(1, 'Stage label is required'),
+  color: z.enum(['neutral', 'primary', 'info', 'success', 'warning', 'danger']).optional(),
+  category: z.enum(['active', 'invested', 'rejected']).optional(),
+  gateRules: z.array(gateRuleSchema).optional()
+});
+
+const pipelineSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().nullish(),
+  isDefault: z.boolean().optional(),
+  stages: z.array(stageSchema).min(1, 'At least one stage is required')
+});
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * GET /api/pipelines - List pipelines with their stages in order
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await pipelineService.list());
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch pipelines');
+  }
+});
+
+/**
+ * GET /api/pipelines/gate-rules - Gate rule types a stage can require
+ */
+router.get('/gate-rules', (req: Request, res: Response) => {
+  res.json(STAGE_GATE_RULE_TYPES);
+});
+
+/**
+ * GET /api/pipelines/:id - Get one pipeline with its stages
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid pipeline ID' });
+    }
+    res.json(await pipelineService.get(id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch pipeline');
+  }
+});
+
+/**
+ * POST /api/pipelines - Create a pipeline; the first stage is where new deals start
+ */
+router.post('/', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const validationResult = pipelineSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const pipeline = await pipelineService.create(validationResult.data, (req as any).user.id);
+    res.status(201).json(pipeline);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create pipeline');
+  }
+});
+
+/**
+ * PUT /api/pipelines/:id - Update a pipeline; a stages list replaces the current stages, matched by key
+ */
+router.put('/:id', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid pipeline ID' });
+    }
+
+    const validationResult = pipelineSchema.partial().safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    res.json(await pipelineService.update(id, validationResult.data));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update pipeline');
+  }
+});
+
+/**
+ * DELETE /api/pipelines/:id - Delete a pipeline no deal uses; the default pipeline cannot be deleted
+ */
+router.delete('/:id', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid pipeline ID' });
+    }
+    await pipelineService.delete(id);
+    res.status(204).send();
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete pipeline');
+  }
+});
+
+export default router;
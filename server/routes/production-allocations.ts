@@ -6,7 +6,9 @@
 import { Router, Request, Response } from 'express';
 import { AllocationService } from '../services/allocation.service';
 import { CapitalCallService } from '../services/capital-call.service';
+import { CapitalCallLifecycleService } from '../services/capital-call-lifecycle.service';
 import { AllocationDeletionService } from '../services/allocation-deletion.service.js';
+import { irrCalculator } from '../services/irr-calculator.service';
 import { requireAuth } from '../utils/auth';
 import { requirePermission } from '../utils/permissions';
 import { z, ZodError } from 'zod';
@@ -19,6 +21,7 @@ const router = Router();
 // Initialize services
 const allocationService = new AllocationService();
 const capitalCallService = new CapitalCallService();
+const capitalCallLifecycleService = new CapitalCallLifecycleService();
 const allocationDeletionService = new AllocationDeletionService();
 
 // Validation schemas
@@ -39,7 +42,25 @@ const createAllocationSchema = z.object({
   irr: z.number().optional().default(0)
 });
 
-const updateAllocationSchema = createAllocationSchema.partial();
+const updateAllocationSchema = createAllocationSchema.partial().extend({
+  // Method recorded with the valuation mark; required when marketValue changes
+  valuationMethod: z.enum(['cost', 'last_round', 'dcf', 'comparables']).optional()
+});
+
+/**
+ * Whether an update sets a market value different from the allocation's current one.
+ * Unknown allocations report no change so the update itself can return 404.
+ */
+async function isMarketValueChange(allocationId: number, marketValue: number | undefined): Promise<boolean> {
+  if (marketValue === undefined) return false;
+
+  const [allocation] = await db
+    .select({ marketValue: fundAllocations.marketValue })
+    .from(fundAllocations)
+    .where(eq(fundAllocations.id, allocationId));
+
+  return !!allocation && Number(allocation.marketValue ?? 0) !== marketValue;
+}
 
 const createCapitalCallSchema = z.object({
   allocationId: z.number().positive('Allocation ID must be positive'),
@@ -144,8 +165,7 @@ router.post('/', requireAuth, requirePermission('create', 'allocation'), async (
 
     res.status(201).json({
       success: true,
-      data: result.allocation,
-      auditId: result.auditId
+      data: result.allocation
     });
 
   } catch (error) {
@@ -190,10 +210,22 @@ router.put('/:id', requireAuth, requirePermission('edit', 'allocation'), async (
       });
     }
 
-    const updates = validationResult.data;
+    const { valuationMethod, ...updates } = validationResult.data;
+
+    const marketValueChanged = await isMarketValueChange(allocationId, updates.marketValue);
+    if (marketValueChanged && !valuationMethod) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ path: ['valuationMethod'], message: 'Valuation method is required when the market value changes' }]
+      });
+    }
 
-    // Update allocation
-    const result = await allocationService.updateAllocation(allocationId, updates, userId);
+    // Update allocation, recording a changed market value as a valuation mark
+    const result = await allocationService.updateAllocation(
+      allocationId,
+      updates,
+      marketValueChanged && valuationMethod ? { method: valuationMethod, userId } : undefined
+    );
 
     if (!result.success) {
       if (result.validationErrors) {
@@ -217,8 +249,7 @@ router.put('/:id', requireAuth, requirePermission('edit', 'allocation'), async (
 
     res.json({
       success: true,
-      data: result.allocation,
-      auditId: result.auditId
+      data: result.allocation
     });
 
   } catch (error) {
@@ -254,10 +285,22 @@ router.patch('/:id', requireAuth, requirePermission('edit', 'allocation'), async
       });
     }
 
-    const updates = validationResult.data;
+    const { valuationMethod, ...updates } = validationResult.data;
+
+    const marketValueChanged = await isMarketValueChange(allocationId, updates.marketValue);
+    if (marketValueChanged && !valuationMethod) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ path: ['valuationMethod'], message: 'Valuation method is required when the market value changes' }]
+      });
+    }
 
-    // Update allocation
-    const result = await allocationService.updateAllocation(allocationId, updates, userId);
+    // Update allocation, recording a changed market value as a valuation mark
+    const result = await allocationService.updateAllocation(
+      allocationId,
+      updates,
+      marketValueChanged && valuationMethod ? { method: valuationMethod, userId } : undefined
+    );
 
     if (!result.success) {
       if (result.validationErrors) {
@@ -281,8 +324,7 @@ router.patch('/:id', requireAuth, requirePermission('edit', 'allocation'), async
 
     res.json({
       success: true,
-      data: result.allocation,
-      auditId: result.auditId
+      data: result.allocation
     });
 
   } catch (error) {
@@ -381,8 +423,15 @@ router.get('/deal/:dealId', requireAuth, requirePermission('view', 'allocation')
       ORDER BY vw.allocation_date
     `);
 
-    console.log(`Retrieved ${result.rows.length} allocations for deal ${dealId}`);
-    res.json(result.rows);
+    // Overlay IRR solved from dated cash flows
+    const irrResults = await irrCalculator.calculateAllocationIrrs(result.rows.map((row: any) => Number(row.id)));
+    const rows = result.rows.map((row: any) => ({
+      ...row,
+      irr: irrResults.get(Number(row.id))?.irr ?? row.irr
+    }));
+
+    console.log(`Retrieved ${rows.length} allocations for deal ${dealId}`);
+    res.json(rows);
 
   } catch (error) {
     console.error('Error getting deal allocations:', error);
@@ -437,7 +486,14 @@ router.get('/fund/:fundId', requireAuth, requirePermission('view', 'allocation')
       ORDER BY vw.allocation_date
     `);
 
-    res.json(result.rows);
+    // Overlay IRR solved from dated cash flows
+    const irrResults = await irrCalculator.calculateAllocationIrrs(result.rows.map((row: any) => Number(row.id)));
+    const rows = result.rows.map((row: any) => ({
+      ...row,
+      irr: irrResults.get(Number(row.id))?.irr ?? row.irr
+    }));
+
+    res.json(rows);
 
   } catch (error) {
     console.error('Error getting fund allocations:', error);
@@ -448,6 +504,63 @@ router.get('/fund/:fundId', requireAuth, requirePermission('view', 'allocation')
   }
 });
 
+/**
+ * GET /api/allocations/:id/irr - Get allocation IRR with the underlying cash-flow series
+ */
+router.get('/:id/irr', requireAuth, requirePermission('view', 'allocation'), async (req: Request, res: Response) => {
+  try {
+    const allocationId = parseInt(req.params.id);
+    if (isNaN(allocationId)) {
+      return res.status(400).json({ error: 'Invalid allocation ID' });
+    }
+
+    const asOfDate = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+    if (isNaN(asOfDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid as-of date' });
+    }
+
+    const result = await irrCalculator.calculateAllocationIrr(allocationId, asOfDate);
+    res.json(result);
+
+  } catch (error) {
+    console.error('Error calculating allocation IRR:', error);
+    res.status(500).json({
+      error: 'Failed to calculate allocation IRR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/allocations/fund/:fundId/recalculate-irr - Persist IRR for every allocation in a fund
+ */
+router.post('/fund/:fundId/recalculate-irr', requireAuth, requirePermission('edit', 'allocation'), async (req: Request, res: Response) => {
+  try {
+    const fundId = parseInt(req.params.fundId);
+    if (isNaN(fundId)) {
+      return res.status(400).json({ error: 'Invalid fund ID' });
+    }
+
+    const results = await irrCalculator.updateFundAllocationIrrs(fundId);
+
+    res.json({
+      success: true,
+      data: Array.from(results.entries()).map(([allocationId, result]) => ({
+        allocationId,
+        irr: result.irr,
+        reason: result.reason
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error recalculating fund IRR:', error);
+    res.status(500).json({
+      error: 'Failed to recalculate IRR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * POST /api/allocations/batch - Batch create allocations
  */
@@ -489,8 +602,7 @@ router.post('/batch', requireAuth, requirePermission('create', 'allocation'), as
         success: r.success,
         allocation: r.allocation,
         error: r.error,
-        validationErrors: r.validationErrors,
-        auditId: r.auditId
+        validationErrors: r.validationErrors
       }))
     });
 
@@ -533,12 +645,20 @@ router.post('/:allocationId/capital-calls', requireAuth, requirePermission('crea
       });
     }
 
-    const request = validationResult.data;
+    const { callDate, dueDate, paidDate, ...request } = validationResult.data;
 
-    // Create capital call
-    const result = await capitalCallService.createCapitalCall(request, userId);
+    // Create the capital call through its lifecycle, which also splits it across LPs
+    const result = await capitalCallLifecycleService.createCapitalCall({
+      ...request,
+      callDate: new Date(callDate),
+      dueDate: new Date(dueDate),
+      paidDate: paidDate ? new Date(paidDate) : undefined
+    }, userId);
 
     if (!result.success) {
+      if (result.error === 'Allocation not found') {
+        return res.status(404).json({ error: result.error });
+      }
       if (result.validationErrors) {
         return res.status(400).json({
           error: 'Validation failed',
@@ -555,7 +675,7 @@ router.post('/:allocationId/capital-calls', requireAuth, requirePermission('crea
     res.status(201).json({
       success: true,
       data: result.capitalCall,
-      auditId: result.auditId
+      lpAllocations: result.lpAllocations || []
     });
 
   } catch (error) {
@@ -656,8 +776,7 @@ router.post('/capital-calls/:capitalCallId/payment', requireAuth, requirePermiss
 
     res.json({
       success: true,
-      data: result.capitalCall,
-      auditId: result.auditId
+      data: result.capitalCall
     });
 
   } catch (error) {
@@ -0,0 +1,97 @@
+/**
+ * Report Routes
+ *
+ * Queue portfolio reports, poll their progress, and download generated files
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { sendServiceError } from '../utils/error-handler';
+import { reportService } from '../services/report.service';
+
+const router = Router();
+
+// Validation schemas
+const requestReportSchema = z.object({
+  reportType: z.enum(['portfolio_overview', 'performance_analysis', 'sector_distribution']),
+  format: z.enum(['pdf', 'xlsx']),
+  fundId: z.number().positive().optional(),
+  asOfDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional()
+});
+
+/**
+ * GET /api/reports - Report download history, newest first
+ */
+router.get('/', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const reports = await reportService.getReportHistory();
+    res.json(reports);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch report history');
+  }
+});
+
+/**
+ * POST /api/reports - Queue a report for generation
+ */
+router.post('/', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const validationResult = requestReportSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { reportType, format, ...parameters } = validationResult.data;
+    const report = await reportService.requestReport(reportType, format, parameters, userId);
+    res.status(202).json(report);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to queue report');
+  }
+});
+
+/**
+ * GET /api/reports/:id - Report status and progress
+ */
+router.get('/:id', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid report ID' });
+    }
+
+    const report = await reportService.getReport(id);
+    res.json(report);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch report');
+  }
+});
+
+/**
+ * GET /api/reports/:id/download - Download a generated report
+ */
+router.get('/:id/download', requireAuth, requirePermission('view', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid report ID' });
+    }
+
+    const { filePath, fileName, contentType } = await reportService.getReportFile(id);
+    res.setHeader('Content-Type', contentType);
+    res.download(filePath, fileName);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to download report');
+  }
+});
+
+export default router;
@@ -1,11 +1,26 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { StorageFactory } from '../../storage-factory';
+import { llmService } from '../../services/llm.service';
+import type { LlmMessage } from '../../services/llm/llm-provider';
+import { AIAnalyzer } from '../../services/ai-analyzer';
+import { documentIndexService } from '../../services/document-index.service';
+import { aiAnalysisService } from '../../services/ai-analysis.service';
+import { aiThreadService } from '../../services/ai-thread.service';
+import { ApplicationError } from '../../services/type-definitions';
 import { requireAuth } from '../../utils/auth';
-import OpenAI from 'openai';
+import { sendServiceError } from '../../utils/error-handler';
 
 const router = Router();
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+
+const updateThreadSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  shared: z.boolean().optional()
+});
+
+const forkThreadSchema = z.object({
+  upToAnalysisId: z.number().int().positive().optional(),
+  title: z.string().trim().min(1).max(200).optional()
 });
 
 interface DocumentContent {
@@ -59,34 +74,14 @@ async function extractDocumentContent(document: any): Promise<DocumentContent |
 }
 
 /**
- * Extract content from all documents for a deal
- */
-async function extractDealDocuments(dealId: number): Promise<DocumentContent[]> {
-  const storage = StorageFactory.getStorage();
-  const documents = await storage.getDocumentsByDeal(dealId);
-  
-  const documentContents: DocumentContent[] = [];
-  
-  for (const document of documents) {
-    // Only process documents that have actual file data
-    if (!document.fileData) {
-      console.warn(`Skipping document ${document.fileName} - no file data available`);
-      continue;
-    }
-
-    const extractedContent = await extractDocumentContent(document);
-    if (extractedContent) {
-      documentContents.push(extractedContent);
-    }
-  }
-  
-  return documentContents;
-}
-
-/**
- * Perform AI analysis on documents
+ * The chat messages that ask for an analysis of the documents or, when none of them has text to
+ * analyze, a summary written from their names without asking the model
  */
-async function performAnalysis(dealId: number, documentContents: DocumentContent[], deal: any, query?: string): Promise<string> {
+function prepareDocumentAnalysis(
+  documentContents: DocumentContent[],
+  deal: any,
+  query?: string
+): { messages: LlmMessage[] } | { fallback: string } {
   // Validate we have document content
   if (documentContents.length === 0) {
     throw new Error(`No document files found for analysis of "${deal.name}". Please upload document files to enable AI analysis.`);
@@ -99,7 +94,7 @@ async function performAnalysis(dealId: number, documentContents: DocumentContent
 
   if (!hasTextContent) {
     // Provide analysis based on document metadata when text extraction fails
-    return `Analysis based on uploaded documents for ${deal.name}:
+    return { fallback: `Analysis based on uploaded documents for ${deal.name}:
 
 Available Documents (${documentContents.length}):
 ${documentContents.map((doc, i) => `${i + 1}. ${doc.fileName} (${doc.documentType})`).join('\n')}
@@ -118,7 +113,7 @@ ${documentContents.map(doc => {
   }
 }).join('\n')}
 
-To enable detailed content analysis, please ensure documents are properly uploaded and accessible.`;
+To enable detailed content analysis, please ensure documents are properly uploaded and accessible.` };
   }
 
   // Build analysis prompt with deal information
@@ -144,98 +139,285 @@ To enable detailed content analysis, please ensure documents are properly upload
   analysisPrompt += `\nANALYSIS REQUEST: ${analysisQuery}\n`;
   analysisPrompt += `\nIMPORTANT: Only analyze what is explicitly written in the document content. Do not generate or assume any information not directly stated.`;
 
-  try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert investment analyst. CRITICAL: You must analyze ONLY the authentic content from uploaded documents. Never generate, assume, or create any information not explicitly stated in the provided document text. If specific information is not found in the documents, clearly state 'Not specified in the provided documents' rather than making assumptions or generating content."
-        },
-        {
-          role: "user",
-          content: analysisPrompt
-        }
-      ],
-      max_tokens: 3000,
-      temperature: 0.1
-    });
+  return {
+    messages: [
+      {
+        role: "system",
+        content: "You are an expert investment analyst. CRITICAL: You must analyze ONLY the authentic content from uploaded documents. Never generate, assume, or create any information not explicitly stated in the provided document text. If specific information is not found in the documents, clearly state 'Not specified in the provided documents' rather than making assumptions or generating content."
+      },
+      {
+        role: "user",
+        content: analysisPrompt
+      }
+    ]
+  };
+}
 
-    return completion.choices[0]?.message?.content || 'No analysis generated';
-  } catch (error) {
-    console.error('Error performing AI analysis:', error);
-    throw new Error('Failed to perform AI analysis');
-  }
+/**
+ * Start a Server-Sent Events response. The signal aborts when the client goes away or stops the
+ * answer before the response ends.
+ */
+function openEventStream(req: Request, res: Response): { send: (event: string, data: unknown) => void; signal: AbortSignal } {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stops nginx-style proxies from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  req.socket.setTimeout(0);
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  return {
+    send: (event, data) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    signal: controller.signal
+  };
 }
 
 /**
  * POST /api/v1/ai-analysis/deals/:dealId
- * Analyze all documents for a deal
+ * Answer a question about a deal, or analyze it when no question is given, from the deal record
+ * and the document excerpts most relevant to the question. Answers cite excerpts as [n] markers,
+ * listed in `citations` with the document, page, sheet and rows each came from.
  */
 router.post('/deals/:dealId', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { dealId } = req.params;
-    const { query } = req.body;
-    const userId = (req as any).user.id;
+    const dealId = parseInt(req.params.dealId);
+    const query = typeof req.body.query === 'string' && req.body.query.trim() ? req.body.query.trim() : undefined;
 
     console.log(`🔍 Starting AI analysis for deal ${dealId}`);
     
     const storage = StorageFactory.getStorage();
     
     // Get deal information
-    const deal = await storage.getDeal(parseInt(dealId));
+    const deal = await storage.getDeal(dealId);
     if (!deal) {
-      return res.status(404).json({ error: 'Deal not found' });
+      return res.status(404).json({ message: 'Deal not found', error: 'Deal not found' });
     }
 
-    // Extract all authentic document content
-    const documentContents = await extractDealDocuments(parseInt(dealId));
-    
-    // Perform the AI analysis with authentic data only
-    const result = await performAnalysis(parseInt(dealId), documentContents, deal, query);
+    const result = await AIAnalyzer.analyzeDeal(dealId, query);
     
-    console.log(`✅ AI analysis completed successfully for deal ${dealId}`);
-    console.log(`📄 Analysis based on ${documentContents.length} authentic documents`);
-
-    res.json({ analysis: result });
+    console.log(`✅ AI analysis completed successfully for deal ${dealId} with ${result.citations.length} citations`);
+
+    res.json({
+      analysis: result.response,
+      response: result.response,
+      context: result.context,
+      citations: result.citations,
+      query: query || null
+    });
   } catch (error) {
-    console.error('Error in document analysis:', error);
-    
-    if (error instanceof Error && error.message.includes('No authentic document content')) {
-      return res.status(400).json({ 
-        error: error.message,
-        requiresDocuments: true
-      });
-    }
+    console.error('Error in deal analysis:', error);
     
+    const message = error instanceof Error ? error.message : 'Unknown error';
     res.status(500).json({ 
-      error: 'Failed to analyze documents', 
-      details: error instanceof Error ? error.message : 'Unknown error'
+      message,
+      error: 'Failed to analyze deal', 
+      details: message
     });
   }
 });
 
+/**
+ * POST /api/v1/ai-analysis/deals/:dealId/stream
+ * Same as POST /deals/:dealId, streamed as Server-Sent Events while the model writes:
+ * `start` { analysisId, threadId, context }, `delta` { text } per piece of the answer, then
+ * `done` { analysisId, threadId, status, response, citations, context } or `error` { message, code }.
+ * A `threadId` in the body continues one of the user's threads; otherwise a new thread is started.
+ * Closing the connection cancels the answer; the text generated so far is saved.
+ */
+router.post('/deals/:dealId/stream', requireAuth, async (req: Request, res: Response) => {
+  const dealId = parseInt(req.params.dealId);
+  const query = typeof req.body.query === 'string' && req.body.query.trim() ? req.body.query.trim() : undefined;
+  const threadId = Number.isInteger(req.body.threadId) ? req.body.threadId as number : undefined;
+  const userId = (req as any).user.id;
+
+  const deal = await StorageFactory.getStorage().getDeal(dealId).catch(() => undefined);
+  if (!deal) {
+    return res.status(404).json({ message: 'Deal not found', error: 'Deal not found' });
+  }
+
+  const { send, signal } = openEventStream(req, res);
+
+  try {
+    const { analysis, thread, context } = await aiAnalysisService.streamDealAnalysis(dealId, userId, query, {
+      threadId,
+      signal,
+      onStart: (started, startContext) => send('start', {
+        analysisId: started.id,
+        threadId: started.threadId,
+        context: startContext
+      }),
+      onDelta: text => send('delta', { text })
+    });
+
+    console.log(`✅ AI analysis ${analysis.id} for deal ${dealId} ended as ${analysis.status}`);
+    send('done', {
+      analysisId: analysis.id,
+      threadId: thread.id,
+      status: analysis.status,
+      error: analysis.error,
+      response: analysis.response,
+      citations: analysis.citations,
+      context,
+      query: query || null
+    });
+  } catch (error) {
+    console.error('Error in streamed deal analysis:', error);
+    send('error', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof ApplicationError ? error.code : undefined
+    });
+  }
+  res.end();
+});
+
+/**
+ * GET /api/v1/ai-analysis/deals/:dealId/analyses
+ * Saved analyses of a deal in threads the user can see, newest first, including cancelled and partial ones
+ */
+router.get('/deals/:dealId/analyses', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await aiThreadService.listAnalysesForDeal(parseInt(req.params.dealId), (req as any).user.id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list AI analyses');
+  }
+});
+
+/**
+ * GET /api/v1/ai-analysis/analyses/:analysisId
+ * One saved analysis; while it streams, the text saved so far
+ */
+router.get('/analyses/:analysisId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await aiThreadService.getAnalysis(parseInt(req.params.analysisId), (req as any).user.id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to get AI analysis');
+  }
+});
+
+/**
+ * POST /api/v1/ai-analysis/analyses/:analysisId/pin
+ * Pin an answer to the deal timeline as an `ai_analysis` event; pinning twice returns the same event
+ */
+router.post('/analyses/:analysisId/pin', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await aiThreadService.pinAnalysis(parseInt(req.params.analysisId), (req as any).user.id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to pin AI analysis');
+  }
+});
+
+/**
+ * GET /api/v1/ai-analysis/deals/:dealId/threads
+ * The user's threads on a deal and those shared by colleagues, most recently active first
+ */
+router.get('/deals/:dealId/threads', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await aiThreadService.listForDeal(parseInt(req.params.dealId), (req as any).user.id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to list AI threads');
+  }
+});
+
+/**
+ * GET /api/v1/ai-analysis/threads/:threadId
+ * A thread with its questions and answers in order
+ */
+router.get('/threads/:threadId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await aiThreadService.getThread(parseInt(req.params.threadId), (req as any).user.id));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to get AI thread');
+  }
+});
+
+/**
+ * PATCH /api/v1/ai-analysis/threads/:threadId
+ * Rename a thread or share it with colleagues; author only
+ */
+router.patch('/threads/:threadId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validationResult = updateThreadSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: 'Invalid thread update', errors: validationResult.error.errors });
+    }
+
+    res.json(await aiThreadService.updateThread(parseInt(req.params.threadId), (req as any).user.id, validationResult.data));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update AI thread');
+  }
+});
+
+/**
+ * POST /api/v1/ai-analysis/threads/:threadId/fork
+ * Copy a thread, up to `upToAnalysisId` when given, into a new private thread of the user
+ */
+router.post('/threads/:threadId/fork', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validationResult = forkThreadSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({ message: 'Invalid thread fork', errors: validationResult.error.errors });
+    }
+
+    res.status(201).json(await aiThreadService.forkThread(parseInt(req.params.threadId), (req as any).user.id, validationResult.data));
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fork AI thread');
+  }
+});
+
+/**
+ * GET /api/v1/ai-analysis/deals/:dealId/index
+ * Retrieval index status of each document of a deal
+ */
+router.get('/deals/:dealId/index', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await documentIndexService.getStatus(parseInt(req.params.dealId)));
+  } catch (error) {
+    console.error('Error getting document index status:', error);
+    res.status(500).json({ message: 'Failed to get document index status' });
+  }
+});
+
+/**
+ * POST /api/v1/ai-analysis/deals/:dealId/index
+ * Re-chunk every document of a deal; documents are otherwise indexed when first asked about
+ */
+router.post('/deals/:dealId/index', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await documentIndexService.reindexDeal(parseInt(req.params.dealId)));
+  } catch (error) {
+    console.error('Error reindexing deal documents:', error);
+    res.status(500).json({ message: 'Failed to reindex deal documents' });
+  }
+});
+
 /**
  * POST /api/v1/ai-analysis/documents/:documentId
- * Analyze a specific document
+ * Analyze one document, streamed as Server-Sent Events while the model writes: `delta` { text }
+ * per piece of the answer, then `done` { documentId, status, response } or `error` { message, code }.
+ * The analysis is not saved to a thread; closing the connection stops it.
  */
 router.post('/documents/:documentId', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { documentId } = req.params;
-    const { query } = req.body;
-    const userId = (req as any).user.id;
+  const documentId = parseInt(req.params.documentId);
+  const query = typeof req.body.query === 'string' && req.body.query.trim() ? req.body.query.trim() : undefined;
 
-    console.log(`🔍 Starting analysis for document ${documentId}`);
-    
+  let prepared: ReturnType<typeof prepareDocumentAnalysis>;
+  try {
     const storage = StorageFactory.getStorage();
-    
-    // Get document information
-    const document = await storage.getDocument(parseInt(documentId));
+
+    const document = await storage.getDocument(documentId);
     if (!document) {
       return res.status(404).json({ error: 'Document not found' });
     }
 
-    // Get deal information
     const deal = await storage.getDeal(document.dealId);
     if (!deal) {
       return res.status(404).json({ error: 'Deal not found' });
@@ -250,26 +432,42 @@ router.post('/documents/:documentId', requireAuth, async (req: Request, res: Res
       });
     }
 
-    // Perform analysis on the specific document
-    const result = await performAnalysis(document.dealId, [documentContent], deal, query || `Analyze this document`);
-    
-    console.log(`✅ Specific document analysis completed for ${document.fileName}`);
-    res.json({ analysis: result });
+    console.log(`🔍 Starting analysis for document ${documentId}`);
+    prepared = prepareDocumentAnalysis([documentContent], deal, query || `Analyze this document`);
   } catch (error) {
     console.error('Error in specific document analysis:', error);
-    
-    if (error instanceof Error && error.message.includes('No authentic document content')) {
-      return res.status(400).json({ 
-        error: error.message,
-        requiresDocument: true
-      });
-    }
-    
-    res.status(500).json({ 
+    return res.status(500).json({ 
       error: 'Failed to analyze document', 
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
+
+  const { send, signal } = openEventStream(req, res);
+  try {
+    let response = '';
+    if ('fallback' in prepared) {
+      response = prepared.fallback;
+      send('delta', { text: response });
+    } else {
+      for await (const text of llmService.chatStream(prepared.messages, { purpose: 'document_analysis', signal })) {
+        response += text;
+        send('delta', { text });
+      }
+    }
+
+    console.log(`✅ Specific document analysis for document ${documentId} ${signal.aborted ? 'cancelled' : 'completed'}`);
+    send('done', { documentId, status: signal.aborted ? 'cancelled' : 'completed', response });
+  } catch (error) {
+    // Aborting makes the model client throw; the client is gone, so there is no one to tell
+    if (!signal.aborted) {
+      console.error('Error in specific document analysis:', error);
+      send('error', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof ApplicationError ? error.code : undefined
+      });
+    }
+  }
+  res.end();
 });
 
 export default router;
\ No newline at end of file
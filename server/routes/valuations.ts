@@ -0,0 +1,94 @@
+/**
+ * Valuation Routes
+ *
+ * Dated valuation marks per allocation and quarterly NAV roll-forward per fund
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../utils/auth';
+import { requirePermission } from '../utils/permissions';
+import { sendServiceError } from '../utils/error-handler';
+import { valuationService } from '../services/valuation.service';
+
+const router = Router();
+
+// Validation schemas
+const createMarkSchema = z.object({
+  markDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  value: z.number().min(0, 'Valuation cannot be negative'),
+  method: z.enum(['cost', 'last_round', 'dcf', 'comparables']),
+  notes: z.string().optional(),
+  supportingDocumentIds: z.array(z.number().positive()).optional()
+});
+
+/**
+ * GET /api/valuations/allocations/:allocationId/marks - Valuation history for an allocation
+ */
+router.get('/allocations/:allocationId/marks', requireAuth, requirePermission('view', 'allocation'), async (req: Request, res: Response) => {
+  try {
+    const allocationId = parseInt(req.params.allocationId);
+    if (isNaN(allocationId)) {
+      return res.status(400).json({ error: 'Invalid allocation ID' });
+    }
+
+    const marks = await valuationService.getMarks(allocationId);
+    res.json(marks);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch valuation marks');
+  }
+});
+
+/**
+ * POST /api/valuations/allocations/:allocationId/marks - Record a valuation mark
+ */
+router.post('/allocations/:allocationId/marks', requireAuth, requirePermission('edit', 'allocation'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const allocationId = parseInt(req.params.allocationId);
+    if (isNaN(allocationId)) {
+      return res.status(400).json({ error: 'Invalid allocation ID' });
+    }
+
+    const validationResult = createMarkSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const mark = await valuationService.recordMark(allocationId, validationResult.data, userId);
+    res.status(201).json(mark);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to record valuation mark');
+  }
+});
+
+/**
+ * POST /api/valuations/marks/:id/approve - Approve a valuation mark
+ */
+router.post('/marks/:id/approve', requireAuth, requirePermission('edit', 'fund'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid valuation mark ID' });
+    }
+
+    const mark = await valuationService.approveMark(id, userId);
+    res.json(mark);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to approve valuation mark');
+  }
+});
+
+export default router;
@@ -0,0 +1,183 @@
+/**
+ * Webhook Routes
+ *
+ * Admin management of outbound webhook subscriptions, their delivery log and manual redelivery
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireRole } from '../utils/auth';
+import { sendServiceError } from '../utils/error-handler';
+import { webhookService, WEBHOOK_EVENTS } from '../services/webhook.service';
+
+const router = Router();
+
+router.use(requireAuth, requireRole('admin'));
+
+// Validation schemas
+const subscriptionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  url: z.string().url('URL must be a valid http(s) URL'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'At least one event type is required'),
+  secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
+  isActive: z.boolean().optional()
+});
+
+const updateSubscriptionSchema = subscriptionSchema.omit({ secret: true }).partial();
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * GET /api/webhooks - List webhook subscriptions (without secrets)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const subscriptions = await webhookService.listSubscriptions();
+    res.json(subscriptions);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch webhook subscriptions');
+  }
+});
+
+/**
+ * GET /api/webhooks/events - Event types a subscription can listen to
+ */
+router.get('/events', (req: Request, res: Response) => {
+  res.json(WEBHOOK_EVENTS);
+});
+
+/**
+ * POST /api/webhooks - Create a subscription; the response includes the signing secret
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = subscriptionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const subscription = await webhookService.createSubscription(validationResult.data, (req as any).user?.id);
+    res.status(201).json(subscription);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to create webhook subscription');
+  }
+});
+
+/**
+ * GET /api/webhooks/:id - Get one subscription
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const subscription = await webhookService.getSubscription(id);
+    res.json(subscription);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch webhook subscription');
+  }
+});
+
+/**
+ * PATCH /api/webhooks/:id - Change name, URL, event types or active flag
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const validationResult = updateSubscriptionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const subscription = await webhookService.updateSubscription(id, validationResult.data);
+    res.json(subscription);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to update webhook subscription');
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id - Delete a subscription and its delivery log
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    await webhookService.deleteSubscription(id);
+    res.status(204).end();
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to delete webhook subscription');
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret - Replace the signing secret; the response includes the new one
+ */
+router.post('/:id/rotate-secret', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const subscription = await webhookService.rotateSecret(id);
+    res.json(subscription);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to rotate webhook secret');
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries - Delivery log, newest first
+ */
+router.get('/:id/deliveries', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const deliveries = await webhookService.listDeliveries(id, limit);
+    res.json(deliveries);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to fetch webhook deliveries');
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:deliveryId/redeliver - Send a delivery's event again
+ */
+router.post('/deliveries/:deliveryId/redeliver', async (req: Request, res: Response) => {
+  try {
+    const deliveryId = parseId(req.params.deliveryId);
+    if (deliveryId === null) {
+      return res.status(400).json({ error: 'Invalid delivery ID' });
+    }
+
+    const delivery = await webhookService.redeliver(deliveryId);
+    res.status(202).json(delivery);
+  } catch (error) {
+    sendServiceError(res, error, 'Failed to redeliver webhook');
+  }
+});
+
+export default router;
@@ -0,0 +1,113 @@
+/**
+ * AI Analysis Service
+ *
+ * Streams deal analyses and keeps a record of each question and answer in a thread. A question
+ * in an existing thread is sent with the thread's earlier answers so follow-ups have context.
+ * The answer is saved every few seconds while it streams and once more when it ends, so the text
+ * produced so far survives the client disconnecting (the analysis is then `cancelled`) or the
+ * server stopping.
+ */
+
+import { db } from '../db';
+import { aiAnalyses, type AiAnalysis, type AiThread } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { AIAnalyzer, type AnalysisResponse } from './ai-analyzer';
+import { aiThreadService } from './ai-thread.service';
+import { llmService } from './llm.service';
+
+// How often a streaming answer is saved
+const CHECKPOINT_MS = 2000;
+
+export interface AnalysisStreamOptions {
+  /** The user's thread to continue; a new thread is started when omitted */
+  threadId?: number;
+  /** Stops the answer; what was generated so far is kept */
+  signal?: AbortSignal;
+  /** The analysis was recorded and the model is about to answer */
+  onStart?: (analysis: AiAnalysis, context: AnalysisResponse['context']) => void;
+  onDelta?: (text: string) => void;
+}
+
+export class AiAnalysisService {
+  /**
+   * Analyze a deal, or answer a question about it, passing the answer on as it is generated.
+   * Resolves once the answer is complete, cancelled or failed, with the saved analysis.
+   */
+  async streamDealAnalysis(
+    dealId: number,
+    userId: number,
+    query: string | undefined,
+    options: AnalysisStreamOptions = {}
+  ): Promise<{ analysis: AiAnalysis; thread: AiThread; context: AnalysisResponse['context'] }> {
+    const existingThread = options.threadId !== undefined
+      ? await aiThreadService.getOwnThread(options.threadId, dealId, userId)
+      : null;
+    const history = existingThread ? await aiThreadService.conversationHistory(existingThread.id) : [];
+
+    const { messages, context } = await AIAnalyzer.prepareAnalysis(dealId, query, history);
+    // Fails here, before anything is recorded, when no model is configured
+    const stream = llmService.chatStream(messages, { purpose: 'deal_analysis', signal: options.signal });
+
+    const thread = existingThread ?? await aiThreadService.createThread(dealId, userId, query);
+
+    const analysisContext = {
+      dealId,
+      dealName: context.deal.name,
+      dataSourcesUsed: AIAnalyzer.dataSourcesUsed(context),
+      timestamp: new Date()
+    };
+    const [created] = await db.insert(aiAnalyses).values({
+      threadId: thread.id,
+      dealId,
+      userId,
+      query: query ?? null,
+      dataSourcesUsed: analysisContext.dataSourcesUsed,
+      model: llmService.model,
+      provider: llmService.getProvider()?.name ?? 'none'
+    }).returning();
+    await aiThreadService.touchThread(thread.id);
+    options.onStart?.(created, analysisContext);
+
+    let response = '';
+    let status: AiAnalysis['status'] = 'completed';
+    let error: string | null = null;
+    let lastCheckpoint = Date.now();
+    try {
+      for await (const text of stream) {
+        response += text;
+        options.onDelta?.(text);
+
+        if (Date.now() - lastCheckpoint >= CHECKPOINT_MS) {
+          lastCheckpoint = Date.now();
+          await db.update(aiAnalyses).set({ response }).where(eq(aiAnalyses.id, created.id));
+        }
+      }
+      if (options.signal?.aborted) status = 'cancelled';
+    } catch (streamError) {
+      // Aborting makes the model client throw; that is a cancellation, not a failure
+      if (options.signal?.aborted) {
+        status = 'cancelled';
+      } else {
+        status = 'failed';
+        error = streamError instanceof Error ? streamError.message : String(streamError);
+        console.error(`AI analysis ${created.id} failed:`, streamError);
+      }
+    }
+
+    const [analysis] = await db.update(aiAnalyses)
+      .set({
+        response,
+        status,
+        error,
+        citations: AIAnalyzer.citationsIn(response, context.excerpts),
+        completedAt: new Date()
+      })
+      .where(eq(aiAnalyses.id, created.id))
+      .returning();
+
+    return { analysis, thread, context: analysisContext };
+  }
+}
+
+// Export singleton instance
+export const aiAnalysisService = new AiAnalysisService();
@@ -1,19 +1,20 @@
-import OpenAI from 'openai';
 import { StorageFactory } from '../storage-factory';
-import { DataExtractor } from './data-extractor';
-import * as fs from 'fs';
-import * as path from 'path';
+import { llmService } from './llm.service';
+import type { LlmMessage } from './llm/llm-provider';
+import { documentIndexService, type RetrievedChunk } from './document-index.service';
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Excerpts retrieved per question, and the most of the prompt they may take up
+const MAX_EXCERPTS = 8;
+const EXCERPT_TOKEN_BUDGET = 6000;
+
+// Retrieval query when asked for a general analysis rather than a specific question
+const GENERAL_ANALYSIS_QUERY = 'revenue growth margin profitability valuation projections market competition team risks terms';
 
 export interface DealContext {
   deal: any;
   memos: any[];
   documents: any[];
-  extractedData: any[];
+  excerpts: RetrievedChunk[];
   allocations: any[];
   activities: any[];
   calendar: {
@@ -42,8 +43,21 @@ export interface DealContext {
   };
 }
 
+export interface Citation {
+  /** The [n] marker the answer uses */
+  index: number;
+  documentId: number;
+  fileName: string;
+  page: number | null;
+  sheet: string | null;
+  rowStart: number | null;
+  rowEnd: number | null;
+  excerpt: string;
+}
+
 export interface AnalysisResponse {
   response: string;
+  citations: Citation[];
   context: {
     dealId: number;
     dealName: string;
@@ -55,9 +69,9 @@ export interface AnalysisResponse {
 export class AIAnalyzer {
   
   /**
-   * Extract all contextual data for a specific deal
+   * Extract all contextual data for a specific deal, with the document excerpts relevant to the query
    */
-  static async extractDealContext(dealId: number): Promise<DealContext> {
+  static async extractDealContext(dealId: number, query?: string): Promise<DealContext> {
     const storage = StorageFactory.getStorage();
     
     console.log(`🔍 Extracting full context for deal ${dealId}`);
@@ -81,73 +95,57 @@ export class AIAnalyzer {
     // Get comprehensive calendar context for this deal
     const calendar = await AIAnalyzer.extractCalendarContext(dealId, storage);
     
-    // Extract data from ALL document types (Excel/CSV/PDF)
-    const extractedData: any[] = [];
-    for (const doc of documents) {
-      const extension = path.extname(doc.fileName).toLowerCase();
-      try {
-        // Find the actual file path
-        const UPLOAD_PATH = process.env.UPLOAD_PATH || './uploads';
-        const possiblePaths = [
-          path.resolve(UPLOAD_PATH, 'deals', dealId.toString(), doc.fileName),
-          path.resolve(UPLOAD_PATH, dealId.toString(), doc.fileName),
-          path.resolve(UPLOAD_PATH, doc.fileName),
-          path.resolve(doc.filePath)
-        ];
-        
-        let actualFilePath = null;
-        for (const testPath of possiblePaths) {
-          if (fs.existsSync(testPath)) {
-            actualFilePath = testPath;
-            break;
-          }
-        }
-        
-        if (actualFilePath) {
-          if (['.xlsx', '.xls', '.xlsm', '.csv'].includes(extension)) {
-            // Extract structured data from Excel/CSV
-            const data = await DataExtractor.extractData(actualFilePath, doc.fileName);
-            extractedData.push({
-              documentId: doc.id,
-              fileName: doc.fileName,
-              documentType: doc.documentType,
-              extractedData: data
-            });
-            console.log(`📊 Extracted data from ${doc.fileName}: ${data.metadata.totalRows} rows`);
-          } else if (extension === '.pdf') {
-            // Extract text content from PDF documents
-            const pdfParse = await import('pdf-parse');
-            const pdfBuffer = fs.readFileSync(actualFilePath);
-            const pdfData = await pdfParse.default(pdfBuffer);
-            
-            extractedData.push({
-              documentId: doc.id,
-              fileName: doc.fileName,
-              documentType: doc.documentType,
-              textContent: pdfData.text,
-              pages: pdfData.numpages
-            });
-            console.log(`📄 Extracted text from PDF ${doc.fileName}: ${pdfData.numpages} pages`);
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to extract data from ${doc.fileName}:`, error);
-      }
-    }
+    // Only the passages that bear on the question, so large data rooms fit the context window
+    const excerpts = await AIAnalyzer.retrieveExcerpts(dealId, query);
     
-    console.log(`✅ Extracted context for ${deal.name}: ${memos.length} memos, ${documents.length} documents, ${extractedData.length} data files`);
+    console.log(`✅ Extracted context for ${deal.name}: ${memos.length} memos, ${documents.length} documents, ${excerpts.length} document excerpts`);
     
     return {
       deal,
       memos,
       documents,
-      extractedData,
+      excerpts,
       allocations,
       activities: dealActivities,
       calendar
     };
   }
 
+  /**
+   * Best-matching document chunks for the query, within the excerpt token budget
+   */
+  static async retrieveExcerpts(dealId: number, query?: string): Promise<RetrievedChunk[]> {
+    let hits = query ? await documentIndexService.search(dealId, query, MAX_EXCERPTS) : [];
+    // Questions like "summarize this deal" share no terms with the documents
+    if (hits.length === 0) {
+      hits = await documentIndexService.search(dealId, GENERAL_ANALYSIS_QUERY, MAX_EXCERPTS);
+    }
+
+    const excerpts: RetrievedChunk[] = [];
+    let tokens = 0;
+    for (const hit of hits) {
+      if (tokens + hit.tokenCount > EXCERPT_TOKEN_BUDGET) break;
+      excerpts.push(hit);
+      tokens += hit.tokenCount;
+    }
+    return excerpts;
+  }
+
+  /**
+   * Where an excerpt sits in its document, e.g. "page 4" or "sheet Summary, rows 12-18"
+   */
+  static describeLocation(excerpt: Pick<RetrievedChunk, 'page' | 'sheet' | 'rowStart' | 'rowEnd'>): string {
+    const parts: string[] = [];
+    if (excerpt.page) parts.push(`page ${excerpt.page}`);
+    if (excerpt.sheet) parts.push(`sheet ${excerpt.sheet}`);
+    if (excerpt.rowStart) {
+      parts.push(excerpt.rowEnd && excerpt.rowEnd !== excerpt.rowStart
+        ? `rows ${excerpt.rowStart}-${excerpt.rowEnd}`
+        : `row ${excerpt.rowStart}`);
+    }
+    return parts.join(', ');
+  }
+
   /**
    * Extract comprehensive calendar and timeline context for a specific deal
    */
@@ -264,7 +262,7 @@ export class AIAnalyzer {
    * Format deal context into a comprehensive prompt for AI analysis
    */
   static formatDealContextForAI(context: DealContext): string {
-    const { deal, memos, documents, extractedData, allocations, activities, calendar } = context;
+    const { deal, memos, documents, excerpts, allocations, activities, calendar } = context;
     
     let prompt = `# DEAL ANALYSIS CONTEXT\n\n`;
     
@@ -314,22 +312,13 @@ export class AIAnalyzer {
       });
     }
 
-    // Extracted Document Content and Financial Data
-    if (extractedData.length > 0) {
-      prompt += `## DOCUMENT CONTENT AND DATA\n`;
-      extractedData.forEach((data, index) => {
-        if (data.textContent) {
-          // PDF document content
-          prompt += `### ${data.fileName} (PDF Document)\n`;
-          prompt += `**Type:** ${data.documentType}\n`;
-          prompt += `**Pages:** ${data.pages}\n`;
-          prompt += `**Content:**\n${data.textContent}\n\n`;
-        } else if (data.extractedData) {
-          // Excel/CSV financial data
-          prompt += `### Data from ${data.fileName} (${data.documentType})\n`;
-          prompt += DataExtractor.formatForAI(data.extractedData);
-          prompt += `\n`;
-        }
+    // Document excerpts, numbered for citation
+    if (excerpts.length > 0) {
+      prompt += `## DOCUMENT EXCERPTS\n`;
+      excerpts.forEach((excerpt, index) => {
+        const location = this.describeLocation(excerpt);
+        prompt += `### [${index + 1}] ${excerpt.fileName}${location ? ` (${location})` : ''}\n`;
+        prompt += `${excerpt.content}\n\n`;
       });
     }
 
@@ -433,12 +422,46 @@ export class AIAnalyzer {
     try {
       console.log(`🤖 Starting AI analysis for deal ${dealId}`);
       
-      // Extract all deal context
-      const context = await this.extractDealContext(dealId);
-      const dealPrompt = this.formatDealContextForAI(context);
-      
-      // Prepare the system message for investment analysis
-      const systemMessage = `You are an expert investment analyst with deep knowledge of private equity, venture capital, and institutional investing. You analyze deals comprehensively based on provided data and have full calendar intelligence.
+      const { messages, context } = await this.prepareAnalysis(dealId, userQuery);
+
+      const completion = await llmService.chat(messages, { purpose: 'deal_analysis' });
+
+      const response = completion.content || 'No analysis generated';
+
+      console.log(`✅ AI analysis complete for ${context.deal.name}`);
+
+      return {
+        response,
+        citations: this.citationsIn(response, context.excerpts),
+        context: {
+          dealId,
+          dealName: context.deal.name,
+          dataSourcesUsed: this.dataSourcesUsed(context),
+          timestamp: new Date()
+        }
+      };
+
+    } catch (error) {
+      console.error('AI analysis failed:', error);
+      throw new Error(`Failed to analyze deal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The chat messages that ask for an analysis of the deal, or an answer to the query, with the
+   * context they were built from. History holds earlier questions and answers of a conversation.
+   */
+  static async prepareAnalysis(
+    dealId: number,
+    userQuery?: string,
+    history: LlmMessage[] = []
+  ): Promise<{ messages: LlmMessage[]; context: DealContext }> {
+    // Extract all deal context
+    const context = await this.extractDealContext(dealId, userQuery);
+    const dealPrompt = this.formatDealContextForAI(context);
+    
+    // Prepare the system message for investment analysis
+    const systemMessage = `You are an expert investment analyst with deep knowledge of private equity, venture capital, and institutional investing. You analyze deals comprehensively based on provided data and have full calendar intelligence.
 
 Key responsibilities:
 - Provide detailed investment analysis based ONLY on the provided deal data
@@ -458,48 +481,61 @@ Calendar Intelligence Capabilities:
 - Identify upcoming critical dates and milestones
 - Track deal progression through calendar events
 
-Always base your analysis on the actual data provided. If information is missing, clearly state what additional data would be helpful for a complete analysis.`;
-
-      const userMessage = userQuery 
-        ? `Based on the deal data below, please answer this specific question: "${userQuery}"\n\n${dealPrompt}`
-        : `Please provide a comprehensive investment analysis of this deal based on the data below:\n\n${dealPrompt}`;
-
-      // Call OpenAI API
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemMessage },
-          { role: "user", content: userMessage }
-        ],
-        max_tokens: 2000,
-        temperature: 0.3
-      });
+Always base your analysis on the actual data provided. If information is missing, clearly state what additional data would be helpful for a complete analysis.
 
-      const response = completion.choices[0]?.message?.content || 'No analysis generated';
-      
-      // Determine data sources used
-      const dataSourcesUsed = [];
-      if (context.memos.length > 0) dataSourcesUsed.push(`${context.memos.length} investment memos`);
-      if (context.documents.length > 0) dataSourcesUsed.push(`${context.documents.length} documents`);
-      if (context.extractedData.length > 0) dataSourcesUsed.push(`${context.extractedData.length} financial data files`);
-      if (context.allocations.length > 0) dataSourcesUsed.push(`${context.allocations.length} allocations`);
-      if (context.activities.length > 0) dataSourcesUsed.push(`${context.activities.length} activities`);
+Document excerpts are numbered [1], [2], and so on. When a statement relies on an excerpt, cite it with its number in square brackets right after the statement, e.g. "Revenue grew 40% [2]." Cite each excerpt separately ([1][3], not [1, 3]) and never cite a number that was not provided.`;
 
-      console.log(`✅ AI analysis complete for ${context.deal.name}`);
+    const userMessage = userQuery 
+      ? `Based on the deal data below, please answer this specific question: "${userQuery}"\n\n${dealPrompt}`
+      : `Please provide a comprehensive investment analysis of this deal based on the data below:\n\n${dealPrompt}`;
 
-      return {
-        response,
-        context: {
-          dealId,
-          dealName: context.deal.name,
-          dataSourcesUsed,
-          timestamp: new Date()
-        }
-      };
+    return {
+      messages: [
+        { role: "system", content: systemMessage },
+        ...history,
+        { role: "user", content: userMessage }
+      ],
+      context
+    };
+  }
 
-    } catch (error) {
-      console.error('AI analysis failed:', error);
-      throw new Error(`Failed to analyze deal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Determine data sources used
+   */
+  static dataSourcesUsed(context: DealContext): string[] {
+    const dataSourcesUsed = [];
+    if (context.memos.length > 0) dataSourcesUsed.push(`${context.memos.length} investment memos`);
+    if (context.documents.length > 0) dataSourcesUsed.push(`${context.documents.length} documents`);
+    if (context.excerpts.length > 0) dataSourcesUsed.push(`${context.excerpts.length} document excerpts`);
+    if (context.allocations.length > 0) dataSourcesUsed.push(`${context.allocations.length} allocations`);
+    if (context.activities.length > 0) dataSourcesUsed.push(`${context.activities.length} activities`);
+    return dataSourcesUsed;
+  }
+
+  /**
+   * The excerpts the answer cites with [n] markers, in marker order
+   */
+  static citationsIn(response: string, excerpts: RetrievedChunk[]): Citation[] {
+    const cited = new Set<number>();
+    for (const match of Array.from(response.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))) {
+      for (const number of match[1].split(',')) {
+        const index = parseInt(number, 10);
+        if (index >= 1 && index <= excerpts.length) cited.add(index);
+      }
     }
+
+    return Array.from(cited).sort((a, b) => a - b).map(index => {
+      const excerpt = excerpts[index - 1];
+      return {
+        index,
+        documentId: excerpt.documentId,
+        fileName: excerpt.fileName,
+        page: excerpt.page,
+        sheet: excerpt.sheet,
+        rowStart: excerpt.rowStart,
+        rowEnd: excerpt.rowEnd,
+        excerpt: excerpt.content
+      };
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,257 @@
+/**
+ * AI Thread Service
+ *
+ * Conversation threads of AI analyses on a deal. A thread is private to its author until shared;
+ * anyone who can see a thread can read, fork and pin from it, but only its author can rename,
+ * share or add questions to it. Forking copies the thread, or its start up to an answer, into a
+ * new private thread that continues separately.
+ */
+
+import { db } from '../db';
+import { aiAnalyses, aiThreads, users, type AiAnalysis, type AiThread, type TimelineEvent } from '@shared/schema';
+import { and, asc, count, desc, eq, inArray, max, or, sql } from 'drizzle-orm';
+import { StorageFactory } from '../storage-factory';
+import { estimateTextTokens, type LlmMessage } from './llm/llm-provider';
+import { ApplicationError, NotFoundError } from './type-definitions';
+
+// Earlier answers sent with a follow-up question, newest first until either limit is reached
+const MAX_HISTORY_EXCHANGES = 6;
+const HISTORY_TOKEN_BUDGET = 4000;
+
+// Stands in for the question of an analysis asked without one
+export const GENERAL_ANALYSIS_QUESTION = 'Provide a comprehensive investment analysis of this deal.';
+
+const TITLE_LENGTH = 80;
+
+export interface AiThreadSummary extends AiThread {
+  authorName: string | null;
+  messageCount: number;
+  lastMessageAt: Date | null;
+}
+
+export interface AiThreadMessage extends AiAnalysis {
+  authorName: string | null;
+}
+
+export interface AiThreadDetail extends AiThread {
+  authorName: string | null;
+  analyses: AiThreadMessage[];
+}
+
+export class AiThreadService {
+  /**
+   * Threads on a deal the user can see, most recently active first
+   */
+  async listForDeal(dealId: number, userId: number): Promise<AiThreadSummary[]> {
+    const lastMessageAt = max(aiAnalyses.createdAt);
+    const rows = await db
+      .select({ thread: aiThreads, authorName: users.fullName, messageCount: count(aiAnalyses.id), lastMessageAt })
+      .from(aiThreads)
+      .leftJoin(users, eq(aiThreads.createdBy, users.id))
+      .leftJoin(aiAnalyses, eq(aiAnalyses.threadId, aiThreads.id))
+      .where(and(eq(aiThreads.dealId, dealId), this.visibleTo(userId)))
+      .groupBy(aiThreads.id, users.fullName)
+      .orderBy(desc(sql`coalesce(${lastMessageAt}, ${aiThreads.createdAt})`));
+
+    return rows.map(row => ({
+      ...row.thread,
+      authorName: row.authorName,
+      messageCount: row.messageCount,
+      lastMessageAt: row.lastMessageAt
+    }));
+  }
+
+  /**
+   * A thread with its questions and answers in order; other users' private threads are not found
+   */
+  async getThread(threadId: number, userId: number): Promise<AiThreadDetail> {
+    const [row] = await db
+      .select({ thread: aiThreads, authorName: users.fullName })
+      .from(aiThreads)
+      .leftJoin(users, eq(aiThreads.createdBy, users.id))
+      .where(and(eq(aiThreads.id, threadId), this.visibleTo(userId)));
+    if (!row) {
+      throw new NotFoundError('AI thread', threadId);
+    }
+
+    const analyses = await db
+      .select({ analysis: aiAnalyses, authorName: users.fullName })
+      .from(aiAnalyses)
+      .leftJoin(users, eq(aiAnalyses.userId, users.id))
+      .where(eq(aiAnalyses.threadId, threadId))
+      .orderBy(asc(aiAnalyses.createdAt), asc(aiAnalyses.id));
+
+    return {
+      ...row.thread,
+      authorName: row.authorName,
+      analyses: analyses.map(message => ({ ...message.analysis, authorName: message.authorName }))
+    };
+  }
+
+  /**
+   * A new thread, titled after its first question
+   */
+  async createThread(dealId: number, userId: number, firstQuestion?: string): Promise<AiThread> {
+    const title = firstQuestion
+      ? firstQuestion.length > TITLE_LENGTH ? `${firstQuestion.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : firstQuestion
+      : 'Deal analysis';
+    const [thread] = await db.insert(aiThreads).values({ dealId, title, createdBy: userId }).returning();
+    return thread;
+  }
+
+  /**
+   * The user's own thread on the deal, to add a question to
+   */
+  async getOwnThread(threadId: number, dealId: number, userId: number): Promise<AiThread> {
+    const [thread] = await db.select().from(aiThreads).where(and(eq(aiThreads.id, threadId), this.visibleTo(userId)));
+    if (!thread || thread.dealId !== dealId) {
+      throw new NotFoundError('AI thread', threadId);
+    }
+    if (thread.createdBy !== userId) {
+      throw new ApplicationError('Only the author can continue this thread; fork it to ask follow-up questions', 'FORBIDDEN', 403);
+    }
+    return thread;
+  }
+
+  async updateThread(threadId: number, userId: number, changes: { title?: string; shared?: boolean }): Promise<AiThread> {
+    const thread = await this.getThread(threadId, userId);
+    if (thread.createdBy !== userId) {
+      throw new ApplicationError('Only the author can rename or share this thread', 'FORBIDDEN', 403);
+    }
+
+    const [updated] = await db.update(aiThreads)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(aiThreads.id, threadId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Copy a thread, up to and including one of its answers when given, into a new private thread
+   */
+  async forkThread(threadId: number, userId: number, options: { upToAnalysisId?: number; title?: string } = {}): Promise<AiThread> {
+    const source = await this.getThread(threadId, userId);
+
+    let analyses = source.analyses;
+    if (options.upToAnalysisId !== undefined) {
+      const end = analyses.findIndex(analysis => analysis.id === options.upToAnalysisId);
+      if (end === -1) {
+        throw new NotFoundError('AI analysis', options.upToAnalysisId);
+      }
+      analyses = analyses.slice(0, end + 1);
+    }
+    // An answer still being written would be copied half-finished
+    analyses = analyses.filter(analysis => analysis.status !== 'streaming');
+
+    return db.transaction(async tx => {
+      const [fork] = await tx.insert(aiThreads).values({
+        dealId: source.dealId,
+        title: options.title || `${source.title} (fork)`,
+        createdBy: userId,
+        forkedFromThreadId: source.id
+      }).returning();
+
+      if (analyses.length > 0) {
+        await tx.insert(aiAnalyses).values(analyses.map(({ id, authorName, pinnedEventId, ...analysis }) => ({
+          ...analysis,
+          threadId: fork.id
+        })));
+      }
+      return fork;
+    });
+  }
+
+  /**
+   * Earlier questions and answers of the thread as chat messages, for a follow-up question
+   */
+  async conversationHistory(threadId: number): Promise<LlmMessage[]> {
+    const previous = await db.select()
+      .from(aiAnalyses)
+      .where(and(eq(aiAnalyses.threadId, threadId), inArray(aiAnalyses.status, ['completed', 'cancelled'])))
+      .orderBy(desc(aiAnalyses.createdAt), desc(aiAnalyses.id))
+      .limit(MAX_HISTORY_EXCHANGES);
+
+    const history: LlmMessage[] = [];
+    let tokens = 0;
+    for (const analysis of previous) {
+      if (!analysis.response) continue;
+      const question = analysis.query || GENERAL_ANALYSIS_QUESTION;
+      tokens += estimateTextTokens(question) + estimateTextTokens(analysis.response);
+      if (tokens > HISTORY_TOKEN_BUDGET) break;
+      history.unshift({ role: 'user', content: question }, { role: 'assistant', content: analysis.response });
+    }
+    return history;
+  }
+
+  async touchThread(threadId: number): Promise<void> {
+    await db.update(aiThreads).set({ updatedAt: new Date() }).where(eq(aiThreads.id, threadId));
+  }
+
+  /**
+   * Saved analyses of a deal in threads the user can see, newest first
+   */
+  async listAnalysesForDeal(dealId: number, userId: number, limit = 50): Promise<AiAnalysis[]> {
+    const rows = await db.select({ analysis: aiAnalyses })
+      .from(aiAnalyses)
+      .innerJoin(aiThreads, eq(aiAnalyses.threadId, aiThreads.id))
+      .where(and(eq(aiAnalyses.dealId, dealId), this.visibleTo(userId)))
+      .orderBy(desc(aiAnalyses.createdAt))
+      .limit(limit);
+    return rows.map(row => row.analysis);
+  }
+
+  async getAnalysis(analysisId: number, userId: number): Promise<AiAnalysis> {
+    const [row] = await db.select({ analysis: aiAnalyses })
+      .from(aiAnalyses)
+      .innerJoin(aiThreads, eq(aiAnalyses.threadId, aiThreads.id))
+      .where(and(eq(aiAnalyses.id, analysisId), this.visibleTo(userId)));
+    if (!row) {
+      throw new NotFoundError('AI analysis', analysisId);
+    }
+    return row.analysis;
+  }
+
+  /**
+   * Add an answer to the deal timeline as an `ai_analysis` event; pinning it again returns the same event
+   */
+  async pinAnalysis(analysisId: number, userId: number): Promise<TimelineEvent> {
+    const storage = StorageFactory.getStorage();
+    const analysis = await this.getAnalysis(analysisId, userId);
+
+    if (analysis.pinnedEventId) {
+      const existing = (await storage.getTimelineEventsByDeal(analysis.dealId))
+        .find(event => event.id === analysis.pinnedEventId);
+      if (existing) return existing;
+    }
+    if (analysis.status === 'streaming' || !analysis.response.trim()) {
+      throw new ApplicationError('Only a finished answer can be pinned to the timeline', 'ANALYSIS_NOT_FINISHED', 409);
+    }
+
+    const event = await storage.createTimelineEvent({
+      dealId: analysis.dealId,
+      eventType: 'ai_analysis',
+      content: analysis.response,
+      createdBy: userId,
+      metadata: {
+        analysisId: analysis.id,
+        threadId: analysis.threadId,
+        query: analysis.query || GENERAL_ANALYSIS_QUESTION,
+        citations: analysis.citations,
+        dataSourcesUsed: analysis.dataSourcesUsed,
+        model: analysis.model,
+        provider: analysis.provider,
+        partial: analysis.status !== 'completed'
+      } as Record<string, any>
+    });
+
+    await db.update(aiAnalyses).set({ pinnedEventId: event.id }).where(eq(aiAnalyses.id, analysis.id));
+    return event;
+  }
+
+  private visibleTo(userId: number) {
+    return or(eq(aiThreads.createdBy, userId), eq(aiThreads.shared, true));
+  }
+}
+
+// Export singleton instance
+export const aiThreadService = new AiThreadService();
@@ -1,5 +1,7 @@
 import { StorageFactory } from "../storage-factory";
 import { fundService } from "./fund.service";
+import { valuationService } from "./valuation.service";
+import type { ValuationMethod } from "@shared/schema";
 
 /**
  * AllocationService - Centralized allocation management
@@ -202,9 +204,16 @@ export class AllocationService {
    * Updates an allocation with proper integration
    * Maintains data consistency across the investment lifecycle
    */
-  async updateAllocation(allocationId: number, updates: any): Promise<any> {
+  async updateAllocation(
+    allocationId: number,
+    updates: any,
+    valuation?: { method: ValuationMethod; userId: number }
+  ): Promise<any> {
     try {
-      const allocation = await this.storage.updateFundAllocation(allocationId, updates);
+      // A market value change is recorded as a valuation mark in the same transaction
+      const allocation = valuation && updates.marketValue !== undefined
+        ? await valuationService.updateAllocationWithMark(allocationId, updates, valuation.method, valuation.userId)
+        : await this.storage.updateFundAllocation(allocationId, updates);
       
       if (allocation) {
         // Trigger portfolio weight recalculation
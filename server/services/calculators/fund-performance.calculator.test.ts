@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { calculateKsPme, calculateMultiples, indexLevelAt, type IndexPoint } from './fund-performance.calculator';
+import type { CashFlow } from '../irr-calculator.service';
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const flow = (iso: string, amount: number): CashFlow => ({
+  date: date(iso),
+  amount,
+  type: amount < 0 ? 'contribution' : 'distribution',
+  allocationId: 1
+});
+
+const index: IndexPoint[] = [
+  { date: date('2020-01-01'), value: 100 },
+  { date: date('2021-01-01'), value: 150 },
+  { date: date('2022-01-01'), value: 200 }
+];
+
+describe('calculateMultiples', () => {
+  it('divides distributions and NAV by paid-in capital', () => {
+    const multiples = calculateMultiples(
+      [flow('2020-01-01', -100), flow('2020-06-30', -50), flow('2021-03-31', 60)],
+      120,
+      date('2021-12-31')
+    );
+
+    expect(multiples).toEqual({ paidIn: 150, distributed: 60, nav: 120, tvpi: 1.2, dpi: 0.4, rvpi: 0.8 });
+  });
+
+  it('ignores flows after the as-of date and rounds to four places', () => {
+    const multiples = calculateMultiples([flow('2020-01-01', -300), flow('2022-06-30', 500)], 100, date('2021-12-31'));
+
+    expect(multiples.distributed).toBe(0);
+    expect(multiples.tvpi).toBe(0.3333);
+  });
+
+  it('is null until capital has been paid in', () => {
+    expect(calculateMultiples([], 0, date('2021-12-31'))).toMatchObject({ tvpi: null, dpi: null, rvpi: null });
+  });
+});
+
+describe('indexLevelAt', () => {
+  it('takes the latest point on or before the date', () => {
+    expect(indexLevelAt(index, date('2021-01-01'))).toBe(150);
+    expect(indexLevelAt(index, date('2021-07-01'))).toBe(150);
+    expect(indexLevelAt(index, date('2030-01-01'))).toBe(200);
+  });
+
+  it('is null before the series starts', () => {
+    expect(indexLevelAt(index, date('2019-12-31'))).toBeNull();
+    expect(indexLevelAt([], date('2021-01-01'))).toBeNull();
+  });
+});
+
+describe('calculateKsPme', () => {
+  it('compounds each flow to the as-of date by the index return', () => {
+    // Contributions grow 100 -> 200, the distribution 150 -> 200
+    const pme = calculateKsPme([flow('2020-01-01', -100), flow('2021-01-01', 75)], 100, date('2022-01-01'), index);
+
+    expect(pme).toBe(1);
+  });
+
+  it('is above 1 when the fund beats the index', () => {
+    const pme = calculateKsPme([flow('2020-01-01', -100)], 300, date('2022-01-01'), index);
+
+    expect(pme).toBe(1.5);
+  });
+
+  it('uses the last index level on or before flow dates and the as-of date', () => {
+    // The mid-year contribution grows 100 -> 150 by the end of 2021
+    const pme = calculateKsPme([flow('2020-06-30', -100)], 120, date('2021-12-31'), index);
+
+    expect(pme).toBe(0.8);
+  });
+
+  it('ignores flows after the as-of date', () => {
+    const pme = calculateKsPme([flow('2020-01-01', -100), flow('2022-06-30', 500)], 200, date('2022-01-01'), index);
+
+    expect(pme).toBe(1);
+  });
+
+  it('is null when a flow or the as-of date predates the index', () => {
+    expect(calculateKsPme([flow('2019-06-30', -100)], 200, date('2022-01-01'), index)).toBeNull();
+    expect(calculateKsPme([flow('2020-01-01', -100)], 200, date('2019-12-31'), index)).toBeNull();
+  });
+
+  it('is null without contributions', () => {
+    expect(calculateKsPme([flow('2021-01-01', 50)], 0, date('2022-01-01'), index)).toBeNull();
+  });
+});
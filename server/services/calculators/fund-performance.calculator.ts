@@ -0,0 +1,92 @@
+/**
+ * Fund Performance Calculator
+ * Pure LP multiples (TVPI, DPI, RVPI) and Kaplan-Schoar PME over dated cash flows
+ */
+
+import type { CashFlow } from '../irr-calculator.service';
+
+export interface FundMultiples {
+  paidIn: number;
+  distributed: number;
+  nav: number;
+  tvpi: number | null;
+  dpi: number | null;
+  rvpi: number | null;
+}
+
+export interface IndexPoint {
+  date: Date;
+  value: number;
+}
+
+function roundMultiple(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * TVPI, DPI and RVPI from contributions and distributions up to asOfDate and NAV on asOfDate.
+ * Multiples are null until capital has been paid in.
+ */
+export function calculateMultiples(flows: CashFlow[], nav: number, asOfDate: Date): FundMultiples {
+  const inRange = flows.filter(flow => flow.date <= asOfDate);
+  const paidIn = inRange
+    .filter(flow => flow.type === 'contribution')
+    .reduce((sum, flow) => sum + Math.abs(flow.amount), 0);
+  const distributed = inRange
+    .filter(flow => flow.type === 'distribution')
+    .reduce((sum, flow) => sum + flow.amount, 0);
+
+  if (paidIn <= 0) {
+    return { paidIn, distributed, nav, tvpi: null, dpi: null, rvpi: null };
+  }
+
+  return {
+    paidIn,
+    distributed,
+    nav,
+    tvpi: roundMultiple((distributed + nav) / paidIn),
+    dpi: roundMultiple(distributed / paidIn),
+    rvpi: roundMultiple(nav / paidIn)
+  };
+}
+
+/**
+ * Index level on a date: the latest point on or before it.
+ * Points must be sorted by date ascending. Returns null before the series starts.
+ */
+export function indexLevelAt(points: IndexPoint[], date: Date): number | null {
+  let level: number | null = null;
+  for (const point of points) {
+    if (point.date > date) break;
+    level = point.value;
+  }
+  return level;
+}
+
+/**
+ * Kaplan-Schoar PME: distributions plus NAV over contributions, with every cash flow
+ * compounded to asOfDate by the benchmark's return since the flow date.
+ * Above 1.0 means the fund beat the index. Returns null when a flow predates the series.
+ */
+export function calculateKsPme(flows: CashFlow[], nav: number, asOfDate: Date, points: IndexPoint[]): number | null {
+  const endLevel = indexLevelAt(points, asOfDate);
+  if (!endLevel) return null;
+
+  let futureValueContributions = 0;
+  let futureValueDistributions = 0;
+
+  for (const flow of flows.filter(flow => flow.date <= asOfDate)) {
+    const level = indexLevelAt(points, flow.date);
+    if (!level) return null;
+
+    const growth = endLevel / level;
+    if (flow.type === 'contribution') {
+      futureValueContributions += Math.abs(flow.amount) * growth;
+    } else if (flow.type === 'distribution') {
+      futureValueDistributions += flow.amount * growth;
+    }
+  }
+
+  if (futureValueContributions <= 0) return null;
+  return roundMultiple((futureValueDistributions + nav) / futureValueContributions);
+}
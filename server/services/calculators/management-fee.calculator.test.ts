@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateQuarterlyFees,
+  postInvestmentRateAt,
+  type FeeBasisInputs,
+  type FeeScheduleTerms
+} from './management-fee.calculator';
+
+// Quarters follow date-fns, which works in local time
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+
+const terms: FeeScheduleTerms = {
+  feeStartDate: date(2024, 1, 1),
+  investmentPeriodEndDate: date(2028, 12, 31),
+  investmentPeriodRate: 0.02,
+  postInvestmentRate: 0.015,
+  stepDowns: [],
+  offsetPercentage: 1
+};
+
+const inputs = (overrides: Partial<FeeBasisInputs> = {}): FeeBasisInputs => ({
+  commitmentAt: () => 10_000_000,
+  investedCapitalAt: () => 6_000_000,
+  offsetsBetween: () => 0,
+  ...overrides
+});
+
+describe('calculateQuarterlyFees', () => {
+  it('charges the investment period rate on commitments for each quarter by day count', () => {
+    const fees = calculateQuarterlyFees(terms, inputs(), date(2024, 6, 30));
+
+    expect(fees).toHaveLength(2);
+    expect(fees[0]).toMatchObject({
+      periodStart: date(2024, 1, 1),
+      periodEnd: date(2024, 3, 31),
+      basis: 'commitment',
+      basisAmount: 10_000_000,
+      rate: 0.02,
+      // 91 days in Q1 2024
+      grossFee: 49863.01,
+      offsetAmount: 0,
+      netFee: 49863.01
+    });
+    expect(fees[1].periodStart).toEqual(date(2024, 4, 1));
+  });
+
+  it('prorates the quarter containing the as-of date up to that date', () => {
+    const commitmentAt = (on: Date) => (on >= date(2024, 6, 1) ? 12_000_000 : 10_000_000);
+    const fees = calculateQuarterlyFees(terms, inputs({ commitmentAt }), date(2024, 4, 10));
+
+    expect(fees).toHaveLength(2);
+    expect(fees[0].quarterComplete).toBe(true);
+    expect(fees[1]).toMatchObject({
+      periodStart: date(2024, 4, 1),
+      periodEnd: date(2024, 4, 10),
+      // Commitments as of the as-of date, not the quarter end
+      basisAmount: 10_000_000,
+      // 10 days of Q2 2024
+      grossFee: 5479.45,
+      quarterComplete: false
+    });
+    expect(calculateQuarterlyFees(terms, inputs(), date(2023, 12, 31))).toEqual([]);
+  });
+
+  it('charges a full quarter once the as-of date reaches its last day', () => {
+    const [first] = calculateQuarterlyFees(terms, inputs(), new Date(2024, 2, 31, 15, 30));
+
+    expect(first.periodEnd).toEqual(date(2024, 3, 31));
+    expect(first.grossFee).toBe(49863.01);
+    expect(first.quarterComplete).toBe(true);
+  });
+
+  it('charges nothing before the fee start date, even within its quarter', () => {
+    const fees = calculateQuarterlyFees({ ...terms, feeStartDate: date(2025, 2, 15) }, inputs({ offsetsBetween: () => 5000 }), date(2025, 2, 1));
+
+    expect(fees).toEqual([]);
+  });
+
+  it('prorates a first quarter that starts mid-quarter', () => {
+    const [first] = calculateQuarterlyFees({ ...terms, feeStartDate: date(2024, 2, 15) }, inputs(), date(2024, 3, 31));
+
+    expect(first.periodStart).toEqual(date(2024, 2, 15));
+    // 46 days from February 15 to April 1
+    expect(first.grossFee).toBe(25205.48);
+  });
+
+  it('uses commitments at the end of the quarter during the investment period', () => {
+    const commitmentAt = (on: Date) => (on >= date(2024, 3, 1) ? 12_000_000 : 10_000_000);
+    const [first] = calculateQuarterlyFees(terms, inputs({ commitmentAt }), date(2024, 3, 31));
+
+    expect(first.basisAmount).toBe(12_000_000);
+  });
+
+  it('switches to invested capital at the start of each quarter after the investment period', () => {
+    const investedCapitalAt = (on: Date) => (on >= date(2024, 7, 1) ? 5_000_000 : 6_000_000);
+    const fees = calculateQuarterlyFees(
+      {
+        ...terms,
+        investmentPeriodEndDate: date(2024, 3, 31),
+        stepDowns: [{ effectiveDate: date(2024, 7, 1), rate: 0.01 }]
+      },
+      inputs({ investedCapitalAt }),
+      date(2024, 9, 30)
+    );
+
+    expect(fees.map(fee => [fee.basis, fee.basisAmount, fee.rate, fee.grossFee])).toEqual([
+      ['commitment', 10_000_000, 0.02, 49863.01],
+      // 91 days at 1.5% on 6m
+      ['invested_capital', 6_000_000, 0.015, 22438.36],
+      // 92 days at the stepped-down 1% on 5m
+      ['invested_capital', 5_000_000, 0.01, 12602.74]
+    ]);
+  });
+
+  it('splits a quarter that straddles the end of the investment period', () => {
+    const fees = calculateQuarterlyFees(
+      { ...terms, investmentPeriodEndDate: date(2024, 2, 15) },
+      inputs(),
+      date(2024, 3, 31)
+    );
+
+    expect(fees.map(fee => [fee.periodStart, fee.periodEnd, fee.basis, fee.basisAmount, fee.grossFee, fee.quarterComplete])).toEqual([
+      // 46 days at 2% on 10m
+      [date(2024, 1, 1), date(2024, 2, 15), 'commitment', 10_000_000, 25205.48, true],
+      // 45 days at 1.5% on 6m
+      [date(2024, 2, 16), date(2024, 3, 31), 'invested_capital', 6_000_000, 11095.89, true]
+    ]);
+  });
+
+  it('carries offsets in excess of a quarter\'s fee forward', () => {
+    const offsetsBetween = (start: Date) => (start.getTime() === date(2024, 1, 1).getTime() ? 60_000 : 0);
+    const fees = calculateQuarterlyFees(terms, inputs({ offsetsBetween }), date(2024, 9, 30));
+
+    expect(fees.map(fee => [fee.offsetAmount, fee.netFee])).toEqual([
+      [49863.01, 0],
+      [10136.99, 39726.02],
+      [0, 50410.96]
+    ]);
+  });
+
+  it('applies only the offset percentage of fee income', () => {
+    const [first] = calculateQuarterlyFees({ ...terms, offsetPercentage: 0.8 }, inputs({ offsetsBetween: () => 10_000 }), date(2024, 3, 31));
+
+    expect(first.offsetAmount).toBe(8000);
+    expect(first.netFee).toBe(41863.01);
+  });
+});
+
+describe('postInvestmentRateAt', () => {
+  const withStepDowns: FeeScheduleTerms = {
+    ...terms,
+    stepDowns: [
+      { effectiveDate: date(2027, 1, 1), rate: 0.0125 },
+      { effectiveDate: date(2026, 1, 1), rate: 0.0175 }
+    ]
+  };
+
+  it('uses the post-investment rate before any step-down', () => {
+    expect(postInvestmentRateAt(withStepDowns, date(2025, 12, 31))).toBe(0.015);
+  });
+
+  it('uses the latest step-down in effect, whatever order they are listed in', () => {
+    expect(postInvestmentRateAt(withStepDowns, date(2026, 1, 1))).toBe(0.0175);
+    expect(postInvestmentRateAt(withStepDowns, date(2030, 1, 1))).toBe(0.0125);
+  });
+});
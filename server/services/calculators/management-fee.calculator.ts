@@ -0,0 +1,115 @@
+/**
+ * Management Fee Calculator
+ * Pure quarterly fee accrual engine: commitment basis during the investment period,
+ * invested-capital basis afterwards, with rate step-downs and fee offsets
+ */
+
+import { addDays, addQuarters, differenceInCalendarDays, startOfDay, startOfQuarter } from 'date-fns';
+
+const DAYS_PER_YEAR = 365;
+
+export interface FeeScheduleTerms {
+  feeStartDate: Date;
+  investmentPeriodEndDate: Date;
+  investmentPeriodRate: number;
+  postInvestmentRate: number;
+  stepDowns: Array<{ effectiveDate: Date; rate: number }>;
+  offsetPercentage: number;
+}
+
+export interface FeeBasisInputs {
+  commitmentAt: (date: Date) => number; // Fund commitments in force on a date
+  investedCapitalAt: (date: Date) => number; // Invested (paid-in, unreturned) capital on a date
+  offsetsBetween: (start: Date, end: Date) => number; // Offsettable fee income received in a period
+}
+
+export interface QuarterlyFee {
+  periodStart: Date;
+  periodEnd: Date;
+  basis: 'commitment' | 'invested_capital';
+  basisAmount: number;
+  rate: number;
+  grossFee: number;
+  offsetAmount: number;
+  netFee: number;
+  quarterComplete: boolean; // False for the quarter containing the as-of date when it ends later
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Annual fee rate after the investment period, taking the latest step-down in effect
+ */
+export function postInvestmentRateAt(terms: FeeScheduleTerms, date: Date): number {
+  const applicable = terms.stepDowns
+    .filter(stepDown => stepDown.effectiveDate <= date)
+    .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime());
+  return applicable.length > 0 ? applicable[0].rate : terms.postInvestmentRate;
+}
+
+/**
+ * Calculate quarterly fees from the fee start date through asOfDate.
+ * Partial first quarters, and the quarter containing asOfDate, are prorated by day count, so only
+ * fees accrued so far are charged. A quarter that straddles the end of the investment period is
+ * split there into a commitment-basis period and an invested-capital period. Offsets reduce the net
+ * fee, and any offset in excess of a period's fee carries forward to later periods.
+ */
+export function calculateQuarterlyFees(
+  terms: FeeScheduleTerms,
+  inputs: FeeBasisInputs,
+  asOfDate: Date
+): QuarterlyFee[] {
+  const fees: QuarterlyFee[] = [];
+  let offsetCarryForward = 0;
+  const asOfDay = startOfDay(asOfDate);
+  const investmentPeriodEnd = startOfDay(terms.investmentPeriodEndDate);
+  if (asOfDay < startOfDay(terms.feeStartDate)) return fees;
+
+  let quarterStart = startOfQuarter(terms.feeStartDate);
+
+  while (quarterStart <= asOfDate) {
+    const nextQuarter = addQuarters(quarterStart, 1);
+    const start = quarterStart < terms.feeStartDate ? terms.feeStartDate : quarterStart;
+    const quarterEnd = addDays(nextQuarter, -1);
+    const quarterComplete = quarterEnd <= asOfDay;
+    const end = quarterComplete ? quarterEnd : asOfDay;
+
+    const periods = start <= investmentPeriodEnd && investmentPeriodEnd < end
+      ? [{ periodStart: start, periodEnd: investmentPeriodEnd }, { periodStart: addDays(investmentPeriodEnd, 1), periodEnd: end }]
+      : [{ periodStart: start, periodEnd: end }];
+
+    for (const { periodStart, periodEnd } of periods) {
+      if (periodEnd < periodStart) continue;
+
+      const inInvestmentPeriod = periodStart <= terms.investmentPeriodEndDate;
+      const basis = inInvestmentPeriod ? 'commitment' : 'invested_capital';
+      const basisAmount = inInvestmentPeriod ? inputs.commitmentAt(periodEnd) : inputs.investedCapitalAt(periodStart);
+      const rate = inInvestmentPeriod ? terms.investmentPeriodRate : postInvestmentRateAt(terms, periodStart);
+
+      const days = differenceInCalendarDays(addDays(periodEnd, 1), periodStart);
+      const grossFee = roundToCents((basisAmount * rate * days) / DAYS_PER_YEAR);
+
+      const availableOffset = offsetCarryForward + inputs.offsetsBetween(periodStart, periodEnd) * terms.offsetPercentage;
+      const offsetAmount = roundToCents(Math.min(grossFee, availableOffset));
+      offsetCarryForward = roundToCents(availableOffset - offsetAmount);
+
+      fees.push({
+        periodStart,
+        periodEnd,
+        basis,
+        basisAmount: roundToCents(basisAmount),
+        rate,
+        grossFee,
+        offsetAmount,
+        netFee: roundToCents(grossFee - offsetAmount),
+        quarterComplete
+      });
+    }
+
+    quarterStart = nextQuarter;
+  }
+
+  return fees;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNavRollforward, type NavRollforwardInputs } from './nav-rollforward.calculator';
+
+// Quarters follow date-fns, which works in local time
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+
+type Dated = [Date, number];
+
+const sumBetween = (flows: Dated[]) => (start: Date, end: Date) =>
+  flows.filter(([on]) => on >= start && on < end).reduce((sum, [, amount]) => sum + amount, 0);
+
+const latestAt = (marks: Dated[]) => (on: Date) =>
+  marks.filter(([markedOn]) => markedOn <= on).reduce((_, [, value]) => value, 0);
+
+const inputs = (marks: Dated[], contributions: Dated[], distributions: Dated[] = []): NavRollforwardInputs => ({
+  navAt: latestAt(marks),
+  contributionsBetween: sumBetween(contributions),
+  distributionsBetween: sumBetween(distributions)
+});
+
+describe('calculateNavRollforward', () => {
+  const portfolio = inputs(
+    [
+      [date(2024, 3, 31), 1_100_000],
+      [date(2024, 6, 30), 1_350_000],
+      [date(2024, 8, 1), 1_400_000]
+    ],
+    [
+      [date(2024, 2, 10), 1_000_000],
+      [date(2024, 6, 30), 500_000]
+    ],
+    [
+      [date(2024, 5, 1), 200_000],
+      [date(2024, 8, 16), 100_000]
+    ]
+  );
+
+  it('opens each quarter at the previous closing NAV and reconciles with unrealized change', () => {
+    const quarters = calculateNavRollforward(portfolio, date(2024, 2, 10), date(2024, 8, 15));
+
+    expect(quarters.map(({ openingNav, contributions, distributions, unrealizedChange, closingNav }) => ({
+      openingNav, contributions, distributions, unrealizedChange, closingNav
+    }))).toEqual([
+      { openingNav: 0, contributions: 1_000_000, distributions: 0, unrealizedChange: 100_000, closingNav: 1_100_000 },
+      { openingNav: 1_100_000, contributions: 500_000, distributions: 200_000, unrealizedChange: -50_000, closingNav: 1_350_000 },
+      { openingNav: 1_350_000, contributions: 0, distributions: 0, unrealizedChange: 50_000, closingNav: 1_400_000 }
+    ]);
+  });
+
+  it('starts at the quarter containing the start date and closes the current quarter on the as-of date', () => {
+    const quarters = calculateNavRollforward(portfolio, date(2024, 2, 10), date(2024, 8, 15));
+
+    expect(quarters.map(({ periodStart, periodEnd }) => [periodStart, periodEnd])).toEqual([
+      [date(2024, 1, 1), date(2024, 3, 31)],
+      [date(2024, 4, 1), date(2024, 6, 30)],
+      [date(2024, 7, 1), date(2024, 8, 15)]
+    ]);
+  });
+
+  it('counts cash flows on the closing day but not after it', () => {
+    const [, second, third] = calculateNavRollforward(portfolio, date(2024, 1, 1), date(2024, 8, 15));
+
+    expect(second.contributions).toBe(500_000);
+    expect(third.distributions).toBe(0);
+  });
+
+  it('rounds to cents', () => {
+    const [quarter] = calculateNavRollforward(
+      inputs([[date(2024, 3, 31), 100.005]], [[date(2024, 1, 2), 33.333]]),
+      date(2024, 1, 1),
+      date(2024, 3, 31)
+    );
+
+    expect(quarter.contributions).toBe(33.33);
+    expect(quarter.unrealizedChange).toBe(66.67);
+  });
+
+  it('is empty before the start date', () => {
+    expect(calculateNavRollforward(portfolio, date(2024, 2, 10), date(2023, 12, 31))).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * NAV Roll-forward Calculator
+ * Pure quarterly roll-forward: opening NAV + contributions - distributions ± unrealized change = closing NAV
+ */
+
+import { addDays, addQuarters, startOfQuarter } from 'date-fns';
+
+export interface NavRollforwardInputs {
+  navAt: (date: Date) => number; // Portfolio value on a date, from the latest marks
+  contributionsBetween: (start: Date, end: Date) => number; // Paid-in capital in [start, end), positive
+  distributionsBetween: (start: Date, end: Date) => number; // Cash returned in [start, end), positive
+}
+
+export interface NavQuarter {
+  periodStart: Date;
+  periodEnd: Date;
+  openingNav: number;
+  contributions: number;
+  distributions: number;
+  unrealizedChange: number;
+  closingNav: number;
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Roll NAV forward quarter by quarter from the quarter containing startDate through asOfDate.
+ * The current quarter closes on asOfDate; unrealized change is the residual that reconciles
+ * opening to closing NAV after cash flows.
+ */
+export function calculateNavRollforward(
+  inputs: NavRollforwardInputs,
+  startDate: Date,
+  asOfDate: Date
+): NavQuarter[] {
+  const quarters: NavQuarter[] = [];
+  let quarterStart = startOfQuarter(startDate);
+  let openingNav = 0;
+
+  while (quarterStart <= asOfDate) {
+    const nextQuarter = addQuarters(quarterStart, 1);
+    const quarterEnd = addDays(nextQuarter, -1);
+    const periodEnd = quarterEnd > asOfDate ? asOfDate : quarterEnd;
+
+    // Cash flows are counted through the end of the closing day
+    const flowsEnd = addDays(periodEnd, 1);
+    const contributions = inputs.contributionsBetween(quarterStart, flowsEnd);
+    const distributions = inputs.distributionsBetween(quarterStart, flowsEnd);
+    const closingNav = inputs.navAt(periodEnd);
+
+    quarters.push({
+      periodStart: quarterStart,
+      periodEnd,
+      openingNav: roundToCents(openingNav),
+      contributions: roundToCents(contributions),
+      distributions: roundToCents(distributions),
+      unrealizedChange: roundToCents(closingNav - openingNav - contributions + distributions),
+      closingNav: roundToCents(closingNav)
+    });
+
+    openingNav = closingNav;
+    quarterStart = nextQuarter;
+  }
+
+  return quarters;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { splitProRata } from './pro-rata.calculator';
+
+const commitments = (...amounts: number[]) => amounts.map((commitmentAmount, i) => ({ id: i + 1, commitmentAmount }));
+
+const total = (split: Array<{ amount: number }>) => Math.round(split.reduce((sum, s) => sum + s.amount, 0) * 100) / 100;
+
+describe('splitProRata', () => {
+  it('splits in proportion to each commitment', () => {
+    expect(splitProRata(100_000, commitments(6_000_000, 3_000_000, 1_000_000))).toEqual([
+      { commitmentId: 1, share: 0.6, amount: 60_000 },
+      { commitmentId: 2, share: 0.3, amount: 30_000 },
+      { commitmentId: 3, share: 0.1, amount: 10_000 }
+    ]);
+  });
+
+  it('gives the rounding remainder to the largest commitment', () => {
+    // 16.666... rounds up to 16.67 three times, a cent over; the 3M commitment gives it back
+    const split = splitProRata(100, commitments(1_000_000, 1_000_000, 1_000_000, 3_000_000));
+
+    expect(split.map(s => s.amount)).toEqual([16.67, 16.67, 16.67, 49.99]);
+    expect(total(split)).toBe(100);
+  });
+
+  it('splits equally across equal commitments, the remainder going to the first', () => {
+    const split = splitProRata(100, commitments(5_000_000, 5_000_000, 5_000_000));
+
+    expect(split.map(s => s.amount)).toEqual([33.34, 33.33, 33.33]);
+    expect(total(split)).toBe(100);
+  });
+
+  it('always sums to the amount', () => {
+    for (const amount of [0.01, 99.99, 12_345.67, 1_000_000]) {
+      expect(total(splitProRata(amount, commitments(3, 7, 11, 13)))).toBe(amount);
+    }
+  });
+
+  it('returns nothing when the commitments total zero', () => {
+    expect(splitProRata(1_000, commitments(0, 0))).toEqual([]);
+    expect(splitProRata(1_000, [])).toEqual([]);
+  });
+});
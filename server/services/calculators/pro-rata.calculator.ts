@@ -0,0 +1,41 @@
+/**
+ * Pro-rata Calculator
+ * Pure split of a fund amount across LP commitments, in proportion to each commitment
+ */
+
+export interface ProRataShare {
+  commitmentId: number;
+  share: number;
+  amount: number;
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split an amount pro-rata across commitments.
+ * Every share is rounded to cents and the rounding remainder goes to the largest commitment
+ * so the split always sums to the original amount.
+ */
+export function splitProRata(
+  amount: number,
+  commitments: Array<{ id: number; commitmentAmount: number }>
+): ProRataShare[] {
+  const total = commitments.reduce((sum, c) => sum + c.commitmentAmount, 0);
+  if (total <= 0) return [];
+
+  const split = commitments.map(c => ({
+    commitmentId: c.id,
+    share: c.commitmentAmount / total,
+    amount: roundToCents((amount * c.commitmentAmount) / total)
+  }));
+
+  const remainder = roundToCents(amount - split.reduce((sum, s) => sum + s.amount, 0));
+  if (remainder !== 0) {
+    const largest = split.reduce((max, s) => (s.share > max.share ? s : max), split[0]);
+    largest.amount = roundToCents(largest.amount + remainder);
+  }
+
+  return split;
+}
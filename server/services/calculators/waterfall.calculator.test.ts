@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+  accruePreferredReturn,
+  runWaterfall,
+  splitDistribution,
+  type WaterfallTerms
+} from './waterfall.calculator';
+
+const terms: WaterfallTerms = {
+  waterfallType: 'european',
+  preferredReturnRate: 0.08,
+  catchUpPercentage: 1,
+  carriedInterestRate: 0.2
+};
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe('accruePreferredReturn', () => {
+  it('compounds annually on contributed capital', () => {
+    const accrued = accruePreferredReturn(
+      [{ date: date('2020-01-01'), amount: 100 }],
+      [],
+      0.08,
+      date('2022-01-01')
+    );
+    // 731 days, including the leap day
+    expect(accrued).toBeCloseTo(100 * (Math.pow(1.08, 731 / 365) - 1), 6);
+  });
+
+  it('stops accruing on capital once it has been returned but keeps compounding the unpaid hurdle', () => {
+    const accrued = accruePreferredReturn(
+      [{ date: date('2020-01-01'), amount: 100 }],
+      [{ date: date('2021-01-01'), amount: 100 }],
+      0.08,
+      date('2025-01-01')
+    );
+    const unpaidAtReturn = 100 * (Math.pow(1.08, 366 / 365) - 1);
+    expect(accrued).toBeCloseTo(unpaidAtReturn * Math.pow(1.08, 1461 / 365), 6);
+  });
+
+  it('accrues on the unreturned remainder and unpaid hurdle after a partial return', () => {
+    const accrued = accruePreferredReturn(
+      [{ date: date('2021-01-01'), amount: 100 }],
+      [{ date: date('2022-01-01'), amount: 40 }],
+      0.08,
+      date('2023-01-01')
+    );
+    expect(accrued).toBeCloseTo(8 + (100 + 8 - 40) * 0.08, 6);
+  });
+
+  it('does not depend on how many events split the period', () => {
+    const contributions = [{ date: date('2020-01-01'), amount: 100 }];
+    const unsplit = accruePreferredReturn(contributions, [], 0.08, date('2024-01-01'));
+    const split = accruePreferredReturn(
+      contributions,
+      [
+        { date: date('2020-07-15'), amount: 0 },
+        { date: date('2021-03-01'), amount: 0 },
+        { date: date('2022-01-01'), amount: 0 },
+        { date: date('2023-10-20'), amount: 0 }
+      ],
+      0.08,
+      date('2024-01-01')
+    );
+
+    expect(split).toBeCloseTo(unsplit, 9);
+    expect(unsplit).toBeCloseTo(100 * (Math.pow(1.08, 1461 / 365) - 1), 9);
+  });
+
+  it('gives the same hurdle for one distribution or the same amount in installments on that date', () => {
+    const contributions = [{ date: date('2020-01-01'), amount: 100 }];
+    const single = accruePreferredReturn(
+      contributions,
+      [{ date: date('2021-06-30'), amount: 50 }],
+      0.08,
+      date('2023-01-01')
+    );
+    const installments = accruePreferredReturn(
+      contributions,
+      [
+        { date: date('2021-06-30'), amount: 20 },
+        { date: date('2021-06-30'), amount: 30 }
+      ],
+      0.08,
+      date('2023-01-01')
+    );
+
+    expect(installments).toBeCloseTo(single, 9);
+  });
+
+  it('ignores contributions and distributions after the as-of date', () => {
+    const accrued = accruePreferredReturn(
+      [
+        { date: date('2021-01-01'), amount: 100 },
+        { date: date('2023-01-01'), amount: 500 }
+      ],
+      [{ date: date('2023-01-01'), amount: 100 }],
+      0.08,
+      date('2022-01-01')
+    );
+    expect(accrued).toBeCloseTo(8, 6);
+  });
+});
+
+describe('runWaterfall', () => {
+  it('returns capital, pays the hurdle, catches up the GP and splits the rest', () => {
+    const result = runWaterfall(150, 100, 8, terms);
+    const tier = (name: string) => result.tiers.find(t => t.tier === name)!;
+
+    expect(tier('return_of_capital').lpAmount).toBe(100);
+    expect(tier('preferred_return').lpAmount).toBe(8);
+    expect(tier('gp_catch_up').gpAmount).toBeCloseTo(2, 6);
+    expect(tier('carried_interest').lpAmount).toBeCloseTo(32, 6);
+    expect(tier('carried_interest').gpAmount).toBeCloseTo(8, 6);
+    // GP holds exactly its carry share of total profit
+    expect(result.gpTotal).toBeCloseTo(0.2 * 50, 6);
+  });
+});
+
+describe('splitDistribution', () => {
+  it('does not charge a hurdle on capital returned before the distribution', () => {
+    const split = splitDistribution(
+      50,
+      [{ date: date('2021-01-01'), amount: 100 }],
+      [{ date: date('2020-01-01'), amount: 100 }],
+      terms,
+      date('2025-01-01')
+    );
+
+    const hurdle = 100 * (Math.pow(1.08, 366 / 365) - 1) * Math.pow(1.08, 1461 / 365);
+    expect(split.returnOfCapital).toBe(0);
+    expect(split.preferredReturn).toBeCloseTo(hurdle, 2);
+    expect(split.lpTotal).toBeCloseTo(40, 0);
+    expect(split.gpTotal).toBeCloseTo(10, 0);
+    expect(split.lpTotal + split.gpTotal).toBe(50);
+    expect(split.trace.priorDistributions).toBe(100);
+  });
+
+  it('returns capital before anything else', () => {
+    const split = splitDistribution(
+      60,
+      [],
+      [{ date: date('2020-01-01'), amount: 100 }],
+      terms,
+      date('2021-01-01')
+    );
+
+    expect(split.returnOfCapital).toBe(60);
+    expect(split.lpTotal).toBe(60);
+    expect(split.gpTotal).toBe(0);
+  });
+
+  it('pays the whole distribution to LPs while the hurdle is unmet', () => {
+    const split = splitDistribution(
+      105,
+      [],
+      [{ date: date('2020-01-01'), amount: 100 }],
+      terms,
+      date('2021-01-01')
+    );
+
+    expect(split.returnOfCapital).toBe(100);
+    expect(split.preferredReturn).toBe(5);
+    expect(split.gpTotal).toBe(0);
+  });
+});
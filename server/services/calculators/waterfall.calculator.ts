@@ -0,0 +1,209 @@
+/**
+ * Waterfall Calculator
+ * Pure distribution waterfall engine: return of capital, preferred return, GP catch-up and carry split
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+export type WaterfallType = 'european' | 'american';
+
+export interface WaterfallTerms {
+  waterfallType: WaterfallType;
+  preferredReturnRate: number; // Annual hurdle as a decimal, e.g. 0.08
+  catchUpPercentage: number; // Share of catch-up tier paid to the GP as a decimal, e.g. 1.0 for full catch-up
+  carriedInterestRate: number; // GP carry as a decimal, e.g. 0.2
+}
+
+export interface DatedContribution {
+  date: Date;
+  amount: number; // Positive contributed amount
+}
+
+export interface DatedDistribution {
+  date: Date;
+  amount: number; // Positive distributed amount
+}
+
+export type WaterfallTier = 'return_of_capital' | 'preferred_return' | 'gp_catch_up' | 'carried_interest';
+
+export interface WaterfallTierResult {
+  tier: WaterfallTier;
+  lpAmount: number;
+  gpAmount: number;
+  tierLimit: number | null; // Maximum the tier could absorb, null when uncapped
+}
+
+export interface WaterfallResult {
+  totalDistributed: number;
+  lpTotal: number;
+  gpTotal: number;
+  tiers: WaterfallTierResult[];
+}
+
+export interface DistributionWaterfallTrace {
+  terms: WaterfallTerms;
+  asOfDate: string;
+  contributedCapital: number;
+  preferredReturnAccrued: number;
+  priorDistributions: number;
+  distributionAmount: number;
+  cumulativeBefore: WaterfallResult;
+  cumulativeAfter: WaterfallResult;
+}
+
+export interface DistributionSplit {
+  returnOfCapital: number;
+  preferredReturn: number;
+  gpCatchUp: number;
+  lpCarriedInterestShare: number;
+  gpCarriedInterest: number;
+  lpTotal: number;
+  gpTotal: number;
+  trace: DistributionWaterfallTrace;
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Preferred return accrued up to a date, compounded annually on unreturned capital plus unpaid
+ * preferred return. Distributions return capital first and then pay the hurdle, so each one reduces
+ * the base the hurdle accrues on from its date onwards. Splitting a period at an event does not
+ * change the result.
+ */
+export function accruePreferredReturn(
+  contributions: DatedContribution[],
+  distributions: DatedDistribution[],
+  rate: number,
+  asOfDate: Date
+): number {
+  const events = [
+    ...contributions.map(c => ({ date: c.date, contributed: c.amount, distributed: 0 })),
+    ...distributions.map(d => ({ date: d.date, contributed: 0, distributed: d.amount }))
+  ]
+    .filter(event => event.date <= asOfDate)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let contributed = 0;
+  let distributed = 0;
+  let accrued = 0;
+  let periodStart: Date | null = null;
+
+  const accrueTo = (date: Date) => {
+    if (periodStart) {
+      const compoundingBase = Math.max(0, contributed + accrued - distributed);
+      const years = Math.max(0, (date.getTime() - periodStart.getTime()) / MS_PER_DAY / DAYS_PER_YEAR);
+      accrued += compoundingBase * (Math.pow(1 + rate, years) - 1);
+    }
+    periodStart = date;
+  };
+
+  for (const event of events) {
+    accrueTo(event.date);
+    contributed += event.contributed;
+    distributed += event.distributed;
+  }
+  accrueTo(asOfDate);
+
+  return accrued;
+}
+
+/**
+ * Run the waterfall over a cumulative distributed amount
+ */
+export function runWaterfall(
+  totalDistributed: number,
+  contributedCapital: number,
+  preferredReturn: number,
+  terms: WaterfallTerms
+): WaterfallResult {
+  let remaining = Math.max(0, totalDistributed);
+  const tiers: WaterfallTierResult[] = [];
+
+  // 1. Return of capital - 100% to LPs until contributed capital is returned
+  const returnOfCapital = Math.min(remaining, contributedCapital);
+  tiers.push({ tier: 'return_of_capital', lpAmount: returnOfCapital, gpAmount: 0, tierLimit: contributedCapital });
+  remaining -= returnOfCapital;
+
+  // 2. Preferred return - 100% to LPs until the hurdle is met
+  const pref = Math.min(remaining, preferredReturn);
+  tiers.push({ tier: 'preferred_return', lpAmount: pref, gpAmount: 0, tierLimit: preferredReturn });
+  remaining -= pref;
+
+  // 3. GP catch-up - GP takes catchUpPercentage of each dollar until it holds carry% of profits
+  const { catchUpPercentage: q, carriedInterestRate: carry } = terms;
+  let catchUpLimit = 0;
+  if (q > carry && carry > 0) {
+    catchUpLimit = (carry * preferredReturn) / (q - carry);
+  }
+  const catchUp = Math.min(remaining, catchUpLimit);
+  tiers.push({ tier: 'gp_catch_up', lpAmount: catchUp * (1 - q), gpAmount: catchUp * q, tierLimit: catchUpLimit });
+  remaining -= catchUp;
+
+  // 4. Carried interest split on everything above
+  tiers.push({ tier: 'carried_interest', lpAmount: remaining * (1 - carry), gpAmount: remaining * carry, tierLimit: null });
+
+  const lpTotal = tiers.reduce((sum, tier) => sum + tier.lpAmount, 0);
+  const gpTotal = tiers.reduce((sum, tier) => sum + tier.gpAmount, 0);
+
+  return { totalDistributed: Math.max(0, totalDistributed), lpTotal, gpTotal, tiers };
+}
+
+/**
+ * Split one distribution into LP and GP tranches, given the distributions that preceded it.
+ * The waterfall is run on cumulative distributions with and without this distribution;
+ * the difference per tier is what this distribution pays.
+ */
+export function splitDistribution(
+  amount: number,
+  distributionHistory: DatedDistribution[],
+  contributions: DatedContribution[],
+  terms: WaterfallTerms,
+  asOfDate: Date
+): DistributionSplit {
+  const contributedCapital = contributions.reduce((sum, c) => sum + c.amount, 0);
+  const priorDistributions = distributionHistory.reduce((sum, d) => sum + d.amount, 0);
+  const preferredReturn = accruePreferredReturn(contributions, distributionHistory, terms.preferredReturnRate, asOfDate);
+
+  const before = runWaterfall(priorDistributions, contributedCapital, preferredReturn, terms);
+  const after = runWaterfall(priorDistributions + amount, contributedCapital, preferredReturn, terms);
+
+  const tierDelta = (tier: WaterfallTier, side: 'lpAmount' | 'gpAmount') => {
+    const a = after.tiers.find(t => t.tier === tier)?.[side] || 0;
+    const b = before.tiers.find(t => t.tier === tier)?.[side] || 0;
+    return roundToCents(a - b);
+  };
+
+  const returnOfCapital = tierDelta('return_of_capital', 'lpAmount');
+  const preferredReturnPaid = tierDelta('preferred_return', 'lpAmount');
+  const gpCatchUp = tierDelta('gp_catch_up', 'gpAmount');
+  const lpCatchUpShare = tierDelta('gp_catch_up', 'lpAmount');
+  const lpCarriedInterestShare = roundToCents(tierDelta('carried_interest', 'lpAmount') + lpCatchUpShare);
+  const gpCarriedInterest = tierDelta('carried_interest', 'gpAmount');
+
+  const gpTotal = roundToCents(gpCatchUp + gpCarriedInterest);
+  // LP total absorbs rounding so the tranches always sum to the distribution
+  const lpTotal = roundToCents(amount - gpTotal);
+
+  return {
+    returnOfCapital,
+    preferredReturn: preferredReturnPaid,
+    gpCatchUp,
+    lpCarriedInterestShare,
+    gpCarriedInterest,
+    lpTotal,
+    gpTotal,
+    trace: {
+      terms,
+      asOfDate: asOfDate.toISOString(),
+      contributedCapital: roundToCents(contributedCapital),
+      preferredReturnAccrued: roundToCents(preferredReturn),
+      priorDistributions: roundToCents(priorDistributions),
+      distributionAmount: roundToCents(amount),
+      cumulativeBefore: before,
+      cumulativeAfter: after
+    }
+  };
+}
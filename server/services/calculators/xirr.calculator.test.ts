@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { solveXirr } from './xirr.calculator';
+import type { CashFlow } from '../irr-calculator.service';
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const flow = (iso: string, amount: number): CashFlow => ({
+  date: date(iso),
+  amount,
+  type: amount < 0 ? 'contribution' : 'distribution',
+  allocationId: 1
+});
+
+describe('solveXirr', () => {
+  it('matches the spreadsheet XIRR of an irregular series', () => {
+    const rate = solveXirr([
+      flow('2008-01-01', -10000),
+      flow('2008-03-01', 2750),
+      flow('2008-10-30', 4250),
+      flow('2009-02-15', 3250),
+      flow('2009-04-01', 2750)
+    ]);
+    expect(rate).toBeCloseTo(0.373362535, 6);
+  });
+
+  it('annualizes over actual days held', () => {
+    // 731 days, including the leap day
+    const rate = solveXirr([flow('2020-01-01', -100), flow('2022-01-01', 121)]);
+    expect(rate).toBeCloseTo(Math.pow(1.21, 365 / 731) - 1, 7);
+  });
+
+  it('returns negative rates for losses', () => {
+    const rate = solveXirr([flow('2021-01-01', -100), flow('2022-01-01', 50)]);
+    expect(rate).toBeCloseTo(-0.5, 7);
+  });
+
+  it('does not depend on the order of the flows', () => {
+    const flows = [flow('2019-06-30', 40), flow('2018-01-01', -100), flow('2020-12-31', 90), flow('2018-07-01', -20)];
+    const sorted = [...flows].sort((a, b) => a.date.getTime() - b.date.getTime());
+    expect(solveXirr(flows)).toBeCloseTo(solveXirr(sorted)!, 9);
+  });
+
+  it('falls back to bisection when Newton-Raphson leaves the domain', () => {
+    // From a 500% guess the first Newton step lands below -100%
+    const rate = solveXirr([flow('2021-01-01', -100), flow('2022-01-01', 121)], 5);
+    expect(rate).toBeCloseTo(0.21, 6);
+  });
+
+  it('is null without both a contribution and a distribution', () => {
+    expect(solveXirr([])).toBeNull();
+    expect(solveXirr([flow('2020-01-01', -100)])).toBeNull();
+    expect(solveXirr([flow('2020-01-01', -100), flow('2021-01-01', -50)])).toBeNull();
+    expect(solveXirr([flow('2020-01-01', 100), flow('2021-01-01', 50)])).toBeNull();
+  });
+});
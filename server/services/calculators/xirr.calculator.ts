@@ -0,0 +1,81 @@
+/**
+ * XIRR Calculator
+ * Pure annualized internal rate of return over dated cash flows
+ */
+
+import type { CashFlow } from '../irr-calculator.service';
+
+const DAYS_PER_YEAR = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-7;
+
+/**
+ * Net present value of dated cash flows at an annual rate
+ */
+function xnpv(rate: number, flows: CashFlow[], origin: number): number {
+  return flows.reduce((total, flow) => {
+    const years = (flow.date.getTime() - origin) / MS_PER_DAY / DAYS_PER_YEAR;
+    return total + flow.amount / Math.pow(1 + rate, years);
+  }, 0);
+}
+
+/**
+ * Derivative of xnpv with respect to rate, used by the Newton-Raphson step
+ */
+function xnpvDerivative(rate: number, flows: CashFlow[], origin: number): number {
+  return flows.reduce((total, flow) => {
+    const years = (flow.date.getTime() - origin) / MS_PER_DAY / DAYS_PER_YEAR;
+    return total - (years * flow.amount) / Math.pow(1 + rate, years + 1);
+  }, 0);
+}
+
+/**
+ * Solve XIRR for a series of dated cash flows.
+ * Uses Newton-Raphson with a bisection fallback; returns the annual rate as a decimal
+ * or null when the series has no sign change or does not converge.
+ */
+export function solveXirr(flows: CashFlow[], guess: number = 0.1): number | null {
+  if (flows.length < 2) return null;
+
+  const hasOutflow = flows.some(flow => flow.amount < 0);
+  const hasInflow = flows.some(flow => flow.amount > 0);
+  if (!hasOutflow || !hasInflow) return null;
+
+  const origin = Math.min(...flows.map(flow => flow.date.getTime()));
+
+  // Newton-Raphson
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = xnpv(rate, flows, origin);
+    const derivative = xnpvDerivative(rate, flows, origin);
+    if (Math.abs(value) < TOLERANCE) return rate;
+    if (derivative === 0 || !isFinite(derivative)) break;
+
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Bisection fallback over a wide bracket
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = xnpv(low, flows, origin);
+  const highValue = xnpv(high, flows, origin);
+  if (lowValue * highValue > 0) return null;
+
+  for (let i = 0; i < MAX_ITERATIONS * 2; i++) {
+    const mid = (low + high) / 2;
+    const midValue = xnpv(mid, flows, origin);
+    if (Math.abs(midValue) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid;
+    if (midValue * lowValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return null;
+}
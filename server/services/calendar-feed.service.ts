@@ -0,0 +1,197 @@
+/**
+ * Calendar Feed Service
+ *
+ * Per-user iCalendar subscription feeds for Outlook, Google Calendar and Apple Calendar.
+ * Calendar apps fetch the feed without a session, so each feed has its own random token
+ * that can be revoked independently. Scopes: every event, the user's assigned deals, or one fund.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import { calendarFeeds, dealAssignments, funds, type CalendarFeed, type CalendarFeedScope } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { calendarService, type CalendarEvent, type CalendarEventFilters } from './calendar.service';
+import { buildCalendar, formatDateTime, type IcsEvent } from '../utils/ics';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Feeds cover recent history and the foreseeable future, not every event ever scheduled
+const FEED_PAST_DAYS = 180;
+const FEED_FUTURE_DAYS = 730;
+
+const SCOPE_NAMES: Record<CalendarFeedScope, string> = {
+  all: 'All events',
+  my_deals: 'My deals',
+  fund: 'Fund'
+};
+
+export interface CalendarFeedView {
+  id: number;
+  scope: CalendarFeedScope;
+  fundId: number | null;
+  name: string;
+  token: string;
+  createdAt: Date;
+  lastAccessedAt: Date | null;
+}
+
+const CLOSING_STATUS: Record<string, IcsEvent['status']> = {
+  scheduled: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  delayed: 'TENTATIVE',
+  cancelled: 'CANCELLED'
+};
+
+export class CalendarFeedService {
+  async listFeeds(userId: number): Promise<CalendarFeedView[]> {
+    const feeds = await db.select().from(calendarFeeds)
+      .where(eq(calendarFeeds.userId, userId))
+      .orderBy(calendarFeeds.createdAt);
+    return Promise.all(feeds.map(feed => this.toView(feed)));
+  }
+
+  async createFeed(userId: number, scope: CalendarFeedScope, fundId?: number): Promise<CalendarFeedView> {
+    if (scope === 'fund') {
+      if (fundId === undefined) {
+        throw new ValidationError('fundId is required for a fund feed', 'fundId');
+      }
+      const [fund] = await db.select({ id: funds.id }).from(funds).where(eq(funds.id, fundId));
+      if (!fund) {
+        throw new NotFoundError('Fund', fundId);
+      }
+    }
+
+    const [feed] = await db.insert(calendarFeeds).values({
+      userId,
+      scope,
+      fundId: scope === 'fund' ? fundId : null,
+      token: crypto.randomBytes(32).toString('base64url')
+    }).returning();
+    return this.toView(feed);
+  }
+
+  /**
+   * Revoke a feed; its URL stops working immediately
+   */
+  async deleteFeed(userId: number, feedId: number): Promise<void> {
+    const deleted = await db.delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, feedId), eq(calendarFeeds.userId, userId)))
+      .returning({ id: calendarFeeds.id });
+    if (deleted.length === 0) {
+      throw new NotFoundError('Calendar feed', feedId);
+    }
+  }
+
+  /**
+   * Render the feed for a token as an iCalendar document, or null when the token is unknown
+   */
+  async renderFeed(token: string, appUrl: string, now: Date = new Date()): Promise<string | null> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    if (!feed) return null;
+
+    await db.update(calendarFeeds)
+      .set({ lastAccessedAt: now })
+      .where(eq(calendarFeeds.id, feed.id));
+
+    const filters: CalendarEventFilters = {
+      startDate: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+      endDate: new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS)
+    };
+    if (feed.scope === 'my_deals') {
+      const assignments = await db.select({ dealId: dealAssignments.dealId })
+        .from(dealAssignments)
+        .where(eq(dealAssignments.userId, feed.userId));
+      filters.dealIds = assignments.map(assignment => assignment.dealId);
+    } else if (feed.scope === 'fund' && feed.fundId !== null) {
+      filters.fundId = feed.fundId;
+    }
+
+    const events = await calendarService.getEvents(filters);
+    const view = await this.toView(feed);
+
+    return buildCalendar({
+      name: `Investment Platform - ${view.name}`,
+      description: 'Meetings, capital call due dates and closing dates',
+      events: events.map(event => this.toIcsEvent(event, appUrl))
+    }, now);
+  }
+
+  private toIcsEvent(event: CalendarEvent, appUrl: string): IcsEvent {
+    const metadata = event.metadata || {};
+    const url = event.dealId ? `${appUrl}/deals/${event.dealId}` : undefined;
+    // Each occurrence of a series is published as its own event
+    const occurrence = event.occurrenceDate ? `-${formatDateTime(new Date(event.occurrenceDate))}` : '';
+
+    if (event.eventType === 'meeting') {
+      const description = [metadata.dealName && `Deal: ${metadata.dealName}`, metadata.attendees && `Attendees: ${metadata.attendees}`, event.description]
+        .filter(Boolean)
+        .join('\n');
+      return {
+        uid: `meeting-${event.id}${occurrence}@investment-platform`,
+        summary: metadata.dealName ? `${event.title} (${metadata.dealName})` : event.title,
+        description,
+        url,
+        location: metadata.location,
+        start: new Date(event.startDate),
+        end: new Date(event.endDate),
+        status: 'CONFIRMED',
+        categories: ['Meeting']
+      };
+    }
+
+    if (event.eventType === 'capital_call') {
+      const outstanding = Number(metadata.outstanding_amount ?? 0);
+      const description = [
+        metadata.fundName && `Fund: ${metadata.fundName}`,
+        `Call amount: ${metadata.callAmount}${metadata.amountType === 'percentage' ? '%' : ''}`,
+        `Outstanding: ${outstanding.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`,
+        `Status: ${event.status}`,
+        event.description
+      ].filter(Boolean).join('\n');
+      return {
+        uid: metadata.projected
+          ? `capital-call-schedule-${event.id}${occurrence}@investment-platform`
+          : `capital-call-${event.id}@investment-platform`,
+        summary: `${event.title} due${metadata.projected ? ' (projected)' : ''}`,
+        description,
+        url,
+        start: new Date(event.startDate),
+        allDay: true,
+        status: metadata.projected ? 'TENTATIVE' : 'CONFIRMED',
+        categories: ['Capital Call']
+      };
+    }
+
+    return {
+      uid: `closing-${event.id}@investment-platform`,
+      summary: event.title,
+      description: [`Status: ${event.status}`, event.description].filter(Boolean).join('\n'),
+      url,
+      start: new Date(event.startDate),
+      allDay: true,
+      status: CLOSING_STATUS[event.status] ?? 'CONFIRMED',
+      categories: ['Closing']
+    };
+  }
+
+  private async toView(feed: CalendarFeed): Promise<CalendarFeedView> {
+    let name = SCOPE_NAMES[feed.scope];
+    if (feed.scope === 'fund' && feed.fundId !== null) {
+      const [fund] = await db.select({ name: funds.name }).from(funds).where(eq(funds.id, feed.fundId));
+      name = fund?.name ?? `Fund #${feed.fundId}`;
+    }
+
+    return {
+      id: feed.id,
+      scope: feed.scope,
+      fundId: feed.fundId,
+      name,
+      token: feed.token,
+      createdAt: feed.createdAt,
+      lastAccessedAt: feed.lastAccessedAt
+    };
+  }
+}
+
+// Export singleton instance
+export const calendarFeedService = new CalendarFeedService();
@@ -1,191 +1,59 @@
 import { db } from '../db';
 import { closingScheduleEvents, capitalCalls, meetings, funds, fundAllocations, deals } from '@shared/schema';
-import { eq, and, gte, lte, desc, asc, sql } from 'drizzle-orm';
-import { addHours } from 'date-fns';
+import { eq, and, gte, lte, inArray, isNotNull, isNull, sql, type SQL } from 'drizzle-orm';
+import { meetingService } from './meeting.service';
+import { capitalCallScheduleService } from './capital-call-schedule.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Recurring meetings and capital call schedules are expanded this far ahead when no end date is given
+const RECURRENCE_HORIZON_DAYS = 365;
+
+export interface CalendarEventFilters {
+  startDate?: Date;
+  endDate?: Date;
+  dealId?: number;
+  /** Restrict to these deals; an empty list matches nothing */
+  dealIds?: number[];
+  /** Capital calls on the fund's allocations, and meetings and closings of deals it invested in */
+  fundId?: number;
+  /** `meeting`, `capital_call`, `closing` or a specific `closing_<type>` */
+  eventTypes?: string[];
+}
+
+export interface CalendarEvent {
+  id: number;
+  title: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date;
+  dealId: number | null;
+  eventType: string;
+  status: string;
+  metadata: Record<string, any>;
+  /** Set on occurrences of recurring meetings and capital call schedules; with `id` it identifies the occurrence */
+  occurrenceDate?: Date;
+}
 
 /**
  * Unified calendar service providing aggregated event data
- * from multiple sources: meetings, capital calls, and closing schedules
+ * from multiple sources: meetings, capital calls, and closing schedules.
+ * Recurring meetings are expanded into their occurrences within the requested range, and
+ * capital call schedule occurrences not yet issued appear as `projected` capital calls
+ * (their `id` is the schedule's).
  */
 export class CalendarService {
   /**
-   * Get all calendar events across different sources
-   * within a date range (if specified)
+   * Get all calendar events across different sources, optionally filtered by
+   * date range, deal, fund and event type
    */
-  async getAllEvents(dateRange?: { startDate?: string; endDate?: string }) {
+  async getAllEvents(filters: CalendarEventFilters = {}) {
     try {
-      // Prepare date filters based on provided range or default to all events
-      const startDate = dateRange?.startDate ? new Date(dateRange.startDate) : undefined;
-      const endDate = dateRange?.endDate ? new Date(dateRange.endDate) : undefined;
-
-      // 1. Fetch meetings
-      const meetingsQuery = startDate && endDate 
-        ? db.select({
-            id: meetings.id,
-            title: meetings.title,
-            description: meetings.notes,
-            startDate: meetings.date,
-            endDate: meetings.date,
-            dealId: meetings.dealId,
-            eventType: sql`'meeting'`.as('eventType'),
-            status: sql`'scheduled'`.as('status'),
-            metadata: sql`json_build_object(
-              'attendees', ${meetings.attendees},
-              'notes', ${meetings.notes},
-              'createdBy', ${meetings.createdBy}
-            )`.as('metadata'),
-          })
-          .from(meetings)
-          .leftJoin(deals, eq(meetings.dealId, deals.id))
-          .where(
-            and(
-              gte(meetings.date, startDate),
-              lte(meetings.date, endDate)
-            )
-          )
-        : db.select({
-            id: meetings.id,
-            title: meetings.title,
-            description: meetings.notes,
-            startDate: meetings.date,
-            endDate: meetings.date,
-            dealId: meetings.dealId,
-            eventType: sql`'meeting'`.as('eventType'),
-            status: sql`'scheduled'`.as('status'),
-            metadata: sql`json_build_object(
-              'attendees', ${meetings.attendees},
-              'notes', ${meetings.notes},
-              'createdBy', ${meetings.createdBy}
-            )`.as('metadata'),
-          })
-          .from(meetings)
-          .leftJoin(deals, eq(meetings.dealId, deals.id));
-
-      const meetingEvents = await meetingsQuery;
-
-      // 2. Fetch capital calls
-      const capitalCallsQuery = startDate && endDate 
-        ? db.select({
-            id: capitalCalls.id,
-            title: sql`CONCAT('Capital Call: ', ${deals.name})`.as('title'),
-            description: capitalCalls.notes,
-            startDate: capitalCalls.dueDate,
-            endDate: capitalCalls.dueDate, 
-            dealId: fundAllocations.dealId,
-            eventType: sql`'capital_call'`.as('eventType'),
-            status: capitalCalls.status,
-            metadata: sql`json_build_object(
-              'callAmount', ${capitalCalls.callAmount},
-              'amountType', ${capitalCalls.amountType},
-              'paidAmount', ${capitalCalls.paidAmount},
-              'fundName', ${funds.name},
-              'fundId', ${funds.id},
-              'outstanding_amount', ${capitalCalls.outstanding_amount},
-              'allocationId', ${capitalCalls.allocationId}
-            )`.as('metadata'),
-          })
-          .from(capitalCalls)
-          .leftJoin(fundAllocations, eq(capitalCalls.allocationId, fundAllocations.id))
-          .leftJoin(deals, eq(fundAllocations.dealId, deals.id))
-          .leftJoin(funds, eq(fundAllocations.fundId, funds.id))
-          .where(
-            and(
-              gte(capitalCalls.dueDate, startDate),
-              lte(capitalCalls.dueDate, endDate)
-            )
-          )
-        : db.select({
-            id: capitalCalls.id,
-            title: sql`CONCAT('Capital Call: ', ${deals.name})`.as('title'),
-            description: capitalCalls.notes,
-            startDate: capitalCalls.dueDate,
-            endDate: capitalCalls.dueDate,
-            dealId: fundAllocations.dealId,
-            eventType: sql`'capital_call'`.as('eventType'),
-            status: capitalCalls.status,
-            metadata: sql`json_build_object(
-              'callAmount', ${capitalCalls.callAmount},
-              'amountType', ${capitalCalls.amountType},
-              'paidAmount', ${capitalCalls.paidAmount},
-              'fundName', ${funds.name},
-              'fundId', ${funds.id},
-              'outstanding_amount', ${capitalCalls.outstanding_amount},
-              'allocationId', ${capitalCalls.allocationId}
-            )`.as('metadata'),
-          })
-          .from(capitalCalls)
-          .leftJoin(fundAllocations, eq(capitalCalls.allocationId, fundAllocations.id))
-          .leftJoin(deals, eq(fundAllocations.dealId, deals.id))
-          .leftJoin(funds, eq(fundAllocations.fundId, funds.id));
-
-      const capitalCallEvents = await capitalCallsQuery;
-
-      // 3. Fetch closing schedules
-      const closingSchedulesQuery = startDate && endDate 
-        ? db.select({
-            id: closingScheduleEvents.id,
-            title: sql`CONCAT(${closingScheduleEvents.eventName}, ': ', ${deals.name})`.as('title'),
-            description: closingScheduleEvents.notes,
-            startDate: closingScheduleEvents.scheduledDate,
-            endDate: closingScheduleEvents.scheduledDate,
-            dealId: closingScheduleEvents.dealId,
-            eventType: sql`CONCAT('closing_', ${closingScheduleEvents.eventType})`.as('eventType'),
-            status: closingScheduleEvents.status,
-            metadata: sql`json_build_object(
-              'targetAmount', ${closingScheduleEvents.targetAmount},
-              'amountType', ${closingScheduleEvents.amountType},
-              'actualAmount', ${closingScheduleEvents.actualAmount},
-              'actualDate', ${closingScheduleEvents.actualDate},
-              'eventName', ${closingScheduleEvents.eventName},
-              'dealName', ${deals.name}
-            )`.as('metadata'),
-          })
-          .from(closingScheduleEvents)
-          .leftJoin(deals, eq(closingScheduleEvents.dealId, deals.id))
-          .where(
-            and(
-              gte(closingScheduleEvents.scheduledDate, startDate),
-              lte(closingScheduleEvents.scheduledDate, endDate)
-            )
-          )
-        : db.select({
-            id: closingScheduleEvents.id,
-            title: sql`CONCAT(${closingScheduleEvents.eventName}, ': ', ${deals.name})`.as('title'),
-            description: closingScheduleEvents.notes,
-            startDate: closingScheduleEvents.scheduledDate,
-            endDate: closingScheduleEvents.scheduledDate,
-            dealId: closingScheduleEvents.dealId, 
-            eventType: sql`CONCAT('closing_', ${closingScheduleEvents.eventType})`.as('eventType'),
-            status: closingScheduleEvents.status,
-            metadata: sql`json_build_object(
-              'targetAmount', ${closingScheduleEvents.targetAmount},
-              'amountType', ${closingScheduleEvents.amountType},
-              'actualAmount', ${closingScheduleEvents.actualAmount},
-              'actualDate', ${closingScheduleEvents.actualDate},
-              'eventName', ${closingScheduleEvents.eventName},
-              'dealName', ${deals.name}
-            )`.as('metadata'),
-          })
-          .from(closingScheduleEvents)
-          .leftJoin(deals, eq(closingScheduleEvents.dealId, deals.id));
-
-      const closingScheduleEventData = await closingSchedulesQuery;
-
-      // 4. Combine all events and sort by date
-      const allEvents = [
-        ...meetingEvents,
-        ...capitalCallEvents,
-        ...closingScheduleEventData
-      ].sort((a, b) => {
-        const dateA = new Date(a.startDate);
-        const dateB = new Date(b.startDate);
-        return dateA.getTime() - dateB.getTime();
-      });
+      const events = await this.getEvents(filters);
 
       // Group events by month for easier calendar display
-      const groupedByMonth: Record<string, any[]> = {};
+      const groupedByMonth: Record<string, CalendarEvent[]> = {};
       
-      allEvents.forEach(event => {
+      events.forEach(event => {
         const date = new Date(event.startDate);
         const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
         
@@ -197,7 +65,7 @@ export class CalendarService {
       });
 
       return {
-        events: allEvents,
+        events,
         eventsByMonth: groupedByMonth
       };
     } catch (error) {
@@ -206,6 +74,238 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Matching events from every source, sorted by start date
+   */
+  async getEvents(filters: CalendarEventFilters = {}): Promise<CalendarEvent[]> {
+    const { startDate, endDate, eventTypes } = filters;
+    const wants = (source: 'meeting' | 'capital_call' | 'closing') =>
+      !eventTypes || eventTypes.length === 0 || eventTypes.some(type => type === source || type.startsWith(`${source}_`));
+
+    // Deals in scope for meetings and closings; undefined means every deal
+    let dealIds = filters.dealIds;
+    if (filters.dealId !== undefined) {
+      dealIds = dealIds ? dealIds.filter(id => id === filters.dealId) : [filters.dealId];
+    }
+    if (filters.fundId !== undefined) {
+      const fundDeals = await db.selectDistinct({ dealId: fundAllocations.dealId })
+        .from(fundAllocations)
+        .where(eq(fundAllocations.fundId, filters.fundId));
+      const fundDealIds = fundDeals.map(row => row.dealId);
+      dealIds = dealIds ? dealIds.filter(id => fundDealIds.includes(id)) : fundDealIds;
+    }
+    if (dealIds && dealIds.length === 0) return [];
+
+    const dateRange = (column: Parameters<typeof gte>[0]) => [
+      startDate ? gte(column, startDate) : undefined,
+      endDate ? lte(column, endDate) : undefined
+    ];
+    const where = (...conditions: Array<SQL | undefined>) => and(...conditions.filter(Boolean) as SQL[]);
+    const range = {
+      from: startDate ?? new Date(0),
+      to: endDate ?? new Date(Date.now() + RECURRENCE_HORIZON_DAYS * DAY_MS)
+    };
+
+    // 1. Fetch meetings
+    const meetingEvents = wants('meeting')
+      ? await db.select({
+          id: meetings.id,
+          title: meetings.title,
+          description: meetings.notes,
+          startDate: meetings.date,
+          endDate: sql<Date>`coalesce(${meetings.endDate}, ${meetings.date})`.mapWith(meetings.date),
+          dealId: meetings.dealId,
+          eventType: sql<string>`'meeting'`.as('eventType'),
+          status: sql<string>`'scheduled'`.as('status'),
+          metadata: sql<Record<string, any>>`json_build_object(
+            'attendees', ${meetings.attendees},
+            'location', ${meetings.location},
+            'notes', ${meetings.notes},
+            'createdBy', ${meetings.createdBy},
+            'dealName', ${deals.name}
+          )`.as('metadata'),
+        })
+        .from(meetings)
+        .leftJoin(deals, eq(meetings.dealId, deals.id))
+        .where(where(
+          isNull(meetings.recurrenceRule),
+          ...dateRange(meetings.date),
+          dealIds ? inArray(meetings.dealId, dealIds) : undefined
+        ))
+      : [];
+    const recurringMeetingEvents = wants('meeting') ? await this.getMeetingOccurrences(range, dealIds) : [];
+
+    // 2. Fetch capital calls (only those with a due date can be placed on a calendar)
+    const capitalCallEvents = wants('capital_call')
+      ? await db.select({
+          id: capitalCalls.id,
+          title: sql<string>`CONCAT('Capital Call: ', ${deals.name})`.as('title'),
+          description: capitalCalls.notes,
+          startDate: capitalCalls.dueDate,
+          endDate: capitalCalls.dueDate,
+          dealId: fundAllocations.dealId,
+          eventType: sql<string>`'capital_call'`.as('eventType'),
+          status: capitalCalls.status,
+          metadata: sql<Record<string, any>>`json_build_object(
+            'callAmount', ${capitalCalls.callAmount},
+            'amountType', ${capitalCalls.amountType},
+            'paidAmount', ${capitalCalls.paidAmount},
+            'fundName', ${funds.name},
+            'fundId', ${funds.id},
+            'outstanding_amount', ${capitalCalls.outstanding_amount},
+            'allocationId', ${capitalCalls.allocationId},
+            'dealName', ${deals.name}
+          )`.as('metadata'),
+        })
+        .from(capitalCalls)
+        .leftJoin(fundAllocations, eq(capitalCalls.allocationId, fundAllocations.id))
+        .leftJoin(deals, eq(fundAllocations.dealId, deals.id))
+        .leftJoin(funds, eq(fundAllocations.fundId, funds.id))
+        .where(where(
+          isNotNull(capitalCalls.dueDate),
+          ...dateRange(capitalCalls.dueDate),
+          filters.fundId !== undefined ? eq(fundAllocations.fundId, filters.fundId) : undefined,
+          dealIds ? inArray(fundAllocations.dealId, dealIds) : undefined
+        ))
+      : [];
+    const projectedCapitalCallEvents = wants('capital_call')
+      ? await this.getProjectedCapitalCalls(range, dealIds, filters.fundId)
+      : [];
+
+    // 3. Fetch closing schedules
+    const closingTypes = eventTypes?.filter(type => type.startsWith('closing_')).map(type => type.slice('closing_'.length));
+    const closingScheduleEventData = wants('closing')
+      ? await db.select({
+          id: closingScheduleEvents.id,
+          title: sql<string>`CONCAT(${closingScheduleEvents.eventName}, ': ', ${deals.name})`.as('title'),
+          description: closingScheduleEvents.notes,
+          startDate: closingScheduleEvents.scheduledDate,
+          endDate: closingScheduleEvents.scheduledDate,
+          dealId: closingScheduleEvents.dealId,
+          eventType: sql<string>`CONCAT('closing_', ${closingScheduleEvents.eventType})`.as('eventType'),
+          status: closingScheduleEvents.status,
+          metadata: sql<Record<string, any>>`json_build_object(
+            'targetAmount', ${closingScheduleEvents.targetAmount},
+            'amountType', ${closingScheduleEvents.amountType},
+            'actualAmount', ${closingScheduleEvents.actualAmount},
+            'actualDate', ${closingScheduleEvents.actualDate},
+            'eventName', ${closingScheduleEvents.eventName},
+            'dealName', ${deals.name}
+          )`.as('metadata'),
+        })
+        .from(closingScheduleEvents)
+        .leftJoin(deals, eq(closingScheduleEvents.dealId, deals.id))
+        .where(where(
+          ...dateRange(closingScheduleEvents.scheduledDate),
+          dealIds ? inArray(closingScheduleEvents.dealId, dealIds) : undefined,
+          // "closing" alone means every closing type
+          closingTypes && closingTypes.length > 0 && !eventTypes!.includes('closing')
+            ? inArray(closingScheduleEvents.eventType, closingTypes as Array<typeof closingScheduleEvents.eventType._.data>)
+            : undefined
+        ))
+      : [];
+
+    // 4. Combine all events and sort by date
+    return ([
+      ...meetingEvents,
+      ...recurringMeetingEvents,
+      ...capitalCallEvents,
+      ...projectedCapitalCallEvents,
+      ...closingScheduleEventData
+    ] as CalendarEvent[]).sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  }
+
+  /**
+   * Occurrences of recurring meetings within the range, one event each
+   */
+  private async getMeetingOccurrences(range: { from: Date; to: Date }, dealIds?: number[]): Promise<CalendarEvent[]> {
+    const series = await db.select({ meeting: meetings, dealName: deals.name })
+      .from(meetings)
+      .leftJoin(deals, eq(meetings.dealId, deals.id))
+      .where(and(
+        isNotNull(meetings.recurrenceRule),
+        lte(meetings.date, range.to),
+        dealIds ? inArray(meetings.dealId, dealIds) : undefined
+      ));
+    const byId = new Map(series.map(row => [row.meeting.id, row]));
+
+    const occurrences = await meetingService.expandOccurrences(series.map(row => row.meeting), range);
+    return occurrences.map(occurrence => {
+      const { meeting, dealName } = byId.get(occurrence.meetingId)!;
+      return {
+        id: meeting.id,
+        title: occurrence.title,
+        description: occurrence.notes,
+        startDate: occurrence.date,
+        endDate: occurrence.endDate ?? occurrence.date,
+        dealId: meeting.dealId,
+        eventType: 'meeting',
+        status: 'scheduled',
+        metadata: {
+          attendees: meeting.attendees,
+          location: occurrence.location,
+          notes: occurrence.notes,
+          createdBy: meeting.createdBy,
+          dealName,
+          recurrenceRule: meeting.recurrenceRule,
+          overridden: occurrence.overridden
+        },
+        occurrenceDate: occurrence.occurrenceDate
+      };
+    });
+  }
+
+  /**
+   * Capital call schedule occurrences due within the range that have not been issued yet
+   */
+  private async getProjectedCapitalCalls(range: { from: Date; to: Date }, dealIds?: number[], fundId?: number): Promise<CalendarEvent[]> {
+    const allocations = await db.select({
+      id: fundAllocations.id,
+      dealId: fundAllocations.dealId,
+      dealName: deals.name,
+      fundId: funds.id,
+      fundName: funds.name
+    })
+      .from(fundAllocations)
+      .leftJoin(deals, eq(fundAllocations.dealId, deals.id))
+      .leftJoin(funds, eq(fundAllocations.fundId, funds.id))
+      .where(and(
+        fundId !== undefined ? eq(fundAllocations.fundId, fundId) : undefined,
+        dealIds ? inArray(fundAllocations.dealId, dealIds) : undefined
+      ));
+    const byId = new Map(allocations.map(allocation => [allocation.id, allocation]));
+
+    const occurrences = await capitalCallScheduleService.getOccurrences(range, allocations.map(allocation => allocation.id));
+    return occurrences
+      .filter(occurrence => occurrence.capitalCallId === null)
+      .map(occurrence => {
+        const allocation = byId.get(occurrence.allocationId)!;
+        return {
+          id: occurrence.scheduleId,
+          title: `Capital Call: ${allocation.dealName}`,
+          description: occurrence.notes,
+          startDate: occurrence.dueDate,
+          endDate: occurrence.dueDate,
+          dealId: allocation.dealId,
+          eventType: 'capital_call',
+          status: 'projected',
+          metadata: {
+            callAmount: occurrence.callAmount,
+            amountType: occurrence.amountType,
+            paidAmount: 0,
+            fundName: allocation.fundName,
+            fundId: allocation.fundId,
+            allocationId: occurrence.allocationId,
+            dealName: allocation.dealName,
+            projected: true,
+            scheduleId: occurrence.scheduleId,
+            callDate: occurrence.callDate
+          },
+          occurrenceDate: occurrence.occurrenceDate
+        };
+      });
+  }
+
   /**
    * Count events by type for dashboard/calendar summary
    */
@@ -8,8 +8,12 @@
  * - Complete payment tracking and validation
  */
 
+import { db } from "../db";
+import { capitalCalls, type CapitalCall, type LpCapitalCallAllocation } from "@shared/schema";
 import { StorageFactory } from "../storage-factory";
 import { AllocationService } from "./allocation.service";
+import { limitedPartnerService } from "./limited-partner.service";
+import { domainEvents } from "./events/domain-events";
 
 interface CapitalCallRequest {
   allocationId: number;
@@ -18,6 +22,9 @@ interface CapitalCallRequest {
   callDate: Date;
   status?: string;
   dueDate?: Date;
+  paidAmount?: number;
+  paidDate?: Date;
+  callPct?: number;
   notes?: string;
 }
 
@@ -61,7 +68,8 @@ export class CapitalCallLifecycleService {
    */
   async createCapitalCall(request: CapitalCallRequest, userId: number): Promise<{
     success: boolean;
-    capitalCall?: any;
+    capitalCall?: CapitalCall;
+    lpAllocations?: LpCapitalCallAllocation[];
     error?: string;
     validationErrors?: string[];
   }> {
@@ -93,18 +101,37 @@ export class CapitalCallLifecycleService {
         callAmountInDollars = (allocation.amount * request.callAmount) / 100;
       }
 
-      // Create capital call
-      const capitalCall = await this.storage.createCapitalCall({
-        allocationId: request.allocationId,
-        callAmount: callAmountInDollars,
-        amountType: request.amountType,
-        dueDate: request.dueDate || null,
-        callDate: request.callDate,
-        paidAmount: 0,
-        outstanding_amount: callAmountInDollars.toString(),
-        status: request.status || 'called',
-        notes: request.notes,
-        callPct: request.amountType === 'percentage' ? request.callAmount : null
+      const paidAmount = request.paidAmount ?? 0;
+      if (paidAmount > callAmountInDollars) {
+        return {
+          success: false,
+          error: 'Invalid capital call amount',
+          validationErrors: ['Paid amount cannot exceed the call amount']
+        };
+      }
+
+      // Create the capital call and split it pro-rata across the fund's LP commitments together,
+      // so a call is never left without its per-LP shares
+      const { capitalCall, lpAllocations } = await db.transaction(async tx => {
+        const [capitalCall] = await tx
+          .insert(capitalCalls)
+          .values({
+            allocationId: request.allocationId,
+            callAmount: callAmountInDollars,
+            amountType: request.amountType,
+            dueDate: request.dueDate || null,
+            callDate: request.callDate,
+            paidAmount,
+            paidDate: request.paidDate || null,
+            outstanding_amount: (callAmountInDollars - paidAmount).toString(),
+            status: (request.status || 'called') as CapitalCall['status'],
+            notes: request.notes,
+            callPct: request.callPct ?? (request.amountType === 'percentage' ? request.callAmount : null)
+          })
+          .returning();
+
+        const lpAllocations = await limitedPartnerService.allocateCapitalCall(capitalCall.id, tx);
+        return { capitalCall, lpAllocations };
       });
 
       // Update allocation status
@@ -121,11 +148,21 @@ export class CapitalCallLifecycleService {
           capitalCallId: capitalCall.id,
           amount: callAmountInDollars,
           amountType: request.amountType,
-          fundId: allocation.fundId
+          fundId: allocation.fundId,
+          dueDate: request.dueDate?.toISOString(),
+          callDate: request.callDate.toISOString()
         }
       });
 
-      return { success: true, capitalCall };
+      domainEvents.emit('capital_call.created', {
+        capitalCallId: capitalCall.id,
+        dealId: allocation.dealId,
+        amount: callAmountInDollars,
+        dueDate: capitalCall.dueDate,
+        actorId: userId
+      });
+
+      return { success: true, capitalCall, lpAllocations };
     } catch (error) {
       console.error('Error creating capital call:', error);
       return { success: false, error: 'Failed to create capital call' };
@@ -0,0 +1,492 @@
+/**
+ * Capital Call Schedule Service
+ *
+ * Recurring capital calls on an allocation, e.g. 10% every quarter. A schedule is a recurrence
+ * rule plus the amount called at each occurrence; its occurrences are projected onto the calendar
+ * and issued as real capital calls (status `scheduled`) once their call date is within
+ * ISSUE_LEAD_DAYS. Overrides cancel or change single occurrences and record which capital call
+ * an issued occurrence became. An occurrence is claimed on its override before its call is created,
+ * so it is never issued twice; one that fails to issue keeps the error until it is edited.
+ *
+ * Rules repeat in the configured capital call time zone; start dates are set to the configured
+ * call time of day like other capital call dates.
+ */
+
+import { db } from '../db';
+import {
+  capitalCallScheduleOverrides,
+  capitalCallSchedules,
+  fundAllocations,
+  type CapitalCallSchedule,
+  type CapitalCallScheduleOverride,
+  type InsertCapitalCallSchedule
+} from '@shared/schema';
+import { and, eq, gte, inArray, isNull, lte } from 'drizzle-orm';
+import { capitalCallsConfig } from '../config/capital-calls-config';
+import { expandSeries, formatRRule, isSeriesOccurrence, parseRRule, splitSeries } from '../utils/rrule';
+import { CapitalCallLifecycleService } from './capital-call-lifecycle.service';
+import { ApplicationError, NotFoundError, ValidationError } from './type-definitions';
+import type { OccurrenceScope } from './meeting.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+// Occurrences are issued as capital calls this long before their call date
+const ISSUE_LEAD_DAYS = 30;
+
+export interface ScheduleOccurrenceChanges {
+  callDate?: Date;
+  dueDate?: Date | null;
+  callAmount?: number;
+  notes?: string | null;
+  /** New rule for the rest of the schedule; "following" edits only */
+  recurrenceRule?: string;
+}
+
+export type UpdateCapitalCallSchedule = Partial<Pick<CapitalCallSchedule, 'recurrenceRule' | 'startDate' | 'callAmount' | 'amountType' | 'dueDays' | 'notes'>>;
+
+/** One occurrence of a schedule, with its override applied */
+export interface ScheduleOccurrence {
+  scheduleId: number;
+  allocationId: number;
+  /** Call date the occurrence has under the schedule rule; identifies it for edits */
+  occurrenceDate: Date;
+  callDate: Date;
+  dueDate: Date;
+  callAmount: number;
+  amountType: 'percentage' | 'dollar';
+  notes: string | null;
+  /** Set once the occurrence has been issued */
+  capitalCallId: number | null;
+  /** Why the occurrence could not be issued */
+  issueError: string | null;
+  overridden: boolean;
+}
+
+export class CapitalCallScheduleService {
+  private lifecycle = new CapitalCallLifecycleService();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    const sweep = () => this.issueDueOccurrences().catch(error =>
+      console.error('Capital call schedule sweep failed:', error)
+    );
+    sweep();
+    this.sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  async list(allocationId?: number): Promise<CapitalCallSchedule[]> {
+    return db.select().from(capitalCallSchedules)
+      .where(allocationId !== undefined ? eq(capitalCallSchedules.allocationId, allocationId) : undefined)
+      .orderBy(capitalCallSchedules.startDate);
+  }
+
+  async get(id: number): Promise<CapitalCallSchedule & { overrides: CapitalCallScheduleOverride[] }> {
+    const [schedule] = await db.select().from(capitalCallSchedules).where(eq(capitalCallSchedules.id, id));
+    if (!schedule) {
+      throw new NotFoundError('Capital call schedule', id);
+    }
+    const overrides = await db.select().from(capitalCallScheduleOverrides)
+      .where(eq(capitalCallScheduleOverrides.scheduleId, id))
+      .orderBy(capitalCallScheduleOverrides.occurrenceDate);
+    return { ...schedule, overrides };
+  }
+
+  /**
+   * Create a schedule. Without a rule the configured call frequency is used; a percentage
+   * schedule without COUNT or UNTIL stops once it has called the whole commitment.
+   */
+  async create(input: InsertCapitalCallSchedule, userId: number): Promise<CapitalCallSchedule> {
+    const [allocation] = await db.select({ id: fundAllocations.id }).from(fundAllocations)
+      .where(eq(fundAllocations.id, input.allocationId));
+    if (!allocation) {
+      throw new NotFoundError('Allocation', input.allocationId);
+    }
+
+    const amountType = input.amountType ?? 'percentage';
+    if (amountType === 'percentage' && input.callAmount > 100) {
+      throw new ValidationError('A percentage call cannot exceed 100%', 'callAmount');
+    }
+
+    const rule = parseRRule(input.recurrenceRule || capitalCallsConfig.getDefaultCallRule());
+    if (amountType === 'percentage' && rule.count === undefined && !rule.until) {
+      rule.count = Math.ceil(100 / input.callAmount);
+    }
+
+    const [schedule] = await db.insert(capitalCallSchedules).values({
+      allocationId: input.allocationId,
+      recurrenceRule: formatRRule(rule),
+      startDate: this.atCallTime(input.startDate),
+      callAmount: input.callAmount,
+      amountType,
+      dueDays: input.dueDays ?? capitalCallsConfig.getDefaultDueDays(),
+      notes: input.notes,
+      createdBy: userId
+    }).returning();
+    return schedule;
+  }
+
+  /**
+   * Edit the whole schedule. Changing its rule or start drops the overrides of occurrences not
+   * yet issued, since they are keyed by the old dates.
+   */
+  async update(id: number, changes: UpdateCapitalCallSchedule): Promise<CapitalCallSchedule> {
+    const { overrides: _, ...schedule } = await this.get(id);
+    if (changes.recurrenceRule) {
+      parseRRule(changes.recurrenceRule);
+    }
+    const startDate = changes.startDate ? this.atCallTime(changes.startDate) : undefined;
+
+    return db.transaction(async tx => {
+      const reshaped = (changes.recurrenceRule !== undefined && changes.recurrenceRule !== schedule.recurrenceRule)
+        || (startDate !== undefined && startDate.getTime() !== schedule.startDate.getTime());
+      if (reshaped) {
+        await tx.delete(capitalCallScheduleOverrides).where(and(
+          eq(capitalCallScheduleOverrides.scheduleId, id),
+          isNull(capitalCallScheduleOverrides.capitalCallId)
+        ));
+      }
+
+      const [updated] = await tx.update(capitalCallSchedules)
+        .set({ ...changes, startDate, updatedAt: new Date() })
+        .where(eq(capitalCallSchedules.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a schedule; capital calls already issued from it are kept
+   */
+  async delete(id: number): Promise<void> {
+    const deleted = await db.delete(capitalCallSchedules).where(eq(capitalCallSchedules.id, id)).returning();
+    if (deleted.length === 0) {
+      throw new NotFoundError('Capital call schedule', id);
+    }
+  }
+
+  /**
+   * Occurrences due within a range, for schedules on the given allocations (every allocation when omitted)
+   */
+  async getOccurrences(range: { from: Date; to: Date }, allocationIds?: number[]): Promise<ScheduleOccurrence[]> {
+    if (allocationIds && allocationIds.length === 0) return [];
+
+    const schedules = await db.select().from(capitalCallSchedules)
+      .where(and(
+        lte(capitalCallSchedules.startDate, range.to),
+        allocationIds ? inArray(capitalCallSchedules.allocationId, allocationIds) : undefined
+      ));
+    const overrides = await this.getOverrides(schedules.map(schedule => schedule.id));
+
+    const occurrences: ScheduleOccurrence[] = [];
+    for (const schedule of schedules) {
+      const scheduleOverrides = overrides.get(schedule.id) || [];
+      const overridden = new Set(scheduleOverrides.map(override => override.occurrenceDate.getTime()));
+
+      // Calendar events sit on the due date, so look back far enough for calls due within the range
+      const starts = expandSeries(schedule.recurrenceRule, schedule.startDate, this.timeZone, {
+        from: new Date(range.from.getTime() - schedule.dueDays * DAY_MS),
+        to: range.to
+      });
+      for (const start of starts) {
+        const occurrence = this.toOccurrence(schedule, start, null);
+        if (!overridden.has(start.getTime()) && occurrence.dueDate >= range.from && occurrence.dueDate <= range.to) {
+          occurrences.push(occurrence);
+        }
+      }
+      for (const override of scheduleOverrides) {
+        const occurrence = this.toOccurrence(schedule, override.occurrenceDate, override);
+        if (!override.cancelled && occurrence.dueDate >= range.from && occurrence.dueDate <= range.to) {
+          occurrences.push(occurrence);
+        }
+      }
+    }
+
+    return occurrences.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  /**
+   * Change one occurrence, or it and every later one. "following" on the first occurrence edits
+   * the schedule itself; on a later one it ends the schedule just before it and starts a new one.
+   */
+  async updateOccurrence(id: number, occurrenceDate: Date, scope: OccurrenceScope, changes: ScheduleOccurrenceChanges): Promise<CapitalCallSchedule> {
+    const { schedule, overrides } = await this.getSeries(id, occurrenceDate);
+    const current = overrides.find(override => override.occurrenceDate.getTime() === occurrenceDate.getTime());
+    if (current?.capitalCallId) {
+      throw new ApplicationError(
+        `This occurrence was already issued as capital call ${current.capitalCallId}; edit that capital call instead`,
+        'OCCURRENCE_ISSUED',
+        409
+      );
+    }
+
+    if (scope === 'this') {
+      if (changes.recurrenceRule !== undefined) {
+        throw new ValidationError('The recurrence rule can only be changed for this and following occurrences', 'recurrenceRule');
+      }
+      const values = {
+        callDate: changes.callDate ? this.atCallTime(changes.callDate) : undefined,
+        dueDate: changes.dueDate,
+        callAmount: changes.callAmount,
+        notes: changes.notes,
+        cancelled: false,
+        // An edited occurrence that failed to issue is tried again
+        issueClaimedAt: null,
+        issueError: null
+      };
+      await db.insert(capitalCallScheduleOverrides)
+        .values({ scheduleId: id, occurrenceDate, ...values })
+        .onConflictDoUpdate({
+          target: [capitalCallScheduleOverrides.scheduleId, capitalCallScheduleOverrides.occurrenceDate],
+          set: { ...values, updatedAt: new Date() }
+        });
+      return schedule;
+    }
+
+    if (changes.recurrenceRule) {
+      parseRRule(changes.recurrenceRule);
+    }
+    const startDate = changes.callDate ? this.atCallTime(changes.callDate) : occurrenceDate;
+    const reshaped = startDate.getTime() !== occurrenceDate.getTime()
+      || (changes.recurrenceRule !== undefined && changes.recurrenceRule !== schedule.recurrenceRule);
+    const later = overrides.filter(override => override.occurrenceDate >= occurrenceDate);
+    if (reshaped && later.some(override => override.capitalCallId)) {
+      throw new ApplicationError(
+        'Later occurrences were already issued as capital calls, so the dates from here on cannot change',
+        'OCCURRENCE_ISSUED',
+        409
+      );
+    }
+
+    const values = {
+      startDate,
+      callAmount: changes.callAmount ?? schedule.callAmount,
+      dueDays: changes.dueDate ? Math.max(0, Math.round((changes.dueDate.getTime() - startDate.getTime()) / DAY_MS)) : schedule.dueDays,
+      notes: changes.notes !== undefined ? changes.notes : schedule.notes,
+      updatedAt: new Date()
+    };
+    const { head, tail } = splitSeries(schedule.recurrenceRule, schedule.startDate, this.timeZone, occurrenceDate);
+
+    return db.transaction(async tx => {
+      const fromOccurrence = and(
+        eq(capitalCallScheduleOverrides.scheduleId, id),
+        gte(capitalCallScheduleOverrides.occurrenceDate, occurrenceDate)
+      );
+
+      if (!head) {
+        if (reshaped) {
+          await tx.delete(capitalCallScheduleOverrides).where(fromOccurrence);
+        }
+        const [updated] = await tx.update(capitalCallSchedules)
+          .set({ ...values, recurrenceRule: changes.recurrenceRule ?? schedule.recurrenceRule })
+          .where(eq(capitalCallSchedules.id, id))
+          .returning();
+        return updated;
+      }
+
+      await tx.update(capitalCallSchedules)
+        .set({ recurrenceRule: head, updatedAt: new Date() })
+        .where(eq(capitalCallSchedules.id, id));
+      const [created] = await tx.insert(capitalCallSchedules).values({
+        ...values,
+        allocationId: schedule.allocationId,
+        recurrenceRule: changes.recurrenceRule ?? tail,
+        amountType: schedule.amountType,
+        createdBy: schedule.createdBy
+      }).returning();
+
+      if (reshaped) {
+        await tx.delete(capitalCallScheduleOverrides).where(fromOccurrence);
+      } else {
+        await tx.update(capitalCallScheduleOverrides).set({ scheduleId: created.id }).where(fromOccurrence);
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Cancel one occurrence, or end the schedule before it. Ending a schedule at its first
+   * occurrence deletes it. Capital calls already issued are not touched.
+   */
+  async deleteOccurrence(id: number, occurrenceDate: Date, scope: OccurrenceScope): Promise<void> {
+    const { schedule, overrides } = await this.getSeries(id, occurrenceDate);
+
+    if (scope === 'this') {
+      const current = overrides.find(override => override.occurrenceDate.getTime() === occurrenceDate.getTime());
+      if (current?.capitalCallId) {
+        throw new ApplicationError(
+          `This occurrence was already issued as capital call ${current.capitalCallId}; delete that capital call instead`,
+          'OCCURRENCE_ISSUED',
+          409
+        );
+      }
+      await db.insert(capitalCallScheduleOverrides)
+        .values({ scheduleId: id, occurrenceDate, cancelled: true })
+        .onConflictDoUpdate({
+          target: [capitalCallScheduleOverrides.scheduleId, capitalCallScheduleOverrides.occurrenceDate],
+          set: { cancelled: true, updatedAt: new Date() }
+        });
+      return;
+    }
+
+    const { head } = splitSeries(schedule.recurrenceRule, schedule.startDate, this.timeZone, occurrenceDate);
+    if (!head) {
+      await this.delete(id);
+      return;
+    }
+
+    await db.transaction(async tx => {
+      await tx.update(capitalCallSchedules)
+        .set({ recurrenceRule: head, updatedAt: new Date() })
+        .where(eq(capitalCallSchedules.id, id));
+      await tx.delete(capitalCallScheduleOverrides).where(and(
+        eq(capitalCallScheduleOverrides.scheduleId, id),
+        gte(capitalCallScheduleOverrides.occurrenceDate, occurrenceDate)
+      ));
+    });
+  }
+
+  /**
+   * Issue capital calls for occurrences whose call date is within the lead time. Occurrences
+   * dated before the schedule was created are left alone rather than back-filled.
+   */
+  async issueDueOccurrences(now: Date = new Date()): Promise<number> {
+    const horizon = new Date(now.getTime() + ISSUE_LEAD_DAYS * DAY_MS);
+    const schedules = await db.select().from(capitalCallSchedules)
+      .where(lte(capitalCallSchedules.startDate, horizon));
+    const overrides = await this.getOverrides(schedules.map(schedule => schedule.id));
+    let issued = 0;
+
+    for (const schedule of schedules) {
+      const byDate = new Map((overrides.get(schedule.id) || []).map(override => [override.occurrenceDate.getTime(), override]));
+      const createdDay = new Date(Date.UTC(schedule.createdAt.getUTCFullYear(), schedule.createdAt.getUTCMonth(), schedule.createdAt.getUTCDate()));
+      // Looks past the horizon too, for occurrences whose call date an override moved earlier
+      const starts = expandSeries(schedule.recurrenceRule, schedule.startDate, this.timeZone, {
+        from: createdDay,
+        to: new Date(horizon.getTime() + ISSUE_LEAD_DAYS * DAY_MS)
+      });
+
+      for (const start of starts) {
+        const override = byDate.get(start.getTime()) ?? null;
+        if (override?.cancelled || override?.capitalCallId || override?.issueClaimedAt) continue;
+
+        const occurrence = this.toOccurrence(schedule, start, override);
+        if (occurrence.callDate > horizon) continue;
+
+        // Another sweep, or an earlier one that stopped partway, already has it
+        if (!(await this.claimOccurrence(schedule.id, start))) continue;
+
+        const occurrenceKey = and(
+          eq(capitalCallScheduleOverrides.scheduleId, schedule.id),
+          eq(capitalCallScheduleOverrides.occurrenceDate, start)
+        );
+        const result = await this.lifecycle.createCapitalCall({
+          allocationId: schedule.allocationId,
+          callAmount: occurrence.callAmount,
+          amountType: occurrence.amountType,
+          callDate: occurrence.callDate,
+          dueDate: occurrence.dueDate,
+          status: 'scheduled',
+          notes: occurrence.notes ?? undefined
+        }, schedule.createdBy);
+        if (!result.success) {
+          const issueError = [result.error, ...(result.validationErrors ?? [])].filter(Boolean).join(': ');
+          console.error(`Capital call schedule ${schedule.id}: could not issue ${start.toISOString()}: ${issueError}`);
+          await db.update(capitalCallScheduleOverrides)
+            .set({ issueError, updatedAt: new Date() })
+            .where(occurrenceKey);
+          continue;
+        }
+
+        await db.update(capitalCallScheduleOverrides)
+          .set({ capitalCallId: result.capitalCall!.id, updatedAt: new Date() })
+          .where(occurrenceKey);
+        issued++;
+      }
+    }
+
+    return issued;
+  }
+
+  /**
+   * Claim an occurrence for issuing; false when it is cancelled, issued, failed or claimed already
+   */
+  private async claimOccurrence(scheduleId: number, occurrenceDate: Date): Promise<boolean> {
+    return db.transaction(async tx => {
+      await tx.insert(capitalCallScheduleOverrides)
+        .values({ scheduleId, occurrenceDate })
+        .onConflictDoNothing({ target: [capitalCallScheduleOverrides.scheduleId, capitalCallScheduleOverrides.occurrenceDate] });
+
+      const claimed = await tx.update(capitalCallScheduleOverrides)
+        .set({ issueClaimedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(capitalCallScheduleOverrides.scheduleId, scheduleId),
+          eq(capitalCallScheduleOverrides.occurrenceDate, occurrenceDate),
+          eq(capitalCallScheduleOverrides.cancelled, false),
+          isNull(capitalCallScheduleOverrides.capitalCallId),
+          isNull(capitalCallScheduleOverrides.issueClaimedAt)
+        ))
+        .returning({ id: capitalCallScheduleOverrides.id });
+      return claimed.length > 0;
+    });
+  }
+
+  private get timeZone(): string {
+    return capitalCallsConfig.getConfig().dateHandling.timeZone;
+  }
+
+  private atCallTime(date: Date): Date {
+    const normalized = new Date(date);
+    normalized.setUTCHours(capitalCallsConfig.getDefaultTimeUTC(), 0, 0, 0);
+    return normalized;
+  }
+
+  private async getOverrides(scheduleIds: number[]): Promise<Map<number, CapitalCallScheduleOverride[]>> {
+    const bySchedule = new Map<number, CapitalCallScheduleOverride[]>(scheduleIds.map(id => [id, []]));
+    if (scheduleIds.length === 0) return bySchedule;
+
+    const rows = await db.select().from(capitalCallScheduleOverrides)
+      .where(inArray(capitalCallScheduleOverrides.scheduleId, scheduleIds));
+    for (const row of rows) {
+      bySchedule.get(row.scheduleId)?.push(row);
+    }
+    return bySchedule;
+  }
+
+  private async getSeries(id: number, occurrenceDate: Date) {
+    const { overrides, ...schedule } = await this.get(id);
+    if (!isSeriesOccurrence(schedule.recurrenceRule, schedule.startDate, this.timeZone, occurrenceDate)) {
+      throw new ValidationError(`${occurrenceDate.toISOString()} is not an occurrence of this schedule`, 'occurrenceDate');
+    }
+    return { schedule, overrides };
+  }
+
+  private toOccurrence(schedule: CapitalCallSchedule, occurrenceDate: Date, override: CapitalCallScheduleOverride | null): ScheduleOccurrence {
+    const callDate = override?.callDate ?? occurrenceDate;
+    return {
+      scheduleId: schedule.id,
+      allocationId: schedule.allocationId,
+      occurrenceDate,
+      callDate,
+      dueDate: override?.dueDate ?? new Date(callDate.getTime() + schedule.dueDays * DAY_MS),
+      callAmount: override?.callAmount ?? schedule.callAmount,
+      amountType: schedule.amountType,
+      notes: override?.notes ?? schedule.notes,
+      capitalCallId: override?.capitalCallId ?? null,
+      issueError: override?.issueError ?? null,
+      overridden: override !== null
+    };
+  }
+}
+
+// Export singleton instance
+export const capitalCallScheduleService = new CapitalCallScheduleService();
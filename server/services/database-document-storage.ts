@@ -1,6 +1,31 @@
 import { db } from '../db-read-replica.js';
-import { documents } from '../../shared/schema.js';
-import { eq, desc } from 'drizzle-orm';
+import { documents, documentVersions, users } from '../../shared/schema.js';
+import { and, eq, desc, getTableColumns, sql } from 'drizzle-orm';
+import { ValidationError } from './type-definitions.js';
+
+/**
+ * File content lives on the version rows only. Select documents with these columns, left-joined on
+ * currentVersionOfDocument, to read the current file; documents uploaded before versioning still
+ * carry their own copy until their next version.
+ */
+export const documentWithContentColumns = {
+  ...getTableColumns(documents),
+  fileData: sql<string | null>`coalesce(${documentVersions.fileData}, ${documents.fileData})`.as('file_data')
+};
+
+export const currentVersionOfDocument = and(
+  eq(documentVersions.documentId, documents.id),
+  eq(documentVersions.version, documents.version)
+);
+
+// File content of one document revision
+interface VersionContent {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  fileData: string | null;
+  filePath: string | null;
+}
 
 export class DatabaseDocumentStorage {
   private readonly MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
@@ -79,21 +104,35 @@ export class DatabaseDocumentStorage {
       const fileDataBase64 = documentData.fileBuffer.toString('base64');
       console.log(`📝 Storing ${documentData.fileBuffer.length} bytes as base64 (${fileDataBase64.length} chars) to database`);
       
-      const [newDocument] = await db
-        .insert(documents)
-        .values({
-          dealId: documentData.dealId,
-          fileName: documentData.fileName,
-          fileType: documentData.fileType,
-          fileSize: documentData.fileSize,
-          filePath: `database://${documentData.dealId}/${documentData.fileName}`, // Virtual path for backward compatibility
-          fileData: fileDataBase64, // Store as base64 text
-          uploadedBy: documentData.uploadedBy,
-          description: documentData.description || null,
-          documentType: (documentData.documentType as any) || 'other'
-        })
-        .returning();
-      
+      const newDocument = await db.transaction(async tx => {
+        const [document] = await tx
+          .insert(documents)
+          .values({
+            dealId: documentData.dealId,
+            fileName: documentData.fileName,
+            fileType: documentData.fileType,
+            fileSize: documentData.fileSize,
+            filePath: `database://${documentData.dealId}/${documentData.fileName}`, // Virtual path for backward compatibility
+            uploadedBy: documentData.uploadedBy,
+            description: documentData.description || null,
+            documentType: (documentData.documentType as any) || 'other'
+          })
+          .returning();
+
+        // Every upload starts the document's version history, which holds the file itself
+        await tx.insert(documentVersions).values({
+          documentId: document.id,
+          version: document.version,
+          fileName: document.fileName,
+          fileType: document.fileType,
+          fileSize: document.fileSize,
+          fileData: fileDataBase64,
+          uploadedBy: documentData.uploadedBy
+        });
+
+        return { ...document, fileData: fileDataBase64 };
+      });
+
       console.log(`✅ Document created with ID: ${newDocument.id}`);
       return newDocument;
     } catch (error) {
@@ -105,8 +144,9 @@ export class DatabaseDocumentStorage {
   async getDocument(documentId: number) {
     try {
       const [document] = await db
-        .select()
+        .select(documentWithContentColumns)
         .from(documents)
+        .leftJoin(documentVersions, currentVersionOfDocument)
         .where(eq(documents.id, documentId));
       
       return document;
@@ -198,6 +238,170 @@ export class DatabaseDocumentStorage {
     }
   }
 
+  /**
+   * Version history, newest first (file data excluded). Documents uploaded before versioning
+   * have no history rows yet and report their current file as the only version.
+   */
+  async getDocumentVersions(documentId: number) {
+    const document = await this.getDocument(documentId);
+    if (!document) return null;
+
+    const versions = await db
+      .select({
+        version: documentVersions.version,
+        fileName: documentVersions.fileName,
+        fileType: documentVersions.fileType,
+        fileSize: documentVersions.fileSize,
+        uploadedBy: documentVersions.uploadedBy,
+        uploaderName: users.fullName,
+        uploadedAt: documentVersions.uploadedAt,
+        changeNote: documentVersions.changeNote,
+        restoredFromVersion: documentVersions.restoredFromVersion
+      })
+      .from(documentVersions)
+      .leftJoin(users, eq(documentVersions.uploadedBy, users.id))
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.version));
+
+    if (versions.length > 0) {
+      return versions.map(version => ({ ...version, isCurrent: version.version === document.version }));
+    }
+
+    const [uploader] = await db.select({ fullName: users.fullName }).from(users).where(eq(users.id, document.uploadedBy));
+    return [{
+      version: document.version,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+      uploadedBy: document.uploadedBy,
+      uploaderName: uploader?.fullName ?? null,
+      uploadedAt: document.uploadedAt,
+      changeNote: null,
+      restoredFromVersion: null,
+      isCurrent: true
+    }];
+  }
+
+  /**
+   * File content of one version; falls back to the document itself for a legacy document's only version
+   */
+  async getVersionContent(documentId: number, version: number): Promise<VersionContent | null> {
+    const [row] = await db
+      .select()
+      .from(documentVersions)
+      .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+    if (row) return row;
+
+    const document = await this.getDocument(documentId);
+    return document && document.version === version ? document : null;
+  }
+
+  /**
+   * Upload a new revision: it becomes the current file and the previous ones stay in the history
+   */
+  async addDocumentVersion(documentId: number, versionData: {
+    fileName: string;
+    fileType: string;
+    fileSize: number;
+    fileBuffer: Buffer;
+    uploadedBy: number;
+    changeNote?: string;
+  }) {
+    console.log(`📄 Adding version for document ${documentId}: ${versionData.fileName} (${versionData.fileSize} bytes)`);
+
+    return this.appendVersion(documentId, {
+      fileName: versionData.fileName,
+      fileType: versionData.fileType,
+      fileSize: versionData.fileSize,
+      fileData: versionData.fileBuffer.toString('base64'),
+      filePath: null
+    }, versionData.uploadedBy, versionData.changeNote ?? null, null);
+  }
+
+  /**
+   * Make an older version current again by recording it as a new version, so no history is lost
+   */
+  async restoreDocumentVersion(documentId: number, version: number, userId: number) {
+    const document = await this.getDocument(documentId);
+    if (!document) return null;
+    if (document.version === version) {
+      throw new ValidationError(`Version ${version} is already the current version`, 'version');
+    }
+
+    const content = await this.getVersionContent(documentId, version);
+    if (!content) {
+      throw new ValidationError(`Version ${version} not found`, 'version');
+    }
+
+    console.log(`♻️ Restoring document ${documentId} to version ${version}`);
+    return this.appendVersion(documentId, content, userId, `Restored version ${version}`, version);
+  }
+
+  private async appendVersion(
+    documentId: number,
+    content: VersionContent,
+    uploadedBy: number,
+    changeNote: string | null,
+    restoredFromVersion: number | null
+  ) {
+    return db.transaction(async tx => {
+      // Lock the document so concurrent uploads get consecutive version numbers
+      const [document] = await tx.select().from(documents).where(eq(documents.id, documentId)).for('update');
+      if (!document) return null;
+
+      // Documents uploaded before versioning: move their current file into the first history entry
+      const [recorded] = await tx
+        .select({ id: documentVersions.id })
+        .from(documentVersions)
+        .where(eq(documentVersions.documentId, documentId))
+        .limit(1);
+      if (!recorded) {
+        await tx.insert(documentVersions).values({
+          documentId,
+          version: document.version,
+          fileName: document.fileName,
+          fileType: document.fileType,
+          fileSize: document.fileSize,
+          fileData: document.fileData,
+          filePath: document.filePath,
+          uploadedBy: document.uploadedBy,
+          uploadedAt: document.uploadedAt
+        });
+      }
+
+      const version = document.version + 1;
+      await tx.insert(documentVersions).values({
+        documentId,
+        version,
+        fileName: content.fileName,
+        fileType: content.fileType,
+        fileSize: content.fileSize,
+        fileData: content.fileData,
+        filePath: content.filePath,
+        uploadedBy,
+        changeNote,
+        restoredFromVersion
+      });
+
+      const [updatedDocument] = await tx
+        .update(documents)
+        .set({
+          fileName: content.fileName,
+          fileType: content.fileType,
+          fileSize: content.fileSize,
+          fileData: null,
+          filePath: content.filePath,
+          uploadedAt: new Date(),
+          version
+        })
+        .where(eq(documents.id, documentId))
+        .returning();
+
+      console.log(`✅ Document ${documentId} is now at version ${version}`);
+      return { ...updatedDocument, fileData: content.fileData };
+    });
+  }
+
   async deleteDocument(documentId: number) {
     try {
       console.log(`🗑️ Deleting document ${documentId}`);
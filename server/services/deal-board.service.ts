@@ -0,0 +1,148 @@
+/**
+ * Deal Board Service
+ *
+ * Stage transitions from the kanban board. A move validates the target stage like any other stage
+ * change, then places the deal in its new column and renumbers that column's board positions so
+ * the order survives a reload.
+ *
+ * Columns are ordered by boardPosition with unplaced deals (null position) first, newest first, so
+ * new arrivals surface at the top of their column until someone orders them.
+ */
+
+import { db } from '../db';
+import { deals, timelineEvents, type Deal, type TimelineEvent } from '@shared/schema';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { pipelineService } from './pipeline.service';
+import { placeInColumn } from './pipelines/board-column';
+import { domainEvents } from './events/domain-events';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+export interface StageTransitionInput {
+  stage: string;
+  // Place the deal above this deal of the target column; omitted or null drops it at the bottom
+  beforeDealId?: number | null;
+  // Required details when the target stage is a rejected-category stage
+  rejection?: {
+    category: string;
+    reason: string;
+    additionalNotes?: string;
+  };
+}
+
+export interface StageTransitionResult {
+  deal: Deal;
+  // Deal ids of the target column in board order after the move
+  column: number[];
+}
+
+export class DealBoardService {
+  async moveDeal(
+    dealId: number,
+    input: StageTransitionInput,
+    actor: { id: number; fullName?: string | null }
+  ): Promise<StageTransitionResult> {
+    const [deal] = await db.select().from(deals).where(eq(deals.id, dealId));
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    const { pipeline, stage } = await pipelineService.validateStageChange(deal, { stage: input.stage });
+    const stageChanged = stage.key !== deal.stage;
+    if (stageChanged && stage.category === 'rejected' && !input.rejection) {
+      throw new ValidationError(`A rejection reason is required to move a deal to ${stage.label}`, 'rejection');
+    }
+
+    const fromLabel = pipeline.stages.find(candidate => candidate.key === deal.stage)?.label ?? deal.stage;
+
+    const result = await db.transaction(async tx => {
+      const siblings = await tx
+        .select({ id: deals.id })
+        .from(deals)
+        .where(and(pipelineService.dealsInPipeline(pipeline), eq(deals.stage, stage.key)))
+        .orderBy(sql`${deals.boardPosition} asc nulls first`, desc(deals.createdAt), asc(deals.id));
+
+      const column = placeInColumn(siblings.map(sibling => sibling.id), dealId, input.beforeDealId);
+
+      for (const [position, id] of column.entries()) {
+        if (id !== dealId) {
+          await tx.update(deals).set({ boardPosition: position }).where(eq(deals.id, id));
+        }
+      }
+
+      const [updated] = await tx.update(deals)
+        .set({
+          stage: stage.key,
+          boardPosition: column.indexOf(dealId),
+          updatedAt: new Date(),
+          ...(stageChanged && this.rejectionFields(stage.category, deal, input, actor.id))
+        })
+        .where(eq(deals.id, dealId))
+        .returning();
+
+      let timelineEvent: TimelineEvent | undefined;
+      if (stageChanged) {
+        [timelineEvent] = await tx.insert(timelineEvents).values({
+          dealId,
+          eventType: 'stage_change',
+          content: `${actor.fullName || 'System'} moved deal from ${fromLabel} to ${stage.label}`,
+          createdBy: actor.id,
+          // Same shape DealService.updateDeal writes, read by the stage distribution charts
+          metadata: {
+            previousStage: [deal.stage],
+            newStage: [stage.key],
+            ...(input.rejection && stage.category === 'rejected' && { rejectionReason: input.rejection.reason })
+          } as Record<string, any>
+        }).returning();
+      }
+
+      return { deal: updated, column, timelineEvent };
+    });
+
+    if (result.timelineEvent) {
+      domainEvents.emit('timeline.created', {
+        eventId: result.timelineEvent.id,
+        dealId,
+        eventType: result.timelineEvent.eventType
+      });
+    }
+
+    if (stageChanged) {
+      domainEvents.emit('deal.stage_changed', {
+        dealId,
+        fromStage: deal.stage,
+        toStage: stage.key,
+        toCategory: stage.category,
+        actorId: actor.id
+      });
+    }
+
+    return { deal: result.deal, column: result.column };
+  }
+
+  /**
+   * Entering a rejected stage records why; leaving one clears it
+   */
+  private rejectionFields(
+    category: string,
+    deal: Deal,
+    input: StageTransitionInput,
+    actorId: number
+  ): Partial<Deal> {
+    if (category === 'rejected' && input.rejection) {
+      const rejectedAt = new Date();
+      return {
+        rejectionReason: input.rejection.reason,
+        rejectionCategory: input.rejection.category,
+        rejectionData: { ...input.rejection, rejectedBy: actorId, rejectedAt: rejectedAt.toISOString() },
+        rejectedAt
+      };
+    }
+    if (deal.rejectedAt || deal.rejectionReason) {
+      return { rejectionReason: null, rejectionCategory: null, rejectionData: null, rejectedAt: null };
+    }
+    return {};
+  }
+}
+
+// Export singleton instance
+export const dealBoardService = new DealBoardService();
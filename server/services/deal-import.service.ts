@@ -0,0 +1,457 @@
+/**
+ * Deal Import Service
+ *
+ * Bulk deal import from CSV/Excel: parse the upload, map spreadsheet columns to deal fields,
+ * validate every row against insertDealSchema (dry run), then commit all deals in one
+ * transaction from the csv-import job.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from '../db';
+import {
+  dealAssignments,
+  dealImports,
+  deals,
+  insertDealSchema,
+  timelineEvents,
+  users,
+  type DealImport,
+  type InsertDeal
+} from '@shared/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { DataExtractor } from './data-extractor';
+import { jobQueue } from './queue-processor.service';
+import { NotFoundError, ValidationError } from './type-definitions';
+import { domainEvents } from './events/domain-events';
+import { pipelineService } from './pipeline.service';
+
+const IMPORTS_DIR = path.join('temp', 'imports');
+const PREVIEW_SAMPLE_SIZE = 5;
+
+// Deal fields a spreadsheet column can be mapped to
+export const DEAL_IMPORT_FIELDS = [
+  'name',
+  'description',
+  'sector',
+  'stage',
+  'tags',
+  'round',
+  'targetRaise',
+  'valuation',
+  'leadInvestor',
+  'companyStage',
+  'targetReturn',
+  'projectedIrr',
+  'projectedMultiple',
+  'score',
+  'contactEmail',
+  'notes'
+] as const;
+
+export type DealImportField = typeof DEAL_IMPORT_FIELDS[number];
+export type ColumnMapping = Record<string, DealImportField>;
+
+export interface ImportRowResult {
+  rowNumber: number; // Spreadsheet row number, counting the header as row 1
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  data?: Omit<InsertDeal, 'createdBy' | 'rejectionData'>;
+}
+
+export interface ImportPreview {
+  importId: number;
+  totalRows: number;
+  validCount: number;
+  invalidCount: number;
+  rows: ImportRowResult[];
+}
+
+type SheetRow = Record<string, unknown>;
+
+/**
+ * Normalize a header or label for loose matching: "Lead Investor" -> "leadinvestor"
+ */
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const FIELD_ALIASES: Record<string, DealImportField> = {
+  company: 'name',
+  companyname: 'name',
+  dealname: 'name',
+  industry: 'sector',
+  status: 'stage',
+  dealstage: 'stage',
+  labels: 'tags',
+  email: 'contactEmail',
+  lead: 'leadInvestor',
+  raise: 'targetRaise',
+  series: 'companyStage'
+};
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+export class DealImportService {
+  /**
+   * Parse an uploaded spreadsheet and record it as a pending import.
+   * Excel files use the first sheet unless sheetName is given; the first row holds the headers.
+   */
+  async createImport(
+    file: { path: string; originalname: string },
+    userId: number,
+    sheetName?: string
+  ): Promise<{ import: DealImport; sampleRows: SheetRow[]; suggestedMapping: ColumnMapping; fields: readonly DealImportField[] }> {
+    await fs.mkdir(IMPORTS_DIR, { recursive: true });
+    const storedPath = path.join(IMPORTS_DIR, `${Date.now()}-${path.basename(file.originalname)}`);
+    await fs.rename(file.path, storedPath);
+
+    const { columns, rows, sheet } = await this.readRows(storedPath, file.originalname, sheetName);
+    if (columns.length === 0 || rows.length === 0) {
+      await fs.unlink(storedPath).catch(() => undefined);
+      throw new ValidationError('The file has no header row or no data rows', 'file');
+    }
+
+    const [created] = await db
+      .insert(dealImports)
+      .values({
+        fileName: file.originalname,
+        filePath: storedPath,
+        sheetName: sheet,
+        columns,
+        totalRows: rows.length,
+        createdBy: userId
+      })
+      .returning();
+
+    return {
+      import: created,
+      sampleRows: rows.slice(0, PREVIEW_SAMPLE_SIZE),
+      suggestedMapping: this.suggestMapping(columns),
+      fields: DEAL_IMPORT_FIELDS
+    };
+  }
+
+  /**
+   * Guess a column mapping from header names
+   */
+  suggestMapping(columns: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const used = new Set<DealImportField>();
+
+    for (const column of columns) {
+      const key = normalizeKey(column);
+      const field = DEAL_IMPORT_FIELDS.find(candidate => normalizeKey(candidate) === key) ?? FIELD_ALIASES[key];
+      if (field && !used.has(field)) {
+        mapping[column] = field;
+        used.add(field);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Validate every row against insertDealSchema without writing anything
+   */
+  async previewImport(importId: number, mapping: ColumnMapping, userId: number): Promise<ImportPreview> {
+    const record = await this.getImport(importId);
+    this.assertMapping(record, mapping);
+
+    const { rows } = await this.readRows(record.filePath, record.fileName, record.sheetName ?? undefined);
+    const results = await this.validateRows(rows, mapping, userId);
+
+    await db.update(dealImports).set({ mapping }).where(eq(dealImports.id, importId));
+
+    const validCount = results.filter(row => row.valid).length;
+    return {
+      importId,
+      totalRows: results.length,
+      validCount,
+      invalidCount: results.length - validCount,
+      rows: results
+    };
+  }
+
+  /**
+   * Queue the import for commit on the csv-import job
+   */
+  async queueImport(importId: number, mapping: ColumnMapping, skipInvalid: boolean): Promise<DealImport> {
+    const record = await this.getImport(importId);
+    this.assertMapping(record, mapping);
+
+    // Claim the import in one conditional update so two requests cannot both queue it
+    const [claimed] = await db
+      .update(dealImports)
+      .set({ mapping, skipInvalid, status: 'queued', errorMessage: null })
+      .where(and(eq(dealImports.id, importId), inArray(dealImports.status, ['uploaded', 'failed'])))
+      .returning();
+    if (!claimed) {
+      const current = await this.getImport(importId);
+      throw new ValidationError(`Import is already ${current.status}`, 'status');
+    }
+
+    try {
+      const jobId = await jobQueue.addJob('csv-import', { importId }, { maxAttempts: 1 });
+      const [queued] = await db
+        .update(dealImports)
+        .set({ jobId })
+        .where(eq(dealImports.id, importId))
+        .returning();
+      return queued;
+    } catch (error) {
+      await db
+        .update(dealImports)
+        .set({ status: 'failed', errorMessage: error instanceof Error ? error.message : 'Failed to queue import' })
+        .where(eq(dealImports.id, importId));
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and insert all deals in one transaction, with a deal_creation timeline
+   * event and creator assignment for each. Without skipInvalid, any invalid row aborts the import.
+   * Called by the csv-import job processor.
+   */
+  async runImport(importId: number): Promise<DealImport> {
+    // Only a queued import runs; claiming it moves it to processing so a repeated job is refused
+    const [record] = await db
+      .update(dealImports)
+      .set({ status: 'processing' })
+      .where(and(eq(dealImports.id, importId), eq(dealImports.status, 'queued')))
+      .returning();
+    if (!record) {
+      const current = await this.getImport(importId);
+      throw new ValidationError(`Import is ${current.status}, not queued`, 'status');
+    }
+    const mapping = (record.mapping || {}) as ColumnMapping;
+
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, record.createdBy));
+      const { rows } = await this.readRows(record.filePath, record.fileName, record.sheetName ?? undefined);
+      const results = await this.validateRows(rows, mapping, record.createdBy);
+      const invalid = results.filter(row => !row.valid);
+      const rowErrors = invalid.map(row => ({ rowNumber: row.rowNumber, errors: row.errors }));
+
+      if (invalid.length > 0 && !record.skipInvalid) {
+        throw new ValidationError(`${invalid.length} rows failed validation`, 'rows', { rowErrors });
+      }
+
+      const valid = results.filter(row => row.valid && row.data);
+      const createdEvents = await db.transaction(async tx => {
+        const events: Array<{ id: number; dealId: number }> = [];
+        for (const row of valid) {
+          const [deal] = await tx
+            .insert(deals)
+            .values({ ...row.data!, tags: (row.data!.tags as string[]) || [], createdBy: record.createdBy })
+            .returning();
+
+          await tx.insert(dealAssignments).values({ dealId: deal.id, userId: record.createdBy });
+          const [event] = await tx.insert(timelineEvents).values({
+            dealId: deal.id,
+            eventType: 'deal_creation',
+            content: `${user?.fullName || 'User'} imported this deal from ${record.fileName}`,
+            createdBy: record.createdBy,
+            metadata: { importId, rowNumber: row.rowNumber }
+          }).returning({ id: timelineEvents.id, dealId: timelineEvents.dealId });
+          events.push(event);
+        }
+        return events;
+      });
+      createdEvents.forEach(event => {
+        domainEvents.emit('deal.created', { dealId: event.dealId, actorId: record.createdBy });
+        domainEvents.emit('timeline.created', { eventId: event.id, dealId: event.dealId, eventType: 'deal_creation' });
+      });
+
+      const [completed] = await db
+        .update(dealImports)
+        .set({
+          status: 'completed',
+          importedCount: valid.length,
+          skippedCount: invalid.length,
+          rowErrors,
+          completedAt: new Date()
+        })
+        .where(eq(dealImports.id, importId))
+        .returning();
+
+      await fs.unlink(record.filePath).catch(() => undefined);
+      return completed;
+    } catch (error) {
+      const rowErrors = error instanceof ValidationError ? error.context?.rowErrors : undefined;
+      await db
+        .update(dealImports)
+        .set({
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          ...(rowErrors ? { rowErrors } : {}),
+          completedAt: new Date()
+        })
+        .where(eq(dealImports.id, importId));
+      throw error;
+    }
+  }
+
+  /**
+   * Get an import's status and results
+   */
+  async getImport(importId: number): Promise<DealImport> {
+    const [record] = await db.select().from(dealImports).where(eq(dealImports.id, importId));
+    if (!record) throw new NotFoundError('Deal import', importId);
+    return record;
+  }
+
+  private assertMapping(record: DealImport, mapping: ColumnMapping) {
+    const unknownColumns = Object.keys(mapping).filter(column => !(record.columns || []).includes(column));
+    if (unknownColumns.length > 0) {
+      throw new ValidationError(`Unknown columns in mapping: ${unknownColumns.join(', ')}`, 'mapping');
+    }
+
+    const fields = Object.values(mapping);
+    const invalidFields = fields.filter(field => !DEAL_IMPORT_FIELDS.includes(field));
+    if (invalidFields.length > 0) {
+      throw new ValidationError(`Unknown deal fields in mapping: ${invalidFields.join(', ')}`, 'mapping');
+    }
+    if (new Set(fields).size !== fields.length) {
+      throw new ValidationError('Each deal field can only be mapped from one column', 'mapping');
+    }
+    if (!fields.includes('name')) {
+      throw new ValidationError('A column must be mapped to the deal name', 'mapping');
+    }
+  }
+
+  /**
+   * Read header and data rows through DataExtractor
+   */
+  private async readRows(filePath: string, fileName: string, sheetName?: string): Promise<{ columns: string[]; rows: SheetRow[]; sheet: string | null }> {
+    const extension = path.extname(fileName).toLowerCase();
+
+    if (extension === '.csv') {
+      const extracted = await DataExtractor.extractCSVData(filePath, fileName);
+      const rows = (extracted.data || []) as SheetRow[];
+      return { columns: rows.length > 0 ? Object.keys(rows[0]) : [], rows, sheet: null };
+    }
+
+    if (['.xlsx', '.xls', '.xlsm'].includes(extension)) {
+      const extracted = await DataExtractor.extractExcelData(filePath, fileName);
+      const sheet = sheetName ?? extracted.metadata.sheetNames?.[0];
+      if (!sheet || !extracted.sheets?.[sheet]) {
+        throw new ValidationError(`Sheet not found: ${sheetName ?? '(first sheet)'}`, 'sheetName');
+      }
+
+      const [headerRow = [], ...dataRows] = extracted.sheets[sheet] as unknown[][];
+      const columns = headerRow.map(cellText);
+      const rows = dataRows
+        .filter(row => Array.isArray(row) && row.some(cell => cellText(cell) !== ''))
+        .map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? null])));
+      return { columns: columns.filter(Boolean), rows, sheet };
+    }
+
+    throw new ValidationError(`Unsupported file type: ${extension}. Use CSV or Excel.`, 'file');
+  }
+
+  /**
+   * Convert mapped cells to deal fields and validate with insertDealSchema
+   */
+  private async validateRows(rows: SheetRow[], mapping: ColumnMapping, userId: number): Promise<ImportRowResult[]> {
+    const existingNames = new Set(
+      (await db.select({ name: deals.name }).from(deals)).map(deal => normalizeKey(deal.name))
+    );
+    const namesInFile = new Map<string, number>();
+
+    // Stages match the default pipeline by key or label
+    const pipeline = await pipelineService.getDefault();
+    const stageLookup = new Map(pipeline.stages.flatMap(stage => [
+      [normalizeKey(stage.key), stage.key],
+      [normalizeKey(stage.label), stage.key]
+    ]));
+
+    // Imported deals pass the same stage gates as deals created one by one. A new deal has no
+    // memos or votes yet, so each stage's gates admit either every row or none.
+    const gateErrors = new Map<string, string>();
+    for (const stage of pipeline.stages) {
+      try {
+        await pipelineService.validateStageChange(null, { stage: stage.key });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        gateErrors.set(stage.key, error.message);
+      }
+    }
+
+    return rows.map((row, index) => {
+      const rowNumber = index + 2;
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const candidate: Record<string, unknown> = { stage: pipeline.stages[0].key };
+
+      for (const [column, field] of Object.entries(mapping)) {
+        const raw = cellText(row[column]);
+        if (raw === '') continue;
+
+        switch (field) {
+          case 'stage': {
+            const stage = stageLookup.get(normalizeKey(raw));
+            if (stage) {
+              candidate.stage = stage;
+            } else {
+              errors.push(`stage: "${raw}" is not a pipeline stage`);
+            }
+            break;
+          }
+          case 'tags':
+            candidate.tags = raw.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean);
+            break;
+          case 'score': {
+            const score = Number(raw);
+            if (Number.isInteger(score)) {
+              candidate.score = score;
+            } else {
+              errors.push(`score: "${raw}" is not a whole number`);
+            }
+            break;
+          }
+          default:
+            candidate[field] = raw;
+        }
+      }
+
+      const gateError = gateErrors.get(candidate.stage as string);
+      if (gateError) {
+        errors.push(`stage: ${gateError}`);
+      }
+
+      const parsed = insertDealSchema.safeParse({ ...candidate, createdBy: userId });
+      if (!parsed.success) {
+        errors.push(...parsed.error.errors.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+      }
+
+      const nameKey = typeof candidate.name === 'string' ? normalizeKey(candidate.name) : '';
+      if (nameKey) {
+        if (existingNames.has(nameKey)) {
+          warnings.push('A deal with this name already exists');
+        }
+        const firstRow = namesInFile.get(nameKey);
+        if (firstRow) {
+          warnings.push(`Same name as row ${firstRow}`);
+        } else {
+          namesInFile.set(nameKey, rowNumber);
+        }
+      }
+
+      if (errors.length > 0 || !parsed.success) {
+        return { rowNumber, valid: false, errors, warnings };
+      }
+
+      // Imports never carry rejection data; drop it so the row matches the deals insert type
+      const { createdBy, rejectionData, ...data } = parsed.data;
+      return { rowNumber, valid: true, errors, warnings, data };
+    });
+  }
+}
+
+// Export singleton instance
+export const dealImportService = new DealImportService();
@@ -5,10 +5,12 @@ import {
   TimelineEvent, 
   DealStar,
   InsertDealStar,
-  DealStageLabels
+  PipelineStage
 } from "@shared/schema";
 import { IStorage } from "../storage";
 import { StorageFactory } from "../storage-factory";
+import { domainEvents } from "./events/domain-events";
+import { pipelineService } from "./pipeline.service";
 
 /**
  * Helper function to get a fresh storage instance
@@ -44,6 +46,7 @@ export class DealService {
   async getAllDeals(): Promise<any[]> {
     const storage = getStorage();
     const deals = await storage.getDeals();
+    const stageLabel = await pipelineService.getStageLabeler();
     
     // For each deal, get the assignments, stars, and mini memos
     const dealsWithExtras = await Promise.all(deals.map(async (deal) => {
@@ -59,7 +62,7 @@ export class DealService {
       
       return {
         ...deal,
-        stageLabel: DealStageLabels[deal.stage],
+        stageLabel: stageLabel(deal),
         assignedUsers: assignments.map(a => a.userId),
         starCount: stars.length,
         score
@@ -75,6 +78,7 @@ export class DealService {
   async getDealsByStage(stage: string): Promise<any[]> {
     const storage = getStorage();
     const deals = await storage.getDealsByStage(stage as any);
+    const stageLabel = await pipelineService.getStageLabeler();
     
     // For each deal, get the assignments, stars, and mini memos
     const dealsWithExtras = await Promise.all(deals.map(async (deal) => {
@@ -90,7 +94,7 @@ export class DealService {
       
       return {
         ...deal,
-        stageLabel: DealStageLabels[deal.stage],
+        stageLabel: stageLabel(deal),
         assignedUsers: assignments.map(a => a.userId),
         starCount: stars.length,
         score
@@ -116,6 +120,7 @@ export class DealService {
     const timelineEvents = await storage.getTimelineEventsByDeal(deal.id);
     const miniMemos = await storage.getMiniMemosByDeal(deal.id);
     const allocations = await storage.getAllocationsByDeal(deal.id);
+    const pipeline = await pipelineService.getForDeal(deal);
     
     // Get assigned users with details
     const assignedUserIds = assignments.map(a => a.userId);
@@ -137,7 +142,8 @@ export class DealService {
     
     return {
       ...deal,
-      stageLabel: DealStageLabels[deal.stage],
+      stageLabel: pipeline.stages.find(stage => stage.key === deal.stage)?.label ?? deal.stage,
+      pipelineName: pipeline.name,
       assignedUsers,
       starCount: stars.length,
       timelineEvents,
@@ -152,9 +158,12 @@ export class DealService {
    */
   async createDeal(dealData: InsertDeal, user: User): Promise<Deal> {
     const storage = getStorage();
+
+    // New deals start in the first stage of their pipeline unless a stage is given
+    const { stage } = await pipelineService.validateStageChange(null, dealData);
     
     // Create the deal
-    const newDeal = await storage.createDeal(dealData);
+    const newDeal = await storage.createDeal({ ...dealData, stage: stage.key });
     
     // Automatically assign creator to the deal
     await storage.assignUserToDeal({
@@ -170,6 +179,8 @@ export class DealService {
       createdBy: user.id,
       metadata: {}
     });
+
+    domainEvents.emit('deal.created', { dealId: newDeal.id, actorId: user.id });
     
     return newDeal;
   }
@@ -187,11 +198,28 @@ export class DealService {
     }
     
     let finalUpdate = { ...dealUpdate };
+    let fromLabel = deal.stage;
+    let toLabel = dealUpdate.stage;
+    let fromCategory: PipelineStage['category'] | undefined;
+    let toCategory: PipelineStage['category'] | undefined;
+
+    // Stage and pipeline changes must pass the target stage's gates
+    if (dealUpdate.stage !== undefined || dealUpdate.pipelineId !== undefined) {
+      const { stage } = await pipelineService.validateStageChange(deal, dealUpdate);
+      // The current stage belongs to the deal's current pipeline, which may not be the target one
+      const currentPipeline = await pipelineService.getForDeal(deal);
+      const currentStage = currentPipeline.stages.find(candidate => candidate.key === deal.stage);
+      finalUpdate.stage = dealUpdate.stage = stage.key;
+      toLabel = stage.label;
+      toCategory = stage.category;
+      fromLabel = currentStage?.label ?? deal.stage;
+      fromCategory = currentStage?.category;
+    }
     
     // Handle stage changes
     if (dealUpdate.stage && dealUpdate.stage !== deal.stage) {
-      // If changing to rejected stage
-      if (dealUpdate.stage === 'rejected') {
+      // If changing to a rejected stage
+      if (toCategory === 'rejected') {
         // Add rejected timestamp
         finalUpdate = {
           ...finalUpdate,
@@ -207,11 +235,11 @@ export class DealService {
             createdBy: user.id,
             metadata: {
               previousStage: [deal.stage],
-              newStage: ['rejected']
+              newStage: [dealUpdate.stage]
             }
           });
         }
-      } else if (deal.stage === 'rejected' && dealUpdate.stage && (['initial_review', 'screening', 'diligence', 'ic_review', 'closing', 'closed', 'invested'] as const).includes(dealUpdate.stage as any)) {
+      } else if (fromCategory === 'rejected') {
         // If moving from rejected to another stage, clear rejection fields
         finalUpdate = {
           ...finalUpdate,
@@ -224,7 +252,7 @@ export class DealService {
       await storage.createTimelineEvent({
         dealId,
         eventType: 'stage_change',
-        content: `Deal moved from ${DealStageLabels[deal.stage]} to ${DealStageLabels[dealUpdate.stage as keyof typeof DealStageLabels]}`,
+        content: `Deal moved from ${fromLabel} to ${toLabel}`,
         createdBy: user.id,
         metadata: {
           previousStage: [deal.stage],
@@ -234,6 +262,17 @@ export class DealService {
     }
     
     const updatedDeal = await storage.updateDeal(dealId, finalUpdate);
+
+    if (updatedDeal && dealUpdate.stage && dealUpdate.stage !== deal.stage) {
+      domainEvents.emit('deal.stage_changed', {
+        dealId,
+        fromStage: deal.stage,
+        toStage: dealUpdate.stage,
+        toCategory: toCategory ?? 'active',
+        actorId: user.id
+      });
+    }
+
     return updatedDeal || null;
   }
 
@@ -483,7 +522,15 @@ export class DealService {
    */
   async createMiniMemo(memoData: any): Promise<any> {
     const storage = getStorage();
-    return storage.createMiniMemo(memoData);
+    const memo = await storage.createMiniMemo(memoData);
+
+    domainEvents.emit('memo.created', {
+      dealId: memo.dealId,
+      memoId: memo.id,
+      actorId: memo.userId
+    });
+
+    return memo;
   }
 
   /**
@@ -0,0 +1,386 @@
+/**
+ * Digest Service
+ *
+ * Daily or weekly summary emails covering each user's assigned deals: pipeline movement,
+ * new documents, overdue capital calls and open devil's-advocate concerns, plus any
+ * notifications the user routed to their digest. Partners and admins default to a weekly
+ * digest on Monday morning, observers to none, everyone else to daily.
+ *
+ * A sweep claims the current slot for each due user (a conditional update on lastSentAt,
+ * so several app instances never send the same digest twice) and queues a `digest-email`
+ * job that builds and sends it.
+ */
+
+import { db } from '../db';
+import {
+  capitalCalls,
+  dealAssignments,
+  deals,
+  devilsAdvocateComments,
+  digestSubscriptions,
+  documents,
+  fundAllocations,
+  notifications,
+  timelineEvents,
+  users,
+  type DigestFrequency,
+  type User
+} from '@shared/schema';
+import { and, asc, eq, gte, inArray, isNotNull, isNull, lt, or } from 'drizzle-orm';
+import { jobQueue } from './queue-processor.service';
+import { mailService } from './mail.service';
+import { renderDigestEmail } from './email/templates';
+import { NotFoundError } from './type-definitions';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+// A slot missed by more than this (server down all morning) is skipped rather than sent late
+const MAX_SEND_DELAY_MS = 12 * HOUR_MS;
+const DEFAULT_DIGEST_HOUR_UTC = 7;
+const OPEN_CAPITAL_CALL_STATUSES = ['called', 'partially_paid', 'overdue'] as const;
+const SEVERITY_ORDER = ['critical', 'high', 'medium', 'low'];
+
+const ROLE_DEFAULTS: Record<User['role'], DigestFrequency> = {
+  admin: 'weekly',
+  partner: 'weekly',
+  analyst: 'daily',
+  intern: 'daily',
+  observer: 'off'
+};
+
+export interface DigestSubscriptionView {
+  frequency: DigestFrequency;
+  /** True when nothing is saved and the role default applies */
+  isDefault: boolean;
+  lastSentAt: Date | null;
+  nextSendAt: Date | null;
+}
+
+export interface DigestSummary {
+  user: { id: number; fullName: string; email: string };
+  frequency: Exclude<DigestFrequency, 'off'>;
+  periodStart: Date;
+  periodEnd: Date;
+  dealCount: number;
+  stageChanges: Array<{ dealId: number; dealName: string; description: string; changedAt: Date }>;
+  documents: Array<{ dealId: number; dealName: string; fileName: string; documentType: string; uploadedAt: Date }>;
+  overdueCapitalCalls: Array<{ capitalCallId: number; dealId: number; dealName: string; outstandingAmount: number; dueDate: Date; daysOverdue: number }>;
+  openConcerns: Array<{ dealId: number; dealName: string; title: string; severity: string; category: string; createdAt: Date }>;
+  notifications: Array<{ title: string; message: string; type: string; relatedId: number | null; createdAt: Date }>;
+}
+
+export class DigestService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  get digestHourUtc(): number {
+    const hour = parseInt(process.env.DIGEST_HOUR_UTC || '', 10);
+    return hour >= 0 && hour <= 23 ? hour : DEFAULT_DIGEST_HOUR_UTC;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    const sweep = () => this.runScheduledDigests().catch(error =>
+      console.error('Digest sweep failed:', error)
+    );
+    sweep();
+    this.sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  getRoleDefault(role: User['role']): DigestFrequency {
+    return ROLE_DEFAULTS[role] ?? 'daily';
+  }
+
+  /**
+   * Most recent send time at or before `now`: today at the digest hour, or Monday's for weekly digests
+   */
+  getSlot(frequency: Exclude<DigestFrequency, 'off'>, now: Date = new Date()): Date {
+    const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), this.digestHourUtc));
+    if (slot > now) slot.setTime(slot.getTime() - DAY_MS);
+    if (frequency === 'weekly') {
+      const daysSinceMonday = (slot.getUTCDay() + 6) % 7;
+      slot.setTime(slot.getTime() - daysSinceMonday * DAY_MS);
+    }
+    return slot;
+  }
+
+  getPeriodStart(frequency: Exclude<DigestFrequency, 'off'>, slot: Date): Date {
+    return new Date(slot.getTime() - (frequency === 'weekly' ? 7 : 1) * DAY_MS);
+  }
+
+  async getSubscription(userId: number): Promise<DigestSubscriptionView> {
+    const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const [subscription] = await db.select().from(digestSubscriptions)
+      .where(eq(digestSubscriptions.userId, userId));
+    const frequency = subscription?.frequency ?? this.getRoleDefault(user.role);
+
+    let nextSendAt: Date | null = null;
+    if (frequency !== 'off') {
+      const now = new Date();
+      nextSendAt = this.getSlot(frequency, new Date(now.getTime() + (frequency === 'weekly' ? 7 : 1) * DAY_MS));
+    }
+
+    return {
+      frequency,
+      isDefault: !subscription?.frequency,
+      lastSentAt: subscription?.lastSentAt ?? null,
+      nextSendAt
+    };
+  }
+
+  /**
+   * Save the user's digest frequency; null goes back to the role default
+   */
+  async updateFrequency(userId: number, frequency: DigestFrequency | null): Promise<DigestSubscriptionView> {
+    // Claim the current slot when subscribing so the first digest is the next scheduled one, not an immediate catch-up
+    const lastSentAt = frequency && frequency !== 'off' ? this.getSlot(frequency) : null;
+
+    await db.insert(digestSubscriptions)
+      .values({ userId, frequency, lastSentAt, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: digestSubscriptions.userId,
+        set: { frequency, updatedAt: new Date() }
+      });
+
+    return this.getSubscription(userId);
+  }
+
+  /**
+   * Queue a digest for every user whose current slot has not been sent yet. Returns the number queued.
+   */
+  async runScheduledDigests(now: Date = new Date()): Promise<number> {
+    const allUsers = await db.select({ id: users.id, role: users.role }).from(users);
+    const subscriptions = await db.select().from(digestSubscriptions);
+    const subscriptionByUser = new Map(subscriptions.map(subscription => [subscription.userId, subscription]));
+    let queued = 0;
+
+    for (const user of allUsers) {
+      const subscription = subscriptionByUser.get(user.id);
+      const frequency = subscription?.frequency ?? this.getRoleDefault(user.role);
+      if (frequency === 'off') continue;
+
+      const slot = this.getSlot(frequency, now);
+      if (now.getTime() - slot.getTime() > MAX_SEND_DELAY_MS) continue;
+      if (subscription?.lastSentAt && subscription.lastSentAt >= slot) continue;
+
+      if (!(await this.claimSlot(user.id, slot))) continue;
+
+      await jobQueue.addJob('digest-email', {
+        userId: user.id,
+        frequency,
+        periodStart: this.getPeriodStart(frequency, slot).toISOString(),
+        periodEnd: slot.toISOString()
+      });
+      queued++;
+    }
+
+    if (queued > 0) {
+      console.log(`Queued ${queued} digest email(s)`);
+    }
+    return queued;
+  }
+
+  /**
+   * Gather everything that goes into one user's digest for the given period
+   */
+  async buildDigest(
+    userId: number,
+    frequency: Exclude<DigestFrequency, 'off'>,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<DigestSummary> {
+    const [user] = await db.select({ id: users.id, fullName: users.fullName, email: users.email })
+      .from(users)
+      .where(eq(users.id, userId));
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const assignedDeals = await db.select({ id: deals.id, name: deals.name })
+      .from(dealAssignments)
+      .innerJoin(deals, eq(dealAssignments.dealId, deals.id))
+      .where(eq(dealAssignments.userId, userId));
+    const dealNames = new Map(assignedDeals.map(deal => [deal.id, deal.name]));
+    const dealIds = Array.from(dealNames.keys());
+
+    const heldNotifications = await db.select({
+      title: notifications.title,
+      message: notifications.message,
+      type: notifications.type,
+      relatedId: notifications.relatedId,
+      createdAt: notifications.createdAt
+    })
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.includeInDigest, true),
+        gte(notifications.createdAt, periodStart),
+        lt(notifications.createdAt, periodEnd)
+      ))
+      .orderBy(asc(notifications.createdAt));
+
+    const summary: DigestSummary = {
+      user,
+      frequency,
+      periodStart,
+      periodEnd,
+      dealCount: dealIds.length,
+      stageChanges: [],
+      documents: [],
+      overdueCapitalCalls: [],
+      openConcerns: [],
+      notifications: heldNotifications
+    };
+    if (dealIds.length === 0) return summary;
+
+    const dealName = (dealId: number) => dealNames.get(dealId) || `Deal #${dealId}`;
+
+    const stageEvents = await db.select({
+      dealId: timelineEvents.dealId,
+      content: timelineEvents.content,
+      createdAt: timelineEvents.createdAt
+    })
+      .from(timelineEvents)
+      .where(and(
+        inArray(timelineEvents.dealId, dealIds),
+        eq(timelineEvents.eventType, 'stage_change'),
+        gte(timelineEvents.createdAt, periodStart),
+        lt(timelineEvents.createdAt, periodEnd)
+      ))
+      .orderBy(asc(timelineEvents.createdAt));
+    summary.stageChanges = stageEvents.map(event => ({
+      dealId: event.dealId,
+      dealName: dealName(event.dealId),
+      description: event.content || 'Stage changed',
+      changedAt: event.createdAt
+    }));
+
+    // Explicit columns: documents carry their file data inline
+    const newDocuments = await db.select({
+      dealId: documents.dealId,
+      fileName: documents.fileName,
+      documentType: documents.documentType,
+      uploadedAt: documents.uploadedAt
+    })
+      .from(documents)
+      .where(and(
+        inArray(documents.dealId, dealIds),
+        gte(documents.uploadedAt, periodStart),
+        lt(documents.uploadedAt, periodEnd)
+      ))
+      .orderBy(asc(documents.uploadedAt));
+    summary.documents = newDocuments.map(document => ({ ...document, dealName: dealName(document.dealId) }));
+
+    const overdueCalls = await db.select({
+      id: capitalCalls.id,
+      dueDate: capitalCalls.dueDate,
+      callAmount: capitalCalls.callAmount,
+      paidAmount: capitalCalls.paidAmount,
+      dealId: fundAllocations.dealId
+    })
+      .from(capitalCalls)
+      .innerJoin(fundAllocations, eq(capitalCalls.allocationId, fundAllocations.id))
+      .where(and(
+        inArray(fundAllocations.dealId, dealIds),
+        inArray(capitalCalls.status, [...OPEN_CAPITAL_CALL_STATUSES]),
+        isNotNull(capitalCalls.dueDate),
+        lt(capitalCalls.dueDate, periodEnd)
+      ))
+      .orderBy(asc(capitalCalls.dueDate));
+    summary.overdueCapitalCalls = overdueCalls.map(call => ({
+      capitalCallId: call.id,
+      dealId: call.dealId,
+      dealName: dealName(call.dealId),
+      outstandingAmount: Math.max(0, call.callAmount - (call.paidAmount || 0)),
+      dueDate: call.dueDate as Date,
+      daysOverdue: Math.max(1, Math.floor((periodEnd.getTime() - (call.dueDate as Date).getTime()) / DAY_MS))
+    }));
+
+    const concerns = await db.select({
+      dealId: devilsAdvocateComments.dealId,
+      title: devilsAdvocateComments.title,
+      severity: devilsAdvocateComments.severity,
+      category: devilsAdvocateComments.category,
+      createdAt: devilsAdvocateComments.createdAt
+    })
+      .from(devilsAdvocateComments)
+      .where(and(
+        inArray(devilsAdvocateComments.dealId, dealIds),
+        eq(devilsAdvocateComments.status, 'open')
+      ))
+      .orderBy(asc(devilsAdvocateComments.createdAt));
+    summary.openConcerns = concerns
+      .map(concern => ({ ...concern, dealName: dealName(concern.dealId) }))
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+    return summary;
+  }
+
+  isEmpty(summary: DigestSummary): boolean {
+    return summary.stageChanges.length === 0
+      && summary.documents.length === 0
+      && summary.overdueCapitalCalls.length === 0
+      && summary.openConcerns.length === 0
+      && summary.notifications.length === 0;
+  }
+
+  renderDigest(summary: DigestSummary): string {
+    return renderDigestEmail(summary, mailService.appUrl);
+  }
+
+  /**
+   * Build and send one digest. Empty digests are skipped.
+   */
+  async sendDigest(
+    userId: number,
+    frequency: Exclude<DigestFrequency, 'off'>,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<{ sent: boolean; reason?: string; messageId?: string }> {
+    const summary = await this.buildDigest(userId, frequency, periodStart, periodEnd);
+    if (this.isEmpty(summary)) {
+      return { sent: false, reason: 'Nothing to report' };
+    }
+
+    const result = await mailService.send({
+      to: [summary.user.email],
+      subject: `Your ${frequency} deal digest - ${periodEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`,
+      html: this.renderDigest(summary)
+    });
+    if (!result) {
+      return { sent: false, reason: 'Outgoing mail is disabled' };
+    }
+    return { sent: true, messageId: result.messageId };
+  }
+
+  private async claimSlot(userId: number, slot: Date): Promise<boolean> {
+    await db.insert(digestSubscriptions)
+      .values({ userId })
+      .onConflictDoNothing({ target: digestSubscriptions.userId });
+
+    const claimed = await db.update(digestSubscriptions)
+      .set({ lastSentAt: slot })
+      .where(and(
+        eq(digestSubscriptions.userId, userId),
+        or(isNull(digestSubscriptions.lastSentAt), lt(digestSubscriptions.lastSentAt, slot))
+      ))
+      .returning({ id: digestSubscriptions.id });
+    return claimed.length > 0;
+  }
+}
+
+// Export singleton instance
+export const digestService = new DigestService();
@@ -0,0 +1,249 @@
+/**
+ * Document Index Service
+ *
+ * Per-deal retrieval index of document text for deal Q&A. A document is chunked again whenever
+ * its version differs from the one its chunks were built from, checked before each search, so
+ * uploads and new versions need no indexing hook. Search ranks a deal's chunks with BM25; the
+ * ranking index is held in memory per deal and rebuilt when the deal's chunks change.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { db } from '../db';
+import {
+  documentChunks,
+  documentIndexes,
+  documents,
+  documentVersions,
+  type Document,
+  type DocumentChunk,
+  type DocumentIndex
+} from '@shared/schema';
+import { asc, count, eq, max } from 'drizzle-orm';
+import { Bm25Index } from './retrieval/bm25';
+import { chunkDocument, isIndexable, type ChunkDraft } from './retrieval/document-chunker';
+import { NotFoundError } from './type-definitions';
+import { currentVersionOfDocument, documentWithContentColumns } from './database-document-storage';
+import { DocumentPathResolver } from '../modules/documents/path-resolver';
+
+export interface RetrievedChunk extends DocumentChunk {
+  fileName: string;
+  score: number;
+}
+
+export interface DocumentIndexStatus {
+  documentId: number;
+  fileName: string;
+  version: number;
+  indexedVersion: number | null;
+  status: DocumentIndex['status'] | 'pending';
+  chunkCount: number;
+  error: string | null;
+  indexedAt: Date | null;
+}
+
+interface CachedDealIndex {
+  signature: string;
+  index: Bm25Index;
+  chunks: Map<number, DocumentChunk & { fileName: string }>;
+}
+
+// Deals whose ranking index stays in memory; the least recently searched is dropped first
+const MAX_CACHED_DEALS = 20;
+const INSERT_BATCH_SIZE = 500;
+
+export class DocumentIndexService {
+  private readonly cache = new Map<number, CachedDealIndex>();
+
+  /**
+   * Index every document of the deal whose current version has not been indexed yet
+   */
+  async ensureDealIndexed(dealId: number): Promise<void> {
+    const [dealDocuments, indexes] = await Promise.all([
+      db.select({ id: documents.id, version: documents.version }).from(documents).where(eq(documents.dealId, dealId)),
+      db.select({ documentId: documentIndexes.documentId, version: documentIndexes.version })
+        .from(documentIndexes)
+        .where(eq(documentIndexes.dealId, dealId))
+    ]);
+
+    const indexedVersions = new Map(indexes.map(index => [index.documentId, index.version]));
+    for (const document of dealDocuments) {
+      if (indexedVersions.get(document.id) !== document.version) {
+        await this.indexDocument(document.id);
+      }
+    }
+  }
+
+  /**
+   * Rebuild the chunks of one document from its current version
+   */
+  async indexDocument(documentId: number): Promise<DocumentIndex> {
+    const [document] = await db
+      .select(documentWithContentColumns)
+      .from(documents)
+      .leftJoin(documentVersions, currentVersionOfDocument)
+      .where(eq(documents.id, documentId));
+    if (!document) {
+      throw new NotFoundError('Document', documentId);
+    }
+
+    let drafts: ChunkDraft[] | null = null;
+    let error: string | null = null;
+    if (isIndexable(document.fileName)) {
+      try {
+        const content = this.readContent(document);
+        if (content) {
+          drafts = await chunkDocument(content, document.fileName);
+        } else {
+          error = 'File content is not available';
+        }
+      } catch (extractionError) {
+        error = extractionError instanceof Error ? extractionError.message : String(extractionError);
+        console.error(`Failed to index document ${documentId} (${document.fileName}):`, extractionError);
+      }
+    }
+
+    const status: DocumentIndex['status'] = error ? 'failed' : drafts ? 'indexed' : 'unsupported';
+    const rows = (drafts ?? []).map((draft, chunkIndex) => ({
+      ...draft,
+      documentId,
+      dealId: document.dealId,
+      chunkIndex
+    }));
+    const values = {
+      documentId,
+      dealId: document.dealId,
+      version: document.version,
+      status,
+      chunkCount: rows.length,
+      error,
+      indexedAt: new Date()
+    };
+
+    return db.transaction(async tx => {
+      // Lock the document's index row before replacing its chunks, so concurrent rebuilds of the
+      // same document run one after the other instead of both inserting chunks
+      await tx.insert(documentIndexes).values(values).onConflictDoNothing({ target: documentIndexes.documentId });
+      await tx.select({ id: documentIndexes.id })
+        .from(documentIndexes)
+        .where(eq(documentIndexes.documentId, documentId))
+        .for('update');
+
+      await tx.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+      for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+        await tx.insert(documentChunks).values(rows.slice(start, start + INSERT_BATCH_SIZE));
+      }
+
+      const [index] = await tx.update(documentIndexes)
+        .set(values)
+        .where(eq(documentIndexes.documentId, documentId))
+        .returning();
+      return index;
+    });
+  }
+
+  /**
+   * Re-chunk every document of the deal, e.g. after changing how documents are chunked
+   */
+  async reindexDeal(dealId: number): Promise<DocumentIndexStatus[]> {
+    const dealDocuments = await db.select({ id: documents.id }).from(documents).where(eq(documents.dealId, dealId));
+    for (const document of dealDocuments) {
+      await this.indexDocument(document.id);
+    }
+    return this.getStatus(dealId);
+  }
+
+  async getStatus(dealId: number): Promise<DocumentIndexStatus[]> {
+    const rows = await db
+      .select({ document: documents, index: documentIndexes })
+      .from(documents)
+      .leftJoin(documentIndexes, eq(documentIndexes.documentId, documents.id))
+      .where(eq(documents.dealId, dealId))
+      .orderBy(documents.fileName);
+
+    return rows.map(({ document, index }) => ({
+      documentId: document.id,
+      fileName: document.fileName,
+      version: document.version,
+      indexedVersion: index?.version ?? null,
+      status: index && index.version === document.version ? index.status : 'pending',
+      chunkCount: index?.chunkCount ?? 0,
+      error: index?.error ?? null,
+      indexedAt: index?.indexedAt ?? null
+    }));
+  }
+
+  /**
+   * All chunks of one document in reading order, indexing its current version first if needed
+   */
+  async getDocumentChunks(documentId: number): Promise<{ index: DocumentIndex; chunks: DocumentChunk[] }> {
+    const [[document], [existing]] = await Promise.all([
+      db.select({ version: documents.version }).from(documents).where(eq(documents.id, documentId)),
+      db.select().from(documentIndexes).where(eq(documentIndexes.documentId, documentId))
+    ]);
+    if (!document) {
+      throw new NotFoundError('Document', documentId);
+    }
+
+    const index = existing && existing.version === document.version ? existing : await this.indexDocument(documentId);
+    const chunks = await db.select()
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(asc(documentChunks.chunkIndex));
+    return { index, chunks };
+  }
+
+  /**
+   * The deal's chunks that best match the query, best first
+   */
+  async search(dealId: number, query: string, limit: number): Promise<RetrievedChunk[]> {
+    await this.ensureDealIndexed(dealId);
+    const cached = await this.getDealIndex(dealId);
+
+    return cached.index.search(query, limit).map(hit => ({ ...cached.chunks.get(hit.id)!, score: hit.score }));
+  }
+
+  private async getDealIndex(dealId: number): Promise<CachedDealIndex> {
+    const [{ chunkCount, lastId }] = await db
+      .select({ chunkCount: count(), lastId: max(documentChunks.id) })
+      .from(documentChunks)
+      .where(eq(documentChunks.dealId, dealId));
+    const signature = `${chunkCount}:${lastId ?? 0}`;
+
+    let cached = this.cache.get(dealId);
+    if (!cached || cached.signature !== signature) {
+      const rows = await db
+        .select({ chunk: documentChunks, fileName: documents.fileName })
+        .from(documentChunks)
+        .innerJoin(documents, eq(documentChunks.documentId, documents.id))
+        .where(eq(documentChunks.dealId, dealId));
+
+      const chunks = new Map(rows.map(row => [row.chunk.id, { ...row.chunk, fileName: row.fileName }]));
+      // File and sheet names are searchable too, so "cap table" finds chunks of cap-table.xlsx
+      const index = new Bm25Index(rows.map(row => ({
+        id: row.chunk.id,
+        text: `${path.parse(row.fileName).name.replace(/[-_]/g, ' ')} ${row.chunk.sheet ?? ''}\n${row.chunk.content}`
+      })));
+      cached = { signature, index, chunks };
+    }
+
+    // Keep the most recently searched deals
+    this.cache.delete(dealId);
+    this.cache.set(dealId, cached);
+    if (this.cache.size > MAX_CACHED_DEALS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return cached;
+  }
+
+  private readContent(document: Document): Buffer | null {
+    if (document.fileData) {
+      return Buffer.from(document.fileData, 'base64');
+    }
+    const filePath = document.filePath ? DocumentPathResolver.resolveExistingFile(document) : null;
+    return filePath ? fs.readFileSync(filePath) : null;
+  }
+}
+
+// Export singleton instance
+export const documentIndexService = new DocumentIndexService();
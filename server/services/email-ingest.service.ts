@@ -0,0 +1,442 @@
+/**
+ * Email Ingest Service
+ *
+ * Turns inbound pitch emails into deals: match the email to an existing deal by name or sender
+ * domain (or create one), store the attachments as deal documents and record an email_received
+ * timeline event. Emails arrive as structured fields, raw .eml uploads, or over the optional
+ * SMTP listener, where each user forwards to a personal ingest address carrying a secret token.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import DOMPurify from 'isomorphic-dompurify';
+import { SMTPServer, type SMTPServerDataStream, type SMTPServerSession } from 'smtp-server';
+import { db } from '../db';
+import {
+  dealAssignments,
+  deals,
+  emailIngestTokens,
+  timelineEvents,
+  users,
+  type Deal
+} from '@shared/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { databaseDocumentStorage } from './database-document-storage';
+import { extractInlineForward, parseEmail, type EmailAttachment, type ParsedEmail } from './email/inbound-email';
+import { ValidationError } from './type-definitions';
+import { domainEvents } from './events/domain-events';
+import { pipelineService } from './pipeline.service';
+
+const BODY_PREVIEW_LENGTH = 500;
+const DESCRIPTION_LENGTH = 2000;
+const MIN_NAME_MATCH_LENGTH = 4;
+const MAX_SMTP_MESSAGE_SIZE = 25 * 1024 * 1024; // 25MB
+
+// Shared mailbox providers never identify a company, so they are not used for domain matching
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+  'yahoo.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com'
+]);
+
+// Mail clients often send attachments as application/octet-stream
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xls': 'application/vnd.ms-excel',
+  '.csv': 'text/csv',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png'
+};
+
+export interface IncomingEmail {
+  sender: string;
+  senderName?: string;
+  subject: string;
+  body?: string;
+  date?: Date;
+  messageId?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailIngestResult {
+  deal: Deal;
+  created: boolean;
+  matchedBy: 'name' | 'domain' | null;
+  documents: Array<{ id: number; fileName: string }>;
+  skippedAttachments: Array<{ fileName: string; reason: string }>;
+  timelineEventId: number;
+}
+
+/**
+ * Strip reply/forward prefixes: "Fwd: RE: Acme seed round" -> "Acme seed round"
+ */
+function cleanSubject(subject: string): string {
+  return subject.replace(/^\s*((re|fwd?|fw|aw|tr)\s*(\[\d+\])?\s*:\s*)+/i, '').trim();
+}
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function emailDomain(address: string | null | undefined): string | null {
+  const domain = address?.split('@')[1]?.trim().toLowerCase();
+  return domain || null;
+}
+
+/**
+ * Base ingest address from SMTP_INGEST_ADDRESS; users forward to `local+token@domain`
+ */
+function ingestMailbox(): { local: string; domain: string } | null {
+  const [local, domain] = (process.env.SMTP_INGEST_ADDRESS || '').trim().toLowerCase().split('@');
+  return local && domain ? { local, domain } : null;
+}
+
+// SMTP replies carry a response code; smtp-server reads it from the error
+function smtpError(message: string, responseCode: number): Error {
+  return Object.assign(new Error(message), { responseCode });
+}
+
+export class EmailIngestService {
+  private smtpServer: SMTPServer | null = null;
+
+  /**
+   * Ingest an email: match or create its deal, store attachments and add a timeline event
+   */
+  async ingestEmail(email: IncomingEmail, userId: number): Promise<EmailIngestResult> {
+    const dealName = cleanSubject(email.subject);
+    if (!dealName) {
+      throw new ValidationError('Email subject is required to name the deal', 'subject');
+    }
+    const sender = email.sender.trim().toLowerCase();
+
+    if (email.messageId && await this.isAlreadyIngested(email.messageId)) {
+      throw new ValidationError(`Email ${email.messageId} was already ingested`, 'messageId');
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    const match = await this.findMatchingDeal(dealName, sender);
+    const body = email.body?.trim() || '';
+
+    let deal: Deal;
+    if (match) {
+      deal = match.deal;
+    } else {
+      const pipeline = await pipelineService.getDefault();
+      deal = await db.transaction(async tx => {
+        const [created] = await tx
+          .insert(deals)
+          .values({
+            name: dealName,
+            description: body.slice(0, DESCRIPTION_LENGTH) || null,
+            contactEmail: sender,
+            stage: pipeline.stages[0].key,
+            tags: [],
+            createdBy: userId
+          })
+          .returning();
+
+        await tx.insert(dealAssignments).values({ dealId: created.id, userId });
+        await tx.insert(timelineEvents).values({
+          dealId: created.id,
+          eventType: 'deal_creation',
+          content: `${user?.fullName || 'User'} created this deal from an email from ${sender}`,
+          createdBy: userId,
+          metadata: {}
+        });
+
+        return created;
+      });
+    }
+
+    const { documents, skippedAttachments } = await this.storeAttachments(deal.id, email.attachments || [], dealName, userId);
+
+    const [event] = await db
+      .insert(timelineEvents)
+      .values({
+        dealId: deal.id,
+        eventType: 'email_received',
+        content: `Email from ${email.senderName ? `${email.senderName} <${sender}>` : sender}: ${email.subject.trim()}`,
+        createdBy: userId,
+        metadata: {
+          sender,
+          senderName: email.senderName,
+          subject: email.subject.trim(),
+          messageId: email.messageId,
+          receivedAt: (email.date || new Date()).toISOString(),
+          bodyPreview: body.slice(0, BODY_PREVIEW_LENGTH),
+          documentIds: documents.map(document => document.id)
+        }
+      })
+      .returning();
+
+    domainEvents.emit('timeline.created', { eventId: event.id, dealId: deal.id, eventType: event.eventType });
+    if (!match) {
+      domainEvents.emit('deal.created', { dealId: deal.id, actorId: userId });
+    }
+
+    return {
+      deal,
+      created: !match,
+      matchedBy: match?.matchedBy ?? null,
+      documents,
+      skippedAttachments,
+      timelineEventId: event.id
+    };
+  }
+
+  /**
+   * Ingest a raw RFC 5322 message (.eml upload or SMTP). When the message forwards another
+   * email, as an attachment or inline, the original email is what gets ingested.
+   */
+  async ingestRawEmail(raw: Buffer, userId: number): Promise<EmailIngestResult> {
+    const parsed = await parseEmail(raw);
+    return this.ingestEmail(this.toIncomingEmail(parsed), userId);
+  }
+
+  /**
+   * The user's personal SMTP ingest address, or null when SMTP ingest is not configured.
+   * The token is created on first use.
+   */
+  async getIngestAddress(userId: number): Promise<string | null> {
+    const mailbox = ingestMailbox();
+    if (!mailbox) return null;
+
+    await db
+      .insert(emailIngestTokens)
+      .values({ userId, token: crypto.randomBytes(16).toString('hex') })
+      .onConflictDoNothing({ target: emailIngestTokens.userId });
+
+    const [row] = await db.select().from(emailIngestTokens).where(eq(emailIngestTokens.userId, userId));
+    return `${mailbox.local}+${row.token}@${mailbox.domain}`;
+  }
+
+  /**
+   * Replace the user's ingest token; mail sent to the old address is rejected from then on
+   */
+  async rotateIngestAddress(userId: number): Promise<string | null> {
+    await db.delete(emailIngestTokens).where(eq(emailIngestTokens.userId, userId));
+    return this.getIngestAddress(userId);
+  }
+
+  /**
+   * Start the SMTP listener when SMTP_INGEST_PORT and SMTP_INGEST_ADDRESS are set. Mail is only
+   * accepted for personal ingest addresses and is credited to the user the address belongs to;
+   * the unauthenticated From header never decides who owns the deal.
+   */
+  async startSmtpServer(): Promise<void> {
+    const port = parseInt(process.env.SMTP_INGEST_PORT || '', 10);
+    if (isNaN(port) || this.smtpServer) return;
+    if (!ingestMailbox()) {
+      console.warn('📧 SMTP_INGEST_PORT is set without SMTP_INGEST_ADDRESS; SMTP ingest is disabled');
+      return;
+    }
+
+    const server = new SMTPServer({
+      name: process.env.SMTP_INGEST_HOSTNAME,
+      size: MAX_SMTP_MESSAGE_SIZE,
+      // Senders are identified by the ingest address they write to, not by SMTP AUTH
+      authOptional: true,
+      disabledCommands: ['AUTH'],
+      logger: false,
+      onRcptTo: (address, _session, callback) => {
+        this.resolveIngestRecipient(address.address)
+          .then(userId => callback(userId ? null : smtpError('No such ingest address', 550)))
+          .catch(error => callback(error));
+      },
+      onData: (stream, session, callback) => {
+        this.receiveSmtpMessage(stream, session)
+          .then(() => callback())
+          .catch(error => callback(error));
+      }
+    });
+    server.on('error', error => console.error('SMTP ingest error:', error));
+
+    const host = process.env.SMTP_INGEST_HOST || '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      server.server.once('error', reject);
+      server.listen(port, host, () => {
+        server.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.smtpServer = server;
+    console.log(`📧 SMTP ingest listening on port ${port}`);
+  }
+
+  async stopSmtpServer(): Promise<void> {
+    const server = this.smtpServer;
+    this.smtpServer = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async receiveSmtpMessage(stream: SMTPServerDataStream, session: SMTPServerSession): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    if (stream.sizeExceeded) {
+      throw smtpError('Message size exceeds limit', 552);
+    }
+
+    let userId: number | null = null;
+    for (const recipient of session.envelope.rcptTo) {
+      userId = await this.resolveIngestRecipient(recipient.address);
+      if (userId) break;
+    }
+    if (!userId) {
+      throw smtpError('No such ingest address', 550);
+    }
+
+    try {
+      const result = await this.ingestRawEmail(Buffer.concat(chunks), userId);
+      console.log(`📧 Ingested email into deal ${result.deal.id} (${result.created ? 'created' : `matched by ${result.matchedBy}`})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Message rejected';
+      throw smtpError(message.replace(/[\r\n]+/g, ' '), 554);
+    }
+  }
+
+  private toIncomingEmail(parsed: ParsedEmail): IncomingEmail {
+    const original = parsed.forwarded;
+    if (original?.from) {
+      return {
+        sender: original.from.address,
+        senderName: original.from.name,
+        subject: original.subject || parsed.subject,
+        body: original.text,
+        date: original.date,
+        messageId: parsed.messageId,
+        attachments: [...original.attachments, ...parsed.attachments]
+      };
+    }
+
+    const inline = extractInlineForward(parsed.text);
+    if (inline) {
+      return {
+        ...inline,
+        subject: inline.subject || parsed.subject,
+        date: parsed.date,
+        messageId: parsed.messageId,
+        attachments: parsed.attachments
+      };
+    }
+
+    if (!parsed.from) {
+      throw new ValidationError('Email has no sender', 'from');
+    }
+
+    return {
+      sender: parsed.from.address,
+      senderName: parsed.from.name,
+      subject: parsed.subject,
+      body: parsed.text,
+      date: parsed.date,
+      messageId: parsed.messageId,
+      attachments: parsed.attachments
+    };
+  }
+
+  /**
+   * The user a personal ingest address belongs to, or null for any other address
+   */
+  private async resolveIngestRecipient(address: string): Promise<number | null> {
+    const mailbox = ingestMailbox();
+    const match = address.trim().toLowerCase().match(/^([^@+]+)\+([a-f0-9]+)@(.+)$/);
+    if (!mailbox || !match || match[1] !== mailbox.local || match[3] !== mailbox.domain) {
+      return null;
+    }
+
+    const [row] = await db
+      .select({ userId: emailIngestTokens.userId })
+      .from(emailIngestTokens)
+      .where(eq(emailIngestTokens.token, match[2]));
+    return row?.userId ?? null;
+  }
+
+  private async isAlreadyIngested(messageId: string): Promise<boolean> {
+    const [existing] = await db
+      .select({ id: timelineEvents.id })
+      .from(timelineEvents)
+      .where(and(
+        eq(timelineEvents.eventType, 'email_received'),
+        sql`${timelineEvents.metadata}->>'messageId' = ${messageId}`
+      ))
+      .limit(1);
+    return !!existing;
+  }
+
+  /**
+   * Match by deal name first (exact, then the longest deal name contained in the subject),
+   * then by the sender's company domain against deal contact emails
+   */
+  private async findMatchingDeal(dealName: string, sender: string): Promise<{ deal: Deal; matchedBy: 'name' | 'domain' } | null> {
+    const allDeals = await db.select().from(deals);
+    const subject = normalizeName(dealName);
+
+    const exact = allDeals.find(deal => normalizeName(deal.name) === subject);
+    if (exact) return { deal: exact, matchedBy: 'name' };
+
+    const contained = allDeals
+      .filter(deal => {
+        const name = normalizeName(deal.name);
+        return name.length >= MIN_NAME_MATCH_LENGTH && ` ${subject} `.includes(` ${name} `);
+      })
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    if (contained) return { deal: contained, matchedBy: 'name' };
+
+    const domain = emailDomain(sender);
+    if (domain && !PUBLIC_EMAIL_DOMAINS.has(domain)) {
+      const byDomain = allDeals
+        .filter(deal => emailDomain(deal.contactEmail) === domain)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+      if (byDomain) return { deal: byDomain, matchedBy: 'domain' };
+    }
+
+    return null;
+  }
+
+  private async storeAttachments(dealId: number, attachments: EmailAttachment[], subject: string, userId: number) {
+    const documents: EmailIngestResult['documents'] = [];
+    const skippedAttachments: EmailIngestResult['skippedAttachments'] = [];
+
+    for (const attachment of attachments) {
+      const fileName = DOMPurify.sanitize(path.basename(attachment.fileName.replace(/\\/g, '/')));
+      const extension = path.extname(fileName).toLowerCase();
+      const fileType = attachment.contentType === 'application/octet-stream'
+        ? CONTENT_TYPES_BY_EXTENSION[extension] || attachment.contentType
+        : attachment.contentType;
+
+      const validation = await databaseDocumentStorage.validateFile(fileName, fileType, attachment.content.length);
+      if (!validation.valid) {
+        skippedAttachments.push({ fileName, reason: validation.reason || 'File not allowed' });
+        continue;
+      }
+
+      try {
+        const document = await databaseDocumentStorage.createDocument({
+          dealId,
+          fileName,
+          fileType,
+          fileSize: attachment.content.length,
+          fileBuffer: attachment.content,
+          uploadedBy: userId,
+          description: `Email attachment: ${subject}`,
+          documentType: 'other'
+        });
+        documents.push({ id: document.id, fileName: document.fileName });
+      } catch (error) {
+        skippedAttachments.push({ fileName, reason: error instanceof Error ? error.message : 'Failed to store attachment' });
+      }
+    }
+
+    return { documents, skippedAttachments };
+  }
+}
+
+// Export singleton instance
+export const emailIngestService = new EmailIngestService();
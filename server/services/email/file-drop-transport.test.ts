@@ -0,0 +1,99 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { simpleParser } from 'mailparser';
+import { FileDropTransport } from './file-drop-transport';
+import { buildMimeMessage } from './mail-transport';
+import { MailService } from '../mail.service';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-drop-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+async function readDropped(): Promise<string[]> {
+  const files = (await fs.readdir(directory)).sort();
+  return Promise.all(files.map(file => fs.readFile(path.join(directory, file), 'utf8')));
+}
+
+describe('FileDropTransport', () => {
+  it('writes one .eml file per message with the envelope recorded in front', async () => {
+    const transport = new FileDropTransport(path.join(directory, 'nested'));
+    const { raw, messageId } = buildMimeMessage({
+      from: 'Platform <no-reply@example.com>',
+      to: ['Ana <ana@example.com>'],
+      subject: 'Capital call due',
+      html: '<p>Due on Friday</p>'
+    });
+
+    const sent = await transport.send({ from: 'no-reply@example.com', to: ['ana@example.com', 'bo@example.com'] }, raw, messageId);
+
+    expect(sent).toEqual({ messageId, accepted: ['ana@example.com', 'bo@example.com'], rejected: [] });
+    const files = await fs.readdir(path.join(directory, 'nested'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+
+    const content = await fs.readFile(path.join(directory, 'nested', files[0]), 'utf8');
+    expect(content.startsWith('X-Envelope-From: <no-reply@example.com>\r\nX-Envelope-To: <ana@example.com>, <bo@example.com>\r\n')).toBe(true);
+    expect(content.endsWith(raw)).toBe(true);
+  });
+
+  it('keeps messages sent in the same millisecond apart', async () => {
+    const transport = new FileDropTransport(directory);
+    const messages = [1, 2, 3].map(index => buildMimeMessage({
+      from: 'no-reply@example.com',
+      to: ['ana@example.com'],
+      subject: `Message ${index}`,
+      html: `<p>${index}</p>`
+    }));
+
+    await Promise.all(messages.map(({ raw, messageId }) => transport.send({ from: 'no-reply@example.com', to: ['ana@example.com'] }, raw, messageId)));
+
+    expect(await fs.readdir(directory)).toHaveLength(3);
+  });
+});
+
+describe('MailService with a file-drop transport', () => {
+  it('sends a notification as a multipart message linking to the deal', async () => {
+    const service = new MailService();
+    service.setTransport(new FileDropTransport(directory));
+    process.env.APP_URL = 'https://deals.example.com/';
+
+    try {
+      const sent = await service.sendNotification({
+        to: 'Zoë Müller <zoe@example.com>',
+        subject: 'Acme moved to Diligence',
+        body: 'Acme & Co moved to <Diligence>',
+        dealId: 42
+      });
+      expect(sent?.accepted).toEqual(['zoe@example.com']);
+    } finally {
+      delete process.env.APP_URL;
+    }
+
+    const [content] = await readDropped();
+    const mail = await simpleParser(content);
+    expect(mail.subject).toBe('Acme moved to Diligence');
+    expect(mail.headers.get('x-envelope-to')).toBe('<zoe@example.com>');
+    expect(mail.to && !Array.isArray(mail.to) ? mail.to.value[0] : null).toEqual({ name: 'Zoë Müller', address: 'zoe@example.com' });
+    expect(mail.text).toBe('Acme & Co moved to <Diligence>\n\nhttps://deals.example.com/deals/42');
+    expect(mail.html).toContain('Acme &amp; Co moved to &lt;Diligence&gt;');
+    expect(mail.html).toContain('href="https://deals.example.com/deals/42"');
+  });
+
+  it('drops mail when the transport is disabled', async () => {
+    const service = new MailService();
+    service.setTransport(null);
+
+    const sent = await service.send({ to: ['ana@example.com'], subject: 'Hello', html: '<p>Hi</p>' });
+
+    expect(sent).toBeNull();
+    expect(await readDropped()).toEqual([]);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * File-Drop Transport
+ *
+ * Writes each outgoing message to `<directory>/<timestamp>-<id>.eml` instead of sending it.
+ * Used by tests and local development; the files open in any mail client.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { MailTransport, SentMail } from './mail-transport';
+
+export class FileDropTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(envelope: { from: string; to: string[] }, raw: string, messageId: string): Promise<SentMail> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const id = messageId.replace(/^<|@.*$/g, '');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${id}.eml`;
+    // Envelope recipients are not part of the message itself, so record them like an MTA would
+    const header = `X-Envelope-From: <${envelope.from}>\r\nX-Envelope-To: ${envelope.to.map(to => `<${to}>`).join(', ')}\r\n`;
+    await fs.writeFile(path.join(this.directory, fileName), header + raw, 'utf8');
+
+    return { messageId, accepted: [...envelope.to], rejected: [] };
+  }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractInlineForward, parseAddressList, parseEmail } from './inbound-email';
+
+const fixture = (name: string) => fs.readFile(path.join(__dirname, 'fixtures', name));
+
+describe('parseEmail', () => {
+  it('reads the headers, body and attachments of a plain email', async () => {
+    const email = await parseEmail(await fixture('plain.eml'));
+
+    expect(email.messageId).toBe('CA+pitch-001@mail.acme.com');
+    expect(email.from).toEqual({ address: 'jane.doe@acme.com', name: 'Doe, Jane' });
+    expect(email.to).toEqual([{ address: 'deals@fund.example' }, { address: 'bob@fund.example', name: 'Bob Lee' }]);
+    expect(email.subject).toBe('Acme seed round');
+    expect(email.date).toEqual(new Date('2024-03-05T09:30:00Z'));
+    expect(email.text).toBe('Hi team,\n\nWe are raising a $3M seed round. Deck attached.\n\nJane');
+    expect(email.forwarded).toBeUndefined();
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ fileName: 'Acme Deck.pdf', contentType: 'application/pdf' });
+    expect(email.attachments[0].content.toString()).toBe('%PDF-1.4 pitch deck');
+  });
+
+  it('parses an email forwarded as an attachment into forwarded, keeping the other attachments', async () => {
+    const email = await parseEmail(await fixture('forwarded-attachment.eml'));
+
+    expect(email.from).toEqual({ address: 'bob@fund.example', name: 'Bob Lee' });
+    expect(email.subject).toBe('Fwd: Acme seed round');
+    expect(email.text).toBe('Worth a look.');
+    expect(email.attachments.map(attachment => attachment.fileName)).toEqual(['notes.csv']);
+
+    const original = email.forwarded!;
+    expect(original.messageId).toBe('CA+pitch-001@mail.acme.com');
+    expect(original.from).toEqual({ address: 'jane.doe@acme.com', name: 'Doe, Jane' });
+    expect(original.subject).toBe('Acme seed round');
+    expect(original.attachments.map(attachment => attachment.fileName)).toEqual(['Acme Deck.pdf']);
+  });
+
+  it('falls back to the text of the HTML part when there is no plain text', async () => {
+    const { forwarded } = await parseEmail(await fixture('forwarded-attachment.eml'));
+
+    expect(forwarded!.html).toContain('<b>$3M</b>');
+    expect(forwarded!.text).toBe('Hi Bob,\n\nWe are raising a $3M seed round.');
+  });
+
+  it('leaves an inline forward in the body', async () => {
+    const email = await parseEmail(await fixture('inline-forward.eml'));
+
+    expect(email.from?.address).toBe('bob@fund.example');
+    expect(email.forwarded).toBeUndefined();
+    expect(email.text).toContain('---------- Forwarded message ---------');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('parses names, quoted commas and bare addresses, lowercasing the address', () => {
+    expect(parseAddressList('"Doe, Jane" <Jane@Acme.com>, bob@example.com')).toEqual([
+      { address: 'jane@acme.com', name: 'Doe, Jane' },
+      { address: 'bob@example.com' }
+    ]);
+  });
+
+  it('flattens groups and skips entries without an address', () => {
+    expect(parseAddressList('Partners: ann@fund.example, lee@fund.example;, Nobody <>')).toEqual([
+      { address: 'ann@fund.example' },
+      { address: 'lee@fund.example' }
+    ]);
+    expect(parseAddressList('')).toEqual([]);
+  });
+});
+
+describe('extractInlineForward', () => {
+  it('reads the original sender, subject and body from a forwarded message block', async () => {
+    const { text } = await parseEmail(await fixture('inline-forward.eml'));
+
+    expect(extractInlineForward(text)).toEqual({
+      sender: 'sam@globex.io',
+      senderName: 'Sam Ortiz',
+      subject: 'Globex Series A',
+      body: 'Hi Bob,\n\nGlobex is raising a $12M Series A.\n\nBest,\nSam'
+    });
+  });
+
+  it('reads Outlook original messages with bold header names', () => {
+    const text = [
+      'Forwarding this one.',
+      '',
+      '-----Original Message-----',
+      '*From:* Lee Park <lee@initech.com>',
+      '*Sent:* Monday, March 4, 2024 10:00 AM',
+      '*Subject:* Initech bridge note',
+      '',
+      'Details inside.'
+    ].join('\n');
+
+    expect(extractInlineForward(text)).toEqual({
+      sender: 'lee@initech.com',
+      senderName: 'Lee Park',
+      subject: 'Initech bridge note',
+      body: 'Details inside.'
+    });
+  });
+
+  it('returns null without a forward marker or a sender in the quoted headers', async () => {
+    const { text } = await parseEmail(await fixture('plain.eml'));
+
+    expect(extractInlineForward(text)).toBeNull();
+    expect(extractInlineForward('---------- Forwarded message ---------\nSubject: No sender\n\nBody')).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Inbound Email
+ *
+ * Parses raw RFC 5322 messages with mailparser into the fields email ingest works with,
+ * including the original email when a message forwards one as a message/rfc822 part or quotes
+ * one inline in its body.
+ */
+
+import { convert as htmlToText } from 'html-to-text';
+import { simpleParser, type AddressObject } from 'mailparser';
+import addressparser from 'nodemailer/lib/addressparser';
+
+export interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface EmailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  messageId?: string;
+  from?: EmailAddress;
+  to: EmailAddress[];
+  subject: string;
+  date?: Date;
+  text: string;
+  html?: string;
+  attachments: EmailAttachment[];
+  // First message/rfc822 part, i.e. the original email when a message is forwarded as an attachment
+  forwarded?: ParsedEmail;
+}
+
+// The original email of an inline forward, read from the quoted headers in the body
+export interface InlineForward {
+  sender: string;
+  senderName?: string;
+  subject: string;
+  body: string;
+}
+
+const FORWARDED_CONTENT_TYPE = 'message/rfc822';
+
+function toAddresses(field: AddressObject | AddressObject[] | undefined): EmailAddress[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects
+    .flatMap(object => object.value)
+    .filter(entry => !!entry.address)
+    .map(entry => ({ address: entry.address!.toLowerCase(), ...(entry.name ? { name: entry.name } : {}) }));
+}
+
+/**
+ * Parse a raw email
+ */
+export async function parseEmail(raw: Buffer | string): Promise<ParsedEmail> {
+  const mail = await simpleParser(raw);
+
+  const email: ParsedEmail = {
+    messageId: mail.messageId?.replace(/[<>]/g, '').trim() || undefined,
+    from: toAddresses(mail.from)[0],
+    to: toAddresses(mail.to),
+    subject: (mail.subject || '').trim(),
+    date: mail.date,
+    // mailparser leaves text empty for HTML-only parts inside a multipart
+    text: (mail.text || (mail.html ? htmlToText(mail.html, { wordwrap: false }) : '')).trim(),
+    html: mail.html || undefined,
+    attachments: []
+  };
+
+  for (const attachment of mail.attachments) {
+    if (attachment.contentType === FORWARDED_CONTENT_TYPE && !email.forwarded) {
+      email.forwarded = await parseEmail(attachment.content);
+      continue;
+    }
+
+    email.attachments.push({
+      fileName: attachment.filename
+        || (attachment.contentType === FORWARDED_CONTENT_TYPE ? 'forwarded.eml' : `attachment-${email.attachments.length + 1}`),
+      contentType: attachment.contentType,
+      content: attachment.content
+    });
+  }
+
+  return email;
+}
+
+/**
+ * Parse an address list such as `"Doe, Jane" <jane@acme.com>, bob@example.com`
+ */
+export function parseAddressList(value: string): EmailAddress[] {
+  return addressparser(value, { flatten: true })
+    .filter(entry => !!entry.address)
+    .map(entry => ({ address: entry.address.toLowerCase(), ...(entry.name ? { name: entry.name } : {}) }));
+}
+
+/**
+ * Detect an inline forward ("---------- Forwarded message ---------" / "-----Original Message-----")
+ * and pull out the original sender, subject and body
+ */
+export function extractInlineForward(text: string): InlineForward | null {
+  const marker = text.match(/^-{2,}\s*(Forwarded message|Original Message)\s*-{2,}\s*$/im);
+  if (!marker) return null;
+
+  const forwarded = text.slice(marker.index! + marker[0].length).replace(/^\s*\n/, '');
+  const [headerBlock, ...bodyBlocks] = forwarded.split(/\r?\n\s*\r?\n/);
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.split(/\r?\n/)) {
+    const match = line.match(/^\s*\*?(From|Subject|Date|To)\*?:\*?\s*(.*)$/i);
+    if (match) headers[match[1].toLowerCase()] = match[2].trim();
+  }
+
+  const from = parseAddressList(headers.from || '')[0];
+  if (!from) return null;
+
+  return {
+    sender: from.address,
+    senderName: from.name,
+    subject: headers.subject || '',
+    body: bodyBlocks.join('\n\n').trim()
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Mail Transport
+ *
+ * Outgoing mail is built once into an RFC 5322 message and handed to a transport.
+ * Transports only move bytes: SMTP relays to a mail server, file-drop writes `.eml`
+ * files for tests and local development.
+ */
+
+import crypto from 'crypto';
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  /** Plain-text alternative; derived from `html` when omitted */
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface SentMail {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(envelope: { from: string; to: string[] }, raw: string, messageId: string): Promise<SentMail>;
+  close?(): Promise<void>;
+}
+
+const LINE_LENGTH = 76;
+
+/** Bare address from `Name <address>` or `address` */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return extractAddress(mailbox);
+  const name = match[1].replace(/^"|"$/g, '');
+  const encoded = encodeHeader(name);
+  return `${encoded === name ? `"${name.replace(/["\\]/g, '\\$&')}"` : encoded} <${match[2]}>`;
+}
+
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol)>/gi, '\n\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(li|td|th)>/gi, '\n')
+    .replace(/<a [^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Build a multipart/alternative message (plain text + HTML) with CRLF line endings
+ */
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): { raw: string; messageId: string } {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+  const boundary = `=_alt_${crypto.randomBytes(12).toString('hex')}`;
+  const text = message.text ?? htmlToText(message.html);
+
+  const headers: Record<string, string> = {
+    From: encodeMailbox(message.from),
+    To: message.to.map(encodeMailbox).join(', '),
+    Subject: encodeHeader(message.subject),
+    Date: date.toUTCString().replace('GMT', '+0000'),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`
+  };
+
+  const lines = [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ];
+
+  return { raw: lines.join('\r\n'), messageId };
+}
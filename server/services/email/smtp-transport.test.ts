@@ -0,0 +1,134 @@
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { SMTPServer } from 'smtp-server';
+import { simpleParser } from 'mailparser';
+import { SmtpError, SmtpTransport } from './smtp-transport';
+import { buildMimeMessage } from './mail-transport';
+
+interface Received {
+  from: string;
+  to: string[];
+  user?: string;
+  raw: string;
+}
+
+let server: SMTPServer;
+let port: number;
+let received: Received[] = [];
+
+beforeAll(async () => {
+  server = new SMTPServer({
+    // Plain-text local server: no STARTTLS, AUTH allowed without TLS
+    disabledCommands: ['STARTTLS'],
+    allowInsecureAuth: true,
+    authOptional: true,
+    logger: false,
+    onAuth(auth, _session, callback) {
+      if (auth.username === 'relay' && auth.password === 'secret') {
+        return callback(null, { user: auth.username });
+      }
+      return callback(new Error('Invalid username or password'));
+    },
+    onRcptTo(address, _session, callback) {
+      if (address.address.endsWith('@blocked.example.com')) {
+        return callback(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }));
+      }
+      return callback();
+    },
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        received.push({
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+          to: session.envelope.rcptTo.map(rcpt => rcpt.address),
+          user: session.user as string | undefined,
+          raw: Buffer.concat(chunks).toString('utf8')
+        });
+        callback();
+      });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  port = (server.server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+const message = () => buildMimeMessage({
+  from: 'Platform <no-reply@example.com>',
+  to: ['ana@example.com'],
+  subject: 'Weekly digest',
+  html: '<p>Two stage changes.</p>'
+});
+
+describe('SmtpTransport', () => {
+  it('relays the raw message to the envelope recipients', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 5000 });
+    const { raw, messageId } = message();
+
+    const sent = await transport.send({ from: 'no-reply@example.com', to: ['ana@example.com', 'bo@example.com'] }, raw, messageId);
+    await transport.close();
+
+    expect(sent).toEqual({ messageId, accepted: ['ana@example.com', 'bo@example.com'], rejected: [] });
+    expect(received).toHaveLength(1);
+    expect(received[0].from).toBe('no-reply@example.com');
+    expect(received[0].to).toEqual(['ana@example.com', 'bo@example.com']);
+
+    const mail = await simpleParser(received[0].raw);
+    expect(mail.messageId).toBe(messageId);
+    expect(mail.subject).toBe('Weekly digest');
+    expect(mail.text).toBe('Two stage changes.');
+  });
+
+  it('authenticates when credentials are configured', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, auth: { user: 'relay', pass: 'secret' }, timeoutMs: 5000 });
+    const { raw, messageId } = message();
+
+    await transport.send({ from: 'no-reply@example.com', to: ['ana@example.com'] }, raw, messageId);
+    await transport.close();
+
+    expect(received[0].user).toBe('relay');
+  });
+
+  it('reports recipients the server rejects while delivering to the rest', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 5000 });
+    const { raw, messageId } = message();
+
+    const sent = await transport.send({ from: 'no-reply@example.com', to: ['ana@example.com', 'cy@blocked.example.com'] }, raw, messageId);
+    await transport.close();
+
+    expect(sent.accepted).toEqual(['ana@example.com']);
+    expect(sent.rejected).toEqual(['cy@blocked.example.com']);
+    expect(received[0].to).toEqual(['ana@example.com']);
+  });
+
+  it('throws an SmtpError with the server response when nothing can be delivered', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 5000 });
+    const { raw, messageId } = message();
+
+    const error = await transport.send({ from: 'no-reply@example.com', to: ['cy@blocked.example.com'] }, raw, messageId).catch(err => err);
+    await transport.close();
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toContain(`127.0.0.1:${port}`);
+    expect(error.context).toMatchObject({ responseCode: 550 });
+    expect(received).toHaveLength(0);
+  });
+
+  it('fails on bad credentials', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, auth: { user: 'relay', pass: 'wrong' }, timeoutMs: 5000 });
+    const { raw, messageId } = message();
+
+    await expect(transport.send({ from: 'no-reply@example.com', to: ['ana@example.com'] }, raw, messageId)).rejects.toBeInstanceOf(SmtpError);
+    await transport.close();
+    expect(received).toHaveLength(0);
+  });
+});
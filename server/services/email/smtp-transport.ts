@@ -0,0 +1,83 @@
+/**
+ * SMTP Transport
+ *
+ * Relays outgoing messages through an SMTP server with nodemailer, which handles the protocol:
+ * STARTTLS, AUTH, dot-stuffing and multi-line replies. Messages arrive already built, so only the
+ * raw bytes and the envelope are handed over. Connections are not pooled; one per message is
+ * plenty for notification and digest volumes and leaves nothing to reconnect after a relay restart.
+ */
+
+import os from 'os';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+import { ApplicationError } from '../type-definitions';
+import type { MailTransport, SentMail } from './mail-transport';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465); otherwise STARTTLS is used when offered */
+  secure?: boolean;
+  /** Fail instead of sending in clear text when the server does not offer STARTTLS */
+  requireTls?: boolean;
+  rejectUnauthorized?: boolean;
+  auth?: { user: string; pass: string };
+  /** Name sent in EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export class SmtpError extends ApplicationError {
+  constructor(message: string, context?: { responseCode?: number; response?: string }) {
+    super(message, 'SMTP_ERROR', 502, context);
+    this.name = 'SmtpError';
+  }
+}
+
+const toAddress = (recipient: string | { address: string }) =>
+  typeof recipient === 'string' ? recipient : recipient.address;
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(private readonly options: SmtpTransportOptions) {
+    const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: !!options.secure,
+      requireTLS: !!options.requireTls,
+      auth: options.auth,
+      name: options.clientName || os.hostname() || 'localhost',
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+      tls: { rejectUnauthorized: options.rejectUnauthorized !== false }
+    });
+  }
+
+  async send(envelope: { from: string; to: string[] }, raw: string, messageId: string): Promise<SentMail> {
+    try {
+      const info = await this.transporter.sendMail({ envelope, raw });
+      return {
+        messageId,
+        accepted: info.accepted.map(toAddress),
+        rejected: info.rejected.map(toAddress)
+      };
+    } catch (error) {
+      const failure = error as Error & { responseCode?: number; response?: string };
+      throw new SmtpError(
+        `SMTP delivery through ${this.options.host}:${this.options.port} failed: ${failure.message}`,
+        failure.responseCode ? { responseCode: failure.responseCode, response: failure.response } : undefined
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    this.transporter.close();
+  }
+}
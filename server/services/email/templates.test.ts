@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, renderDigestEmail } from './templates';
+import type { DigestSummary } from '../digest.service';
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const emptyDigest = (): DigestSummary => ({
+  user: { id: 7, fullName: 'Ana Silva', email: 'ana@example.com' },
+  frequency: 'weekly',
+  periodStart: date('2024-03-04'),
+  periodEnd: date('2024-03-11'),
+  dealCount: 1,
+  stageChanges: [],
+  documents: [],
+  overdueCapitalCalls: [],
+  openConcerns: [],
+  notifications: []
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup and both quote styles', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+});
+
+describe('renderDigestEmail', () => {
+  it('summarizes the counts and links each item to its deal', () => {
+    const html = renderDigestEmail({
+      ...emptyDigest(),
+      dealCount: 2,
+      stageChanges: [
+        { dealId: 3, dealName: 'Acme', description: 'Moved from Sourcing to Diligence', changedAt: date('2024-03-05') }
+      ],
+      documents: [
+        { dealId: 4, dealName: 'Globex', fileName: 'model.xlsx', documentType: 'financial_model', uploadedAt: date('2024-03-06') }
+      ],
+      overdueCapitalCalls: [
+        { capitalCallId: 9, dealId: 4, dealName: 'Globex', outstandingAmount: 250000, dueDate: date('2024-03-01'), daysOverdue: 1 }
+      ]
+    }, 'https://deals.example.com');
+
+    expect(html).toContain('<title>Your weekly deal digest</title>');
+    expect(html).toContain('Hi Ana Silva,');
+    expect(html).toContain('your 2 deals since Mar 4, 2024');
+    expect(html).toContain('1 stage change · 1 new document · 1 overdue capital call · 0 open concerns');
+    expect(html).toContain('href="https://deals.example.com/deals/3"');
+    expect(html).toContain('Moved from Sourcing to Diligence · Mar 5, 2024');
+    expect(html).toContain('model.xlsx');
+    expect(html).toContain('(1 day overdue)');
+    expect(html).toContain('Sent every Monday morning.');
+  });
+
+  it('leaves out sections with nothing in them', () => {
+    const html = renderDigestEmail(emptyDigest(), 'https://deals.example.com');
+
+    expect(html).toContain('0 stage changes · 0 new documents · 0 overdue capital calls · 0 open concerns');
+    expect(html).not.toContain('Pipeline movement');
+    expect(html).not.toContain('Overdue capital calls');
+    expect(html).not.toContain('Other updates');
+  });
+
+  it('escapes deal names, concern titles and notification text', () => {
+    const html = renderDigestEmail({
+      ...emptyDigest(),
+      frequency: 'daily',
+      openConcerns: [
+        { dealId: 5, dealName: 'Initech <Holdings>', title: 'Churn > 5%', severity: 'high', category: 'market', createdAt: date('2024-03-10') }
+      ],
+      notifications: [
+        { title: 'Memo "Q1"', message: 'R&D review', type: 'memo', relatedId: 5, createdAt: date('2024-03-10') }
+      ]
+    }, 'https://deals.example.com');
+
+    expect(html).toContain('<title>Your daily deal digest</title>');
+    expect(html).toContain('Initech &lt;Holdings&gt;</a>');
+    expect(html).toContain('Churn &gt; 5%');
+    expect(html).toContain('<strong>Memo &quot;Q1&quot;</strong>');
+    expect(html).toContain('R&amp;D review');
+    expect(html).not.toContain('<Holdings>');
+    expect(html).toContain('Covers the last day.');
+  });
+});
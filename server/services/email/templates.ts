@@ -0,0 +1,134 @@
+/**
+ * Email Templates
+ *
+ * HTML for outgoing mail. Styles are inline and the layout is a single table, since
+ * most mail clients ignore <style> blocks and flexbox. Every interpolated value goes
+ * through escapeHtml.
+ */
+
+import type { DigestSummary } from '../digest.service';
+import { formatCurrency } from '../../utils/format';
+
+const BRAND_COLOR = '#0E4DA4';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+function dealLink(appUrl: string, dealId: number, label: string): string {
+  return `<a href="${escapeHtml(`${appUrl}/deals/${dealId}`)}" style="color:${BRAND_COLOR};text-decoration:none;font-weight:600;">${escapeHtml(label)}</a>`;
+}
+
+export function renderLayout(options: { title: string; preheader?: string; body: string; footer?: string }): string {
+  const footer = options.footer ?? 'You are receiving this email because of your notification settings.';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f5f7;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#1f2937;">
+<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(options.preheader || '')}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f5f7;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:${BRAND_COLOR};padding:16px 24px;color:#ffffff;font-size:18px;font-weight:600;">${escapeHtml(options.title)}</td></tr>
+<tr><td style="padding:24px;font-size:14px;line-height:1.5;">${options.body}</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">${escapeHtml(footer)}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+/**
+ * A single notification, as sent by the `email-notification` job
+ */
+export function renderNotificationEmail(options: { title: string; message: string; url?: string }): string {
+  const button = options.url
+    ? `<p style="margin:24px 0 0;"><a href="${escapeHtml(options.url)}" style="display:inline-block;background:${BRAND_COLOR};color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:600;">View in platform</a></p>`
+    : '';
+
+  return renderLayout({
+    title: options.title,
+    preheader: options.message,
+    body: `<p style="margin:0;">${escapeHtml(options.message)}</p>${button}`
+  });
+}
+
+function section(title: string, count: number, rows: string[]): string {
+  if (rows.length === 0) return '';
+  return `<h2 style="margin:24px 0 8px;font-size:15px;color:#111827;">${escapeHtml(title)} <span style="color:#6b7280;font-weight:400;">(${count})</span></h2>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">${rows.join('')}</table>`;
+}
+
+function row(primary: string, secondary: string): string {
+  return `<tr><td style="padding:8px 0;border-bottom:1px solid #f0f1f3;">${primary}<div style="color:#6b7280;font-size:13px;">${secondary}</div></td></tr>`;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: '#b91c1c',
+  high: '#dc2626',
+  medium: '#d97706',
+  low: '#6b7280'
+};
+
+/**
+ * The daily or weekly digest for one user
+ */
+export function renderDigestEmail(digest: DigestSummary, appUrl: string): string {
+  const period = digest.frequency === 'weekly' ? 'week' : 'day';
+  const counts = [
+    `${digest.stageChanges.length} stage change${digest.stageChanges.length === 1 ? '' : 's'}`,
+    `${digest.documents.length} new document${digest.documents.length === 1 ? '' : 's'}`,
+    `${digest.overdueCapitalCalls.length} overdue capital call${digest.overdueCapitalCalls.length === 1 ? '' : 's'}`,
+    `${digest.openConcerns.length} open concern${digest.openConcerns.length === 1 ? '' : 's'}`
+  ].join(' · ');
+
+  const intro = `<p style="margin:0 0 4px;">Hi ${escapeHtml(digest.user.fullName)},</p>
+<p style="margin:0;color:#4b5563;">Here is what happened on your ${digest.dealCount} deal${digest.dealCount === 1 ? '' : 's'} since ${escapeHtml(formatDate(digest.periodStart))}.</p>
+<p style="margin:12px 0 0;font-weight:600;">${escapeHtml(counts)}</p>`;
+
+  const body = [
+    intro,
+    section('Pipeline movement', digest.stageChanges.length, digest.stageChanges.map(change =>
+      row(dealLink(appUrl, change.dealId, change.dealName), `${escapeHtml(change.description)} · ${escapeHtml(formatDate(change.changedAt))}`)
+    )),
+    section('New documents', digest.documents.length, digest.documents.map(document =>
+      row(dealLink(appUrl, document.dealId, document.dealName), `${escapeHtml(document.fileName)} · ${escapeHtml(formatDate(document.uploadedAt))}`)
+    )),
+    section('Overdue capital calls', digest.overdueCapitalCalls.length, digest.overdueCapitalCalls.map(call =>
+      row(
+        dealLink(appUrl, call.dealId, call.dealName),
+        `<span style="color:#b91c1c;">${escapeHtml(formatCurrency(call.outstandingAmount))} outstanding</span> · due ${escapeHtml(formatDate(call.dueDate))} (${call.daysOverdue} day${call.daysOverdue === 1 ? '' : 's'} overdue)`
+      )
+    )),
+    section("Open devil's advocate concerns", digest.openConcerns.length, digest.openConcerns.map(concern =>
+      row(
+        dealLink(appUrl, concern.dealId, concern.dealName),
+        `<span style="color:${SEVERITY_COLORS[concern.severity] || '#6b7280'};text-transform:uppercase;font-size:11px;font-weight:600;">${escapeHtml(concern.severity)}</span> ${escapeHtml(concern.title)}`
+      )
+    )),
+    section('Other updates', digest.notifications.length, digest.notifications.map(notification =>
+      row(`<strong>${escapeHtml(notification.title)}</strong>`, escapeHtml(notification.message))
+    ))
+  ].join('\n');
+
+  return renderLayout({
+    title: `Your ${digest.frequency} deal digest`,
+    preheader: counts,
+    body,
+    footer: `Sent ${digest.frequency === 'weekly' ? 'every Monday morning' : 'every morning'}. Change the frequency under Settings → Notifications. Covers the last ${period}.`
+  });
+}
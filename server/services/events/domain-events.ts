@@ -0,0 +1,142 @@
+/**
+ * Domain Events
+ *
+ * In-process event bus for things that happened to deals, memos, allocations,
+ * capital calls, distributions and closings, plus new timeline entries and notifications. Emitters fire and
+ * forget; listeners (the notification engine, the realtime stream) must not throw
+ * back into the request that triggered the event.
+ */
+
+import { EventEmitter } from 'events';
+import type { Notification, PipelineStage } from '@shared/schema';
+
+export interface DomainEventMap {
+  'deal.created': {
+    dealId: number;
+    actorId: number;
+  };
+  'deal.stage_changed': {
+    dealId: number;
+    fromStage: string;
+    toStage: string;
+    /** Category of the stage the deal moved into, so listeners need not know each pipeline's keys */
+    toCategory: PipelineStage['category'];
+    actorId: number;
+  };
+  'deal.assigned': {
+    dealId: number;
+    assigneeId: number;
+    actorId: number;
+  };
+  'memo.created': {
+    dealId: number;
+    memoId: number;
+    actorId: number;
+  };
+  'capital_call.created': {
+    capitalCallId: number;
+    dealId: number;
+    amount: number;
+    dueDate: Date | null;
+    actorId: number;
+  };
+  'capital_call.due': {
+    capitalCallId: number;
+    dealId: number;
+    outstandingAmount: number;
+    dueDate: Date;
+    /** Negative once the call is past due */
+    daysUntilDue: number;
+    /** Reminder threshold (days before due) this event was raised for, or 'overdue' */
+    reminder: number | 'overdue';
+  };
+  'capital_call.status_changed': {
+    capitalCallId: number;
+    allocationId: number;
+    status: string;
+  };
+  'capital_call.payment_recorded': {
+    capitalCallId: number;
+    paymentId: number;
+    amount: number;
+  };
+  'allocation.created': {
+    allocationId: number;
+    fundId: number;
+    dealId: number;
+  };
+  'allocation.updated': {
+    allocationId: number;
+    fundId: number;
+    dealId: number;
+    /** Fields that were set by the update */
+    changes: string[];
+  };
+  'distribution.created': {
+    distributionId: number;
+    allocationId: number;
+  };
+  'closing.scheduled': {
+    closingEventId: number;
+    dealId: number;
+    eventName: string;
+    scheduledDate: Date;
+    actorId: number;
+  };
+  'closing.rescheduled': {
+    closingEventId: number;
+    dealId: number;
+    eventName: string;
+    scheduledDate: Date;
+    actorId: number;
+  };
+  'closing.status_changed': {
+    closingEventId: number;
+    dealId: number;
+    eventName: string;
+    status: string;
+    actorId: number;
+  };
+  'timeline.created': {
+    eventId: number;
+    dealId: number;
+    eventType: string;
+  };
+  'notification.created': {
+    notification: Notification;
+  };
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+export type DomainEventHandler<K extends DomainEventName> = (payload: DomainEventMap[K]) => void | Promise<void>;
+
+export class DomainEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per rule plus ad-hoc subscribers (realtime stream, webhooks)
+    this.emitter.setMaxListeners(50);
+  }
+
+  /**
+   * Publish an event. Listeners run asynchronously and their failures are
+   * logged, so callers never need to await or catch.
+   */
+  emit<K extends DomainEventName>(name: K, payload: DomainEventMap[K]): void {
+    this.emitter.emit(name, payload);
+  }
+
+  on<K extends DomainEventName>(name: K, handler: DomainEventHandler<K>): () => void {
+    const listener = (payload: DomainEventMap[K]) => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch(error => console.error(`Domain event handler for ${name} failed:`, error));
+    };
+    this.emitter.on(name, listener);
+    return () => this.emitter.off(name, listener);
+  }
+}
+
+// Export singleton instance
+export const domainEvents = new DomainEventBus();
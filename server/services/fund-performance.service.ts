@@ -0,0 +1,170 @@
+/**
+ * Fund Performance Service
+ *
+ * LP performance multiples as of any date and Kaplan-Schoar PME against
+ * benchmark index series imported from CSV.
+ */
+
+import { db } from '../db';
+import {
+  benchmarkIndexValues,
+  benchmarkIndices,
+  type BenchmarkIndex,
+  type BenchmarkIndexValue
+} from '@shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { addDays, addQuarters, startOfQuarter } from 'date-fns';
+import { valuationService } from './valuation.service';
+import {
+  calculateKsPme,
+  calculateMultiples,
+  type FundMultiples,
+  type IndexPoint
+} from './calculators/fund-performance.calculator';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+export interface PerformancePoint extends FundMultiples {
+  date: Date;
+  pme: number | null;
+}
+
+export interface FundPerformance extends PerformancePoint {
+  fundId: number;
+  benchmark: { id: number; name: string } | null;
+  history: PerformancePoint[]; // Quarter ends from the first cash flow through asOfDate
+}
+
+const DATE_HEADER = /date/i;
+const VALUE_HEADER = /value|close|level|index|price/i;
+
+/**
+ * Parse a CSV cell as a calendar date, returning YYYY-MM-DD
+ */
+function parseCsvDate(raw: unknown): string | null {
+  const date = new Date(String(raw ?? '').trim());
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+export class FundPerformanceService {
+  /**
+   * List imported benchmark indices
+   */
+  async getBenchmarks(): Promise<BenchmarkIndex[]> {
+    return db.select().from(benchmarkIndices).orderBy(asc(benchmarkIndices.name));
+  }
+
+  /**
+   * Get a benchmark's index series, oldest first
+   */
+  async getBenchmarkValues(indexId: number): Promise<BenchmarkIndexValue[]> {
+    return db
+      .select()
+      .from(benchmarkIndexValues)
+      .where(eq(benchmarkIndexValues.indexId, indexId))
+      .orderBy(asc(benchmarkIndexValues.valueDate));
+  }
+
+  /**
+   * Import a benchmark series from parsed CSV rows with a date column and a level column.
+   * Re-importing an existing benchmark name replaces its series.
+   */
+  async importBenchmark(
+    name: string,
+    rows: Record<string, unknown>[],
+    userId: number,
+    description?: string
+  ): Promise<BenchmarkIndex & { valueCount: number }> {
+    if (rows.length === 0) {
+      throw new ValidationError('Benchmark CSV has no rows', 'file');
+    }
+
+    const headers = Object.keys(rows[0]);
+    const dateColumn = headers.find(header => DATE_HEADER.test(header));
+    const valueColumn = headers.find(header => header !== dateColumn && VALUE_HEADER.test(header))
+      ?? headers.find(header => header !== dateColumn);
+    if (!dateColumn || !valueColumn) {
+      throw new ValidationError('Benchmark CSV needs a date column and an index level column', 'file');
+    }
+
+    const values = rows.map((row, index) => {
+      const valueDate = parseCsvDate(row[dateColumn]);
+      const value = Number(String(row[valueColumn] ?? '').replace(/,/g, ''));
+      if (!valueDate || !isFinite(value) || value <= 0) {
+        throw new ValidationError(`Invalid date or index level on row ${index + 2}`, 'file', { row: index + 2 });
+      }
+      return { valueDate, value };
+    });
+
+    return db.transaction(async tx => {
+      const [index] = await tx
+        .insert(benchmarkIndices)
+        .values({ name, description, createdBy: userId })
+        .onConflictDoUpdate({
+          target: benchmarkIndices.name,
+          set: { description, updatedAt: new Date() }
+        })
+        .returning();
+
+      await tx.delete(benchmarkIndexValues).where(eq(benchmarkIndexValues.indexId, index.id));
+      await tx.insert(benchmarkIndexValues).values(values.map(value => ({ ...value, indexId: index.id })));
+
+      return { ...index, valueCount: values.length };
+    });
+  }
+
+  /**
+   * Delete a benchmark and its series
+   */
+  async deleteBenchmark(indexId: number): Promise<void> {
+    const [deleted] = await db.delete(benchmarkIndices).where(eq(benchmarkIndices.id, indexId)).returning();
+    if (!deleted) throw new NotFoundError('Benchmark index', indexId);
+  }
+
+  /**
+   * TVPI, DPI, RVPI and optionally KS-PME for a fund as of a date, with quarterly history
+   */
+  async getFundPerformance(fundId: number, asOfDate: Date = new Date(), benchmarkId?: number): Promise<FundPerformance> {
+    let benchmark: FundPerformance['benchmark'] = null;
+    let points: IndexPoint[] = [];
+
+    if (benchmarkId) {
+      const [index] = await db.select().from(benchmarkIndices).where(eq(benchmarkIndices.id, benchmarkId));
+      if (!index) throw new NotFoundError('Benchmark index', benchmarkId);
+
+      benchmark = { id: index.id, name: index.name };
+      points = (await this.getBenchmarkValues(benchmarkId)).map(row => ({
+        date: new Date(row.valueDate),
+        value: row.value
+      }));
+    }
+
+    const valuation = await valuationService.loadFundValuation(fundId, asOfDate);
+    if (!valuation) {
+      const empty = calculateMultiples([], 0, asOfDate);
+      return { fundId, benchmark, date: asOfDate, ...empty, pme: null, history: [] };
+    }
+
+    const pointAt = (date: Date): PerformancePoint => {
+      const nav = valuation.navAt(date);
+      return {
+        date,
+        ...calculateMultiples(valuation.flows, nav, date),
+        pme: benchmark ? calculateKsPme(valuation.flows, nav, date, points) : null
+      };
+    };
+
+    const history: PerformancePoint[] = [];
+    let quarterEnd = addDays(addQuarters(startOfQuarter(valuation.startDate), 1), -1);
+    while (quarterEnd < asOfDate) {
+      history.push(pointAt(quarterEnd));
+      quarterEnd = addDays(addQuarters(startOfQuarter(quarterEnd), 2), -1);
+    }
+    const current = pointAt(asOfDate);
+    history.push(current);
+
+    return { fundId, benchmark, ...current, history };
+  }
+}
+
+// Export singleton instance
+export const fundPerformanceService = new FundPerformanceService();
@@ -0,0 +1,80 @@
+/**
+ * IC Vote Service
+ *
+ * Investment committee votes on a deal. Each member has one vote, which they can change until the
+ * deal leaves IC; "ic_vote_passed" stage gates read the tally from here.
+ */
+
+import { db } from '../db';
+import { dealIcVotes, deals, users, type DealIcVote } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { NotFoundError } from './type-definitions';
+import { icVotePassed, type IcVoteTally } from './pipelines/stage-gates';
+
+export type { IcVoteTally };
+
+export type IcVoteChoice = DealIcVote['vote'];
+
+export interface IcVoteView extends DealIcVote {
+  userName: string | null;
+}
+
+export class IcVoteService {
+  async list(dealId: number): Promise<IcVoteView[]> {
+    const rows = await db
+      .select({ vote: dealIcVotes, userName: users.fullName })
+      .from(dealIcVotes)
+      .leftJoin(users, eq(dealIcVotes.userId, users.id))
+      .where(eq(dealIcVotes.dealId, dealId))
+      .orderBy(dealIcVotes.createdAt);
+
+    return rows.map(row => ({ ...row.vote, userName: row.userName }));
+  }
+
+  /**
+   * Record the user's vote, replacing any earlier one
+   */
+  async cast(dealId: number, userId: number, vote: IcVoteChoice, comment?: string | null): Promise<DealIcVote> {
+    const [deal] = await db.select({ id: deals.id }).from(deals).where(eq(deals.id, dealId));
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    const [row] = await db.insert(dealIcVotes)
+      .values({ dealId, userId, vote, comment: comment ?? null })
+      .onConflictDoUpdate({
+        target: [dealIcVotes.dealId, dealIcVotes.userId],
+        set: { vote, comment: comment ?? null, updatedAt: new Date() }
+      })
+      .returning();
+    return row;
+  }
+
+  async withdraw(dealId: number, userId: number): Promise<void> {
+    const deleted = await db.delete(dealIcVotes)
+      .where(and(eq(dealIcVotes.dealId, dealId), eq(dealIcVotes.userId, userId)))
+      .returning({ id: dealIcVotes.id });
+    if (deleted.length === 0) {
+      throw new NotFoundError('IC vote for deal', dealId);
+    }
+  }
+
+  async tally(dealId: number | null): Promise<IcVoteTally> {
+    const tally: IcVoteTally = { approve: 0, reject: 0, abstain: 0 };
+    if (dealId === null) return tally;
+
+    const rows = await db.select({ vote: dealIcVotes.vote }).from(dealIcVotes).where(eq(dealIcVotes.dealId, dealId));
+    rows.forEach(row => { tally[row.vote]++; });
+    return tally;
+  }
+
+  /**
+   * A vote passes with more approvals than rejections and at least minVotes non-abstaining votes
+   */
+  hasPassed(tally: IcVoteTally, minVotes = 1): boolean {
+    return icVotePassed(tally, minVotes);
+  }
+}
+
+// Export singleton instance
+export const icVoteService = new IcVoteService();
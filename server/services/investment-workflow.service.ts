@@ -14,6 +14,9 @@ import { FundMetricsService } from './fund-metrics.service.js';
 import { ValidationService } from './validation.service.js';
 import { AuditService } from './audit.service.js';
 import { LoggingService } from './LoggingService.js';
+import { pipelineService } from './pipeline.service.js';
+import { domainEvents } from './events/domain-events.js';
+import type { Deal, PipelineStage } from '@shared/schema';
 import { z } from 'zod';
 
 // Investment workflow schemas
@@ -97,6 +100,10 @@ export class InvestmentWorkflowService {
 
       auditTrail.push(...constraintsCheck.auditTrail);
 
+      // Resolve the deal's invested stage and check its gates before anything is written
+      const deal = await this.storage.getDeal(request.dealId);
+      const investedStage = deal ? await this.resolveInvestedStage(deal) : null;
+
       // 3. Create allocation using specialized service
       const allocationResult = await AllocationCreationService.createAllocation({
         dealId: request.dealId,
@@ -119,9 +126,13 @@ export class InvestmentWorkflowService {
       context.allocationId = allocation.id;
       auditTrail.push(`Allocation created with ID ${allocation.id}`);
 
-      // 4. Update deal stage to "invested"
-      await this.updateDealStageToInvested(request.dealId, request.userId);
-      auditTrail.push(`Deal ${request.dealId} stage updated to "invested"`);
+      // 4. Move the deal to its pipeline's invested stage
+      if (deal && investedStage) {
+        await this.updateDealStageToInvested(deal, investedStage, request.userId);
+        auditTrail.push(`Deal ${request.dealId} stage updated to "${investedStage.key}"`);
+      } else {
+        auditTrail.push(`Deal ${request.dealId} stage left unchanged: its pipeline has no invested stage`);
+      }
 
       // 5. Recalculate fund metrics
       await FundMetricsService.recalculateAllMetrics(request.fundId);
@@ -424,26 +435,46 @@ export class InvestmentWorkflowService {
   }
 
   /**
-   * Update deal stage to invested
+   * The invested-category stage of the deal's pipeline, or null when the pipeline has none.
+   * Throws a ValidationError when the stage's gates do not pass.
    */
-  private static async updateDealStageToInvested(dealId: number, userId: number): Promise<void> {
-    await this.storage.updateDeal(dealId, {
-      stage: 'invested',
-      updatedAt: new Date()
-    });
+  private static async resolveInvestedStage(deal: Deal): Promise<PipelineStage | null> {
+    const pipeline = await pipelineService.getForDeal(deal);
+    const investedStage = pipeline.stages.find(stage => stage.category === 'invested');
+    if (!investedStage) return null;
+
+    const { stage } = await pipelineService.validateStageChange(deal, { stage: investedStage.key });
+    return stage;
+  }
+
+  /**
+   * Move the deal to its pipeline's invested stage
+   */
+  private static async updateDealStageToInvested(deal: Deal, stage: PipelineStage, userId: number): Promise<void> {
+    if (deal.stage === stage.key) return;
+
+    await this.storage.updateDeal(deal.id, { stage: stage.key });
 
     // Create timeline event
     await this.storage.createTimelineEvent({
-      dealId,
+      dealId: deal.id,
       eventType: 'stage_change',
-      content: 'Deal moved to Invested stage after allocation creation',
+      content: `Deal moved to ${stage.label} stage after allocation creation`,
       createdBy: userId,
-      createdAt: new Date(),
-      metadata: { 
-        newStage: 'invested', 
+      metadata: {
+        previousStage: [deal.stage],
+        newStage: [stage.key],
         reason: 'allocation_created',
-        automated: true 
-      }
+        automated: true
+      } as Record<string, any>
+    });
+
+    domainEvents.emit('deal.stage_changed', {
+      dealId: deal.id,
+      fromStage: deal.stage,
+      toStage: stage.key,
+      toCategory: stage.category,
+      actorId: userId
     });
   }
 
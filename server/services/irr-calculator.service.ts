@@ -0,0 +1,284 @@
+/**
+ * IRR calculation service
+ * Builds dated cash-flow series for allocations and funds and solves XIRR over them
+ */
+
+import { db } from '../db';
+import {
+  fundAllocations,
+  capitalCalls,
+  capitalCallPayments,
+  payments,
+  distributions,
+  valuationMarks
+} from '@shared/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { addDays } from 'date-fns';
+import { FUND_CONFIG } from '../config/fund-config';
+import { FINANCIAL_CALCULATION } from '../constants/calculation-constants';
+import { DatabaseError } from './type-definitions';
+import { solveXirr } from './calculators/xirr.calculator';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface CashFlow {
+  date: Date;
+  amount: number; // Negative for contributions, positive for distributions and terminal value
+  type: 'contribution' | 'distribution' | 'terminal_value';
+  allocationId: number;
+}
+
+export interface IrrResult {
+  irr: number | null; // Annualized IRR as a percentage, null when it cannot be computed
+  cashFlows: CashFlow[];
+  asOfDate: Date;
+  reason?: string;
+}
+
+export class IrrCalculatorService {
+  /**
+   * Load dated cash flows for a set of allocations in six queries (allocations, calls, call payments,
+   * legacy payments, distributions, valuation marks), however many allocations are asked for.
+   * Contributions come from capital_call_payments, falling back to the payments table and
+   * finally to the call's paid amount when a call has no payment rows.
+   */
+  async loadCashFlows(allocationIds: number[], asOfDate: Date = new Date()): Promise<Map<number, CashFlow[]>> {
+    const flowsByAllocation = new Map<number, CashFlow[]>();
+    if (allocationIds.length === 0) return flowsByAllocation;
+
+    for (const id of allocationIds) {
+      flowsByAllocation.set(id, []);
+    }
+
+    const allocations = await db
+      .select({ id: fundAllocations.id, marketValue: fundAllocations.marketValue })
+      .from(fundAllocations)
+      .where(inArray(fundAllocations.id, allocationIds));
+
+    const calls = await db
+      .select()
+      .from(capitalCalls)
+      .where(inArray(capitalCalls.allocationId, allocationIds));
+
+    const callIds = calls.map(call => call.id);
+    const callPayments = callIds.length
+      ? await db.select().from(capitalCallPayments).where(inArray(capitalCallPayments.capitalCallId, callIds))
+      : [];
+    const legacyPayments = callIds.length
+      ? await db.select().from(payments).where(inArray(payments.capitalCallId, callIds))
+      : [];
+
+    const allocationDistributions = await db
+      .select()
+      .from(distributions)
+      .where(inArray(distributions.allocationId, allocationIds));
+
+    const marks = await db
+      .select({ allocationId: valuationMarks.allocationId, markDate: valuationMarks.markDate, value: valuationMarks.value })
+      .from(valuationMarks)
+      .where(inArray(valuationMarks.allocationId, allocationIds))
+      .orderBy(asc(valuationMarks.markDate), asc(valuationMarks.id));
+
+    const pushFlow = (flow: CashFlow) => {
+      if (flow.amount === 0 || flow.date > asOfDate) return;
+      flowsByAllocation.get(flow.allocationId)?.push(flow);
+    };
+
+    for (const call of calls) {
+      const detailed = callPayments.filter(payment => payment.capitalCallId === call.id);
+      const legacy = legacyPayments.filter(payment => payment.capitalCallId === call.id);
+
+      if (detailed.length > 0) {
+        detailed.forEach(payment => pushFlow({
+          date: new Date(payment.paymentDate),
+          amount: -Number(payment.paymentAmount || 0),
+          type: 'contribution',
+          allocationId: call.allocationId
+        }));
+      } else if (legacy.length > 0) {
+        legacy.forEach(payment => pushFlow({
+          date: new Date(payment.paidDate),
+          amount: -Number(payment.amountUsd || 0),
+          type: 'contribution',
+          allocationId: call.allocationId
+        }));
+      } else if (Number(call.paidAmount || 0) > 0) {
+        pushFlow({
+          date: new Date(call.paidDate || call.callDate),
+          amount: -Number(call.paidAmount),
+          type: 'contribution',
+          allocationId: call.allocationId
+        });
+      }
+    }
+
+    for (const distribution of allocationDistributions) {
+      pushFlow({
+        date: new Date(distribution.distributionDate),
+        amount: Number(distribution.amount || 0),
+        type: 'distribution',
+        allocationId: distribution.allocationId
+      });
+    }
+
+    // The allocation's value on the as-of date is treated as a terminal inflow: its latest valuation mark
+    // on or before that date, else at cost. Its recorded market value is today's, so it stands in only
+    // for an allocation that has never been marked, and only as of today
+    const endOfAsOfDay = addDays(asOfDate, 1);
+    const asOfToday = endOfAsOfDay > new Date();
+    for (const allocation of allocations) {
+      const allocationMarks = marks.filter(mark => mark.allocationId === allocation.id);
+      const latestMark = allocationMarks.filter(mark => new Date(mark.markDate) < endOfAsOfDay).pop();
+
+      let terminalValue: number;
+      if (latestMark) {
+        terminalValue = latestMark.value;
+      } else if (allocationMarks.length === 0 && asOfToday) {
+        terminalValue = Number(allocation.marketValue ?? 0);
+      } else {
+        const paidIn = flowsByAllocation.get(allocation.id)!
+          .filter(flow => flow.type === 'contribution')
+          .reduce((sum, flow) => sum - flow.amount, 0);
+        const returned = allocationDistributions
+          .filter(distribution => distribution.allocationId === allocation.id
+            && distribution.distributionType === 'return_of_capital'
+            && new Date(distribution.distributionDate) <= asOfDate)
+          .reduce((sum, distribution) => sum + Number(distribution.amount || 0), 0);
+        terminalValue = Math.max(0, paidIn - returned);
+      }
+
+      pushFlow({
+        date: asOfDate,
+        amount: terminalValue,
+        type: 'terminal_value',
+        allocationId: allocation.id
+      });
+    }
+
+    flowsByAllocation.forEach(flows => flows.sort((a, b) => a.date.getTime() - b.date.getTime()));
+    return flowsByAllocation;
+  }
+
+  /**
+   * Compute IRR for a cash-flow series, applying the minimum holding period and precision rules
+   */
+  computeIrr(flows: CashFlow[], asOfDate: Date = new Date()): IrrResult {
+    const contributions = flows.filter(flow => flow.type === 'contribution');
+    if (contributions.length === 0) {
+      return { irr: null, cashFlows: flows, asOfDate, reason: 'No paid-in capital' };
+    }
+
+    const firstContribution = Math.min(...contributions.map(flow => flow.date.getTime()));
+    const daysHeld = (asOfDate.getTime() - firstContribution) / MS_PER_DAY;
+    if (daysHeld < FINANCIAL_CALCULATION.MIN_DAYS_FOR_IRR) {
+      return {
+        irr: null,
+        cashFlows: flows,
+        asOfDate,
+        reason: `Holding period shorter than ${FINANCIAL_CALCULATION.MIN_DAYS_FOR_IRR} days`
+      };
+    }
+
+    const rate = solveXirr(flows);
+    if (rate === null) {
+      return { irr: null, cashFlows: flows, asOfDate, reason: 'IRR did not converge' };
+    }
+
+    const irr = Number((rate * 100).toFixed(FUND_CONFIG.IRR_CALCULATION_PRECISION));
+    return { irr, cashFlows: flows, asOfDate };
+  }
+
+  /**
+   * Calculate IRR for a single allocation
+   */
+  async calculateAllocationIrr(allocationId: number, asOfDate: Date = new Date()): Promise<IrrResult> {
+    try {
+      const flowsByAllocation = await this.loadCashFlows([allocationId], asOfDate);
+      return this.computeIrr(flowsByAllocation.get(allocationId) || [], asOfDate);
+    } catch (error) {
+      console.error('Error calculating allocation IRR:', error);
+      throw new DatabaseError(`Failed to calculate allocation IRR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Calculate IRR for several allocations at once, keyed by allocation ID
+   */
+  async calculateAllocationIrrs(allocationIds: number[], asOfDate: Date = new Date()): Promise<Map<number, IrrResult>> {
+    try {
+      const flowsByAllocation = await this.loadCashFlows(allocationIds, asOfDate);
+      const results = new Map<number, IrrResult>();
+      flowsByAllocation.forEach((flows, allocationId) => {
+        results.set(allocationId, this.computeIrr(flows, asOfDate));
+      });
+      return results;
+    } catch (error) {
+      console.error('Error calculating allocation IRRs:', error);
+      throw new DatabaseError(`Failed to calculate allocation IRRs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Calculate fund-level IRR from the combined cash flows of all its allocations
+   */
+  async calculateFundIrr(fundId: number, asOfDate: Date = new Date()): Promise<IrrResult> {
+    const results = await this.calculateFundIrrs([fundId], asOfDate);
+    return results.get(fundId)!;
+  }
+
+  /**
+   * Calculate fund-level IRR for several funds at once, keyed by fund ID, loading
+   * the cash flows of all their allocations together
+   */
+  async calculateFundIrrs(fundIds: number[], asOfDate: Date = new Date()): Promise<Map<number, IrrResult>> {
+    try {
+      const allocations = fundIds.length
+        ? await db
+          .select({ id: fundAllocations.id, fundId: fundAllocations.fundId })
+          .from(fundAllocations)
+          .where(inArray(fundAllocations.fundId, fundIds))
+        : [];
+
+      const flowsByAllocation = await this.loadCashFlows(allocations.map(a => a.id), asOfDate);
+      const flowsByFund = new Map<number, CashFlow[]>(fundIds.map(fundId => [fundId, []]));
+      for (const allocation of allocations) {
+        flowsByFund.get(allocation.fundId)?.push(...(flowsByAllocation.get(allocation.id) || []));
+      }
+
+      const results = new Map<number, IrrResult>();
+      flowsByFund.forEach((flows, fundId) => {
+        flows.sort((a, b) => a.date.getTime() - b.date.getTime());
+        results.set(fundId, this.computeIrr(flows, asOfDate));
+      });
+      return results;
+    } catch (error) {
+      console.error('Error calculating fund IRRs:', error);
+      throw new DatabaseError(`Failed to calculate fund IRR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Recalculate and persist the stored IRR for every allocation in a fund
+   */
+  async updateFundAllocationIrrs(fundId: number): Promise<Map<number, IrrResult>> {
+    const allocations = await db
+      .select({ id: fundAllocations.id })
+      .from(fundAllocations)
+      .where(eq(fundAllocations.fundId, fundId));
+
+    const results = await this.calculateAllocationIrrs(allocations.map(a => a.id));
+
+    for (const [allocationId, result] of Array.from(results.entries())) {
+      await db
+        .update(fundAllocations)
+        .set({ irr: result.irr ?? FINANCIAL_CALCULATION.DEFAULT_IRR })
+        .where(eq(fundAllocations.id, allocationId));
+    }
+
+    console.log(`✅ Updated IRR for ${results.size} allocations in fund ${fundId}`);
+    return results;
+  }
+}
+
+// Export singleton instance
+export const irrCalculator = new IrrCalculatorService();
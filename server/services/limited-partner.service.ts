@@ -0,0 +1,400 @@
+/**
+ * Limited Partner Service
+ *
+ * Manages the LP side of each fund:
+ * - LP registry and per-fund commitments
+ * - Pro-rata split of fund capital calls into per-LP call amounts
+ * - Per-LP payment tracking against those call amounts
+ */
+
+import { db } from '../db';
+import {
+  limitedPartners,
+  lpCommitments,
+  lpCapitalCallAllocations,
+  lpCapitalCallPayments,
+  capitalCalls,
+  fundAllocations,
+  funds,
+  managementFeeAccruals,
+  type LimitedPartner,
+  type InsertLimitedPartner,
+  type LpCommitment,
+  type InsertLpCommitment,
+  type LpCapitalCallAllocation,
+  type LpCapitalCallPayment
+} from '@shared/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from './type-definitions';
+import { splitProRata } from './calculators/pro-rata.calculator';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface LpCallAllocationDetail extends LpCapitalCallAllocation {
+  limitedPartnerName: string;
+  commitmentAmount: number;
+  outstandingAmount: number;
+  payments: LpCapitalCallPayment[];
+}
+
+export interface FundLpSummary {
+  fundId: number;
+  totalCommitted: number;
+  totalCalled: number;
+  totalPaid: number;
+  totalOutstanding: number;
+  limitedPartners: Array<{
+    limitedPartnerId: number;
+    limitedPartnerName: string;
+    commitmentId: number;
+    commitmentAmount: number;
+    proRataShare: number;
+    called: number;
+    paid: number;
+    outstanding: number;
+    unfunded: number;
+  }>;
+}
+
+/**
+ * Round to cents so per-LP amounts reconcile with the fund call
+ */
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Derive an LP call status from its paid progress
+ */
+function deriveLpCallStatus(callAmount: number, paidAmount: number): LpCapitalCallAllocation['status'] {
+  if (paidAmount <= 0) return 'called';
+  if (paidAmount >= callAmount) return 'paid';
+  return 'partially_paid';
+}
+
+export class LimitedPartnerService {
+  /**
+   * Get all limited partners
+   */
+  async getLimitedPartners(): Promise<LimitedPartner[]> {
+    return db.select().from(limitedPartners).orderBy(limitedPartners.name);
+  }
+
+  /**
+   * Get a limited partner by ID
+   */
+  async getLimitedPartner(id: number): Promise<LimitedPartner | undefined> {
+    const [lp] = await db.select().from(limitedPartners).where(eq(limitedPartners.id, id));
+    return lp;
+  }
+
+  /**
+   * Create a new limited partner
+   */
+  async createLimitedPartner(data: InsertLimitedPartner): Promise<LimitedPartner> {
+    const [lp] = await db.insert(limitedPartners).values(data).returning();
+    return lp;
+  }
+
+  /**
+   * Update a limited partner
+   */
+  async updateLimitedPartner(id: number, data: Partial<InsertLimitedPartner>): Promise<LimitedPartner> {
+    const [lp] = await db
+      .update(limitedPartners)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(limitedPartners.id, id))
+      .returning();
+
+    if (!lp) throw new NotFoundError('Limited partner', id);
+    return lp;
+  }
+
+  /**
+   * Get all commitments for a fund with LP names
+   */
+  async getFundCommitments(fundId: number): Promise<Array<LpCommitment & { limitedPartnerName: string }>> {
+    const rows = await db
+      .select({ commitment: lpCommitments, limitedPartnerName: limitedPartners.name })
+      .from(lpCommitments)
+      .innerJoin(limitedPartners, eq(lpCommitments.limitedPartnerId, limitedPartners.id))
+      .where(eq(lpCommitments.fundId, fundId))
+      .orderBy(limitedPartners.name);
+
+    return rows.map(row => ({ ...row.commitment, limitedPartnerName: row.limitedPartnerName }));
+  }
+
+  /**
+   * Get all fund commitments held by a limited partner
+   */
+  async getLimitedPartnerCommitments(limitedPartnerId: number): Promise<LpCommitment[]> {
+    return db.select().from(lpCommitments).where(eq(lpCommitments.limitedPartnerId, limitedPartnerId));
+  }
+
+  /**
+   * Create a commitment from an LP to a fund
+   */
+  async createCommitment(data: InsertLpCommitment): Promise<LpCommitment> {
+    if (data.commitmentAmount <= 0) {
+      throw new ValidationError('Commitment amount must be greater than 0', 'commitmentAmount');
+    }
+
+    const lp = await this.getLimitedPartner(data.limitedPartnerId);
+    if (!lp) throw new NotFoundError('Limited partner', data.limitedPartnerId);
+
+    const [fund] = await db.select({ id: funds.id }).from(funds).where(eq(funds.id, data.fundId));
+    if (!fund) throw new NotFoundError('Fund', data.fundId);
+
+    const [commitment] = await db.insert(lpCommitments).values(data).returning();
+    return commitment;
+  }
+
+  /**
+   * Update a commitment
+   */
+  async updateCommitment(id: number, data: Partial<InsertLpCommitment>): Promise<LpCommitment> {
+    if (data.commitmentAmount !== undefined && data.commitmentAmount <= 0) {
+      throw new ValidationError('Commitment amount must be greater than 0', 'commitmentAmount');
+    }
+
+    const [commitment] = await db
+      .update(lpCommitments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(lpCommitments.id, id))
+      .returning();
+
+    if (!commitment) throw new NotFoundError('LP commitment', id);
+    return commitment;
+  }
+
+  /**
+   * Split a fund capital call into per-LP call amounts, pro-rata to active commitments.
+   * Existing unpaid LP allocations for the call are replaced; calls with LP payments are left untouched.
+   * Pass a transaction to re-split the call as part of a larger write.
+   */
+  async allocateCapitalCall(capitalCallId: number, tx?: Tx): Promise<LpCapitalCallAllocation[]> {
+    if (!tx) {
+      return db.transaction(inner => this.allocateCapitalCall(capitalCallId, inner));
+    }
+
+    const [call] = await tx.select().from(capitalCalls).where(eq(capitalCalls.id, capitalCallId)).for('update');
+    if (!call) throw new NotFoundError('Capital call', capitalCallId);
+
+    const [allocation] = await tx
+      .select({ fundId: fundAllocations.fundId })
+      .from(fundAllocations)
+      .where(eq(fundAllocations.id, call.allocationId));
+    if (!allocation) throw new NotFoundError('Allocation', call.allocationId);
+
+    const commitments = await tx
+      .select()
+      .from(lpCommitments)
+      .where(and(eq(lpCommitments.fundId, allocation.fundId), eq(lpCommitments.status, 'active')));
+
+    if (commitments.length === 0) {
+      return [];
+    }
+
+    const existing = await tx
+      .select()
+      .from(lpCapitalCallAllocations)
+      .where(eq(lpCapitalCallAllocations.capitalCallId, capitalCallId));
+
+    if (existing.some(row => row.paidAmount > 0)) {
+      throw new ValidationError(
+        'Capital call already has LP payments recorded and cannot be re-allocated',
+        'capitalCallId',
+        { capitalCallId }
+      );
+    }
+
+    // Management fees attached to this call are called on top of its amount, split on the same pro-rata basis
+    const attachedFees = await tx
+      .select({ netFee: managementFeeAccruals.netFee })
+      .from(managementFeeAccruals)
+      .where(eq(managementFeeAccruals.capitalCallId, capitalCallId));
+    const feeTotal = roundToCents(attachedFees.reduce((sum, fee) => sum + Number(fee.netFee || 0), 0));
+
+    const split = splitProRata(call.callAmount, commitments);
+    const feeSplit = new Map(splitProRata(feeTotal, commitments).map(s => [s.commitmentId, s.amount]));
+    const commitmentById = new Map(commitments.map(c => [c.id, c]));
+
+    if (existing.length > 0) {
+      await tx.delete(lpCapitalCallAllocations).where(eq(lpCapitalCallAllocations.capitalCallId, capitalCallId));
+    }
+
+    return tx
+      .insert(lpCapitalCallAllocations)
+      .values(split.map(s => ({
+        capitalCallId,
+        lpCommitmentId: s.commitmentId,
+        limitedPartnerId: commitmentById.get(s.commitmentId)!.limitedPartnerId,
+        callAmount: roundToCents(s.amount + (feeSplit.get(s.commitmentId) || 0)),
+        feeAmount: feeSplit.get(s.commitmentId) || 0,
+        proRataShare: s.share,
+        paidAmount: 0,
+        status: 'called' as const
+      })))
+      .returning();
+  }
+
+  /**
+   * Get the per-LP breakdown of a capital call, including payments
+   */
+  async getCapitalCallLpAllocations(capitalCallId: number): Promise<LpCallAllocationDetail[]> {
+    const rows = await db
+      .select({
+        allocation: lpCapitalCallAllocations,
+        limitedPartnerName: limitedPartners.name,
+        commitmentAmount: lpCommitments.commitmentAmount
+      })
+      .from(lpCapitalCallAllocations)
+      .innerJoin(limitedPartners, eq(lpCapitalCallAllocations.limitedPartnerId, limitedPartners.id))
+      .innerJoin(lpCommitments, eq(lpCapitalCallAllocations.lpCommitmentId, lpCommitments.id))
+      .where(eq(lpCapitalCallAllocations.capitalCallId, capitalCallId))
+      .orderBy(limitedPartners.name);
+
+    const ids = rows.map(row => row.allocation.id);
+    const payments = ids.length
+      ? await db
+          .select()
+          .from(lpCapitalCallPayments)
+          .where(inArray(lpCapitalCallPayments.lpCallAllocationId, ids))
+          .orderBy(lpCapitalCallPayments.paymentDate)
+      : [];
+
+    return rows.map(row => ({
+      ...row.allocation,
+      limitedPartnerName: row.limitedPartnerName,
+      commitmentAmount: row.commitmentAmount,
+      outstandingAmount: roundToCents(row.allocation.callAmount - row.allocation.paidAmount),
+      payments: payments.filter(p => p.lpCallAllocationId === row.allocation.id)
+    }));
+  }
+
+  /**
+   * Record a payment received from an LP against their share of a capital call
+   */
+  async recordLpPayment(
+    lpCallAllocationId: number,
+    paymentAmount: number,
+    userId: number,
+    options: { paymentDate?: Date; paymentType?: LpCapitalCallPayment['paymentType']; notes?: string } = {}
+  ): Promise<{ allocation: LpCapitalCallAllocation; payment: LpCapitalCallPayment }> {
+    if (paymentAmount <= 0) {
+      throw new ValidationError('Payment amount must be greater than 0', 'paymentAmount');
+    }
+
+    return db.transaction(async tx => {
+      // Lock the LP's share so concurrent payments see each other's paid amount
+      const [lpCall] = await tx
+        .select()
+        .from(lpCapitalCallAllocations)
+        .where(eq(lpCapitalCallAllocations.id, lpCallAllocationId))
+        .for('update');
+      if (!lpCall) throw new NotFoundError('LP capital call allocation', lpCallAllocationId);
+
+      const outstanding = roundToCents(lpCall.callAmount - lpCall.paidAmount);
+      if (paymentAmount > outstanding) {
+        throw new ValidationError(
+          `Payment amount cannot exceed outstanding amount of ${outstanding.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`,
+          'paymentAmount'
+        );
+      }
+
+      const paymentDate = options.paymentDate || new Date();
+      const newPaidAmount = roundToCents(lpCall.paidAmount + paymentAmount);
+
+      const [payment] = await tx
+        .insert(lpCapitalCallPayments)
+        .values({
+          lpCallAllocationId,
+          paymentAmount,
+          paymentDate,
+          paymentType: options.paymentType || 'wire',
+          notes: options.notes,
+          createdBy: userId
+        })
+        .returning();
+
+      const [allocation] = await tx
+        .update(lpCapitalCallAllocations)
+        .set({
+          paidAmount: newPaidAmount,
+          paidDate: paymentDate,
+          status: deriveLpCallStatus(lpCall.callAmount, newPaidAmount),
+          updatedAt: new Date()
+        })
+        .where(eq(lpCapitalCallAllocations.id, lpCallAllocationId))
+        .returning();
+
+      return { allocation, payment };
+    });
+  }
+
+  /**
+   * Mark an LP's share of a capital call as defaulted
+   */
+  async markLpDefaulted(lpCallAllocationId: number): Promise<LpCapitalCallAllocation> {
+    const [allocation] = await db
+      .update(lpCapitalCallAllocations)
+      .set({ status: 'defaulted', updatedAt: new Date() })
+      .where(eq(lpCapitalCallAllocations.id, lpCallAllocationId))
+      .returning();
+
+    if (!allocation) throw new NotFoundError('LP capital call allocation', lpCallAllocationId);
+    return allocation;
+  }
+
+  /**
+   * Summarize commitments, called and paid capital per LP for a fund
+   */
+  async getFundLpSummary(fundId: number): Promise<FundLpSummary> {
+    const commitments = await this.getFundCommitments(fundId);
+    const commitmentIds = commitments.map(c => c.id);
+    const lpCalls = commitmentIds.length
+      ? await db
+          .select()
+          .from(lpCapitalCallAllocations)
+          .where(inArray(lpCapitalCallAllocations.lpCommitmentId, commitmentIds))
+      : [];
+
+    const activeTotal = commitments
+      .filter(c => c.status === 'active')
+      .reduce((sum, c) => sum + c.commitmentAmount, 0);
+
+    const rows = commitments.map(commitment => {
+      const calls = lpCalls.filter(call => call.lpCommitmentId === commitment.id);
+      const called = roundToCents(calls.reduce((sum, call) => sum + call.callAmount, 0));
+      const paid = roundToCents(calls.reduce((sum, call) => sum + call.paidAmount, 0));
+
+      return {
+        limitedPartnerId: commitment.limitedPartnerId,
+        limitedPartnerName: commitment.limitedPartnerName,
+        commitmentId: commitment.id,
+        commitmentAmount: commitment.commitmentAmount,
+        proRataShare: commitment.status === 'active' && activeTotal > 0 ? commitment.commitmentAmount / activeTotal : 0,
+        called,
+        paid,
+        outstanding: roundToCents(called - paid),
+        unfunded: roundToCents(Math.max(0, commitment.commitmentAmount - called))
+      };
+    });
+
+    const totalCommitted = rows.reduce((sum, row) => sum + row.commitmentAmount, 0);
+    const totalCalled = rows.reduce((sum, row) => sum + row.called, 0);
+    const totalPaid = rows.reduce((sum, row) => sum + row.paid, 0);
+
+    return {
+      fundId,
+      totalCommitted,
+      totalCalled: roundToCents(totalCalled),
+      totalPaid: roundToCents(totalPaid),
+      totalOutstanding: roundToCents(totalCalled - totalPaid),
+      limitedPartners: rows
+    };
+  }
+}
+
+// Export singleton instance
+export const limitedPartnerService = new LimitedPartnerService();
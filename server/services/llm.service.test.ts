@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { LlmService } from './llm.service';
+import { FixtureProvider } from './llm/fixture-provider';
+import { ApplicationError } from './type-definitions';
+
+const ENV_KEYS = ['LLM_PROVIDER', 'LLM_API_KEY', 'OPENAI_API_KEY', 'LLM_BASE_URL', 'LLM_FIXTURE_DIR', 'LLM_MAX_TOKENS', 'LLM_TEMPERATURE', 'LLM_MODEL'];
+
+const ask = (content: string) => [{ role: 'user' as const, content }];
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  for (const key of ENV_KEYS) vi.stubEnv(key, '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('LlmService provider selection', () => {
+  it('is not configured outside tests unless a provider is set', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    const service = new LlmService();
+
+    expect(service.isConfigured()).toBe(false);
+    await expect(service.chat(ask('Summarize'), { purpose: 'deal_analysis' })).rejects.toMatchObject({
+      code: 'LLM_NOT_CONFIGURED',
+      statusCode: 503
+    });
+  });
+
+  it('uses fixtures under NODE_ENV=test', () => {
+    vi.stubEnv('NODE_ENV', 'test');
+    expect(new LlmService().getProvider()?.name).toBe('fixture');
+  });
+
+  it('uses fixtures when LLM_PROVIDER=fixture, even in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('LLM_PROVIDER', 'fixture');
+    expect(new LlmService().getProvider()?.name).toBe('fixture');
+  });
+
+  it('uses the OpenAI-compatible provider when a base URL is set', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('LLM_BASE_URL', 'http://localhost:11434/v1');
+    expect(new LlmService().getProvider()?.name).toBe('openai-compatible (http://localhost:11434/v1)');
+  });
+});
+
+describe('LlmService.chatJson', () => {
+  const schema = z.object({
+    summary: z.string(),
+    score: z.number().min(0).max(10),
+    risks: z.array(z.string())
+  });
+
+  let provider: FixtureProvider;
+  let service: LlmService;
+
+  beforeEach(() => {
+    provider = new FixtureProvider();
+    service = new LlmService();
+    service.setProvider(provider);
+  });
+
+  it('parses the answer against the schema', async () => {
+    provider.addFixture({ match: 'acme', response: { summary: 'Strong team', score: 7, risks: ['Churn'] } });
+
+    const { data, response } = await service.chatJson(ask('Analyze Acme'), schema, { purpose: 'deal_analysis' });
+
+    expect(data).toEqual({ summary: 'Strong team', score: 7, risks: ['Churn'] });
+    expect(response.usage.completionTokens).toBeGreaterThan(0);
+    expect(provider.calls[0].json?.schema).toBe(schema);
+  });
+
+  it('reads JSON wrapped in a code fence and prose', async () => {
+    provider.addFixture({ match: 'acme', response: 'Here you go:\n```json\n{"summary":"Ok","score":3,"risks":[]}\n```' });
+
+    const { data } = await service.chatJson(ask('Analyze Acme'), schema, { purpose: 'deal_analysis' });
+
+    expect(data).toEqual({ summary: 'Ok', score: 3, risks: [] });
+  });
+
+  it('rejects an answer that is not JSON', async () => {
+    provider.addFixture({ match: 'acme', response: 'I cannot help with that.' });
+
+    const error = await service.chatJson(ask('Analyze Acme'), schema, { purpose: 'deal_analysis' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(ApplicationError);
+    expect(error).toMatchObject({ code: 'LLM_INVALID_OUTPUT', statusCode: 502 });
+  });
+
+  it('rejects JSON in the wrong shape and reports the schema issues', async () => {
+    provider.addFixture({ match: 'acme', response: { summary: 'Ok', score: 11 } });
+
+    const error = await service.chatJson(ask('Analyze Acme'), schema, { purpose: 'deal_analysis' }).catch(err => err);
+
+    expect(error).toMatchObject({ code: 'LLM_INVALID_OUTPUT', statusCode: 502 });
+    const paths = error.context.issues.map((issue: z.ZodIssue) => issue.path.join('.'));
+    expect(paths).toEqual(expect.arrayContaining(['score', 'risks']));
+  });
+
+  it('answers unmatched requests with the smallest value the schema accepts', async () => {
+    const { data } = await service.chatJson(ask('Analyze Globex'), schema, { purpose: 'deal_analysis' });
+
+    expect(data).toEqual({ summary: '', score: 0, risks: [] });
+  });
+
+  it('takes token limits and temperature from the purpose unless overridden', async () => {
+    await service.chat(ask('Read this term sheet'), { purpose: 'term_sheet_extraction' });
+    vi.stubEnv('LLM_MAX_TOKENS', '500');
+    vi.stubEnv('LLM_TEMPERATURE', '0.7');
+    await service.chat(ask('Read this term sheet'), { purpose: 'term_sheet_extraction', model: 'local-model' });
+
+    expect(provider.calls.map(({ model, maxTokens, temperature }) => ({ model, maxTokens, temperature }))).toEqual([
+      { model: 'gpt-4o', maxTokens: 2000, temperature: 0 },
+      { model: 'local-model', maxTokens: 500, temperature: 0.7 }
+    ]);
+  });
+});
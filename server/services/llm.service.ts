@@ -0,0 +1,161 @@
+/**
+ * LLM Service
+ *
+ * Single entry point for AI features. Requests go to the configured provider:
+ * - `openai`: OpenAI, or any OpenAI-compatible server at LLM_BASE_URL (a self-hosted model)
+ * - `fixture`: deterministic answers from LLM_FIXTURE_DIR, with no network access
+ * - `none`: AI features are disabled and fail with LLM_NOT_CONFIGURED
+ * LLM_PROVIDER picks one explicitly; otherwise `openai` is used when an API key or base URL is
+ * set, fixtures under NODE_ENV=test, and nothing anywhere else, so canned answers never pass for
+ * real analysis.
+ *
+ * Token limits and temperature come from the purpose of each call, so call sites do not carry
+ * their own; LLM_MAX_TOKENS and LLM_TEMPERATURE override them for every purpose.
+ */
+
+import type { z } from 'zod';
+import { extractJson, type LlmMessage, type LlmProvider, type LlmResponse } from './llm/llm-provider';
+import { OpenAiCompatibleProvider } from './llm/openai-compatible-provider';
+import { FixtureProvider } from './llm/fixture-provider';
+import { ApplicationError } from './type-definitions';
+
+const DEFAULT_MODEL = 'gpt-4o';
+
+export const LLM_PURPOSES = {
+  deal_analysis: { maxTokens: 2000, temperature: 0.3 },
+  document_analysis: { maxTokens: 3000, temperature: 0.1 },
+  deal_document_analysis: { maxTokens: 3000, temperature: 0.3 },
+  term_sheet_extraction: { maxTokens: 2000, temperature: 0 }
+} as const;
+
+export type LlmPurpose = keyof typeof LLM_PURPOSES;
+
+export interface LlmCallOptions {
+  purpose: LlmPurpose;
+  /** Overrides LLM_MODEL for this call */
+  model?: string;
+}
+
+export interface LlmStreamOptions extends LlmCallOptions {
+  /** Stops generation, e.g. when the client disconnects; the stream then ends early */
+  signal?: AbortSignal;
+}
+
+export class LlmService {
+  // undefined until first use so tests can set the environment first
+  private provider: LlmProvider | null | undefined;
+
+  get model(): string {
+    return process.env.LLM_MODEL || DEFAULT_MODEL;
+  }
+
+  getProvider(): LlmProvider | null {
+    if (this.provider === undefined) {
+      this.provider = this.createProvider();
+      console.log(`LLM provider: ${this.provider?.name ?? 'none (AI features disabled)'}`);
+    }
+    return this.provider;
+  }
+
+  /** Replace the provider, e.g. with a FixtureProvider in tests; null disables AI features */
+  setProvider(provider: LlmProvider | null): void {
+    this.provider = provider;
+  }
+
+  isConfigured(): boolean {
+    return this.getProvider() !== null;
+  }
+
+  /**
+   * Chat completion; resolves to the answer text with token usage
+   */
+  async chat(messages: LlmMessage[], options: LlmCallOptions): Promise<LlmResponse> {
+    return this.requireProvider().complete({ messages, ...this.settings(options) });
+  }
+
+  /**
+   * Chat completion streamed as text pieces while the model generates them
+   */
+  chatStream(messages: LlmMessage[], options: LlmStreamOptions): AsyncIterable<string> {
+    return this.requireProvider().stream({ messages, ...this.settings(options) }, options.signal);
+  }
+
+  /**
+   * Chat completion that must answer with a JSON object matching the schema
+   */
+  async chatJson<T extends z.ZodTypeAny>(
+    messages: LlmMessage[],
+    schema: T,
+    options: LlmCallOptions
+  ): Promise<{ data: z.infer<T>; response: LlmResponse }> {
+    const response = await this.requireProvider().complete({ messages, ...this.settings(options), json: { schema } });
+
+    let parsed: unknown;
+    try {
+      parsed = extractJson(response.content);
+    } catch {
+      throw new ApplicationError('The AI model did not return JSON', 'LLM_INVALID_OUTPUT', 502);
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      throw new ApplicationError('The AI model returned JSON in an unexpected shape', 'LLM_INVALID_OUTPUT', 502, {
+        issues: result.error.errors
+      });
+    }
+    return { data: result.data, response };
+  }
+
+  /**
+   * Tokens the messages use in the model's context window
+   */
+  countTokens(messages: LlmMessage[], model: string = this.model): number {
+    return this.requireProvider().countTokens(messages, model);
+  }
+
+  private requireProvider(): LlmProvider {
+    const provider = this.getProvider();
+    if (!provider) {
+      throw new ApplicationError('AI features are not configured on this server', 'LLM_NOT_CONFIGURED', 503);
+    }
+    return provider;
+  }
+
+  private settings(options: LlmCallOptions) {
+    const defaults = LLM_PURPOSES[options.purpose];
+    const maxTokens = parseInt(process.env.LLM_MAX_TOKENS || '', 10);
+    const temperature = parseFloat(process.env.LLM_TEMPERATURE || '');
+    return {
+      model: options.model || this.model,
+      maxTokens: isNaN(maxTokens) ? defaults.maxTokens : maxTokens,
+      temperature: isNaN(temperature) ? defaults.temperature : temperature
+    };
+  }
+
+  private createProvider(): LlmProvider | null {
+    const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+    const baseURL = process.env.LLM_BASE_URL || undefined;
+    const configured = process.env.LLM_PROVIDER
+      || (apiKey || baseURL ? 'openai' : process.env.NODE_ENV === 'test' ? 'fixture' : 'none');
+
+    switch (configured) {
+      case 'openai':
+        return new OpenAiCompatibleProvider({
+          apiKey,
+          baseURL,
+          jsonMode: process.env.LLM_JSON_MODE !== 'false',
+          timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10)
+        });
+      case 'fixture':
+        return new FixtureProvider(process.env.LLM_FIXTURE_DIR);
+      case 'none':
+        return null;
+      default:
+        console.warn(`Unknown LLM_PROVIDER "${configured}"; AI features are disabled`);
+        return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const llmService = new LlmService();
@@ -0,0 +1,148 @@
+/**
+ * Fixture Provider
+ *
+ * Answers without a model, for air-gapped environments and automated tests. Each request is
+ * matched against fixtures by the text of its last user message; the first fixture whose `match`
+ * appears in it (case-insensitive) supplies the answer. Fixtures come from `*.json` files in a
+ * directory, each holding one `{ "match", "response" }` entry or an array of them, and from
+ * `addFixture` in tests.
+ *
+ * Unmatched requests still get a stable answer: a short text naming a digest of the prompt, or for
+ * JSON requests an object shaped by the request's schema with empty values.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { z } from 'zod';
+import { estimateTokens, type LlmMessage, type LlmProvider, type LlmRequest, type LlmResponse } from './llm-provider';
+
+export interface LlmFixture {
+  match: string | RegExp;
+  /** Text, or a value serialized as JSON */
+  response: unknown;
+}
+
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture';
+  /** Every request answered, oldest first, so tests can inspect prompts */
+  readonly calls: LlmRequest[] = [];
+  private fixtures: LlmFixture[] = [];
+
+  constructor(directory?: string) {
+    if (directory) {
+      this.fixtures = this.loadFixtures(directory);
+    }
+  }
+
+  addFixture(fixture: LlmFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.calls.push(request);
+
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const fixture = this.fixtures.find(candidate =>
+      typeof candidate.match === 'string'
+        ? prompt.toLowerCase().includes(candidate.match.toLowerCase())
+        : candidate.match.test(prompt)
+    );
+
+    let content: string;
+    if (fixture) {
+      content = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    } else if (request.json) {
+      content = JSON.stringify(request.json.schema ? skeleton(request.json.schema) : {});
+    } else {
+      const digest = crypto.createHash('sha256').update(JSON.stringify(request.messages)).digest('hex').slice(0, 12);
+      content = `Offline response ${digest}: no fixture matches this request, so no analysis was generated.`;
+    }
+
+    return {
+      content,
+      model: `fixture:${request.model}`,
+      usage: {
+        promptTokens: estimateTokens(request.messages),
+        completionTokens: estimateTokens([{ role: 'assistant', content }])
+      }
+    };
+  }
+
+  /**
+   * The same answer as `complete`, a word at a time
+   */
+  async *stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const { content } = await this.complete(request);
+    for (const piece of content.match(/\s*\S+/g) ?? []) {
+      // Let the caller abort between pieces, as it could with a real model
+      await new Promise(resolve => setImmediate(resolve));
+      if (signal?.aborted) return;
+      yield piece;
+    }
+  }
+
+  countTokens(messages: LlmMessage[]): number {
+    return estimateTokens(messages);
+  }
+
+  private loadFixtures(directory: string): LlmFixture[] {
+    if (!fs.existsSync(directory)) {
+      console.warn(`LLM fixture directory ${directory} does not exist; using default answers`);
+      return [];
+    }
+
+    return fs.readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .flatMap(file => {
+        const parsed = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+        const entries: LlmFixture[] = Array.isArray(parsed) ? parsed : [parsed];
+        return entries.filter(entry => typeof entry.match === 'string' && entry.response !== undefined);
+      });
+  }
+}
+
+/**
+ * Smallest value a schema accepts: empty strings, zeros, empty lists and nulls
+ */
+function skeleton(schema: z.ZodTypeAny): unknown {
+  const def = schema._def;
+  switch (def.typeName) {
+    case 'ZodObject':
+      return Object.fromEntries(
+        Object.entries(def.shape() as Record<string, z.ZodTypeAny>)
+          .map(([key, field]) => [key, skeleton(field)])
+          .filter(([, value]) => value !== undefined)
+      );
+    case 'ZodString':
+      return '';
+    case 'ZodNumber':
+      return 0;
+    case 'ZodBoolean':
+      return false;
+    case 'ZodArray':
+      return [];
+    case 'ZodRecord':
+      return {};
+    case 'ZodLiteral':
+      return def.value;
+    case 'ZodEnum':
+      return def.values[0];
+    case 'ZodNativeEnum':
+      return Object.values(def.values)[0];
+    case 'ZodOptional':
+      return undefined;
+    case 'ZodNullable':
+      return null;
+    case 'ZodDefault':
+      return def.defaultValue();
+    case 'ZodEffects':
+      return skeleton(def.schema);
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      return skeleton(Array.from(def.options.values() as Iterable<z.ZodTypeAny>)[0]);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { extractJson } from './llm-provider';
+
+describe('extractJson', () => {
+  it('parses a bare JSON answer', () => {
+    expect(extractJson(' {"score": 4} ')).toEqual({ score: 4 });
+  });
+
+  it('reads the first fenced block, with or without a language tag', () => {
+    expect(extractJson('Result:\n```json\n{"score": 4}\n```\nDone.')).toEqual({ score: 4 });
+    expect(extractJson('```\n[1, 2]\n```')).toEqual([1, 2]);
+  });
+
+  it('cuts an object out of surrounding prose', () => {
+    expect(extractJson('Sure! {"risks": ["churn", "burn"]} Let me know if you need more.')).toEqual({ risks: ['churn', 'burn'] });
+  });
+
+  it('keeps nested braces inside the object', () => {
+    expect(extractJson('Answer: {"terms": {"cap": {"multiple": 2}}} end')).toEqual({ terms: { cap: { multiple: 2 } } });
+  });
+
+  it('throws when there is no JSON to find', () => {
+    expect(() => extractJson('No structured answer today.')).toThrow(SyntaxError);
+    expect(() => extractJson('Almost {"score": }')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * LLM Provider
+ *
+ * AI features build a provider-neutral chat request and hand it to a provider. Providers only
+ * talk to a model: the OpenAI-compatible provider calls OpenAI or any server speaking its API
+ * (vLLM, Ollama, llama.cpp), the fixture provider answers deterministically without a network.
+ */
+
+import type { z } from 'zod';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /** Ask for a JSON object; the schema lets offline providers shape their answer */
+  json?: { schema?: z.ZodTypeAny };
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  /** The answer text piece by piece as the model generates it; aborting the signal stops it */
+  stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string>;
+  /** Tokens the messages use in the model's context window */
+  countTokens(messages: LlmMessage[], model: string): number;
+}
+
+// Tokens a chat message costs beyond its content (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Token estimate for models without a local tokenizer: about four characters per token for
+ * English prose, which errs high for code and numbers rather than overflowing a context window
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateTokens(messages: LlmMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTextTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * The JSON object in a model answer, tolerating Markdown code fences and text around it
+ */
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : content).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw new SyntaxError('No JSON object in model output');
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
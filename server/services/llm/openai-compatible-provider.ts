@@ -0,0 +1,77 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Chat completions against OpenAI or a self-hosted server exposing the same API, selected by
+ * base URL. Local servers often ignore or reject `response_format`, so JSON mode can be turned
+ * off and the answer is then parsed from plain text.
+ */
+
+import OpenAI from 'openai';
+import { estimateTokens, type LlmMessage, type LlmProvider, type LlmRequest, type LlmResponse } from './llm-provider';
+
+export interface OpenAiCompatibleOptions {
+  apiKey?: string;
+  /** e.g. http://localhost:11434/v1 for a local server; OpenAI when omitted */
+  baseURL?: string;
+  /** Whether the server supports `response_format: { type: 'json_object' }` */
+  jsonMode?: boolean;
+  timeoutMs?: number;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly options: OpenAiCompatibleOptions = {}) {
+    this.name = options.baseURL ? `openai-compatible (${options.baseURL})` : 'openai';
+    this.client = new OpenAI({
+      // Local servers usually accept any key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const useJsonMode = !!request.json && this.options.jsonMode !== false;
+    const messages = request.json && !useJsonMode
+      ? [...request.messages, { role: 'system' as const, content: 'Respond with a single JSON object and nothing else.' }]
+      : request.messages;
+
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(useJsonMode && { response_format: { type: 'json_object' as const } })
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content ?? '',
+      model: completion.model,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens
+      }
+    };
+  }
+
+  async *stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true
+    }, { signal });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  countTokens(messages: LlmMessage[]): number {
+    return estimateTokens(messages);
+  }
+}
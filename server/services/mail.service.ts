@@ -0,0 +1,108 @@
+/**
+ * Mail Service
+ *
+ * Sends platform email through the configured transport:
+ * - `smtp`: relay through SMTP_HOST/SMTP_PORT (STARTTLS when offered, AUTH when SMTP_USER is set)
+ * - `file`: write `.eml` files to MAIL_DROP_DIR, for tests and local development
+ * - `none`: drop outgoing mail
+ * MAIL_TRANSPORT picks one explicitly; otherwise SMTP is used when SMTP_HOST is set,
+ * file-drop in development and nothing in production.
+ */
+
+import path from 'path';
+import {
+  buildMimeMessage,
+  extractAddress,
+  type MailMessage,
+  type MailTransport,
+  type SentMail
+} from './email/mail-transport';
+import { SmtpTransport } from './email/smtp-transport';
+import { FileDropTransport } from './email/file-drop-transport';
+import { renderNotificationEmail } from './email/templates';
+
+const DEFAULT_FROM = 'Investment Platform <no-reply@localhost>';
+const DEFAULT_DROP_DIR = 'storage/mail';
+
+export type OutgoingMail = Omit<MailMessage, 'from'> & { from?: string };
+
+export class MailService {
+  // undefined until first use so tests can set the environment first
+  private transport: MailTransport | null | undefined;
+
+  get from(): string {
+    return process.env.MAIL_FROM || DEFAULT_FROM;
+  }
+
+  /** Base URL for links in emails */
+  get appUrl(): string {
+    return (process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, '');
+  }
+
+  getTransport(): MailTransport | null {
+    if (this.transport === undefined) {
+      this.transport = this.createTransport();
+      console.log(`Mail transport: ${this.transport?.name ?? 'none (outgoing mail disabled)'}`);
+    }
+    return this.transport;
+  }
+
+  /** Replace the transport, e.g. with a FileDropTransport in tests; null disables mail */
+  setTransport(transport: MailTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a message. Resolves to null when outgoing mail is disabled.
+   */
+  async send(message: OutgoingMail): Promise<SentMail | null> {
+    const transport = this.getTransport();
+    if (!transport) return null;
+
+    const from = message.from || this.from;
+    const { raw, messageId } = buildMimeMessage({ ...message, from });
+    return transport.send({ from: extractAddress(from), to: message.to.map(extractAddress) }, raw, messageId);
+  }
+
+  /**
+   * Email version of a notification, linking to the deal it is about
+   */
+  async sendNotification(options: { to: string; subject: string; body: string; dealId?: number | null }): Promise<SentMail | null> {
+    return this.send({
+      to: [options.to],
+      subject: options.subject,
+      html: renderNotificationEmail({
+        title: options.subject,
+        message: options.body,
+        url: options.dealId ? `${this.appUrl}/deals/${options.dealId}` : undefined
+      }),
+      text: options.dealId ? `${options.body}\n\n${this.appUrl}/deals/${options.dealId}` : options.body
+    });
+  }
+
+  private createTransport(): MailTransport | null {
+    const kind = process.env.MAIL_TRANSPORT
+      || (process.env.SMTP_HOST ? 'smtp' : process.env.NODE_ENV === 'production' ? 'none' : 'file');
+
+    switch (kind) {
+      case 'smtp':
+        return new SmtpTransport({
+          host: process.env.SMTP_HOST || 'localhost',
+          port: parseInt(process.env.SMTP_PORT || '587', 10),
+          secure: process.env.SMTP_SECURE === 'true',
+          requireTls: process.env.SMTP_REQUIRE_TLS === 'true',
+          rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+          auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined
+        });
+      case 'file':
+        return new FileDropTransport(path.resolve(process.cwd(), process.env.MAIL_DROP_DIR || DEFAULT_DROP_DIR));
+      case 'none':
+        return null;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; expected smtp, file or none`);
+    }
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
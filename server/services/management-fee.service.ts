@@ -0,0 +1,416 @@
+/**
+ * Management Fee Service
+ *
+ * Fee schedules, offsets and quarterly fee accruals per fund.
+ * Accrued fees can be attached to a capital call so they are called from LPs with it.
+ */
+
+import { db } from '../db';
+import {
+  capitalCalls,
+  distributions,
+  fundAllocations,
+  lpCommitments,
+  managementFeeAccruals,
+  managementFeeOffsets,
+  managementFeeSchedules,
+  type InsertManagementFeeOffset,
+  type ManagementFeeAccrual,
+  type ManagementFeeOffset,
+  type ManagementFeeSchedule
+} from '@shared/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { irrCalculator } from './irr-calculator.service';
+import { limitedPartnerService } from './limited-partner.service';
+import {
+  calculateQuarterlyFees,
+  type FeeScheduleTerms,
+  type QuarterlyFee
+} from './calculators/management-fee.calculator';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+export interface FeeScheduleInput {
+  feeStartDate: string;
+  investmentPeriodEndDate: string;
+  investmentPeriodRate: number;
+  postInvestmentRate: number;
+  stepDowns: Array<{ effectiveDate: string; rate: number }>;
+  offsetPercentage: number;
+}
+
+export interface FundFeeSummary {
+  fundId: number;
+  hasSchedule: boolean;
+  feesCharged: number; // Net fees accrued to date
+  feesCalled: number; // Net fees attached to capital calls
+  feesPaid: number;
+  offsetsApplied: number;
+}
+
+function toTerms(schedule: ManagementFeeSchedule): FeeScheduleTerms {
+  return {
+    feeStartDate: new Date(schedule.feeStartDate),
+    investmentPeriodEndDate: new Date(schedule.investmentPeriodEndDate),
+    investmentPeriodRate: schedule.investmentPeriodRate,
+    postInvestmentRate: schedule.postInvestmentRate,
+    stepDowns: (schedule.stepDowns || []).map(stepDown => ({
+      effectiveDate: new Date(stepDown.effectiveDate),
+      rate: stepDown.rate
+    })),
+    offsetPercentage: schedule.offsetPercentage
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export class ManagementFeeService {
+  /**
+   * Get the fee schedule for a fund
+   */
+  async getSchedule(fundId: number): Promise<ManagementFeeSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(managementFeeSchedules)
+      .where(eq(managementFeeSchedules.fundId, fundId));
+    return schedule;
+  }
+
+  /**
+   * Create or update the fee schedule for a fund
+   */
+  async upsertSchedule(fundId: number, data: FeeScheduleInput): Promise<ManagementFeeSchedule> {
+    if (new Date(data.investmentPeriodEndDate) < new Date(data.feeStartDate)) {
+      throw new ValidationError('Investment period cannot end before fees start', 'investmentPeriodEndDate');
+    }
+
+    const [schedule] = await db
+      .insert(managementFeeSchedules)
+      .values({ ...data, fundId })
+      .onConflictDoUpdate({
+        target: managementFeeSchedules.fundId,
+        set: { ...data, updatedAt: new Date() }
+      })
+      .returning();
+
+    return schedule;
+  }
+
+  /**
+   * Get fee offsets recorded for a fund
+   */
+  async getOffsets(fundId: number): Promise<ManagementFeeOffset[]> {
+    return db
+      .select()
+      .from(managementFeeOffsets)
+      .where(eq(managementFeeOffsets.fundId, fundId))
+      .orderBy(asc(managementFeeOffsets.offsetDate));
+  }
+
+  /**
+   * Record fee income that is credited against management fees
+   */
+  async addOffset(data: InsertManagementFeeOffset): Promise<ManagementFeeOffset> {
+    const [offset] = await db.insert(managementFeeOffsets).values(data).returning();
+    return offset;
+  }
+
+  /**
+   * Calculate quarterly fees for a fund through asOfDate without persisting them
+   */
+  async calculateFees(fundId: number, asOfDate: Date = new Date()): Promise<QuarterlyFee[]> {
+    const feesByFund = await this.calculateFeesForFunds([fundId], asOfDate);
+    return feesByFund.get(fundId) ?? [];
+  }
+
+  /**
+   * Calculate quarterly fees for several funds at once, keyed by fund ID; funds without a
+   * schedule are left out. The bases of all funds are loaded together.
+   */
+  async calculateFeesForFunds(fundIds: number[], asOfDate: Date = new Date()): Promise<Map<number, QuarterlyFee[]>> {
+    const feesByFund = new Map<number, QuarterlyFee[]>();
+    const schedules = fundIds.length
+      ? await db.select().from(managementFeeSchedules).where(inArray(managementFeeSchedules.fundId, fundIds))
+      : [];
+    if (schedules.length === 0) return feesByFund;
+
+    const scheduledFundIds = schedules.map(schedule => schedule.fundId);
+
+    // Commitment basis: LP commitments when the fund has an LP register, otherwise fund commitments to deals
+    const lpRows = await db
+      .select({
+        fundId: lpCommitments.fundId,
+        amount: lpCommitments.commitmentAmount,
+        date: lpCommitments.commitmentDate,
+        status: lpCommitments.status
+      })
+      .from(lpCommitments)
+      .where(inArray(lpCommitments.fundId, scheduledFundIds));
+
+    const allocations = await db
+      .select({
+        id: fundAllocations.id,
+        fundId: fundAllocations.fundId,
+        amount: fundAllocations.amount,
+        date: fundAllocations.allocationDate
+      })
+      .from(fundAllocations)
+      .where(inArray(fundAllocations.fundId, scheduledFundIds));
+
+    // Invested capital basis: paid-in capital less capital returned
+    const allocationIds = allocations.map(a => a.id);
+    const flowsByAllocation = await irrCalculator.loadCashFlows(allocationIds, asOfDate);
+
+    const returnedCapital = allocationIds.length
+      ? await db
+          .select({ allocationId: distributions.allocationId, amount: distributions.amount, date: distributions.distributionDate })
+          .from(distributions)
+          .where(and(
+            inArray(distributions.allocationId, allocationIds),
+            eq(distributions.distributionType, 'return_of_capital')
+          ))
+      : [];
+
+    const offsets = await db
+      .select()
+      .from(managementFeeOffsets)
+      .where(inArray(managementFeeOffsets.fundId, scheduledFundIds));
+
+    for (const schedule of schedules) {
+      const fundId = schedule.fundId;
+      const fundAllocationRows = allocations.filter(allocation => allocation.fundId === fundId);
+      const fundAllocationIds = new Set(fundAllocationRows.map(allocation => allocation.id));
+      const fundLpRows = lpRows.filter(row => row.fundId === fundId);
+      const commitmentRows = fundLpRows.length > 0
+        ? fundLpRows.filter(row => row.status === 'active')
+        : fundAllocationRows;
+      const contributions = fundAllocationRows
+        .flatMap(allocation => flowsByAllocation.get(allocation.id) ?? [])
+        .filter(flow => flow.type === 'contribution');
+      const fundReturnedCapital = returnedCapital.filter(row => fundAllocationIds.has(row.allocationId));
+      const fundOffsets = offsets.filter(offset => offset.fundId === fundId);
+
+      feesByFund.set(fundId, calculateQuarterlyFees(
+        toTerms(schedule),
+        {
+          commitmentAt: date => commitmentRows
+            .filter(row => new Date(row.date) <= date)
+            .reduce((sum, row) => sum + Number(row.amount || 0), 0),
+          investedCapitalAt: date => {
+            const paidIn = contributions
+              .filter(flow => flow.date <= date)
+              .reduce((sum, flow) => sum - flow.amount, 0);
+            const returned = fundReturnedCapital
+              .filter(row => new Date(row.date) <= date)
+              .reduce((sum, row) => sum + Number(row.amount || 0), 0);
+            return Math.max(0, paidIn - returned);
+          },
+          offsetsBetween: (start, end) => fundOffsets
+            .filter(offset => new Date(offset.offsetDate) >= start && new Date(offset.offsetDate) <= end)
+            .reduce((sum, offset) => sum + Number(offset.amount || 0), 0)
+        },
+        asOfDate
+      ));
+    }
+
+    return feesByFund;
+  }
+
+  /**
+   * Persist fee accruals for the periods that have ended by asOfDate.
+   * Accrued periods are recalculated in place, keeping their ids; periods already called or paid are
+   * kept as recorded. The fund's schedule and accrual rows are locked first, so concurrent accruals
+   * and fee attachments to capital calls run one after the other.
+   */
+  async accrueFees(fundId: number, asOfDate: Date = new Date()): Promise<ManagementFeeAccrual[]> {
+    const schedule = await this.getSchedule(fundId);
+    if (!schedule) throw new NotFoundError('Management fee schedule for fund', fundId);
+
+    const fees = await this.calculateFees(fundId, asOfDate);
+
+    await db.transaction(async tx => {
+      await tx
+        .select({ id: managementFeeSchedules.id })
+        .from(managementFeeSchedules)
+        .where(eq(managementFeeSchedules.fundId, fundId))
+        .for('update');
+      const existing = await tx
+        .select()
+        .from(managementFeeAccruals)
+        .where(eq(managementFeeAccruals.fundId, fundId))
+        .for('update');
+      const locked = new Set(existing.filter(row => row.status !== 'accrued').map(row => row.periodStart));
+
+      const rows = fees
+        .filter(fee => fee.quarterComplete && !locked.has(formatDate(fee.periodStart)))
+        .map(fee => ({
+          fundId,
+          periodStart: formatDate(fee.periodStart),
+          periodEnd: formatDate(fee.periodEnd),
+          basis: fee.basis,
+          basisAmount: String(fee.basisAmount),
+          rate: fee.rate,
+          grossFee: String(fee.grossFee),
+          offsetAmount: String(fee.offsetAmount),
+          netFee: String(fee.netFee),
+          status: 'accrued' as const
+        }));
+
+      // Accrued periods the schedule no longer produces (e.g. after a start date change) are dropped
+      const periodStarts = rows.map(row => row.periodStart);
+      const stale = existing
+        .filter(row => row.status === 'accrued' && !periodStarts.includes(row.periodStart))
+        .map(row => row.id);
+      if (stale.length > 0) {
+        await tx.delete(managementFeeAccruals).where(inArray(managementFeeAccruals.id, stale));
+      }
+
+      for (const row of rows) {
+        await tx
+          .insert(managementFeeAccruals)
+          .values(row)
+          .onConflictDoUpdate({
+            target: [managementFeeAccruals.fundId, managementFeeAccruals.periodStart],
+            set: {
+              periodEnd: row.periodEnd,
+              basis: row.basis,
+              basisAmount: row.basisAmount,
+              rate: row.rate,
+              grossFee: row.grossFee,
+              offsetAmount: row.offsetAmount,
+              netFee: row.netFee,
+              updatedAt: new Date()
+            },
+            setWhere: eq(managementFeeAccruals.status, 'accrued')
+          });
+      }
+    });
+
+    return this.getFeeHistory(fundId);
+  }
+
+  /**
+   * Get the stored fee history for a fund, oldest quarter first
+   */
+  async getFeeHistory(fundId: number): Promise<ManagementFeeAccrual[]> {
+    return db
+      .select()
+      .from(managementFeeAccruals)
+      .where(eq(managementFeeAccruals.fundId, fundId))
+      .orderBy(asc(managementFeeAccruals.periodStart));
+  }
+
+  /**
+   * Attach accrued fees to a capital call so they are called from LPs with it.
+   * The fees go on the LPs' shares of the call, which are re-split in the same transaction; the call's
+   * own amount is the investment capital and is left alone.
+   */
+  async attachToCapitalCall(accrualIds: number[], capitalCallId: number): Promise<ManagementFeeAccrual[]> {
+    return db.transaction(async tx => {
+      const [call] = await tx.select().from(capitalCalls).where(eq(capitalCalls.id, capitalCallId)).for('update');
+      if (!call) throw new NotFoundError('Capital call', capitalCallId);
+      if (call.status === 'paid' || (call.paidAmount ?? 0) > 0) {
+        throw new ValidationError('Fees cannot be attached to a capital call that has payments', 'capitalCallId', { capitalCallId });
+      }
+
+      const [allocation] = await tx
+        .select({ fundId: fundAllocations.fundId })
+        .from(fundAllocations)
+        .where(eq(fundAllocations.id, call.allocationId));
+      if (!allocation) throw new NotFoundError('Allocation', call.allocationId);
+
+      const accruals = await tx
+        .select()
+        .from(managementFeeAccruals)
+        .where(inArray(managementFeeAccruals.id, accrualIds))
+        .for('update');
+
+      const notAccrued = accruals.filter(accrual => accrual.status !== 'accrued');
+      if (accruals.length !== accrualIds.length || notAccrued.length > 0) {
+        throw new ValidationError('Only existing accrued fees can be attached to a capital call', 'accrualIds');
+      }
+
+      const otherFund = accruals.filter(accrual => accrual.fundId !== allocation.fundId);
+      if (otherFund.length > 0) {
+        throw new ValidationError(
+          'Fees can only be attached to a capital call of the fund they were charged to',
+          'accrualIds',
+          { capitalCallId, fundId: allocation.fundId, accrualIds: otherFund.map(accrual => accrual.id) }
+        );
+      }
+
+      const updated = await tx
+        .update(managementFeeAccruals)
+        .set({ status: 'called', capitalCallId, updatedAt: new Date() })
+        .where(inArray(managementFeeAccruals.id, accrualIds))
+        .returning();
+
+      // Re-split the call so each LP's share includes its portion of the fees
+      const lpShares = await limitedPartnerService.allocateCapitalCall(capitalCallId, tx);
+      if (lpShares.length === 0) {
+        throw new ValidationError('Fees can only be called from a fund with active LP commitments', 'capitalCallId', { capitalCallId });
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Mark called fees as paid
+   */
+  async markPaid(accrualIds: number[]): Promise<ManagementFeeAccrual[]> {
+    return db
+      .update(managementFeeAccruals)
+      .set({ status: 'paid', updatedAt: new Date() })
+      .where(and(inArray(managementFeeAccruals.id, accrualIds), eq(managementFeeAccruals.status, 'called')))
+      .returning();
+  }
+
+  /**
+   * Summarize fees charged, called and paid for a fund
+   */
+  async getFundFeeSummary(fundId: number, asOfDate: Date = new Date()): Promise<FundFeeSummary> {
+    const summaries = await this.getFundFeeSummaries([fundId], asOfDate);
+    return summaries.get(fundId)!;
+  }
+
+  /**
+   * Fee summaries for several funds at once, keyed by fund ID
+   */
+  async getFundFeeSummaries(fundIds: number[], asOfDate: Date = new Date()): Promise<Map<number, FundFeeSummary>> {
+    const feesByFund = await this.calculateFeesForFunds(fundIds, asOfDate);
+    const history = feesByFund.size > 0
+      ? await db
+          .select()
+          .from(managementFeeAccruals)
+          .where(inArray(managementFeeAccruals.fundId, Array.from(feesByFund.keys())))
+      : [];
+
+    const summaries = new Map<number, FundFeeSummary>();
+    for (const fundId of fundIds) {
+      const fees = feesByFund.get(fundId);
+      if (!fees) {
+        summaries.set(fundId, { fundId, hasSchedule: false, feesCharged: 0, feesCalled: 0, feesPaid: 0, offsetsApplied: 0 });
+        continue;
+      }
+
+      const sumWhere = (statuses: ManagementFeeAccrual['status'][]) => history
+        .filter(row => row.fundId === fundId && statuses.includes(row.status))
+        .reduce((sum, row) => sum + Number(row.netFee || 0), 0);
+
+      summaries.set(fundId, {
+        fundId,
+        hasSchedule: true,
+        feesCharged: fees.reduce((sum, fee) => sum + fee.netFee, 0),
+        feesCalled: sumWhere(['called', 'paid']),
+        feesPaid: sumWhere(['paid']),
+        offsetsApplied: fees.reduce((sum, fee) => sum + fee.offsetAmount, 0)
+      });
+    }
+    return summaries;
+  }
+}
+
+// Export singleton instance
+export const managementFeeService = new ManagementFeeService();
@@ -0,0 +1,773 @@
+/**
+ * Meeting Service
+ *
+ * Structured meeting attendees (internal users and external contacts, each with an RSVP state)
+ * and importing .ics invites as meetings on a deal. `meetings.attendees` is kept as a readable
+ * summary of the attendee rows for older screens and the calendar feed.
+ *
+ * Imported events are keyed by their iCalendar UID plus RECURRENCE-ID, so importing an updated
+ * or cancelled invite changes the meetings created from the earlier one instead of duplicating them.
+ *
+ * A recurring meeting, scheduled in the app or imported, is a single series row with an RRULE. Its
+ * occurrences are computed when read; meeting_occurrence_overrides holds cancelled or changed
+ * occurrences, and "this and following" edits split the series into two rows at the edited occurrence.
+ */
+
+import { db } from '../db';
+import {
+  deals,
+  meetingAttendees,
+  meetingOccurrenceOverrides,
+  meetings,
+  timelineEvents,
+  users,
+  type AttendeeRole,
+  type Meeting,
+  type MeetingAttendee,
+  type MeetingOccurrenceOverride,
+  type RsvpStatus
+} from '@shared/schema';
+import { and, eq, gte, inArray, or, sql } from 'drizzle-orm';
+import { parseIcs, type IcsParticipant, type ParsedIcsEvent } from '../utils/ics-parser';
+import { isValidTimeZone } from '../utils/time-zones';
+import { expandSeries, isSeriesOccurrence, parseRRule, splitSeries } from '../utils/rrule';
+import { ApplicationError, NotFoundError, ValidationError } from './type-definitions';
+import { domainEvents } from './events/domain-events';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AttendeeInput {
+  userId?: number;
+  email?: string;
+  name?: string;
+  role?: AttendeeRole;
+  rsvpStatus?: RsvpStatus;
+}
+
+export type MeetingWithAttendees = Meeting & { attendeeList: MeetingAttendee[] };
+
+export interface MeetingImportResult {
+  created: number;
+  updated: number;
+  cancelled: number;
+  meetings: MeetingWithAttendees[];
+}
+
+export type OccurrenceScope = 'this' | 'following';
+
+export interface OccurrenceChanges {
+  title?: string;
+  date?: Date;
+  endDate?: Date | null;
+  location?: string | null;
+  notes?: string | null;
+  /** New rule for the rest of the series; "following" edits only */
+  recurrenceRule?: string;
+}
+
+/** One occurrence of a recurring meeting, with its override applied */
+export interface MeetingOccurrence {
+  meetingId: number;
+  /** Start the occurrence has under the series rule; identifies it for edits */
+  occurrenceDate: Date;
+  title: string;
+  date: Date;
+  endDate: Date | null;
+  location: string | null;
+  notes: string | null;
+  overridden: boolean;
+}
+
+interface ResolvedAttendee {
+  userId: number | null;
+  email: string | null;
+  name: string | null;
+  role: AttendeeRole;
+  rsvpStatus?: RsvpStatus;
+}
+
+/** A meeting_scheduled timeline entry to write for an import */
+interface ScheduledEntry {
+  meeting: Meeting;
+  content: string;
+  metadata: Record<string, any>;
+}
+
+const attendeeKey = (attendee: { email: string | null; name: string | null; userId: number | null }) =>
+  attendee.email ? attendee.email.toLowerCase()
+    : attendee.userId ? `user:${attendee.userId}`
+    : `name:${(attendee.name || '').toLowerCase()}`;
+
+export class MeetingService {
+  /**
+   * Attendee rows for a set of meetings, organizer first
+   */
+  async getAttendees(meetingIds: number[], tx?: Tx): Promise<Map<number, MeetingAttendee[]>> {
+    const byMeeting = new Map<number, MeetingAttendee[]>(meetingIds.map(id => [id, []]));
+    if (meetingIds.length === 0) return byMeeting;
+
+    const rows = await (tx ?? db).select().from(meetingAttendees)
+      .where(inArray(meetingAttendees.meetingId, meetingIds))
+      .orderBy(meetingAttendees.id);
+    for (const row of rows) {
+      byMeeting.get(row.meetingId)?.push(row);
+    }
+    for (const list of Array.from(byMeeting.values())) {
+      list.sort((a, b) => Number(b.role === 'organizer') - Number(a.role === 'organizer'));
+    }
+    return byMeeting;
+  }
+
+  async withAttendees<T extends Meeting>(rows: T[]): Promise<Array<T & { attendeeList: MeetingAttendee[] }>> {
+    const attendees = await this.getAttendees(rows.map(row => row.id));
+    return rows.map(row => ({ ...row, attendeeList: attendees.get(row.id) || [] }));
+  }
+
+  /**
+   * Read the legacy comma-separated attendee text ("Jane Doe <jane@acme.com>, bob@fund.com, Alice")
+   */
+  parseAttendeeText(text: string | null | undefined): AttendeeInput[] {
+    if (!text) return [];
+    return text.split(/[,;\n]/)
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const match = entry.match(/^(.*?)\s*<([^>]+@[^>]+)>$/);
+        if (match) return { name: match[1].replace(/^"|"$/g, '') || undefined, email: match[2] };
+        return entry.includes('@') ? { email: entry } : { name: entry };
+      });
+  }
+
+  /**
+   * Replace a meeting's attendee list. Attendees already on the meeting keep their RSVP unless the
+   * input sets one; entries are matched to internal users by id, email, then full name or username.
+   * Pass a transaction to write the attendees as part of a larger write.
+   */
+  async setAttendees(meetingId: number, inputs: AttendeeInput[], tx?: Tx): Promise<MeetingAttendee[]> {
+    if (!tx) {
+      return db.transaction(inner => this.setAttendees(meetingId, inputs, inner));
+    }
+
+    const resolved = await this.resolveAttendees(inputs);
+
+    const existing = await tx.select().from(meetingAttendees).where(eq(meetingAttendees.meetingId, meetingId));
+    const existingByKey = new Map(existing.map(row => [attendeeKey(row), row]));
+    const keep = new Set<number>();
+
+    for (const attendee of resolved) {
+      const current = existingByKey.get(attendeeKey(attendee));
+      if (current) {
+        keep.add(current.id);
+        const rsvpChanged = attendee.rsvpStatus !== undefined && attendee.rsvpStatus !== current.rsvpStatus;
+        await tx.update(meetingAttendees)
+          .set({
+            userId: attendee.userId,
+            name: attendee.name ?? current.name,
+            role: attendee.role,
+            ...(rsvpChanged ? { rsvpStatus: attendee.rsvpStatus, respondedAt: new Date() } : {})
+          })
+          .where(eq(meetingAttendees.id, current.id));
+      } else {
+        const rsvpStatus = attendee.rsvpStatus ?? 'needs_action';
+        await tx.insert(meetingAttendees).values({
+          meetingId,
+          userId: attendee.userId,
+          email: attendee.email,
+          name: attendee.name,
+          role: attendee.role,
+          rsvpStatus,
+          respondedAt: rsvpStatus === 'needs_action' ? null : new Date()
+        });
+      }
+    }
+
+    const removed = existing.filter(row => !keep.has(row.id)).map(row => row.id);
+    if (removed.length > 0) {
+      await tx.delete(meetingAttendees).where(inArray(meetingAttendees.id, removed));
+    }
+
+    await tx.update(meetings)
+      .set({ attendees: resolved.map(attendee => attendee.name || attendee.email).join(', ') || null })
+      .where(eq(meetings.id, meetingId));
+
+    return (await this.getAttendees([meetingId], tx)).get(meetingId) || [];
+  }
+
+  /**
+   * Record an attendee's response. Internal attendees answer for themselves; the meeting's
+   * creator and admins can record responses for anyone, e.g. replies from external contacts.
+   */
+  async updateRsvp(meetingId: number, attendeeId: number, rsvpStatus: RsvpStatus, actor: { id: number; role: string }): Promise<MeetingAttendee> {
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+    if (!meeting) {
+      throw new NotFoundError('Meeting', meetingId);
+    }
+    const [attendee] = await db.select().from(meetingAttendees)
+      .where(and(eq(meetingAttendees.id, attendeeId), eq(meetingAttendees.meetingId, meetingId)));
+    if (!attendee) {
+      throw new NotFoundError('Meeting attendee', attendeeId);
+    }
+
+    if (attendee.userId !== actor.id && meeting.createdBy !== actor.id && actor.role !== 'admin') {
+      throw new ApplicationError('Only the attendee, the meeting organizer or an admin can change this RSVP', 'FORBIDDEN', 403);
+    }
+
+    const [updated] = await db.update(meetingAttendees)
+      .set({ rsvpStatus, respondedAt: new Date() })
+      .where(eq(meetingAttendees.id, attendeeId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Add a meeting_scheduled event to the deal timeline
+   */
+  async recordScheduled(meeting: Meeting, userId: number, content: string, metadata: Record<string, any> = {}): Promise<void> {
+    const event = await this.insertScheduled(db, { meeting, content, metadata }, userId);
+    domainEvents.emit('timeline.created', { eventId: event.id, dealId: meeting.dealId, eventType: event.eventType });
+  }
+
+  private async insertScheduled(executor: typeof db | Tx, entry: ScheduledEntry, userId: number) {
+    const [event] = await executor.insert(timelineEvents).values({
+      dealId: entry.meeting.dealId,
+      eventType: 'meeting_scheduled',
+      content: entry.content,
+      createdBy: userId,
+      metadata: {
+        meetingId: entry.meeting.id,
+        title: entry.meeting.title,
+        date: entry.meeting.date.toISOString(),
+        ...entry.metadata
+      }
+    }).returning();
+    return event;
+  }
+
+  /**
+   * Check a series definition before it is stored
+   */
+  validateSeries(recurrenceRule: string | null | undefined, timeZone: string | null | undefined): void {
+    if (recurrenceRule) {
+      parseRRule(recurrenceRule);
+    }
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      throw new ValidationError(`Unknown time zone "${timeZone}"`, 'timeZone');
+    }
+  }
+
+  async getOverrides(meetingIds: number[]): Promise<Map<number, MeetingOccurrenceOverride[]>> {
+    const byMeeting = new Map<number, MeetingOccurrenceOverride[]>(meetingIds.map(id => [id, []]));
+    if (meetingIds.length === 0) return byMeeting;
+
+    const rows = await db.select().from(meetingOccurrenceOverrides)
+      .where(inArray(meetingOccurrenceOverrides.meetingId, meetingIds));
+    for (const row of rows) {
+      byMeeting.get(row.meetingId)?.push(row);
+    }
+    return byMeeting;
+  }
+
+  /**
+   * Occurrences of recurring meetings starting within a range. Overridden occurrences are placed
+   * by their changed date, so one moved into the range from outside it is included.
+   */
+  async expandOccurrences(series: Meeting[], range: { from: Date; to: Date }): Promise<MeetingOccurrence[]> {
+    const recurring = series.filter(meeting => meeting.recurrenceRule);
+    const overrides = await this.getOverrides(recurring.map(meeting => meeting.id));
+    const occurrences: MeetingOccurrence[] = [];
+
+    for (const meeting of recurring) {
+      const meetingOverrides = overrides.get(meeting.id) || [];
+      const overridden = new Set(meetingOverrides.map(override => override.occurrenceDate.getTime()));
+
+      const starts = expandSeries(meeting.recurrenceRule!, meeting.date, meeting.timeZone, { from: range.from, to: range.to });
+      for (const start of starts) {
+        if (!overridden.has(start.getTime())) {
+          occurrences.push(this.toOccurrence(meeting, start, null));
+        }
+      }
+      for (const override of meetingOverrides) {
+        const occurrence = this.toOccurrence(meeting, override.occurrenceDate, override);
+        if (!override.cancelled && occurrence.date >= range.from && occurrence.date <= range.to) {
+          occurrences.push(occurrence);
+        }
+      }
+    }
+
+    return occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Change one occurrence of a recurring meeting, or it and every later one. "following" on the
+   * first occurrence edits the whole series; on a later one it ends the series just before it and
+   * starts a new series (with the same attendees) carrying the changes.
+   */
+  async updateOccurrence(meetingId: number, occurrenceDate: Date, scope: OccurrenceScope, changes: OccurrenceChanges): Promise<MeetingWithAttendees> {
+    const meeting = await this.getSeries(meetingId, occurrenceDate);
+
+    if (scope === 'this') {
+      if (changes.recurrenceRule !== undefined) {
+        throw new ValidationError('The recurrence rule can only be changed for this and following occurrences', 'recurrenceRule');
+      }
+      const values = {
+        title: changes.title,
+        date: changes.date,
+        endDate: changes.endDate,
+        location: changes.location,
+        notes: changes.notes,
+        cancelled: false
+      };
+      await db.insert(meetingOccurrenceOverrides)
+        .values({ meetingId, occurrenceDate, ...values })
+        .onConflictDoUpdate({
+          target: [meetingOccurrenceOverrides.meetingId, meetingOccurrenceOverrides.occurrenceDate],
+          set: { ...values, updatedAt: new Date() }
+        });
+      const [withAttendees] = await this.withAttendees([meeting]);
+      return withAttendees;
+    }
+
+    this.validateSeries(changes.recurrenceRule, null);
+    const start = changes.date ?? occurrenceDate;
+    const duration = meeting.endDate ? meeting.endDate.getTime() - meeting.date.getTime() : null;
+    const values = {
+      title: changes.title ?? meeting.title,
+      date: start,
+      endDate: changes.endDate !== undefined ? changes.endDate : duration !== null ? new Date(start.getTime() + duration) : null,
+      location: changes.location !== undefined ? changes.location : meeting.location,
+      notes: changes.notes !== undefined ? changes.notes : meeting.notes,
+      updatedAt: new Date()
+    };
+    // Overrides are keyed by the old occurrence dates, which no longer line up once the times or rule change
+    const reshaped = start.getTime() !== occurrenceDate.getTime()
+      || (changes.recurrenceRule !== undefined && changes.recurrenceRule !== meeting.recurrenceRule);
+    const { head, tail } = splitSeries(meeting.recurrenceRule, meeting.date, meeting.timeZone, occurrenceDate);
+
+    const target = await db.transaction(async tx => {
+      const fromOccurrence = and(
+        eq(meetingOccurrenceOverrides.meetingId, meetingId),
+        gte(meetingOccurrenceOverrides.occurrenceDate, occurrenceDate)
+      );
+
+      if (!head) {
+        if (reshaped) {
+          await tx.delete(meetingOccurrenceOverrides).where(fromOccurrence);
+        }
+        const [updated] = await tx.update(meetings)
+          .set({ ...values, recurrenceRule: changes.recurrenceRule ?? meeting.recurrenceRule })
+          .where(eq(meetings.id, meetingId))
+          .returning();
+        return updated;
+      }
+
+      await tx.update(meetings).set({ recurrenceRule: head, updatedAt: new Date() }).where(eq(meetings.id, meetingId));
+      const [created] = await tx.insert(meetings).values({
+        ...values,
+        dealId: meeting.dealId,
+        attendees: meeting.attendees,
+        recurrenceRule: changes.recurrenceRule ?? tail,
+        timeZone: meeting.timeZone,
+        createdBy: meeting.createdBy
+      }).returning();
+
+      const attendees = await tx.select().from(meetingAttendees).where(eq(meetingAttendees.meetingId, meetingId));
+      if (attendees.length > 0) {
+        await tx.insert(meetingAttendees).values(attendees.map(({ id, meetingId: _, createdAt, ...attendee }) => ({
+          ...attendee,
+          meetingId: created.id
+        })));
+      }
+
+      if (reshaped) {
+        await tx.delete(meetingOccurrenceOverrides).where(fromOccurrence);
+      } else {
+        await tx.update(meetingOccurrenceOverrides).set({ meetingId: created.id }).where(fromOccurrence);
+      }
+      return created;
+    });
+
+    const [withAttendees] = await this.withAttendees([target]);
+    return withAttendees;
+  }
+
+  /**
+   * Cancel one occurrence of a recurring meeting, or end the series before it. Ending a series
+   * at its first occurrence deletes the meeting.
+   */
+  async deleteOccurrence(meetingId: number, occurrenceDate: Date, scope: OccurrenceScope): Promise<void> {
+    const meeting = await this.getSeries(meetingId, occurrenceDate);
+
+    if (scope === 'this') {
+      await db.insert(meetingOccurrenceOverrides)
+        .values({ meetingId, occurrenceDate, cancelled: true })
+        .onConflictDoUpdate({
+          target: [meetingOccurrenceOverrides.meetingId, meetingOccurrenceOverrides.occurrenceDate],
+          set: { cancelled: true, updatedAt: new Date() }
+        });
+      return;
+    }
+
+    const { head } = splitSeries(meeting.recurrenceRule, meeting.date, meeting.timeZone, occurrenceDate);
+    if (!head) {
+      await db.delete(meetings).where(eq(meetings.id, meetingId));
+      return;
+    }
+
+    await db.transaction(async tx => {
+      await tx.update(meetings).set({ recurrenceRule: head, updatedAt: new Date() }).where(eq(meetings.id, meetingId));
+      await tx.delete(meetingOccurrenceOverrides).where(and(
+        eq(meetingOccurrenceOverrides.meetingId, meetingId),
+        gte(meetingOccurrenceOverrides.occurrenceDate, occurrenceDate)
+      ));
+    });
+  }
+
+  /**
+   * Drop a series' overrides, e.g. after its rule or start time was edited directly
+   */
+  async clearOverrides(meetingId: number): Promise<void> {
+    await db.delete(meetingOccurrenceOverrides).where(eq(meetingOccurrenceOverrides.meetingId, meetingId));
+  }
+
+  private async getSeries(meetingId: number, occurrenceDate: Date): Promise<Meeting & { recurrenceRule: string }> {
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, meetingId));
+    if (!meeting) {
+      throw new NotFoundError('Meeting', meetingId);
+    }
+    if (!meeting.recurrenceRule) {
+      throw new ValidationError('This meeting is not a recurring series', 'recurrenceRule');
+    }
+    if (!isSeriesOccurrence(meeting.recurrenceRule, meeting.date, meeting.timeZone, occurrenceDate)) {
+      throw new ValidationError(`${occurrenceDate.toISOString()} is not an occurrence of this meeting`, 'occurrenceDate');
+    }
+    return { ...meeting, recurrenceRule: meeting.recurrenceRule };
+  }
+
+  private toOccurrence(meeting: Meeting, occurrenceDate: Date, override: MeetingOccurrenceOverride | null): MeetingOccurrence {
+    const date = override?.date ?? occurrenceDate;
+    const duration = meeting.endDate ? meeting.endDate.getTime() - meeting.date.getTime() : null;
+    return {
+      meetingId: meeting.id,
+      occurrenceDate,
+      title: override?.title ?? meeting.title,
+      date,
+      endDate: override?.endDate ?? (duration !== null ? new Date(date.getTime() + duration) : null),
+      location: override?.location ?? meeting.location,
+      notes: override?.notes ?? meeting.notes,
+      overridden: override !== null
+    };
+  }
+
+  /**
+   * Create or update meetings on a deal from an iCalendar file, in one transaction. A recurring
+   * event becomes one series row with its RRULE; its changed occurrences and EXDATEs become
+   * occurrence overrides. Cancelled events (METHOD:CANCEL or STATUS:CANCELLED) delete the meetings
+   * imported for them, or cancel the occurrence when only it is cancelled.
+   */
+  async importIcs(text: string, dealId: number, userId: number): Promise<MeetingImportResult> {
+    const [deal] = await db.select({ id: deals.id }).from(deals).where(eq(deals.id, dealId));
+    if (!deal) {
+      throw new NotFoundError('Deal', dealId);
+    }
+
+    const calendar = parseIcs(text);
+    if (calendar.events.length === 0) {
+      throw new ValidationError('The calendar file contains no events', 'file');
+    }
+
+    const byUid = new Map<string, ParsedIcsEvent[]>();
+    for (const event of calendar.events) {
+      byUid.set(event.uid, [...(byUid.get(event.uid) || []), event]);
+    }
+
+    const cancelAll = calendar.method === 'CANCEL';
+    const result: MeetingImportResult = { created: 0, updated: 0, cancelled: 0, meetings: [] };
+
+    const timelineEntries = await db.transaction(async tx => {
+      const entries: Array<{ id: number; dealId: number; eventType: string }> = [];
+
+      for (const [uid, events] of Array.from(byUid.entries())) {
+        const existing = await tx.select().from(meetings)
+          .where(and(eq(meetings.dealId, dealId), eq(meetings.externalUid, uid)))
+          .for('update');
+        const master = events.find(event => !event.recurrenceId);
+        const changed = events.filter(event => event.recurrenceId);
+
+        const scheduled = master
+          ? await this.importSeries(tx, { uid, dealId, userId, cancelAll }, master, changed, existing, result)
+          : await this.importChangedOccurrences(tx, { uid, dealId, userId, cancelAll }, changed, existing, result);
+        if (scheduled) {
+          const event = await this.insertScheduled(tx, scheduled, userId);
+          entries.push({ id: event.id, dealId: event.dealId, eventType: event.eventType });
+        }
+      }
+      return entries;
+    });
+
+    timelineEntries.forEach(event => {
+      domainEvents.emit('timeline.created', { eventId: event.id, dealId: event.dealId, eventType: event.eventType });
+    });
+
+    result.meetings.sort((a, b) => a.date.getTime() - b.date.getTime());
+    return result;
+  }
+
+  /**
+   * Write the events of one UID that include the master event. The file then describes the whole
+   * series, so its overrides replace the stored ones, and meetings kept per occurrence by earlier
+   * imports are folded into the series row.
+   */
+  private async importSeries(
+    tx: Tx,
+    context: { uid: string; dealId: number; userId: number; cancelAll: boolean },
+    master: ParsedIcsEvent,
+    changed: ParsedIcsEvent[],
+    existing: Meeting[],
+    result: MeetingImportResult
+  ): Promise<ScheduledEntry | null> {
+    if (context.cancelAll || master.status === 'CANCELLED') {
+      if (existing.length > 0) {
+        await tx.delete(meetings).where(inArray(meetings.id, existing.map(meeting => meeting.id)));
+        result.cancelled += existing.length;
+      }
+      return null;
+    }
+
+    if (master.rrule) {
+      parseRRule(master.rrule);
+    }
+    const values = {
+      ...this.eventValues(master),
+      recurrenceRule: master.rrule,
+      timeZone: master.rrule ? master.start.timeZone ?? null : null
+    };
+
+    const current = existing.find(meeting => meeting.recurrenceId === null);
+    let meeting: Meeting;
+    if (current) {
+      [meeting] = await tx.update(meetings)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(meetings.id, current.id))
+        .returning();
+      await tx.delete(meetingOccurrenceOverrides).where(eq(meetingOccurrenceOverrides.meetingId, current.id));
+      result.updated++;
+    } else {
+      [meeting] = await tx.insert(meetings).values({
+        ...values,
+        dealId: context.dealId,
+        source: 'ics_import',
+        externalUid: context.uid,
+        createdBy: context.userId
+      }).returning();
+      result.created++;
+    }
+
+    const perOccurrence = existing.filter(row => row.recurrenceId !== null);
+    if (perOccurrence.length > 0) {
+      await tx.delete(meetings).where(inArray(meetings.id, perOccurrence.map(row => row.id)));
+    }
+
+    if (master.rrule) {
+      const overrides = new Map<number, typeof meetingOccurrenceOverrides.$inferInsert>();
+      for (const exdate of master.exdates) {
+        overrides.set(exdate.getTime(), { meetingId: meeting.id, occurrenceDate: exdate, cancelled: true });
+      }
+      for (const event of changed) {
+        overrides.set(event.recurrenceId!.getTime(), this.overrideValues(meeting.id, event, event.status === 'CANCELLED'));
+      }
+      if (overrides.size > 0) {
+        await tx.insert(meetingOccurrenceOverrides).values(Array.from(overrides.values()));
+      }
+    }
+
+    const attendeeList = await this.setAttendees(meeting.id, this.participants(master), tx);
+    result.meetings.push({ ...meeting, attendeeList });
+
+    if (current) return null;
+    return {
+      meeting,
+      content: master.rrule
+        ? `Imported recurring meeting "${meeting.title}" from a calendar invite`
+        : `Imported meeting "${meeting.title}" from a calendar invite`,
+      metadata: { source: 'ics_import', externalUid: context.uid, meetingIds: [meeting.id] }
+    };
+  }
+
+  /**
+   * Write changed or cancelled occurrences sent without their master event. They become overrides
+   * of the series imported earlier; with no series to attach to, each is kept as a meeting of its own.
+   */
+  private async importChangedOccurrences(
+    tx: Tx,
+    context: { uid: string; dealId: number; userId: number; cancelAll: boolean },
+    changed: ParsedIcsEvent[],
+    existing: Meeting[],
+    result: MeetingImportResult
+  ): Promise<ScheduledEntry | null> {
+    const series = existing.find(meeting => meeting.recurrenceId === null && meeting.recurrenceRule);
+    const created: Meeting[] = [];
+
+    for (const event of changed) {
+      const cancelled = context.cancelAll || event.status === 'CANCELLED';
+
+      if (series) {
+        const values = this.overrideValues(series.id, event, cancelled);
+        await tx.insert(meetingOccurrenceOverrides)
+          .values(values)
+          .onConflictDoUpdate({
+            target: [meetingOccurrenceOverrides.meetingId, meetingOccurrenceOverrides.occurrenceDate],
+            set: { ...values, updatedAt: new Date() }
+          });
+        if (cancelled) {
+          result.cancelled++;
+        } else {
+          result.updated++;
+        }
+        continue;
+      }
+
+      const recurrenceId = event.recurrenceId!.toISOString();
+      const current = existing.find(meeting => meeting.recurrenceId === recurrenceId);
+      if (cancelled) {
+        if (current) {
+          await tx.delete(meetings).where(eq(meetings.id, current.id));
+          result.cancelled++;
+        }
+        continue;
+      }
+
+      let meeting: Meeting;
+      if (current) {
+        [meeting] = await tx.update(meetings)
+          .set({ ...this.eventValues(event), updatedAt: new Date() })
+          .where(eq(meetings.id, current.id))
+          .returning();
+        result.updated++;
+      } else {
+        [meeting] = await tx.insert(meetings).values({
+          ...this.eventValues(event),
+          dealId: context.dealId,
+          source: 'ics_import',
+          externalUid: context.uid,
+          recurrenceId,
+          createdBy: context.userId
+        }).returning();
+        created.push(meeting);
+        result.created++;
+      }
+
+      const attendeeList = await this.setAttendees(meeting.id, this.participants(event), tx);
+      result.meetings.push({ ...meeting, attendeeList });
+    }
+
+    if (series && changed.length > 0) {
+      const attendees = await this.getAttendees([series.id], tx);
+      result.meetings.push({ ...series, attendeeList: attendees.get(series.id) || [] });
+    }
+
+    if (created.length === 0) return null;
+    const first = created.reduce((earliest, meeting) => meeting.date < earliest.date ? meeting : earliest);
+    return {
+      meeting: first,
+      content: created.length === 1
+        ? `Imported meeting "${first.title}" from a calendar invite`
+        : `Imported ${created.length} occurrences of "${first.title}" from a calendar invite`,
+      metadata: { source: 'ics_import', externalUid: context.uid, meetingIds: created.map(meeting => meeting.id) }
+    };
+  }
+
+  /** Meeting columns taken from an imported event */
+  private eventValues(event: ParsedIcsEvent) {
+    const duration = event.end ? event.end.instant.getTime() - event.start.instant.getTime() : null;
+    return {
+      title: event.summary || '(No title)',
+      date: event.start.instant,
+      endDate: duration !== null && duration > 0 ? new Date(event.start.instant.getTime() + duration) : null,
+      location: event.location,
+      notes: event.description
+    };
+  }
+
+  /** Override of the series occurrence an imported event with a RECURRENCE-ID changes */
+  private overrideValues(meetingId: number, event: ParsedIcsEvent, cancelled: boolean) {
+    return {
+      meetingId,
+      occurrenceDate: event.recurrenceId!,
+      ...this.eventValues(event),
+      cancelled
+    };
+  }
+
+  /** Organizer first, then attendees, without duplicates */
+  private participants(event: ParsedIcsEvent): AttendeeInput[] {
+    const all: IcsParticipant[] = event.organizer ? [event.organizer, ...event.attendees] : event.attendees;
+    const seen = new Set<string>();
+    const inputs: AttendeeInput[] = [];
+    for (const participant of all) {
+      const key = participant.email || participant.name;
+      if (!key || seen.has(key.toLowerCase())) continue;
+      seen.add(key.toLowerCase());
+      inputs.push({
+        email: participant.email ?? undefined,
+        name: participant.name ?? undefined,
+        role: participant.role,
+        rsvpStatus: participant.status
+      });
+    }
+    return inputs;
+  }
+
+  private async resolveAttendees(inputs: AttendeeInput[]): Promise<ResolvedAttendee[]> {
+    const userIds = inputs.map(input => input.userId).filter((id): id is number => id !== undefined);
+    const emails = inputs.map(input => input.email?.toLowerCase()).filter((email): email is string => !!email);
+    const names = inputs.filter(input => !input.userId && !input.email && input.name).map(input => input.name!.toLowerCase());
+
+    const conditions = [
+      userIds.length ? inArray(users.id, userIds) : undefined,
+      emails.length ? inArray(sql`lower(${users.email})`, emails) : undefined,
+      names.length ? inArray(sql`lower(${users.fullName})`, names) : undefined,
+      names.length ? inArray(sql`lower(${users.username})`, names) : undefined
+    ].filter(Boolean);
+    const matches = conditions.length
+      ? await db.select({ id: users.id, email: users.email, fullName: users.fullName, username: users.username })
+        .from(users)
+        .where(or(...conditions))
+      : [];
+
+    const resolved = new Map<string, ResolvedAttendee>();
+    for (const input of inputs) {
+      const email = input.email?.trim().toLowerCase();
+      const name = input.name?.trim();
+      const user = input.userId !== undefined
+        ? matches.find(match => match.id === input.userId)
+        : email
+          ? matches.find(match => match.email.toLowerCase() === email)
+          : matches.find(match => match.fullName.toLowerCase() === name?.toLowerCase() || match.username.toLowerCase() === name?.toLowerCase());
+
+      if (input.userId !== undefined && !user) {
+        throw new NotFoundError('User', input.userId);
+      }
+      if (!user && !email && !name) {
+        throw new ValidationError('Each attendee needs a user, an email address or a name', 'attendeeList');
+      }
+
+      const attendee: ResolvedAttendee = {
+        userId: user?.id ?? null,
+        email: user ? user.email.toLowerCase() : email || null,
+        name: name || user?.fullName || null,
+        role: input.role ?? 'required',
+        rsvpStatus: input.rsvpStatus
+      };
+      const key = attendeeKey(attendee);
+      // The organizer entry wins over a duplicate attendee entry for the same person
+      if (!resolved.has(key) || attendee.role === 'organizer') {
+        resolved.set(key, attendee);
+      }
+    }
+
+    return Array.from(resolved.values());
+  }
+}
+
+// Export singleton instance
+export const meetingService = new MeetingService();
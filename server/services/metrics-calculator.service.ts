@@ -7,6 +7,7 @@ import { db } from '../db';
 import { fundAllocations, capitalCalls, distributions } from '@shared/schema';
 import { eq, sum, and } from 'drizzle-orm';
 import { AllocationMetrics, FundPerformanceMetrics, CapitalCallSummary, DatabaseError } from './type-definitions';
+import { irrCalculator } from './irr-calculator.service';
 
 export class MetricsCalculatorService {
   /**
@@ -52,6 +53,9 @@ export class MetricsCalculatorService {
         moic = (currentValue + totalDistributions) / totalPaid;
       }
 
+      // XIRR over dated contributions, distributions and current market value
+      const { irr } = await irrCalculator.calculateAllocationIrr(allocationId);
+
       const metrics: AllocationMetrics = {
         totalInvested,
         currentValue,
@@ -59,6 +63,7 @@ export class MetricsCalculatorService {
         totalCalled,
         totalPaid,
         moic,
+        irr: irr ?? undefined,
         unrealized: currentValue
       };
 
@@ -127,6 +132,7 @@ export class MetricsCalculatorService {
       const moic = totalPaid > 0 ? (totalCurrentValue + totalDistributions) / totalPaid : 1;
       const dpi = totalPaid > 0 ? totalDistributions / totalPaid : 0; // Distributions to Paid-In
       const tvpi = totalPaid > 0 ? (totalCurrentValue + totalDistributions) / totalPaid : 0; // Total Value to Paid-In
+      const { irr } = await irrCalculator.calculateFundIrr(fundId);
 
       return {
         totalCommitments,
@@ -135,6 +141,7 @@ export class MetricsCalculatorService {
         totalDistributions,
         netCashFlow,
         moic,
+        irr: irr ?? undefined,
         dpi,
         tvpi
       };
@@ -196,14 +203,16 @@ export class MetricsCalculatorService {
         .set({
           totalReturned: metrics.distributions,
           marketValue: metrics.currentValue,
-          moic: metrics.moic
+          moic: metrics.moic,
+          irr: metrics.irr ?? 0
         })
         .where(eq(fundAllocations.id, allocationId));
 
       console.log(`✅ Updated metrics for allocation ${allocationId}:`, {
         moic: metrics.moic,
         totalReturned: metrics.distributions,
-        marketValue: metrics.currentValue
+        marketValue: metrics.currentValue,
+        irr: metrics.irr
       });
     } catch (error) {
       console.error('Error updating allocation metrics:', error);
@@ -0,0 +1,382 @@
+/**
+ * Notification Engine
+ *
+ * Turns domain events into in-app notifications. Each rule maps one event to a
+ * notification type and a set of recipient groups (deal assignees, deal starrers,
+ * partners, or the user the event is about). The user who caused the event is never
+ * notified, and a per-rule dedupe key keeps repeated events from stacking up.
+ * Each recipient's notification preferences decide whether it shows in-app, is
+ * emailed, and/or goes into their digest.
+ * Capital call reminders come from a periodic sweep rather than a request.
+ */
+
+import { db } from '../db';
+import {
+  capitalCalls,
+  dealAssignments,
+  dealStars,
+  deals,
+  fundAllocations,
+  notifications,
+  users,
+  type Deal,
+  type Notification,
+  type PipelineStage
+} from '@shared/schema';
+import { and, eq, gte, inArray, isNotNull, lte } from 'drizzle-orm';
+import { domainEvents, type DomainEventMap, type DomainEventName } from './events/domain-events';
+import { notificationPreferencesService, type NotificationCategory } from './notification-preferences.service';
+import { pipelineService } from './pipeline.service';
+import { jobQueue } from './queue-processor.service';
+import { capitalCallsConfig } from '../config/capital-calls-config';
+import { formatCurrency } from '../utils/format';
+
+export type RecipientGroup = 'assignees' | 'starrers' | 'partners' | 'assignee';
+
+export interface NotificationContent {
+  title: string;
+  message: string;
+}
+
+export interface NotificationRule<K extends DomainEventName> {
+  event: K;
+  type: NotificationCategory;
+  recipients: RecipientGroup[] | ((payload: DomainEventMap[K]) => RecipientGroup[]);
+  dedupeKey: (payload: DomainEventMap[K]) => string;
+  /** Identical keys within this window are dropped; omit to send a key at most once */
+  dedupeWindowHours?: number;
+  build: (payload: DomainEventMap[K], deal: Deal) => NotificationContent | Promise<NotificationContent>;
+}
+
+type AnyNotificationRule = { [K in DomainEventName]: NotificationRule<K> }[DomainEventName];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const OPEN_CAPITAL_CALL_STATUSES = ['called', 'partially_paid', 'overdue'] as const;
+// Calls overdue for longer than this were reported by earlier sweeps
+const OVERDUE_LOOKBACK_DAYS = 30;
+
+// Moves into a decision stage (invested or rejected) need a partner's attention, not just the deal team's
+const PARTNER_STAGE_CATEGORIES = new Set<PipelineStage['category']>(['invested', 'rejected']);
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+export const NOTIFICATION_RULES: AnyNotificationRule[] = [
+  {
+    event: 'deal.created',
+    type: 'deal',
+    recipients: ['partners'],
+    dedupeKey: p => `deal:${p.dealId}`,
+    build: (_p, deal) => ({
+      title: 'New deal added',
+      message: `${deal.name} was added to the pipeline`
+    })
+  },
+  {
+    event: 'deal.assigned',
+    type: 'assignment',
+    recipients: ['assignee'],
+    dedupeKey: p => `assignment:${p.dealId}:${p.assigneeId}`,
+    dedupeWindowHours: 1,
+    build: (_p, deal) => ({
+      title: 'You were assigned to a deal',
+      message: `You were assigned to ${deal.name}`
+    })
+  },
+  {
+    event: 'deal.stage_changed',
+    type: 'stage_change',
+    recipients: p => PARTNER_STAGE_CATEGORIES.has(p.toCategory)
+      ? ['assignees', 'starrers', 'partners']
+      : ['assignees', 'starrers'],
+    // Dragging a card back and forth should not produce a notification per drop
+    dedupeKey: p => `stage:${p.dealId}:${p.toStage}`,
+    dedupeWindowHours: 1,
+    build: async (p, deal) => {
+      // Labels come from the deal's own pipeline, so custom stages read as their names
+      const stageLabel = await pipelineService.getStageLabeler();
+      const label = (stage: string) => stageLabel({ pipelineId: deal.pipelineId, stage });
+      return {
+        title: 'Deal stage changed',
+        message: `${deal.name} moved from ${label(p.fromStage)} to ${label(p.toStage)}`
+      };
+    }
+  },
+  {
+    event: 'memo.created',
+    type: 'memo',
+    recipients: ['assignees', 'starrers'],
+    dedupeKey: p => `memo:${p.memoId}`,
+    build: (_p, deal) => ({
+      title: 'New memo added',
+      message: `A new memo was added to ${deal.name}`
+    })
+  },
+  {
+    event: 'capital_call.created',
+    type: 'capital_call',
+    recipients: ['assignees', 'partners'],
+    dedupeKey: p => `capital_call:${p.capitalCallId}`,
+    build: (p, deal) => ({
+      title: 'Capital call issued',
+      message: `${formatCurrency(p.amount)} called for ${deal.name}${p.dueDate ? `, due ${formatDate(p.dueDate)}` : ''}`
+    })
+  },
+  {
+    event: 'capital_call.due',
+    type: 'capital_call',
+    recipients: ['assignees', 'partners'],
+    dedupeKey: p => `capital_call_due:${p.capitalCallId}:${p.dueDate.toISOString().slice(0, 10)}:${p.reminder}`,
+    build: (p, deal) => p.reminder === 'overdue'
+      ? {
+        title: 'Capital call overdue',
+        message: `${formatCurrency(p.outstandingAmount)} for ${deal.name} was due ${formatDate(p.dueDate)}`
+      }
+      : {
+        title: 'Capital call due soon',
+        message: `${formatCurrency(p.outstandingAmount)} for ${deal.name} is due ${p.daysUntilDue === 0 ? 'today' : `in ${p.daysUntilDue} day${p.daysUntilDue === 1 ? '' : 's'}`}`
+      }
+  },
+  {
+    event: 'closing.scheduled',
+    type: 'closing',
+    recipients: ['assignees', 'starrers', 'partners'],
+    dedupeKey: p => `closing:${p.closingEventId}:scheduled`,
+    build: (p, deal) => ({
+      title: 'Closing scheduled',
+      message: `${p.eventName} for ${deal.name} is scheduled for ${formatDate(p.scheduledDate)}`
+    })
+  },
+  {
+    event: 'closing.rescheduled',
+    type: 'closing',
+    recipients: ['assignees', 'starrers', 'partners'],
+    dedupeKey: p => `closing:${p.closingEventId}:date:${p.scheduledDate.toISOString().slice(0, 10)}`,
+    build: (p, deal) => ({
+      title: 'Closing rescheduled',
+      message: `${p.eventName} for ${deal.name} moved to ${formatDate(p.scheduledDate)}`
+    })
+  },
+  {
+    event: 'closing.status_changed',
+    type: 'closing',
+    recipients: ['assignees', 'starrers', 'partners'],
+    dedupeKey: p => `closing:${p.closingEventId}:status:${p.status}`,
+    build: (p, deal) => ({
+      title: `Closing ${p.status}`,
+      message: `${p.eventName} for ${deal.name} is now ${p.status}`
+    })
+  }
+];
+
+export class NotificationEngineService {
+  private unsubscribers: Array<() => void> = [];
+  private sweepTimer: NodeJS.Timeout | null = null;
+  // Keys being written right now, so two simultaneous events cannot both pass the dedupe check
+  private inFlight = new Set<string>();
+
+  /**
+   * Subscribe every rule to the event bus and start the capital call due sweep
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    for (const rule of NOTIFICATION_RULES) {
+      this.unsubscribers.push(
+        domainEvents.on(rule.event, async payload => {
+          await this.apply(rule as NotificationRule<any>, payload);
+        })
+      );
+    }
+
+    const sweep = () => this.sweepCapitalCallsDue().catch(error =>
+      console.error('Capital call due sweep failed:', error)
+    );
+    sweep();
+    this.sweepTimer = setInterval(sweep, DUE_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    console.log(`Notification engine started with ${NOTIFICATION_RULES.length} rules`);
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Run one rule against one event. Returns the notifications that were created.
+   */
+  async apply<K extends DomainEventName>(rule: NotificationRule<K>, payload: DomainEventMap[K]): Promise<Notification[]> {
+    const event = payload as DomainEventMap[K] & { dealId: number; actorId?: number; assigneeId?: number };
+
+    const [deal] = await db.select().from(deals).where(eq(deals.id, event.dealId));
+    if (!deal) return [];
+
+    const groups = typeof rule.recipients === 'function' ? rule.recipients(payload) : rule.recipients;
+    const recipients = await this.resolveRecipients(groups, deal.id, event.assigneeId);
+    if (event.actorId !== undefined) {
+      recipients.delete(event.actorId);
+    }
+    if (recipients.size === 0) return [];
+
+    const { title, message } = await rule.build(payload, deal);
+    const dedupeKey = rule.dedupeKey(payload);
+    const channelsByUser = await notificationPreferencesService.getChannelsForUsers(Array.from(recipients), rule.type);
+    const emailRecipients: number[] = [];
+    const created: Notification[] = [];
+
+    for (const [userId, channels] of Array.from(channelsByUser)) {
+      if (!channels.inApp && !channels.email && !channels.digest) continue;
+
+      const lockKey = `${userId}:${dedupeKey}`;
+      if (this.inFlight.has(lockKey)) continue;
+      this.inFlight.add(lockKey);
+      try {
+        if (await this.isDuplicate(userId, dedupeKey, rule.dedupeWindowHours)) continue;
+
+        // The row is written even for email-only recipients so later repeats are still deduped
+        const [notification] = await db.insert(notifications).values({
+          userId,
+          title,
+          message,
+          type: rule.type,
+          relatedId: deal.id,
+          isRead: !channels.inApp,
+          dedupeKey,
+          inApp: channels.inApp,
+          includeInDigest: channels.digest
+        }).returning();
+        created.push(notification);
+        if (channels.inApp) domainEvents.emit('notification.created', { notification });
+        if (channels.email) emailRecipients.push(userId);
+      } finally {
+        this.inFlight.delete(lockKey);
+      }
+    }
+
+    await this.queueEmails(emailRecipients, title, message, deal.id);
+    return created;
+  }
+
+  /**
+   * Raise capital_call.due for open calls that crossed a reminder threshold or went overdue.
+   * Reminders are bucketed by the configured schedule (e.g. 7, 3 and 1 days out), so a
+   * missed sweep still sends the nearest reminder and the dedupe key keeps it to one per bucket.
+   */
+  async sweepCapitalCallsDue(now: Date = new Date()): Promise<number> {
+    const schedule = [...capitalCallsConfig.getConfig().notifications.reminderSchedule].sort((a, b) => a - b);
+    const horizon = new Date(now.getTime() + (schedule[schedule.length - 1] ?? 0) * DAY_MS + DAY_MS);
+    const overdueFloor = new Date(now.getTime() - OVERDUE_LOOKBACK_DAYS * DAY_MS);
+
+    const openCalls = await db
+      .select({
+        id: capitalCalls.id,
+        dueDate: capitalCalls.dueDate,
+        callAmount: capitalCalls.callAmount,
+        paidAmount: capitalCalls.paidAmount,
+        dealId: fundAllocations.dealId
+      })
+      .from(capitalCalls)
+      .innerJoin(fundAllocations, eq(capitalCalls.allocationId, fundAllocations.id))
+      .where(and(
+        isNotNull(capitalCalls.dueDate),
+        inArray(capitalCalls.status, [...OPEN_CAPITAL_CALL_STATUSES]),
+        gte(capitalCalls.dueDate, overdueFloor),
+        lte(capitalCalls.dueDate, horizon)
+      ));
+
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    let raised = 0;
+
+    for (const call of openCalls) {
+      const dueDate = call.dueDate as Date;
+      const dueDay = Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate());
+      const daysUntilDue = Math.round((dueDay - today) / DAY_MS);
+      const reminder = daysUntilDue < 0 ? 'overdue' as const : schedule.find(days => daysUntilDue <= days);
+      if (reminder === undefined) continue;
+
+      domainEvents.emit('capital_call.due', {
+        capitalCallId: call.id,
+        dealId: call.dealId,
+        outstandingAmount: Math.max(0, call.callAmount - (call.paidAmount || 0)),
+        dueDate,
+        daysUntilDue,
+        reminder
+      });
+      raised++;
+    }
+
+    return raised;
+  }
+
+  private async queueEmails(userIds: number[], subject: string, body: string, dealId: number): Promise<void> {
+    if (userIds.length === 0) return;
+
+    const recipients = await db.select({ email: users.email })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    for (const { email } of recipients) {
+      await jobQueue.addJob('email-notification', { to: email, subject, body, dealId });
+    }
+  }
+
+  private async resolveRecipients(groups: RecipientGroup[], dealId: number, assigneeId?: number): Promise<Set<number>> {
+    const recipients = new Set<number>();
+
+    for (const group of groups) {
+      switch (group) {
+        case 'assignee':
+          if (assigneeId !== undefined) recipients.add(assigneeId);
+          break;
+        case 'assignees': {
+          const rows = await db.select({ userId: dealAssignments.userId })
+            .from(dealAssignments)
+            .where(eq(dealAssignments.dealId, dealId));
+          rows.forEach(row => recipients.add(row.userId));
+          break;
+        }
+        case 'starrers': {
+          const rows = await db.select({ userId: dealStars.userId })
+            .from(dealStars)
+            .where(eq(dealStars.dealId, dealId));
+          rows.forEach(row => recipients.add(row.userId));
+          break;
+        }
+        case 'partners': {
+          const rows = await db.select({ id: users.id })
+            .from(users)
+            .where(eq(users.role, 'partner'));
+          rows.forEach(row => recipients.add(row.id));
+          break;
+        }
+      }
+    }
+
+    return recipients;
+  }
+
+  private async isDuplicate(userId: number, dedupeKey: string, windowHours?: number): Promise<boolean> {
+    const conditions = [
+      eq(notifications.userId, userId),
+      eq(notifications.dedupeKey, dedupeKey)
+    ];
+    if (windowHours !== undefined) {
+      conditions.push(gte(notifications.createdAt, new Date(Date.now() - windowHours * 60 * 60 * 1000)));
+    }
+
+    const [existing] = await db.select({ id: notifications.id })
+      .from(notifications)
+      .where(and(...conditions))
+      .limit(1);
+    return Boolean(existing);
+  }
+}
+
+// Export singleton instance
+export const notificationEngine = new NotificationEngineService();
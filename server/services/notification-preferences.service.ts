@@ -0,0 +1,159 @@
+/**
+ * Notification Preferences Service
+ *
+ * Stores which channels (in-app, email, digest) each user wants for each notification
+ * category. Users without a saved row for a category get their role's default, so a new
+ * partner or intern is configured sensibly before ever opening Settings.
+ */
+
+import { db } from '../db';
+import { notificationPreferences, users, type NotificationPreference, type User } from '@shared/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+export type NotificationCategory = NotificationPreference['category'];
+
+export type NotificationChannel = 'inApp' | 'email' | 'digest';
+
+export type ChannelSettings = Record<NotificationChannel, boolean>;
+
+export interface NotificationPreferenceView extends ChannelSettings {
+  category: NotificationCategory;
+  label: string;
+  description: string;
+  /** True when nothing is saved and the role default applies */
+  isDefault: boolean;
+}
+
+export interface NotificationPreferenceUpdate extends Partial<ChannelSettings> {
+  category: NotificationCategory;
+}
+
+export const NOTIFICATION_CATEGORIES: Array<{ category: NotificationCategory; label: string; description: string }> = [
+  { category: 'assignment', label: 'Assignments', description: 'You are assigned to a deal' },
+  { category: 'deal', label: 'New Deals', description: 'A new deal is added to the pipeline' },
+  { category: 'stage_change', label: 'Stage Changes', description: 'A deal you follow moves to another stage' },
+  { category: 'memo', label: 'Memos', description: 'A memo is added to a deal you follow' },
+  { category: 'capital_call', label: 'Capital Calls', description: 'A capital call is issued, coming due or overdue' },
+  { category: 'closing', label: 'Closings', description: 'A closing is scheduled, moved or completed' }
+];
+
+const ALL_CHANNELS: ChannelSettings = { inApp: true, email: false, digest: false };
+
+// Role overrides on top of ALL_CHANNELS; partners want capital calls by email only,
+// interns only get pinged for their own assignments and read the rest in the digest
+const ROLE_DEFAULTS: Partial<Record<User['role'], Partial<Record<NotificationCategory, Partial<ChannelSettings>>>>> = {
+  partner: {
+    capital_call: { inApp: false, email: true, digest: true },
+    closing: { email: true },
+    deal: { digest: true },
+    stage_change: { digest: true }
+  },
+  intern: {
+    deal: { inApp: false, digest: true },
+    stage_change: { inApp: false, digest: true },
+    memo: { inApp: false, digest: true },
+    capital_call: { inApp: false },
+    closing: { inApp: false, digest: true }
+  }
+};
+
+export class NotificationPreferencesService {
+  /**
+   * Effective preferences for every category, saved values over role defaults
+   */
+  async getPreferences(userId: number): Promise<NotificationPreferenceView[]> {
+    const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const saved = await db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    const savedByCategory = new Map(saved.map(row => [row.category, row]));
+
+    return NOTIFICATION_CATEGORIES.map(({ category, label, description }) => {
+      const row = savedByCategory.get(category);
+      const channels = row
+        ? { inApp: row.inApp, email: row.email, digest: row.digest }
+        : this.getRoleDefault(user.role, category);
+      return { category, label, description, ...channels, isDefault: !row };
+    });
+  }
+
+  /**
+   * Save channel settings for one or more categories. Channels left out keep their
+   * current effective value.
+   */
+  async updatePreferences(userId: number, updates: NotificationPreferenceUpdate[]): Promise<NotificationPreferenceView[]> {
+    const categories = new Set(NOTIFICATION_CATEGORIES.map(c => c.category));
+    for (const update of updates) {
+      if (!categories.has(update.category)) {
+        throw new ValidationError(`Unknown notification category: ${update.category}`, 'category');
+      }
+    }
+
+    const current = await this.getPreferences(userId);
+    const currentByCategory = new Map(current.map(pref => [pref.category, pref]));
+
+    await db.transaction(async (tx) => {
+      for (const update of updates) {
+        const existing = currentByCategory.get(update.category)!;
+        const values = {
+          inApp: update.inApp ?? existing.inApp,
+          email: update.email ?? existing.email,
+          digest: update.digest ?? existing.digest,
+          updatedAt: new Date()
+        };
+        await tx.insert(notificationPreferences)
+          .values({ userId, category: update.category, ...values })
+          .onConflictDoUpdate({
+            target: [notificationPreferences.userId, notificationPreferences.category],
+            set: values
+          });
+      }
+    });
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Drop saved values so the role defaults apply again
+   */
+  async resetPreferences(userId: number): Promise<NotificationPreferenceView[]> {
+    await db.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Channel settings for many users at once, for fan-out by the notification engine
+   */
+  async getChannelsForUsers(userIds: number[], category: NotificationCategory): Promise<Map<number, ChannelSettings>> {
+    const result = new Map<number, ChannelSettings>();
+    if (userIds.length === 0) return result;
+
+    const [recipients, saved] = await Promise.all([
+      db.select({ id: users.id, role: users.role }).from(users).where(inArray(users.id, userIds)),
+      db.select().from(notificationPreferences).where(and(
+        inArray(notificationPreferences.userId, userIds),
+        eq(notificationPreferences.category, category)
+      ))
+    ]);
+    const savedByUser = new Map(saved.map(row => [row.userId, row]));
+
+    for (const recipient of recipients) {
+      const row = savedByUser.get(recipient.id);
+      result.set(recipient.id, row
+        ? { inApp: row.inApp, email: row.email, digest: row.digest }
+        : this.getRoleDefault(recipient.role, category));
+    }
+    return result;
+  }
+
+  getRoleDefault(role: User['role'], category: NotificationCategory): ChannelSettings {
+    return { ...ALL_CHANNELS, ...ROLE_DEFAULTS[role]?.[category] };
+  }
+}
+
+// Export singleton instance
+export const notificationPreferencesService = new NotificationPreferencesService();
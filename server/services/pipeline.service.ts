@@ -0,0 +1,419 @@
+/**
+ * Pipeline Service
+ *
+ * Admin-defined deal pipelines: ordered stages with labels, colors and gate rules. Deals without a
+ * pipeline follow the default one, which is seeded from the original venture stages the first time
+ * pipelines are read.
+ *
+ * Gate rules belong to the stage they guard and are checked whenever a deal enters that stage,
+ * whichever direction it moves in. Failures are reported together in one ValidationError whose
+ * context lists each failed rule.
+ */
+
+import { db } from '../db';
+import {
+  DealStageColors,
+  DealStageLabels,
+  deals,
+  miniMemos,
+  pipelineStages,
+  pipelines,
+  type Deal,
+  type Pipeline,
+  type PipelineStage,
+  type PipelineWithStages,
+  type StageGateRule
+} from '@shared/schema';
+import { and, asc, count, eq, inArray, isNull, notInArray, or } from 'drizzle-orm';
+import { icVoteService } from './ic-vote.service';
+import { ApplicationError, NotFoundError, ValidationError } from './type-definitions';
+import {
+  evaluateStageGates,
+  gateFailureError,
+  plural,
+  resolveStageChange,
+  type GateFailure
+} from './pipelines/stage-gates';
+
+export type { GateFailure };
+
+export interface PipelineStageInput {
+  key: string;
+  label: string;
+  color?: string;
+  category?: PipelineStage['category'];
+  gateRules?: StageGateRule[];
+}
+
+export interface PipelineInput {
+  name: string;
+  description?: string | null;
+  isDefault?: boolean;
+  stages: PipelineStageInput[];
+}
+
+export interface StageGateStatus {
+  stage: string;
+  label: string;
+  passed: boolean;
+  failures: GateFailure[];
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DEFAULT_PIPELINE_NAME = 'Venture';
+const SINGLE_DEFAULT_INDEX = 'pipelines_single_default';
+const STAGE_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const DEFAULT_STAGE_CATEGORIES: Record<string, PipelineStage['category']> = {
+  invested: 'invested',
+  rejected: 'rejected'
+};
+
+// Postgres unique violation on the index that allows only one default pipeline
+const isSecondDefault = (error: unknown) => {
+  const pgError = error as { code?: string; constraint?: string };
+  return pgError?.code === '23505' && pgError.constraint === SINGLE_DEFAULT_INDEX;
+};
+
+const defaultConflict = () => new ApplicationError(
+  'Another pipeline was made the default at the same time; reload and try again',
+  'DEFAULT_PIPELINE_CONFLICT',
+  409
+);
+
+export class PipelineService {
+  async list(): Promise<PipelineWithStages[]> {
+    await this.ensureDefaultPipeline();
+
+    const [pipelineRows, stageRows] = await Promise.all([
+      db.select().from(pipelines).orderBy(asc(pipelines.id)),
+      db.select().from(pipelineStages).orderBy(asc(pipelineStages.pipelineId), asc(pipelineStages.position))
+    ]);
+
+    return pipelineRows.map(pipeline => ({
+      ...pipeline,
+      stages: stageRows.filter(stage => stage.pipelineId === pipeline.id)
+    }));
+  }
+
+  async get(id: number): Promise<PipelineWithStages> {
+    const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, id));
+    if (!pipeline) {
+      throw new NotFoundError('Pipeline', id);
+    }
+    return { ...pipeline, stages: await this.getStages(id) };
+  }
+
+  async getDefault(): Promise<PipelineWithStages> {
+    const pipeline = await this.ensureDefaultPipeline();
+    return { ...pipeline, stages: await this.getStages(pipeline.id) };
+  }
+
+  /**
+   * The pipeline a deal follows; null means the default pipeline
+   */
+  async getForDeal(deal: { pipelineId?: number | null }): Promise<PipelineWithStages> {
+    return deal.pipelineId ? this.get(deal.pipelineId) : this.getDefault();
+  }
+
+  /**
+   * Every stage key used by any pipeline, for validating stage filters
+   */
+  async getStageKeys(): Promise<string[]> {
+    await this.ensureDefaultPipeline();
+    const rows = await db.selectDistinct({ key: pipelineStages.key }).from(pipelineStages);
+    return rows.map(row => row.key);
+  }
+
+  /**
+   * Returns a lookup from a deal to the label of its stage in its own pipeline
+   */
+  async getStageLabeler(): Promise<(deal: Pick<Deal, 'pipelineId' | 'stage'>) => string> {
+    const all = await this.list();
+    const defaultId = all.find(pipeline => pipeline.isDefault)?.id;
+    const labels = new Map(all.map(pipeline => [
+      pipeline.id,
+      new Map(pipeline.stages.map(stage => [stage.key, stage.label]))
+    ]));
+
+    return deal => labels.get(deal.pipelineId ?? defaultId!)?.get(deal.stage) ?? deal.stage;
+  }
+
+  async create(input: PipelineInput, userId: number): Promise<PipelineWithStages> {
+    this.validateStages(input.stages);
+    await this.ensureDefaultPipeline();
+    await this.assertNameAvailable(input.name);
+
+    const id = await db.transaction(async tx => {
+      if (input.isDefault) {
+        await this.releaseDefault(tx);
+      }
+
+      const [pipeline] = await tx.insert(pipelines).values({
+        name: input.name,
+        description: input.description ?? null,
+        isDefault: input.isDefault ?? false,
+        createdBy: userId
+      }).returning();
+
+      await tx.insert(pipelineStages).values(input.stages.map((stage, position) => ({
+        ...this.toStageValues(stage, position),
+        pipelineId: pipeline.id
+      })));
+      return pipeline.id;
+    }).catch(error => {
+      throw isSecondDefault(error) ? defaultConflict() : error;
+    });
+
+    return this.get(id);
+  }
+
+  /**
+   * Update a pipeline. When stages are given they replace the current list in order, matched by
+   * key; a stage that deals are still in cannot be removed.
+   */
+  async update(id: number, input: Partial<PipelineInput>): Promise<PipelineWithStages> {
+    const current = await this.get(id);
+
+    if (input.name !== undefined && input.name !== current.name) {
+      await this.assertNameAvailable(input.name);
+    }
+    if (input.isDefault === false && current.isDefault) {
+      throw new ValidationError('Make another pipeline the default instead', 'isDefault');
+    }
+
+    if (input.stages) {
+      this.validateStages(input.stages);
+
+      const keys = input.stages.map(stage => stage.key);
+      const removed = current.stages.filter(stage => !keys.includes(stage.key)).map(stage => stage.key);
+      if (removed.length > 0) {
+        const [{ value }] = await db.select({ value: count() }).from(deals)
+          .where(and(this.dealsInPipeline(current), inArray(deals.stage, removed)));
+        if (value > 0) {
+          throw new ApplicationError(
+            `Cannot remove stages ${removed.join(', ')}: ${plural(value, 'deal')} still in them`,
+            'STAGE_IN_USE',
+            409
+          );
+        }
+      }
+    }
+
+    await db.transaction(async tx => {
+      if (input.isDefault && !current.isDefault) {
+        await this.releaseDefault(tx);
+      }
+
+      await tx.update(pipelines).set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.isDefault && { isDefault: true }),
+        updatedAt: new Date()
+      }).where(eq(pipelines.id, id));
+
+      if (!input.stages) return;
+
+      const keys = input.stages.map(stage => stage.key);
+      await tx.delete(pipelineStages).where(and(
+        eq(pipelineStages.pipelineId, id),
+        notInArray(pipelineStages.key, keys)
+      ));
+
+      for (const [position, stage] of input.stages.entries()) {
+        const values = this.toStageValues(stage, position);
+        await tx.insert(pipelineStages)
+          .values({ ...values, pipelineId: id })
+          .onConflictDoUpdate({
+            target: [pipelineStages.pipelineId, pipelineStages.key],
+            set: values
+          });
+      }
+    }).catch(error => {
+      throw isSecondDefault(error) ? defaultConflict() : error;
+    });
+
+    return this.get(id);
+  }
+
+  async delete(id: number): Promise<void> {
+    const pipeline = await this.get(id);
+    if (pipeline.isDefault) {
+      throw new ValidationError('The default pipeline cannot be deleted', 'id');
+    }
+
+    const [{ value }] = await db.select({ value: count() }).from(deals).where(eq(deals.pipelineId, id));
+    if (value > 0) {
+      throw new ApplicationError(`${plural(value, 'deal')} still use this pipeline`, 'PIPELINE_IN_USE', 409);
+    }
+
+    await db.delete(pipelines).where(eq(pipelines.id, id));
+  }
+
+  /**
+   * Check that a deal may move to the given stage (and pipeline) and return the resolved stage.
+   * Pass a null deal for a deal that is being created; it has no memos or votes yet.
+   */
+  async validateStageChange(
+    deal: Deal | null,
+    update: { stage?: string; pipelineId?: number | null }
+  ): Promise<{ pipeline: PipelineWithStages; stage: PipelineStage }> {
+    const pipelineId = update.pipelineId !== undefined ? update.pipelineId : deal?.pipelineId;
+    const pipeline = await this.getForDeal({ pipelineId });
+    const defaultPipelineId = pipeline.isDefault ? pipeline.id : (await this.getDefault()).id;
+
+    const { stage, entersStage } = resolveStageChange(deal, pipeline, defaultPipelineId, update.stage);
+    if (!entersStage) {
+      return { pipeline, stage };
+    }
+
+    const failures = await this.evaluateGates(deal?.id ?? null, stage.gateRules);
+    if (failures.length > 0) {
+      throw gateFailureError(stage, failures);
+    }
+
+    return { pipeline, stage };
+  }
+
+  /**
+   * Gate results for every stage of the deal's pipeline, so the UI can show what is missing
+   */
+  async getGateStatus(deal: Deal): Promise<StageGateStatus[]> {
+    const pipeline = await this.getForDeal(deal);
+    return Promise.all(pipeline.stages.map(async stage => {
+      const failures = await this.evaluateGates(deal.id, stage.gateRules);
+      return { stage: stage.key, label: stage.label, passed: failures.length === 0, failures };
+    }));
+  }
+
+  /**
+   * Condition matching the deals that follow a pipeline, including unassigned deals for the default
+   */
+  dealsInPipeline(pipeline: PipelineWithStages) {
+    return pipeline.isDefault
+      ? or(eq(deals.pipelineId, pipeline.id), isNull(deals.pipelineId))
+      : eq(deals.pipelineId, pipeline.id);
+  }
+
+  private async evaluateGates(dealId: number | null, rules: StageGateRule[]): Promise<GateFailure[]> {
+    if (rules.length === 0) return [];
+
+    const memos = dealId === null ? [] : await db
+      .select({ checklist: miniMemos.dueDiligenceChecklist })
+      .from(miniMemos)
+      .where(eq(miniMemos.dealId, dealId));
+    const icVotes = rules.some(rule => rule.type === 'ic_vote_passed')
+      ? await icVoteService.tally(dealId)
+      : { approve: 0, reject: 0, abstain: 0 };
+
+    return evaluateStageGates(rules, { memoChecklists: memos.map(memo => memo.checklist), icVotes });
+  }
+
+  /**
+   * Unset the current default pipeline, pinning the deals that followed it so their stages stay valid
+   */
+  private async releaseDefault(tx: Tx): Promise<void> {
+    const [previous] = await tx.select({ id: pipelines.id }).from(pipelines).where(eq(pipelines.isDefault, true)).for('update');
+    if (!previous) return;
+
+    await tx.update(deals).set({ pipelineId: previous.id }).where(isNull(deals.pipelineId));
+    await tx.update(pipelines).set({ isDefault: false, updatedAt: new Date() }).where(eq(pipelines.id, previous.id));
+  }
+
+  private async getStages(pipelineId: number): Promise<PipelineStage[]> {
+    return db.select().from(pipelineStages)
+      .where(eq(pipelineStages.pipelineId, pipelineId))
+      .orderBy(asc(pipelineStages.position));
+  }
+
+  private validateStages(stages: PipelineStageInput[]): void {
+    if (stages.length === 0) {
+      throw new ValidationError('A pipeline needs at least one stage', 'stages');
+    }
+
+    const seen = new Set<string>();
+    for (const stage of stages) {
+      if (!STAGE_KEY_PATTERN.test(stage.key)) {
+        throw new ValidationError(`Stage key "${stage.key}" must be lowercase letters, digits and underscores`, 'stages');
+      }
+      if (seen.has(stage.key)) {
+        throw new ValidationError(`Duplicate stage key "${stage.key}"`, 'stages');
+      }
+      seen.add(stage.key);
+    }
+
+    if ((stages[0].category ?? 'active') !== 'active') {
+      throw new ValidationError('The first stage must be an active stage; new deals start there', 'stages');
+    }
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const [existing] = await db.select({ id: pipelines.id }).from(pipelines).where(eq(pipelines.name, name));
+    if (existing) {
+      throw new ApplicationError(`A pipeline named "${name}" already exists`, 'PIPELINE_EXISTS', 409);
+    }
+  }
+
+  private toStageValues(stage: PipelineStageInput, position: number) {
+    return {
+      key: stage.key,
+      label: stage.label,
+      color: stage.color ?? 'neutral',
+      category: stage.category ?? 'active',
+      gateRules: stage.gateRules ?? [],
+      position
+    };
+  }
+
+  /**
+   * The default pipeline, making sure there is exactly one. The partial unique index allows at most
+   * one; when there is none, the original pipeline (or else the oldest) is promoted, and only an empty
+   * table is seeded with the original stages.
+   */
+  private async ensureDefaultPipeline(): Promise<Pipeline> {
+    const findDefault = async () => {
+      const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.isDefault, true));
+      return pipeline;
+    };
+
+    const existing = await findDefault();
+    if (existing) return existing;
+
+    try {
+      await db.transaction(async tx => {
+        const candidates = await tx.select({ id: pipelines.id, name: pipelines.name }).from(pipelines).orderBy(asc(pipelines.id));
+        const fallback = candidates.find(candidate => candidate.name === DEFAULT_PIPELINE_NAME) ?? candidates[0];
+        if (fallback) {
+          await tx.update(pipelines).set({ isDefault: true, updatedAt: new Date() }).where(eq(pipelines.id, fallback.id));
+          return;
+        }
+
+        const [pipeline] = await tx.insert(pipelines)
+          .values({ name: DEFAULT_PIPELINE_NAME, isDefault: true })
+          .returning();
+
+        await tx.insert(pipelineStages).values(Object.entries(DealStageLabels).map(([key, label], position) => ({
+          pipelineId: pipeline.id,
+          key,
+          label,
+          color: DealStageColors[key] ?? 'neutral',
+          category: DEFAULT_STAGE_CATEGORIES[key] ?? 'active',
+          position
+        })));
+      });
+    } catch (error) {
+      // A concurrent request seeded or promoted the default first (unique name or single-default violation)
+      if ((error as { code?: string })?.code !== '23505') throw error;
+    }
+
+    const pipeline = await findDefault();
+    if (!pipeline) {
+      throw new ApplicationError('No default pipeline is configured', 'NO_DEFAULT_PIPELINE', 500);
+    }
+    return pipeline;
+  }
+}
+
+// Export singleton instance
+export const pipelineService = new PipelineService();
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { placeInColumn } from './board-column';
+
+describe('placeInColumn', () => {
+  it('places the deal above beforeDealId', () => {
+    expect(placeInColumn([1, 2, 3], 9, 2)).toEqual([1, 9, 2, 3]);
+    expect(placeInColumn([1, 2, 3], 9, 1)).toEqual([9, 1, 2, 3]);
+  });
+
+  it('drops the deal at the bottom without beforeDealId', () => {
+    expect(placeInColumn([1, 2, 3], 9)).toEqual([1, 2, 3, 9]);
+    expect(placeInColumn([1, 2, 3], 9, null)).toEqual([1, 2, 3, 9]);
+  });
+
+  it('drops the deal at the bottom when beforeDealId is not in the column', () => {
+    expect(placeInColumn([1, 2, 3], 9, 42)).toEqual([1, 2, 3, 9]);
+  });
+
+  it('reorders a deal already in the column', () => {
+    expect(placeInColumn([1, 2, 3, 4], 4, 2)).toEqual([1, 4, 2, 3]);
+    expect(placeInColumn([1, 2, 3, 4], 1, 4)).toEqual([2, 3, 1, 4]);
+    expect(placeInColumn([1, 2, 3, 4], 2)).toEqual([1, 3, 4, 2]);
+  });
+
+  it('leaves the column alone when the deal is placed above itself', () => {
+    expect(placeInColumn([1, 2, 3], 2, 2)).toEqual([1, 2, 3]);
+  });
+
+  it('fills an empty column', () => {
+    expect(placeInColumn([], 9, 1)).toEqual([9]);
+  });
+});
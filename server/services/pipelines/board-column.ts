@@ -0,0 +1,20 @@
+/**
+ * Board Column
+ *
+ * Ordering of a kanban column when a deal is dropped into it. Board positions are the indexes of
+ * the returned order.
+ */
+
+/**
+ * Place a deal in a column given in board order. The deal goes above beforeDealId; when that is
+ * omitted, null or not in the column, it goes to the bottom. A deal already in the column is moved,
+ * and one placed above itself stays where it is.
+ */
+export function placeInColumn(column: number[], dealId: number, beforeDealId?: number | null): number[] {
+  if (beforeDealId === dealId && column.includes(dealId)) return [...column];
+
+  const order = column.filter(id => id !== dealId);
+  const beforeIndex = beforeDealId ? order.indexOf(beforeDealId) : -1;
+  order.splice(beforeIndex === -1 ? order.length : beforeIndex, 0, dealId);
+  return order;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import type { PipelineStage, PipelineWithStages, StageGateRule } from '@shared/schema';
+import {
+  evaluateStageGates,
+  gateFailureError,
+  icVotePassed,
+  resolveStageChange,
+  type GateInputs
+} from './stage-gates';
+
+const stage = (pipelineId: number, key: string, position: number, gateRules: StageGateRule[] = []): PipelineStage => ({
+  id: pipelineId * 100 + position,
+  pipelineId,
+  key,
+  label: key.charAt(0).toUpperCase() + key.slice(1),
+  color: 'neutral',
+  category: key === 'funded' || key === 'invested' ? 'invested' : 'active',
+  position,
+  gateRules
+});
+
+const pipeline = (id: number, name: string, keys: string[], isDefault = false): PipelineWithStages => ({
+  id,
+  name,
+  description: null,
+  isDefault,
+  createdBy: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  stages: keys.map((key, position) => stage(id, key, position))
+});
+
+const venture = pipeline(1, 'Venture', ['new', 'diligence', 'invested'], true);
+const credit = pipeline(2, 'Credit', ['sourced', 'diligence', 'funded']);
+
+const noVotes = { approve: 0, reject: 0, abstain: 0 };
+const inputs = (overrides: Partial<GateInputs> = {}): GateInputs => ({
+  memoChecklists: [],
+  icVotes: noVotes,
+  ...overrides
+});
+
+describe('resolveStageChange', () => {
+  it('resolves the named stage of the pipeline', () => {
+    const result = resolveStageChange({ stage: 'new', pipelineId: null }, venture, 1, 'diligence');
+
+    expect(result.stage.key).toBe('diligence');
+    expect(result.entersStage).toBe(true);
+  });
+
+  it('rejects a stage the pipeline does not have, listing the ones it does', () => {
+    expect(() => resolveStageChange({ stage: 'new', pipelineId: null }, venture, 1, 'funded'))
+      .toThrow('Invalid stage "funded" for the Venture pipeline. Must be one of: new, diligence, invested');
+  });
+
+  it('keeps the stage when switching to a pipeline that has it, which still enters it', () => {
+    const result = resolveStageChange({ stage: 'diligence', pipelineId: null }, credit, 1);
+
+    expect(result.stage.pipelineId).toBe(2);
+    expect(result.stage.key).toBe('diligence');
+    expect(result.entersStage).toBe(true);
+  });
+
+  it('starts over at the first stage when switching to a pipeline without the current stage', () => {
+    const result = resolveStageChange({ stage: 'new', pipelineId: null }, credit, 1);
+
+    expect(result.stage.key).toBe('sourced');
+    expect(result.entersStage).toBe(true);
+  });
+
+  it('does not treat naming the default pipeline as a change for a deal that follows it', () => {
+    const result = resolveStageChange({ stage: 'diligence', pipelineId: null }, venture, 1);
+
+    expect(result.stage.key).toBe('diligence');
+    expect(result.entersStage).toBe(false);
+  });
+
+  it('starts a new deal at the first stage, entering it', () => {
+    const result = resolveStageChange(null, credit, 1);
+
+    expect(result.stage.key).toBe('sourced');
+    expect(result.entersStage).toBe(true);
+  });
+});
+
+describe('evaluateStageGates', () => {
+  it('passes when there are no rules', () => {
+    expect(evaluateStageGates([], inputs())).toEqual([]);
+  });
+
+  it('counts mini memos', () => {
+    const rule: StageGateRule = { type: 'min_mini_memos', count: 2 };
+
+    expect(evaluateStageGates([rule], inputs({ memoChecklists: [{}] }))).toEqual([
+      { rule, message: 'requires at least 2 mini memos (has 1)' }
+    ]);
+    expect(evaluateStageGates([rule], inputs({ memoChecklists: [{}, null] }))).toEqual([]);
+  });
+
+  it('uses the singular for one mini memo', () => {
+    const [failure] = evaluateStageGates([{ type: 'min_mini_memos', count: 1 }], inputs());
+
+    expect(failure.message).toBe('requires at least 1 mini memo (has 0)');
+  });
+
+  it('lists the checklist items no memo has ticked', () => {
+    const rule: StageGateRule = { type: 'due_diligence_complete', items: ['financialReview', 'legalReview', 'marketAnalysis'] };
+    const memoChecklists = [{ financialReview: true, legalReview: false }, { legalReview: true }];
+
+    expect(evaluateStageGates([rule], inputs({ memoChecklists }))).toEqual([
+      { rule, message: 'due diligence checklist incomplete (missing market analysis)' }
+    ]);
+  });
+
+  it('checks every default checklist item when the rule names none', () => {
+    const [failure] = evaluateStageGates([{ type: 'due_diligence_complete' }], inputs({ memoChecklists: [null] }));
+
+    expect(failure.message).toMatch(/^due diligence checklist incomplete \(missing financial review, legal review, /);
+    expect(failure.message).toContain('esg assessment');
+  });
+
+  it('requires more approvals than rejections and the minimum number of votes', () => {
+    const rule: StageGateRule = { type: 'ic_vote_passed', minVotes: 3 };
+
+    expect(evaluateStageGates([rule], inputs({ icVotes: { approve: 2, reject: 0, abstain: 4 } }))).toEqual([
+      { rule, message: 'IC vote has not passed (2 approve, 0 reject, 3 votes required)' }
+    ]);
+    expect(evaluateStageGates([rule], inputs({ icVotes: { approve: 2, reject: 1, abstain: 0 } }))).toEqual([]);
+  });
+
+  it('reports every failed rule, in rule order', () => {
+    const failures = evaluateStageGates(
+      [{ type: 'ic_vote_passed' }, { type: 'min_mini_memos', count: 1 }],
+      inputs({ icVotes: { approve: 1, reject: 1, abstain: 0 } })
+    );
+
+    expect(failures.map(failure => failure.message)).toEqual([
+      'IC vote has not passed (1 approve, 1 reject)',
+      'requires at least 1 mini memo (has 0)'
+    ]);
+  });
+});
+
+describe('icVotePassed', () => {
+  it('needs a majority of non-abstaining votes', () => {
+    expect(icVotePassed(noVotes)).toBe(false);
+    expect(icVotePassed({ approve: 1, reject: 0, abstain: 3 })).toBe(true);
+    expect(icVotePassed({ approve: 2, reject: 2, abstain: 0 })).toBe(false);
+  });
+});
+
+describe('gateFailureError', () => {
+  it('joins the failures into one message and lists them in its context', () => {
+    const target = stage(1, 'invested', 2);
+    const failures = evaluateStageGates(
+      [{ type: 'min_mini_memos', count: 1 }, { type: 'ic_vote_passed' }],
+      inputs()
+    );
+    const error = gateFailureError(target, failures);
+
+    expect(error.message).toBe('Cannot move deal to Invested: requires at least 1 mini memo (has 0); IC vote has not passed (0 approve, 0 reject)');
+    expect(error.field).toBe('stage');
+    expect(error.statusCode).toBe(400);
+    expect(error.context).toEqual({ stage: 'invested', failedGates: failures });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Stage Gates
+ *
+ * Which stage a stage change lands on, and whether the deal meets that stage's gate rules. The
+ * pipeline service loads the deal's memos and IC votes; everything here works on what it loaded.
+ */
+
+import {
+  DEFAULT_DUE_DILIGENCE_CHECKLIST,
+  type Deal,
+  type PipelineStage,
+  type PipelineWithStages,
+  type StageGateRule
+} from '@shared/schema';
+import { ValidationError } from '../type-definitions';
+
+export interface GateFailure {
+  rule: StageGateRule;
+  message: string;
+}
+
+export interface IcVoteTally {
+  approve: number;
+  reject: number;
+  abstain: number;
+}
+
+export interface GateInputs {
+  // Due diligence checklist of each of the deal's mini memos
+  memoChecklists: Array<Record<string, boolean> | null>;
+  icVotes: IcVoteTally;
+}
+
+export interface ResolvedStageChange {
+  stage: PipelineStage;
+  // False when the deal stays where it is, so the stage's gates do not apply
+  entersStage: boolean;
+}
+
+// "financialReview" -> "financial review"
+const checklistLabel = (item: string) => item.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+export const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * A vote passes with more approvals than rejections and at least minVotes non-abstaining votes
+ */
+export function icVotePassed(tally: IcVoteTally, minVotes = 1): boolean {
+  return tally.approve > tally.reject && tally.approve + tally.reject >= minVotes;
+}
+
+/**
+ * Resolve the stage a deal moves to in the given pipeline. Without a stage, a deal switching
+ * pipelines keeps its stage when the new pipeline has it, else starts over at the first stage.
+ * Naming the default pipeline explicitly is not a change for a deal that follows it.
+ */
+export function resolveStageChange(
+  deal: Pick<Deal, 'stage' | 'pipelineId'> | null,
+  pipeline: PipelineWithStages,
+  defaultPipelineId: number,
+  stageKey?: string
+): ResolvedStageChange {
+  const keepsStage = deal && pipeline.stages.some(candidate => candidate.key === deal.stage);
+  const key = stageKey ?? (keepsStage ? deal.stage : pipeline.stages[0].key);
+  const stage = pipeline.stages.find(candidate => candidate.key === key);
+  if (!stage) {
+    throw new ValidationError(
+      `Invalid stage "${key}" for the ${pipeline.name} pipeline. Must be one of: ${pipeline.stages.map(s => s.key).join(', ')}`,
+      'stage'
+    );
+  }
+
+  const pipelineChanged = !!deal && pipeline.id !== (deal.pipelineId ?? defaultPipelineId);
+  return { stage, entersStage: !deal || stage.key !== deal.stage || pipelineChanged };
+}
+
+/**
+ * Check a stage's gate rules against the deal's memos and votes, returning every rule that fails
+ */
+export function evaluateStageGates(rules: StageGateRule[], inputs: GateInputs): GateFailure[] {
+  const { memoChecklists, icVotes } = inputs;
+  const failures: GateFailure[] = [];
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'min_mini_memos':
+        if (memoChecklists.length < rule.count) {
+          failures.push({ rule, message: `requires at least ${plural(rule.count, 'mini memo')} (has ${memoChecklists.length})` });
+        }
+        break;
+
+      case 'due_diligence_complete': {
+        const items = rule.items?.length ? rule.items : Object.keys(DEFAULT_DUE_DILIGENCE_CHECKLIST);
+        const missing = items.filter(item => !memoChecklists.some(checklist => checklist?.[item]));
+        if (missing.length > 0) {
+          failures.push({ rule, message: `due diligence checklist incomplete (missing ${missing.map(checklistLabel).join(', ')})` });
+        }
+        break;
+      }
+
+      case 'ic_vote_passed':
+        if (!icVotePassed(icVotes, rule.minVotes)) {
+          failures.push({
+            rule,
+            message: `IC vote has not passed (${icVotes.approve} approve, ${icVotes.reject} reject${rule.minVotes ? `, ${rule.minVotes} votes required` : ''})`
+          });
+        }
+        break;
+    }
+  }
+  return failures;
+}
+
+/**
+ * The error for a move blocked by failed gates; its context lists each failed rule
+ */
+export function gateFailureError(stage: PipelineStage, failures: GateFailure[]): ValidationError {
+  return new ValidationError(
+    `Cannot move deal to ${stage.label}: ${failures.map(failure => failure.message).join('; ')}`,
+    'stage',
+    { stage: stage.key, failedGates: failures }
+  );
+}
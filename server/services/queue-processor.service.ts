@@ -29,6 +29,8 @@ interface QueueProcessor {
   handler: (payload: any) => Promise<any>;
   concurrency: number;
   timeout: number;
+  /** Delay before the first retry; doubles on each further attempt. Failed jobs retry immediately without it. */
+  retryBackoffMs?: number;
 }
 
 export class JobQueueService extends EventEmitter {
@@ -113,6 +115,23 @@ export class JobQueueService extends EventEmitter {
       timeout: 30000 // 30 seconds
     });
 
+    // Daily/weekly digest processor
+    this.registerProcessor({
+      type: 'digest-email',
+      handler: this.processDigestEmail.bind(this),
+      concurrency: 2,
+      timeout: 60000 // 1 minute
+    });
+
+    // Outbound webhook processor; retries back off exponentially from 30 seconds
+    this.registerProcessor({
+      type: 'webhook-delivery',
+      handler: this.processWebhookDelivery.bind(this),
+      concurrency: 5,
+      timeout: 30000, // 30 seconds
+      retryBackoffMs: 30000
+    });
+
     // Report generation processor
     this.registerProcessor({
       type: 'report-generation',
@@ -120,6 +139,14 @@ export class JobQueueService extends EventEmitter {
       concurrency: 1,
       timeout: 180000 // 3 minutes
     });
+
+    // Term sheet extraction processor
+    this.registerProcessor({
+      type: 'term-sheet-extraction',
+      handler: this.processTermSheetExtraction.bind(this),
+      concurrency: 1,
+      timeout: 180000 // 3 minutes
+    });
   }
 
   // Register a new job processor
@@ -270,16 +297,19 @@ export class JobQueueService extends EventEmitter {
       
       const attempts = job.attempts + 1;
       const isMaxAttempts = attempts >= job.max_attempts;
+      const retryDelay = processor.retryBackoffMs ? processor.retryBackoffMs * 2 ** (attempts - 1) : 0;
       
       await pool.query(`
         UPDATE job_queue 
-        SET status = $1, attempts = $2, error_message = $3
+        SET status = $1, attempts = $2, error_message = $3,
+            scheduled_for = CURRENT_TIMESTAMP + $5 * INTERVAL '1 millisecond'
         WHERE id = $4
       `, [
         isMaxAttempts ? 'failed' : 'pending',
         attempts,
         error.message,
-        job.id
+        job.id,
+        retryDelay
       ]);
 
       this.emit('jobFailed', { 
@@ -318,18 +348,18 @@ export class JobQueueService extends EventEmitter {
     }
   }
 
-  private async processCsvImport(payload: { filePath: string; dealId?: number; userId: number }) {
+  // The services behind the processors below queue their own jobs through this module, so they
+  // are imported lazily when a job runs rather than at load time
+
+  private async processCsvImport(payload: { importId: number }) {
     // Move CSV processing off main thread
-    const { filePath, dealId, userId } = payload;
-    
-    // Simulate CSV processing
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    
+    const { dealImportService } = await import('./deal-import.service');
+    const result = await dealImportService.runImport(payload.importId);
+
     return {
-      rowsProcessed: 150,
-      recordsCreated: 140,
-      errors: 10,
-      filePath
+      importId: result.id,
+      recordsCreated: result.importedCount,
+      skipped: result.skippedCount
     };
   }
 
@@ -348,28 +378,55 @@ export class JobQueueService extends EventEmitter {
     };
   }
 
-  private async processEmailNotification(payload: { to: string; subject: string; body: string }) {
+  private async processEmailNotification(payload: { to: string; subject: string; body: string; dealId?: number | null }) {
     // Move email sending off main thread
-    const { to, subject } = payload;
-    
-    // Simulate email sending
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    return { sent: true, to, subject, sentAt: new Date() };
+    const { mailService } = await import('./mail.service');
+    const result = await mailService.sendNotification(payload);
+
+    if (!result) {
+      return { sent: false, to: payload.to, subject: payload.subject, reason: 'Outgoing mail is disabled' };
+    }
+    return { sent: true, to: payload.to, subject: payload.subject, messageId: result.messageId, sentAt: new Date() };
+  }
+
+  private async processDigestEmail(payload: { userId: number; frequency: 'daily' | 'weekly'; periodStart: string; periodEnd: string }) {
+    const { digestService } = await import('./digest.service');
+    const result = await digestService.sendDigest(
+      payload.userId,
+      payload.frequency,
+      new Date(payload.periodStart),
+      new Date(payload.periodEnd)
+    );
+
+    return { userId: payload.userId, frequency: payload.frequency, ...result };
+  }
+
+  private async processWebhookDelivery(payload: { deliveryId: number }) {
+    const { webhookService } = await import('./webhook.service');
+    return webhookService.deliver(payload.deliveryId);
   }
 
-  private async processReportGeneration(payload: { type: string; parameters: any; userId: number }) {
+  private async processTermSheetExtraction(payload: { extractionId: number }) {
+    const { termSheetService } = await import('./term-sheet.service');
+    const extraction = await termSheetService.runExtraction(payload.extractionId);
+
+    return {
+      extractionId: extraction.id,
+      documentId: extraction.documentId,
+      status: extraction.status
+    };
+  }
+
+  private async processReportGeneration(payload: { reportId: number }) {
     // Move report generation off main thread
-    const { type, parameters, userId } = payload;
-    
-    // Simulate report generation
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    
+    const { reportService } = await import('./report.service');
+    const report = await reportService.generateReport(payload.reportId);
+
     return {
-      reportType: type,
-      filePath: `/reports/${type}-${Date.now()}.pdf`,
-      generatedAt: new Date(),
-      userId
+      reportId: report.id,
+      reportType: report.reportType,
+      filePath: report.filePath,
+      generatedAt: report.completedAt
     };
   }
 
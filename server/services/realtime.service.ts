@@ -0,0 +1,125 @@
+/**
+ * Realtime Service
+ *
+ * Server-Sent Events push channel. Each authenticated browser tab holds one
+ * `GET /api/events/stream` connection; domain events are forwarded to it so the
+ * notification badge, activity feed and capital call views refresh without polling.
+ *
+ * Stream events:
+ * - `notification`  the new notification, sent only to its recipient
+ * - `activity`      `{ dealIds, eventIds }` for timeline entries, batched and sent to everyone
+ * - `capital_call`  `{ capitalCallId, allocationId, status }`, sent to everyone
+ */
+
+import type { Request, Response } from 'express';
+import { domainEvents } from './events/domain-events';
+
+const HEARTBEAT_MS = 25_000;
+// Bulk operations (imports, batch payments) write many timeline rows at once
+const ACTIVITY_BATCH_MS = 250;
+
+interface Connection {
+  userId: number;
+  res: Response;
+}
+
+export class RealtimeService {
+  private connections = new Set<Connection>();
+  private unsubscribers: Array<() => void> = [];
+  private heartbeat: NodeJS.Timeout | null = null;
+  private nextEventId = 1;
+  private pendingActivity: { dealIds: Set<number>; eventIds: number[] } | null = null;
+
+  /**
+   * Subscribe to the domain events that are pushed to clients
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers.push(
+      domainEvents.on('notification.created', ({ notification }) => {
+        this.sendToUser(notification.userId, 'notification', notification);
+      }),
+      domainEvents.on('timeline.created', ({ eventId, dealId }) => {
+        this.queueActivity(eventId, dealId);
+      }),
+      domainEvents.on('capital_call.status_changed', payload => {
+        this.broadcast('capital_call', payload);
+      })
+    );
+
+    this.heartbeat = setInterval(() => {
+      this.connections.forEach(connection => connection.res.write(': ping\n\n'));
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.connections.forEach(connection => connection.res.end());
+    this.connections.clear();
+  }
+
+  /**
+   * Turn a request into an event stream for the given user. The connection stays
+   * registered until the client disconnects.
+   */
+  connect(req: Request, res: Response, userId: number): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    req.socket.setTimeout(0);
+
+    const connection: Connection = { userId, res };
+    this.connections.add(connection);
+    this.write(connection, 'ready', { userId });
+
+    req.on('close', () => {
+      this.connections.delete(connection);
+    });
+  }
+
+  sendToUser(userId: number, event: string, data: unknown): void {
+    this.connections.forEach(connection => {
+      if (connection.userId === userId) this.write(connection, event, data);
+    });
+  }
+
+  broadcast(event: string, data: unknown): void {
+    this.connections.forEach(connection => this.write(connection, event, data));
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  private queueActivity(eventId: number, dealId: number): void {
+    if (!this.pendingActivity) {
+      this.pendingActivity = { dealIds: new Set(), eventIds: [] };
+      setTimeout(() => {
+        const batch = this.pendingActivity!;
+        this.pendingActivity = null;
+        this.broadcast('activity', { dealIds: Array.from(batch.dealIds), eventIds: batch.eventIds });
+      }, ACTIVITY_BATCH_MS).unref();
+    }
+    this.pendingActivity.dealIds.add(dealId);
+    this.pendingActivity.eventIds.push(eventId);
+  }
+
+  private write(connection: Connection, event: string, data: unknown): void {
+    connection.res.write(`id: ${this.nextEventId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
+
+// Export singleton instance
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,156 @@
+/**
+ * Report Service
+ *
+ * Queues portfolio reports on the job queue, renders them to PDF or XLSX,
+ * and keeps the generated files and their history for download.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from '../db';
+import {
+  generatedReports,
+  type GeneratedReport,
+  type ReportFormat,
+  type ReportType
+} from '@shared/schema';
+import { desc, eq } from 'drizzle-orm';
+import { format } from 'date-fns';
+import { jobQueue } from './queue-processor.service';
+import { buildReport, type ReportParameters } from './reports/report-builder';
+import { renderPdf } from './reports/pdf-writer';
+import { renderXlsx } from './reports/xlsx-writer';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+const REPORTS_DIR = path.join('storage', 'reports');
+const HISTORY_LIMIT = 50;
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export class ReportService {
+  /**
+   * Record a report request and queue it for generation
+   */
+  async requestReport(
+    reportType: ReportType,
+    reportFormat: ReportFormat,
+    parameters: ReportParameters,
+    userId: number
+  ): Promise<GeneratedReport> {
+    const [report] = await db
+      .insert(generatedReports)
+      .values({ reportType, format: reportFormat, parameters, requestedBy: userId })
+      .returning();
+
+    const jobId = await jobQueue.addJob('report-generation', { reportId: report.id }, { maxAttempts: 2 });
+
+    const [queued] = await db
+      .update(generatedReports)
+      .set({ jobId })
+      .where(eq(generatedReports.id, report.id))
+      .returning();
+
+    return queued;
+  }
+
+  /**
+   * Build and render a queued report, updating its progress as it goes.
+   * Called by the report-generation job processor.
+   */
+  async generateReport(reportId: number): Promise<GeneratedReport> {
+    const report = await this.getReport(reportId);
+    const setProgress = async (progress: number) => {
+      await db.update(generatedReports).set({ progress }).where(eq(generatedReports.id, reportId));
+    };
+
+    try {
+      await db
+        .update(generatedReports)
+        .set({ status: 'processing', progress: 5, errorMessage: null })
+        .where(eq(generatedReports.id, reportId));
+
+      const document = await buildReport(report.reportType, report.parameters || {}, setProgress);
+      await setProgress(90);
+
+      const buffer = report.format === 'pdf' ? renderPdf(document) : renderXlsx(document);
+      const fileName = `${report.reportType.replace(/_/g, '-')}-${format(new Date(), 'yyyy-MM-dd')}-${report.id}.${report.format}`;
+      const filePath = path.join(REPORTS_DIR, fileName);
+
+      await fs.mkdir(REPORTS_DIR, { recursive: true });
+      await fs.writeFile(filePath, buffer);
+
+      const [completed] = await db
+        .update(generatedReports)
+        .set({
+          status: 'completed',
+          progress: 100,
+          fileName,
+          filePath,
+          fileSize: buffer.length,
+          completedAt: new Date()
+        })
+        .where(eq(generatedReports.id, reportId))
+        .returning();
+
+      return completed;
+    } catch (error) {
+      await db
+        .update(generatedReports)
+        .set({
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        })
+        .where(eq(generatedReports.id, reportId));
+      throw error;
+    }
+  }
+
+  /**
+   * Get a report's status and progress
+   */
+  async getReport(reportId: number): Promise<GeneratedReport> {
+    const [report] = await db.select().from(generatedReports).where(eq(generatedReports.id, reportId));
+    if (!report) throw new NotFoundError('Report', reportId);
+    return report;
+  }
+
+  /**
+   * Most recent report requests, newest first
+   */
+  async getReportHistory(limit: number = HISTORY_LIMIT): Promise<GeneratedReport[]> {
+    return db
+      .select()
+      .from(generatedReports)
+      .orderBy(desc(generatedReports.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Resolve the generated file for a completed report
+   */
+  async getReportFile(reportId: number): Promise<{ filePath: string; fileName: string; contentType: string }> {
+    const report = await this.getReport(reportId);
+    if (report.status !== 'completed' || !report.filePath || !report.fileName) {
+      throw new ValidationError('Report is not ready for download', 'status', { status: report.status });
+    }
+
+    try {
+      await fs.access(report.filePath);
+    } catch {
+      throw new NotFoundError('Report file', reportId);
+    }
+
+    return {
+      filePath: path.resolve(report.filePath),
+      fileName: report.fileName,
+      contentType: REPORT_CONTENT_TYPES[report.format]
+    };
+  }
+}
+
+// Export singleton instance
+export const reportService = new ReportService();
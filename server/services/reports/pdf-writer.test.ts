@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { escapePdfText, renderPdf } from './pdf-writer';
+import type { ReportDocument } from './report-builder';
+
+const report = (rowCount: number): ReportDocument => ({
+  title: 'Fund (II) \\ Quarterly Report',
+  subtitle: 'As of 2024-03-31 – Café Capital',
+  sections: [
+    {
+      title: 'Allocations',
+      columns: ['Deal', 'Committed', 'IRR'],
+      rows: Array.from({ length: rowCount }, (_, i) => [`Deal ${i + 1}`, 1_000_000 + i, i % 2 ? 12.5 : null])
+    },
+    { title: 'Distributions', columns: ['Deal', 'Amount'], rows: [] }
+  ]
+});
+
+/**
+ * The text of each page as pdf.js reads it, one text run per line
+ */
+async function readPdf(pdf: Buffer): Promise<string[]> {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await getDocument({ data: new Uint8Array(pdf), verbosity: 0 }).promise;
+
+  const pages: string[] = [];
+  for (let number = 1; number <= document.numPages; number++) {
+    const { items } = await (await document.getPage(number)).getTextContent();
+    pages.push(items.map(item => ('str' in item ? item.str.trim() : '')).filter(Boolean).join('\n'));
+  }
+  return pages;
+}
+
+// Byte offsets as the PDF reader sees them
+const latin1 = (pdf: Buffer) => pdf.toString('latin1');
+
+function xrefTable(pdf: Buffer): { startxref: number; offsets: number[] } {
+  const text = latin1(pdf);
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+  const [, count, entries] = text.slice(startxref).match(/^xref\n0 (\d+)\n([\s\S]*?)trailer\n/)!;
+  const rows = entries.match(/[\s\S]{20}/g)!;
+
+  expect(rows).toHaveLength(Number(count));
+  expect(rows[0]).toBe('0000000000 65535 f \n');
+  return { startxref, offsets: rows.slice(1).map(row => Number(row.slice(0, 10))) };
+}
+
+describe('escapePdfText', () => {
+  it('escapes backslashes and parentheses', () => {
+    expect(escapePdfText('Fund (II) \\ A')).toBe('Fund \\(II\\) \\\\ A');
+  });
+
+  it('keeps Latin-1 text and replaces anything else with ?', () => {
+    expect(escapePdfText('Café €5 – ok')).toBe('Café ?5 ? ok');
+    expect(escapePdfText('line\nbreak\ttab')).toBe('line?break?tab');
+  });
+});
+
+describe('renderPdf', () => {
+  it('points every xref entry at its object and startxref at the table', () => {
+    const pdf = renderPdf(report(3));
+    const text = latin1(pdf);
+    const { startxref, offsets } = xrefTable(pdf);
+
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset, offset + `${index + 1} 0 obj\n`.length)).toBe(`${index + 1} 0 obj\n`);
+    });
+    expect(text).toContain(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>`);
+  });
+
+  it('gives each content stream its length in bytes', () => {
+    const text = latin1(renderPdf(report(3)));
+
+    for (const [, length, content] of Array.from(text.matchAll(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g))) {
+      expect(content.length).toBe(Number(length));
+    }
+  });
+
+  it('renders text a PDF reader extracts as written', async () => {
+    const pages = await readPdf(renderPdf(report(3)));
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0].split('\n').slice(0, 5)).toEqual([
+      'Fund (II) \\ Quarterly Report',
+      'As of 2024-03-31 ? Café Capital',
+      'Allocations',
+      'Deal',
+      'Committed'
+    ]);
+    expect(pages[0]).toContain('1,000,002');
+    expect(pages[0]).toContain('12.50');
+    expect(pages[0]).toContain('No data');
+    expect(pages[0]).toContain('Page 1 of 1');
+  });
+
+  it('breaks long tables across pages, repeating the header and numbering them', async () => {
+    const pdf = renderPdf(report(120));
+    const pages = await readPdf(pdf);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.join('\n')).toContain('Deal 120');
+    pages.forEach((page, index) => {
+      if (/Deal \d+/.test(page)) expect(page).toContain('Committed');
+      expect(page).toContain(`Page ${index + 1} of ${pages.length}`);
+    });
+    expect(xrefTable(pdf).offsets).toHaveLength(4 + pages.length * 2);
+  });
+});
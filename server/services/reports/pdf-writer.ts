@@ -0,0 +1,166 @@
+/**
+ * PDF Writer
+ * Minimal PDF 1.4 renderer for tabular reports: title, section headings and text tables
+ * on landscape Letter pages using the standard Helvetica fonts (no embedding required)
+ */
+
+import type { ReportDocument, ReportSection } from './report-builder';
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 40;
+const TITLE_SIZE = 16;
+const HEADING_SIZE = 12;
+const TABLE_SIZE = 8;
+const ROW_HEIGHT = 12;
+const AVERAGE_CHAR_WIDTH = 0.52; // Helvetica average glyph width as a fraction of font size
+
+interface TextRun {
+  x: number;
+  y: number;
+  size: number;
+  bold: boolean;
+  text: string;
+}
+
+/**
+ * Escape text for a PDF string literal, replacing characters outside WinAnsi with '?'
+ */
+export function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function fitText(text: string, width: number, size: number): string {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVERAGE_CHAR_WIDTH)));
+  return text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 3))}...` : text;
+}
+
+function formatCell(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? value.toLocaleString('en-US')
+      : value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  return value;
+}
+
+/**
+ * Column widths proportional to the longest value in each column
+ */
+function columnWidths(section: ReportSection, available: number): number[] {
+  const lengths = section.columns.map((column, index) => Math.max(
+    column.length,
+    ...section.rows.map(row => formatCell(row[index]).length)
+  ));
+  const total = lengths.reduce((sum, length) => sum + Math.min(length, 40), 0) || 1;
+  return lengths.map(length => (Math.min(length, 40) / total) * available);
+}
+
+/**
+ * Lay out the document into pages of positioned text runs
+ */
+function layout(document: ReportDocument): TextRun[][] {
+  const pages: TextRun[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const usableWidth = PAGE_WIDTH - MARGIN * 2;
+
+  const current = () => pages[pages.length - 1];
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  current().push({ x: MARGIN, y: y - TITLE_SIZE, size: TITLE_SIZE, bold: true, text: document.title });
+  y -= TITLE_SIZE + 6;
+  current().push({ x: MARGIN, y: y - TABLE_SIZE, size: TABLE_SIZE, bold: false, text: document.subtitle });
+  y -= TABLE_SIZE + 16;
+
+  for (const section of document.sections) {
+    const widths = columnWidths(section, usableWidth);
+
+    const drawHeader = () => {
+      let x = MARGIN;
+      section.columns.forEach((column, index) => {
+        current().push({ x, y: y - TABLE_SIZE, size: TABLE_SIZE, bold: true, text: fitText(column, widths[index] - 4, TABLE_SIZE) });
+        x += widths[index];
+      });
+      y -= ROW_HEIGHT + 2;
+    };
+
+    ensureSpace(HEADING_SIZE + ROW_HEIGHT * 3);
+    current().push({ x: MARGIN, y: y - HEADING_SIZE, size: HEADING_SIZE, bold: true, text: section.title });
+    y -= HEADING_SIZE + 8;
+    drawHeader();
+
+    if (section.rows.length === 0) {
+      current().push({ x: MARGIN, y: y - TABLE_SIZE, size: TABLE_SIZE, bold: false, text: 'No data' });
+      y -= ROW_HEIGHT;
+    }
+
+    for (const row of section.rows) {
+      if (y - ROW_HEIGHT < MARGIN) {
+        ensureSpace(ROW_HEIGHT * 2);
+        drawHeader();
+      }
+      let x = MARGIN;
+      row.forEach((value, index) => {
+        current().push({ x, y: y - TABLE_SIZE, size: TABLE_SIZE, bold: false, text: fitText(formatCell(value), widths[index] - 4, TABLE_SIZE) });
+        x += widths[index];
+      });
+      y -= ROW_HEIGHT;
+    }
+
+    y -= 16;
+  }
+
+  return pages;
+}
+
+/**
+ * Render a report document to a PDF buffer
+ */
+export function renderPdf(document: ReportDocument): Buffer {
+  const pages = layout(document);
+  const objects: string[] = [];
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and content stream per page
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((runs, index) => {
+    const content = runs
+      .map(run => `BT /${run.bold ? 'F2' : 'F1'} ${run.size} Tf ${run.x.toFixed(2)} ${run.y.toFixed(2)} Td (${escapePdfText(run.text)}) Tj ET`)
+      .concat(`BT /F1 7 Tf ${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td (Page ${index + 1} of ${pages.length}) Tj ET`)
+      .join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,248 @@
+/**
+ * Report Builder
+ * Assembles the data for each portfolio report as titled tables, independent of output format
+ */
+
+import { db } from '../../db';
+import { capitalCalls, deals, fundAllocations, funds, type ReportType } from '@shared/schema';
+import { asc, eq, inArray, sql } from 'drizzle-orm';
+import { format } from 'date-fns';
+import { irrCalculator } from '../irr-calculator.service';
+import { fundPerformanceService } from '../fund-performance.service';
+
+export type ReportCell = string | number | null;
+
+export interface ReportSection {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle: string;
+  sections: ReportSection[];
+}
+
+export interface ReportParameters {
+  fundId?: number;
+  asOfDate?: string;
+}
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  portfolio_overview: 'Portfolio Overview',
+  performance_analysis: 'Performance Analysis',
+  sector_distribution: 'Sector Distribution'
+};
+
+type ProgressCallback = (progress: number) => Promise<void>;
+
+function roundTo(value: number | null | undefined, digits: number): number | null {
+  if (value === null || value === undefined || !isFinite(value)) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Load allocations with their deal and fund, optionally limited to one fund
+ */
+async function loadPortfolio(fundId?: number) {
+  const query = db
+    .select({
+      allocationId: fundAllocations.id,
+      fundId: funds.id,
+      fundName: funds.name,
+      dealName: deals.name,
+      sector: deals.sector,
+      amount: fundAllocations.amount,
+      paidAmount: fundAllocations.paidAmount,
+      status: fundAllocations.status,
+      securityType: fundAllocations.securityType,
+      allocationDate: fundAllocations.allocationDate,
+      marketValue: fundAllocations.marketValue,
+      distributionPaid: fundAllocations.distributionPaid,
+      moic: fundAllocations.moic
+    })
+    .from(fundAllocations)
+    .innerJoin(funds, eq(fundAllocations.fundId, funds.id))
+    .innerJoin(deals, eq(fundAllocations.dealId, deals.id))
+    .orderBy(asc(funds.name), asc(deals.name));
+
+  return fundId ? query.where(eq(fundAllocations.fundId, fundId)) : query;
+}
+
+/**
+ * Sum the capital called on each allocation, keyed by allocation ID
+ */
+async function loadCalledAmounts(allocationIds: number[]): Promise<Map<number, number>> {
+  if (allocationIds.length === 0) return new Map();
+  const rows = await db
+    .select({
+      allocationId: capitalCalls.allocationId,
+      calledAmount: sql<number>`COALESCE(SUM(${capitalCalls.callAmount}), 0)`
+    })
+    .from(capitalCalls)
+    .where(inArray(capitalCalls.allocationId, allocationIds))
+    .groupBy(capitalCalls.allocationId);
+  return new Map(rows.map(row => [row.allocationId, Number(row.calledAmount)]));
+}
+
+async function loadFunds(fundId?: number) {
+  const query = db.select().from(funds).orderBy(asc(funds.name));
+  return fundId ? query.where(eq(funds.id, fundId)) : query;
+}
+
+async function buildPortfolioOverview(parameters: ReportParameters, onProgress: ProgressCallback): Promise<ReportSection[]> {
+  const fundRows = await loadFunds(parameters.fundId);
+  const allocations = await loadPortfolio(parameters.fundId);
+  const calledAmounts = await loadCalledAmounts(allocations.map(row => row.allocationId));
+  await onProgress(40);
+
+  const fundSummary: ReportCell[][] = fundRows.map(fund => {
+    const fundAllocationRows = allocations.filter(row => row.fundId === fund.id);
+    const committed = fundAllocationRows.reduce((sum, row) => sum + (row.amount || 0), 0);
+    const called = fundAllocationRows.reduce((sum, row) => sum + (calledAmounts.get(row.allocationId) || 0), 0);
+    const marketValue = fundAllocationRows.reduce((sum, row) => sum + (row.marketValue || 0), 0);
+    return [
+      fund.name,
+      fund.vintage ?? null,
+      fundAllocationRows.length,
+      roundTo(committed, 2),
+      roundTo(called, 2),
+      roundTo(committed - called, 2),
+      roundTo(marketValue, 2)
+    ];
+  });
+
+  return [
+    {
+      title: 'Funds',
+      columns: ['Fund', 'Vintage', 'Investments', 'Committed', 'Called', 'Uncalled', 'Market Value'],
+      rows: fundSummary
+    },
+    {
+      title: 'Investments',
+      columns: ['Fund', 'Company', 'Sector', 'Security', 'Date', 'Committed', 'Paid', 'Market Value', 'Status'],
+      rows: allocations.map(row => [
+        row.fundName,
+        row.dealName,
+        row.sector || 'Unspecified',
+        row.securityType,
+        format(new Date(row.allocationDate), 'yyyy-MM-dd'),
+        roundTo(row.amount, 2),
+        roundTo(row.paidAmount, 2),
+        roundTo(row.marketValue, 2),
+        row.status
+      ])
+    }
+  ];
+}
+
+async function buildPerformanceAnalysis(parameters: ReportParameters, onProgress: ProgressCallback): Promise<ReportSection[]> {
+  const asOfDate = parameters.asOfDate ? new Date(parameters.asOfDate) : new Date();
+  const fundRows = await loadFunds(parameters.fundId);
+
+  const fundPerformance: ReportCell[][] = [];
+  for (const [index, fund] of fundRows.entries()) {
+    const performance = await fundPerformanceService.getFundPerformance(fund.id, asOfDate);
+    const { irr } = await irrCalculator.calculateFundIrr(fund.id, asOfDate);
+    fundPerformance.push([
+      fund.name,
+      roundTo(performance.paidIn, 2),
+      roundTo(performance.distributed, 2),
+      roundTo(performance.nav, 2),
+      roundTo(performance.tvpi, 2),
+      roundTo(performance.dpi, 2),
+      roundTo(performance.rvpi, 2),
+      irr === null ? null : `${roundTo(irr, 1)}%`
+    ]);
+    await onProgress(10 + Math.round(((index + 1) / Math.max(fundRows.length, 1)) * 50));
+  }
+
+  const allocations = await loadPortfolio(parameters.fundId);
+  const allocationIrrs = await irrCalculator.calculateAllocationIrrs(allocations.map(row => row.allocationId), asOfDate);
+  return [
+    {
+      title: `Fund Performance as of ${format(asOfDate, 'yyyy-MM-dd')}`,
+      columns: ['Fund', 'Paid-in', 'Distributed', 'NAV', 'TVPI', 'DPI', 'RVPI', 'IRR'],
+      rows: fundPerformance
+    },
+    {
+      title: 'Investment Performance',
+      columns: ['Fund', 'Company', 'Paid', 'Distributions', 'Market Value', 'MOIC', 'IRR'],
+      rows: allocations.map(row => {
+        const irr = allocationIrrs.get(row.allocationId)?.irr ?? null;
+        return [
+          row.fundName,
+          row.dealName,
+          roundTo(row.paidAmount, 2),
+          roundTo(row.distributionPaid, 2),
+          roundTo(row.marketValue, 2),
+          roundTo(row.moic, 2),
+          irr === null ? null : `${roundTo(irr, 1)}%`
+        ];
+      })
+    }
+  ];
+}
+
+async function buildSectorDistribution(parameters: ReportParameters, onProgress: ProgressCallback): Promise<ReportSection[]> {
+  const allocations = await loadPortfolio(parameters.fundId);
+  await onProgress(50);
+
+  const totalCommitted = allocations.reduce((sum, row) => sum + (row.amount || 0), 0);
+  const bySector = new Map<string, { count: number; committed: number; marketValue: number }>();
+  for (const row of allocations) {
+    const sector = row.sector || 'Unspecified';
+    const entry = bySector.get(sector) || { count: 0, committed: 0, marketValue: 0 };
+    entry.count += 1;
+    entry.committed += row.amount || 0;
+    entry.marketValue += row.marketValue || 0;
+    bySector.set(sector, entry);
+  }
+
+  const rows: ReportCell[][] = Array.from(bySector.entries())
+    .sort((a, b) => b[1].committed - a[1].committed)
+    .map(([sector, entry]) => [
+      sector,
+      entry.count,
+      roundTo(entry.committed, 2),
+      totalCommitted > 0 ? `${roundTo((entry.committed / totalCommitted) * 100, 1)}%` : null,
+      roundTo(entry.marketValue, 2)
+    ]);
+
+  return [{
+    title: 'Commitments by Sector',
+    columns: ['Sector', 'Investments', 'Committed', '% of Committed', 'Market Value'],
+    rows
+  }];
+}
+
+/**
+ * Build a report document, reporting progress between 0 and 90 percent
+ */
+export async function buildReport(
+  reportType: ReportType,
+  parameters: ReportParameters,
+  onProgress: ProgressCallback
+): Promise<ReportDocument> {
+  const builders: Record<ReportType, (parameters: ReportParameters, onProgress: ProgressCallback) => Promise<ReportSection[]>> = {
+    portfolio_overview: buildPortfolioOverview,
+    performance_analysis: buildPerformanceAnalysis,
+    sector_distribution: buildSectorDistribution
+  };
+
+  const sections = await builders[reportType](parameters, onProgress);
+
+  let scope = 'All funds';
+  if (parameters.fundId) {
+    const [fund] = await db.select({ name: funds.name }).from(funds).where(eq(funds.id, parameters.fundId));
+    scope = fund?.name ?? `Fund ${parameters.fundId}`;
+  }
+
+  return {
+    title: REPORT_TITLES[reportType],
+    subtitle: `${scope} | Generated ${format(new Date(), 'yyyy-MM-dd HH:mm')}`,
+    sections
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * XLSX Writer
+ * Renders a report document as a workbook with one worksheet per section
+ */
+
+import * as XLSX from 'xlsx';
+import type { ReportDocument } from './report-builder';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Render a report document to an XLSX buffer
+ */
+export function renderXlsx(document: ReportDocument): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  for (const section of document.sections) {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      [document.title],
+      [document.subtitle],
+      [],
+      section.columns,
+      ...section.rows
+    ]);
+    worksheet['!cols'] = section.columns.map(column => ({ wch: Math.max(12, column.length + 2) }));
+
+    // Sheet names must be unique, at most 31 characters and free of []:*?/\
+    const baseName = section.title.replace(/[\[\]:*?\/\\]/g, ' ').slice(0, MAX_SHEET_NAME_LENGTH);
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName.slice(0, MAX_SHEET_NAME_LENGTH - String(suffix).length - 1)} ${suffix}`;
+    }
+    usedNames.add(name);
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+  }
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, tokenize } from './bm25';
+
+describe('tokenize', () => {
+  it('lowercases words and numbers and drops stop words and single characters', () => {
+    expect(tokenize('What is the EBITDA margin for FY2024? A 12% rise.')).toEqual(['ebitda', 'margin', 'fy2024', '12', 'rise']);
+  });
+
+  it('folds plurals but leaves short words and double s alone', () => {
+    expect(tokenize('Margins, covenants, gas, bus, loss')).toEqual(['margin', 'covenant', 'gas', 'bus', 'loss']);
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(tokenize('Société Générale résumé')).toEqual(['société', 'générale', 'résumé']);
+  });
+});
+
+describe('Bm25Index', () => {
+  it('scores a single matching term by its inverse document frequency', () => {
+    const index = new Bm25Index([{ id: 1, text: 'revenue growth' }, { id: 2, text: 'churn risk' }]);
+
+    const [hit] = index.search('revenue', 5);
+
+    expect(hit.id).toBe(1);
+    // Average length and one occurrence cancel out of the term weight
+    expect(hit.score).toBeCloseTo(Math.log(2), 10);
+  });
+
+  it('ranks rarer terms and repeated terms higher', () => {
+    const index = new Bm25Index([
+      { id: 1, text: 'Customer churn rose as pricing changed' },
+      { id: 2, text: 'Pricing power and pricing discipline' },
+      { id: 3, text: 'Pricing was stable across customers' }
+    ]);
+
+    expect(index.search('pricing', 5).map(hit => hit.id)[0]).toBe(2);
+    // "churn" is in one text, "customer" in two
+    expect(index.search('churn customers', 5).map(hit => hit.id)).toEqual([1, 3]);
+  });
+
+  it('favors shorter texts for the same term frequency', () => {
+    const index = new Bm25Index([
+      { id: 1, text: 'Covenant breach reported in the lender update along with several other operational items' },
+      { id: 2, text: 'Covenant breach' },
+      { id: 3, text: 'Board minutes' }
+    ]);
+
+    expect(index.search('breach', 5).map(hit => hit.id)).toEqual([2, 1]);
+  });
+
+  it('leaves out texts sharing no term with the query and applies the limit', () => {
+    const index = new Bm25Index([
+      { id: 1, text: 'margin expansion' },
+      { id: 2, text: 'margin pressure' },
+      { id: 3, text: 'headcount plan' }
+    ]);
+
+    expect(index.search('margins', 5).map(hit => hit.id).sort()).toEqual([1, 2]);
+    expect(index.search('margins', 1)).toHaveLength(1);
+    expect(index.search('the and of', 5)).toEqual([]);
+  });
+
+  it('handles an empty index', () => {
+    const index = new Bm25Index([]);
+
+    expect(index.size).toBe(0);
+    expect(index.search('revenue', 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * BM25
+ *
+ * Okapi BM25 ranking over a fixed set of texts. Tokens are lowercased words and numbers; common
+ * English stop words are dropped and plurals folded so "margins" finds "margin".
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'what', 'when',
+  'where', 'which', 'who', 'will', 'with', 'does', 'do', 'did', 'we', 'our', 'you', 'your', 'about'
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => token.length > 3 && /[^s]s$/.test(token) ? token.slice(0, -1) : token);
+}
+
+export interface Bm25Hit {
+  id: number;
+  score: number;
+}
+
+export class Bm25Index {
+  private readonly termFrequencies: Array<Map<string, number>>;
+  private readonly lengths: number[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(
+    private readonly documents: Array<{ id: number; text: string }>,
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {
+    this.termFrequencies = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokenize(document.text)) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map(frequencies =>
+      Array.from(frequencies.values()).reduce((sum, count) => sum + count, 0)
+    );
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (documents.length || 1);
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Best matches for the query, highest score first; texts sharing no term with it are left out
+   */
+  search(query: string, limit: number): Bm25Hit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.documents.length;
+
+    const hits: Bm25Hit[] = [];
+    this.termFrequencies.forEach((frequencies, index) => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const documentFrequency = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const norm = this.k1 * (1 - this.b + this.b * (this.lengths[index] / (this.averageLength || 1)));
+        score += idf * (frequency * (this.k1 + 1)) / (frequency + norm);
+      }
+      if (score > 0) {
+        hits.push({ id: this.documents[index].id, score });
+      }
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
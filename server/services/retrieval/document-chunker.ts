@@ -0,0 +1,207 @@
+/**
+ * Document Chunker
+ *
+ * Turns an uploaded file into retrieval chunks that remember where they came from: PDFs are read
+ * page by page and spreadsheets (Excel and CSV) row by row, so an answer can cite a page or a
+ * sheet and row range. Chunks never span two pages or two sheets.
+ */
+
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { estimateTextTokens } from '../llm/llm-provider';
+
+/** Largest chunk, in estimated tokens */
+export const CHUNK_TOKENS = 400;
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.xlsm', '.csv'];
+const TEXT_EXTENSIONS = ['.txt', '.md'];
+
+interface Segment {
+  text: string;
+  page?: number;
+  sheet?: string;
+  row?: number;
+}
+
+export interface ChunkDraft {
+  content: string;
+  page: number | null;
+  sheet: string | null;
+  rowStart: number | null;
+  rowEnd: number | null;
+  tokenCount: number;
+}
+
+export function isIndexable(fileName: string): boolean {
+  const extension = path.extname(fileName).toLowerCase();
+  return extension === '.pdf' || SPREADSHEET_EXTENSIONS.includes(extension) || TEXT_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Chunks of a file, or null when its type cannot be read as text
+ */
+export async function chunkDocument(buffer: Buffer, fileName: string): Promise<ChunkDraft[] | null> {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === '.pdf') {
+    return chunkText(await pdfPages(buffer));
+  }
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) {
+    return chunkRows(spreadsheetRows(buffer, extension === '.csv'));
+  }
+  if (TEXT_EXTENSIONS.includes(extension)) {
+    return chunkText([{ text: buffer.toString('utf8') }]);
+  }
+  return null;
+}
+
+async function pdfPages(buffer: Buffer): Promise<Segment[]> {
+  const pdfParse = (await import('pdf-parse')).default;
+  const pages: Segment[] = [];
+
+  await pdfParse(buffer, {
+    // Same line joining as pdf-parse's own renderer, but keeping each page apart
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of content.items) {
+        text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+        lastY = item.transform[5];
+      }
+      pages.push({ text, page: pageData.pageNumber ?? pages.length + 1 });
+      return text;
+    }
+  });
+
+  return pages;
+}
+
+/**
+ * One segment per non-blank row, written as "Header: value" pairs so a row reads on its own
+ */
+function spreadsheetRows(buffer: Buffer, isCsv: boolean): Segment[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const segments: Segment[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    // Blank rows are kept while parsing so each row's position gives its spreadsheet row number
+    const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+    const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: '', raw: false, blankrows: true })
+      .map((cells, index) => ({ cells, number: firstRow + index + 1 }))
+      .filter(row => row.cells.some(cell => String(cell).trim() !== ''));
+
+    // Headers are the first row with more than one filled cell, as in the spreadsheet viewer
+    const headerIndex = rows.slice(0, 10).findIndex(row => row.cells.filter(cell => cell !== '').length > 1);
+    const headers = headerIndex >= 0 ? rows[headerIndex].cells.map(cell => String(cell).trim()) : [];
+
+    rows.forEach((row, index) => {
+      if (index === headerIndex) return;
+      // Title rows above the headers are kept as plain text
+      const labels = index > headerIndex ? headers : [];
+      const text = row.cells
+        .map((cell, column) => {
+          const value = String(cell).trim();
+          if (!value) return null;
+          return labels[column] ? `${labels[column]}: ${value}` : value;
+        })
+        .filter(Boolean)
+        .join(' | ');
+      segments.push({ text, sheet: isCsv ? undefined : sheetName, row: row.number });
+    });
+  }
+
+  return segments;
+}
+
+function chunkText(segments: Segment[]): ChunkDraft[] {
+  const chunks: ChunkDraft[] = [];
+
+  for (const segment of segments) {
+    let current = '';
+    const flush = () => {
+      const content = current.trim();
+      if (content) {
+        chunks.push({ content, page: segment.page ?? null, sheet: null, rowStart: null, rowEnd: null, tokenCount: estimateTextTokens(content) });
+      }
+      current = '';
+    };
+
+    for (const piece of splitToFit(segment.text)) {
+      if (current && estimateTextTokens(`${current}\n${piece}`) > CHUNK_TOKENS) {
+        flush();
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+    flush();
+  }
+
+  return chunks;
+}
+
+function chunkRows(segments: Segment[]): ChunkDraft[] {
+  const chunks: ChunkDraft[] = [];
+  let lines: string[] = [];
+  let first: Segment | null = null;
+  let last: Segment | null = null;
+
+  const flush = () => {
+    if (first && last && lines.length > 0) {
+      const content = lines.join('\n');
+      chunks.push({
+        content,
+        page: null,
+        sheet: first.sheet ?? null,
+        rowStart: first.row ?? null,
+        rowEnd: last.row ?? null,
+        tokenCount: estimateTextTokens(content)
+      });
+    }
+    lines = [];
+    first = last = null;
+  };
+
+  for (const segment of segments) {
+    const line = `Row ${segment.row}: ${segment.text}`;
+    const full = first && estimateTextTokens([...lines, line].join('\n')) > CHUNK_TOKENS;
+    if (first && (segment.sheet !== first.sheet || full)) {
+      flush();
+    }
+    first = first ?? segment;
+    last = segment;
+    lines.push(line);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Paragraphs, with any paragraph too large for one chunk broken into lines, and overlong lines
+ * broken between words
+ */
+function splitToFit(text: string): string[] {
+  const maxChars = CHUNK_TOKENS * 4;
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length <= maxChars ? [paragraph] : paragraph.split('\n'))
+    .flatMap(piece => piece.length <= maxChars ? [piece] : wrapWords(piece, maxChars))
+    .map(piece => piece.trim())
+    .filter(Boolean);
+}
+
+function wrapWords(line: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of line.split(/\s+/)) {
+    if (current && current.length + word.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
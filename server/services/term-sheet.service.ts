@@ -0,0 +1,460 @@
+/**
+ * Term Sheet Service
+ *
+ * Reads the terms of a deal's term_sheet documents on the term-sheet-extraction job: the model
+ * returns each term with a confidence and the sentence it was read from, and each quote is looked
+ * up in the document text to locate it (page, sheet or rows). Nothing is written to the deal until
+ * an analyst reviews the proposed changes and accepts some of them.
+ */
+
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  deals,
+  documents,
+  fundAllocations,
+  termSheetExtractions,
+  termSheetTermsSchema,
+  TERM_SHEET_SECURITY_TYPES,
+  type Deal,
+  type DocumentChunk,
+  type FundAllocation,
+  type TermSheetChange,
+  type TermSheetExtraction,
+  type TermSheetTermKey,
+  type TermSheetTerms
+} from '@shared/schema';
+import { SECURITY_TYPES } from '@shared/constants';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { StorageFactory } from '../storage-factory';
+import { allocationService } from './allocation.service';
+import { documentIndexService } from './document-index.service';
+import { domainEvents } from './events/domain-events';
+import { fundService } from './fund.service';
+import { llmService } from './llm.service';
+import type { LlmMessage } from './llm/llm-provider';
+import { jobQueue } from './queue-processor.service';
+import { ApplicationError, NotFoundError, ValidationError } from './type-definitions';
+
+// Term sheets are short; longer documents are cut off rather than retrieved from
+const DOCUMENT_TOKEN_BUDGET = 12000;
+// A term whose quote is not in the document may be made up, whatever the model says
+const UNVERIFIED_CONFIDENCE_CAP = 0.4;
+
+const TERM_KEYS = Object.keys(termSheetTermsSchema.shape) as TermSheetTermKey[];
+
+// A missing status means another review closed the extraction after it was read
+const notReviewable = (status?: string) => new ApplicationError(
+  status ? `The extraction is ${status}, not awaiting review` : 'The extraction was reviewed by someone else in the meantime',
+  'EXTRACTION_NOT_REVIEWABLE',
+  409
+);
+
+// What the model answers per term: the stored shape with the quote in place of its location
+const modelTermsSchema = z.object(Object.fromEntries(TERM_KEYS.map(key => [
+  key,
+  termSheetTermsSchema.shape[key].omit({ source: true }).extend({ quote: z.string().nullable() })
+])));
+
+const SYSTEM_PROMPT = `You extract the terms of a venture financing term sheet into JSON.
+
+Answer with one JSON object with exactly these keys:
+- preMoneyValuation, postMoneyValuation, raiseAmount: numbers in whole currency units (e.g. 12500000, not "12.5M")
+- currency: ISO 4217 code, e.g. "USD"
+- round: the round name, e.g. "Seed", "Series A"
+- leadInvestor: the lead investor's name
+- securityType: one of ${TERM_SHEET_SECURITY_TYPES.map(type => `"${type}"`).join(', ')}
+- liquidationPreference: { "multiple": number, "participating": boolean, "cap": number or null }
+- proRataRights: boolean, whether investors get pro-rata rights in future rounds
+- boardSeats: integer, board seats for this round's investors
+- vesting: { "months": integer, "cliffMonths": integer or null, "acceleration": text or null } for founder or employee vesting
+
+Each key holds { "value": ..., "confidence": number from 0 to 1, "quote": text or null }.
+"quote" is the shortest passage of the term sheet, copied exactly, that states the term.
+When the term sheet does not state a term, use "value": null, "confidence": 0 and "quote": null.
+Do not compute terms the document does not state, except post-money as pre-money plus the raise.`;
+
+const SECURITY_TYPE_LABELS: Record<typeof TERM_SHEET_SECURITY_TYPES[number], string> = {
+  preferred_equity: 'Preferred equity',
+  common_equity: 'Common equity',
+  safe: 'SAFE',
+  convertible_note: 'Convertible note',
+  other: 'Other'
+};
+
+// Allocations use the coarser security types of the allocation validator; "other" has no match
+const ALLOCATION_SECURITY_TYPES: Record<typeof TERM_SHEET_SECURITY_TYPES[number], string | null> = {
+  preferred_equity: SECURITY_TYPES.EQUITY,
+  common_equity: SECURITY_TYPES.EQUITY,
+  safe: SECURITY_TYPES.CONVERTIBLE,
+  convertible_note: SECURITY_TYPES.CONVERTIBLE,
+  other: null
+};
+
+/**
+ * Lowercase with single spaces and plain quotes, so a quote matches the text it was copied from
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * An amount as deals show it: $12.5M, €800K
+ */
+function formatAmount(amount: number, currency: string | null): string {
+  const symbol = ({ USD: '$', EUR: '€', GBP: '£' } as Record<string, string>)[currency ?? 'USD'] ?? `${currency} `;
+  const [divisor, suffix] = amount >= 1e9 ? [1e9, 'B'] : amount >= 1e6 ? [1e6, 'M'] : amount >= 1e3 ? [1e3, 'K'] : [1, ''];
+  return `${symbol}${parseFloat((amount / divisor).toFixed(2))}${suffix}`;
+}
+
+export class TermSheetService {
+  /**
+   * Queue extraction of a term sheet's current version; an extraction already queued or running
+   * for that version is returned instead
+   */
+  async queueExtraction(dealId: number, documentId: number, userId: number): Promise<TermSheetExtraction> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, documentId));
+    if (!document || document.dealId !== dealId) {
+      throw new NotFoundError('Document', documentId);
+    }
+    if (document.documentType !== 'term_sheet') {
+      throw new ValidationError('Only term sheet documents can be extracted', 'documentId');
+    }
+
+    const [pending] = await db.select()
+      .from(termSheetExtractions)
+      .where(and(
+        eq(termSheetExtractions.documentId, documentId),
+        eq(termSheetExtractions.documentVersion, document.version),
+        inArray(termSheetExtractions.status, ['queued', 'processing'])
+      ));
+    if (pending) return pending;
+
+    const [created] = await db.insert(termSheetExtractions).values({
+      dealId: document.dealId,
+      documentId,
+      documentVersion: document.version,
+      createdBy: userId
+    }).returning();
+
+    const jobId = await jobQueue.addJob('term-sheet-extraction', { extractionId: created.id }, { maxAttempts: 1 });
+    const [queued] = await db.update(termSheetExtractions)
+      .set({ jobId })
+      .where(eq(termSheetExtractions.id, created.id))
+      .returning();
+    return queued;
+  }
+
+  /**
+   * Read the terms with the model and locate their quotes in the document.
+   * Called by the term-sheet-extraction job processor.
+   */
+  async runExtraction(extractionId: number): Promise<TermSheetExtraction> {
+    const extraction = await this.getExtraction(extractionId);
+    await db.update(termSheetExtractions).set({ status: 'processing' }).where(eq(termSheetExtractions.id, extractionId));
+
+    try {
+      const { index, chunks } = await documentIndexService.getDocumentChunks(extraction.documentId);
+      if (chunks.length === 0) {
+        throw new ValidationError(index.error || 'No text could be read from the term sheet', 'documentId');
+      }
+
+      const { data, response } = await llmService.chatJson(this.buildMessages(chunks), modelTermsSchema, {
+        purpose: 'term_sheet_extraction'
+      });
+      const terms = this.locateSources(data, chunks);
+
+      const [extracted] = await db.update(termSheetExtractions)
+        .set({
+          status: 'extracted',
+          terms,
+          model: response.model,
+          provider: llmService.getProvider()?.name ?? null,
+          errorMessage: null,
+          completedAt: new Date()
+        })
+        .where(eq(termSheetExtractions.id, extractionId))
+        .returning();
+      return extracted;
+    } catch (error) {
+      await db.update(termSheetExtractions)
+        .set({
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        })
+        .where(eq(termSheetExtractions.id, extractionId));
+      throw error;
+    }
+  }
+
+  async getExtraction(extractionId: number): Promise<TermSheetExtraction> {
+    const [extraction] = await db.select().from(termSheetExtractions).where(eq(termSheetExtractions.id, extractionId));
+    if (!extraction) throw new NotFoundError('Term sheet extraction', extractionId);
+    return extraction;
+  }
+
+  /**
+   * Extractions of a deal's term sheets with their file names, newest first
+   */
+  async listForDeal(dealId: number): Promise<Array<TermSheetExtraction & { fileName: string }>> {
+    const rows = await db
+      .select({ extraction: termSheetExtractions, fileName: documents.fileName })
+      .from(termSheetExtractions)
+      .innerJoin(documents, eq(termSheetExtractions.documentId, documents.id))
+      .where(eq(termSheetExtractions.dealId, dealId))
+      .orderBy(desc(termSheetExtractions.createdAt), desc(termSheetExtractions.id));
+    return rows.map(row => ({ ...row.extraction, fileName: row.fileName }));
+  }
+
+  /**
+   * The deal fields, and the allocation's when given, that the extracted terms would change
+   */
+  async proposeChanges(extraction: TermSheetExtraction, allocationId?: number): Promise<TermSheetChange[]> {
+    if (!extraction.terms) return [];
+    const storage = StorageFactory.getStorage();
+
+    const deal = await storage.getDeal(extraction.dealId);
+    if (!deal) throw new NotFoundError('Deal', extraction.dealId);
+
+    let allocation: FundAllocation | undefined;
+    if (allocationId !== undefined) {
+      allocation = await storage.getFundAllocation(allocationId);
+      if (!allocation || allocation.dealId !== extraction.dealId) {
+        throw new NotFoundError('Allocation', allocationId);
+      }
+    }
+
+    return [
+      ...this.dealChanges(extraction.terms, deal),
+      ...(allocation ? this.allocationChanges(extraction.terms, allocation) : [])
+    ];
+  }
+
+  /**
+   * Apply the reviewed changes the analyst selected and close the extraction, all in one transaction.
+   * The extraction is claimed first, so a concurrent accept or reject cannot apply it twice.
+   */
+  async acceptChanges(
+    extractionId: number,
+    userId: number,
+    selected: Array<{ target: TermSheetChange['target']; field: string }>,
+    allocationId?: number
+  ): Promise<{ extraction: TermSheetExtraction; applied: TermSheetChange[] }> {
+    const extraction = await this.getExtraction(extractionId);
+    if (extraction.status !== 'extracted') {
+      throw notReviewable(extraction.status);
+    }
+
+    // Proposed values are recomputed, so changes made to the deal since the review are not overwritten blindly
+    const proposed = await this.proposeChanges(extraction, allocationId);
+    const applied = proposed.filter(change =>
+      selected.some(choice => choice.target === change.target && choice.field === change.field)
+    );
+    if (applied.length < selected.length) {
+      throw new ValidationError('Some selected changes are no longer proposed; review the term sheet again', 'changes');
+    }
+
+    const dealUpdate: Partial<Deal> = Object.fromEntries(
+      applied.filter(change => change.target === 'deal').map(change => [change.field, change.proposed])
+    );
+    const allocationUpdate: Partial<FundAllocation> = Object.fromEntries(
+      applied.filter(change => change.target === 'allocation').map(change => [change.field, change.proposed])
+    );
+
+    const { accepted, allocation } = await db.transaction(async tx => {
+      const [accepted] = await tx.update(termSheetExtractions)
+        .set({ status: 'accepted', appliedChanges: applied, reviewedBy: userId, reviewedAt: new Date() })
+        .where(and(eq(termSheetExtractions.id, extractionId), eq(termSheetExtractions.status, 'extracted')))
+        .returning();
+      if (!accepted) {
+        throw notReviewable();
+      }
+
+      if (Object.keys(dealUpdate).length > 0) {
+        await tx.update(deals)
+          .set({ ...dealUpdate, updatedAt: new Date() })
+          .where(eq(deals.id, extraction.dealId));
+      }
+
+      let allocation: FundAllocation | undefined;
+      if (allocationId !== undefined && Object.keys(allocationUpdate).length > 0) {
+        [allocation] = await tx.update(fundAllocations)
+          .set(allocationUpdate)
+          .where(eq(fundAllocations.id, allocationId))
+          .returning();
+      }
+      return { accepted, allocation };
+    });
+
+    // Fund totals are derived from the committed allocation
+    if (allocation) {
+      domainEvents.emit('allocation.updated', {
+        allocationId: allocation.id,
+        fundId: allocation.fundId,
+        dealId: allocation.dealId,
+        changes: Object.keys(allocationUpdate)
+      });
+      await allocationService.recalculatePortfolioWeights(allocation.fundId);
+      await fundService.updateFundAUM(allocation.fundId);
+    }
+
+    return { extraction: accepted, applied };
+  }
+
+  async rejectExtraction(extractionId: number, userId: number): Promise<TermSheetExtraction> {
+    const extraction = await this.getExtraction(extractionId);
+    if (extraction.status !== 'extracted') {
+      throw notReviewable(extraction.status);
+    }
+
+    const [rejected] = await db.update(termSheetExtractions)
+      .set({ status: 'rejected', reviewedBy: userId, reviewedAt: new Date() })
+      .where(and(eq(termSheetExtractions.id, extractionId), eq(termSheetExtractions.status, 'extracted')))
+      .returning();
+    if (!rejected) {
+      throw notReviewable();
+    }
+    return rejected;
+  }
+
+  private buildMessages(chunks: DocumentChunk[]): LlmMessage[] {
+    const parts: string[] = [];
+    let tokens = 0;
+    for (const chunk of chunks) {
+      tokens += chunk.tokenCount;
+      if (tokens > DOCUMENT_TOKEN_BUDGET) break;
+      parts.push(chunk.page ? `[Page ${chunk.page}]\n${chunk.content}` : chunk.content);
+    }
+
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: `Extract the terms of this term sheet.\n\n${parts.join('\n\n')}` }
+    ];
+  }
+
+  /**
+   * Find each term's quote in the document; unverified terms keep the quote with a capped confidence
+   */
+  private locateSources(data: z.infer<typeof modelTermsSchema>, chunks: DocumentChunk[]): TermSheetTerms {
+    const normalizedChunks = chunks.map(chunk => normalizeText(chunk.content));
+
+    const terms = Object.fromEntries(TERM_KEYS.map(key => {
+      const { quote, value, confidence } = data[key] as { quote: string | null; value: unknown; confidence: number };
+      if (value === null || !quote?.trim()) {
+        return [key, { value, confidence: value === null ? 0 : Math.min(confidence, UNVERIFIED_CONFIDENCE_CAP), source: null }];
+      }
+
+      const needle = normalizeText(quote);
+      const chunk = chunks[normalizedChunks.findIndex(text => text.includes(needle))];
+      return [key, {
+        value,
+        confidence: chunk ? confidence : Math.min(confidence, UNVERIFIED_CONFIDENCE_CAP),
+        source: {
+          quote: quote.trim(),
+          page: chunk?.page ?? null,
+          sheet: chunk?.sheet ?? null,
+          rowStart: chunk?.rowStart ?? null,
+          rowEnd: chunk?.rowEnd ?? null,
+          verified: !!chunk
+        }
+      }];
+    }));
+
+    return termSheetTermsSchema.parse(terms);
+  }
+
+  private dealChanges(terms: TermSheetTerms, deal: Deal): TermSheetChange[] {
+    const currency = terms.currency.value;
+    const changes: TermSheetChange[] = [];
+    const propose = (field: keyof Deal, term: TermSheetTermKey, proposed: string | null) => {
+      const current = (deal[field] as string | null) ?? null;
+      if (proposed && proposed !== current) {
+        changes.push({ target: 'deal', targetId: deal.id, field, term, current, proposed, confidence: terms[term].confidence });
+      }
+    };
+
+    // Deals keep one valuation; post-money is the one quoted for rounds and SAFEs alike
+    if (terms.postMoneyValuation.value !== null) {
+      propose('valuation', 'postMoneyValuation', `${formatAmount(terms.postMoneyValuation.value, currency)} post-money`);
+    } else if (terms.preMoneyValuation.value !== null) {
+      propose('valuation', 'preMoneyValuation', `${formatAmount(terms.preMoneyValuation.value, currency)} pre-money`);
+    }
+    propose('targetRaise', 'raiseAmount', terms.raiseAmount.value !== null ? formatAmount(terms.raiseAmount.value, currency) : null);
+    propose('round', 'round', terms.round.value);
+    propose('leadInvestor', 'leadInvestor', terms.leadInvestor.value);
+    return changes;
+  }
+
+  private allocationChanges(terms: TermSheetTerms, allocation: FundAllocation): TermSheetChange[] {
+    const changes: TermSheetChange[] = [];
+    const securityType = terms.securityType.value ? ALLOCATION_SECURITY_TYPES[terms.securityType.value] : null;
+    if (securityType && securityType !== allocation.securityType) {
+      changes.push({
+        target: 'allocation',
+        targetId: allocation.id,
+        field: 'securityType',
+        term: 'securityType',
+        current: allocation.securityType,
+        proposed: securityType,
+        confidence: terms.securityType.confidence
+      });
+    }
+
+    // Allocations have no columns for the protective terms, so they are summarized in the notes
+    const summary = this.summarizeTerms(terms);
+    if (summary && !(allocation.notes ?? '').includes(summary.text)) {
+      changes.push({
+        target: 'allocation',
+        targetId: allocation.id,
+        field: 'notes',
+        term: summary.term,
+        current: allocation.notes ?? null,
+        proposed: allocation.notes ? `${allocation.notes}\n${summary.text}` : summary.text,
+        confidence: summary.confidence
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * One line of the liquidation preference, pro-rata, board and vesting terms, with the lowest
+   * confidence among them
+   */
+  private summarizeTerms(terms: TermSheetTerms): { text: string; term: TermSheetTermKey; confidence: number } | null {
+    const parts: Array<[TermSheetTermKey, string]> = [];
+    const { liquidationPreference, proRataRights, boardSeats, vesting, securityType } = terms;
+
+    if (liquidationPreference.value) {
+      const { multiple, participating, cap } = liquidationPreference.value;
+      parts.push(['liquidationPreference', `${multiple}x ${participating ? `participating${cap ? ` (capped at ${cap}x)` : ''}` : 'non-participating'} liquidation preference`]);
+    }
+    if (proRataRights.value !== null) {
+      parts.push(['proRataRights', proRataRights.value ? 'pro-rata rights' : 'no pro-rata rights']);
+    }
+    if (boardSeats.value !== null) {
+      parts.push(['boardSeats', `${boardSeats.value} investor board seat${boardSeats.value === 1 ? '' : 's'}`]);
+    }
+    if (vesting.value) {
+      const { months, cliffMonths, acceleration } = vesting.value;
+      parts.push(['vesting', `${months}-month vesting${cliffMonths ? ` with ${cliffMonths}-month cliff` : ''}${acceleration ? `, ${acceleration} acceleration` : ''}`]);
+    }
+    if (parts.length === 0) return null;
+
+    const label = securityType.value ? SECURITY_TYPE_LABELS[securityType.value] : 'Term sheet';
+    const [lowest] = [...parts].sort(([a], [b]) => terms[a].confidence - terms[b].confidence);
+    return {
+      text: `${label} terms: ${parts.map(([, text]) => text).join('; ')}`,
+      term: lowest[0],
+      confidence: terms[lowest[0]].confidence
+    };
+  }
+}
+
+// Export singleton instance
+export const termSheetService = new TermSheetService();
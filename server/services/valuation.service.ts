@@ -0,0 +1,279 @@
+/**
+ * Valuation Service
+ *
+ * Dated valuation marks per allocation and the quarterly NAV roll-forward per fund.
+ * The latest mark is mirrored into fundAllocations.marketValue so existing metrics keep working.
+ */
+
+import { db } from '../db';
+import {
+  distributions,
+  fundAllocations,
+  valuationMarks,
+  type FundAllocation,
+  type InsertFundAllocation,
+  type ValuationMark,
+  type ValuationMethod
+} from '@shared/schema';
+import { and, asc, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { addDays } from 'date-fns';
+import { irrCalculator, type CashFlow } from './irr-calculator.service';
+import { metricsCalculator } from './metrics-calculator.service';
+import { domainEvents } from './events/domain-events';
+import { calculateNavRollforward, type NavQuarter } from './calculators/nav-rollforward.calculator';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+export interface ValuationMarkInput {
+  markDate: string;
+  value: number;
+  method: ValuationMethod;
+  notes?: string;
+  supportingDocumentIds?: number[];
+}
+
+export interface NavRollforward {
+  fundId: number;
+  asOfDate: Date;
+  quarters: NavQuarter[];
+}
+
+export interface FundValuation {
+  startDate: Date; // Earliest allocation or cash flow
+  flows: CashFlow[]; // Dated contributions and distributions, without terminal values
+  navAt: (date: Date) => number;
+}
+
+export class ValuationService {
+  /**
+   * Get the valuation history for an allocation, newest mark first
+   */
+  async getMarks(allocationId: number): Promise<ValuationMark[]> {
+    return db
+      .select()
+      .from(valuationMarks)
+      .where(eq(valuationMarks.allocationId, allocationId))
+      .orderBy(desc(valuationMarks.markDate), desc(valuationMarks.id));
+  }
+
+  /**
+   * Record a valuation mark. When it is the most recent mark, the allocation's
+   * market value and derived metrics are updated to match.
+   */
+  async recordMark(allocationId: number, data: ValuationMarkInput, userId: number): Promise<ValuationMark> {
+    const [allocation] = await db
+      .select({ id: fundAllocations.id })
+      .from(fundAllocations)
+      .where(eq(fundAllocations.id, allocationId));
+    if (!allocation) throw new NotFoundError('Allocation', allocationId);
+
+    if (data.value < 0) {
+      throw new ValidationError('Valuation cannot be negative', 'value');
+    }
+
+    const [mark] = await db
+      .insert(valuationMarks)
+      .values({
+        allocationId,
+        markDate: data.markDate,
+        value: data.value,
+        method: data.method,
+        notes: data.notes,
+        supportingDocumentIds: data.supportingDocumentIds ?? [],
+        createdBy: userId
+      })
+      .returning();
+
+    const [latest] = await this.getMarks(allocationId);
+    if (latest?.id === mark.id) {
+      await db
+        .update(fundAllocations)
+        .set({ marketValue: mark.value })
+        .where(eq(fundAllocations.id, allocationId));
+      await metricsCalculator.updateAllocationMetrics(allocationId);
+    }
+
+    return mark;
+  }
+
+  /**
+   * Apply an allocation update that changes its market value, recording the new value as a mark
+   * dated today in the same transaction, so the market value never changes without a mark.
+   * A later-dated mark already on file stays the allocation's market value.
+   */
+  async updateAllocationWithMark(
+    allocationId: number,
+    updates: Partial<InsertFundAllocation> & { marketValue: number },
+    method: ValuationMethod,
+    userId: number
+  ): Promise<FundAllocation | undefined> {
+    if (updates.marketValue < 0) {
+      throw new ValidationError('Valuation cannot be negative', 'value');
+    }
+
+    const allocation = await db.transaction(async tx => {
+      const [updated] = await tx
+        .update(fundAllocations)
+        .set(updates)
+        .where(eq(fundAllocations.id, allocationId))
+        .returning();
+      if (!updated) return undefined;
+
+      const [mark] = await tx
+        .insert(valuationMarks)
+        .values({
+          allocationId,
+          markDate: new Date().toISOString().split('T')[0],
+          value: updates.marketValue,
+          method,
+          createdBy: userId
+        })
+        .returning();
+
+      const [latest] = await tx
+        .select()
+        .from(valuationMarks)
+        .where(eq(valuationMarks.allocationId, allocationId))
+        .orderBy(desc(valuationMarks.markDate), desc(valuationMarks.id))
+        .limit(1);
+      if (latest.id === mark.id) return updated;
+
+      const [current] = await tx
+        .update(fundAllocations)
+        .set({ marketValue: latest.value })
+        .where(eq(fundAllocations.id, allocationId))
+        .returning();
+      return current;
+    });
+
+    if (allocation) {
+      await metricsCalculator.updateAllocationMetrics(allocationId);
+      domainEvents.emit('allocation.updated', {
+        allocationId,
+        fundId: allocation.fundId,
+        dealId: allocation.dealId,
+        changes: Object.keys(updates)
+      });
+    }
+
+    return allocation;
+  }
+
+  /**
+   * Record the approver of a valuation mark
+   */
+  async approveMark(markId: number, userId: number): Promise<ValuationMark> {
+    const [mark] = await db
+      .update(valuationMarks)
+      .set({ approvedBy: userId, approvedAt: new Date() })
+      .where(and(eq(valuationMarks.id, markId), isNull(valuationMarks.approvedBy)))
+      .returning();
+
+    if (!mark) {
+      const [existing] = await db.select().from(valuationMarks).where(eq(valuationMarks.id, markId));
+      if (!existing) throw new NotFoundError('Valuation mark', markId);
+      throw new ValidationError('Valuation mark is already approved', 'approvedBy');
+    }
+
+    return mark;
+  }
+
+  /**
+   * Load a fund's dated cash flows and a NAV function valid for any date up to asOfDate.
+   * Allocations are valued at their latest mark on or before the date, and at cost (paid-in less
+   * capital returned) until they are first marked. Allocations never marked are worth their recorded
+   * market value, which is today's, only when the date is today, matching the terminal value IRR uses.
+   */
+  async loadFundValuation(fundId: number, asOfDate: Date = new Date()): Promise<FundValuation | null> {
+    const allocations = await db
+      .select({ id: fundAllocations.id, allocationDate: fundAllocations.allocationDate, marketValue: fundAllocations.marketValue })
+      .from(fundAllocations)
+      .where(eq(fundAllocations.fundId, fundId));
+
+    const allocationIds = allocations.map(allocation => allocation.id);
+    if (allocationIds.length === 0) return null;
+
+    const flowsByAllocation = await irrCalculator.loadCashFlows(allocationIds, asOfDate);
+    const flows = Array.from(flowsByAllocation.values())
+      .flat()
+      .filter(flow => flow.type !== 'terminal_value');
+
+    const marks = await db
+      .select()
+      .from(valuationMarks)
+      .where(inArray(valuationMarks.allocationId, allocationIds))
+      .orderBy(asc(valuationMarks.markDate), asc(valuationMarks.id));
+
+    const returnedCapital = await db
+      .select({ allocationId: distributions.allocationId, amount: distributions.amount, date: distributions.distributionDate })
+      .from(distributions)
+      .where(and(
+        inArray(distributions.allocationId, allocationIds),
+        eq(distributions.distributionType, 'return_of_capital')
+      ));
+
+    const markedIds = new Set(marks.map(mark => mark.allocationId));
+    const unmarkedMarketValues = new Map(allocations
+      .filter(allocation => !markedIds.has(allocation.id) && allocation.marketValue !== null)
+      .map(allocation => [allocation.id, Number(allocation.marketValue)]));
+    const now = new Date();
+
+    const allocationValueAt = (allocationId: number, date: Date): number => {
+      const endOfDay = addDays(date, 1);
+      const latestMark = marks
+        .filter(mark => mark.allocationId === allocationId && new Date(mark.markDate) < endOfDay)
+        .pop();
+      if (latestMark) return latestMark.value;
+
+      const unmarkedValue = unmarkedMarketValues.get(allocationId);
+      if (unmarkedValue !== undefined && endOfDay > now) return unmarkedValue;
+
+      const paidIn = flows
+        .filter(flow => flow.allocationId === allocationId && flow.type === 'contribution' && flow.date < endOfDay)
+        .reduce((sum, flow) => sum - flow.amount, 0);
+      const returned = returnedCapital
+        .filter(row => row.allocationId === allocationId && new Date(row.date) < endOfDay)
+        .reduce((sum, row) => sum + Number(row.amount || 0), 0);
+      return Math.max(0, paidIn - returned);
+    };
+
+    const startDate = new Date(Math.min(
+      ...allocations.map(allocation => new Date(allocation.allocationDate).getTime()),
+      ...flows.map(flow => flow.date.getTime())
+    ));
+
+    return {
+      startDate,
+      flows,
+      navAt: date => allocationIds.reduce((sum, id) => sum + allocationValueAt(id, date), 0)
+    };
+  }
+
+  /**
+   * Build the quarterly NAV roll-forward for a fund through asOfDate
+   */
+  async getFundNavRollforward(fundId: number, asOfDate: Date = new Date()): Promise<NavRollforward> {
+    const valuation = await this.loadFundValuation(fundId, asOfDate);
+    if (!valuation) {
+      return { fundId, asOfDate, quarters: [] };
+    }
+
+    const sumFlows = (type: 'contribution' | 'distribution', start: Date, end: Date) => valuation.flows
+      .filter(flow => flow.type === type && flow.date >= start && flow.date < end)
+      .reduce((sum, flow) => sum + Math.abs(flow.amount), 0);
+
+    const quarters = calculateNavRollforward(
+      {
+        navAt: valuation.navAt,
+        contributionsBetween: (start, end) => sumFlows('contribution', start, end),
+        distributionsBetween: (start, end) => sumFlows('distribution', start, end)
+      },
+      valuation.startDate,
+      asOfDate
+    );
+
+    return { fundId, asOfDate, quarters };
+  }
+}
+
+// Export singleton instance
+export const valuationService = new ValuationService();
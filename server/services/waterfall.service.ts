@@ -0,0 +1,224 @@
+/**
+ * Waterfall Service
+ *
+ * Applies each fund's waterfall terms to its distributions and stores the LP/GP tranches:
+ * - European (whole-fund): hurdle and carry measured across all of the fund's allocations
+ * - American (deal-by-deal): hurdle and carry measured per deal within the fund
+ */
+
+import { db } from '../db';
+import {
+  distributions,
+  distributionWaterfalls,
+  fundAllocations,
+  fundWaterfallConfigs,
+  type DistributionWaterfall,
+  type FundWaterfallConfig,
+  type InsertFundWaterfallConfig
+} from '@shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { FUND_CONFIG } from '../config/fund-config';
+import { irrCalculator } from './irr-calculator.service';
+import { splitDistribution, type WaterfallTerms } from './calculators/waterfall.calculator';
+import { NotFoundError, ValidationError } from './type-definitions';
+
+export interface FundWaterfallSummary {
+  fundId: number;
+  terms: WaterfallTerms;
+  totalDistributed: number;
+  lpTotal: number;
+  gpTotal: number;
+  gpCatchUp: number;
+  gpCarriedInterest: number;
+  distributions: DistributionWaterfall[];
+}
+
+export class WaterfallService {
+  /**
+   * Get the waterfall terms for a fund, falling back to configured defaults
+   */
+  async getTerms(fundId: number): Promise<WaterfallTerms & { isDefault: boolean }> {
+    const [config] = await db
+      .select()
+      .from(fundWaterfallConfigs)
+      .where(eq(fundWaterfallConfigs.fundId, fundId));
+
+    if (!config) {
+      return { ...FUND_CONFIG.WATERFALL_DEFAULTS, isDefault: true };
+    }
+
+    return {
+      waterfallType: config.waterfallType,
+      preferredReturnRate: config.preferredReturnRate,
+      catchUpPercentage: config.catchUpPercentage,
+      carriedInterestRate: config.carriedInterestRate,
+      isDefault: false
+    };
+  }
+
+  /**
+   * Create or update a fund's waterfall terms and recalculate its distributions
+   */
+  async upsertConfig(fundId: number, data: Omit<InsertFundWaterfallConfig, 'fundId'>): Promise<FundWaterfallConfig> {
+    if (data.carriedInterestRate !== undefined && (data.carriedInterestRate < 0 || data.carriedInterestRate >= 1)) {
+      throw new ValidationError('Carried interest rate must be between 0 and 1', 'carriedInterestRate');
+    }
+    if (data.catchUpPercentage !== undefined && (data.catchUpPercentage < 0 || data.catchUpPercentage > 1)) {
+      throw new ValidationError('Catch-up percentage must be between 0 and 1', 'catchUpPercentage');
+    }
+    if (data.preferredReturnRate !== undefined && data.preferredReturnRate < 0) {
+      throw new ValidationError('Preferred return rate cannot be negative', 'preferredReturnRate');
+    }
+
+    const [config] = await db
+      .insert(fundWaterfallConfigs)
+      .values({ ...data, fundId })
+      .onConflictDoUpdate({
+        target: fundWaterfallConfigs.fundId,
+        set: { ...data, updatedAt: new Date() }
+      })
+      .returning();
+
+    await this.recalculateFund(fundId);
+    return config;
+  }
+
+  /**
+   * Recalculate LP/GP tranches for every distribution in a fund, in date order.
+   * Distributions are recalculated together because each one depends on all earlier ones.
+   */
+  async recalculateFund(fundId: number): Promise<DistributionWaterfall[]> {
+    const terms = await this.getTerms(fundId);
+    const { isDefault: _isDefault, ...waterfallTerms } = terms;
+
+    const allocations = await db
+      .select({ id: fundAllocations.id, dealId: fundAllocations.dealId })
+      .from(fundAllocations)
+      .where(eq(fundAllocations.fundId, fundId));
+
+    if (allocations.length === 0) return [];
+
+    const dealByAllocation = new Map(allocations.map(a => [a.id, a.dealId]));
+    const flowsByAllocation = await irrCalculator.loadCashFlows(allocations.map(a => a.id));
+
+    const fundDistributions = await db
+      .select({
+        id: distributions.id,
+        allocationId: distributions.allocationId,
+        distributionDate: distributions.distributionDate,
+        amount: distributions.amount
+      })
+      .from(distributions)
+      .innerJoin(fundAllocations, eq(distributions.allocationId, fundAllocations.id))
+      .where(eq(fundAllocations.fundId, fundId))
+      .orderBy(asc(distributions.distributionDate), asc(distributions.id));
+
+    const results: DistributionWaterfall[] = [];
+
+    for (let i = 0; i < fundDistributions.length; i++) {
+      const distribution = fundDistributions[i];
+      const asOfDate = new Date(distribution.distributionDate);
+      const dealId = dealByAllocation.get(distribution.allocationId);
+
+      // Whole-fund scope for European, same-deal scope for American
+      const inScope = (allocationId: number) =>
+        waterfallTerms.waterfallType === 'european' || dealByAllocation.get(allocationId) === dealId;
+
+      const contributions = allocations
+        .filter(a => inScope(a.id))
+        .flatMap(a => flowsByAllocation.get(a.id) || [])
+        .filter(flow => flow.type === 'contribution' && flow.date <= asOfDate)
+        .map(flow => ({ date: flow.date, amount: -flow.amount }));
+
+      const priorDistributions = fundDistributions
+        .slice(0, i)
+        .filter(d => inScope(d.allocationId))
+        .map(d => ({ date: new Date(d.distributionDate), amount: Number(d.amount || 0) }));
+
+      const split = splitDistribution(
+        Number(distribution.amount || 0),
+        priorDistributions,
+        contributions,
+        waterfallTerms,
+        asOfDate
+      );
+
+      const values = {
+        distributionId: distribution.id,
+        fundId,
+        waterfallType: waterfallTerms.waterfallType,
+        returnOfCapital: String(split.returnOfCapital),
+        preferredReturn: String(split.preferredReturn),
+        gpCatchUp: String(split.gpCatchUp),
+        lpCarriedInterestShare: String(split.lpCarriedInterestShare),
+        gpCarriedInterest: String(split.gpCarriedInterest),
+        lpTotal: String(split.lpTotal),
+        gpTotal: String(split.gpTotal),
+        calculationTrace: split.trace as unknown as Record<string, any>,
+        calculatedAt: new Date()
+      };
+
+      const [row] = await db
+        .insert(distributionWaterfalls)
+        .values(values)
+        .onConflictDoUpdate({ target: distributionWaterfalls.distributionId, set: values })
+        .returning();
+
+      results.push(row);
+    }
+
+    return results;
+  }
+
+  /**
+   * Recalculate the fund that owns an allocation
+   */
+  async recalculateForAllocation(allocationId: number): Promise<DistributionWaterfall[]> {
+    const [allocation] = await db
+      .select({ fundId: fundAllocations.fundId })
+      .from(fundAllocations)
+      .where(eq(fundAllocations.id, allocationId));
+
+    if (!allocation) throw new NotFoundError('Allocation', allocationId);
+    return this.recalculateFund(allocation.fundId);
+  }
+
+  /**
+   * Get the stored waterfall breakdown for a distribution
+   */
+  async getDistributionWaterfall(distributionId: number): Promise<DistributionWaterfall | undefined> {
+    const [row] = await db
+      .select()
+      .from(distributionWaterfalls)
+      .where(eq(distributionWaterfalls.distributionId, distributionId));
+    return row;
+  }
+
+  /**
+   * Summarize LP/GP distributions and accrued carry for a fund
+   */
+  async getFundSummary(fundId: number): Promise<FundWaterfallSummary> {
+    const { isDefault: _isDefault, ...terms } = await this.getTerms(fundId);
+    const rows = await db
+      .select()
+      .from(distributionWaterfalls)
+      .where(eq(distributionWaterfalls.fundId, fundId));
+
+    const total = (field: 'lpTotal' | 'gpTotal' | 'gpCatchUp' | 'gpCarriedInterest') =>
+      rows.reduce((sum, row) => sum + Number(row[field] || 0), 0);
+
+    return {
+      fundId,
+      terms,
+      totalDistributed: total('lpTotal') + total('gpTotal'),
+      lpTotal: total('lpTotal'),
+      gpTotal: total('gpTotal'),
+      gpCatchUp: total('gpCatchUp'),
+      gpCarriedInterest: total('gpCarriedInterest'),
+      distributions: rows
+    };
+  }
+}
+
+// Export singleton instance
+export const waterfallService = new WaterfallService();
@@ -0,0 +1,346 @@
+/**
+ * Webhook Service
+ *
+ * Outbound webhooks for integrating other internal tools. Admins register a URL, the
+ * event types it wants and a signing secret; each matching domain event becomes one
+ * delivery row per subscription and a `webhook-delivery` job.
+ *
+ * Requests are JSON `{ id, type, createdAt, data }` POSTed with:
+ * - `X-Webhook-Event`      event type
+ * - `X-Webhook-Delivery`   delivery ID (changes on manual redelivery; `id` in the body does not)
+ * - `X-Webhook-Signature`  `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" with the secret>`
+ *
+ * Non-2xx responses and network errors are retried by the job queue with exponential
+ * backoff (30s, 1m, 2m, 4m, 8m); after the last attempt the delivery is marked failed.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  capitalCallPayments,
+  capitalCalls,
+  deals,
+  distributions,
+  fundAllocations,
+  webhookDeliveries,
+  webhookSubscriptions,
+  type WebhookDelivery,
+  type WebhookSubscription
+} from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { domainEvents } from './events/domain-events';
+import { jobQueue } from './queue-processor.service';
+import { NotFoundError, ValidationError } from './type-definitions';
+import { webhookSignatureHeader } from './webhooks/webhook-signature';
+
+export const WEBHOOK_EVENTS = [
+  'deal.created',
+  'deal.stage_changed',
+  'deal.rejected',
+  'allocation.created',
+  'allocation.updated',
+  'capital_call.created',
+  'capital_call.payment_recorded',
+  'distribution.created'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+export interface WebhookSubscriptionInput {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  secret?: string;
+  isActive?: boolean;
+}
+
+const MAX_ATTEMPTS = 6;
+const REQUEST_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 2048;
+
+const toView = ({ secret: _secret, ...subscription }: WebhookSubscription): WebhookSubscriptionView => subscription;
+
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+export class WebhookService {
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * Subscribe to the domain events that can be sent as webhooks
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers.push(
+      domainEvents.on('deal.created', async ({ dealId }) => {
+        const [deal] = await db.select().from(deals).where(eq(deals.id, dealId));
+        if (deal) await this.dispatch('deal.created', { deal });
+      }),
+      domainEvents.on('deal.stage_changed', async ({ dealId, fromStage, toStage, toCategory }) => {
+        const [deal] = await db.select().from(deals).where(eq(deals.id, dealId));
+        if (!deal) return;
+        await this.dispatch('deal.stage_changed', { deal, fromStage, toStage, toCategory });
+        if (toCategory === 'rejected') {
+          await this.dispatch('deal.rejected', { deal, fromStage, rejectionReason: deal.rejectionReason });
+        }
+      }),
+      domainEvents.on('allocation.created', async ({ allocationId }) => {
+        const [allocation] = await db.select().from(fundAllocations).where(eq(fundAllocations.id, allocationId));
+        if (allocation) await this.dispatch('allocation.created', { allocation });
+      }),
+      domainEvents.on('allocation.updated', async ({ allocationId, changes }) => {
+        const [allocation] = await db.select().from(fundAllocations).where(eq(fundAllocations.id, allocationId));
+        if (allocation) await this.dispatch('allocation.updated', { allocation, changes });
+      }),
+      domainEvents.on('capital_call.created', async ({ capitalCallId, dealId }) => {
+        const [capitalCall] = await db.select().from(capitalCalls).where(eq(capitalCalls.id, capitalCallId));
+        if (capitalCall) await this.dispatch('capital_call.created', { capitalCall, dealId });
+      }),
+      domainEvents.on('capital_call.payment_recorded', async ({ capitalCallId, paymentId }) => {
+        const [payment] = await db.select().from(capitalCallPayments).where(eq(capitalCallPayments.id, paymentId));
+        const [capitalCall] = await db.select().from(capitalCalls).where(eq(capitalCalls.id, capitalCallId));
+        if (payment) await this.dispatch('capital_call.payment_recorded', { payment, capitalCall: capitalCall ?? null });
+      }),
+      domainEvents.on('distribution.created', async ({ distributionId }) => {
+        const [distribution] = await db.select().from(distributions).where(eq(distributions.id, distributionId));
+        if (distribution) await this.dispatch('distribution.created', { distribution });
+      })
+    );
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscriptionView[]> {
+    const rows = await db.select().from(webhookSubscriptions).orderBy(webhookSubscriptions.id);
+    return rows.map(toView);
+  }
+
+  async getSubscription(id: number): Promise<WebhookSubscriptionView> {
+    return toView(await this.findSubscription(id));
+  }
+
+  /**
+   * Register a subscription. The secret is generated when not given and is only
+   * returned here and by rotateSecret.
+   */
+  async createSubscription(input: WebhookSubscriptionInput, userId: number): Promise<WebhookSubscription> {
+    this.validateUrl(input.url);
+
+    const [subscription] = await db.insert(webhookSubscriptions).values({
+      name: input.name,
+      url: input.url,
+      events: Array.from(new Set(input.events)),
+      secret: input.secret || generateSecret(),
+      isActive: input.isActive ?? true,
+      createdBy: userId
+    }).returning();
+    return subscription;
+  }
+
+  async updateSubscription(id: number, input: Partial<Omit<WebhookSubscriptionInput, 'secret'>>): Promise<WebhookSubscriptionView> {
+    await this.findSubscription(id);
+    if (input.url !== undefined) this.validateUrl(input.url);
+
+    const [subscription] = await db.update(webhookSubscriptions)
+      .set({
+        ...input,
+        ...(input.events ? { events: Array.from(new Set(input.events)) } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return toView(subscription);
+  }
+
+  async deleteSubscription(id: number): Promise<void> {
+    await this.findSubscription(id);
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+  }
+
+  async rotateSecret(id: number): Promise<WebhookSubscription> {
+    await this.findSubscription(id);
+    const [subscription] = await db.update(webhookSubscriptions)
+      .set({ secret: generateSecret(), updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async listDeliveries(subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+    await this.findSubscription(subscriptionId);
+    return db.select().from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  /**
+   * Record one delivery per active subscription for the event type and queue them.
+   * Returns the number of deliveries queued.
+   */
+  async dispatch(eventType: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+    const subscriptions = await db.select().from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.isActive, true));
+    const matching = subscriptions.filter(subscription => subscription.events.includes(eventType));
+    if (matching.length === 0) return 0;
+
+    const payload = {
+      id: `evt_${crypto.randomUUID()}`,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data
+    };
+
+    for (const subscription of matching) {
+      await this.queueDelivery({
+        subscriptionId: subscription.id,
+        eventId: payload.id,
+        eventType,
+        payload
+      });
+    }
+    return matching.length;
+  }
+
+  /**
+   * Send the same event again as a new delivery, e.g. after the receiver was fixed
+   */
+  async redeliver(deliveryId: number): Promise<WebhookDelivery> {
+    const [original] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+    if (!original) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+
+    return this.queueDelivery({
+      subscriptionId: original.subscriptionId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      redeliveryOf: original.id
+    });
+  }
+
+  /**
+   * Make one delivery attempt. Throws on a retryable failure so the job queue retries it.
+   */
+  async deliver(deliveryId: number): Promise<{ deliveryId: number; status: WebhookDelivery['status']; responseStatus?: number | null }> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+    if (delivery.status !== 'pending') {
+      return { deliveryId, status: delivery.status };
+    }
+
+    const [subscription] = await db.select().from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, delivery.subscriptionId));
+    if (!subscription?.isActive) {
+      await this.recordAttempt(delivery, 'failed', { errorMessage: 'Subscription is disabled' });
+      return { deliveryId, status: 'failed' };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'InvestmentPlatform-Webhooks/1.0',
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Signature': webhookSignatureHeader(subscription.secret, timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) errorMessage = `Receiver responded with HTTP ${response.status}`;
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const status = errorMessage === null ? 'succeeded' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+    await this.recordAttempt(delivery, status, {
+      responseStatus,
+      responseBody,
+      errorMessage,
+      durationMs: Date.now() - startedAt
+    });
+
+    if (status === 'pending') {
+      throw new Error(`Webhook delivery ${delivery.id} attempt ${attempts} failed: ${errorMessage}`);
+    }
+    return { deliveryId, status, responseStatus };
+  }
+
+  private async queueDelivery(values: {
+    subscriptionId: number;
+    eventId: string;
+    eventType: string;
+    payload: Record<string, any>;
+    redeliveryOf?: number;
+  }): Promise<WebhookDelivery> {
+    const [delivery] = await db.insert(webhookDeliveries).values(values).returning();
+    const jobId = await jobQueue.addJob('webhook-delivery', { deliveryId: delivery.id }, { maxAttempts: MAX_ATTEMPTS });
+
+    const [queued] = await db.update(webhookDeliveries)
+      .set({ jobId })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning();
+    return queued;
+  }
+
+  private async recordAttempt(
+    delivery: WebhookDelivery,
+    status: WebhookDelivery['status'],
+    result: Partial<Pick<WebhookDelivery, 'responseStatus' | 'responseBody' | 'errorMessage' | 'durationMs'>>
+  ): Promise<void> {
+    const now = new Date();
+    await db.update(webhookDeliveries)
+      .set({
+        ...result,
+        status,
+        attempts: delivery.attempts + 1,
+        lastAttemptAt: now,
+        completedAt: status === 'pending' ? null : now
+      })
+      .where(and(eq(webhookDeliveries.id, delivery.id), eq(webhookDeliveries.status, 'pending')));
+  }
+
+  private async findSubscription(id: number): Promise<WebhookSubscription> {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription', id);
+    }
+    return subscription;
+  }
+
+  private validateUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ValidationError('Webhook URL is not a valid URL', 'url');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new ValidationError('Webhook URL must use http or https', 'url');
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
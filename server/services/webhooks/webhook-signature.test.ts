@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { signWebhookPayload, webhookSignatureHeader } from './webhook-signature';
+
+const secret = 'whsec_test';
+const timestamp = 1700000000;
+const body = '{"id":"evt_1","type":"deal.created"}';
+const expected = '1796ca15f47ec1d8fb5adec44b11e05cd56700fa07a5ffe30652c88453439f82';
+
+describe('signWebhookPayload', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the secret', () => {
+    expect(signWebhookPayload(secret, timestamp, body)).toBe(expected);
+  });
+
+  it('changes with the secret, the timestamp and every byte of the body', () => {
+    expect(signWebhookPayload('whsec_other', timestamp, body)).not.toBe(expected);
+    expect(signWebhookPayload(secret, timestamp + 1, body)).not.toBe(expected);
+    expect(signWebhookPayload(secret, timestamp, body.replace('"id"', '"id" '))).not.toBe(expected);
+  });
+});
+
+describe('webhookSignatureHeader', () => {
+  it('carries the timestamp and the v1 signature', () => {
+    expect(webhookSignatureHeader(secret, timestamp, body)).toBe(`t=1700000000,v1=${expected}`);
+  });
+});
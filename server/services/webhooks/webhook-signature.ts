@@ -0,0 +1,16 @@
+/**
+ * Webhook Signature
+ *
+ * `X-Webhook-Signature` header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`
+ * keyed with the subscription secret. Receivers recompute v1 from the raw body to verify.
+ */
+
+import crypto from 'crypto';
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function webhookSignatureHeader(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
@@ -42,6 +42,7 @@ export interface IStorage {
   // Timeline events
   createTimelineEvent(event: InsertTimelineEvent): Promise<TimelineEvent>;
   getTimelineEventsByDeal(dealId: number): Promise<TimelineEvent[]>;
+  getRecentTimelineEvents(limit: number): Promise<TimelineEvent[]>;
   updateTimelineEvent(id: number, update: Partial<InsertTimelineEvent>): Promise<TimelineEvent | undefined>;
   deleteTimelineEvent(id: number): Promise<boolean>;
   
@@ -375,6 +376,12 @@ export class MemStorage implements IStorage {
       .filter(event => event.dealId === dealId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
+
+  async getRecentTimelineEvents(limit: number): Promise<TimelineEvent[]> {
+    return Array.from(this.timelineEvents.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
   
   async updateTimelineEvent(id: number, update: Partial<InsertTimelineEvent>): Promise<TimelineEvent | undefined> {
     const event = this.timelineEvents.get(id);
@@ -736,7 +743,10 @@ export class MemStorage implements IStorage {
       createdAt,
       type: notification.type || 'system',
       relatedId: notification.relatedId || null,
-      isRead: notification.isRead || null
+      isRead: notification.isRead || null,
+      dedupeKey: notification.dedupeKey || null,
+      inApp: notification.inApp ?? true,
+      includeInDigest: notification.includeInDigest ?? false
     };
     
     this.notifications.set(id, newNotification);
@@ -745,13 +755,13 @@ export class MemStorage implements IStorage {
 
   async getUserNotifications(userId: number): Promise<Notification[]> {
     return Array.from(this.notifications.values())
-      .filter(notification => notification.userId === userId)
+      .filter(notification => notification.userId === userId && notification.inApp)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
   async getUnreadNotificationsCount(userId: number): Promise<number> {
     return Array.from(this.notifications.values())
-      .filter(notification => notification.userId === userId && !notification.isRead)
+      .filter(notification => notification.userId === userId && notification.inApp && !notification.isRead)
       .length;
   }
 
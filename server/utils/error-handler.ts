@@ -1,3 +1,5 @@
+import { ApplicationError } from '../services/type-definitions';
+
 
 export class AppError extends Error {
   statusCode: number;
@@ -14,6 +16,20 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Send a service-layer error with its own status code, or a 500 with the fallback message
+ */
+export const sendServiceError = (res: any, error: unknown, fallback: string) => {
+  console.error(`${fallback}:`, error);
+  if (error instanceof ApplicationError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  return res.status(500).json({
+    error: fallback,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
+
 export const asyncHandler = (fn: any) => (req: any, res: any, next: any) => {
   Promise.resolve(fn(req, res, next)).catch(next);
 };
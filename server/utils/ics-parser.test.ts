@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcs } from './ics-parser';
+import { ValidationError } from '../services/type-definitions';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+const event = (...lines: string[]) => ['BEGIN:VEVENT', 'UID:evt-1@example.com', ...lines, 'END:VEVENT'];
+
+describe('parseIcs', () => {
+  it('reads an Outlook invite with attendees', () => {
+    const { method, events } = parseIcs(calendar(
+      'METHOD:REQUEST',
+      ...event(
+        'SUMMARY:IC review\\, Acme',
+        'DESCRIPTION:Agenda:\\nTerms\\; valuation',
+        'LOCATION:Room 4',
+        'DTSTART;TZID=Eastern Standard Time:20240311T100000',
+        'DTEND;TZID=Eastern Standard Time:20240311T110000',
+        'STATUS:CONFIRMED',
+        'SEQUENCE:2',
+        'ORGANIZER;CN="Lee, Sam":mailto:Sam.Lee@Example.com',
+        'ATTENDEE;CN=Ana Silva;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:ana@example.com',
+        'ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=TENTATIVE:mailto:bo@example.com',
+        'ATTENDEE;CN=Board room:room-4'
+      )
+    ));
+
+    expect(method).toBe('REQUEST');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      uid: 'evt-1@example.com',
+      summary: 'IC review, Acme',
+      description: 'Agenda:\nTerms; valuation',
+      location: 'Room 4',
+      status: 'CONFIRMED',
+      sequence: 2,
+      organizer: { email: 'sam.lee@example.com', name: 'Lee, Sam', role: 'organizer', status: 'accepted' },
+      attendees: [
+        { email: 'ana@example.com', name: 'Ana Silva', role: 'required', status: 'accepted' },
+        { email: 'bo@example.com', name: null, role: 'optional', status: 'tentative' },
+        { email: null, name: 'Board room', role: 'required', status: 'needs_action' }
+      ],
+      rrule: null,
+      recurrenceId: null
+    });
+  });
+
+  it('resolves TZID times to instants and keeps the wall clock', () => {
+    const [{ start, end }] = parseIcs(calendar(...event(
+      'DTSTART;TZID=America/New_York:20240311T100000',
+      'DTEND;TZID="Eastern Standard Time":20240311T110000'
+    ))).events;
+
+    expect(start).toEqual({ instant: at('2024-03-11T14:00:00'), wallClock: at('2024-03-11T10:00:00'), allDay: false, timeZone: 'America/New_York' });
+    expect(end?.instant).toEqual(at('2024-03-11T15:00:00'));
+  });
+
+  it('reads UTC, floating and unknown-zone times as UTC', () => {
+    const [utc, floating, unknown] = parseIcs(calendar(
+      ...event('DTSTART:20240311T100000Z'),
+      ...event('DTSTART:20240311T100000'),
+      ...event('DTSTART;TZID=Mars/Olympus_Mons:20240311T100000')
+    )).events;
+
+    for (const { start } of [utc, floating, unknown]) {
+      expect(start).toEqual({ instant: at('2024-03-11T10:00:00'), wallClock: at('2024-03-11T10:00:00'), allDay: false });
+    }
+  });
+
+  it('reads all-day dates', () => {
+    const [{ start }] = parseIcs(calendar(...event('DTSTART;VALUE=DATE:20240311'))).events;
+
+    expect(start).toMatchObject({ instant: at('2024-03-11T00:00:00'), allDay: true });
+  });
+
+  it('derives the end from DURATION', () => {
+    const [{ end }] = parseIcs(calendar(...event('DTSTART;TZID=America/New_York:20240311T100000', 'DURATION:PT1H30M'))).events;
+
+    expect(end).toMatchObject({ instant: at('2024-03-11T15:30:00'), wallClock: at('2024-03-11T11:30:00'), timeZone: 'America/New_York' });
+  });
+
+  it('reads recurring series, their exceptions and changed occurrences', () => {
+    const [series, changed] = parseIcs(calendar(
+      ...event(
+        'DTSTART:20240304T150000Z',
+        'RRULE:FREQ=WEEKLY;COUNT=4',
+        'EXDATE:20240311T150000Z,20240318T150000Z',
+        'EXDATE:20240325T150000Z'
+      ),
+      ...event('RECURRENCE-ID:20240311T150000Z', 'DTSTART:20240312T150000Z')
+    )).events;
+
+    expect(series.rrule).toBe('FREQ=WEEKLY;COUNT=4');
+    expect(series.exdates).toEqual([at('2024-03-11T15:00:00'), at('2024-03-18T15:00:00'), at('2024-03-25T15:00:00')]);
+    expect(changed.recurrenceId).toEqual(at('2024-03-11T15:00:00'));
+  });
+
+  it('unfolds lines and skips alarms and time zone definitions', () => {
+    const [parsed] = parseIcs('\uFEFF' + calendar(
+      'BEGIN:VTIMEZONE',
+      'TZID:Eastern Standard Time',
+      'END:VTIMEZONE',
+      ...event(
+        'DTSTART:20240311T100000Z',
+        'SUMMARY:Quarterly portfolio review with the investment',
+        '  committee',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM'
+      )
+    ).replace(/\r\n/g, '\n')).events;
+
+    expect(parsed.summary).toBe('Quarterly portfolio review with the investment committee');
+    expect(parsed.description).toBeNull();
+  });
+
+  it('rejects files that are not calendars and events without a UID or start', () => {
+    expect(() => parseIcs('BEGIN:VCARD\r\nEND:VCARD')).toThrow(ValidationError);
+    expect(() => parseIcs(calendar('BEGIN:VEVENT', 'DTSTART:20240311T100000Z', 'END:VEVENT'))).toThrow('missing a UID');
+    expect(() => parseIcs(calendar(...event('SUMMARY:No start')))).toThrow('missing DTSTART');
+    expect(() => parseIcs(calendar(...event('DTSTART:2024-03-11')))).toThrow('Invalid DTSTART value');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * iCalendar (RFC 5545) parsing for imported invites
+ *
+ * Reads the VEVENTs of a .ics file as sent by Outlook, Google Calendar and Apple Calendar:
+ * start/end in UTC, floating or TZID local time (IANA or common Windows zone names), all-day
+ * dates, organizer and attendees with their participation status, RRULE/EXDATE for recurring
+ * series and RECURRENCE-ID for changed occurrences. VTIMEZONE definitions are not read;
+ * zone offsets come from the runtime's time zone database instead.
+ */
+
+import { ValidationError } from '../services/type-definitions';
+import { resolveTimeZone, zonedTimeToInstant } from './time-zones';
+
+export type IcsParticipationStatus = 'needs_action' | 'accepted' | 'declined' | 'tentative';
+
+export interface IcsParticipant {
+  email: string | null;
+  name: string | null;
+  role: 'organizer' | 'required' | 'optional';
+  status: IcsParticipationStatus;
+}
+
+export interface IcsDateValue {
+  /** The instant, resolved through the time zone when there is one */
+  instant: Date;
+  /** Local date and time as written, in the UTC fields of a Date (for recurrence expansion) */
+  wallClock: Date;
+  allDay: boolean;
+  /** IANA zone the value was written in; undefined for UTC and floating times */
+  timeZone?: string;
+}
+
+export interface ParsedIcsEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED' | null;
+  sequence: number;
+  organizer: IcsParticipant | null;
+  attendees: IcsParticipant[];
+  /** RRULE value without the "RRULE:" prefix */
+  rrule: string | null;
+  exdates: Date[];
+  /** Original start of the occurrence this event overrides */
+  recurrenceId: Date | null;
+}
+
+export interface ParsedIcsCalendar {
+  method: string | null;
+  events: ParsedIcsEvent[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const PARTSTAT: Record<string, IcsParticipationStatus> = {
+  'NEEDS-ACTION': 'needs_action',
+  'ACCEPTED': 'accepted',
+  'DECLINED': 'declined',
+  'TENTATIVE': 'tentative'
+};
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/** Split a content line into name, parameters and value; colons inside quoted parameters are kept */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const head = line.slice(0, separator);
+  const value = line.slice(separator + 1);
+  const segments = head.match(/(?:[^;"]|"[^"]*")+/g) || [];
+  const [name, ...paramParts] = segments;
+  if (!name) return null;
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const equals = part.indexOf('=');
+    if (equals === -1) continue;
+    params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value };
+}
+
+function parseDateValue(line: ContentLine): IcsDateValue {
+  const raw = line.value.trim();
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new ValidationError(`Invalid ${line.name} value "${raw}" in calendar file`, line.name);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = new Date(Date.UTC(+year, +month - 1, +day, +(hour ?? 0), +(minute ?? 0), +(second ?? 0)));
+
+  if (hour === undefined || line.params.VALUE === 'DATE') {
+    return { instant: wallClock, wallClock, allDay: true };
+  }
+  if (utc) {
+    return { instant: wallClock, wallClock, allDay: false };
+  }
+
+  // Unknown zones and floating times are read as UTC rather than rejecting the whole file
+  const timeZone = line.params.TZID ? resolveTimeZone(line.params.TZID) : undefined;
+  if (!timeZone) {
+    return { instant: wallClock, wallClock, allDay: false };
+  }
+  return { instant: zonedTimeToInstant(wallClock, timeZone), wallClock, allDay: false, timeZone };
+}
+
+/** EXDATE may hold several comma-separated values on one line */
+function parseDateList(line: ContentLine): Date[] {
+  return line.value.split(',')
+    .filter(Boolean)
+    .map(value => parseDateValue({ ...line, value }).instant);
+}
+
+function parseParticipant(line: ContentLine, organizer: boolean): IcsParticipant {
+  const address = line.value.trim().replace(/^mailto:/i, '');
+  return {
+    email: address.includes('@') ? address.toLowerCase() : null,
+    name: line.params.CN ? unescapeText(line.params.CN) : null,
+    role: organizer ? 'organizer' : line.params.ROLE === 'OPT-PARTICIPANT' || line.params.ROLE === 'NON-PARTICIPANT' ? 'optional' : 'required',
+    // The organizer of an invite is attending their own meeting
+    status: organizer ? 'accepted' : PARTSTAT[(line.params.PARTSTAT || '').toUpperCase()] ?? 'needs_action'
+  };
+}
+
+function parseEvent(lines: ContentLine[]): ParsedIcsEvent {
+  const startLine = lines.find(line => line.name === 'DTSTART');
+  const event: ParsedIcsEvent = {
+    uid: lines.find(line => line.name === 'UID')?.value.trim() ?? '',
+    summary: '',
+    description: null,
+    location: null,
+    start: startLine ? parseDateValue(startLine) : { instant: new Date(NaN), wallClock: new Date(NaN), allDay: false },
+    end: null,
+    status: null,
+    sequence: 0,
+    organizer: null,
+    attendees: [],
+    rrule: null,
+    exdates: [],
+    recurrenceId: null
+  };
+  let duration: number | null = null;
+
+  for (const line of lines) {
+    switch (line.name) {
+      case 'SUMMARY': event.summary = unescapeText(line.value).trim(); break;
+      case 'DESCRIPTION': event.description = unescapeText(line.value).trim() || null; break;
+      case 'LOCATION': event.location = unescapeText(line.value).trim() || null; break;
+      case 'DTEND': event.end = parseDateValue(line); break;
+      case 'DURATION': duration = parseDuration(line.value); break;
+      case 'STATUS': {
+        const status = line.value.trim().toUpperCase();
+        if (status === 'TENTATIVE' || status === 'CONFIRMED' || status === 'CANCELLED') event.status = status;
+        break;
+      }
+      case 'SEQUENCE': event.sequence = parseInt(line.value, 10) || 0; break;
+      case 'ORGANIZER': event.organizer = parseParticipant(line, true); break;
+      case 'ATTENDEE': event.attendees.push(parseParticipant(line, false)); break;
+      case 'RRULE': event.rrule = line.value.trim(); break;
+      case 'EXDATE': event.exdates.push(...parseDateList(line)); break;
+      case 'RECURRENCE-ID': event.recurrenceId = parseDateValue(line).instant; break;
+    }
+  }
+
+  if (!event.uid) {
+    throw new ValidationError('Calendar event is missing a UID', 'UID');
+  }
+  if (!startLine) {
+    throw new ValidationError(`Calendar event ${event.uid} is missing DTSTART`, 'DTSTART');
+  }
+  if (!event.end && duration !== null) {
+    const instant = new Date(event.start.instant.getTime() + duration);
+    event.end = { ...event.start, instant, wallClock: new Date(event.start.wallClock.getTime() + duration) };
+  }
+
+  return event;
+}
+
+/** DURATION such as PT1H30M, P1D or -PT15M, in milliseconds */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = ((((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes) * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parse the events of an iCalendar document. Lines are unfolded first; components other than
+ * VEVENT (VTIMEZONE, VALARM, VTODO) are skipped.
+ */
+export function parseIcs(text: string): ParsedIcsCalendar {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ValidationError('Not an iCalendar file: BEGIN:VCALENDAR is missing', 'file');
+  }
+
+  const calendar: ParsedIcsCalendar = { method: null, events: [] };
+  const stack: string[] = [];
+  let eventLines: ContentLine[] | null = null;
+
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      const component = line.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === 'VEVENT' && stack.length === 2) eventLines = [];
+      continue;
+    }
+    if (line.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT' && eventLines) {
+        calendar.events.push(parseEvent(eventLines));
+        eventLines = null;
+      }
+      continue;
+    }
+
+    // Only the event's own properties, not those of a nested VALARM
+    if (eventLines && stack.length === 2) {
+      eventLines.push(line);
+    } else if (stack.length === 1 && line.name === 'METHOD') {
+      calendar.method = line.value.trim().toUpperCase();
+    }
+  }
+
+  return calendar;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, escapeText, foldLine, formatDate, formatDateTime } from './ics';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeText('IC; Q1, agenda\\notes\r\nline two')).toBe('IC\\; Q1\\, agenda\\\\notes\\nline two');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'x'.repeat(67)}`;
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds at 75 octets, counting the leading space of continuations', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`).split('\r\n');
+
+    expect(folded.map(part => part.length)).toEqual([75, 75, 64]);
+    expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line).split('\r\n');
+
+    expect(folded.every(part => Buffer.byteLength(part, 'utf8') <= 75)).toBe(true);
+    expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('formatDateTime and formatDate', () => {
+  it('write UTC values in basic format', () => {
+    expect(formatDateTime(at('2026-10-19T07:00:00.250'))).toBe('20261019T070000Z');
+    expect(formatDate(at('2026-10-19T23:30:00'))).toBe('20261019');
+  });
+});
+
+describe('buildCalendar', () => {
+  const now = at('2026-10-19T12:00:00');
+
+  it('publishes events with CRLF line endings and the feed refresh hints', () => {
+    const ics = buildCalendar({
+      name: 'Deal calendar',
+      description: 'Meetings, deadlines',
+      refreshIntervalMinutes: 15,
+      events: [{
+        uid: 'meeting-1@platform',
+        summary: 'IC meeting',
+        description: 'Agenda:\nAcme',
+        location: 'Room 4',
+        url: 'https://deals.example.com/deals/1',
+        start: at('2026-10-20T14:00:00'),
+        status: 'CONFIRMED',
+        categories: ['Meeting', 'IC'],
+        lastModified: at('2026-10-18T09:30:00')
+      }]
+    }, now);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Investment Platform//Calendar Feed//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Deal calendar',
+      'X-WR-CALDESC:Meetings\\, deadlines',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+      'X-PUBLISHED-TTL:PT15M',
+      'BEGIN:VEVENT',
+      'UID:meeting-1@platform',
+      'DTSTAMP:20261019T120000Z',
+      'DTSTART:20261020T140000Z',
+      // One hour unless an end is given
+      'DTEND:20261020T150000Z',
+      'SUMMARY:IC meeting',
+      'DESCRIPTION:Agenda:\\nAcme',
+      'LOCATION:Room 4',
+      'URL:https://deals.example.com/deals/1',
+      'STATUS:CONFIRMED',
+      'CATEGORIES:Meeting,IC',
+      'LAST-MODIFIED:20261018T093000Z',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      ''
+    ]);
+  });
+
+  it('writes all-day events as dates ending the next day', () => {
+    const ics = buildCalendar({
+      name: 'Deadlines',
+      events: [{ uid: 'call-1@platform', summary: 'Capital call due', start: at('2026-11-01T00:00:00'), allDay: true }]
+    }, now);
+
+    expect(ics).toContain('\r\nDTSTART;VALUE=DATE:20261101\r\nDTEND;VALUE=DATE:20261102\r\n');
+    expect(ics).toContain('\r\nREFRESH-INTERVAL;VALUE=DURATION:PT60M\r\n');
+    expect(ics).not.toContain('X-WR-CALDESC');
+  });
+
+  it('ignores an end that is not after the start', () => {
+    const ics = buildCalendar({
+      name: 'Deals',
+      events: [{ uid: 'm@platform', summary: 'Call', start: at('2026-10-20T14:00:00'), end: at('2026-10-20T13:00:00') }]
+    }, now);
+
+    expect(ics).toContain('\r\nDTEND:20261020T150000Z\r\n');
+  });
+});
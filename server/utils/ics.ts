@@ -0,0 +1,126 @@
+/**
+ * iCalendar (RFC 5545) helpers for calendar feeds
+ */
+
+export interface IcsEvent {
+  /** Stable across feed refreshes so calendar apps update events instead of duplicating them */
+  uid: string;
+  summary: string;
+  description?: string | null;
+  url?: string;
+  location?: string | null;
+  start: Date;
+  /** Defaults to one hour after start, or the next day for all-day events */
+  end?: Date;
+  allDay?: boolean;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  categories?: string[];
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  events: IcsEvent[];
+  /** Hint for how often subscribers should re-fetch the feed */
+  refreshIntervalMinutes?: number;
+}
+
+const PRODUCT_ID = '-//Investment Platform//Calendar Feed//EN';
+const MAX_LINE_OCTETS = 75;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with CRLF + space. Never splits a UTF-8 sequence.
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** UTC date-time, e.g. 20261019T070000Z */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Calendar date in UTC, e.g. 20261019 */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`
+  ];
+
+  if (event.allDay) {
+    const end = event.end && event.end > event.start ? event.end : new Date(event.start.getTime() + DAY_MS);
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+  } else {
+    const end = event.end && event.end > event.start ? event.end : new Date(event.start.getTime() + HOUR_MS);
+    lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Serialize a VCALENDAR with CRLF line endings
+ */
+export function buildCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const stamp = formatDateTime(now);
+  const refresh = calendar.refreshIntervalMinutes ?? 60;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    ...(calendar.description ? [`X-WR-CALDESC:${escapeText(calendar.description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`,
+    ...calendar.events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { expandRRule, expandSeries, formatRRule, isSeriesOccurrence, parseRRule, splitSeries } from './rrule';
+import { ValidationError } from '../services/type-definitions';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+const expand = (rule: string, start: string, to: string, options: { from?: string; exclude?: string[] } = {}) =>
+  iso(expandRRule(parseRRule(rule), at(start), {
+    to: at(to),
+    from: options.from ? at(options.from) : undefined,
+    exclude: options.exclude?.map(at)
+  }));
+
+describe('parseRRule', () => {
+  it('reads every supported part, with or without the prefix', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=5;BYDAY=2MO,-1FR;BYMONTH=1,7;BYSETPOS=1;WKST=SU')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      count: 5,
+      byDay: [{ weekday: 1, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      byMonth: [1, 7],
+      bySetPos: [1],
+      weekStart: 0
+    });
+    expect(parseRRule('freq=weekly;byday=mo,we')).toEqual({
+      freq: 'WEEKLY',
+      interval: 1,
+      byDay: [{ weekday: 1 }, { weekday: 3 }],
+      weekStart: 1
+    });
+  });
+
+  it('reads UNTIL as a UTC date-time or as the end of a date', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20241231T120000Z').until).toEqual(at('2024-12-31T12:00:00'));
+    expect(parseRRule('FREQ=DAILY;UNTIL=20241231').until).toEqual(at('2024-12-31T23:59:59'));
+  });
+
+  it('rejects what it cannot expand', () => {
+    for (const rule of ['FREQ=HOURLY', 'INTERVAL=2', 'FREQ=DAILY;INTERVAL=0', 'FREQ=DAILY;COUNT=0', 'FREQ=WEEKLY;BYDAY=XX',
+      'FREQ=MONTHLY;BYMONTHDAY=0', 'FREQ=YEARLY;BYMONTH=13', 'FREQ=DAILY;UNTIL=tomorrow', 'FREQ=WEEKLY;WKST=XX']) {
+      expect(() => parseRRule(rule), rule).toThrow(ValidationError);
+    }
+  });
+});
+
+describe('formatRRule', () => {
+  it('writes back what it parsed, leaving out defaults', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;UNTIL=20261231T235959Z;BYDAY=MO,-1FR;BYMONTHDAY=1,-1;WKST=SU';
+    expect(formatRRule(parseRRule(rule))).toBe(rule);
+    expect(formatRRule(parseRRule('FREQ=DAILY;INTERVAL=1;WKST=MO'))).toBe('FREQ=DAILY');
+  });
+});
+
+describe('expandRRule', () => {
+  it('repeats weekly on the listed days until COUNT runs out', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4', '2024-01-01T10:00:00', '2024-12-31T00:00:00')).toEqual([
+      '2024-01-01T10:00:00.000Z',
+      '2024-01-03T10:00:00.000Z',
+      '2024-01-08T10:00:00.000Z',
+      '2024-01-10T10:00:00.000Z'
+    ]);
+  });
+
+  it('only includes the start when it matches the rule', () => {
+    // 2024-01-01 is a Monday
+    expect(expand('FREQ=WEEKLY;BYDAY=FR;COUNT=2', '2024-01-01T10:00:00', '2024-12-31T00:00:00')).toEqual([
+      '2024-01-05T10:00:00.000Z',
+      '2024-01-12T10:00:00.000Z'
+    ]);
+  });
+
+  it('skips months without the start day', () => {
+    expect(expand('FREQ=MONTHLY', '2024-01-31T09:00:00', '2024-06-30T00:00:00')).toEqual([
+      '2024-01-31T09:00:00.000Z',
+      '2024-03-31T09:00:00.000Z',
+      '2024-05-31T09:00:00.000Z'
+    ]);
+  });
+
+  it('picks nth weekdays within the month and with BYSETPOS', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3', '2024-01-01T09:00:00', '2024-12-31T00:00:00')).toEqual([
+      '2024-01-26T09:00:00.000Z',
+      '2024-02-23T09:00:00.000Z',
+      '2024-03-29T09:00:00.000Z'
+    ]);
+    // Last weekday of the month
+    expect(expand('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3', '2024-01-01T09:00:00', '2024-12-31T00:00:00')).toEqual([
+      '2024-01-31T09:00:00.000Z',
+      '2024-02-29T09:00:00.000Z',
+      '2024-03-29T09:00:00.000Z'
+    ]);
+  });
+
+  it('repeats yearly within BYMONTH', () => {
+    // Fourth Thursday of November
+    expect(expand('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', '2024-01-01T12:00:00', '2025-12-31T00:00:00')).toEqual([
+      '2024-11-28T12:00:00.000Z',
+      '2025-11-27T12:00:00.000Z'
+    ]);
+  });
+
+  it('stops at UNTIL and at the end of the window', () => {
+    expect(expand('FREQ=DAILY;UNTIL=20240103T100000Z', '2024-01-01T10:00:00', '2024-12-31T00:00:00')).toHaveLength(3);
+    expect(expand('FREQ=DAILY', '2024-01-01T10:00:00', '2024-01-02T10:00:00')).toHaveLength(2);
+  });
+
+  it('counts skipped and excluded occurrences towards COUNT', () => {
+    expect(expand('FREQ=DAILY;COUNT=5', '2024-01-01T10:00:00', '2024-12-31T00:00:00', {
+      from: '2024-01-03T00:00:00',
+      exclude: ['2024-01-04T10:00:00']
+    })).toEqual(['2024-01-03T10:00:00.000Z', '2024-01-05T10:00:00.000Z']);
+  });
+
+  it('gives up on rules that never match', () => {
+    expect(expand('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2024-01-01T10:00:00', '9999-12-31T00:00:00')).toEqual([]);
+  });
+});
+
+describe('expandSeries', () => {
+  // Weekly at 10:00 in New York; clocks went forward on 2024-03-10
+  const rule = 'FREQ=WEEKLY;COUNT=3';
+  const start = at('2024-03-04T15:00:00');
+
+  it('keeps the local time across daylight saving changes', () => {
+    expect(iso(expandSeries(rule, start, 'America/New_York', { to: at('2024-12-31T00:00:00') }))).toEqual([
+      '2024-03-04T15:00:00.000Z',
+      '2024-03-11T14:00:00.000Z',
+      '2024-03-18T14:00:00.000Z'
+    ]);
+  });
+
+  it('repeats in UTC without a time zone', () => {
+    expect(iso(expandSeries(rule, start, null, { to: at('2024-12-31T00:00:00') }))[1]).toBe('2024-03-11T15:00:00.000Z');
+  });
+
+  it('recognizes its own occurrences', () => {
+    expect(isSeriesOccurrence(rule, start, 'America/New_York', at('2024-03-11T14:00:00'))).toBe(true);
+    expect(isSeriesOccurrence(rule, start, 'America/New_York', at('2024-03-11T15:00:00'))).toBe(false);
+    expect(isSeriesOccurrence(rule, start, 'America/New_York', at('2024-03-25T14:00:00'))).toBe(false);
+  });
+});
+
+describe('splitSeries', () => {
+  const start = at('2024-01-01T09:00:00');
+
+  it('ends the head just before the split and carries the rest of COUNT to the tail', () => {
+    expect(splitSeries('FREQ=DAILY;COUNT=5', start, null, at('2024-01-03T09:00:00'))).toEqual({
+      head: 'FREQ=DAILY;UNTIL=20240103T085959Z',
+      tail: 'FREQ=DAILY;COUNT=3'
+    });
+  });
+
+  it('has no head when splitting at the first occurrence', () => {
+    expect(splitSeries('FREQ=WEEKLY;BYDAY=MO', start, null, start)).toEqual({ head: null, tail: 'FREQ=WEEKLY;BYDAY=MO' });
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * RFC 5545 recurrence rules (RRULE): parsing, serializing and expanding into occurrence dates
+ *
+ * Supports FREQ DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL, BYDAY (including
+ * ordinals like 2MO or -1FR), BYMONTHDAY, BYMONTH, BYSETPOS and WKST. Expansion works on
+ * wall-clock times held in the UTC fields of a Date; pass `toInstant` to map them to real
+ * instants when the series is anchored in a time zone, so occurrences keep their local time across DST.
+ */
+
+import { ValidationError } from '../services/type-definitions';
+import { instantToWallClock, zonedTimeToInstant } from './time-zones';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+  /** nth occurrence within the month (or year); negative counts from the end */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  /** First day of the week, 0 = Sunday; defaults to Monday */
+  weekStart: number;
+}
+
+export interface ExpandOptions {
+  /** Occurrences before this instant are skipped (they still count towards COUNT) */
+  from?: Date;
+  /** Occurrences after this instant are not generated */
+  to: Date;
+  /** Instants removed from the series (EXDATE) */
+  exclude?: Date[];
+  /** Hard cap on returned occurrences */
+  limit?: number;
+  /** Map a wall-clock time to its instant; identity for UTC series */
+  toInstant?: (wallClock: Date) => Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Safety net for rules that never produce a match (e.g. BYMONTHDAY=31 with BYMONTH=2)
+const MAX_PERIODS = 10000;
+const DEFAULT_LIMIT = 1000;
+
+const parseNumberList = (value: string, name: string, min: number, max: number): number[] =>
+  value.split(',').map(part => {
+    const number = parseInt(part, 10);
+    if (isNaN(number) || (number === 0 && min < 0) || number < min || number > max) {
+      throw new ValidationError(`Invalid ${name} value "${part}" in recurrence rule`, 'recurrenceRule');
+    }
+    return number;
+  });
+
+/** UNTIL is either a date (20261231) or a UTC date-time (20261231T235959Z) */
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new ValidationError(`Invalid UNTIL value "${value}" in recurrence rule`, 'recurrenceRule');
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * Parse an RRULE value, with or without the "RRULE:" prefix
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, ...rest] = part.split('=');
+    parts.set(key.toUpperCase(), rest.join('=').toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new ValidationError(`Unsupported recurrence frequency "${freq ?? ''}"`, 'recurrenceRule');
+  }
+
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!, 10) : 1;
+  if (isNaN(interval) || interval < 1) {
+    throw new ValidationError('INTERVAL must be a positive number', 'recurrenceRule');
+  }
+
+  const rule: RecurrenceRule = { freq, interval, weekStart: 1 };
+
+  if (parts.has('COUNT')) {
+    rule.count = parseInt(parts.get('COUNT')!, 10);
+    if (isNaN(rule.count) || rule.count < 1) {
+      throw new ValidationError('COUNT must be a positive number', 'recurrenceRule');
+    }
+  }
+  if (parts.has('UNTIL')) rule.until = parseUntil(parts.get('UNTIL')!);
+  if (parts.has('BYDAY')) {
+    rule.byDay = parts.get('BYDAY')!.split(',').map(part => {
+      const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) {
+        throw new ValidationError(`Invalid BYDAY value "${part}" in recurrence rule`, 'recurrenceRule');
+      }
+      const weekday = WEEKDAYS.indexOf(match[2]);
+      return match[1] ? { weekday, ordinal: parseInt(match[1], 10) } : { weekday };
+    });
+  }
+  if (parts.has('BYMONTHDAY')) rule.byMonthDay = parseNumberList(parts.get('BYMONTHDAY')!, 'BYMONTHDAY', -31, 31);
+  if (parts.has('BYMONTH')) rule.byMonth = parseNumberList(parts.get('BYMONTH')!, 'BYMONTH', 1, 12);
+  if (parts.has('BYSETPOS')) rule.bySetPos = parseNumberList(parts.get('BYSETPOS')!, 'BYSETPOS', -366, 366);
+  if (parts.has('WKST')) {
+    const weekStart = WEEKDAYS.indexOf(parts.get('WKST')!);
+    if (weekStart === -1) {
+      throw new ValidationError('Invalid WKST value in recurrence rule', 'recurrenceRule');
+    }
+    rule.weekStart = weekStart;
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to RRULE syntax (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAYS[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/** Day-of-month candidates for one month, before time of day is applied */
+function monthDays(rule: RecurrenceRule, year: number, month: number, startDay: number): number[] {
+  const length = daysInMonth(year, month);
+
+  if (rule.byMonthDay?.length) {
+    let days = rule.byMonthDay
+      .map(day => day > 0 ? day : length + day + 1)
+      .filter(day => day >= 1 && day <= length);
+    if (rule.byDay?.length) {
+      days = days.filter(day => rule.byDay!.some(byDay => byDay.weekday === new Date(Date.UTC(year, month, day)).getUTCDay()));
+    }
+    return days;
+  }
+
+  if (rule.byDay?.length) {
+    const days: number[] = [];
+    for (const byDay of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === byDay.weekday) matching.push(day);
+      }
+      if (byDay.ordinal === undefined) {
+        days.push(...matching);
+      } else {
+        const day = byDay.ordinal > 0 ? matching[byDay.ordinal - 1] : matching[matching.length + byDay.ordinal];
+        if (day !== undefined) days.push(day);
+      }
+    }
+    return days;
+  }
+
+  // Months without the start's day (e.g. the 31st) are skipped, as RFC 5545 requires
+  return startDay <= length ? [startDay] : [];
+}
+
+/** Candidate dates (midnight, UTC fields) for the period starting at periodStart */
+function periodCandidates(rule: RecurrenceRule, periodStart: Date, start: Date): Date[] {
+  const year = periodStart.getUTCFullYear();
+  const month = periodStart.getUTCMonth();
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const ok = (!rule.byDay?.length || rule.byDay.some(day => day.weekday === periodStart.getUTCDay()))
+        && (!rule.byMonthDay?.length || monthDays(rule, year, month, 0).includes(periodStart.getUTCDate()));
+      return ok ? [periodStart] : [];
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.byDay?.length ? rule.byDay.map(day => day.weekday) : [start.getUTCDay()];
+      return Array.from({ length: 7 }, (_, i) => new Date(periodStart.getTime() + i * DAY_MS))
+        .filter(day => weekdays.includes(day.getUTCDay()));
+    }
+    case 'MONTHLY':
+      return monthDays(rule, year, month, start.getUTCDate()).map(day => new Date(Date.UTC(year, month, day)));
+    case 'YEARLY': {
+      if (!rule.byMonth?.length && rule.byDay?.length && !rule.byMonthDay?.length) {
+        // BYDAY ordinals count within the whole year when no BYMONTH narrows it down
+        const days: Date[] = [];
+        const yearLength = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+        for (const byDay of rule.byDay) {
+          const matching: Date[] = [];
+          for (let i = 0; i < yearLength; i++) {
+            const day = new Date(Date.UTC(year, 0, 1 + i));
+            if (day.getUTCDay() === byDay.weekday) matching.push(day);
+          }
+          if (byDay.ordinal === undefined) {
+            days.push(...matching);
+          } else {
+            const day = byDay.ordinal > 0 ? matching[byDay.ordinal - 1] : matching[matching.length + byDay.ordinal];
+            if (day) days.push(day);
+          }
+        }
+        return days;
+      }
+      const months = rule.byMonth?.length ? rule.byMonth.map(m => m - 1) : [start.getUTCMonth()];
+      return months.flatMap(m => monthDays(rule, year, m, start.getUTCDate()).map(day => new Date(Date.UTC(year, m, day))));
+    }
+  }
+}
+
+/** Start of the period containing `date`, advanced by `steps` periods */
+function periodStart(rule: RecurrenceRule, date: Date, steps: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (rule.freq) {
+    case 'DAILY':
+      return new Date(Date.UTC(year, month, date.getUTCDate() + steps));
+    case 'WEEKLY': {
+      const offset = (date.getUTCDay() - rule.weekStart + 7) % 7;
+      return new Date(Date.UTC(year, month, date.getUTCDate() - offset + steps * 7));
+    }
+    case 'MONTHLY':
+      return new Date(Date.UTC(year, month + steps, 1));
+    case 'YEARLY':
+      return new Date(Date.UTC(year + steps, 0, 1));
+  }
+}
+
+/**
+ * Expand a rule anchored at `start` (DTSTART, wall-clock in UTC fields) into occurrence instants,
+ * sorted ascending. The start itself is only included when it matches the rule.
+ */
+export function expandRRule(rule: RecurrenceRule, start: Date, options: ExpandOptions): Date[] {
+  const toInstant = options.toInstant ?? ((date: Date) => date);
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const excluded = new Set((options.exclude || []).map(date => date.getTime()));
+  const timeOfDay = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const periodDate = periodStart(rule, start, period * rule.interval);
+    let candidates = periodCandidates(rule, periodDate, start)
+      .filter(day => !rule.byMonth?.length || rule.byMonth.includes(day.getUTCMonth() + 1))
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    if (rule.bySetPos?.length) {
+      const all = candidates;
+      candidates = rule.bySetPos
+        .map(pos => pos > 0 ? all[pos - 1] : all[all.length + pos])
+        .filter((day): day is Date => day !== undefined)
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+
+    for (const day of candidates) {
+      const wallClock = new Date(day.getTime() + timeOfDay);
+      if (wallClock < start) continue;
+
+      const instant = toInstant(wallClock);
+      if (rule.until && instant > rule.until) return occurrences;
+      if (instant > options.to) return occurrences;
+
+      generated++;
+      if (!excluded.has(instant.getTime()) && (!options.from || instant >= options.from)) {
+        occurrences.push(instant);
+        if (occurrences.length >= limit) return occurrences;
+      }
+      if (rule.count !== undefined && generated >= rule.count) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Occurrences of a stored series whose first occurrence is the instant `start`, repeating in the
+ * local time of `timeZone` (UTC when not set)
+ */
+export function expandSeries(
+  rule: string | RecurrenceRule,
+  start: Date,
+  timeZone: string | null | undefined,
+  options: Omit<ExpandOptions, 'toInstant'>
+): Date[] {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  if (!timeZone) {
+    return expandRRule(parsed, start, options);
+  }
+  return expandRRule(parsed, instantToWallClock(start, timeZone), {
+    ...options,
+    toInstant: wallClock => zonedTimeToInstant(wallClock, timeZone)
+  });
+}
+
+/**
+ * Whether `date` is one of the series' occurrences (ignoring exceptions)
+ */
+export function isSeriesOccurrence(rule: string, start: Date, timeZone: string | null | undefined, date: Date): boolean {
+  return expandSeries(rule, start, timeZone, { from: date, to: date, limit: 1 })
+    .some(occurrence => occurrence.getTime() === date.getTime());
+}
+
+/**
+ * Split a series at one of its occurrences for "this and following" edits. The head keeps the
+ * occurrences before `splitAt` (UNTIL just before it, COUNT dropped); the tail rule repeats from
+ * `splitAt` with whatever is left of COUNT. The head is null when nothing comes before the split.
+ */
+export function splitSeries(
+  rule: string,
+  start: Date,
+  timeZone: string | null | undefined,
+  splitAt: Date
+): { head: string | null; tail: string } {
+  const parsed = parseRRule(rule);
+  const before = expandSeries(parsed, start, timeZone, {
+    to: new Date(splitAt.getTime() - 1),
+    limit: parsed.count ?? DEFAULT_LIMIT
+  });
+
+  const tail: RecurrenceRule = {
+    ...parsed,
+    count: parsed.count !== undefined ? Math.max(parsed.count - before.length, 1) : undefined
+  };
+  if (before.length === 0) {
+    return { head: null, tail: formatRRule(tail) };
+  }
+
+  const head: RecurrenceRule = { ...parsed, count: undefined, until: new Date(splitAt.getTime() - 1000) };
+  return { head: formatRRule(head), tail: formatRRule(tail) };
+}
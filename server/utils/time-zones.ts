@@ -0,0 +1,99 @@
+/**
+ * Time zone conversions for recurring events and imported invites
+ *
+ * Dates are stored as instants, but recurrence happens in local time: a weekly 10:00 meeting
+ * in New York stays at 10:00 when daylight saving time changes. These helpers move between
+ * instants and "wall-clock" times held in the UTC fields of a Date, using the runtime's
+ * time zone database.
+ */
+
+// Outlook and Exchange write Windows zone names instead of IANA ones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'UTC': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'E. South America Standard Time': 'America/Sao_Paulo'
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a TZID to an IANA zone: IANA names pass through, Windows names are translated and
+ * vendor-prefixed ids like "/mozilla.org/20070129_1/Europe/London" are reduced to the zone
+ */
+export function resolveTimeZone(tzid: string): string | undefined {
+  const trimmed = tzid.trim().replace(/^"|"$/g, '');
+  if (WINDOWS_TIME_ZONES[trimmed]) return WINDOWS_TIME_ZONES[trimmed];
+  if (isValidTimeZone(trimmed)) return trimmed;
+  const suffix = trimmed.match(/([A-Za-z_]+\/[A-Za-z_+-]+)$/)?.[1];
+  return suffix && isValidTimeZone(suffix) ? suffix : undefined;
+}
+
+/** Offset of a zone from UTC at an instant, in milliseconds */
+function zoneOffset(instant: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which a zone's clocks show `wallClock` (held in UTC fields). Times skipped by a
+ * DST change resolve to the later offset, like most calendar apps.
+ */
+export function zonedTimeToInstant(wallClock: Date, timeZone: string): Date {
+  const firstGuess = wallClock.getTime() - zoneOffset(wallClock, timeZone);
+  const offset = zoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock.getTime() - offset);
+}
+
+/** The local date and time a zone's clocks show at an instant, in the UTC fields of a Date */
+export function instantToWallClock(instant: Date, timeZone: string): Date {
+  return new Date(instant.getTime() + zoneOffset(instant, timeZone));
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, numeric, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, numeric, date, unique, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -25,9 +26,9 @@ export const deals = pgTable("deals", {
   name: text("name").notNull(),
   description: text("description").default(""), // Allow empty description
   sector: text("sector").default(""), // Allow empty sector
-  stage: text("stage", { 
-    enum: ["initial_review", "screening", "diligence", "ic_review", "closing", "closed", "invested", "rejected"]
-  }).notNull().default("initial_review"),
+  pipelineId: integer("pipeline_id").references(() => pipelines.id), // Null means the default pipeline
+  stage: text("stage").notNull().default("initial_review"), // Key of a stage in the deal's pipeline
+  boardPosition: integer("board_position"), // Order within its kanban column; null until the deal is first placed
   rejectionReason: text("rejection_reason"),
   rejectionCategory: text("rejection_category"),
   rejectionData: jsonb("rejection_data").$type<{
@@ -64,6 +65,62 @@ export const insertDealSchema = createInsertSchema(deals).omit({
   updatedAt: true,
 });
 
+// Gate rules a deal must pass before it can enter a pipeline stage
+export const STAGE_GATE_RULE_TYPES = ["min_mini_memos", "due_diligence_complete", "ic_vote_passed"] as const;
+
+export type StageGateRule =
+  | { type: "min_mini_memos"; count: number }
+  // Items default to every DEFAULT_DUE_DILIGENCE_CHECKLIST item; an item counts once any mini memo ticks it
+  | { type: "due_diligence_complete"; items?: string[] }
+  // More approvals than rejections, with at least minVotes non-abstaining votes cast
+  | { type: "ic_vote_passed"; minVotes?: number };
+
+// Pipelines - Admin-defined deal pipelines (e.g. venture, credit), each with ordered stages
+export const pipelines = pgTable("pipelines", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // At most one default pipeline; deals without a pipeline follow it
+  uniqueIndex("pipelines_single_default").on(table.isDefault).where(sql`${table.isDefault}`),
+]);
+
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  pipelineId: integer("pipeline_id").notNull().references(() => pipelines.id, { onDelete: "cascade" }),
+  key: text("key").notNull(), // Stored in deals.stage
+  label: text("label").notNull(),
+  color: text("color").notNull().default("neutral"), // neutral, primary, info, success, warning or danger
+  category: text("category", { enum: ["active", "invested", "rejected"] }).notNull().default("active"),
+  position: integer("position").notNull(),
+  gateRules: jsonb("gate_rules").$type<StageGateRule[]>().notNull().default([]),
+}, (table) => [
+  unique("pipeline_stages_pipeline_key").on(table.pipelineId, table.key),
+]);
+
+export type Pipeline = typeof pipelines.$inferSelect;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+
+// Investment committee votes - One vote per member per deal, checked by "ic_vote_passed" gates
+export const dealIcVotes = pgTable("deal_ic_votes", {
+  id: serial("id").primaryKey(),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  vote: text("vote", { enum: ["approve", "reject", "abstain"] }).notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("deal_ic_votes_deal_user").on(table.dealId, table.userId),
+]);
+
+export type DealIcVote = typeof dealIcVotes.$inferSelect;
+
 // Documents - Investment documents (pitch decks, financial models, legal docs)
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
@@ -72,7 +129,7 @@ export const documents = pgTable("documents", {
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
   filePath: text("file_path"),
-  fileData: text("file_data"), // Store actual file content as binary data (using text for drizzle compatibility)
+  fileData: text("file_data"), // Legacy only: documents uploaded before versioning; newer files live in document_versions
   uploadedBy: integer("uploaded_by").notNull().references(() => users.id, { onDelete: "restrict" }),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   description: text("description"),
@@ -88,12 +145,96 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   uploadedAt: true,
 });
 
+// Document versions - Every uploaded revision of a document and its file content
+export const documentVersions = pgTable("document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  fileName: text("file_name").notNull(),
+  fileType: text("file_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  filePath: text("file_path"), // Legacy filesystem documents only
+  fileData: text("file_data"), // Base64, same encoding as documents.fileData
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id, { onDelete: "restrict" }),
+  uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
+  changeNote: text("change_note"),
+  restoredFromVersion: integer("restored_from_version"),
+}, (table) => [
+  unique("document_versions_document_version").on(table.documentId, table.version),
+]);
+
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+
+// Deal Q&A retrieval index - Which version of each document its chunks were built from
+export const documentIndexes = pgTable("document_indexes", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().unique().references(() => documents.id, { onDelete: "cascade" }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  status: text("status", { enum: ["indexed", "unsupported", "failed"] }).notNull(),
+  chunkCount: integer("chunk_count").notNull().default(0),
+  error: text("error"),
+  indexedAt: timestamp("indexed_at").notNull().defaultNow(),
+});
+
+// Searchable text chunks of a document, with where in the document each came from for citations
+export const documentChunks = pgTable("document_chunks", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  page: integer("page"), // PDF page, from 1
+  sheet: text("sheet"), // Spreadsheet sheet name
+  rowStart: integer("row_start"), // Spreadsheet row numbers as Excel shows them
+  rowEnd: integer("row_end"),
+  tokenCount: integer("token_count").notNull(),
+});
+
+export type DocumentIndex = typeof documentIndexes.$inferSelect;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+
+// AI conversation threads on a deal - Private to their author until shared
+export const aiThreads = pgTable("ai_threads", {
+  id: serial("id").primaryKey(),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id, { onDelete: "restrict" }),
+  shared: boolean("shared").notNull().default(false),
+  forkedFromThreadId: integer("forked_from_thread_id"), // Thread this one was copied from
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type AiThread = typeof aiThreads.$inferSelect;
+
+// AI deal analyses - Each question and answer, saved as the answer streams so partial answers survive disconnects
+export const aiAnalyses = pgTable("ai_analyses", {
+  id: serial("id").primaryKey(),
+  threadId: integer("thread_id").notNull().references(() => aiThreads.id, { onDelete: "cascade" }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "restrict" }),
+  query: text("query"), // null for a general analysis
+  response: text("response").notNull().default(""),
+  status: text("status", { enum: ["streaming", "completed", "cancelled", "failed"] }).notNull().default("streaming"),
+  error: text("error"),
+  citations: jsonb("citations").$type<Record<string, any>[]>().notNull().default([]),
+  dataSourcesUsed: jsonb("data_sources_used").$type<string[]>().notNull().default([]),
+  model: text("model").notNull(),
+  provider: text("provider").notNull(),
+  pinnedEventId: integer("pinned_event_id").references(() => timelineEvents.id, { onDelete: "set null" }), // ai_analysis timeline event
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type AiAnalysis = typeof aiAnalyses.$inferSelect;
+
 // Timeline events for deals
 export const timelineEvents = pgTable("timeline_events", {
   id: serial("id").primaryKey(),
   dealId: integer("deal_id").notNull(),
   eventType: text("event_type", { 
-    enum: ["note", "stage_change", "document_upload", "memo_added", "star_added", "ai_analysis", "deal_creation", "closing_scheduled", "capital_call", "capital_call_update"]
+    enum: ["note", "stage_change", "document_upload", "memo_added", "star_added", "ai_analysis", "deal_creation", "closing_scheduled", "capital_call", "capital_call_update", "email_received", "meeting_scheduled"]
   }).notNull(),
   content: text("content"),
   createdBy: integer("created_by").notNull(),
@@ -252,8 +393,18 @@ export const meetings = pgTable("meetings", {
   dealId: integer("deal_id").notNull(),
   title: text("title").notNull(),
   date: timestamp("date").notNull(),
+  endDate: timestamp("end_date"),
+  location: text("location"),
+  // Display summary of the attendee list; meeting_attendees holds the structured rows
   attendees: text("attendees"),
   notes: text("notes"),
+  source: text("source", { enum: ["manual", "ics_import"] }).notNull().default("manual"),
+  // iCalendar UID and RECURRENCE-ID of imported events, so re-importing an invite updates instead of duplicating
+  externalUid: text("external_uid"),
+  recurrenceId: text("recurrence_id"),
+  // RRULE of a recurring series; `date` is then the first occurrence and `timeZone` the zone its local time repeats in
+  recurrenceRule: text("recurrence_rule"),
+  timeZone: text("time_zone"),
   createdBy: integer("created_by").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -268,18 +419,61 @@ export const insertMeetingSchema = createInsertSchema(meetings)
   .extend({
     // Convert ISO string dates to Date objects for Zod validation
     date: z.string().transform(val => new Date(val)),
+    endDate: z.string().transform(val => new Date(val)).nullish(),
   });
 
+// Internal users (userId set) and external contacts invited to a meeting
+export const meetingAttendees = pgTable("meeting_attendees", {
+  id: serial("id").primaryKey(),
+  meetingId: integer("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  // External contacts may be known by name only
+  email: text("email"),
+  name: text("name"),
+  role: text("role", { enum: ["organizer", "required", "optional"] }).notNull().default("required"),
+  rsvpStatus: text("rsvp_status", { enum: ["needs_action", "accepted", "declined", "tentative"] }).notNull().default("needs_action"),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("meeting_attendees_meeting_email").on(table.meetingId, table.email),
+]);
+
+// Exceptions to a recurring meeting: a cancelled occurrence or one with changed details
+export const meetingOccurrenceOverrides = pgTable("meeting_occurrence_overrides", {
+  id: serial("id").primaryKey(),
+  meetingId: integer("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+  occurrenceDate: timestamp("occurrence_date").notNull(), // Start the occurrence has under the series rule
+  cancelled: boolean("cancelled").notNull().default(false),
+  title: text("title"),
+  date: timestamp("date"),
+  endDate: timestamp("end_date"),
+  location: text("location"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("meeting_occurrence_overrides_meeting_date").on(table.meetingId, table.occurrenceDate),
+]);
+
+export type MeetingOccurrenceOverride = typeof meetingOccurrenceOverrides.$inferSelect;
+
+export type MeetingAttendee = typeof meetingAttendees.$inferSelect;
+export type RsvpStatus = MeetingAttendee['rsvpStatus'];
+export type AttendeeRole = MeetingAttendee['role'];
+
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   title: text("title").notNull(),
   message: text("message").notNull(),
   type: text("type", { 
-    enum: ["deal", "memo", "assignment", "system"] 
+    enum: ["deal", "memo", "assignment", "system", "stage_change", "capital_call", "closing"] 
   }).notNull().default("system"),
   relatedId: integer("related_id"),
   isRead: boolean("is_read").default(false),
+  dedupeKey: text("dedupe_key"), // Set by the notification engine to suppress repeats
+  inApp: boolean("in_app").notNull().default(true), // False when the user only wants this by email or digest
+  includeInDigest: boolean("include_in_digest").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -288,6 +482,45 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+// Per-user delivery channels for each notification category; missing rows fall back to role defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: text("category", {
+    enum: ["deal", "memo", "assignment", "stage_change", "capital_call", "closing"]
+  }).notNull(),
+  inApp: boolean("in_app").notNull().default(true),
+  email: boolean("email").notNull().default(false),
+  digest: boolean("digest").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("notification_preferences_user_category").on(table.userId, table.category),
+]);
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+// Digest email schedule per user; a null frequency means the role default applies
+export const digestSubscriptions = pgTable("digest_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  frequency: text("frequency", { enum: ["off", "daily", "weekly"] }),
+  lastSentAt: timestamp("last_sent_at"), // Start of the most recent digest slot claimed for this user
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type DigestSubscription = typeof digestSubscriptions.$inferSelect;
+export type DigestFrequency = NonNullable<DigestSubscription['frequency']>;
+
+// Secret per-user token in the SMTP ingest address; mail is credited to the user whose token it was sent to
+export const emailIngestTokens = pgTable("email_ingest_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type EmailIngestToken = typeof emailIngestTokens.$inferSelect;
+
 // Capital Calls - Track capital calls for investments
 export const capitalCalls = pgTable("capital_calls", {
   id: serial("id").primaryKey(),
@@ -319,6 +552,58 @@ export const insertCapitalCallSchema = createInsertSchema(capitalCalls).omit({
   allocationId: z.number().positive("Allocation ID is required"),
 });
 
+// Recurring capital calls for an allocation; occurrences become capital_calls rows shortly before their call date
+export const capitalCallSchedules = pgTable("capital_call_schedules", {
+  id: serial("id").primaryKey(),
+  allocationId: integer("allocation_id").notNull().references(() => fundAllocations.id, { onDelete: "cascade" }),
+  recurrenceRule: text("recurrence_rule").notNull(),
+  startDate: timestamp("start_date").notNull(), // Call date of the first occurrence
+  callAmount: real("call_amount").notNull(), // Amount called at each occurrence
+  amountType: text("amount_type", { enum: ["percentage", "dollar"] }).notNull().default("percentage"),
+  dueDays: integer("due_days").notNull().default(30), // Days from call date to due date
+  notes: text("notes"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCapitalCallScheduleSchema = createInsertSchema(capitalCallSchedules).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  startDate: z.union([z.string(), z.date()]).transform(val => new Date(val)),
+  callAmount: z.number().positive("Call amount must be greater than 0"),
+  allocationId: z.number().positive("Allocation ID is required"),
+  dueDays: z.number().int().min(0).optional(),
+  // Defaults to the configured call frequency
+  recurrenceRule: z.string().optional(),
+});
+
+// Exceptions to a capital call schedule; capitalCallId is set once the occurrence has been issued
+export const capitalCallScheduleOverrides = pgTable("capital_call_schedule_overrides", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull().references(() => capitalCallSchedules.id, { onDelete: "cascade" }),
+  occurrenceDate: timestamp("occurrence_date").notNull(),
+  cancelled: boolean("cancelled").notNull().default(false),
+  callDate: timestamp("call_date"),
+  dueDate: timestamp("due_date"),
+  callAmount: real("call_amount"),
+  notes: text("notes"),
+  capitalCallId: integer("capital_call_id").references(() => capitalCalls.id, { onDelete: "set null" }),
+  issueClaimedAt: timestamp("issue_claimed_at"), // Set by the sweep that issues the occurrence, before the call is created
+  issueError: text("issue_error"), // Why issuing failed; the occurrence is not retried until it is edited
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("capital_call_schedule_overrides_schedule_date").on(table.scheduleId, table.occurrenceDate),
+]);
+
+export type CapitalCallSchedule = typeof capitalCallSchedules.$inferSelect;
+export type InsertCapitalCallSchedule = z.infer<typeof insertCapitalCallScheduleSchema>;
+export type CapitalCallScheduleOverride = typeof capitalCallScheduleOverrides.$inferSelect;
+
 // Capital Call Payments - Track individual payments against capital calls
 export const capitalCallPayments = pgTable("capital_call_payments", {
   id: serial("id").primaryKey(),
@@ -459,8 +744,8 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 
-// Helper enum for stages display
-export const DealStageLabels: Record<Deal['stage'], string> = {
+// Stage labels and colors of the default pipeline; other pipelines define their own
+export const DealStageLabels: Record<string, string> = {
   initial_review: "Initial Review",
   screening: "Screening",
   diligence: "Diligence",
@@ -471,8 +756,7 @@ export const DealStageLabels: Record<Deal['stage'], string> = {
   rejected: "Rejected"
 };
 
-// Helper for stage colors
-export const DealStageColors: Record<Deal['stage'], string> = {
+export const DealStageColors: Record<string, string> = {
   initial_review: "neutral",
   screening: "neutral",
   diligence: "primary",
@@ -556,3 +840,415 @@ export const insertDevilsAdvocateCommentSchema = createInsertSchema(devilsAdvoca
 
 export type DevilsAdvocateComment = typeof devilsAdvocateComments.$inferSelect;
 export type InsertDevilsAdvocateComment = z.infer<typeof insertDevilsAdvocateCommentSchema>;
+
+
+// Limited Partners - Investors in the platform's funds
+export const limitedPartners = pgTable("limited_partners", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  entityType: text("entity_type", {
+    enum: ["individual", "family_office", "institution", "endowment", "pension", "fund_of_funds", "other"]
+  }).notNull().default("individual"),
+  contactName: text("contact_name"),
+  contactEmail: text("contact_email"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLimitedPartnerSchema = createInsertSchema(limitedPartners).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type LimitedPartner = typeof limitedPartners.$inferSelect;
+export type InsertLimitedPartner = z.infer<typeof insertLimitedPartnerSchema>;
+
+// LP Commitments - Each LP's commitment to a specific fund
+export const lpCommitments = pgTable("lp_commitments", {
+  id: serial("id").primaryKey(),
+  fundId: integer("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
+  limitedPartnerId: integer("limited_partner_id").notNull().references(() => limitedPartners.id, { onDelete: "cascade" }),
+  commitmentAmount: real("commitment_amount").notNull(),
+  commitmentDate: timestamp("commitment_date").notNull().defaultNow(),
+  status: text("status", { enum: ["active", "transferred", "defaulted"] }).notNull().default("active"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLpCommitmentSchema = createInsertSchema(lpCommitments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type LpCommitment = typeof lpCommitments.$inferSelect;
+export type InsertLpCommitment = z.infer<typeof insertLpCommitmentSchema>;
+
+// LP Capital Call Allocations - Pro-rata share of a capital call owed by each LP
+export const lpCapitalCallAllocations = pgTable("lp_capital_call_allocations", {
+  id: serial("id").primaryKey(),
+  capitalCallId: integer("capital_call_id").notNull().references(() => capitalCalls.id, { onDelete: "cascade" }),
+  lpCommitmentId: integer("lp_commitment_id").notNull().references(() => lpCommitments.id, { onDelete: "cascade" }),
+  limitedPartnerId: integer("limited_partner_id").notNull().references(() => limitedPartners.id, { onDelete: "cascade" }),
+  callAmount: real("call_amount").notNull(), // Includes the LP's share of any management fees called
+  feeAmount: real("fee_amount").notNull().default(0), // Management fee portion of callAmount
+  proRataShare: real("pro_rata_share").notNull(), // 0-1 share of active fund commitments
+  paidAmount: real("paid_amount").notNull().default(0),
+  paidDate: timestamp("paid_date"),
+  status: text("status", { enum: ["called", "partially_paid", "paid", "defaulted"] }).notNull().default("called"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLpCapitalCallAllocationSchema = createInsertSchema(lpCapitalCallAllocations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type LpCapitalCallAllocation = typeof lpCapitalCallAllocations.$inferSelect;
+export type InsertLpCapitalCallAllocation = z.infer<typeof insertLpCapitalCallAllocationSchema>;
+
+// LP Capital Call Payments - Individual payments received from an LP against their call share
+export const lpCapitalCallPayments = pgTable("lp_capital_call_payments", {
+  id: serial("id").primaryKey(),
+  lpCallAllocationId: integer("lp_call_allocation_id").notNull().references(() => lpCapitalCallAllocations.id, { onDelete: "cascade" }),
+  paymentAmount: real("payment_amount").notNull(),
+  paymentDate: timestamp("payment_date").notNull().defaultNow(),
+  paymentType: text("payment_type", { enum: ["wire", "check", "ach", "other"] }).default("wire"),
+  notes: text("notes"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLpCapitalCallPaymentSchema = createInsertSchema(lpCapitalCallPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type LpCapitalCallPayment = typeof lpCapitalCallPayments.$inferSelect;
+export type InsertLpCapitalCallPayment = z.infer<typeof insertLpCapitalCallPaymentSchema>;
+
+// Fund Waterfall Configs - Distribution waterfall terms per fund
+export const fundWaterfallConfigs = pgTable("fund_waterfall_configs", {
+  id: serial("id").primaryKey(),
+  fundId: integer("fund_id").notNull().unique().references(() => funds.id, { onDelete: "cascade" }),
+  waterfallType: text("waterfall_type", { enum: ["european", "american"] }).notNull().default("european"),
+  preferredReturnRate: real("preferred_return_rate").notNull().default(0.08), // Annual hurdle, decimal
+  catchUpPercentage: real("catch_up_percentage").notNull().default(1), // GP share of the catch-up tier, decimal
+  carriedInterestRate: real("carried_interest_rate").notNull().default(0.2), // GP carry, decimal
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFundWaterfallConfigSchema = createInsertSchema(fundWaterfallConfigs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type FundWaterfallConfig = typeof fundWaterfallConfigs.$inferSelect;
+export type InsertFundWaterfallConfig = z.infer<typeof insertFundWaterfallConfigSchema>;
+
+// Distribution Waterfalls - LP/GP tranche breakdown of each distribution with its calculation trace
+export const distributionWaterfalls = pgTable("distribution_waterfalls", {
+  id: serial("id").primaryKey(),
+  distributionId: integer("distribution_id").notNull().unique().references(() => distributions.id, { onDelete: "cascade" }),
+  fundId: integer("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
+  waterfallType: text("waterfall_type", { enum: ["european", "american"] }).notNull(),
+  returnOfCapital: numeric("return_of_capital", { precision: 14, scale: 2 }).notNull().default("0"),
+  preferredReturn: numeric("preferred_return", { precision: 14, scale: 2 }).notNull().default("0"),
+  gpCatchUp: numeric("gp_catch_up", { precision: 14, scale: 2 }).notNull().default("0"),
+  lpCarriedInterestShare: numeric("lp_carried_interest_share", { precision: 14, scale: 2 }).notNull().default("0"),
+  gpCarriedInterest: numeric("gp_carried_interest", { precision: 14, scale: 2 }).notNull().default("0"),
+  lpTotal: numeric("lp_total", { precision: 14, scale: 2 }).notNull().default("0"),
+  gpTotal: numeric("gp_total", { precision: 14, scale: 2 }).notNull().default("0"),
+  calculationTrace: jsonb("calculation_trace").$type<Record<string, any>>().default({}),
+  calculatedAt: timestamp("calculated_at").notNull().defaultNow(),
+});
+
+export type DistributionWaterfall = typeof distributionWaterfalls.$inferSelect;
+
+// Management Fee Schedules - Fee terms per fund
+export const managementFeeSchedules = pgTable("management_fee_schedules", {
+  id: serial("id").primaryKey(),
+  fundId: integer("fund_id").notNull().unique().references(() => funds.id, { onDelete: "cascade" }),
+  feeStartDate: date("fee_start_date").notNull(),
+  investmentPeriodEndDate: date("investment_period_end_date").notNull(),
+  investmentPeriodRate: real("investment_period_rate").notNull().default(0.02), // Annual rate on commitments, decimal
+  postInvestmentRate: real("post_investment_rate").notNull().default(0.015), // Annual rate on invested capital, decimal
+  // Rate step-downs after the investment period, applied from each effective date
+  stepDowns: jsonb("step_downs").$type<Array<{ effectiveDate: string; rate: number }>>().default([]),
+  offsetPercentage: real("offset_percentage").notNull().default(1), // Share of fee income credited against fees, decimal
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertManagementFeeScheduleSchema = createInsertSchema(managementFeeSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ManagementFeeSchedule = typeof managementFeeSchedules.$inferSelect;
+export type InsertManagementFeeSchedule = z.infer<typeof insertManagementFeeScheduleSchema>;
+
+// Management Fee Offsets - Transaction, monitoring or director fees credited against management fees
+export const managementFeeOffsets = pgTable("management_fee_offsets", {
+  id: serial("id").primaryKey(),
+  fundId: integer("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
+  offsetDate: date("offset_date").notNull(),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  description: text("description"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertManagementFeeOffsetSchema = createInsertSchema(managementFeeOffsets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ManagementFeeOffset = typeof managementFeeOffsets.$inferSelect;
+export type InsertManagementFeeOffset = z.infer<typeof insertManagementFeeOffsetSchema>;
+
+// Management Fee Accruals - Quarterly fee history per fund
+export const managementFeeAccruals = pgTable("management_fee_accruals", {
+  id: serial("id").primaryKey(),
+  fundId: integer("fund_id").notNull().references(() => funds.id, { onDelete: "cascade" }),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  basis: text("basis", { enum: ["commitment", "invested_capital"] }).notNull(),
+  basisAmount: numeric("basis_amount", { precision: 14, scale: 2 }).notNull(),
+  rate: real("rate").notNull(),
+  grossFee: numeric("gross_fee", { precision: 14, scale: 2 }).notNull(),
+  offsetAmount: numeric("offset_amount", { precision: 14, scale: 2 }).notNull().default("0"),
+  netFee: numeric("net_fee", { precision: 14, scale: 2 }).notNull(),
+  status: text("status", { enum: ["accrued", "called", "paid"] }).notNull().default("accrued"),
+  capitalCallId: integer("capital_call_id").references(() => capitalCalls.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // One accrual per fund and period; re-accruing updates it in place
+  unique("management_fee_accruals_fund_period").on(table.fundId, table.periodStart),
+]);
+
+export type ManagementFeeAccrual = typeof managementFeeAccruals.$inferSelect;
+
+// Valuation Marks - Dated fair-value history per allocation
+export const valuationMarks = pgTable("valuation_marks", {
+  id: serial("id").primaryKey(),
+  allocationId: integer("allocation_id").notNull().references(() => fundAllocations.id, { onDelete: "cascade" }),
+  markDate: date("mark_date").notNull(),
+  value: real("value").notNull(),
+  method: text("method", { enum: ["cost", "last_round", "dcf", "comparables"] }).notNull(),
+  notes: text("notes"),
+  supportingDocumentIds: jsonb("supporting_document_ids").$type<number[]>().default([]),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  approvedBy: integer("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ValuationMark = typeof valuationMarks.$inferSelect;
+export type ValuationMethod = ValuationMark['method'];
+
+// Benchmark Indices - Public market index series imported from CSV for PME comparisons
+export const benchmarkIndices = pgTable("benchmark_indices", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const benchmarkIndexValues = pgTable("benchmark_index_values", {
+  id: serial("id").primaryKey(),
+  indexId: integer("index_id").notNull().references(() => benchmarkIndices.id, { onDelete: "cascade" }),
+  valueDate: date("value_date").notNull(),
+  value: real("value").notNull(), // Total-return index level
+});
+
+export type BenchmarkIndex = typeof benchmarkIndices.$inferSelect;
+export type BenchmarkIndexValue = typeof benchmarkIndexValues.$inferSelect;
+
+// Generated Reports - Portfolio reports rendered by the report-generation job
+export const generatedReports = pgTable("generated_reports", {
+  id: serial("id").primaryKey(),
+  reportType: text("report_type", { enum: ["portfolio_overview", "performance_analysis", "sector_distribution"] }).notNull(),
+  format: text("format", { enum: ["pdf", "xlsx"] }).notNull(),
+  parameters: jsonb("parameters").$type<{ fundId?: number; asOfDate?: string }>().default({}),
+  status: text("status", { enum: ["queued", "processing", "completed", "failed"] }).notNull().default("queued"),
+  progress: integer("progress").notNull().default(0), // Percent complete
+  jobId: integer("job_id"),
+  fileName: text("file_name"),
+  filePath: text("file_path"),
+  fileSize: integer("file_size"),
+  errorMessage: text("error_message"),
+  requestedBy: integer("requested_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type GeneratedReport = typeof generatedReports.$inferSelect;
+export type ReportType = GeneratedReport['reportType'];
+export type ReportFormat = GeneratedReport['format'];
+
+// Deal Imports - Bulk deal imports from CSV/Excel with column mapping and per-row results
+export const dealImports = pgTable("deal_imports", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path").notNull(),
+  sheetName: text("sheet_name"),
+  columns: jsonb("columns").$type<string[]>().default([]),
+  totalRows: integer("total_rows").notNull().default(0),
+  // Spreadsheet column -> deal field
+  mapping: jsonb("mapping").$type<Record<string, string>>().default({}),
+  skipInvalid: boolean("skip_invalid").notNull().default(false),
+  status: text("status", { enum: ["uploaded", "queued", "processing", "completed", "failed"] }).notNull().default("uploaded"),
+  jobId: integer("job_id"),
+  importedCount: integer("imported_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  rowErrors: jsonb("row_errors").$type<Array<{ rowNumber: number; errors: string[] }>>().default([]),
+  errorMessage: text("error_message"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type DealImport = typeof dealImports.$inferSelect;
+
+// Where in a term sheet an extracted term was read from
+export const termSourceSchema = z.object({
+  quote: z.string(),
+  page: z.number().int().nullable(),
+  sheet: z.string().nullable(),
+  rowStart: z.number().int().nullable(),
+  rowEnd: z.number().int().nullable(),
+  verified: z.boolean() // the quote was found in the document text
+});
+
+function extractedTermSchema<T extends z.ZodTypeAny>(value: T) {
+  return z.object({
+    value: value.nullable(), // null when the term sheet does not state it
+    confidence: z.number().min(0).max(1),
+    source: termSourceSchema.nullable()
+  });
+}
+
+export const TERM_SHEET_SECURITY_TYPES = ["preferred_equity", "common_equity", "safe", "convertible_note", "other"] as const;
+
+// Terms read from a term sheet; amounts are whole currency units
+export const termSheetTermsSchema = z.object({
+  preMoneyValuation: extractedTermSchema(z.number()),
+  postMoneyValuation: extractedTermSchema(z.number()),
+  raiseAmount: extractedTermSchema(z.number()),
+  currency: extractedTermSchema(z.string()), // ISO 4217 code
+  round: extractedTermSchema(z.string()),
+  leadInvestor: extractedTermSchema(z.string()),
+  securityType: extractedTermSchema(z.enum(TERM_SHEET_SECURITY_TYPES)),
+  liquidationPreference: extractedTermSchema(z.object({
+    multiple: z.number(),
+    participating: z.boolean(),
+    cap: z.number().nullable() // participation cap as a multiple
+  })),
+  proRataRights: extractedTermSchema(z.boolean()),
+  boardSeats: extractedTermSchema(z.number().int()), // seats for the round's investors
+  vesting: extractedTermSchema(z.object({
+    months: z.number().int(),
+    cliffMonths: z.number().int().nullable(),
+    acceleration: z.string().nullable()
+  }))
+});
+
+export type TermSheetTerms = z.infer<typeof termSheetTermsSchema>;
+export type TermSheetTermKey = keyof TermSheetTerms;
+
+// A deal or allocation field a term sheet would change, as shown for review
+export interface TermSheetChange {
+  target: "deal" | "allocation";
+  targetId: number;
+  field: string;
+  term: TermSheetTermKey;
+  current: string | null;
+  proposed: string;
+  confidence: number;
+}
+
+// Term sheet extractions - Terms read from a term_sheet document by the term-sheet-extraction job,
+// reviewed before they update the deal or an allocation
+export const termSheetExtractions = pgTable("term_sheet_extractions", {
+  id: serial("id").primaryKey(),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  documentVersion: integer("document_version").notNull(),
+  status: text("status", { enum: ["queued", "processing", "extracted", "accepted", "rejected", "failed"] }).notNull().default("queued"),
+  jobId: integer("job_id"),
+  terms: jsonb("terms").$type<TermSheetTerms>(),
+  model: text("model"),
+  provider: text("provider"),
+  errorMessage: text("error_message"),
+  appliedChanges: jsonb("applied_changes").$type<TermSheetChange[]>().notNull().default([]),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+export type TermSheetExtraction = typeof termSheetExtractions.$inferSelect;
+
+// Webhook subscriptions - Outbound HTTP callbacks for platform events, managed by admins
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  events: jsonb("events").$type<string[]>().notNull().default([]),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing key, only returned on create and rotate
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+// Webhook deliveries - One row per event per subscription; a manual redelivery gets a new row
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  eventId: text("event_id").notNull(), // Same across redeliveries so receivers can dedupe
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  status: text("status", { enum: ["pending", "succeeded", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Truncated
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms"),
+  redeliveryOf: integer("redelivery_of"),
+  jobId: integer("job_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// Calendar feeds - Tokenized iCalendar subscription URLs; the token is the only credential calendar apps send
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  scope: text("scope", { enum: ["all", "my_deals", "fund"] }).notNull().default("all"),
+  fundId: integer("fund_id").references(() => funds.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+});
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type CalendarFeedScope = CalendarFeed['scope'];